@@ -0,0 +1,115 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { calcularNivelSocio, normalizeConfiguracionFidelizacion } from '../../src/lib/loyalty-points';
+import { SocioLevel } from '../../src/types/socio';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const MAX_BATCH_WRITES = 450;
+
+/**
+ * Recalcula a diario los puntos de cada socio dentro de la ventana que
+ * configura su asociación y aplica ascensos y descensos de nivel.
+ * Los puntos más viejos que la ventana dejan de contar, por eso un socio
+ * inactivo puede bajar de nivel.
+ */
+export const actualizarNivelesSocios = functions.pubsub
+  .schedule('0 3 * * *') // Todos los días a las 3 AM
+  .timeZone('America/Argentina/Buenos_Aires')
+  .onRun(async () => {
+    const db = admin.firestore();
+    const now = admin.firestore.Timestamp.now();
+
+    try {
+      console.log('🏅 Actualizando niveles de fidelización...');
+
+      const asociaciones = await db.collection('asociaciones').get();
+      let promovidos = 0;
+      let descendidos = 0;
+      let actualizados = 0;
+
+      for (const asociacion of asociaciones.docs) {
+        const configDoc = await db.collection('configuracion_fidelizacion').doc(asociacion.id).get();
+        const config = normalizeConfiguracionFidelizacion(configDoc.data());
+        const niveles = config.niveles;
+
+        const desde = now.toDate();
+        desde.setMonth(desde.getMonth() - config.ventanaMeses);
+
+        // Puntos de la ventana agrupados por socio
+        const movimientos = await db.collection('puntos_movimientos')
+          .where('asociacionId', '==', asociacion.id)
+          .where('creadoEn', '>=', admin.firestore.Timestamp.fromDate(desde))
+          .get();
+
+        const puntosPorSocio = new Map<string, number>();
+        // Los canjes descuentan del saldo para canjear, no de los puntos del nivel
+        movimientos.docs.forEach(movimiento => {
+          const { socioId, puntos, tipo } = movimiento.data();
+          if (tipo === 'canje') return;
+          if (typeof socioId === 'string' && typeof puntos === 'number') {
+            puntosPorSocio.set(socioId, (puntosPorSocio.get(socioId) || 0) + puntos);
+          }
+        });
+
+        const socios = await db.collection('socios')
+          .where('asociacionId', '==', asociacion.id)
+          .get();
+
+        let batch = db.batch();
+        let pendientes = 0;
+
+        for (const socio of socios.docs) {
+          const data = socio.data();
+          const puntos = Math.max(0, puntosPorSocio.get(socio.id) || 0);
+          const nivel = calcularNivelSocio(puntos, config);
+          const nivelActual = data.nivel as SocioLevel | undefined;
+
+          const sinCambios = nivelActual &&
+            nivelActual.nivel === nivel.nivel &&
+            nivelActual.puntos === nivel.puntos &&
+            nivelActual.puntosParaProximoNivel === nivel.puntosParaProximoNivel &&
+            nivelActual.descuentoAdicional === nivel.descuentoAdicional &&
+            data.puntosFidelidad === puntos;
+          if (sinCambios) continue;
+
+          const cambioDeNivel = nivelActual?.nivel !== nivel.nivel;
+          if (cambioDeNivel && nivelActual) {
+            const anterior = niveles.findIndex(item => item.nivel === nivelActual.nivel);
+            const nuevo = niveles.findIndex(item => item.nivel === nivel.nivel);
+            if (nuevo > anterior) promovidos++;
+            else descendidos++;
+          }
+
+          batch.update(socio.ref, {
+            nivel,
+            puntosFidelidad: puntos,
+            ...(cambioDeNivel ? {
+              nivelAnterior: nivelActual?.nivel ?? null,
+              nivelActualizadoEn: now,
+            } : {}),
+          });
+          actualizados++;
+          pendientes++;
+
+          if (pendientes >= MAX_BATCH_WRITES) {
+            await batch.commit();
+            batch = db.batch();
+            pendientes = 0;
+          }
+        }
+
+        if (pendientes > 0) {
+          await batch.commit();
+        }
+      }
+
+      console.log(`✅ Niveles actualizados: ${actualizados} socios (${promovidos} ascensos, ${descendidos} descensos)`);
+      return null;
+    } catch (error) {
+      console.error('❌ Error actualizando niveles de fidelización:', error);
+      throw error;
+    }
+  });
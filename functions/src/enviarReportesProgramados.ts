@@ -0,0 +1,810 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import jsPDF from 'jspdf';
+import * as XLSX from 'xlsx';
+import { analizarCohortes } from '../../src/lib/cohortes';
+import { MEDIOS_PAGO_CUOTA_LABELS } from '../../src/lib/cuotas';
+import { desdeFechaLocal, getFechaLocal, ZONA_HORARIA_POR_DEFECTO } from '../../src/lib/notification-schedule';
+import { proximoEnvioReporte } from '../../src/lib/report-schedule';
+import { CuotaCohorte, PagoCohorte, SocioCohorte } from '../../src/types/cohortes';
+import { MedioPagoCuota } from '../../src/types/cuotas';
+import { ReportFrequency } from '../../src/types/reports';
+import { AdjuntoEmail, enhancedNotificationService } from './services/enhanced-notifications.service';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const ZONA_HORARIA = ZONA_HORARIA_POR_DEFECTO;
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+// Reportes por corrida: cada uno lee los datos de una asociación
+const MAX_POR_CORRIDA = 20;
+// Filas por tabla en el PDF; el XLSX lleva todas
+const MAX_FILAS_PDF = 500;
+
+type Formato = 'pdf' | 'xlsx';
+type Celda = string | number;
+
+interface Tabla {
+  titulo: string;
+  columnas: string[];
+  filas: Celda[][];
+}
+
+interface DocumentoReporte {
+  resumen: string;
+  indicadores: [string, string][];
+  tablas: Tabla[];
+}
+
+interface Periodo {
+  inicio: Date;
+  fin: Date;
+}
+
+interface Archivo {
+  format: Formato;
+  fileName: string;
+  storagePath: string;
+  size: number;
+}
+
+const CONTENT_TYPES: Record<Formato, string> = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// ==================== PROGRAMA ====================
+
+// Período que terminó con el envío: la semana o el mes anterior
+function periodoDelEnvio(frequency: ReportFrequency, fin: Date): Periodo {
+  if (frequency === 'weekly') {
+    return { inicio: new Date(fin.getTime() - 7 * MS_POR_DIA), fin };
+  }
+  const local = getFechaLocal(fin, ZONA_HORARIA);
+  return {
+    inicio: desdeFechaLocal({
+      ...local,
+      year: local.month === 1 ? local.year - 1 : local.year,
+      month: local.month === 1 ? 12 : local.month - 1,
+      day: 1,
+    }, ZONA_HORARIA),
+    fin,
+  };
+}
+
+/**
+ * Toma el envío si le toca. El próximo envío avanza en la misma transacción,
+ * así dos corridas superpuestas no mandan el reporte dos veces.
+ */
+async function reservarEnvio(scheduleRef: admin.firestore.DocumentReference, ahora: Date): Promise<boolean> {
+  return db.runTransaction(async (transaction) => {
+    const schedule = (await transaction.get(scheduleRef)).data();
+    if (!schedule?.isActive || !(schedule.nextRun instanceof admin.firestore.Timestamp)) return false;
+    if (schedule.nextRun.toDate() > ahora) return false;
+
+    transaction.update(scheduleRef, {
+      lastRun: admin.firestore.Timestamp.fromDate(ahora),
+      nextRun: admin.firestore.Timestamp.fromDate(proximoEnvioReporte(schedule.frequency, ahora)),
+      lastStatus: 'running',
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+// ==================== DATOS ====================
+
+const aFecha = (valor: unknown): Date | null =>
+  valor instanceof admin.firestore.Timestamp ? valor.toDate() : null;
+
+const formatFecha = (fecha: Date | null): string =>
+  fecha ? fecha.toLocaleDateString('es-AR', { timeZone: ZONA_HORARIA }) : '-';
+
+const formatMonto = (monto: number): string =>
+  new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(monto);
+
+const porcentaje = (parte: number, total: number): string =>
+  `${total > 0 ? ((parte / total) * 100).toFixed(1) : '0.0'}%`;
+
+const ESTADOS_SOCIO: Record<string, string> = {
+  activo: 'Activo',
+  vencido: 'Vencido',
+  inactivo: 'Inactivo',
+  pendiente: 'Pendiente',
+  suspendido: 'Suspendido',
+};
+
+const leerSocios = async (asociacionId: string) =>
+  (await db.collection('socios').where('asociacionId', '==', asociacionId).get()).docs;
+
+const enPeriodo = (coleccion: string, campo: string, asociacionId: string, periodo: Periodo) =>
+  db.collection(coleccion)
+    .where('asociacionId', '==', asociacionId)
+    .where(campo, '>=', admin.firestore.Timestamp.fromDate(periodo.inicio))
+    .where(campo, '<=', admin.firestore.Timestamp.fromDate(periodo.fin))
+    .get();
+
+// Validaciones tal como las escribe ValidacionesService: la fecha está en
+// fechaValidacion y solo las 'exitosas' son usos de un beneficio
+const validacionesEnPeriodo = (asociacionId: string, periodo: Periodo) =>
+  enPeriodo('validaciones', 'fechaValidacion', asociacionId, periodo);
+
+const esExitosa = (doc: admin.firestore.QueryDocumentSnapshot): boolean => doc.data().estado === 'exitosa';
+
+const nombresDeSocios = (socios: admin.firestore.QueryDocumentSnapshot[]) =>
+  new Map(socios.map(doc => [doc.id, (doc.data().nombre as string) || doc.id]));
+
+// ==================== COHORTES ====================
+
+/**
+ * Retención por cohortes e ingresos y LTV por plan de cuota, con el mismo
+ * análisis que muestra el panel de la asociación
+ */
+async function armarCohortes(asociacionId: string, ahora: Date): Promise<DocumentoReporte> {
+  const porAsociacion = (coleccion: string) => db.collection(coleccion).where('asociacionId', '==', asociacionId).get();
+  const [sociosSnapshot, cuotasSnapshot, pagosSnapshot] = await Promise.all([
+    porAsociacion('socios'),
+    porAsociacion('cuotas'),
+    porAsociacion('pagos_cuotas'),
+  ]);
+
+  const socios: SocioCohorte[] = [];
+  sociosSnapshot.docs.forEach(doc => {
+    const data = doc.data();
+    const fechaIngreso = aFecha(data.fechaIngreso) || aFecha(data.creadoEn);
+    if (!fechaIngreso) return;
+    socios.push({
+      id: doc.id,
+      estado: data.estado,
+      montoCuota: Number(data.montoCuota) || 0,
+      titularId: data.titularId,
+      fechaIngreso,
+    });
+  });
+
+  const cuotas: CuotaCohorte[] = cuotasSnapshot.docs.map(doc => ({
+    socioId: doc.data().socioId,
+    periodo: doc.data().periodo,
+    monto: Number(doc.data().monto) || 0,
+    montoPagado: Number(doc.data().montoPagado) || 0,
+  }));
+
+  const pagos: PagoCohorte[] = pagosSnapshot.docs.map(doc => ({
+    socioId: doc.data().socioId,
+    monto: Number(doc.data().monto) || 0,
+  }));
+
+  const analisis = analizarCohortes({ socios, cuotas, pagos }, ahora);
+  const curva = analisis.curvaPromedio;
+  const textoRetencion = (valor: number | null | undefined) =>
+    valor === null || valor === undefined ? '-' : `${Math.round(valor * 100)}%`;
+  const meses = Array.from({ length: analisis.mesesSeguimiento + 1 }, (_, mes) => `Mes ${mes}`);
+
+  return {
+    resumen: `Análisis de cohortes: ${analisis.sociosAnalizados} socios con una permanencia promedio de ` +
+      `${analisis.permanenciaPromedioMeses.toFixed(1)} meses. Retención al tercer mes: ${textoRetencion(curva[3])}. ` +
+      `Ingresos registrados: ${formatMonto(analisis.ingresosTotales)}.`,
+    indicadores: [
+      ['Socios analizados', String(analisis.sociosAnalizados)],
+      ['Permanencia promedio', `${analisis.permanenciaPromedioMeses.toFixed(1)} meses`],
+      ['Ingresos registrados', formatMonto(analisis.ingresosTotales)],
+      ['Retención al mes 1', textoRetencion(curva[1])],
+      ['Retención al mes 3', textoRetencion(curva[3])],
+      ['Retención al mes 6', textoRetencion(curva[6])],
+    ],
+    tablas: [
+      {
+        titulo: 'Retención por cohorte',
+        columnas: ['Cohorte', 'Socios', ...meses],
+        filas: analisis.cohortes.map(cohorte => [
+          cohorte.periodo,
+          cohorte.socios,
+          ...meses.map((_, mes) => (mes < cohorte.retencion.length ? textoRetencion(cohorte.retencion[mes]) : '')),
+        ]),
+      },
+      {
+        titulo: 'Ingresos por cohorte',
+        columnas: ['Cohorte', 'Socios', 'Activos', 'Permanencia (meses)', 'Ingresos', 'Ingreso por socio'],
+        filas: analisis.cohortes.map(cohorte => [
+          cohorte.periodo,
+          cohorte.socios,
+          cohorte.activos,
+          Number(cohorte.permanenciaPromedioMeses.toFixed(1)),
+          cohorte.ingresos,
+          Math.round(cohorte.ingresoPorSocio),
+        ]),
+      },
+      {
+        titulo: 'LTV por plan',
+        columnas: ['Cuota', 'Socios', 'Activos', 'Ingreso mensual', 'Baja mensual', 'LTV proyectado', 'LTV observado'],
+        filas: analisis.ltvPorPlan.map(plan => [
+          plan.montoCuota > 0 ? formatMonto(plan.montoCuota) : 'Sin cuota',
+          plan.socios,
+          plan.activos,
+          formatMonto(plan.ingresoMensualPorSocio),
+          plan.bajaMensual === null ? 'Sin bajas' : `${(plan.bajaMensual * 100).toFixed(1)}%`,
+          plan.ltv === null ? '-' : formatMonto(plan.ltv),
+          formatMonto(plan.ltvObservado),
+        ]),
+      },
+    ],
+  };
+}
+
+/**
+ * Datos de cada plantilla, los mismos que arma ReportsService en el cliente,
+ * como indicadores y tablas listos para el PDF y el XLSX
+ */
+async function armarDocumento(templateId: string, asociacionId: string, periodo: Periodo): Promise<DocumentoReporte> {
+  switch (templateId) {
+    case 'member-summary': {
+      const [socios, validaciones] = await Promise.all([
+        leerSocios(asociacionId),
+        validacionesEnPeriodo(asociacionId, periodo),
+      ]);
+      const activos = socios.filter(doc => doc.data().estado === 'activo').length;
+      const vencidos = socios.filter(doc => doc.data().estado === 'vencido').length;
+      const exitosas = validaciones.docs.filter(esExitosa).length;
+
+      return {
+        resumen: `Resumen de ${socios.length} socios: ${activos} activos, ${vencidos} vencidos. Total de ${validaciones.size} validaciones con ${exitosas} exitosas.`,
+        indicadores: [
+          ['Socios totales', String(socios.length)],
+          ['Socios activos', String(activos)],
+          ['Socios vencidos', String(vencidos)],
+          ['Validaciones del período', String(validaciones.size)],
+          ['Validaciones exitosas', String(exitosas)],
+        ],
+        tablas: [{
+          titulo: 'Socios',
+          columnas: ['N° socio', 'Nombre', 'Email', 'Estado', 'Ingreso'],
+          filas: socios.map(doc => {
+            const socio = doc.data();
+            return [
+              socio.numeroSocio || '-',
+              socio.nombre || '-',
+              socio.email || '-',
+              ESTADOS_SOCIO[socio.estado] || socio.estado || '-',
+              formatFecha(aFecha(socio.fechaIngreso) || aFecha(socio.creadoEn)),
+            ];
+          }),
+        }],
+      };
+    }
+
+    case 'growth-analysis': {
+      const socios = await leerSocios(asociacionId);
+      const ingresos = socios.map(doc => aFecha(doc.data().fechaIngreso) || aFecha(doc.data().creadoEn));
+      const altas = ingresos.filter(fecha => fecha && fecha >= periodo.inicio && fecha <= periodo.fin).length;
+
+      const porMes = new Map<string, number>();
+      ingresos.forEach(fecha => {
+        if (!fecha) return;
+        const local = getFechaLocal(fecha, ZONA_HORARIA);
+        const clave = `${local.year}-${String(local.month).padStart(2, '0')}`;
+        porMes.set(clave, (porMes.get(clave) || 0) + 1);
+      });
+      const meses = [...porMes.entries()].sort(([a], [b]) => a.localeCompare(b)).slice(-12);
+      const promedio = meses.length > 0 ? meses.reduce((total, [, cantidad]) => total + cantidad, 0) / meses.length : 0;
+
+      let acumulado = socios.length - meses.reduce((total, [, cantidad]) => total + cantidad, 0);
+      return {
+        resumen: `Análisis de crecimiento: ${altas} nuevos socios en el período, con un promedio mensual de ${Math.round(promedio)} socios.`,
+        indicadores: [
+          ['Nuevos socios en el período', String(altas)],
+          ['Socios totales', String(socios.length)],
+          ['Promedio mensual (últimos 12 meses)', String(Math.round(promedio))],
+        ],
+        tablas: [{
+          titulo: 'Altas por mes',
+          columnas: ['Mes', 'Altas', 'Socios acumulados'],
+          filas: meses.map(([mes, cantidad]) => {
+            acumulado += cantidad;
+            return [mes, cantidad, acumulado];
+          }),
+        }],
+      };
+    }
+
+    case 'activity-timeline': {
+      const validaciones = await validacionesEnPeriodo(asociacionId, periodo);
+      const porDia = new Map<string, { total: number; exitosas: number }>();
+      validaciones.docs.forEach(doc => {
+        const fecha = aFecha(doc.data().fechaValidacion);
+        if (!fecha) return;
+        const local = getFechaLocal(fecha, ZONA_HORARIA);
+        const clave = `${local.year}-${String(local.month).padStart(2, '0')}-${String(local.day).padStart(2, '0')}`;
+        const dia = porDia.get(clave) || { total: 0, exitosas: 0 };
+        dia.total++;
+        if (esExitosa(doc)) dia.exitosas++;
+        porDia.set(clave, dia);
+      });
+      const dias = Math.max(1, Math.round((periodo.fin.getTime() - periodo.inicio.getTime()) / MS_POR_DIA));
+      const promedio = validaciones.size / dias;
+
+      return {
+        resumen: `Análisis de actividad: ${validaciones.size} validaciones totales con un promedio de ${Math.round(promedio)} validaciones diarias.`,
+        indicadores: [
+          ['Validaciones del período', String(validaciones.size)],
+          ['Promedio diario', promedio.toFixed(1)],
+          ['Días con actividad', String(porDia.size)],
+        ],
+        tablas: [{
+          titulo: 'Validaciones por día',
+          columnas: ['Día', 'Validaciones', 'Exitosas'],
+          filas: [...porDia.entries()]
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([dia, { total, exitosas }]) => [dia, total, exitosas]),
+        }],
+      };
+    }
+
+    case 'retention-analysis': {
+      const socios = await leerSocios(asociacionId);
+      const activos = socios.filter(doc => doc.data().estado === 'activo').length;
+      const vencidos = socios.filter(doc => doc.data().estado === 'vencido');
+
+      return {
+        resumen: `Análisis de retención: Tasa de retención del ${porcentaje(activos, socios.length)} con ${activos} socios activos de ${socios.length} totales.`,
+        indicadores: [
+          ['Socios totales', String(socios.length)],
+          ['Socios activos', String(activos)],
+          ['Socios vencidos', String(vencidos.length)],
+          ['Tasa de retención', porcentaje(activos, socios.length)],
+        ],
+        tablas: [{
+          titulo: 'Socios vencidos',
+          columnas: ['N° socio', 'Nombre', 'Email', 'Vencimiento', 'Deuda vencida'],
+          filas: vencidos.map(doc => {
+            const socio = doc.data();
+            return [
+              socio.numeroSocio || '-',
+              socio.nombre || '-',
+              socio.email || '-',
+              formatFecha(aFecha(socio.fechaVencimiento)),
+              Number(socio.cuentaCuotas?.deudaVencida) || 0,
+            ];
+          }),
+        }],
+      };
+    }
+
+    case 'financial-overview': {
+      const [socios, pagos] = await Promise.all([
+        leerSocios(asociacionId),
+        enPeriodo('pagos_cuotas', 'fecha', asociacionId, periodo),
+      ]);
+      const nombres = nombresDeSocios(socios);
+      const cobrado = pagos.docs.reduce((total, doc) => total + (Number(doc.data().monto) || 0), 0);
+      const deuda = socios.reduce((total, doc) => total + (Number(doc.data().cuentaCuotas?.deuda) || 0), 0);
+      const deudaVencida = socios.reduce((total, doc) => total + (Number(doc.data().cuentaCuotas?.deudaVencida) || 0), 0);
+      const conDeuda = socios.filter(doc => (Number(doc.data().cuentaCuotas?.deudaVencida) || 0) > 0);
+
+      return {
+        resumen: `Resumen financiero: ${formatMonto(cobrado)} cobrados en ${pagos.size} pagos. Deuda total de ${formatMonto(deuda)}, de la que ${formatMonto(deudaVencida)} está vencida en ${conDeuda.length} socios.`,
+        indicadores: [
+          ['Cobrado en el período', formatMonto(cobrado)],
+          ['Pagos registrados', String(pagos.size)],
+          ['Deuda total', formatMonto(deuda)],
+          ['Deuda vencida', formatMonto(deudaVencida)],
+          ['Socios con deuda vencida', String(conDeuda.length)],
+        ],
+        tablas: [
+          {
+            titulo: 'Pagos del período',
+            columnas: ['Fecha', 'Recibo', 'Socio', 'Medio de pago', 'Monto'],
+            filas: pagos.docs
+              .map(doc => doc.data())
+              .sort((a, b) => (aFecha(a.fecha)?.getTime() || 0) - (aFecha(b.fecha)?.getTime() || 0))
+              .map(pago => [
+                formatFecha(aFecha(pago.fecha)),
+                String(pago.numeroRecibo ?? '-').padStart(6, '0'),
+                nombres.get(pago.socioId) || pago.socioId || '-',
+                MEDIOS_PAGO_CUOTA_LABELS[pago.medioPago as MedioPagoCuota] || pago.medioPago || '-',
+                Number(pago.monto) || 0,
+              ]),
+          },
+          {
+            titulo: 'Socios con deuda vencida',
+            columnas: ['N° socio', 'Nombre', 'Cuotas vencidas', 'Deuda vencida'],
+            filas: conDeuda
+              .map(doc => doc.data())
+              .sort((a, b) => (Number(b.cuentaCuotas?.deudaVencida) || 0) - (Number(a.cuentaCuotas?.deudaVencida) || 0))
+              .map(socio => [
+                socio.numeroSocio || '-',
+                socio.nombre || '-',
+                Number(socio.cuentaCuotas?.cuotasVencidas) || 0,
+                Number(socio.cuentaCuotas?.deudaVencida) || 0,
+              ]),
+          },
+        ],
+      };
+    }
+
+    case 'demographic-analysis': {
+      const socios = await leerSocios(asociacionId);
+      const porEstado = new Map<string, number>();
+      socios.forEach(doc => {
+        const estado = ESTADOS_SOCIO[doc.data().estado] || 'Sin estado';
+        porEstado.set(estado, (porEstado.get(estado) || 0) + 1);
+      });
+      const cantidad = (estado: string) => porEstado.get(ESTADOS_SOCIO[estado]) || 0;
+
+      return {
+        resumen: `Análisis demográfico: ${socios.length} socios totales distribuidos en ${cantidad('activo')} activos, ${cantidad('vencido')} vencidos y ${cantidad('inactivo')} inactivos.`,
+        indicadores: [...porEstado.entries()].map(([estado, total]) => [estado, String(total)]),
+        tablas: [{
+          titulo: 'Socios por estado',
+          columnas: ['Estado', 'Socios', 'Porcentaje'],
+          filas: [...porEstado.entries()]
+            .sort(([, a], [, b]) => b - a)
+            .map(([estado, total]) => [estado, total, porcentaje(total, socios.length)]),
+        }],
+      };
+    }
+
+    case 'engagement-metrics': {
+      const [socios, validaciones] = await Promise.all([
+        leerSocios(asociacionId),
+        validacionesEnPeriodo(asociacionId, periodo),
+      ]);
+      const nombres = nombresDeSocios(socios);
+      const exitosas = validaciones.docs.filter(esExitosa);
+      const porSocio = new Map<string, number>();
+      exitosas.forEach(doc => {
+        const socioId = doc.data().socioId as string;
+        porSocio.set(socioId, (porSocio.get(socioId) || 0) + 1);
+      });
+      const promedio = porSocio.size > 0 ? exitosas.length / porSocio.size : 0;
+
+      return {
+        resumen: `Métricas de engagement: ${porSocio.size} socios con actividad, promedio de ${promedio.toFixed(1)} validaciones por socio.`,
+        indicadores: [
+          ['Socios con actividad', String(porSocio.size)],
+          ['Socios sin actividad', String(Math.max(0, socios.length - porSocio.size))],
+          ['Validaciones del período', String(validaciones.size)],
+          ['Validaciones exitosas', String(exitosas.length)],
+          ['Promedio por socio activo', promedio.toFixed(1)],
+        ],
+        tablas: [{
+          titulo: 'Socios más activos',
+          columnas: ['Socio', 'Validaciones'],
+          filas: [...porSocio.entries()]
+            .sort(([, a], [, b]) => b - a)
+            .map(([socioId, total]) => [nombres.get(socioId) || socioId, total]),
+        }],
+      };
+    }
+
+    case 'communication-report': {
+      const notificaciones = await enPeriodo('notifications', 'creadoEn', asociacionId, periodo);
+      const leidas = notificaciones.docs.filter(doc => doc.data().status === 'read').length;
+
+      return {
+        resumen: `Reporte de comunicación: ${notificaciones.size} notificaciones totales, ${leidas} enviadas exitosamente.`,
+        indicadores: [
+          ['Notificaciones del período', String(notificaciones.size)],
+          ['Leídas', String(leidas)],
+          ['Tasa de lectura', porcentaje(leidas, notificaciones.size)],
+        ],
+        tablas: [{
+          titulo: 'Notificaciones',
+          columnas: ['Fecha', 'Título', 'Tipo', 'Estado'],
+          filas: notificaciones.docs.map(doc => {
+            const notificacion = doc.data();
+            return [
+              formatFecha(aFecha(notificacion.creadoEn)),
+              notificacion.title || '-',
+              notificacion.type || '-',
+              notificacion.status || '-',
+            ];
+          }),
+        }],
+      };
+    }
+
+    case 'cohort-analysis':
+      return armarCohortes(asociacionId, periodo.fin);
+
+    default:
+      throw new Error(`Plantilla de reporte desconocida: ${templateId}`);
+  }
+}
+
+// ==================== ARCHIVOS ====================
+
+const aTexto = (celda: Celda): string => (typeof celda === 'number' ? celda.toLocaleString('es-AR') : celda);
+
+/**
+ * PDF A4 con los indicadores y las tablas del reporte, paginado a mano
+ */
+function generarPDF(titulo: string, asociacionNombre: string, periodo: Periodo, documento: DocumentoReporte): Buffer {
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margen = 15;
+  const ancho = pageWidth - margen * 2;
+  let y = 0;
+
+  const saltoSiHaceFalta = (alto: number) => {
+    if (y + alto <= pageHeight - margen) return false;
+    pdf.addPage();
+    y = margen + 5;
+    return true;
+  };
+
+  // Encabezado
+  pdf.setFontSize(18);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(asociacionNombre, margen, 22);
+  pdf.setFontSize(14);
+  pdf.text(titulo, margen, 30);
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(`Período: ${formatFecha(periodo.inicio)} al ${formatFecha(periodo.fin)}`, margen, 37);
+  pdf.setDrawColor(200, 200, 200);
+  pdf.line(margen, 41, pageWidth - margen, 41);
+  y = 50;
+
+  // Resumen
+  const resumen = pdf.splitTextToSize(documento.resumen, ancho) as string[];
+  pdf.text(resumen, margen, y);
+  y += resumen.length * 5 + 5;
+
+  // Indicadores
+  pdf.setFontSize(12);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Indicadores', margen, y);
+  y += 7;
+  pdf.setFontSize(10);
+  documento.indicadores.forEach(([etiqueta, valor]) => {
+    saltoSiHaceFalta(6);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(etiqueta, margen, y);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(valor, pageWidth - margen, y, { align: 'right' });
+    y += 6;
+  });
+
+  // Tablas
+  documento.tablas.forEach(tabla => {
+    y += 6;
+    saltoSiHaceFalta(20);
+    pdf.setFontSize(12);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(tabla.titulo, margen, y);
+    y += 6;
+
+    const anchoColumna = ancho / tabla.columnas.length;
+    const celda = (texto: string) => pdf.splitTextToSize(texto, anchoColumna - 2)[0] as string;
+    const encabezado = () => {
+      pdf.setFontSize(9);
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFillColor(241, 245, 249);
+      pdf.rect(margen, y - 4, ancho, 6, 'F');
+      tabla.columnas.forEach((columna, i) => pdf.text(celda(columna), margen + i * anchoColumna + 1, y));
+      y += 6;
+      pdf.setFont('helvetica', 'normal');
+    };
+
+    if (tabla.filas.length === 0) {
+      pdf.setFontSize(10);
+      pdf.setFont('helvetica', 'normal');
+      pdf.text('Sin datos en el período', margen, y);
+      y += 6;
+      return;
+    }
+
+    encabezado();
+    tabla.filas.slice(0, MAX_FILAS_PDF).forEach(fila => {
+      if (saltoSiHaceFalta(5)) encabezado();
+      fila.forEach((valor, i) => pdf.text(celda(aTexto(valor)), margen + i * anchoColumna + 1, y));
+      y += 5;
+    });
+
+    if (tabla.filas.length > MAX_FILAS_PDF) {
+      saltoSiHaceFalta(6);
+      pdf.setFont('helvetica', 'italic');
+      pdf.text(`Se muestran ${MAX_FILAS_PDF} de ${tabla.filas.length} filas. El detalle completo está en el XLSX.`, margen, y + 1);
+      y += 6;
+    }
+  });
+
+  // Pie de página
+  const paginas = pdf.getNumberOfPages();
+  for (let pagina = 1; pagina <= paginas; pagina++) {
+    pdf.setPage(pagina);
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(120, 120, 120);
+    pdf.text(`Generado el ${new Date().toLocaleString('es-AR', { timeZone: ZONA_HORARIA })}`, margen, pageHeight - 8);
+    pdf.text(`Página ${pagina} de ${paginas}`, pageWidth - margen, pageHeight - 8, { align: 'right' });
+  }
+
+  return Buffer.from(pdf.output('arraybuffer'));
+}
+
+/**
+ * Libro con una hoja de resumen y una hoja por tabla
+ */
+function generarXLSX(titulo: string, periodo: Periodo, documento: DocumentoReporte): Buffer {
+  const libro = XLSX.utils.book_new();
+  const resumen = XLSX.utils.aoa_to_sheet([
+    [titulo],
+    [`Período: ${formatFecha(periodo.inicio)} al ${formatFecha(periodo.fin)}`],
+    [documento.resumen],
+    [],
+    ['Indicador', 'Valor'],
+    ...documento.indicadores,
+  ]);
+  XLSX.utils.book_append_sheet(libro, resumen, 'Resumen');
+
+  const usados = new Set(['Resumen']);
+  documento.tablas.forEach(tabla => {
+    // Excel limita los nombres de hoja a 31 caracteres sin []:*?/\
+    let nombre = tabla.titulo.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+    for (let i = 2; usados.has(nombre); i++) nombre = `${nombre.slice(0, 28)} ${i}`;
+    usados.add(nombre);
+    XLSX.utils.book_append_sheet(libro, XLSX.utils.aoa_to_sheet([tabla.columnas, ...tabla.filas]), nombre);
+  });
+
+  return XLSX.write(libro, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+const formatTamano = (bytes: number): string =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// ==================== ENVÍO ====================
+
+/**
+ * Genera el reporte del programa, sube los archivos y los manda por email a
+ * la lista de distribución. El reporte queda en el historial de la
+ * asociación como cualquier otro.
+ */
+async function enviarReporte(
+  scheduleId: string,
+  schedule: admin.firestore.DocumentData,
+  ahora: Date
+): Promise<{ reportId: string; enviados: string[]; fallidos: string[] }> {
+  const frequency = schedule.frequency as ReportFrequency;
+  const formats = (schedule.formats as Formato[]).filter(formato => formato in CONTENT_TYPES);
+  const periodo = periodoDelEnvio(frequency, ahora);
+  const reportRef = db.collection('reports').doc();
+  const titulo = schedule.templateTitle as string;
+
+  await reportRef.set({
+    templateId: schedule.templateId,
+    title: titulo,
+    description: `Reporte ${frequency === 'weekly' ? 'semanal' : 'mensual'} programado`,
+    generatedAt: admin.firestore.Timestamp.fromDate(ahora),
+    status: 'generating',
+    parameters: {
+      dateRange: frequency === 'weekly' ? 'last7days' : 'lastMonth',
+      categoryFilter: 'all',
+      format: formats.includes('pdf') ? 'pdf' : 'excel',
+      startDate: admin.firestore.Timestamp.fromDate(periodo.inicio),
+      endDate: admin.firestore.Timestamp.fromDate(periodo.fin),
+    },
+    userId: schedule.userId,
+    asociacionId: schedule.asociacionId,
+    origin: 'scheduled',
+    scheduleId,
+    progress: 0,
+  });
+
+  try {
+    const [asociacion, documento] = await Promise.all([
+      db.collection('asociaciones').doc(schedule.asociacionId).get(),
+      armarDocumento(schedule.templateId, schedule.asociacionId, periodo),
+    ]);
+    const asociacionNombre = (asociacion.data()?.nombre as string) || 'Asociación';
+    await reportRef.update({ progress: 50 });
+
+    const hoy = getFechaLocal(ahora, ZONA_HORARIA);
+    const base = `${titulo.replace(/[^\w.-]+/g, '_')}_${hoy.year}-${String(hoy.month).padStart(2, '0')}-${String(hoy.day).padStart(2, '0')}`;
+    const adjuntos: AdjuntoEmail[] = [];
+    const files: Archivo[] = [];
+    for (const format of formats) {
+      const contenido = format === 'pdf'
+        ? generarPDF(titulo, asociacionNombre, periodo, documento)
+        : generarXLSX(titulo, periodo, documento);
+      const storagePath = `reports/${schedule.asociacionId}/${reportRef.id}.${format}`;
+      await admin.storage().bucket().file(storagePath).save(contenido, {
+        resumable: false,
+        contentType: CONTENT_TYPES[format],
+        metadata: { metadata: { asociacionId: schedule.asociacionId, reportId: reportRef.id } },
+      });
+
+      const fileName = `${base}.${format}`;
+      files.push({ format, fileName, storagePath, size: contenido.length });
+      adjuntos.push({ fileName, contentType: CONTENT_TYPES[format], contenido });
+    }
+    await reportRef.update({ progress: 75 });
+
+    const mensaje = `${documento.resumen}\n\nPeríodo: ${formatFecha(periodo.inicio)} al ${formatFecha(periodo.fin)}.\n` +
+      'Encontrás el reporte completo en los archivos adjuntos y en la sección Reportes de Fidelya.';
+    const enviados: string[] = [];
+    const fallidos: string[] = [];
+    for (const destinatario of schedule.recipients as string[]) {
+      const resultado = await enhancedNotificationService.sendEmailWithAttachments(
+        destinatario,
+        `${titulo} - ${asociacionNombre}`,
+        mensaje,
+        adjuntos
+      );
+      if (resultado.success) enviados.push(destinatario);
+      else fallidos.push(destinatario);
+    }
+
+    await reportRef.update({
+      status: 'completed',
+      progress: 100,
+      files,
+      fileSize: formatTamano(files.reduce((total, archivo) => total + archivo.size, 0)),
+      emailedTo: enviados,
+      data: { summary: documento.resumen },
+    });
+
+    return { reportId: reportRef.id, enviados, fallidos };
+  } catch (error) {
+    await reportRef.update({ status: 'failed', errorMessage: error instanceof Error ? error.message : String(error) });
+    throw Object.assign(error instanceof Error ? error : new Error(String(error)), { reportId: reportRef.id });
+  }
+}
+
+// ==================== FUNCIONES ====================
+
+// Genera y envía por email los reportes programados que vencieron
+export const enviarReportesProgramados = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB' })
+  .pubsub
+  .schedule('every 15 minutes')
+  .timeZone(ZONA_HORARIA)
+  .onRun(async () => {
+    const ahora = new Date();
+    const vencidos = await db.collection('reportSchedules')
+      .where('isActive', '==', true)
+      .where('nextRun', '<=', admin.firestore.Timestamp.fromDate(ahora))
+      .orderBy('nextRun', 'asc')
+      .limit(MAX_POR_CORRIDA)
+      .get();
+
+    let enviados = 0;
+    let fallidos = 0;
+    for (const scheduleDoc of vencidos.docs) {
+      try {
+        if (!await reservarEnvio(scheduleDoc.ref, ahora)) continue;
+      } catch (error) {
+        console.error(`❌ Error reservando el reporte programado ${scheduleDoc.id}:`, error);
+        continue;
+      }
+
+      try {
+        const resultado = await enviarReporte(scheduleDoc.id, scheduleDoc.data(), ahora);
+        await scheduleDoc.ref.update({
+          lastStatus: resultado.enviados.length > 0 ? 'completed' : 'failed',
+          lastReportId: resultado.reportId,
+          lastError: resultado.fallidos.length > 0 ? `No se pudo enviar a: ${resultado.fallidos.join(', ')}` : null,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        if (resultado.enviados.length > 0) enviados++;
+        else fallidos++;
+      } catch (error) {
+        fallidos++;
+        console.error(`❌ Falló el reporte programado ${scheduleDoc.id}:`, error);
+        await scheduleDoc.ref.update({
+          lastStatus: 'failed',
+          lastReportId: (error as { reportId?: string }).reportId || null,
+          lastError: error instanceof Error ? error.message : String(error),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        }).catch(err => console.error('❌ Error actualizando el reporte programado:', err));
+      }
+    }
+
+    console.log(`📊 Reportes programados: ${enviados} enviados, ${fallidos} fallidos`);
+    return null;
+  });
@@ -0,0 +1,68 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { enhancedNotificationService } from './services/enhanced-notifications.service';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const MAX_POR_CORRIDA = 500;
+const REINTENTO_MS = 30 * 60 * 1000;
+const MAX_INTENTOS = 3;
+
+// Envía los resúmenes vencidos: las notificaciones que processNotificationQueue
+// dejó en estado 'digest' se agrupan por destinatario en un solo email
+export const enviarResumenesNotificaciones = functions.pubsub
+  .schedule('every 15 minutes')
+  .onRun(async () => {
+    const snapshot = await db.collection('notificationQueue')
+      .where('status', '==', 'digest')
+      .where('digestAt', '<=', admin.firestore.Timestamp.now())
+      .orderBy('digestAt', 'asc')
+      .limit(MAX_POR_CORRIDA)
+      .get();
+
+    if (snapshot.empty) return null;
+
+    const porDestinatario = new Map<string, admin.firestore.QueryDocumentSnapshot[]>();
+    snapshot.docs.forEach(doc => {
+      const recipientId = doc.data().recipientId as string;
+      porDestinatario.set(recipientId, [...(porDestinatario.get(recipientId) ?? []), doc]);
+    });
+
+    let enviados = 0;
+    for (const [recipientId, docs] of porDestinatario) {
+      const resultado = await enhancedNotificationService.sendDigestToUser(
+        recipientId,
+        docs.map(doc => ({ notificationId: doc.data().notificationId, notificationData: doc.data().notificationData }))
+      ).catch(error => ({ success: false, error: error instanceof Error ? error.message : String(error) }));
+
+      const batch = db.batch();
+      const updatedAt = admin.firestore.FieldValue.serverTimestamp();
+      docs.forEach(doc => {
+        if (resultado.success) {
+          batch.update(doc.ref, { status: 'completed', completedAt: updatedAt, digestSentAt: updatedAt, updatedAt });
+          return;
+        }
+
+        const intentos = (doc.data().digestAttempts || 0) + 1;
+        batch.update(doc.ref, intentos >= MAX_INTENTOS
+          ? { status: 'failed', digestAttempts: intentos, lastError: resultado.error || 'Error enviando el resumen', updatedAt }
+          : {
+            digestAttempts: intentos,
+            lastError: resultado.error || 'Error enviando el resumen',
+            digestAt: admin.firestore.Timestamp.fromMillis(Date.now() + REINTENTO_MS),
+            updatedAt,
+          });
+      });
+      await batch.commit();
+
+      if (resultado.success) enviados++;
+      else console.warn(`⚠️ No se pudo enviar el resumen a ${recipientId}: ${resultado.error}`);
+    }
+
+    console.log(`🗂️ Resúmenes enviados: ${enviados}/${porDestinatario.size}`);
+    return null;
+  });
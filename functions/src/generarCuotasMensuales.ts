@@ -0,0 +1,126 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import {
+  CuotaAbierta,
+  estadoMembresiaDesdeCuenta,
+  getEstadoCuota,
+  getFechaVencimientoCuota,
+  getPeriodo,
+  resumirCuenta,
+  ResumenCuenta,
+} from '../../src/lib/cuotas';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+// Cuenta, estado de la membresía y vencimiento que se guardan en el socio
+const camposCuenta = (resumen: ResumenCuenta) => {
+  const proximoVencimiento = resumen.proximoVencimiento
+    ? admin.firestore.Timestamp.fromDate(resumen.proximoVencimiento)
+    : null;
+  return {
+    cuentaCuotas: { ...resumen, proximoVencimiento },
+    estadoMembresia: estadoMembresiaDesdeCuenta(resumen) ?? 'al_dia',
+    fechaVencimiento: proximoVencimiento,
+  };
+};
+
+/**
+ * Genera cada día la cuota del mes para los socios activos que todavía no la
+ * tienen y recalcula su cuenta: así la deuda pasa a vencida apenas vence la
+ * cuota aunque nadie registre un pago. Cada socio se procesa en su propia
+ * transacción para no pisar un pago registrado al mismo tiempo.
+ */
+export const generarCuotasMensuales = functions.pubsub
+  .schedule('30 0 * * *') // Todos los días a las 00:30
+  .timeZone('America/Argentina/Buenos_Aires')
+  .onRun(async () => {
+    const db = admin.firestore();
+    const now = new Date();
+    const periodo = getPeriodo(now);
+
+    try {
+      console.log(`💳 Generando cuotas del período ${periodo}...`);
+
+      const socios = await db.collection('socios')
+        .where('estado', '==', 'activo')
+        .get();
+
+      let generadas = 0;
+      let vencidos = 0;
+      let errores = 0;
+
+      for (const socio of socios.docs) {
+        const montoCuota = Number(socio.data().montoCuota) || 0;
+        if (montoCuota <= 0 || !socio.data().asociacionId) continue;
+
+        try {
+          const resultado = await db.runTransaction(async (transaction) => {
+            const cuotaRef = db.collection('cuotas').doc(`${socio.id}_${periodo}`);
+            const [socioDoc, cuotaDoc, abiertasSnapshot] = await Promise.all([
+              transaction.get(socio.ref),
+              transaction.get(cuotaRef),
+              transaction.get(db.collection('cuotas')
+                .where('socioId', '==', socio.id)
+                .where('estado', 'in', ['pendiente', 'parcial'])),
+            ]);
+
+            const data = socioDoc.data();
+            if (!data) return null;
+
+            const cuotas: CuotaAbierta[] = abiertasSnapshot.docs.map(cuota => ({
+              id: cuota.id,
+              periodo: cuota.data().periodo,
+              monto: cuota.data().monto ?? 0,
+              montoPagado: cuota.data().montoPagado ?? 0,
+              fechaVencimiento: (cuota.data().fechaVencimiento as admin.firestore.Timestamp).toDate(),
+            }));
+            let credito: number = data.cuentaCuotas?.credito ?? 0;
+            let ultimoPeriodo: string | null = data.cuentaCuotas?.ultimoPeriodo ?? null;
+            let generada = false;
+
+            if (!cuotaDoc.exists) {
+              const montoPagado = Math.min(montoCuota, credito);
+              const fechaVencimiento = getFechaVencimientoCuota(periodo);
+              transaction.set(cuotaRef, {
+                socioId: socio.id,
+                asociacionId: data.asociacionId,
+                periodo,
+                monto: montoCuota,
+                montoPagado,
+                estado: getEstadoCuota({ monto: montoCuota, montoPagado }),
+                fechaVencimiento: admin.firestore.Timestamp.fromDate(fechaVencimiento),
+                creadoEn: admin.firestore.FieldValue.serverTimestamp(),
+                actualizadoEn: admin.firestore.FieldValue.serverTimestamp(),
+              });
+              cuotas.push({ id: cuotaRef.id, periodo, monto: montoCuota, montoPagado, fechaVencimiento });
+              credito -= montoPagado;
+              ultimoPeriodo = !ultimoPeriodo || ultimoPeriodo < periodo ? periodo : ultimoPeriodo;
+              generada = true;
+            }
+
+            const cuenta = camposCuenta(resumirCuenta({ cuotasAbiertas: cuotas, credito, ultimoPeriodo, montoCuota, now }));
+            transaction.update(socio.ref, {
+              ...cuenta,
+              actualizadoEn: admin.firestore.FieldValue.serverTimestamp(),
+            });
+
+            return { generada, vencido: cuenta.estadoMembresia === 'vencido' };
+          });
+
+          if (resultado?.generada) generadas++;
+          if (resultado?.vencido) vencidos++;
+        } catch (error) {
+          errores++;
+          console.error(`❌ Error procesando las cuotas del socio ${socio.id}:`, error);
+        }
+      }
+
+      console.log(`✅ Cuotas ${periodo}: ${generadas} generadas, ${vencidos} socios con deuda vencida, ${errores} errores`);
+      return null;
+    } catch (error) {
+      console.error('❌ Error generando cuotas mensuales:', error);
+      throw error;
+    }
+  });
@@ -1,6 +1,8 @@
 import * as functions from 'firebase-functions/v1';
 import * as admin from 'firebase-admin';
 import { enhancedNotificationService } from './services/enhanced-notifications.service';
+import { decidirEnvio, DecisionEnvio, normalizarPreferencias } from '../../src/lib/notification-preferences';
+import { NotificationCategory, NotificationPriority } from '../../src/types/notification';
 
 // Inicializar Firebase Admin
 if (!admin.apps.length) {
@@ -37,6 +39,16 @@ export const processNotificationQueue = functions.pubsub
         const queueItem = doc.data() as NotificationQueueItem;
         
         try {
+          // Horario silencioso, resumen y categorías del destinatario
+          const decision = decidirEnvio(
+            normalizarPreferencias(await enhancedNotificationService.getUserSettings(queueItem.recipientId)),
+            { category: queueItem.notificationData.category, priority: queueItem.notificationData.priority }
+          );
+          if (decision.accion !== 'enviar') {
+            await aplicarPreferencias(doc.ref, queueItem, decision);
+            return;
+          }
+
           // Marcar como procesando
           await doc.ref.update({
             status: 'processing',
@@ -48,7 +60,8 @@ export const processNotificationQueue = functions.pubsub
           const result = await enhancedNotificationService.sendNotificationToUser(
             queueItem.notificationId,
             queueItem.recipientId,
-            queueItem.notificationData
+            queueItem.notificationData,
+            doc.id
           );
 
           // Verificar si algún canal fue exitoso
@@ -135,7 +148,7 @@ export const cleanupExpiredNotifications = functions.pubsub
       );
 
       const oldQueueQuery = db.collection('notificationQueue')
-        .where('status', 'in', ['completed', 'failed'])
+        .where('status', 'in', ['completed', 'failed', 'suppressed'])
         .where('updatedAt', '<=', sevenDaysAgo)
         .limit(500);
 
@@ -164,6 +177,8 @@ interface NotificationData {
   type: 'info' | 'success' | 'warning' | 'error' | 'announcement';
   actionUrl?: string;
   actionLabel?: string;
+  category?: NotificationCategory;
+  priority?: NotificationPriority;
   [key: string]: string | number | boolean | object | undefined;
 }
 
@@ -223,101 +238,23 @@ async function scheduleRetry(
   }
 }
 
-// Función para manejar webhooks de entrega
-export const handleDeliveryWebhook = functions.https.onRequest(async (req, res) => {
-  if (req.method !== 'POST') {
-    res.status(405).send('Method not allowed');
-    return;
-  }
-
-  try {
-    const events = req.body;
-    
-    if (!Array.isArray(events)) {
-      res.status(400).send('Invalid payload');
-      return;
-    }
-
-    console.log(`📥 Received ${events.length} delivery events`);
-
-    for (const event of events) {
-      try {
-        await processDeliveryEvent(event);
-      } catch (error) {
-        console.error('❌ Error processing delivery event:', error);
-      }
-    }
-
-    res.status(200).json({ success: true, processed: events.length });
-  } catch (error) {
-    console.error('❌ Webhook error:', error);
-    res.status(500).send('Internal server error');
+// Un envío que no sale ahora no cuenta como intento: se suprime, se corre al
+// fin del horario silencioso o queda para el próximo resumen
+async function aplicarPreferencias(
+  docRef: admin.firestore.DocumentReference,
+  queueItem: NotificationQueueItem,
+  decision: Exclude<DecisionEnvio, { accion: 'enviar' }>
+) {
+  const updatedAt = admin.firestore.FieldValue.serverTimestamp();
+
+  if (decision.accion === 'suprimir') {
+    await docRef.update({ status: 'suppressed', suppressedReason: decision.motivo, updatedAt });
+    console.log(`🔕 Notification ${queueItem.notificationId} suppressed for ${queueItem.recipientId}: ${decision.motivo}`);
+  } else if (decision.accion === 'diferir') {
+    await docRef.update({ scheduledFor: admin.firestore.Timestamp.fromDate(decision.hasta), updatedAt });
+    console.log(`🌙 Notification ${queueItem.notificationId} deferred until ${decision.hasta.toISOString()} (quiet hours)`);
+  } else {
+    await docRef.update({ status: 'digest', digestAt: admin.firestore.Timestamp.fromDate(decision.hasta), updatedAt });
+    console.log(`🗂️ Notification ${queueItem.notificationId} added to digest at ${decision.hasta.toISOString()}`);
   }
-});
-
-interface DeliveryEvent {
-  event: string;
-  tracking_id: string;
-  email?: string;
-  timestamp?: number;
-  reason?: string;
-  url?: string;
-  [key: string]: unknown;
 }
-
-async function processDeliveryEvent(event: DeliveryEvent) {
-  const { event: eventType, tracking_id, email, timestamp } = event;
-  
-  if (!tracking_id) {
-    console.warn('⚠️ Event without tracking_id:', event);
-    return;
-  }
-
-  // Buscar el registro de entrega por tracking_id en metadata
-  const deliveriesQuery = db.collection('notificationDeliveries')
-    .where('metadata.trackingId', '==', tracking_id)
-    .limit(1);
-
-  const snapshot = await deliveriesQuery.get();
-  
-  if (snapshot.empty) {
-    console.warn('⚠️ No delivery record found for tracking_id:', tracking_id);
-    return;
-  }
-
-  const deliveryDoc = snapshot.docs[0];
-  const updates: Record<string, unknown> = {
-    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-  };
-
-  switch (eventType) {
-    case 'delivered':
-      updates.status = 'delivered';
-      updates.deliveredAt = admin.firestore.FieldValue.serverTimestamp();
-      console.log(`✅ Email delivered: ${email}`);
-      break;
-    
-    case 'bounce':
-    case 'dropped':
-      updates.status = 'failed';
-      updates.failureReason = `Email ${eventType}: ${event.reason || 'Unknown reason'}`;
-      console.log(`❌ Email ${eventType}: ${email}`);
-      break;
-    
-    case 'open':
-      updates['metadata.opened'] = true;
-      updates['metadata.openedAt'] = timestamp;
-      console.log(`👀 Email opened: ${email}`);
-      break;
-    
-    case 'click':
-      updates['metadata.clicked'] = true;
-      updates['metadata.clickedAt'] = timestamp;
-      updates['metadata.clickedUrl'] = event.url;
-      console.log(`🔗 Email link clicked: ${email} -> ${event.url}`);
-      break;
-  }
-
-  await deliveryDoc.ref.update(updates);
-  console.log(`📝 Updated delivery record for event ${eventType}`);
-}
\ No newline at end of file
@@ -0,0 +1,221 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { cumpleCondiciones, interpolarEvento } from '../../src/lib/eventos-dominio';
+import { filtrosDeSegmentacion, SegmentacionEnvio, sinExcluidos } from '../../src/lib/notification-targeting';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const TAMANO_LOTE = 400;
+
+// ==================== DESTINATARIOS ====================
+
+async function getDestinatarios(segmentacion: SegmentacionEnvio): Promise<string[]> {
+  const consulta = filtrosDeSegmentacion(segmentacion).reduce<admin.firestore.Query>(
+    (actual, filtro) => actual.where(filtro.campo, 'in', filtro.valores),
+    db.collection('users')
+  );
+  const snapshot = await consulta.select().get();
+  return sinExcluidos(snapshot.docs.map(doc => doc.id), segmentacion);
+}
+
+/**
+ * Aplica cooldownPeriod y maxExecutionsPerUser del trigger. Lleva la cuenta
+ * por trigger y usuario en notificationTriggerUsage.
+ */
+async function reservarEjecucion(
+  triggerId: string,
+  userId: string,
+  execution: { cooldownPeriod?: number; maxExecutionsPerUser?: number },
+  ahora: Date
+): Promise<boolean> {
+  const ref = db.collection('notificationTriggerUsage').doc(`${triggerId}_${userId}`);
+
+  return db.runTransaction(async (transaction) => {
+    const uso = (await transaction.get(ref)).data();
+    const ejecuciones = Number(uso?.executions) || 0;
+    const ultima: Date | undefined = uso?.lastExecutedAt?.toDate();
+
+    if (execution.maxExecutionsPerUser && ejecuciones >= execution.maxExecutionsPerUser) {
+      return false;
+    }
+    if (execution.cooldownPeriod && ultima &&
+        ahora.getTime() - ultima.getTime() < execution.cooldownPeriod * 60 * 1000) {
+      return false;
+    }
+
+    transaction.set(ref, {
+      triggerId,
+      userId,
+      executions: ejecuciones + 1,
+      lastExecutedAt: admin.firestore.Timestamp.fromDate(ahora),
+    }, { merge: true });
+    return true;
+  });
+}
+
+// ==================== EJECUCIÓN ====================
+
+async function ejecutarTrigger(
+  trigger: admin.firestore.QueryDocumentSnapshot,
+  evento: admin.firestore.DocumentData,
+  eventoId: string,
+  ahora: Date
+): Promise<number> {
+  const data = trigger.data();
+  const payload: Record<string, unknown> = evento.payload ?? {};
+
+  // Con segmentación propia el trigger avisa a un público (acotado a la
+  // asociación del evento); si no, al destinatario natural del evento
+  let candidatos: string[];
+  if (data.action?.targeting) {
+    const segmentacion: SegmentacionEnvio = { ...data.action.targeting };
+    if (!segmentacion.associations?.length && evento.asociacionId) {
+      segmentacion.associations = [evento.asociacionId];
+    }
+    candidatos = await getDestinatarios(segmentacion);
+  } else {
+    candidatos = evento.userId ? [evento.userId] : [];
+  }
+
+  const execution = data.execution ?? {};
+  const conLimites = !!(execution.cooldownPeriod || execution.maxExecutionsPerUser);
+  const destinatarios: string[] = [];
+  for (const userId of candidatos) {
+    if (!conLimites || await reservarEjecucion(trigger.id, userId, execution, ahora)) {
+      destinatarios.push(userId);
+    }
+  }
+  if (destinatarios.length === 0) return 0;
+
+  const base = data.action.notificationData;
+  const notificationData = {
+    ...base,
+    title: interpolarEvento(base.title || '', payload),
+    message: interpolarEvento(base.message || '', payload),
+  };
+  const origen = { tipo: 'trigger', id: trigger.id, eventoId };
+
+  const notificationRef = await db.collection('notifications').add({
+    title: notificationData.title,
+    message: notificationData.message,
+    type: notificationData.type || 'info',
+    category: notificationData.category || 'general',
+    status: 'pending',
+    recipientCount: destinatarios.length,
+    origen,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const delayMinutos = Number(data.action.delay) || 0;
+  const scheduledFor = admin.firestore.Timestamp.fromMillis(ahora.getTime() + delayMinutos * 60 * 1000);
+  for (let i = 0; i < destinatarios.length; i += TAMANO_LOTE) {
+    const batch = db.batch();
+    destinatarios.slice(i, i + TAMANO_LOTE).forEach(recipientId => {
+      batch.set(db.collection('notificationQueue').doc(), {
+        notificationId: notificationRef.id,
+        recipientId,
+        notificationData,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: 3,
+        scheduledFor,
+        origen,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+
+  await trigger.ref.update({
+    'analytics.totalTriggers': admin.firestore.FieldValue.increment(1),
+    'analytics.totalNotificationsSent': admin.firestore.FieldValue.increment(destinatarios.length),
+    'analytics.lastTriggered': admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await db.collection('notificationExecutions').add({
+    triggerId: trigger.id,
+    eventoId,
+    targetCount: destinatarios.length,
+    status: 'completed',
+    source: 'functions',
+    executedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return destinatarios.length;
+}
+
+// Dispara los NotificationTrigger activos que escuchan el evento publicado.
+// Un trigger con asociacionId solo responde a los eventos de esa asociación.
+export const procesarEventosDominio = functions.firestore
+  .document('eventos_dominio/{eventoId}')
+  .onCreate(async (snapshot, context) => {
+    const eventoId: string = context.params.eventoId;
+
+    // Los reintentos de la función no vuelven a disparar los triggers
+    const tomado = await db.runTransaction(async (transaction) => {
+      const actual = await transaction.get(snapshot.ref);
+      if (actual.data()?.status !== 'pending') return false;
+      transaction.update(snapshot.ref, { status: 'processing' });
+      return true;
+    });
+    if (!tomado) return null;
+
+    const evento = snapshot.data();
+    const ahora = new Date();
+
+    try {
+      const triggersSnapshot = await db.collection('notificationTriggers')
+        .where('isActive', '==', true)
+        .where('trigger.event', '==', evento.type)
+        .get();
+
+      const triggers = triggersSnapshot.docs.filter(doc => {
+        const data = doc.data();
+        if (data.trigger?.type !== 'event') return false;
+        if (data.asociacionId && data.asociacionId !== evento.asociacionId) return false;
+        return cumpleCondiciones(data.trigger.conditions, evento.payload ?? {});
+      });
+
+      let enviados = 0;
+      for (const trigger of triggers) {
+        try {
+          enviados += await ejecutarTrigger(trigger, evento, eventoId, ahora);
+        } catch (error) {
+          console.error(`❌ Error ejecutando el trigger ${trigger.id} para el evento ${eventoId}:`, error);
+          await db.collection('notificationExecutions').add({
+            triggerId: trigger.id,
+            eventoId,
+            targetCount: 0,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+            source: 'functions',
+            executedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+      }
+
+      await snapshot.ref.update({
+        status: 'processed',
+        matchedTriggers: triggers.length,
+        processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      if (triggers.length > 0) {
+        console.log(`⚡ Evento ${evento.type} (${eventoId}): ${triggers.length} trigger(s), ${enviados} envío(s)`);
+      }
+    } catch (error) {
+      console.error(`❌ Error procesando el evento ${eventoId}:`, error);
+      await snapshot.ref.update({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    return null;
+  });
@@ -0,0 +1,476 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { calcularProximaEjecucion, ProgramaNotificacion } from '../../src/lib/notification-schedule';
+import { filtrosDeSegmentacion, SegmentacionEnvio, sinExcluidos } from '../../src/lib/notification-targeting';
+import { asignarVariante, compararVariantes, enGrupoDePrueba } from '../../src/lib/ab-testing';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+// Si una ejecución falla se reintenta después de este tiempo
+const REINTENTO_MS = 30 * 60 * 1000;
+const MAX_POR_CORRIDA = 20;
+const TAMANO_LOTE = 400;
+
+interface Segmentacion extends SegmentacionEnvio {
+  percentage?: number;
+}
+
+type DatosNotificacion = Record<string, unknown> & { title: string; message: string };
+
+const toDate = (value: unknown): Date | undefined => {
+  if (value instanceof admin.firestore.Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  return undefined;
+};
+
+// ==================== ENVÍO ====================
+
+// Ordenados por ID, así el recorte por porcentaje de una fase es estable
+async function getDestinatarios(segmentacion: Segmentacion | undefined): Promise<string[]> {
+  const consulta = filtrosDeSegmentacion(segmentacion).reduce<admin.firestore.Query>(
+    (actual, filtro) => actual.where(filtro.campo, 'in', filtro.valores),
+    db.collection('users')
+  );
+  const snapshot = await consulta.select().get();
+  return sinExcluidos(snapshot.docs.map(doc => doc.id), segmentacion).sort();
+}
+
+/**
+ * Crea la notificación y encola un envío por destinatario para
+ * processNotificationQueue. Devuelve el ID de la notificación.
+ */
+async function encolarEnvio(
+  notificationData: DatosNotificacion,
+  destinatarios: string[],
+  origen: Record<string, string>
+): Promise<string> {
+  const notificationRef = await db.collection('notifications').add({
+    title: notificationData.title,
+    message: notificationData.message,
+    type: notificationData.type || 'info',
+    category: notificationData.category || 'general',
+    status: 'pending',
+    recipientCount: destinatarios.length,
+    origen,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const ahora = admin.firestore.Timestamp.now();
+  for (let i = 0; i < destinatarios.length; i += TAMANO_LOTE) {
+    const batch = db.batch();
+    destinatarios.slice(i, i + TAMANO_LOTE).forEach(recipientId => {
+      batch.set(db.collection('notificationQueue').doc(), {
+        notificationId: notificationRef.id,
+        recipientId,
+        notificationData,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: 3,
+        scheduledFor: ahora,
+        origen,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+
+  return notificationRef.id;
+}
+
+async function registrarEjecucion(datos: Record<string, unknown>): Promise<void> {
+  await db.collection('notificationExecutions').add({
+    ...datos,
+    executedAt: admin.firestore.FieldValue.serverTimestamp(),
+    source: 'functions',
+  });
+}
+
+// ==================== NOTIFICACIONES PROGRAMADAS ====================
+
+const leerPrograma = (data: admin.firestore.DocumentData): ProgramaNotificacion => ({
+  ...data.schedule,
+  startDate: toDate(data.schedule?.startDate) ?? new Date(),
+  endDate: toDate(data.schedule?.endDate),
+});
+
+async function ejecutarProgramada(ref: admin.firestore.DocumentReference, ahora: Date): Promise<void> {
+  // Se reserva la ejecución corriendo nextExecution: si otra instancia de la
+  // función toma el mismo documento, ya no lo ve listo
+  const data = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    const actual = doc.data();
+    const nextExecution = toDate(actual?.nextExecution);
+    if (!actual || !actual.isActive || actual.status !== 'active' || !nextExecution || nextExecution > ahora) {
+      return null;
+    }
+
+    transaction.update(ref, {
+      nextExecution: admin.firestore.Timestamp.fromMillis(ahora.getTime() + REINTENTO_MS),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return actual;
+  });
+  if (!data) return;
+
+  try {
+    const destinatarios = await getDestinatarios(data.targeting);
+    const executionCount = (Number(data.executionCount) || 0) + 1;
+    const schedule = leerPrograma(data);
+    const proxima = calcularProximaEjecucion(schedule, ahora);
+    const completada =
+      schedule.type === 'once' ||
+      !proxima ||
+      (Number(data.maxExecutions) > 0 && executionCount >= Number(data.maxExecutions));
+
+    if (destinatarios.length > 0) {
+      await encolarEnvio(data.notificationData, destinatarios, { tipo: 'programada', id: ref.id });
+    }
+
+    await ref.update({
+      executionCount,
+      lastExecution: admin.firestore.Timestamp.fromDate(ahora),
+      nextExecution: completada || !proxima
+        ? admin.firestore.FieldValue.delete()
+        : admin.firestore.Timestamp.fromDate(proxima),
+      status: completada ? 'completed' : 'active',
+      lastError: admin.firestore.FieldValue.delete(),
+      'analytics.totalSent': admin.firestore.FieldValue.increment(destinatarios.length),
+      'analytics.lastExecutionStats': {
+        sent: destinatarios.length,
+        delivered: 0,
+        failed: 0,
+        executedAt: admin.firestore.Timestamp.fromDate(ahora),
+      },
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await registrarEjecucion({
+      scheduledNotificationId: ref.id,
+      targetCount: destinatarios.length,
+      status: 'completed',
+    });
+
+    console.log(`✅ Notificación programada ${ref.id} ejecutada (${destinatarios.length} destinatarios)`);
+  } catch (error) {
+    // La reserva queda como reintento
+    const mensaje = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Error ejecutando la notificación programada ${ref.id}:`, error);
+    await ref.update({ lastError: mensaje, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    await registrarEjecucion({ scheduledNotificationId: ref.id, targetCount: 0, status: 'failed', error: mensaje });
+  }
+}
+
+async function procesarProgramadas(ahora: Date): Promise<void> {
+  const snapshot = await db.collection('scheduledNotifications')
+    .where('isActive', '==', true)
+    .where('status', '==', 'active')
+    .where('nextExecution', '<=', admin.firestore.Timestamp.fromDate(ahora))
+    .limit(MAX_POR_CORRIDA)
+    .get();
+
+  for (const doc of snapshot.docs) {
+    await ejecutarProgramada(doc.ref, ahora);
+  }
+}
+
+// ==================== CAMPAÑAS POR FASES ====================
+
+interface FaseCampania {
+  id: string;
+  name: string;
+  startDate: unknown;
+  targeting: Segmentacion;
+  channels?: { email: boolean; sms: boolean; push: boolean; app: boolean };
+}
+
+interface VarianteCampania {
+  id: string;
+  percentage: number;
+  notificationData: DatosNotificacion;
+}
+
+interface PruebaAB {
+  testPercentage: number;
+  testWindowHours: number;
+  winnerMetric: 'delivered' | 'opened' | 'clicked';
+  autoSendWinner: boolean;
+  status: 'testing' | 'sending_winner' | 'winner_sent';
+  testStartedAt?: admin.firestore.Timestamp;
+  selectedWinnerId?: string;
+  winnerVariantId?: string;
+}
+
+interface GrupoVariante {
+  varianteId: string;
+  notificationData: DatosNotificacion;
+  destinatarios: string[];
+}
+
+async function getPublicoFase(fase: FaseCampania): Promise<string[]> {
+  const destinatarios = await getDestinatarios(fase.targeting);
+  const porcentaje = Number(fase.targeting?.percentage);
+  if (porcentaje > 0 && porcentaje < 100) {
+    return destinatarios.slice(0, Math.ceil(destinatarios.length * porcentaje / 100));
+  }
+  return destinatarios;
+}
+
+const datosDeVariante = (campaign: admin.firestore.DocumentData, varianteId: string): DatosNotificacion =>
+  ((campaign.variants ?? []) as VarianteCampania[]).find(v => v.id === varianteId)?.notificationData
+    ?? campaign.notificationData;
+
+const canalesDeFase = (fase: FaseCampania): string[] | undefined =>
+  fase.channels
+    ? (['email', 'sms', 'push'] as const).filter(canal => fase.channels![canal])
+    : undefined;
+
+// Agrupa los destinatarios por la variante que les toca según el hash
+function repartirVariantes(
+  campaignId: string,
+  destinatarios: string[],
+  campaign: admin.firestore.DocumentData
+): GrupoVariante[] {
+  const variantes: VarianteCampania[] = campaign.variants ?? [];
+  const grupos = new Map<string, GrupoVariante>();
+  destinatarios.forEach(recipientId => {
+    const varianteId = asignarVariante(campaignId, recipientId, variantes);
+    if (!grupos.has(varianteId)) {
+      grupos.set(varianteId, {
+        varianteId,
+        notificationData: datosDeVariante(campaign, varianteId),
+        destinatarios: [],
+      });
+    }
+    grupos.get(varianteId)!.destinatarios.push(recipientId);
+  });
+  return Array.from(grupos.values());
+}
+
+async function ejecutarFase(ref: admin.firestore.DocumentReference, faseId: string, ahora: Date): Promise<void> {
+  const data = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    const actual = doc.data();
+    const ejecutadas: string[] = actual?.executedPhases ?? [];
+    const prueba: PruebaAB | undefined = actual?.campaign?.abTest;
+    if (!actual || !['scheduled', 'running'].includes(actual.status) || ejecutadas.includes(faseId) ||
+        prueba?.status === 'sending_winner') {
+      return null;
+    }
+
+    // Con la prueba A/B abierta la campaña sigue en curso hasta enviar la ganadora
+    const fases: FaseCampania[] = actual.schedule?.phases ?? [];
+    const completada = fases.every(fase => fase.id === faseId || ejecutadas.includes(fase.id)) &&
+      (!prueba || prueba.status === 'winner_sent');
+    transaction.update(ref, {
+      executedPhases: admin.firestore.FieldValue.arrayUnion(faseId),
+      currentPhase: faseId,
+      status: completada ? 'completed' : 'running',
+      ...(prueba?.status === 'testing' && !prueba.testStartedAt
+        ? { 'campaign.abTest.testStartedAt': admin.firestore.Timestamp.fromDate(ahora) }
+        : {}),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return actual;
+  });
+  if (!data) return;
+
+  const fase = (data.schedule.phases as FaseCampania[]).find(f => f.id === faseId)!;
+  const prueba: PruebaAB | undefined = data.campaign.abTest;
+  try {
+    const destinatarios = await getPublicoFase(fase);
+
+    let grupos: GrupoVariante[];
+    if (prueba?.status === 'winner_sent' && prueba.winnerVariantId) {
+      // Decidida la prueba, las fases siguientes reciben directamente la ganadora
+      grupos = [{
+        varianteId: prueba.winnerVariantId,
+        notificationData: datosDeVariante(data.campaign, prueba.winnerVariantId),
+        destinatarios,
+      }];
+    } else if (prueba) {
+      const grupoPrueba = destinatarios.filter(id => enGrupoDePrueba(ref.id, id, Number(prueba.testPercentage) || 0));
+      grupos = repartirVariantes(ref.id, grupoPrueba, data.campaign);
+    } else {
+      grupos = repartirVariantes(ref.id, destinatarios, data.campaign);
+    }
+
+    const canales = canalesDeFase(fase);
+    const estadisticas: Record<string, admin.firestore.FieldValue> = {};
+    let enviados = 0;
+    for (const grupo of grupos.filter(g => g.destinatarios.length > 0)) {
+      await encolarEnvio(
+        {
+          ...grupo.notificationData,
+          ...(canales ? { channels: canales } : {}),
+          tracking: { campaignId: ref.id, variantId: grupo.varianteId },
+        },
+        grupo.destinatarios,
+        { tipo: 'campania', id: ref.id, faseId, varianteId: grupo.varianteId }
+      );
+      estadisticas[`analytics.variantStats.${grupo.varianteId}.sent`] =
+        admin.firestore.FieldValue.increment(grupo.destinatarios.length);
+      enviados += grupo.destinatarios.length;
+    }
+
+    await ref.update({
+      'analytics.totalTargeted': admin.firestore.FieldValue.increment(destinatarios.length),
+      'analytics.totalSent': admin.firestore.FieldValue.increment(enviados),
+      [`analytics.phaseStats.${faseId}`]: { sent: enviados, delivered: 0, failed: 0 },
+      ...estadisticas,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await registrarEjecucion({ campaignId: ref.id, phaseId: faseId, targetCount: enviados, status: 'completed' });
+
+    console.log(`✅ Fase ${fase.name} de la campaña ${ref.id} enviada (${enviados} destinatarios)`);
+  } catch (error) {
+    // La fase se vuelve a habilitar para el próximo minuto
+    const mensaje = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Error ejecutando la fase ${faseId} de la campaña ${ref.id}:`, error);
+    await ref.update({
+      executedPhases: admin.firestore.FieldValue.arrayRemove(faseId),
+      status: 'running',
+      lastError: mensaje,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await registrarEjecucion({ campaignId: ref.id, phaseId: faseId, targetCount: 0, status: 'failed', error: mensaje });
+  }
+}
+
+/**
+ * Envía la variante ganadora a quienes quedaron fuera del grupo de prueba en
+ * las fases ya ejecutadas. La ganadora es la elegida a mano desde el panel o,
+ * con autoSendWinner, la de mejor métrica al cerrar la ventana de prueba.
+ * Estos envíos no suman a variantStats, que queda como resultado de la prueba.
+ */
+async function enviarGanadora(ref: admin.firestore.DocumentReference, ahora: Date): Promise<void> {
+  const reserva = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    const actual = doc.data();
+    const prueba: PruebaAB | undefined = actual?.campaign?.abTest;
+    const inicio = toDate(prueba?.testStartedAt);
+    if (!actual || !prueba || prueba.status !== 'testing' || !inicio) return null;
+
+    let ganadora: { variantId: string; pValue: number | null } | null = null;
+    if (prueba.selectedWinnerId) {
+      ganadora = { variantId: prueba.selectedWinnerId, pValue: null };
+    } else if (prueba.autoSendWinner &&
+               ahora.getTime() >= inicio.getTime() + (Number(prueba.testWindowHours) || 0) * 60 * 60 * 1000) {
+      const resultado = compararVariantes(actual.analytics?.variantStats ?? {}, prueba.winnerMetric || 'opened');
+      ganadora = resultado.liderId ? { variantId: resultado.liderId, pValue: resultado.pValue } : null;
+    }
+    if (!ganadora) return null;
+
+    transaction.update(ref, {
+      'campaign.abTest.status': 'sending_winner',
+      'campaign.abTest.winnerVariantId': ganadora.variantId,
+      'campaign.abTest.winnerPValue': ganadora.pValue,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { data: actual, prueba, ganadora: ganadora.variantId };
+  });
+  if (!reserva) return;
+
+  const { data, prueba, ganadora } = reserva;
+  try {
+    const ejecutadas: string[] = data.executedPhases ?? [];
+    const fases = ((data.schedule?.phases ?? []) as FaseCampania[]).filter(fase => ejecutadas.includes(fase.id));
+    const notificationData = datosDeVariante(data.campaign, ganadora);
+
+    let enviados = 0;
+    for (const fase of fases) {
+      const resto = (await getPublicoFase(fase))
+        .filter(id => !enGrupoDePrueba(ref.id, id, Number(prueba.testPercentage) || 0));
+      if (resto.length === 0) continue;
+
+      const canales = canalesDeFase(fase);
+      await encolarEnvio(
+        { ...notificationData, ...(canales ? { channels: canales } : {}) },
+        resto,
+        { tipo: 'campania', id: ref.id, faseId: fase.id, varianteId: ganadora, envio: 'ganadora' }
+      );
+      enviados += resto.length;
+    }
+
+    const todasEjecutadas = ((data.schedule?.phases ?? []) as FaseCampania[])
+      .every(fase => ejecutadas.includes(fase.id));
+    await ref.update({
+      'campaign.abTest.status': 'winner_sent',
+      'campaign.abTest.winnerSentAt': admin.firestore.Timestamp.fromDate(ahora),
+      'campaign.abTest.winnerSentCount': enviados,
+      'analytics.totalTargeted': admin.firestore.FieldValue.increment(enviados),
+      'analytics.totalSent': admin.firestore.FieldValue.increment(enviados),
+      ...(todasEjecutadas ? { status: 'completed' } : {}),
+      lastError: admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await registrarEjecucion({ campaignId: ref.id, variantId: ganadora, targetCount: enviados, status: 'completed' });
+
+    console.log(`🏆 Variante ${ganadora} de la campaña ${ref.id} enviada al resto (${enviados} destinatarios)`);
+  } catch (error) {
+    const mensaje = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Error enviando la variante ganadora de la campaña ${ref.id}:`, error);
+    await ref.update({
+      'campaign.abTest.status': 'testing',
+      lastError: mensaje,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await registrarEjecucion({ campaignId: ref.id, variantId: ganadora, targetCount: 0, status: 'failed', error: mensaje });
+  }
+}
+
+async function procesarCampanias(ahora: Date): Promise<void> {
+  const snapshot = await db.collection('notificationCampaigns')
+    .where('status', 'in', ['scheduled', 'running'])
+    .get();
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data();
+    const endDate = toDate(data.schedule?.endDate);
+    if (endDate && endDate < ahora) {
+      await doc.ref.update({ status: 'completed', updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      continue;
+    }
+
+    if (data.campaign?.abTest?.status === 'testing') {
+      await enviarGanadora(doc.ref, ahora);
+    }
+
+    const ejecutadas: string[] = data.executedPhases ?? [];
+    const pendientes = ((data.schedule?.phases ?? []) as FaseCampania[])
+      .filter(fase => !ejecutadas.includes(fase.id))
+      .filter(fase => (toDate(fase.startDate) ?? ahora) <= ahora);
+
+    for (const fase of pendientes) {
+      await ejecutarFase(doc.ref, fase.id, ahora);
+    }
+  }
+}
+
+// Ejecuta en el servidor las notificaciones programadas y las fases de las
+// campañas; los envíos pasan por la cola que procesa processNotificationQueue.
+// La ejecución queda registrada en el mismo documento (executionCount,
+// lastExecution, analytics) y en notificationExecutions.
+export const procesarNotificacionesProgramadas = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const ahora = new Date();
+
+    try {
+      await procesarProgramadas(ahora);
+    } catch (error) {
+      console.error('❌ Error procesando notificaciones programadas:', error);
+    }
+
+    try {
+      await procesarCampanias(ahora);
+    } catch (error) {
+      console.error('❌ Error procesando campañas:', error);
+    }
+
+    return null;
+  });
@@ -0,0 +1,68 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { DIAS_AVISO_VENCIMIENTO } from '../../src/lib/eventos-dominio';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const ZONA_HORARIA = 'America/Argentina/Buenos_Aires';
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+const fechaLocal = (fecha: Date): string =>
+  fecha.toLocaleDateString('en-CA', { timeZone: ZONA_HORARIA });
+
+// Publica membership_expiring para los socios cuya membresía vence dentro de
+// alguno de los días de aviso. El ID del evento es fijo por socio y fecha de
+// vencimiento, así una corrida repetida no lo duplica.
+export const publicarVencimientosMembresia = functions.pubsub
+  .schedule('0 9 * * *')
+  .timeZone(ZONA_HORARIA)
+  .onRun(async () => {
+    const ahora = new Date();
+    const hoy = Date.parse(fechaLocal(ahora));
+    const hasta = new Date(ahora.getTime() + (Math.max(...DIAS_AVISO_VENCIMIENTO) + 1) * MS_POR_DIA);
+
+    const snapshot = await db.collection('socios')
+      .where('fechaVencimiento', '>', admin.firestore.Timestamp.fromDate(ahora))
+      .where('fechaVencimiento', '<=', admin.firestore.Timestamp.fromDate(hasta))
+      .get();
+
+    let publicados = 0;
+    for (const doc of snapshot.docs) {
+      const socio = doc.data();
+      if (socio.estado !== 'activo' || !socio.asociacionId) continue;
+
+      const vencimiento = fechaLocal(socio.fechaVencimiento.toDate());
+      const diasRestantes = Math.round((Date.parse(vencimiento) - hoy) / MS_POR_DIA);
+      if (!DIAS_AVISO_VENCIMIENTO.includes(diasRestantes)) continue;
+
+      try {
+        await db.collection('eventos_dominio').doc(`membership_expiring_${doc.id}_${vencimiento}_${diasRestantes}`).create({
+          type: 'membership_expiring',
+          payload: {
+            socioId: doc.id,
+            asociacionId: socio.asociacionId,
+            nombre: socio.nombre || '',
+            diasRestantes,
+            fechaVencimiento: vencimiento,
+          },
+          userId: doc.id,
+          asociacionId: socio.asociacionId,
+          status: 'pending',
+          occurredAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        publicados++;
+      } catch (error) {
+        // ALREADY_EXISTS: el aviso de hoy ya se publicó
+        if ((error as { code?: number }).code !== 6) {
+          console.error(`❌ Error publicando el vencimiento del socio ${doc.id}:`, error);
+        }
+      }
+    }
+
+    console.log(`📅 Avisos de vencimiento de membresía publicados: ${publicados}`);
+    return null;
+  });
@@ -0,0 +1,426 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+import { BACKUP_FORMAT_VERSION, coleccionesDelRespaldo, contarRegistros, DEFAULT_BACKUP_CONFIG } from '../../src/lib/backup';
+import { ALGORITMO, empaquetar, exportarDatos, rutaDelArchivo, sha256, VERSION_CLAVE } from '../../src/lib/backup-format';
+import { desdeFechaLocal, FechaLocal, getFechaLocal, ZONA_HORARIA_POR_DEFECTO } from '../../src/lib/notification-schedule';
+import { BackupConfig } from '../../src/types/backup';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const ZONA_HORARIA = ZONA_HORARIA_POR_DEFECTO;
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+// Respaldos por corrida: cada uno exporta todos los datos de una asociación
+const MAX_POR_CORRIDA = 10;
+const TAMANO_LOTE = 400;
+
+type ConfigRespaldo = Omit<BackupConfig, 'includeCustomData'> & { asociacionId: string };
+
+interface RespaldoExistente {
+  id: string;
+  status: string;
+  createdAt: Date;
+  storagePath?: string;
+}
+
+const siNo = (valor: unknown, porDefecto: boolean): boolean => (typeof valor === 'boolean' ? valor : porDefecto);
+
+// Los campos que faltan o no son válidos toman los valores de DEFAULT_BACKUP_CONFIG
+const leerConfig = (doc: admin.firestore.QueryDocumentSnapshot): ConfigRespaldo => {
+  const data = doc.data();
+  return {
+    asociacionId: data.asociacionId,
+    autoBackupEnabled: siNo(data.autoBackupEnabled, DEFAULT_BACKUP_CONFIG.autoBackupEnabled),
+    backupFrequency: ['daily', 'weekly', 'monthly'].includes(data.backupFrequency)
+      ? data.backupFrequency
+      : DEFAULT_BACKUP_CONFIG.backupFrequency,
+    backupTime: /^\d{2}:\d{2}$/.test(data.backupTime || '') ? data.backupTime : DEFAULT_BACKUP_CONFIG.backupTime,
+    maxBackups: Number(data.maxBackups) || DEFAULT_BACKUP_CONFIG.maxBackups,
+    retentionDays: Number(data.retentionDays) || DEFAULT_BACKUP_CONFIG.retentionDays,
+    compressionEnabled: siNo(data.compressionEnabled, DEFAULT_BACKUP_CONFIG.compressionEnabled),
+    encryptionEnabled: siNo(data.encryptionEnabled, DEFAULT_BACKUP_CONFIG.encryptionEnabled),
+    includeSettings: siNo(data.includeSettings, DEFAULT_BACKUP_CONFIG.includeSettings),
+    notificationsEnabled: siNo(data.notificationsEnabled, DEFAULT_BACKUP_CONFIG.notificationsEnabled),
+  };
+};
+
+// ==================== PROGRAMA ====================
+
+const ultimoDiaDelMes = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Día civil desplazado, a la hora del programa
+const enDia = (local: FechaLocal, dias: number, hour: number, minute: number): Date => {
+  const fecha = new Date(Date.UTC(local.year, local.month - 1, local.day) + dias * MS_POR_DIA);
+  return desdeFechaLocal({
+    year: fecha.getUTCFullYear(),
+    month: fecha.getUTCMonth() + 1,
+    day: fecha.getUTCDate(),
+    hour,
+    minute,
+  }, ZONA_HORARIA);
+};
+
+/**
+ * Próximo respaldo según la frecuencia y la hora configuradas. Sin respaldos
+ * previos es el próximo horario del programa; con uno, un período después
+ * del último. Si ese momento ya pasó el respaldo queda vencido y se hace en
+ * la próxima corrida.
+ */
+function proximoRespaldo(config: ConfigRespaldo, ultimo: Date | null, desde: Date): Date {
+  const [hour, minute] = config.backupTime.split(':').map(Number);
+
+  if (!ultimo) {
+    const hoy = getFechaLocal(desde, ZONA_HORARIA);
+    const candidata = enDia(hoy, 0, hour, minute);
+    return candidata > desde ? candidata : enDia(hoy, 1, hour, minute);
+  }
+
+  const local = getFechaLocal(ultimo, ZONA_HORARIA);
+  switch (config.backupFrequency) {
+    case 'daily':
+      return enDia(local, 1, hour, minute);
+    case 'weekly':
+      return enDia(local, 7, hour, minute);
+    case 'monthly': {
+      const year = local.month === 12 ? local.year + 1 : local.year;
+      const month = local.month === 12 ? 1 : local.month + 1;
+      const day = Math.min(local.day, ultimoDiaDelMes(year, month));
+      return desdeFechaLocal({ year, month, day, hour, minute }, ZONA_HORARIA);
+    }
+  }
+}
+
+/**
+ * Toma el respaldo de la asociación si le toca. El programa avanza en la
+ * misma transacción, así dos corridas superpuestas no respaldan dos veces.
+ * Si cambió la frecuencia o la hora se recalcula el próximo respaldo.
+ */
+async function reservarRespaldo(config: ConfigRespaldo, ahora: Date): Promise<boolean> {
+  const scheduleRef = db.collection('backupSchedules').doc(config.asociacionId);
+
+  return db.runTransaction(async (transaction) => {
+    const schedule = (await transaction.get(scheduleRef)).data();
+    const lastRun = schedule?.lastRun instanceof admin.firestore.Timestamp ? schedule.lastRun.toDate() : null;
+    const cambio = !schedule || schedule.frequency !== config.backupFrequency || schedule.time !== config.backupTime;
+    const nextRun = cambio || !(schedule?.nextRun instanceof admin.firestore.Timestamp)
+      ? proximoRespaldo(config, lastRun, ahora)
+      : schedule.nextRun.toDate();
+
+    const programa = {
+      asociacionId: config.asociacionId,
+      name: 'Respaldo automático',
+      frequency: config.backupFrequency,
+      time: config.backupTime,
+      enabled: true,
+      config: {
+        maxBackups: config.maxBackups,
+        retentionDays: config.retentionDays,
+        compressionEnabled: config.compressionEnabled,
+        encryptionEnabled: config.encryptionEnabled,
+        includeSettings: config.includeSettings,
+      },
+    };
+
+    if (nextRun > ahora) {
+      if (cambio) {
+        transaction.set(scheduleRef, { ...programa, nextRun: admin.firestore.Timestamp.fromDate(nextRun) }, { merge: true });
+      }
+      return false;
+    }
+
+    transaction.set(scheduleRef, {
+      ...programa,
+      lastRun: admin.firestore.Timestamp.fromDate(ahora),
+      nextRun: admin.firestore.Timestamp.fromDate(proximoRespaldo(config, ahora, ahora)),
+      lastStatus: 'running',
+    }, { merge: true });
+    return true;
+  });
+}
+
+// ==================== EXPORTACIÓN ====================
+
+const bucket = () => admin.storage().bucket(process.env.FIREBASE_BACKUP_BUCKET || undefined);
+
+/**
+ * Exporta, comprime, cifra y sube el respaldo programado de la asociación,
+ * con el mismo formato que un respaldo manual de /api/backups. El documento
+ * se crea como 'creating' para que un fallo quede registrado.
+ */
+async function crearRespaldoProgramado(config: ConfigRespaldo, ahora: Date): Promise<{ id: string; recordCount: number; size: number }> {
+  const asociacionId = config.asociacionId;
+  const backupRef = db.collection('backups').doc();
+  const comprimir = config.compressionEnabled;
+  const cifrar = config.encryptionEnabled;
+  const colecciones = coleccionesDelRespaldo(config);
+  const storagePath = rutaDelArchivo(asociacionId, backupRef.id, { comprimir, cifrar });
+  const fecha = ahora.toLocaleDateString('es-AR', { timeZone: ZONA_HORARIA });
+
+  await backupRef.set({
+    name: `Respaldo automático ${fecha}`,
+    description: 'Respaldo programado según la configuración de la asociación',
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    createdBy: 'system',
+    asociacionId,
+    type: 'scheduled',
+    status: 'creating',
+    size: 0,
+    recordCount: 0,
+    version: BACKUP_FORMAT_VERSION,
+    checksum: '',
+    artifactChecksum: '',
+    tags: ['scheduled'],
+    isEncrypted: cifrar,
+    encryptionAlgorithm: cifrar ? ALGORITMO : null,
+    keyVersion: cifrar ? VERSION_CLAVE : null,
+    compressionType: comprimir ? 'gzip' : 'none',
+    storageLocation: '',
+    storagePath,
+    collections: colecciones,
+    recordCounts: {},
+    verificationStatus: 'pending',
+  });
+
+  try {
+    const datos = await exportarDatos(db, asociacionId, colecciones);
+    const { archivo, checksum } = empaquetar(datos, backupRef.id, { comprimir, cifrar });
+    const archivoBucket = bucket().file(storagePath);
+    await archivoBucket.save(archivo, {
+      resumable: false,
+      contentType: 'application/octet-stream',
+      metadata: { metadata: { asociacionId, backupId: backupRef.id, checksum } },
+    });
+
+    const { total: recordCount, porColeccion: recordCounts } = contarRegistros(datos.collections);
+    await backupRef.update({
+      status: 'completed',
+      size: archivo.length,
+      recordCount,
+      recordCounts,
+      checksum,
+      artifactChecksum: sha256(archivo),
+      storageLocation: `gs://${archivoBucket.bucket.name}/${storagePath}`,
+    });
+
+    return { id: backupRef.id, recordCount, size: archivo.length };
+  } catch (error) {
+    await backupRef.update({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    throw Object.assign(error instanceof Error ? error : new Error(String(error)), { backupId: backupRef.id });
+  }
+}
+
+// ==================== RETENCIÓN ====================
+
+/**
+ * Respaldos a eliminar: los anteriores a retentionDays y, con los respaldos
+ * automáticos activos, los que exceden maxBackups, del más nuevo al más
+ * viejo. El último respaldo completo nunca se elimina y los que se están
+ * creando no se tocan.
+ */
+function respaldosAPodar(respaldos: RespaldoExistente[], config: ConfigRespaldo, ahora: Date): RespaldoExistente[] {
+  const ordenados = respaldos
+    .filter(respaldo => respaldo.status !== 'creating')
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const ultimoCompleto = ordenados.find(respaldo => respaldo.status === 'completed');
+  const limite = ahora.getTime() - Math.max(1, config.retentionDays) * MS_POR_DIA;
+  const maximo = config.autoBackupEnabled ? Math.max(1, config.maxBackups) : Infinity;
+
+  return ordenados.filter((respaldo, indice) =>
+    respaldo !== ultimoCompleto && (indice >= maximo || respaldo.createdAt.getTime() < limite)
+  );
+}
+
+async function podarRespaldos(config: ConfigRespaldo, ahora: Date): Promise<number> {
+  const snapshot = await db.collection('backups').where('asociacionId', '==', config.asociacionId).get();
+  const respaldos: RespaldoExistente[] = snapshot.docs
+    .filter(doc => doc.data().createdAt instanceof admin.firestore.Timestamp)
+    .map(doc => ({
+      id: doc.id,
+      status: doc.data().status,
+      createdAt: (doc.data().createdAt as admin.firestore.Timestamp).toDate(),
+      storagePath: doc.data().storagePath,
+    }));
+
+  const aEliminar = respaldosAPodar(respaldos, config, ahora);
+  for (const respaldo of aEliminar) {
+    if (respaldo.storagePath) {
+      await bucket().file(respaldo.storagePath).delete({ ignoreNotFound: true });
+    }
+    await db.collection('backups').doc(respaldo.id).delete();
+  }
+  return aEliminar.length;
+}
+
+// ==================== ACTIVIDAD Y AVISOS ====================
+
+// Mismo formato que ActivityService.logSystemActivity
+async function registrarActividad(
+  asociacionId: string,
+  type: 'backup_completed' | 'backup_failed',
+  title: string,
+  description: string,
+  metadata: Record<string, unknown>,
+  severity: 'success' | 'error'
+): Promise<void> {
+  await db.collection('activities').add({
+    type,
+    title,
+    description,
+    asociacionId,
+    category: 'system',
+    severity,
+    metadata,
+    timestamp: admin.firestore.FieldValue.serverTimestamp(),
+    creadoEn: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+// Avisa el fallo a la asociación (si tiene las notificaciones de respaldos
+// activas) y a los administradores de la plataforma
+async function avisarFallo(config: ConfigRespaldo, mensajeError: string, backupId: string | null): Promise<void> {
+  const admins = await db.collection('users').where('role', '==', 'admin').get();
+  const destinatarios = new Set(admins.docs.map(doc => doc.id));
+  if (config.notificationsEnabled) destinatarios.add(config.asociacionId);
+  if (destinatarios.size === 0) return;
+
+  const notificationData = {
+    title: 'Falló un respaldo automático',
+    message: `El respaldo programado de la asociación ${config.asociacionId} no se pudo completar: ${mensajeError}`,
+    type: 'error',
+    category: 'system',
+    priority: 'high',
+  };
+  const origen = { tipo: 'respaldo', id: backupId || config.asociacionId };
+
+  const notificationRef = await db.collection('notifications').add({
+    title: notificationData.title,
+    message: notificationData.message,
+    type: notificationData.type,
+    category: notificationData.category,
+    status: 'pending',
+    recipientCount: destinatarios.size,
+    origen,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const ids = [...destinatarios];
+  for (let i = 0; i < ids.length; i += TAMANO_LOTE) {
+    const batch = db.batch();
+    ids.slice(i, i + TAMANO_LOTE).forEach(recipientId => {
+      batch.set(db.collection('notificationQueue').doc(), {
+        notificationId: notificationRef.id,
+        recipientId,
+        notificationData,
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: 3,
+        scheduledFor: admin.firestore.Timestamp.now(),
+        origen,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+}
+
+// ==================== FUNCIONES ====================
+
+// Hace los respaldos automáticos que vencieron según la frecuencia y la hora
+// de cada asociación, y después aplica su política de retención
+export const ejecutarRespaldosProgramados = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB' })
+  .pubsub
+  .schedule('every 15 minutes')
+  .timeZone(ZONA_HORARIA)
+  .onRun(async () => {
+    const ahora = new Date();
+    const configs = await db.collection('backupConfigs').where('autoBackupEnabled', '==', true).get();
+
+    let realizados = 0;
+    let fallidos = 0;
+    for (const configDoc of configs.docs) {
+      if (realizados + fallidos >= MAX_POR_CORRIDA) break;
+      const config = leerConfig(configDoc);
+      if (!config.asociacionId) continue;
+
+      try {
+        if (!await reservarRespaldo(config, ahora)) continue;
+      } catch (error) {
+        console.error(`❌ Error leyendo el programa de respaldos de ${config.asociacionId}:`, error);
+        continue;
+      }
+
+      const scheduleRef = db.collection('backupSchedules').doc(config.asociacionId);
+      try {
+        const respaldo = await crearRespaldoProgramado(config, ahora);
+        await scheduleRef.update({ lastStatus: 'completed', lastBackupId: respaldo.id, lastError: null });
+        await registrarActividad(
+          config.asociacionId,
+          'backup_completed',
+          'Respaldo automático completado',
+          `Se respaldaron ${respaldo.recordCount} registros`,
+          { backupId: respaldo.id, recordCount: respaldo.recordCount, size: respaldo.size, type: 'scheduled' },
+          'success'
+        );
+        realizados++;
+
+        const eliminados = await podarRespaldos(config, ahora);
+        if (eliminados > 0) {
+          console.log(`🧹 ${eliminados} respaldos eliminados por retención en ${config.asociacionId}`);
+        }
+      } catch (error) {
+        fallidos++;
+        const mensaje = error instanceof Error ? error.message : String(error);
+        const backupId = (error as { backupId?: string }).backupId || null;
+        console.error(`❌ Falló el respaldo automático de ${config.asociacionId}:`, error);
+
+        await scheduleRef.update({ lastStatus: 'failed', lastBackupId: backupId, lastError: mensaje })
+          .catch(err => console.error('❌ Error actualizando el programa de respaldos:', err));
+        await registrarActividad(
+          config.asociacionId,
+          'backup_failed',
+          'Falló el respaldo automático',
+          mensaje,
+          { backupId, type: 'scheduled' },
+          'error'
+        ).catch(err => console.error('❌ Error registrando la actividad del respaldo:', err));
+        await avisarFallo(config, mensaje, backupId)
+          .catch(err => console.error('❌ Error avisando el fallo del respaldo:', err));
+      }
+    }
+
+    console.log(`💾 Respaldos automáticos: ${realizados} completados, ${fallidos} fallidos`);
+    return null;
+  });
+
+// Aplica una vez por día la retención de todas las asociaciones, también a
+// las que hacen solo respaldos manuales
+export const podarRespaldosVencidos = functions.pubsub
+  .schedule('45 3 * * *') // Todos los días a las 03:45
+  .timeZone(ZONA_HORARIA)
+  .onRun(async () => {
+    const ahora = new Date();
+    const configs = await db.collection('backupConfigs').get();
+
+    let eliminados = 0;
+    for (const configDoc of configs.docs) {
+      const config = leerConfig(configDoc);
+      if (!config.asociacionId) continue;
+
+      try {
+        eliminados += await podarRespaldos(config, ahora);
+      } catch (error) {
+        console.error(`❌ Error aplicando la retención de respaldos de ${config.asociacionId}:`, error);
+      }
+    }
+
+    console.log(`🧹 Retención de respaldos: ${eliminados} eliminados`);
+    return null;
+  });
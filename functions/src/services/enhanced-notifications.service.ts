@@ -1,4 +1,5 @@
 import * as admin from 'firebase-admin';
+import { FrecuenciaNotificaciones } from '../../../src/types/notification';
 
 // Type definitions for notification data
 interface NotificationData {
@@ -7,6 +8,23 @@ interface NotificationData {
   type: 'info' | 'success' | 'warning' | 'error' | 'announcement';
   actionUrl?: string;
   actionLabel?: string;
+  // Canales permitidos (campañas por fase); sin definir se usan todos
+  channels?: ('email' | 'sms' | 'push')[];
+  // Variante de campaña; el webhook de entregas suma sus métricas
+  tracking?: { campaignId: string; variantId: string };
+  // Categoría y prioridad para las preferencias del destinatario
+  category?: string;
+  priority?: string;
+  // Textos por canal renderizados desde una plantilla; sin uno se arma el
+  // mensaje con el título y el texto generales
+  cuerpos?: { emailAsunto?: string; emailHtml?: string; whatsapp?: string; sms?: string };
+}
+
+// Archivo adjunto de un email
+export interface AdjuntoEmail {
+  fileName: string;
+  contentType: string;
+  contenido: Buffer;
 }
 
 // Enhanced Email service using SendGrid with real implementation
@@ -27,7 +45,8 @@ class EnhancedEmailService {
     subject: string, 
     htmlContent: string, 
     textContent?: string,
-    trackingId?: string
+    trackingId?: string,
+    attachments?: AdjuntoEmail[]
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
     if (!this.apiKey) {
       console.warn('SendGrid API key not configured');
@@ -55,6 +74,14 @@ class EnhancedEmailService {
             value: textContent
           }] : [])
         ],
+        ...(attachments?.length ? {
+          attachments: attachments.map(adjunto => ({
+            content: adjunto.contenido.toString('base64'),
+            filename: adjunto.fileName,
+            type: adjunto.contentType,
+            disposition: 'attachment',
+          })),
+        } : {}),
         tracking_settings: {
           click_tracking: { enable: true },
           open_tracking: { enable: true },
@@ -120,7 +147,8 @@ class EnhancedSMSService {
         From: this.fromNumber,
         To: to,
         Body: message,
-        ...(trackingId && { StatusCallback: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/sms/${trackingId}` })
+        // Los estados llegan al webhook de entregas de Twilio
+        ...(trackingId && { StatusCallback: `${process.env.NEXT_PUBLIC_APP_URL}/api/webhooks/delivery/twilio` })
       });
 
       const response = await fetch(this.baseUrl, {
@@ -300,7 +328,8 @@ export class EnhancedNotificationService {
       start: string;
       end: string;
     };
-    frequency: string;
+    frequency: FrecuenciaNotificaciones;
+    timezone?: string;
     id?: string;
   } | null> {
     try {
@@ -335,7 +364,8 @@ export class EnhancedNotificationService {
             start: string;
             end: string;
           };
-          frequency: string;
+          frequency: FrecuenciaNotificaciones;
+          timezone?: string;
         }), id: doc.id };
       }
 
@@ -377,6 +407,7 @@ export class EnhancedNotificationService {
     phone?: string;
     pushTokens?: string[];
     name?: string;
+    asociacionId?: string;
   } | null> {
     try {
       const userQuery = this.db.collection('users')
@@ -400,7 +431,9 @@ export class EnhancedNotificationService {
           email: emailValid ? email : undefined,
           phone: phoneValid ? phone : undefined,
           pushTokens: Array.isArray(userData.pushTokens) ? userData.pushTokens : [],
-          name: userData.nombre || userData.name || 'Usuario'
+          name: userData.nombre || userData.name || 'Usuario',
+          // Las asociaciones son su propia asociación
+          asociacionId: userData.asociacionId || (userData.role === 'asociacion' ? snapshot.docs[0].id : undefined)
         };
       }
 
@@ -509,18 +542,23 @@ Si no deseas recibir estas notificaciones, puedes cambiar tus preferencias en: $
   }
 
   // Create delivery record
+  // status sigue el modelo de src/types/entregas.ts; los webhooks de los
+  // proveedores lo avanzan a delivered/opened/clicked/bounced/failed
   private async createDeliveryRecord(
-    notificationId: string,
-    recipientId: string,
+    envio: { notificationId: string | null; recipientId: string; queueItemId?: string; asociacionId?: string },
     channel: 'app' | 'email' | 'sms' | 'push',
-    status: 'pending' | 'sent' | 'delivered' | 'failed',
+    status: 'queued' | 'sent' | 'failed',
+    provider: 'sendgrid' | 'twilio' | 'fcm' | null,
     metadata: Record<string, unknown> = {}
   ): Promise<string> {
     const deliveryData: Record<string, unknown> = {
-      notificationId,
-      recipientId,
+      notificationId: envio.notificationId,
+      recipientId: envio.recipientId,
+      queueItemId: envio.queueItemId ?? null,
+      asociacionId: envio.asociacionId ?? null,
       channel,
       status,
+      provider,
       retryCount: 0,
       metadata: {
         ...metadata,
@@ -539,11 +577,31 @@ Si no deseas recibir estas notificaciones, puedes cambiar tus preferencias en: $
     return docRef.id;
   }
 
+  // Resultado del envío al proveedor. Solo se actualizan campos puntuales:
+  // la metadata guarda el trackingId y la variante de campaña que usan los
+  // webhooks de entrega
+  private async markDeliveryResult(
+    deliveryId: string,
+    result: { success: boolean; messageId?: string; error?: string },
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    await this.db.collection('notificationDeliveries').doc(deliveryId).update({
+      ...extra,
+      status: result.success ? 'sent' : 'failed',
+      ...(result.success
+        ? { sentAt: admin.firestore.FieldValue.serverTimestamp() }
+        : { failedAt: admin.firestore.FieldValue.serverTimestamp(), failureReason: result.error || 'Unknown error' }),
+      ...(result.messageId ? { providerMessageId: result.messageId } : {}),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+  }
+
   // Send notification to a single user
   async sendNotificationToUser(
     notificationId: string,
     userId: string,
-    notificationData: NotificationData
+    notificationData: NotificationData,
+    queueItemId?: string
   ): Promise<{
     email: { success: boolean; messageId?: string; error?: string };
     sms: { success: boolean; messageId?: string; error?: string };
@@ -574,32 +632,40 @@ Si no deseas recibir estas notificaciones, puedes cambiar tus preferencias en: $
       }
 
       const trackingId = `${notificationId}_${userId}_${Date.now()}`;
+      const canalPermitido = (canal: 'email' | 'sms' | 'push') =>
+        !notificationData.channels || notificationData.channels.includes(canal);
+      const envio = { notificationId, recipientId: userId, queueItemId, asociacionId: contactInfo.asociacionId };
+      const seguimiento = notificationData.tracking
+        ? { campaignId: notificationData.tracking.campaignId, variantId: notificationData.tracking.variantId }
+        : {};
 
       // Send email notification
-      if (settings.emailNotifications && contactInfo.email) {
+      if (settings.emailNotifications && contactInfo.email && canalPermitido('email')) {
         console.log(`📧 Sending email to ${contactInfo.email}`);
         
         const deliveryId = await this.createDeliveryRecord(
-          notificationId,
-          userId,
+          envio,
           'email',
-          'pending',
-          { email: contactInfo.email, trackingId }
+          'queued',
+          'sendgrid',
+          { email: contactInfo.email, trackingId, ...seguimiento }
         );
 
         try {
-          const { html, text } = this.generateEmailTemplate(
-            notificationData.title,
-            notificationData.message,
-            notificationData.type,
-            contactInfo.name,
-            notificationData.actionUrl,
-            notificationData.actionLabel
-          );
+          const { html, text } = notificationData.cuerpos?.emailHtml
+            ? { html: notificationData.cuerpos.emailHtml, text: notificationData.message }
+            : this.generateEmailTemplate(
+              notificationData.title,
+              notificationData.message,
+              notificationData.type,
+              contactInfo.name,
+              notificationData.actionUrl,
+              notificationData.actionLabel
+            );
 
           const emailResult = await this.emailService.sendEmail(
             contactInfo.email,
-            notificationData.title,
+            notificationData.cuerpos?.emailAsunto || notificationData.title,
             html,
             text,
             trackingId
@@ -611,17 +677,7 @@ Si no deseas recibir estas notificaciones, puedes cambiar tus preferencias en: $
             messageId: emailResult.messageId
           };
           
-          await this.db.collection('notificationDeliveries').doc(deliveryId).update({
-            status: emailResult.success ? 'sent' : 'failed',
-            sentAt: emailResult.success ? admin.firestore.FieldValue.serverTimestamp() : undefined,
-            failureReason: emailResult.error,
-            metadata: {
-              email: contactInfo.email,
-              trackingId,
-              messageId: emailResult.messageId
-            },
-            updatedAt: admin.firestore.FieldValue.serverTimestamp()
-          });
+          await this.markDeliveryResult(deliveryId, emailResult);
         } catch (error) {
           console.error('❌ Error sending email:', error);
           results.email = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -635,19 +691,19 @@ Si no deseas recibir estas notificaciones, puedes cambiar tus preferencias en: $
       }
 
       // Send SMS notification
-      if (settings.smsNotifications && contactInfo.phone) {
+      if (settings.smsNotifications && contactInfo.phone && canalPermitido('sms')) {
         console.log(`📱 Sending SMS to ${contactInfo.phone}`);
         
         const deliveryId = await this.createDeliveryRecord(
-          notificationId,
-          userId,
+          envio,
           'sms',
-          'pending',
-          { phone: contactInfo.phone, trackingId }
+          'queued',
+          'twilio',
+          { phone: contactInfo.phone, trackingId, ...seguimiento }
         );
 
         try {
-          const smsMessage = `${notificationData.title}\n\n${notificationData.message}${
+          const smsMessage = notificationData.cuerpos?.sms || `${notificationData.title}\n\n${notificationData.message}${
             notificationData.actionUrl ? `\n\nVer más: ${notificationData.actionUrl}` : ''
           }\n\n- Fidelita`;
 
@@ -659,17 +715,7 @@ Si no deseas recibir estas notificaciones, puedes cambiar tus preferencias en: $
 
           results.sms = smsResult;
           
-          await this.db.collection('notificationDeliveries').doc(deliveryId).update({
-            status: smsResult.success ? 'sent' : 'failed',
-            sentAt: smsResult.success ? admin.firestore.FieldValue.serverTimestamp() : undefined,
-            failureReason: smsResult.error,
-            metadata: {
-              phone: contactInfo.phone,
-              trackingId,
-              messageId: smsResult.messageId
-            },
-            updatedAt: admin.firestore.FieldValue.serverTimestamp()
-          });
+          await this.markDeliveryResult(deliveryId, smsResult);
         } catch (error) {
           console.error('❌ Error sending SMS:', error);
           results.sms = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -683,15 +729,15 @@ Si no deseas recibir estas notificaciones, puedes cambiar tus preferencias en: $
       }
 
       // Send push notification
-      if (settings.pushNotifications && contactInfo.pushTokens && contactInfo.pushTokens.length > 0) {
+      if (settings.pushNotifications && contactInfo.pushTokens && contactInfo.pushTokens.length > 0 && canalPermitido('push')) {
         console.log(`🔔 Sending push notification to ${contactInfo.pushTokens.length} devices`);
         
         const deliveryId = await this.createDeliveryRecord(
-          notificationId,
-          userId,
+          envio,
           'push',
-          'pending',
-          { pushTokens: contactInfo.pushTokens, trackingId }
+          'queued',
+          'fcm',
+          { pushTokens: contactInfo.pushTokens, trackingId, ...seguimiento }
         );
 
         try {
@@ -713,19 +759,18 @@ Si no deseas recibir estas notificaciones, puedes cambiar tus preferencias en: $
             error: pushResult.errors.length > 0 ? pushResult.errors.join(', ') : undefined
           };
           
-          await this.db.collection('notificationDeliveries').doc(deliveryId).update({
-            status: pushResult.success > 0 ? 'sent' : 'failed',
-            sentAt: pushResult.success > 0 ? admin.firestore.FieldValue.serverTimestamp() : undefined,
-            failureReason: pushResult.errors.length > 0 ? pushResult.errors.join(', ') : undefined,
-            metadata: {
-              pushTokens: contactInfo.pushTokens,
-              trackingId,
-              successCount: pushResult.success,
-              failureCount: pushResult.failure,
-              errors: pushResult.errors
+          await this.markDeliveryResult(
+            deliveryId,
+            {
+              success: pushResult.success > 0,
+              error: pushResult.errors.length > 0 ? pushResult.errors.join(', ') : undefined
             },
-            updatedAt: admin.firestore.FieldValue.serverTimestamp()
-          });
+            {
+              'metadata.successCount': pushResult.success,
+              'metadata.failureCount': pushResult.failure,
+              'metadata.errors': pushResult.errors
+            }
+          );
         } catch (error) {
           console.error('❌ Error sending push notification:', error);
           results.push = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
@@ -746,6 +791,68 @@ Si no deseas recibir estas notificaciones, puedes cambiar tus preferencias en: $
 
     return results;
   }
+
+  // Envía en un solo email las notificaciones acumuladas para el resumen del
+  // destinatario. El registro de entrega no pertenece a una notificación: las
+  // incluidas quedan en metadata.notificationIds
+  async sendDigestToUser(
+    userId: string,
+    envios: { notificationId: string; notificationData: NotificationData }[]
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const [settings, contactInfo] = await Promise.all([
+      this.getUserSettings(userId),
+      this.getUserContactInfo(userId)
+    ]);
+
+    if (!settings?.emailNotifications || !contactInfo?.email) {
+      return { success: false, error: 'El destinatario no recibe emails para el resumen' };
+    }
+
+    const trackingId = `resumen_${userId}_${Date.now()}`;
+    const title = envios.length === 1
+      ? 'Tu resumen de notificaciones: 1 novedad'
+      : `Tu resumen de notificaciones: ${envios.length} novedades`;
+    const message = envios
+      .map(({ notificationData }) => `• ${notificationData.title}\n${notificationData.message}${
+        notificationData.actionUrl ? `\n${notificationData.actionLabel || 'Ver más'}: ${notificationData.actionUrl}` : ''
+      }`)
+      .join('\n\n');
+
+    const deliveryId = await this.createDeliveryRecord(
+      { notificationId: null, recipientId: userId, asociacionId: contactInfo.asociacionId },
+      'email',
+      'queued',
+      'sendgrid',
+      { email: contactInfo.email, trackingId, digest: true, notificationIds: envios.map(envio => envio.notificationId) }
+    );
+
+    try {
+      const { html, text } = this.generateEmailTemplate(title, message, 'info', contactInfo.name);
+      const result = await this.emailService.sendEmail(contactInfo.email, title, html, text, trackingId);
+      await this.markDeliveryResult(deliveryId, result);
+      return result;
+    } catch (error) {
+      const mensaje = error instanceof Error ? error.message : 'Unknown error';
+      await this.markDeliveryResult(deliveryId, { success: false, error: mensaje });
+      return { success: false, error: mensaje };
+    }
+  }
+
+  // Email con archivos adjuntos a una dirección de una lista de distribución,
+  // que no necesita ser usuario de la plataforma
+  async sendEmailWithAttachments(
+    to: string,
+    title: string,
+    message: string,
+    attachments: AdjuntoEmail[]
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    try {
+      const { html, text } = this.generateEmailTemplate(title, message, 'info', to.split('@')[0]);
+      return await this.emailService.sendEmail(to, title, html, text, undefined, attachments);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
 }
 
 // Export singleton instance
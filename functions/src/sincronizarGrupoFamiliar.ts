@@ -0,0 +1,60 @@
+import * as functions from 'firebase-functions/v1';
+import * as admin from 'firebase-admin';
+
+if (!admin.apps.length) {
+  admin.initializeApp();
+}
+
+const db = admin.firestore();
+
+const mismoValor = (a: unknown, b: unknown): boolean => {
+  if (a instanceof admin.firestore.Timestamp && b instanceof admin.firestore.Timestamp) {
+    return a.isEqual(b);
+  }
+  return a === b;
+};
+
+// Los dependientes de un grupo familiar comparten la membresía del titular:
+// cada vez que cambia su estado o su vencimiento (pago de cuotas, generación
+// mensual, ajustes manuales) se copia a todos sus dependientes.
+export const sincronizarGrupoFamiliar = functions.firestore
+  .document('socios/{socioId}')
+  .onUpdate(async (change, context) => {
+    const antes = change.before.data();
+    const despues = change.after.data();
+    const dependientesIds: string[] = Array.isArray(despues.dependientesIds) ? despues.dependientesIds : [];
+    if (dependientesIds.length === 0) return null;
+
+    const dependientesAntes: string[] = Array.isArray(antes.dependientesIds) ? antes.dependientesIds : [];
+    const cambioMembresia =
+      !mismoValor(antes.estadoMembresia, despues.estadoMembresia) ||
+      !mismoValor(antes.fechaVencimiento, despues.fechaVencimiento);
+    const nuevosDependientes = dependientesIds.filter(id => !dependientesAntes.includes(id));
+    if (!cambioMembresia && nuevosDependientes.length === 0) return null;
+
+    const destino = cambioMembresia ? dependientesIds : nuevosDependientes;
+    const actualizacion = {
+      estadoMembresia: despues.estadoMembresia || 'pendiente',
+      fechaVencimiento: despues.fechaVencimiento ?? admin.firestore.FieldValue.delete(),
+      actualizadoEn: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    const batch = db.batch();
+    destino.forEach(dependienteId => {
+      batch.update(db.collection('socios').doc(dependienteId), actualizacion);
+    });
+
+    try {
+      await batch.commit();
+      console.log(`👪 Membresía del titular ${context.params.socioId} copiada a ${destino.length} dependiente(s)`);
+    } catch (error) {
+      // Un dependiente borrado no debe frenar al resto: se reintenta de a uno
+      console.error('❌ Error sincronizando el grupo familiar, reintentando por dependiente:', error);
+      await Promise.all(destino.map(dependienteId =>
+        db.collection('socios').doc(dependienteId).update(actualizacion)
+          .catch(updateError => console.error(`❌ Dependiente ${dependienteId}:`, updateError))
+      ));
+    }
+
+    return null;
+  });
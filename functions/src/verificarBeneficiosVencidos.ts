@@ -38,6 +38,28 @@ export const verificarBeneficiosVencidos = functions.pubsub
       await batch.commit();
       
       console.log(`✅ Se marcaron ${count} beneficios como vencidos`);
+
+      // Evento de dominio por beneficio: los triggers avisan al comercio
+      const docs = beneficiosVencidos.docs;
+      for (let i = 0; i < docs.length; i += 400) {
+        const eventosBatch = db.batch();
+        docs.slice(i, i + 400).forEach(doc => {
+          const beneficio = doc.data();
+          eventosBatch.set(db.collection('eventos_dominio').doc(), {
+            type: 'benefit_expired',
+            payload: {
+              beneficioId: doc.id,
+              beneficioTitulo: beneficio.titulo || '',
+              comercioId: beneficio.comercioId || '',
+            },
+            userId: beneficio.comercioId || null,
+            asociacionId: beneficio.asociacionId || null,
+            status: 'pending',
+            occurredAt: now,
+          });
+        });
+        await eventosBatch.commit();
+      }
       
       // Opcional: Enviar notificación a comercios
       // await notificarComerciosBeneficiosVencidos(beneficiosVencidos.docs);
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/api-auth';
+import {
+  eliminarRespaldo,
+  exportarParaDescarga,
+  obtenerRespaldoAutorizado,
+  restaurarRespaldo,
+  verificarRespaldo,
+} from '@/lib/backup-server';
+import { isBackupError } from '@/lib/backup-format';
+import { RestoreOptions } from '@/types/backup';
+
+type Contexto = { params: Promise<{ backupId: string }> };
+
+const ACCIONES = ['verify', 'restore'] as const;
+
+type AccionRespaldo = typeof ACCIONES[number];
+
+function respuestaDeError(error: unknown, mensaje: string) {
+  if (isBackupError(error)) {
+    return NextResponse.json({ success: false, error: error.message }, { status: error.codigo });
+  }
+  console.error(`❌ ${mensaje}:`, error);
+  return NextResponse.json({ success: false, error: mensaje }, { status: 500 });
+}
+
+const noAutenticado = () => NextResponse.json({ success: false, error: 'No autenticado' }, { status: 401 });
+
+// Descarga los datos del respaldo, ya verificados, como JSON comprimido
+export async function GET(request: NextRequest, { params }: Contexto) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) return noAutenticado();
+
+    const { backupId } = await params;
+    const backup = await obtenerRespaldoAutorizado(backupId, user);
+    const archivo = await exportarParaDescarga(backup);
+    const nombre = `${backup.name.replace(/[^\w.-]+/g, '_')}_${backup.id}.json.gz`;
+
+    return new NextResponse(new Uint8Array(archivo), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${nombre}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return respuestaDeError(error, 'Error descargando el respaldo');
+  }
+}
+
+// Verifica la integridad del respaldo o lo restaura
+export async function POST(request: NextRequest, { params }: Contexto) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) return noAutenticado();
+
+    const { action, options } = await request.json() as {
+      action?: AccionRespaldo;
+      options?: Partial<RestoreOptions>;
+    };
+    if (!action || !ACCIONES.includes(action)) {
+      return NextResponse.json({ success: false, error: 'Acción no válida' }, { status: 400 });
+    }
+
+    const { backupId } = await params;
+    const backup = await obtenerRespaldoAutorizado(backupId, user);
+
+    if (action === 'verify') {
+      return NextResponse.json({ success: true, verification: await verificarRespaldo(backup) });
+    }
+
+    if (!options?.restoreType) {
+      return NextResponse.json({ success: false, error: 'Falta el tipo de restauración' }, { status: 400 });
+    }
+    const result = await restaurarRespaldo(backup, {
+      backupId,
+      restoreType: options.restoreType,
+      selectedFields: Array.isArray(options.selectedFields) ? options.selectedFields : undefined,
+      overwriteExisting: options.overwriteExisting === true,
+      createBackupBeforeRestore: options.createBackupBeforeRestore !== false,
+      validateData: options.validateData !== false,
+    }, user.uid);
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    return respuestaDeError(error, 'Error procesando el respaldo');
+  }
+}
+
+// Elimina el respaldo y su archivo del almacenamiento
+export async function DELETE(request: NextRequest, { params }: Contexto) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) return noAutenticado();
+
+    const { backupId } = await params;
+    await eliminarRespaldo(await obtenerRespaldoAutorizado(backupId, user));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return respuestaDeError(error, 'Error eliminando el respaldo');
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/api-auth';
+import { coleccionesDelRespaldo } from '@/lib/backup';
+import { isBackupError } from '@/lib/backup-format';
+import { crearRespaldo, leerConfiguracion } from '@/lib/backup-server';
+
+const LARGO_MAXIMO_NOMBRE = 120;
+const LARGO_MAXIMO_DESCRIPCION = 500;
+
+// Crea un respaldo manual de la asociación con su configuración de respaldos.
+// Un administrador puede indicar la asociación en el cuerpo.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'No autenticado' }, { status: 401 });
+    }
+
+    const { name, description, asociacionId } = await request.json() as {
+      name?: unknown;
+      description?: unknown;
+      asociacionId?: unknown;
+    };
+
+    const nombre = typeof name === 'string' ? name.trim() : '';
+    const descripcion = typeof description === 'string' ? description.trim() : '';
+    if (!nombre || nombre.length > LARGO_MAXIMO_NOMBRE) {
+      return NextResponse.json(
+        { success: false, error: `El nombre es obligatorio y no puede superar los ${LARGO_MAXIMO_NOMBRE} caracteres` },
+        { status: 400 }
+      );
+    }
+    if (descripcion.length > LARGO_MAXIMO_DESCRIPCION) {
+      return NextResponse.json(
+        { success: false, error: `La descripción no puede superar los ${LARGO_MAXIMO_DESCRIPCION} caracteres` },
+        { status: 400 }
+      );
+    }
+
+    let destino = user.uid;
+    if (user.role === 'admin' && typeof asociacionId === 'string' && asociacionId) {
+      destino = asociacionId;
+    } else if (user.role !== 'asociacion' && user.role !== 'admin') {
+      return NextResponse.json({ success: false, error: 'Solo las asociaciones pueden crear respaldos' }, { status: 403 });
+    }
+
+    const config = await leerConfiguracion(destino);
+    const backup = await crearRespaldo({
+      asociacionId: destino,
+      createdBy: user.uid,
+      name: nombre,
+      description: descripcion || null,
+      type: 'manual',
+      colecciones: coleccionesDelRespaldo(config),
+      comprimir: config.compressionEnabled,
+      cifrar: config.encryptionEnabled,
+    });
+
+    return NextResponse.json({ success: true, backupId: backup.id });
+  } catch (error) {
+    if (isBackupError(error)) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.codigo });
+    }
+    console.error('❌ Error creando el respaldo:', error);
+    return NextResponse.json({ success: false, error: 'Error creando el respaldo' }, { status: 500 });
+  }
+}
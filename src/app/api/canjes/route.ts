@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { getRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import { evaluateBenefitEligibility, getSocioAsociaciones } from '@/lib/benefit-eligibility';
+import {
+  BenefitRestrictionError,
+  checkBenefitSchedule,
+  isBenefitRestrictionError,
+} from '@/lib/benefit-schedule';
+import { getSaldoPuntos } from '@/lib/loyalty-points';
+import { CanjePuntos } from '@/types/fidelizacion';
+
+// Las fechas del Admin SDK no son instancias del Timestamp del cliente
+const toDate = (value: unknown): Date | null =>
+  value instanceof Timestamp ? value.toDate() : null;
+
+const generarCodigoCanje = (): string => {
+  const timestamp = Date.now().toString(36).toUpperCase();
+  const rnd = Math.random().toString(36).substring(2, 7).toUpperCase();
+  return `CNJ-${timestamp}-${rnd}`;
+};
+
+// Canjea un beneficio de tipo puntos para el socio autenticado. El débito del
+// saldo, el movimiento de puntos y el registro en validaciones se escriben en
+// la misma transacción: o se canjea todo o no se descuenta nada.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user || user.role !== 'socio') {
+      return NextResponse.json(
+        { success: false, error: 'Solo los socios pueden canjear puntos' },
+        { status: 401 }
+      );
+    }
+
+    const { beneficioId } = await request.json();
+    if (typeof beneficioId !== 'string' || !beneficioId) {
+      return NextResponse.json(
+        { success: false, error: 'Falta el beneficio a canjear' },
+        { status: 400 }
+      );
+    }
+
+    const socioRef = adminDb.collection(COLLECTIONS.SOCIOS).doc(user.uid);
+    const beneficioRef = adminDb.collection(COLLECTIONS.BENEFICIOS).doc(beneficioId);
+
+    const canje = await adminDb.runTransaction(async (transaction): Promise<CanjePuntos> => {
+      const [socioDoc, beneficioDoc] = await Promise.all([
+        transaction.get(socioRef),
+        transaction.get(beneficioRef),
+      ]);
+
+      const socio = socioDoc.data();
+      if (!socio) {
+        throw new Error('Socio no encontrado');
+      }
+      if (socio.estado !== 'activo') {
+        throw new Error(`Tu cuenta tiene estado "${socio.estado}". Solo los socios activos pueden canjear puntos.`);
+      }
+
+      const beneficio = beneficioDoc.data();
+      if (!beneficio) {
+        throw new BenefitRestrictionError('BENEFIT_NOT_FOUND', 'El beneficio ya no está disponible');
+      }
+      const costoPuntos = Number(beneficio.costoPuntos) || 0;
+      if (beneficio.tipo !== 'puntos' || costoPuntos <= 0) {
+        throw new Error('Este beneficio no se canjea con puntos');
+      }
+
+      const comercioRef = adminDb.collection(COLLECTIONS.COMERCIOS).doc(beneficio.comercioId);
+      const comercioDoc = await transaction.get(comercioRef);
+      const comercio = comercioDoc.data() ?? null;
+
+      // Mismo contador que las validaciones en caja (ver readSocioBenefitUses)
+      const contadorRef = adminDb.collection(COLLECTIONS.USOS_BENEFICIO_SOCIO).doc(`${beneficioId}_${user.uid}`);
+      const usosDelSocio = beneficio.limitePorSocio
+        ? Math.max(
+            Number((await transaction.get(contadorRef)).data()?.usos) || 0,
+            (await transaction.get(
+              adminDb.collection(COLLECTIONS.BENEFICIO_USOS)
+                .where('beneficioId', '==', beneficioId)
+                .where('socioId', '==', user.uid)
+                .where('estado', 'in', ['usado', 'validado'])
+            )).size
+          )
+        : undefined;
+
+      // Mismas reglas que una validación en caja
+      const elegibilidad = evaluateBenefitEligibility({
+        beneficio: {
+          ...beneficio,
+          fechaInicio: toDate(beneficio.fechaInicio),
+          fechaFin: toDate(beneficio.fechaFin),
+        },
+        socioAsociaciones: getSocioAsociaciones(socio),
+        comercio,
+        usosDelSocio,
+      });
+      if (!elegibilidad.eligible) {
+        throw new BenefitRestrictionError(elegibilidad.code, elegibilidad.message);
+      }
+
+      // El canje se paga con puntos: la restricción de medio de pago no aplica
+      const horario = checkBenefitSchedule(
+        { ...beneficio, mediosPagoHabilitados: undefined },
+        { timezone: comercio?.timezone }
+      );
+      if (!horario.allowed) {
+        throw new BenefitRestrictionError(horario.code, horario.message);
+      }
+
+      const saldo = getSaldoPuntos(socio);
+      if (saldo < costoPuntos) {
+        throw new BenefitRestrictionError(
+          'INSUFFICIENT_POINTS',
+          `Necesitas ${costoPuntos} puntos y tienes ${saldo}`
+        );
+      }
+
+      const validacionRef = adminDb.collection(COLLECTIONS.VALIDACIONES).doc();
+      const codigoValidacion = generarCodigoCanje();
+      const comercioNombre = comercio?.nombreComercio || beneficio.comercioNombre || 'Comercio';
+      const ahora = FieldValue.serverTimestamp();
+
+      transaction.set(validacionRef, {
+        socioId: user.uid,
+        socioNombre: socio.nombre || 'Socio sin nombre',
+        socioNumero: socio.numeroSocio || 'SIN-NUMERO',
+        socioEmail: socio.email || '',
+        socioEstado: socio.estado,
+        asociacionId: socio.asociacionId || null,
+        asociacionNombre: socio.asociacionNombre || null,
+        comercioId: beneficio.comercioId,
+        comercioNombre,
+        beneficioId,
+        beneficioTitulo: beneficio.titulo || 'Beneficio',
+        beneficioDescripcion: beneficio.descripcion || '',
+        descuento: 0,
+        tipoDescuento: 'puntos',
+        puntosCanjeados: costoPuntos,
+        montoDescuento: 0,
+        fechaValidacion: ahora,
+        estado: 'exitosa',
+        codigoValidacion,
+        metodoValidacion: 'canje_puntos',
+        creadoEn: ahora,
+        actualizadoEn: ahora,
+      });
+
+      transaction.set(adminDb.collection(COLLECTIONS.BENEFICIO_USOS).doc(), {
+        beneficioId,
+        beneficioTitulo: beneficio.titulo || 'Beneficio',
+        socioId: user.uid,
+        socioNombre: socio.nombre || 'Socio',
+        socioEmail: socio.email || '',
+        comercioId: beneficio.comercioId,
+        comercioNombre,
+        asociacionId: socio.asociacionId || null,
+        asociacionNombre: socio.asociacionNombre || null,
+        fechaUso: ahora,
+        montoDescuento: 0,
+        puntosCanjeados: costoPuntos,
+        estado: 'usado',
+        validacionId: validacionRef.id,
+        codigoValidacion,
+        detalles: `Canje de ${costoPuntos} puntos`,
+        metodoPago: 'puntos',
+        origenValidacion: 'canje_puntos',
+        creadoEn: ahora,
+        actualizadoEn: ahora,
+      });
+
+      transaction.set(adminDb.collection(COLLECTIONS.PUNTOS_MOVIMIENTOS).doc(), {
+        socioId: user.uid,
+        asociacionId: socio.asociacionId || null,
+        tipo: 'canje',
+        puntos: -costoPuntos,
+        descripcion: `Canje: ${beneficio.titulo || 'Beneficio'}`,
+        referenciaId: validacionRef.id,
+        comercioId: beneficio.comercioId,
+        beneficioId,
+        creadoEn: ahora,
+      });
+
+      if (usosDelSocio !== undefined) {
+        transaction.set(contadorRef, {
+          beneficioId,
+          socioId: user.uid,
+          usos: usosDelSocio + 1,
+          actualizadoEn: ahora,
+        });
+      }
+
+      transaction.update(beneficioRef, {
+        usosActuales: FieldValue.increment(1),
+        ultimoUso: ahora,
+        actualizadoEn: ahora,
+      });
+
+      transaction.update(socioRef, {
+        saldoPuntos: saldo - costoPuntos,
+        beneficiosUsados: FieldValue.increment(1),
+        ultimaActividad: ahora,
+        actualizadoEn: ahora,
+      });
+
+      return {
+        validacionId: validacionRef.id,
+        codigoValidacion,
+        beneficioId,
+        beneficioTitulo: beneficio.titulo || 'Beneficio',
+        comercioNombre,
+        puntosCanjeados: costoPuntos,
+        saldoPuntos: saldo - costoPuntos,
+      };
+    });
+
+    return NextResponse.json({ success: true, ...canje });
+  } catch (error) {
+    if (isBenefitRestrictionError(error)) {
+      return NextResponse.json(
+        { success: false, code: error.code, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('❌ Error canjeando puntos:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error al canjear los puntos' },
+      { status: 500 }
+    );
+  }
+}
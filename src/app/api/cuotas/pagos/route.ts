@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { getRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import { registrarPagoServidor } from '@/lib/cuotas-server';
+import { MedioPagoCuota } from '@/types/cuotas';
+
+const MEDIOS_PAGO: MedioPagoCuota[] = ['efectivo', 'transferencia', 'tarjeta', 'mercado_pago', 'otro'];
+
+// Registra el cobro manual de cuotas que hace la asociación. Corre con el
+// Admin SDK porque el pago acredita puntos, que el cliente no puede escribir.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user || (user.role !== 'asociacion' && user.role !== 'admin')) {
+      return NextResponse.json(
+        { success: false, error: 'Solo la asociación puede registrar pagos de cuotas' },
+        { status: 401 }
+      );
+    }
+
+    const { socioId, monto, medioPago, nota } = await request.json();
+    const importe = Math.round(Number(monto) * 100) / 100;
+    if (typeof socioId !== 'string' || !socioId || !(importe > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'El monto del pago debe ser mayor a 0' },
+        { status: 400 }
+      );
+    }
+
+    const socioDoc = await adminDb.collection(COLLECTIONS.SOCIOS).doc(socioId).get();
+    if (user.role !== 'admin' && socioDoc.data()?.asociacionId !== user.uid) {
+      return NextResponse.json(
+        { success: false, error: 'El socio no pertenece a tu asociación' },
+        { status: 403 }
+      );
+    }
+
+    const pagoId = adminDb.collection(COLLECTIONS.PAGOS_CUOTAS).doc().id;
+    const pago = await adminDb.runTransaction(transaction =>
+      registrarPagoServidor(transaction, {
+        socioId,
+        monto: importe,
+        medioPago: MEDIOS_PAGO.includes(medioPago) ? medioPago : 'efectivo',
+        pagoId,
+        registradoPor: user.uid,
+        nota: typeof nota === 'string' ? nota : null,
+      })
+    );
+
+    return NextResponse.json({ success: true, pago: { ...pago, fecha: Date.now() } });
+  } catch (error) {
+    console.error('❌ Error registrando el pago de cuotas:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error al registrar el pago' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/api-auth';
+import { prepararSolicitud, registrarSolicitud, resolverAprobador } from '@/lib/notification-approval-server';
+import { NotificationData } from '@/types/notification-approval';
+
+const PRIORIDADES: NonNullable<NotificationData['priority']>[] = ['low', 'normal', 'high', 'urgent'];
+
+const textoOpcional = (valor: unknown): string | undefined =>
+  typeof valor === 'string' && valor ? valor : undefined;
+
+// Solo los campos con los que se evalúan los disparadores y se arma la solicitud
+function leerEnvio(body: Record<string, unknown>, asociacionId: string): NotificationData | null {
+  if (typeof body.type !== 'string' || !body.type) return null;
+  const priority = PRIORIDADES.find(prioridad => prioridad === body.priority);
+
+  return {
+    asociacionId,
+    type: body.type,
+    recipientCount: Math.max(0, Number(body.recipientCount) || 0),
+    channels: Array.isArray(body.channels) ? body.channels.filter((canal): canal is string => typeof canal === 'string') : [],
+    ...(priority ? { priority } : {}),
+    ...(textoOpcional(body.id) ? { id: textoOpcional(body.id) } : {}),
+    ...(textoOpcional(body.title) ? { title: textoOpcional(body.title) } : {}),
+    ...(textoOpcional(body.message) ? { message: textoOpcional(body.message) } : {}),
+    ...(textoOpcional(body.templateId) ? { templateId: textoOpcional(body.templateId) } : {}),
+    ...(textoOpcional(body.segmentId) ? { segmentId: textoOpcional(body.segmentId) } : {}),
+  };
+}
+
+// Pasa un envío masivo de la asociación por sus workflows de aprobación.
+// Sin requestId decide si hace falta aprobación y reserva el ID; con el
+// requestId (el envío ya retenido con ese ID) registra la solicitud.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'No autenticado' }, { status: 401 });
+    }
+    if (user.role !== 'asociacion') {
+      return NextResponse.json(
+        { success: false, error: 'Solo las asociaciones piden aprobación de sus envíos' },
+        { status: 403 }
+      );
+    }
+
+    const { notification, requestId } = await request.json() as { notification?: unknown; requestId?: unknown };
+    const envio = notification && typeof notification === 'object'
+      ? leerEnvio(notification as Record<string, unknown>, user.uid)
+      : null;
+    if (!envio) {
+      return NextResponse.json({ success: false, error: 'Envío no válido' }, { status: 400 });
+    }
+    if (requestId !== undefined && (typeof requestId !== 'string' || !/^[A-Za-z0-9]{20}$/.test(requestId))) {
+      return NextResponse.json({ success: false, error: 'Solicitud no válida' }, { status: 400 });
+    }
+
+    const requester = await resolverAprobador(user.uid, user.role);
+    if (!requestId) {
+      return NextResponse.json({ success: true, approvalRequestId: await prepararSolicitud(envio, requester) });
+    }
+
+    const resultado = await registrarSolicitud(requestId, envio, requester);
+    if (!resultado.success) {
+      return NextResponse.json({ success: false, error: resultado.error }, { status: resultado.codigo });
+    }
+    return NextResponse.json({ success: true, approvalRequestId: resultado.approvalRequestId });
+  } catch (error) {
+    console.error('❌ Error creando la solicitud de aprobación:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error creando la solicitud de aprobación' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/api-auth';
+import { comentarSolicitud, decidirSolicitud, resolverAprobador } from '@/lib/notification-approval-server';
+
+const LARGO_MAXIMO_COMENTARIO = 2000;
+const ACCIONES = ['approve', 'reject', 'comment'] as const;
+
+type AccionSolicitud = typeof ACCIONES[number];
+
+// Aprobar, rechazar o comentar una solicitud de aprobación de un envío
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'No autenticado' }, { status: 401 });
+    }
+
+    const { requestId, action, comment, isInternal } = await request.json() as {
+      requestId?: unknown;
+      action?: AccionSolicitud;
+      comment?: unknown;
+      isInternal?: boolean;
+    };
+
+    if (typeof requestId !== 'string' || !requestId) {
+      return NextResponse.json({ success: false, error: 'Falta la solicitud' }, { status: 400 });
+    }
+    if (!action || !ACCIONES.includes(action)) {
+      return NextResponse.json({ success: false, error: 'Acción no válida' }, { status: 400 });
+    }
+
+    const texto = typeof comment === 'string' ? comment.trim() : '';
+    if (texto.length > LARGO_MAXIMO_COMENTARIO) {
+      return NextResponse.json(
+        { success: false, error: `El comentario no puede superar los ${LARGO_MAXIMO_COMENTARIO} caracteres` },
+        { status: 400 }
+      );
+    }
+    // Un rechazo o un comentario sin texto no le dicen nada al solicitante
+    if (!texto && action !== 'approve') {
+      return NextResponse.json(
+        { success: false, error: action === 'reject' ? 'Indicá el motivo del rechazo' : 'El comentario está vacío' },
+        { status: 400 }
+      );
+    }
+
+    const actor = await resolverAprobador(user.uid, user.role);
+    const resultado = action === 'comment'
+      ? await comentarSolicitud(requestId, actor, texto, isInternal === true)
+      : await decidirSolicitud(requestId, actor, action, texto || undefined);
+
+    if (!resultado.success) {
+      return NextResponse.json({ success: false, error: resultado.error }, { status: resultado.codigo });
+    }
+
+    return NextResponse.json({ success: true, status: resultado.status });
+  } catch (error) {
+    console.error('❌ Error procesando la solicitud de aprobación:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error procesando la solicitud de aprobación' },
+      { status: 500 }
+    );
+  }
+}
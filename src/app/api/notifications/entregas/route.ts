@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Query, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { getRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import { calcularEstadisticasEntrega } from '@/lib/entregas-server';
+
+const DIAS_PERMITIDOS = [7, 30, 90];
+// Tope de registros leídos por consulta (dos períodos)
+const MAX_REGISTROS = 20000;
+
+const toDate = (value: unknown): Date | undefined =>
+  value instanceof Timestamp ? value.toDate() : undefined;
+
+// Estadísticas reales de entrega (notificationDeliveries) de la asociación
+// autenticada, o de todo el sistema para un admin
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user || (user.role !== 'asociacion' && user.role !== 'admin')) {
+      return NextResponse.json(
+        { success: false, error: 'Solo las asociaciones pueden ver las estadísticas de entrega' },
+        { status: 401 }
+      );
+    }
+
+    const diasParam = Number(request.nextUrl.searchParams.get('dias'));
+    const dias = DIAS_PERMITIDOS.includes(diasParam) ? diasParam : 30;
+    const ahora = new Date();
+    const desde = Timestamp.fromMillis(ahora.getTime() - 2 * dias * 24 * 60 * 60 * 1000);
+
+    let consulta: Query = adminDb.collection(COLLECTIONS.NOTIFICATION_DELIVERIES);
+    if (user.role !== 'admin') {
+      consulta = consulta.where('asociacionId', '==', user.uid);
+    }
+    const snapshot = await consulta
+      .where('createdAt', '>=', desde)
+      .orderBy('createdAt', 'desc')
+      .limit(MAX_REGISTROS)
+      .select('status', 'channel', 'createdAt', 'sentAt', 'deliveredAt')
+      .get();
+
+    const registros = snapshot.docs.flatMap(doc => {
+      const data = doc.data();
+      const createdAt = toDate(data.createdAt);
+      if (!createdAt) return [];
+      return [{
+        // Registros anteriores al modelo normalizado usaban 'pending'
+        status: data.status === 'pending' ? 'queued' as const : data.status,
+        channel: data.channel,
+        createdAt,
+        sentAt: toDate(data.sentAt),
+        deliveredAt: toDate(data.deliveredAt),
+      }];
+    });
+
+    return NextResponse.json({
+      success: true,
+      estadisticas: calcularEstadisticasEntrega(registros, dias, ahora),
+      truncado: snapshot.size >= MAX_REGISTROS,
+    });
+  } catch (error) {
+    console.error('❌ Error calculando estadísticas de entrega:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error calculando las estadísticas de entrega' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { ApiRequestUser, getRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import { actualizarHiloWhatsApp, responderHiloWhatsApp } from '@/lib/whatsapp-inbox-server';
+import { EstadoHiloWhatsApp } from '@/types/whatsapp';
+
+const LARGO_MAXIMO_RESPUESTA = 4096;
+const ESTADOS_HILO: EstadoHiloWhatsApp[] = ['abierto', 'resuelto'];
+
+// La asociación dueña del hilo o un admin; los hilos de números sin socio
+// (asociacionId null) solo los ve un admin
+async function autorizarHilo(
+  request: NextRequest,
+  hiloId: unknown
+): Promise<{ user: ApiRequestUser; hiloId: string } | NextResponse> {
+  const user = await getRequestUser(request);
+  if (!user || (user.role !== 'asociacion' && user.role !== 'admin')) {
+    return NextResponse.json(
+      { success: false, error: 'Solo las asociaciones pueden usar la bandeja de WhatsApp' },
+      { status: 401 }
+    );
+  }
+
+  if (typeof hiloId !== 'string' || !hiloId) {
+    return NextResponse.json({ success: false, error: 'Falta la conversación' }, { status: 400 });
+  }
+
+  const hilo = (await adminDb.collection(COLLECTIONS.WHATSAPP_HILOS).doc(hiloId).get()).data();
+  if (!hilo) {
+    return NextResponse.json({ success: false, error: 'Conversación no encontrada' }, { status: 404 });
+  }
+  if (user.role !== 'admin' && hilo.asociacionId !== user.uid) {
+    return NextResponse.json(
+      { success: false, error: 'La conversación no pertenece a tu asociación' },
+      { status: 403 }
+    );
+  }
+
+  return { user, hiloId };
+}
+
+// Respuesta del personal a una conversación de la bandeja
+export async function POST(request: NextRequest) {
+  try {
+    const { hiloId, texto } = await request.json() as { hiloId?: unknown; texto?: unknown };
+    const autorizado = await autorizarHilo(request, hiloId);
+    if (autorizado instanceof NextResponse) return autorizado;
+
+    const mensaje = typeof texto === 'string' ? texto.trim() : '';
+    if (!mensaje || mensaje.length > LARGO_MAXIMO_RESPUESTA) {
+      return NextResponse.json(
+        { success: false, error: `La respuesta debe tener entre 1 y ${LARGO_MAXIMO_RESPUESTA} caracteres` },
+        { status: 400 }
+      );
+    }
+
+    const resultado = await responderHiloWhatsApp(autorizado.hiloId, mensaje, autorizado.user.uid);
+    if (!resultado.success) {
+      return NextResponse.json(
+        { success: false, error: resultado.error || 'No se pudo enviar la respuesta' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error respondiendo conversación de WhatsApp:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error enviando la respuesta' },
+      { status: 500 }
+    );
+  }
+}
+
+// Marca una conversación como leída, resuelta o la vuelve a abrir
+export async function PATCH(request: NextRequest) {
+  try {
+    const { hiloId, estado, leido } = await request.json() as {
+      hiloId?: unknown;
+      estado?: EstadoHiloWhatsApp;
+      leido?: boolean;
+    };
+    const autorizado = await autorizarHilo(request, hiloId);
+    if (autorizado instanceof NextResponse) return autorizado;
+
+    if (estado !== undefined && !ESTADOS_HILO.includes(estado)) {
+      return NextResponse.json({ success: false, error: 'Estado no válido' }, { status: 400 });
+    }
+
+    await actualizarHiloWhatsApp(autorizado.hiloId, { estado, leido: leido === true });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error actualizando conversación de WhatsApp:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error actualizando la conversación' },
+      { status: 500 }
+    );
+  }
+}
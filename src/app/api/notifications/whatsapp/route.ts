@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { greenAPIService } from '@/services/green-api.service';
+import { getWhatsAppRegistry } from '@/lib/whatsapp-providers';
+import { estaDeBajaWhatsApp } from '@/lib/whatsapp-inbox-server';
 
 interface WhatsAppRequest {
   phone?: string;
@@ -33,19 +34,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`🚀 WhatsApp API: Enviando con Green API...`);
-    
-    // Enviar usando Green API
-    const result = await greenAPIService.sendMessage(phoneNumber, message, title);
+    // El socio respondió BAJA por WhatsApp
+    if (await estaDeBajaWhatsApp(phoneNumber)) {
+      console.log(`🚫 WhatsApp API: ${phoneNumber} pidió la baja, no se envía`);
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'El destinatario pidió no recibir mensajes por WhatsApp',
+          optedOut: true,
+          phone: phoneNumber,
+          recipientId,
+          recipientName
+        },
+        { status: 409 }
+      );
+    }
+
+    // Proveedores por prioridad, con conmutación ante fallas
+    const result = await getWhatsAppRegistry().enviar(phoneNumber, message, title);
 
     if (result.success) {
-      console.log(`✅ WhatsApp API: Mensaje enviado exitosamente`);
+      console.log(`✅ WhatsApp API: Mensaje enviado con ${result.proveedor}${result.fallbackUsed ? ' (fallback)' : ''}`);
       console.log(`✅ ID del mensaje: ${result.messageId}`);
       
       return NextResponse.json({
         success: true,
         messageId: result.messageId,
-        phone: result.phoneUsed,
+        provider: result.proveedor,
+        fallbackUsed: result.fallbackUsed,
+        intentos: result.intentos,
+        phone: phoneNumber,
         recipientId,
         recipientName,
         timestamp: result.timestamp
@@ -57,6 +75,7 @@ export async function POST(request: NextRequest) {
         { 
           success: false, 
           error: result.error || 'Error desconocido al enviar WhatsApp',
+          intentos: result.intentos,
           phone: phoneNumber,
           recipientId,
           recipientName
@@ -79,17 +98,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Endpoint para obtener estado de Green API
+// Salud de los proveedores de WhatsApp (circuito, límites y últimos errores)
 export async function GET() {
   try {
-    const status = await greenAPIService.getInstanceStatus();
-    const config = greenAPIService.getConfig();
-    
     return NextResponse.json({
       success: true,
-      configured: greenAPIService.isConfigured(),
-      status,
-      config,
+      providers: getWhatsAppRegistry().getSalud(),
       timestamp: new Date()
     });
   } catch (error) {
@@ -98,10 +112,10 @@ export async function GET() {
     return NextResponse.json(
       { 
         success: false, 
-        error: 'Error obteniendo estado de Green API',
+        error: 'Error obteniendo el estado de los proveedores de WhatsApp',
         details: error instanceof Error ? error.message : 'Error desconocido'
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
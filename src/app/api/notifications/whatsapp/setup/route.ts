@@ -1,13 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { freeWhatsAppService } from '@/services/free-whatsapp.service';
+import { getWhatsAppRegistry } from '@/lib/whatsapp-providers';
+import { activarBandejaWhatsApp } from '@/lib/whatsapp-inbox-server';
+import { ProveedorWhatsAppId } from '@/types/whatsapp';
 
 export async function POST(request: NextRequest) {
   try {
-    const { action } = await request.json();
+    const { action, providerId } = await request.json() as { action?: string; providerId?: ProveedorWhatsAppId };
 
     switch (action) {
       case 'initialize':
         console.log('🔄 Inicializando WhatsApp Web...');
+        // Los mensajes que reciba la sesión van a la bandeja de las asociaciones
+        activarBandejaWhatsApp();
         const initialized = await freeWhatsAppService.initializeWhatsAppWeb();
         
         return NextResponse.json({
@@ -34,6 +39,20 @@ export async function POST(request: NextRequest) {
           providers
         });
 
+      case 'reset_circuit':
+        if (!providerId || !getWhatsAppRegistry().restablecerCircuito(providerId)) {
+          return NextResponse.json(
+            { success: false, error: 'Proveedor de WhatsApp desconocido' },
+            { status: 400 }
+          );
+        }
+        
+        return NextResponse.json({
+          success: true,
+          message: 'Circuito restablecido',
+          providers: getWhatsAppRegistry().getSalud()
+        });
+
       default:
         return NextResponse.json(
           { success: false, error: 'Acción no válida' },
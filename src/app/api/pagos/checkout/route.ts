@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { getRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import { getAppUrl } from '@/lib/app-url';
+import { getProveedorPagoPorDefecto } from '@/lib/payment-providers';
+import { CheckoutPago } from '@/types/pagos-online';
+
+// Inicia el pago online de cuotas del socio autenticado. Sin monto se cobra la
+// deuda y, si no debe nada, una cuota por adelantado.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user || user.role !== 'socio') {
+      return NextResponse.json(
+        { success: false, error: 'Solo los socios pueden pagar sus cuotas online' },
+        { status: 401 }
+      );
+    }
+
+    const provider = getProveedorPagoPorDefecto();
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, error: 'El pago online no está disponible' },
+        { status: 503 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const socioDoc = await adminDb.collection(COLLECTIONS.SOCIOS).doc(user.uid).get();
+    const socio = socioDoc.data();
+    if (!socio?.asociacionId) {
+      return NextResponse.json(
+        { success: false, error: 'No perteneces a una asociación' },
+        { status: 400 }
+      );
+    }
+
+    const deuda = Number(socio.cuentaCuotas?.deuda) || 0;
+    const montoCuota = Number(socio.montoCuota) || 0;
+    const monto = Math.round((Number(body.monto) > 0 ? Number(body.monto) : deuda || montoCuota) * 100) / 100;
+    if (!(monto > 0)) {
+      return NextResponse.json(
+        { success: false, error: 'No hay un monto de cuota para pagar' },
+        { status: 400 }
+      );
+    }
+
+    const asociacionDoc = await adminDb.collection(COLLECTIONS.ASOCIACIONES).doc(socio.asociacionId).get();
+    const descripcion = `${deuda > 0 ? 'Cuotas' : 'Cuota'} ${asociacionDoc.data()?.nombre || 'de la asociación'}`;
+
+    const intencionRef = adminDb.collection(COLLECTIONS.INTENCIONES_PAGO).doc();
+    await intencionRef.set({
+      socioId: user.uid,
+      asociacionId: socio.asociacionId,
+      proveedor: provider.id,
+      monto,
+      descripcion,
+      estado: 'pendiente',
+      checkoutUrl: null,
+      pagoExternoId: null,
+      pagoCuotaId: null,
+      creadoEn: FieldValue.serverTimestamp(),
+      actualizadoEn: FieldValue.serverTimestamp(),
+    });
+
+    const appUrl = getAppUrl();
+    const { checkoutUrl } = await provider.crearCheckout({
+      intencionId: intencionRef.id,
+      monto,
+      descripcion,
+      email: socio.email || null,
+      urlRetorno: `${appUrl}/dashboard/socio/perfil?pago=${intencionRef.id}`,
+      urlNotificacion: `${appUrl}/api/webhooks/pagos/${provider.id}`,
+    });
+    await intencionRef.update({ checkoutUrl, actualizadoEn: FieldValue.serverTimestamp() });
+
+    const checkout: CheckoutPago = { intencionId: intencionRef.id, checkoutUrl, monto };
+    return NextResponse.json({ success: true, ...checkout });
+  } catch (error) {
+    console.error('❌ Error iniciando el pago online:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Error al iniciar el pago' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+import { FakePaymentProvider } from '@/lib/payment-providers';
+
+// Checkout del proveedor fake (solo desarrollo). Simula el pago: firma una
+// notificación de ejemplo, la envía al webhook y vuelve a la app.
+//   ?intencion=<id>&estado=aprobado|rechazado|pendiente&repetir=1
+// Con repetir=1 la notificación se envía dos veces para probar la idempotencia.
+export async function GET(request: NextRequest) {
+  if (!FakePaymentProvider.habilitado) {
+    return NextResponse.json({ error: 'No encontrado' }, { status: 404 });
+  }
+
+  const { searchParams, origin } = request.nextUrl;
+  const intencionId = searchParams.get('intencion');
+  const estado = searchParams.get('estado') || 'aprobado';
+  if (!intencionId) {
+    return NextResponse.json({ error: 'Falta la intención de pago' }, { status: 400 });
+  }
+
+  const intencionDoc = await adminDb.collection(COLLECTIONS.INTENCIONES_PAGO).doc(intencionId).get();
+  const intencion = intencionDoc.data();
+  if (!intencion || intencion.proveedor !== 'fake') {
+    return NextResponse.json({ error: 'Intención de pago inexistente' }, { status: 404 });
+  }
+
+  const rawBody = JSON.stringify({
+    id: `fake-${intencionId}-${Date.now()}`,
+    intencionId,
+    estado,
+    monto: intencion.monto,
+  });
+  const envios = searchParams.get('repetir') === '1' ? 2 : 1;
+
+  const respuestas = [];
+  for (let i = 0; i < envios; i++) {
+    const response = await fetch(`${origin}/api/webhooks/pagos/fake`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-fake-signature': FakePaymentProvider.firmar(rawBody),
+      },
+      body: rawBody,
+    });
+    respuestas.push({ status: response.status, body: await response.json() });
+  }
+
+  // Solo se vuelve a rutas de la propia app
+  const retorno = searchParams.get('retorno');
+  if (retorno && esMismoOrigen(retorno, origin)) {
+    return NextResponse.redirect(retorno);
+  }
+  return NextResponse.json({ success: true, respuestas });
+}
+
+function esMismoOrigen(url: string, origin: string): boolean {
+  try {
+    return new URL(url).origin === origin;
+  } catch {
+    return false;
+  }
+}
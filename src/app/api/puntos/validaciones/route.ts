@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/api-auth';
+import { acreditarValidacionServidor, isAcreditacionError } from '@/lib/loyalty-points-server';
+
+// Acredita los puntos, la racha y los contadores de una validación exitosa.
+// Los clientes no escriben movimientos de puntos: la validación se registra
+// en el navegador y después se pide la acreditación acá.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Autenticación requerida' },
+        { status: 401 }
+      );
+    }
+
+    const { validacionId } = await request.json();
+    if (typeof validacionId !== 'string' || !validacionId) {
+      return NextResponse.json(
+        { success: false, error: 'Falta la validación a acreditar' },
+        { status: 400 }
+      );
+    }
+
+    const resultado = await acreditarValidacionServidor(validacionId, user.uid);
+    return NextResponse.json({ success: true, ...resultado });
+  } catch (error) {
+    if (isAcreditacionError(error)) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.codigo });
+    }
+    console.error('❌ Error acreditando la validación:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al acreditar los puntos de la validación' },
+      { status: 500 }
+    );
+  }
+}
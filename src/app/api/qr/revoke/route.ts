@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/api-auth';
+import { canIssueForComercio, revokeQRTokens } from '@/lib/qr-token-server';
+
+// Da de baja todos los QR emitidos para el comercio, incluidos los impresos
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Autenticación requerida' },
+        { status: 401 }
+      );
+    }
+
+    const { comercioId } = await request.json();
+
+    if (!comercioId) {
+      return NextResponse.json(
+        { success: false, error: 'comercioId es requerido' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await canIssueForComercio(user, comercioId))) {
+      return NextResponse.json(
+        { success: false, error: 'No tienes permisos para revocar QRs de este comercio' },
+        { status: 403 }
+      );
+    }
+
+    const revocadosEn = await revokeQRTokens(comercioId);
+
+    return NextResponse.json({ success: true, revocadosEn: revocadosEn.getTime() });
+  } catch (error) {
+    console.error('❌ Error revocando tokens QR:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al revocar los códigos QR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/api-auth';
+import { QR_CONFIG } from '@/lib/constants';
+import { QR_TOKEN_DEFAULT_TTL, getQRSigningSecret, signQRToken } from '@/lib/qr-token';
+import { canIssueForComercio } from '@/lib/qr-token-server';
+
+// Vigencia máxima permitida para un token (la de un QR impreso)
+const MAX_TTL_SECONDS = QR_CONFIG.printedTokenTtlSeconds;
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Autenticación requerida' },
+        { status: 401 }
+      );
+    }
+
+    const { comercioId, beneficioId, ttlSeconds } = await request.json();
+
+    if (!comercioId) {
+      return NextResponse.json(
+        { success: false, error: 'comercioId es requerido' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await canIssueForComercio(user, comercioId))) {
+      return NextResponse.json(
+        { success: false, error: 'No tienes permisos para generar QRs de este comercio' },
+        { status: 403 }
+      );
+    }
+
+    const ttl = Math.min(Math.max(Number(ttlSeconds) || QR_TOKEN_DEFAULT_TTL, 30), MAX_TTL_SECONDS);
+    const { token, payload } = await signQRToken(
+      { comercioId, beneficioId: beneficioId || undefined },
+      getQRSigningSecret(),
+      ttl
+    );
+
+    return NextResponse.json({
+      success: true,
+      token,
+      expiresAt: payload.exp * 1000,
+    });
+  } catch (error) {
+    console.error('❌ Error emitiendo token QR:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al generar el token QR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QR_TOKEN_ERROR_MESSAGES, getQRSigningSecret, verifyQRToken } from '@/lib/qr-token';
+import { isQRTokenRevoked } from '@/lib/qr-token-server';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { token } = await request.json();
+    const result = await verifyQRToken(token, getQRSigningSecret());
+
+    if (!result.valid) {
+      return NextResponse.json(
+        { success: false, code: result.code, error: QR_TOKEN_ERROR_MESSAGES[result.code] },
+        { status: 400 }
+      );
+    }
+
+    if (await isQRTokenRevoked(result.payload)) {
+      return NextResponse.json(
+        { success: false, code: 'QR_TOKEN_REVOKED', error: QR_TOKEN_ERROR_MESSAGES.QR_TOKEN_REVOKED },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      comercioId: result.payload.c,
+      beneficioId: result.payload.b || null,
+      expiresAt: result.payload.exp * 1000,
+    });
+  } catch (error) {
+    console.error('❌ Error verificando token QR:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al verificar el código QR' },
+      { status: 500 }
+    );
+  }
+}
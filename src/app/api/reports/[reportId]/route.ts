@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import adminApp, { adminDb } from '@/lib/firebase-admin';
+import { getRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import { ReportFile, ReportFileFormat } from '@/types/reports';
+
+const CONTENT_TYPES: Record<ReportFileFormat, string> = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+type Contexto = { params: Promise<{ reportId: string }> };
+
+const bucket = () => getStorage(adminApp).bucket(process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET);
+
+// Reporte del usuario o la respuesta de error si no existe o no es suyo
+async function leerReporte(request: NextRequest, { params }: Contexto) {
+  const user = await getRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'No autenticado' }, { status: 401 });
+  }
+
+  const { reportId } = await params;
+  const reportDoc = await adminDb.collection(COLLECTIONS.REPORTS).doc(reportId).get();
+  const report = reportDoc.data();
+  if (!report) {
+    return NextResponse.json({ success: false, error: 'Reporte no encontrado' }, { status: 404 });
+  }
+  if (report.asociacionId !== user.uid && report.userId !== user.uid && user.role !== 'admin') {
+    return NextResponse.json({ success: false, error: 'No tenés acceso a este reporte' }, { status: 403 });
+  }
+  return { reportDoc, files: (report.files as ReportFile[] | undefined) || [] };
+}
+
+// Descarga un archivo de un reporte generado por un envío programado
+export async function GET(request: NextRequest, contexto: Contexto) {
+  try {
+    const formato = request.nextUrl.searchParams.get('format') as ReportFileFormat | null;
+    if (!formato || !Object.keys(CONTENT_TYPES).includes(formato)) {
+      return NextResponse.json({ success: false, error: 'Formato no válido' }, { status: 400 });
+    }
+
+    const reporte = await leerReporte(request, contexto);
+    if (reporte instanceof NextResponse) return reporte;
+    const { reportDoc, files } = reporte;
+
+    const file = files.find(archivo => archivo.format === formato);
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'El reporte no tiene un archivo en ese formato' }, { status: 404 });
+    }
+
+    const [contenido] = await bucket().file(file.storagePath).download();
+
+    await reportDoc.ref.update({
+      downloadCount: FieldValue.increment(1),
+      lastDownloaded: FieldValue.serverTimestamp(),
+    });
+
+    return new NextResponse(new Uint8Array(contenido), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[formato],
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('❌ Error descargando el reporte:', error);
+    return NextResponse.json({ success: false, error: 'Error descargando el reporte' }, { status: 500 });
+  }
+}
+
+// Elimina el reporte y sus archivos del almacenamiento
+export async function DELETE(request: NextRequest, contexto: Contexto) {
+  try {
+    const reporte = await leerReporte(request, contexto);
+    if (reporte instanceof NextResponse) return reporte;
+    const { reportDoc, files } = reporte;
+
+    await Promise.all(files.map(file => bucket().file(file.storagePath).delete({ ignoreNotFound: true })));
+    await reportDoc.ref.delete();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error eliminando el reporte:', error);
+    return NextResponse.json({ success: false, error: 'Error eliminando el reporte' }, { status: 500 });
+  }
+}
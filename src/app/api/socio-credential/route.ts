@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { getRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import {
+  SOCIO_CREDENTIAL_TTL,
+  generateCredentialCode,
+  getSocioCredentialPrivateKey,
+  signSocioCredential,
+} from '@/lib/qr-token';
+
+const MAX_CODE_ATTEMPTS = 5;
+
+// Emite la credencial dinámica (QR + código de 6 dígitos) del socio autenticado.
+// El titular de un grupo familiar también puede emitir la de sus dependientes
+// enviando su socioId.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user || user.role !== 'socio') {
+      return NextResponse.json(
+        { success: false, error: 'Solo los socios pueden generar su credencial' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const socioId = typeof body.socioId === 'string' && body.socioId ? body.socioId : user.uid;
+
+    const socioDoc = await adminDb.collection(COLLECTIONS.SOCIOS).doc(socioId).get();
+    if (!socioDoc.exists) {
+      return NextResponse.json(
+        { success: false, error: 'Socio no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const socioData = socioDoc.data() || {};
+    if (socioId !== user.uid && socioData.titularId !== user.uid) {
+      return NextResponse.json(
+        { success: false, error: 'Solo puedes generar credenciales de tu grupo familiar' },
+        { status: 403 }
+      );
+    }
+    // Nombre, número y estado viajan firmados para que el comercio pueda
+    // verificar la credencial sin conexión
+    const { token, payload } = await signSocioCredential(
+      {
+        socioId,
+        asociacionId: socioData.asociacionId,
+        nombre: socioData.nombre,
+        numeroSocio: socioData.numeroSocio,
+        estado: socioData.estado,
+      },
+      getSocioCredentialPrivateKey(),
+      SOCIO_CREDENTIAL_TTL
+    );
+    const expiresAt = Timestamp.fromMillis(payload.exp * 1000);
+
+    // Reservar un código numérico libre; los vencidos se pueden reutilizar
+    let code: string | null = null;
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS && !code; attempt++) {
+      const candidate = generateCredentialCode();
+      const ref = adminDb.collection(COLLECTIONS.CREDENCIALES_SOCIO).doc(candidate);
+
+      const reserved = await adminDb.runTransaction(async (transaction) => {
+        const existing = await transaction.get(ref);
+        const existingExpiry = existing.data()?.expiresAt as Timestamp | undefined;
+        if (existing.exists && existingExpiry && existingExpiry.toMillis() > Date.now()) {
+          return false;
+        }
+
+        transaction.set(ref, {
+          socioId,
+          asociacionId: socioData.asociacionId || null,
+          nonce: payload.n,
+          expiresAt,
+          creadoEn: Timestamp.now(),
+        });
+        return true;
+      });
+
+      if (reserved) {
+        code = candidate;
+      }
+    }
+
+    if (!code) {
+      throw new Error('No se pudo reservar un código libre');
+    }
+
+    return NextResponse.json({
+      success: true,
+      token,
+      code,
+      expiresAt: payload.exp * 1000,
+    });
+  } catch (error) {
+    console.error('❌ Error emitiendo credencial de socio:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al generar la credencial' },
+      { status: 500 }
+    );
+  }
+}
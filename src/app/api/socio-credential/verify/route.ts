@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { getRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import { isCredencialSocioError, resolverCredencialSocio } from '@/lib/socio-credential-server';
+
+// Resuelve la credencial del socio (QR firmado o código de 6 dígitos) para un
+// comercio, sin consumirla: el comercio ve a quién va a validar. La credencial
+// se consume al autorizar la validación (/api/validaciones/autorizacion).
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user || user.role !== 'comercio') {
+      return NextResponse.json(
+        { success: false, error: 'Solo los comercios pueden validar credenciales de socios' },
+        { status: 401 }
+      );
+    }
+
+    const { token, code, capturadoEn } = await request.json();
+    const credential = await resolverCredencialSocio(
+      { token, code, capturadoEn },
+      user.uid,
+      { consumir: false }
+    );
+
+    const socioDoc = await adminDb.collection(COLLECTIONS.SOCIOS).doc(credential.socioId).get();
+    const socioData = socioDoc.data() || {};
+
+    return NextResponse.json({
+      success: true,
+      socioId: credential.socioId,
+      asociacionId: credential.asociacionId,
+      expiresAt: credential.expiresAt,
+      nombre: socioData.nombre || 'Socio sin nombre',
+      numeroSocio: socioData.numeroSocio || null,
+      estadoMembresia: socioData.estadoMembresia || null,
+    });
+  } catch (error) {
+    if (isCredencialSocioError(error)) {
+      return NextResponse.json(
+        { success: false, code: error.code, error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('❌ Error verificando credencial de socio:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al verificar la credencial del socio' },
+      { status: 500 }
+    );
+  }
+}
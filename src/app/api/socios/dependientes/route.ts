@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { ApiRequestUser, getRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS, USER_STATES } from '@/lib/constants';
+import { esParentesco, getNumeroDependiente } from '@/lib/grupo-familiar';
+
+type TitularResult =
+  | { ok: true; data: DocumentData }
+  | { ok: false; response: NextResponse };
+
+const errorResponse = (error: string, status: number) =>
+  NextResponse.json({ success: false, error }, { status });
+
+// Solo la asociación del titular (o un admin) administra su grupo familiar
+async function getTitularAutorizado(user: ApiRequestUser | null, titularId: string): Promise<TitularResult> {
+  if (!user || (user.role !== 'asociacion' && user.role !== 'admin')) {
+    return { ok: false, response: errorResponse('Solo la asociación puede administrar grupos familiares', 401) };
+  }
+
+  const titularDoc = await adminDb.collection(COLLECTIONS.SOCIOS).doc(titularId).get();
+  const titular = titularDoc.data();
+  if (!titular) {
+    return { ok: false, response: errorResponse('Socio titular no encontrado', 404) };
+  }
+  if (user.role !== 'admin' && titular.asociacionId !== user.uid) {
+    return { ok: false, response: errorResponse('El socio no pertenece a tu asociación', 403) };
+  }
+  return { ok: true, data: titular };
+}
+
+// Agrega un dependiente al grupo familiar de un titular. El dependiente es un
+// socio propio, sin cuota, con el número del titular y un sufijo.
+export async function POST(request: NextRequest) {
+  let authUid: string | null = null;
+
+  try {
+    const user = await getRequestUser(request);
+    const { titularId, dependiente } = await request.json();
+    if (typeof titularId !== 'string' || !titularId || !dependiente) {
+      return errorResponse('Faltan el titular o los datos del dependiente', 400);
+    }
+
+    const nombre = typeof dependiente.nombre === 'string' ? dependiente.nombre.trim() : '';
+    const email = typeof dependiente.email === 'string' ? dependiente.email.toLowerCase().trim() : '';
+    const password = typeof dependiente.password === 'string' ? dependiente.password : '';
+    const dni = typeof dependiente.dni === 'string' ? dependiente.dni.trim() : '';
+    if (!nombre) {
+      return errorResponse('El nombre del dependiente es obligatorio', 400);
+    }
+    if (!esParentesco(dependiente.parentesco)) {
+      return errorResponse('Parentesco inválido', 400);
+    }
+    if (email && password.length < 6) {
+      return errorResponse('Para darle acceso propio se requiere una contraseña de al menos 6 caracteres', 400);
+    }
+
+    const titularResult = await getTitularAutorizado(user, titularId);
+    if (!titularResult.ok) return titularResult.response;
+    const titular = titularResult.data;
+    if (titular.titularId) {
+      return errorResponse('Un dependiente no puede tener dependientes propios', 400);
+    }
+
+    if (dni) {
+      const existente = await adminDb.collection(COLLECTIONS.SOCIOS)
+        .where('asociacionId', '==', titular.asociacionId)
+        .where('dni', '==', dni)
+        .limit(1)
+        .get();
+      if (!existente.empty) {
+        return errorResponse('Ya existe un socio con este DNI en esta asociación', 409);
+      }
+    }
+
+    // Con email el dependiente tiene su propio acceso; el documento de socio
+    // usa el mismo UID, como en el alta de cualquier socio
+    if (email) {
+      const userRecord = await adminAuth.createUser({
+        email,
+        password,
+        displayName: nombre,
+        emailVerified: false, // Lo verifica en el primer ingreso
+      });
+      authUid = userRecord.uid;
+    }
+
+    const titularRef = adminDb.collection(COLLECTIONS.SOCIOS).doc(titularId);
+    const dependienteRef = authUid
+      ? adminDb.collection(COLLECTIONS.SOCIOS).doc(authUid)
+      : adminDb.collection(COLLECTIONS.SOCIOS).doc();
+    const fechaNacimiento = dependiente.fechaNacimiento ? new Date(dependiente.fechaNacimiento) : null;
+
+    const numeroSocio = await adminDb.runTransaction(async (transaction) => {
+      const titularDoc = await transaction.get(titularRef);
+      const actual = titularDoc.data() || titular;
+      const orden = (Number(actual.ultimoDependiente) || 0) + 1;
+      const numero = getNumeroDependiente(actual.numeroSocio || titularId.slice(0, 6), orden);
+      const ahora = FieldValue.serverTimestamp();
+
+      transaction.set(dependienteRef, {
+        nombre,
+        email,
+        dni,
+        telefono: typeof dependiente.telefono === 'string' ? dependiente.telefono.trim() : '',
+        direccion: actual.direccion || '',
+        asociacionId: actual.asociacionId,
+        numeroSocio: numero,
+        estado: 'activo',
+        // La membresía y la cuota son las del titular
+        estadoMembresia: actual.estadoMembresia || 'pendiente',
+        ...(actual.fechaVencimiento ? { fechaVencimiento: actual.fechaVencimiento } : {}),
+        montoCuota: 0,
+        titularId,
+        parentesco: dependiente.parentesco,
+        ...(fechaNacimiento && !isNaN(fechaNacimiento.getTime())
+          ? { fechaNacimiento: Timestamp.fromDate(fechaNacimiento) }
+          : {}),
+        fechaIngreso: ahora,
+        fechaVinculacion: ahora,
+        vinculadoPor: user?.uid ?? null,
+        beneficiosUsados: 0,
+        validacionesRealizadas: 0,
+        hasAuthAccount: !!authUid,
+        requiresEmailVerification: !!authUid,
+        creadoEn: ahora,
+        actualizadoEn: ahora,
+      });
+
+      if (authUid) {
+        transaction.set(adminDb.collection(COLLECTIONS.USERS).doc(authUid), {
+          email,
+          nombre,
+          role: 'socio',
+          estado: USER_STATES.PENDIENTE, // PENDIENTE hasta verificación de email
+          asociacionId: actual.asociacionId,
+          creadoEn: ahora,
+          actualizadoEn: ahora,
+          configuracion: {
+            notificaciones: true,
+            tema: 'light',
+            idioma: 'es',
+          },
+        });
+      }
+
+      transaction.update(titularRef, {
+        dependientesIds: FieldValue.arrayUnion(dependienteRef.id),
+        ultimoDependiente: orden,
+        actualizadoEn: ahora,
+      });
+
+      return numero;
+    });
+
+    console.log(`👪 Dependiente ${dependienteRef.id} (#${numeroSocio}) agregado al titular ${titularId}`);
+    return NextResponse.json({
+      success: true,
+      socioId: dependienteRef.id,
+      numeroSocio,
+      conAcceso: !!authUid,
+    });
+  } catch (error) {
+    // Sin documento de socio la cuenta de acceso queda huérfana
+    if (authUid) {
+      await adminAuth.deleteUser(authUid).catch(deleteError =>
+        console.error('❌ No se pudo eliminar la cuenta del dependiente fallido:', deleteError)
+      );
+    }
+
+    const code = (error as { code?: string })?.code;
+    if (code === 'auth/email-already-exists') {
+      return errorResponse('El email ya está registrado', 409);
+    }
+    console.error('❌ Error agregando dependiente:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Error al agregar el dependiente', 500);
+  }
+}
+
+// Quita a un dependiente del grupo familiar. Deja de compartir la membresía
+// del titular, así que queda inactivo hasta que la asociación le asigne una cuota.
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    const dependienteId = request.nextUrl.searchParams.get('dependienteId');
+    if (!dependienteId) {
+      return errorResponse('Falta el dependiente', 400);
+    }
+
+    const dependienteRef = adminDb.collection(COLLECTIONS.SOCIOS).doc(dependienteId);
+    const dependiente = (await dependienteRef.get()).data();
+    if (!dependiente?.titularId) {
+      return errorResponse('El socio no es dependiente de un grupo familiar', 404);
+    }
+
+    const titularResult = await getTitularAutorizado(user, dependiente.titularId);
+    if (!titularResult.ok) return titularResult.response;
+
+    const batch = adminDb.batch();
+    batch.update(dependienteRef, {
+      titularId: FieldValue.delete(),
+      parentesco: FieldValue.delete(),
+      estado: 'inactivo',
+      estadoMembresia: 'pendiente',
+      fechaVencimiento: FieldValue.delete(),
+      actualizadoEn: FieldValue.serverTimestamp(),
+    });
+    batch.update(adminDb.collection(COLLECTIONS.SOCIOS).doc(dependiente.titularId), {
+      dependientesIds: FieldValue.arrayRemove(dependienteId),
+      actualizadoEn: FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('❌ Error quitando dependiente:', error);
+    return errorResponse('Error al quitar el dependiente', 500);
+  }
+}
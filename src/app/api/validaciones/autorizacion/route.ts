@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser } from '@/lib/api-auth';
+import { autorizarValidacion, isAutorizacionValidacionError } from '@/lib/autorizacion-validacion-server';
+import { isCredencialSocioError } from '@/lib/socio-credential-server';
+
+// Autoriza una validación de beneficio: verifica el QR del comercio o consume
+// la credencial del socio y devuelve el ID con el que se registra la validación.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Autenticación requerida' },
+        { status: 401 }
+      );
+    }
+
+    const { socioId, comercioId, beneficioId, qrToken, credencialSocio } = await request.json();
+    if (typeof socioId !== 'string' || !socioId || typeof comercioId !== 'string' || !comercioId) {
+      return NextResponse.json(
+        { success: false, error: 'Faltan el socio o el comercio de la validación' },
+        { status: 400 }
+      );
+    }
+
+    const autorizacion = await autorizarValidacion(user, {
+      socioId,
+      comercioId,
+      beneficioId: typeof beneficioId === 'string' && beneficioId ? beneficioId : undefined,
+      qrToken: typeof qrToken === 'string' || qrToken === null ? qrToken : undefined,
+      credencialSocio,
+    });
+    return NextResponse.json({ success: true, ...autorizacion });
+  } catch (error) {
+    if (isAutorizacionValidacionError(error)) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.codigo });
+    }
+    if (isCredencialSocioError(error)) {
+      return NextResponse.json({ success: false, code: error.code, error: error.message }, { status: 400 });
+    }
+    console.error('❌ Error autorizando la validación:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al autorizar la validación' },
+      { status: 500 }
+    );
+  }
+}
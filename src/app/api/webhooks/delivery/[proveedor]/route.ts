@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAppUrl } from '@/lib/app-url';
+import { getDeliveryProvider, WebhookEntregaRequest } from '@/lib/delivery-providers';
+import { procesarEventoEntrega, ResultadoEventoEntrega } from '@/lib/entregas-server';
+
+// Webhook de estados de entrega de los proveedores de notificaciones
+// (sendgrid, resend, twilio, meta_whatsapp). Verifica la firma y aplica cada
+// evento al registro de entrega en notificationDeliveries.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ proveedor: string }> }
+) {
+  const { proveedor } = await params;
+  const provider = getDeliveryProvider(proveedor);
+  if (!provider) {
+    return NextResponse.json({ error: 'Proveedor desconocido' }, { status: 404 });
+  }
+
+  try {
+    const webhookRequest: WebhookEntregaRequest = {
+      headers: request.headers,
+      searchParams: request.nextUrl.searchParams,
+      rawBody: await request.text(),
+      // Detrás de un proxy request.url no es la URL que firmó el proveedor
+      url: new URL(`${request.nextUrl.pathname}${request.nextUrl.search}`, getAppUrl()).toString(),
+    };
+
+    if (!provider.verificarFirma(webhookRequest)) {
+      console.warn(`⚠️ Webhook de entregas de ${provider.id} con firma inválida`);
+      return NextResponse.json({ error: 'Firma inválida' }, { status: 401 });
+    }
+
+    const eventos = provider.obtenerEventos(webhookRequest);
+    const resultados: Record<ResultadoEventoEntrega, number> = { actualizado: 0, sin_cambios: 0, sin_registro: 0 };
+    let errores = 0;
+
+    for (const evento of eventos) {
+      try {
+        resultados[await procesarEventoEntrega(provider.id, evento)]++;
+      } catch (error) {
+        errores++;
+        console.error(`❌ Error aplicando el evento ${evento.estado} de ${provider.id}:`, error);
+      }
+    }
+
+    console.log(`📥 Webhook de entregas ${provider.id}: ${eventos.length} evento(s)`, resultados);
+
+    // Un 500 hace que el proveedor reintente; los eventos ya aplicados no se
+    // vuelven a contar
+    if (errores > 0) {
+      return NextResponse.json({ error: 'Error procesando eventos', errores }, { status: 500 });
+    }
+    return NextResponse.json({ success: true, procesados: eventos.length, ...resultados });
+  } catch (error) {
+    console.error(`❌ Error procesando el webhook de entregas de ${provider.id}:`, error);
+    return NextResponse.json({ error: 'Error procesando el webhook' }, { status: 500 });
+  }
+}
+
+// Verificación de la suscripción (Meta WhatsApp Cloud API)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ proveedor: string }> }
+) {
+  const { proveedor } = await params;
+  const provider = getDeliveryProvider(proveedor);
+  const challenge = provider?.verificarSuscripcion?.(request.nextUrl.searchParams) ?? null;
+
+  if (challenge === null) {
+    return NextResponse.json({ error: 'Suscripción inválida' }, { status: 403 });
+  }
+  return new NextResponse(challenge, { status: 200, headers: { 'Content-Type': 'text/plain' } });
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+import { getPaymentProvider, WebhookRequest } from '@/lib/payment-providers';
+import { registrarPagoServidor } from '@/lib/cuotas-server';
+
+type ResultadoWebhook = 'procesado' | 'duplicado' | 'sin_intencion' | 'actualizado';
+
+// Webhook de los proveedores de pago. Verifica la firma, y cada pago del
+// proveedor se registra una sola vez: el evento, la intención y el pago de
+// cuotas se escriben en la misma transacción.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ proveedor: string }> }
+) {
+  const { proveedor } = await params;
+  const provider = getPaymentProvider(proveedor);
+  if (!provider) {
+    return NextResponse.json({ error: 'Proveedor desconocido' }, { status: 404 });
+  }
+
+  try {
+    const webhookRequest: WebhookRequest = {
+      headers: request.headers,
+      searchParams: request.nextUrl.searchParams,
+      rawBody: await request.text(),
+    };
+
+    if (!provider.verificarFirma(webhookRequest)) {
+      console.warn(`⚠️ Webhook de ${provider.id} con firma inválida`);
+      return NextResponse.json({ error: 'Firma inválida' }, { status: 401 });
+    }
+
+    const notificacion = await provider.obtenerNotificacion(webhookRequest);
+    if (!notificacion) {
+      return NextResponse.json({ success: true, ignorado: true });
+    }
+
+    const eventoRef = adminDb.collection(COLLECTIONS.WEBHOOK_EVENTOS_PAGO)
+      .doc(`${provider.id}_${notificacion.pagoExternoId}`);
+    const intencionRef = adminDb.collection(COLLECTIONS.INTENCIONES_PAGO).doc(notificacion.intencionId);
+
+    const resultado = await adminDb.runTransaction(async (transaction): Promise<ResultadoWebhook> => {
+      const [eventoDoc, intencionDoc] = await Promise.all([
+        transaction.get(eventoRef),
+        transaction.get(intencionRef),
+      ]);
+
+      // Los proveedores reintentan y avisan cada cambio de estado: un pago
+      // aprobado ya imputado no se vuelve a procesar
+      if (eventoDoc.data()?.estado === 'aprobado') {
+        return 'duplicado';
+      }
+
+      const intencion = intencionDoc.data();
+      if (!intencion || intencion.proveedor !== provider.id) {
+        return 'sin_intencion';
+      }
+
+      let pagoCuotaId: string | null = null;
+      if (notificacion.estado === 'aprobado') {
+        const pago = await registrarPagoServidor(transaction, {
+          socioId: intencion.socioId,
+          monto: notificacion.monto > 0 ? notificacion.monto : intencion.monto,
+          medioPago: provider.id === 'mercado_pago' ? 'mercado_pago' : 'otro',
+          pagoId: eventoRef.id,
+          registradoPor: `webhook:${provider.id}`,
+          nota: `Pago online ${notificacion.pagoExternoId}`,
+        });
+        pagoCuotaId = pago.id;
+
+        // El evento se publica en la misma transacción: un reintento del
+        // proveedor no lo duplica
+        transaction.set(adminDb.collection(COLLECTIONS.EVENTOS_DOMINIO).doc(), {
+          type: 'payment_received',
+          payload: {
+            socioId: pago.socioId,
+            asociacionId: pago.asociacionId,
+            monto: pago.monto,
+            medioPago: pago.medioPago,
+            numeroRecibo: pago.numeroRecibo,
+            deudaPosterior: pago.deudaPosterior,
+            origen: 'online',
+          },
+          userId: pago.socioId,
+          asociacionId: pago.asociacionId,
+          status: 'pending',
+          occurredAt: FieldValue.serverTimestamp(),
+        });
+      }
+
+      // Una intención aprobada no vuelve atrás por un aviso tardío de otro intento
+      if (intencion.estado !== 'aprobado') {
+        transaction.update(intencionRef, {
+          estado: notificacion.estado,
+          pagoExternoId: notificacion.pagoExternoId,
+          ...(pagoCuotaId ? { pagoCuotaId } : {}),
+          actualizadoEn: FieldValue.serverTimestamp(),
+        });
+      }
+
+      transaction.set(eventoRef, {
+        proveedor: provider.id,
+        pagoExternoId: notificacion.pagoExternoId,
+        intencionId: notificacion.intencionId,
+        estado: notificacion.estado,
+        monto: notificacion.monto,
+        pagoCuotaId,
+        recibidoEn: FieldValue.serverTimestamp(),
+      });
+
+      return pagoCuotaId ? 'procesado' : 'actualizado';
+    });
+
+    console.log(`💳 Webhook ${provider.id} ${notificacion.pagoExternoId} (${notificacion.estado}): ${resultado}`);
+    return NextResponse.json({ success: true, resultado });
+  } catch (error) {
+    // Un 500 hace que el proveedor reintente más tarde
+    console.error(`❌ Error procesando el webhook de ${provider.id}:`, error);
+    return NextResponse.json({ error: 'Error procesando el webhook' }, { status: 500 });
+  }
+}
@@ -8,6 +8,7 @@ import { ComercioSidebar } from '@/components/layout/ComercioSidebar';
 import { Button } from '@/components/ui/Button';
 import { useAuth } from '@/hooks/useAuth';
 import { useComercios } from '@/hooks/useComercios';
+import { DEFAULT_COMERCIO_TIMEZONE } from '@/lib/benefit-schedule';
 import { 
   Settings, 
   Bell, 
@@ -80,7 +81,7 @@ function ComercioConfiguracionContent() {
       email: '',
       telefono: '',
       sitioWeb: '',
-      timezone: 'America/Argentina/Buenos_Aires',
+      timezone: DEFAULT_COMERCIO_TIMEZONE,
       idioma: 'es'
     },
     notificaciones: {
@@ -201,7 +202,7 @@ function ComercioConfiguracionContent() {
           email: comercio.email || '',
           telefono: comercio.telefono || '',
           sitioWeb: '', // Removed comercio.sitioWeb as it does not exist
-          timezone: 'America/Argentina/Buenos_Aires',
+          timezone: comercio.timezone || DEFAULT_COMERCIO_TIMEZONE,
           idioma: 'es'
         },
         notificaciones: {
@@ -6,6 +6,8 @@ import { useSearchParams } from 'next/navigation';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { ComercioSidebar } from '@/components/layout/ComercioSidebar';
 import { ValidacionesHistory } from '@/components/comercio/ValidacionesHistory';
+import { ValidarSocioPanel } from '@/components/comercio/ValidarSocioPanel';
+import { PuntosComercioPanel } from '@/components/comercio/PuntosComercioPanel';
 import { Button } from '@/components/ui/Button';
 import { useAuth } from '@/hooks/useAuth';
 import { useValidaciones } from '@/hooks/useValidaciones';
@@ -123,6 +125,22 @@ function ComercioValidacionesContent() {
       color: 'from-purple-500 to-purple-600',
       bgColor: 'from-purple-50 to-purple-100'
     },
+    {
+      id: 'validar',
+      label: 'Validar socio',
+      icon: UserCheck,
+      description: 'Código o QR del socio',
+      color: 'from-orange-500 to-orange-600',
+      bgColor: 'from-orange-50 to-orange-100'
+    },
+    {
+      id: 'puntos',
+      label: 'Puntos',
+      icon: Star,
+      description: 'Puntos ganados y canjeados',
+      color: 'from-violet-500 to-violet-600',
+      bgColor: 'from-violet-50 to-violet-100'
+    },
     {
       id: 'analytics',
       label: 'Analytics',
@@ -517,6 +535,12 @@ function ComercioValidacionesContent() {
                 </div>
               )}
 
+              {/* Validar Socio Tab */}
+              {activeTab === 'validar' && <ValidarSocioPanel />}
+
+              {/* Puntos Tab */}
+              {activeTab === 'puntos' && <PuntosComercioPanel />}
+
               {/* History Tab */}
               {activeTab === 'historial' && (
                 <div className="space-y-8">
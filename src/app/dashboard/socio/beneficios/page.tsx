@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Gift, 
@@ -15,13 +15,15 @@ import {
   Sparkles,
   Target,
   Award,
-  Zap
+  Zap,
+  Star
 } from 'lucide-react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { SocioSidebar } from '@/components/layout/SocioSidebar';
 import { BeneficiosList } from '@/components/beneficios/BeneficiosList';
 import { BeneficiosStats } from '@/components/beneficios/BeneficiosStats';
 import { BenefitsSourceInfo } from '@/components/socio/BenefitsSourceInfo';
+import { CatalogoCanjes } from '@/components/socio/CatalogoCanjes';
 import { Button } from '@/components/ui/Button';
 import { useBeneficiosSocio } from '@/hooks/useBeneficios';
 import { useAuth } from '@/hooks/useAuth';
@@ -55,7 +57,13 @@ export default function SocioBeneficiosPage() {
     refrescarHistorialDespuesValidacion
   } = useBeneficiosSocio();
 
-  const [activeTab, setActiveTab] = useState<'disponibles' | 'usados' | 'info'>('disponibles');
+  const [activeTab, setActiveTab] = useState<'disponibles' | 'puntos' | 'usados' | 'info'>('disponibles');
+
+  // Los beneficios de tipo puntos no se validan en caja: se canjean en su pestaña
+  const beneficiosDescuento = useMemo(
+    () => beneficios.filter(beneficio => beneficio.tipo !== 'puntos'),
+    [beneficios]
+  );
 
   // Función para refrescar datos después de una validación exitosa
   const handleValidationSuccess = async () => {
@@ -320,6 +328,18 @@ export default function SocioBeneficiosPage() {
                 </span>
               </button>
               
+              <button
+                onClick={() => setActiveTab('puntos')}
+                className={`flex-1 flex items-center justify-center gap-3 py-4 px-6 rounded-xl font-bold text-sm transition-all duration-300 ${
+                  activeTab === 'puntos'
+                    ? 'bg-gradient-to-r from-purple-600 to-blue-600 text-white shadow-lg transform scale-105'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                }`}
+              >
+                <Star size={20} />
+                <span>Canjear puntos</span>
+              </button>
+
               <button
                 onClick={() => setActiveTab('usados')}
                 className={`flex-1 flex items-center justify-center gap-3 py-4 px-6 rounded-xl font-bold text-sm transition-all duration-300 ${
@@ -363,7 +383,7 @@ export default function SocioBeneficiosPage() {
                 transition={{ duration: 0.3 }}
               >
                 <BeneficiosList
-                  beneficios={beneficios}
+                  beneficios={beneficiosDescuento}
                   loading={loading}
                   userRole="socio"
                   onUse={handleUseBenefit}
@@ -374,6 +394,21 @@ export default function SocioBeneficiosPage() {
               </motion.div>
             )}
 
+            {activeTab === 'puntos' && (
+              <motion.div
+                key="puntos"
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: 20 }}
+                transition={{ duration: 0.3 }}
+              >
+                <CatalogoCanjes
+                  beneficios={beneficios}
+                  onCanjeado={handleValidationSuccess}
+                />
+              </motion.div>
+            )}
+
             {activeTab === 'usados' && (
               <motion.div
                 key="usados"
@@ -39,6 +39,9 @@ import { Input } from '@/components/ui/Input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/Dialog';
 import { LogoutModal } from '@/components/ui/LogoutModal';
 import { useSocioProfile } from '@/hooks/useSocioProfile';
+import { CuotaSocioCard } from '@/components/socio/CuotaSocioCard';
+import { GrupoFamiliarCard } from '@/components/socio/GrupoFamiliarCard';
+import { PreferenciasNotificacionesCard } from '@/components/socio/PreferenciasNotificacionesCard';
 import { useBeneficios } from '@/hooks/useBeneficios';
 import { useAuth } from '@/hooks/useAuth';
 import { uploadImage, validateImageFile } from '@/utils/storage/uploadImage';
@@ -47,6 +50,7 @@ import { es } from 'date-fns/locale';
 import { Timestamp } from 'firebase/firestore';
 import toast from 'react-hot-toast';
 import { cn } from '@/lib/utils';
+import { getNivelActualSocio, getProgresoNivel } from '@/lib/loyalty-points';
 
 // Interfaces
 interface ProfileFormData {
@@ -662,14 +666,9 @@ export default function SocioPerfilPage() {
       creadoEn: creadoEnDate,
       numeroSocio: socio?.numeroSocio || '',
       fotoPerfil: socio?.fotoPerfil || '',
-      nivel: {
-        nivel: 'Bronze' as const,
-        puntos: Math.floor(estadisticasRapidas.usados * 10),
-        puntosParaProximoNivel: 1000,
-        proximoNivel: 'Silver',
-      }
+      nivel: getNivelActualSocio(socio),
     };
-  }, [socio, user, estadisticasRapidas.usados]);
+  }, [socio, user]);
 
   // Enhanced stats usando datos de beneficios consistentes
   const enhancedStats = useMemo(() => {
@@ -999,13 +998,14 @@ export default function SocioPerfilPage() {
                       className={`h-4 rounded-full bg-gradient-to-r ${getNivelGradient(profileData.nivel.proximoNivel)} shadow-lg`}
                       initial={{ width: 0 }}
                       animate={{ 
-                        width: `${(profileData.nivel.puntos / profileData.nivel.puntosParaProximoNivel) * 100}%` 
+                        width: `${getProgresoNivel(profileData.nivel).porcentaje}%` 
                       }}
                       transition={{ duration: 1.5, delay: 0.5, ease: "easeOut" }}
                     />
                   </div>
                   <p className="text-sm text-gray-600 mt-2 font-medium">
-                    {profileData.nivel.puntosParaProximoNivel - profileData.nivel.puntos} puntos restantes
+                    {getProgresoNivel(profileData.nivel).restantes} puntos restantes
+                    {profileData.nivel.descuentoAdicional > 0 && ` · +${profileData.nivel.descuentoAdicional}% en beneficios por tu nivel`}
                   </p>
                 </div>
 
@@ -1043,6 +1043,10 @@ export default function SocioPerfilPage() {
               </div>
             </motion.div>
 
+            {socio && <CuotaSocioCard socio={socio} onPagoConfirmado={refreshData} />}
+            {socio && <GrupoFamiliarCard socio={socio} />}
+            {socio && <PreferenciasNotificacionesCard userId={socio.id} />}
+
             {/* Main Content Grid */}
             <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
               
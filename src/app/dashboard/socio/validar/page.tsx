@@ -26,6 +26,7 @@ import { SocioSidebar } from '@/components/layout/SocioSidebar';
 import { LogoutModal } from '@/components/ui/LogoutModal';
 import { QRScannerButton } from '@/components/socio/QRScannerButton';
 import { ValidationResultModal } from '@/components/socio/ValidationResultModal';
+import { SocioCredentialCard } from '@/components/socio/SocioCredentialCard';
 import { useAuth } from '@/hooks/useAuth';
 import { useBeneficios } from '@/hooks/useBeneficios';
 import { validacionesService } from '@/services/validaciones.service';
@@ -143,7 +144,8 @@ const SocioValidarContent: React.FC = () => {
           socioId: user.uid,
           comercioId: parsedData.comercioId,
           beneficioId: parsedData.beneficioId,
-          asociacionId: user.asociacionId
+          asociacionId: user.asociacionId,
+          qrToken: parsedData.token ?? null
         });
 
         console.log('🎯 Resultado de validación:', result);
@@ -167,7 +169,8 @@ const SocioValidarContent: React.FC = () => {
                 estado: 'activo',
                 asociacion: user.asociacionId || 'independiente'
               },
-          id: result.data?.validacion?.id
+          id: result.data?.validacion?.id,
+          errorCode: result.errorCode
         };
 
         setValidationResult(transformedResult);
@@ -481,6 +484,11 @@ const SocioValidarContent: React.FC = () => {
               </div>
             </motion.div>
 
+            {/* Credencial del socio (flujo inverso) */}
+            <motion.div variants={itemVariants}>
+              <SocioCredentialCard />
+            </motion.div>
+
             {/* Performance Metrics */}
             <motion.div 
               className="grid grid-cols-1 sm:grid-cols-3 gap-6"
@@ -18,6 +18,7 @@ import { toast } from 'react-hot-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { comercioService } from '@/services/comercio.service';
 import { validacionesService } from '@/services/validaciones.service';
+import { qrTokenService } from '@/services/qr-token.service';
 
 interface Comercio {
   id: string;
@@ -56,20 +57,34 @@ const ValidarBeneficioContent: React.FC = () => {
   const [validating, setValidating] = useState(false);
   const [error, setError] = useState<string>('');
 
-  const comercioId = searchParams.get('comercio');
-  const beneficioId = searchParams.get('beneficio');
+  const qrToken = searchParams.get('t');
+  const [comercioId, setComercioId] = useState<string | null>(null);
 
-  // Load comercio and benefits data
+  // Verify signed QR token, then load comercio and benefits data
   useEffect(() => {
     const loadData = async () => {
-      if (!comercioId) {
-        setError('ID de comercio no proporcionado');
+      if (!qrToken) {
+        setError(
+          searchParams.get('comercio')
+            ? 'Este código QR está desactualizado. Pedí al comercio que muestre su QR vigente.'
+            : 'Código QR no proporcionado'
+        );
         setLoading(false);
         return;
       }
 
       try {
         setLoading(true);
+
+        const qrCheck = await qrTokenService.verifyToken(qrToken);
+        if (!qrCheck.valid) {
+          setError(qrCheck.message);
+          setLoading(false);
+          return;
+        }
+
+        const comercioId = qrCheck.comercioId;
+        setComercioId(comercioId);
         
         // Load comercio data
         const comercioData = await comercioService.getComercioById(comercioId);
@@ -124,7 +139,12 @@ const ValidarBeneficioContent: React.FC = () => {
             limiteTotal: beneficioObj.limiteTotal,
           };
         });
-        setBeneficios(beneficiosMapped);
+        // A benefit-specific QR only offers that benefit
+        setBeneficios(
+          qrCheck.beneficioId
+            ? beneficiosMapped.filter(b => b.id === qrCheck.beneficioId)
+            : beneficiosMapped
+        );
 
       } catch (err) {
         console.error('Error loading data:', err);
@@ -135,7 +155,7 @@ const ValidarBeneficioContent: React.FC = () => {
     };
 
     loadData();
-  }, [comercioId, beneficioId]);
+  }, [qrToken, searchParams]);
 
   // Handle benefit validation
   const handleValidateBenefit = async (beneficio: Beneficio) => {
@@ -157,7 +177,8 @@ const ValidarBeneficioContent: React.FC = () => {
         socioId: user.uid,
         comercioId: comercioId!,
         beneficioId: beneficio.id,
-        asociacionId: user.asociacionId
+        asociacionId: user.asociacionId,
+        qrToken
       });
 
       // Usar el servicio real de validación
@@ -165,7 +186,8 @@ const ValidarBeneficioContent: React.FC = () => {
         socioId: user.uid,
         comercioId: comercioId!,
         beneficioId: beneficio.id,
-        asociacionId: user.asociacionId
+        asociacionId: user.asociacionId,
+        qrToken
       });
 
       console.log('✅ Resultado de validación:', result);
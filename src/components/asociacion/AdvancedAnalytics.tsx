@@ -38,9 +38,14 @@ import {
   Refresh,
   Insights,
   DataUsage,
+  GridOn,
 } from '@mui/icons-material';
 import { useAuth } from '@/hooks/useAuth';
 import { useSocios } from '@/hooks/useSocios';
+import { useCohortes } from '@/hooks/useCohortes';
+import { MESES_SEGUIMIENTO_COHORTES } from '@/lib/cohortes';
+import { formatMontoCuota } from '@/lib/recibo-cuota-pdf';
+import { AnalisisCohortes } from '@/types/cohortes';
 import { format, subDays, startOfMonth, endOfMonth, isAfter, isBefore } from 'date-fns';
 import { es } from 'date-fns/locale';
 
@@ -701,11 +706,201 @@ const ChartCard: React.FC<{
   );
 };
 
+const formatPeriodoCohorte = (periodo: string): string => {
+  const [year, month] = periodo.split('-').map(Number);
+  return format(new Date(year, month - 1, 1), 'MMM yyyy', { locale: es });
+};
+
+const formatRetencion = (valor: number | null | undefined): string =>
+  valor === null || valor === undefined ? '—' : `${Math.round(valor * 100)}%`;
+
+const HeatmapCell: React.FC<{ value: number | null | undefined; bold?: boolean }> = ({ value, bold = false }) => (
+  <Box
+    sx={{
+      height: 32,
+      borderRadius: 1,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontSize: '0.7rem',
+      fontWeight: bold ? 800 : 600,
+      bgcolor: value === null || value === undefined ? '#f8fafc' : alpha('#10b981', 0.08 + value * 0.85),
+      color: value !== null && value !== undefined && value > 0.55 ? '#ffffff' : '#334155',
+    }}
+  >
+    {formatRetencion(value)}
+  </Box>
+);
+
+// Retención por cohortes como mapa de calor y valor de vida por plan
+const CohortHeatmap: React.FC<{
+  analisis: AnalisisCohortes | null;
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+}> = ({ analisis, loading, error, onRefresh }) => {
+  const meses = Array.from({ length: MESES_SEGUIMIENTO_COHORTES + 1 }, (_, mes) => mes);
+  const columnas = `96px 56px 96px repeat(${meses.length}, minmax(44px, 1fr))`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.2 }}
+    >
+      <Paper elevation={0} sx={{ border: '1px solid #e2e8f0', borderRadius: 3, p: 3, background: '#ffffff' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Avatar sx={{ bgcolor: alpha('#14b8a6', 0.1), color: '#14b8a6', borderRadius: 2 }}>
+              <GridOn />
+            </Avatar>
+            <Box>
+              <Typography variant="h6" sx={{ fontWeight: 700, color: '#1e293b' }}>
+                Retención por Cohortes
+              </Typography>
+              <Typography variant="body2" sx={{ color: '#64748b' }}>
+                Socios de cada mes de ingreso que pagaron la cuota en los meses siguientes
+              </Typography>
+            </Box>
+          </Box>
+          <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+            {analisis && (
+              <>
+                <Chip
+                  size="small"
+                  label={`Permanencia promedio: ${analisis.permanenciaPromedioMeses.toFixed(1)} meses`}
+                  sx={{ fontWeight: 600, bgcolor: alpha('#14b8a6', 0.1), color: '#0f766e' }}
+                />
+                <Chip
+                  size="small"
+                  label={`Ingresos registrados: ${formatMontoCuota(analisis.ingresosTotales)}`}
+                  sx={{ fontWeight: 600, bgcolor: alpha('#6366f1', 0.1), color: '#4f46e5' }}
+                />
+              </>
+            )}
+            <IconButton size="small" onClick={onRefresh} disabled={loading}>
+              <Refresh sx={{ fontSize: 18 }} />
+            </IconButton>
+          </Stack>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {loading && !analisis ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress size={28} />
+          </Box>
+        ) : analisis && analisis.cohortes.length > 0 ? (
+          <>
+            {!analisis.primerPeriodoConCuotas && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                Todavía no hay cuotas generadas. La retención se mide con el pago de las cuotas mensuales.
+              </Alert>
+            )}
+
+            <Box sx={{ overflowX: 'auto', pb: 1 }}>
+              <Box sx={{ display: 'grid', gridTemplateColumns: columnas, gap: 0.5, minWidth: 880 }}>
+                <Typography variant="caption" sx={{ fontWeight: 700, color: '#64748b' }}>Cohorte</Typography>
+                <Typography variant="caption" sx={{ fontWeight: 700, color: '#64748b', textAlign: 'right', pr: 1 }}>Socios</Typography>
+                <Typography variant="caption" sx={{ fontWeight: 700, color: '#64748b', textAlign: 'right', pr: 1 }}>Ingresos</Typography>
+                {meses.map(mes => (
+                  <Typography key={mes} variant="caption" sx={{ fontWeight: 700, color: '#64748b', textAlign: 'center' }}>
+                    M{mes}
+                  </Typography>
+                ))}
+
+                {analisis.cohortes.map(cohorte => (
+                  <React.Fragment key={cohorte.periodo}>
+                    <Typography variant="body2" sx={{ fontWeight: 600, color: '#1e293b', alignSelf: 'center', textTransform: 'capitalize' }}>
+                      {formatPeriodoCohorte(cohorte.periodo)}
+                    </Typography>
+                    <Typography variant="body2" sx={{ color: '#475569', alignSelf: 'center', textAlign: 'right', pr: 1 }}>
+                      {cohorte.socios}
+                    </Typography>
+                    <Typography variant="body2" sx={{ color: '#475569', alignSelf: 'center', textAlign: 'right', pr: 1, fontSize: '0.75rem' }}>
+                      {formatMontoCuota(cohorte.ingresos)}
+                    </Typography>
+                    {meses.map(mes => (
+                      mes < cohorte.retencion.length
+                        ? <HeatmapCell key={mes} value={cohorte.retencion[mes]} />
+                        : <Box key={mes} />
+                    ))}
+                  </React.Fragment>
+                ))}
+
+                <Typography variant="body2" sx={{ fontWeight: 800, color: '#1e293b', alignSelf: 'center' }}>
+                  Promedio
+                </Typography>
+                <Typography variant="body2" sx={{ fontWeight: 700, color: '#475569', alignSelf: 'center', textAlign: 'right', pr: 1 }}>
+                  {analisis.sociosAnalizados}
+                </Typography>
+                <Box />
+                {meses.map(mes => (
+                  mes < analisis.curvaPromedio.length
+                    ? <HeatmapCell key={mes} value={analisis.curvaPromedio[mes]} bold />
+                    : <Box key={mes} />
+                ))}
+              </Box>
+            </Box>
+            <Typography variant="caption" sx={{ color: '#94a3b8', display: 'block', mt: 1 }}>
+              M0 es el mes de ingreso. El mes en curso no se cuenta y — indica meses sin cuotas generadas.
+            </Typography>
+
+            <Divider sx={{ my: 3 }} />
+
+            <Typography variant="subtitle1" sx={{ fontWeight: 700, color: '#1e293b', mb: 0.5 }}>
+              Valor de vida por plan
+            </Typography>
+            <Typography variant="body2" sx={{ color: '#64748b', mb: 2 }}>
+              El LTV proyectado es el ingreso mensual por socio dividido por la tasa mensual de bajas del plan
+            </Typography>
+            <Box sx={{ overflowX: 'auto' }}>
+              <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(110px, 1fr))', gap: 1, minWidth: 780 }}>
+                {['Cuota', 'Socios', 'Activos', 'Ingreso mensual', 'Baja mensual', 'LTV proyectado', 'LTV observado'].map(titulo => (
+                  <Typography key={titulo} variant="caption" sx={{ fontWeight: 700, color: '#64748b' }}>
+                    {titulo}
+                  </Typography>
+                ))}
+                {analisis.ltvPorPlan.map(plan => (
+                  <React.Fragment key={plan.montoCuota}>
+                    <Typography variant="body2" sx={{ fontWeight: 600, color: '#1e293b' }}>
+                      {plan.montoCuota > 0 ? formatMontoCuota(plan.montoCuota) : 'Sin cuota'}
+                    </Typography>
+                    <Typography variant="body2" sx={{ color: '#475569' }}>{plan.socios}</Typography>
+                    <Typography variant="body2" sx={{ color: '#475569' }}>{plan.activos}</Typography>
+                    <Typography variant="body2" sx={{ color: '#475569' }}>{formatMontoCuota(plan.ingresoMensualPorSocio)}</Typography>
+                    <Typography variant="body2" sx={{ color: '#475569' }}>
+                      {plan.bajaMensual === null ? 'Sin bajas' : `${(plan.bajaMensual * 100).toFixed(1)}%`}
+                    </Typography>
+                    <Typography variant="body2" sx={{ fontWeight: 700, color: plan.ltv === null ? '#94a3b8' : '#0f766e' }}>
+                      {plan.ltv === null ? '—' : formatMontoCuota(plan.ltv)}
+                    </Typography>
+                    <Typography variant="body2" sx={{ color: '#475569' }}>{formatMontoCuota(plan.ltvObservado)}</Typography>
+                  </React.Fragment>
+                ))}
+              </Box>
+            </Box>
+          </>
+        ) : (
+          <Typography variant="body2" sx={{ color: '#64748b', textAlign: 'center', py: 4 }}>
+            No hay socios con fecha de ingreso para armar cohortes.
+          </Typography>
+        )}
+      </Paper>
+    </motion.div>
+  );
+};
+
 export const AdvancedAnalytics: React.FC<AdvancedAnalyticsProps> = ({
   loading: propLoading = false
 }) => {
   const { user } = useAuth();
   const { stats, socios } = useSocios();
+  const cohortes = useCohortes();
   
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData>({
     totalMembers: 0,
@@ -1318,6 +1513,14 @@ export const AdvancedAnalytics: React.FC<AdvancedAnalyticsProps> = ({
           />
         </Box>
 
+        {/* Fourth Row - Cohort Retention */}
+        <CohortHeatmap
+          analisis={cohortes.analisis}
+          loading={cohortes.loading}
+          error={cohortes.error}
+          onRefresh={cohortes.recalcular}
+        />
+
         {/* Summary Section */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -21,6 +21,8 @@ import {
   TextField,
   Switch,
   FormControlLabel,
+  FormGroup,
+  Checkbox,
   Tooltip,
   CircularProgress,
   LinearProgress,
@@ -61,7 +63,8 @@ import {
   Save,
 } from '@mui/icons-material';
 import { useBackup } from '@/hooks/useBackup';
-import { BackupMetadata, BackupConfig, RestoreOptions, BackupFilterType, BackupSortField, BackupSortOrder } from '@/types/backup';
+import { BACKUP_COLLECTION_LABELS } from '@/lib/backup';
+import { BackupMetadata, BackupCollection, BackupConfig, BackupSchedule, RestoreOptions, BackupFilterType, BackupSortField, BackupSortOrder } from '@/types/backup';
 import { formatDistanceToNow } from 'date-fns';
 import { es } from 'date-fns/locale';
 import toast from 'react-hot-toast';
@@ -98,6 +101,7 @@ interface RestoreDialogProps {
 interface BackupConfigDialogProps {
   open: boolean;
   config: BackupConfig;
+  schedule: BackupSchedule | null;
   onClose: () => void;
   onSave: (config: Partial<BackupConfig>) => void;
   loading: boolean;
@@ -514,22 +518,36 @@ const RestoreDialog: React.FC<RestoreDialogProps> = ({
   onConfirm,
   loading
 }) => {
-  const [restoreType, setRestoreType] = useState<'full' | 'socios_only' | 'settings_only'>('full');
+  const [restoreType, setRestoreType] = useState<RestoreOptions['restoreType']>('full');
+  const [selectedFields, setSelectedFields] = useState<BackupCollection[]>([]);
   const [overwriteExisting, setOverwriteExisting] = useState(false);
   const [createBackupBefore, setCreateBackupBefore] = useState(true);
 
+  const availableCollections = useMemo(() => backup?.collections || [], [backup]);
+
+  // Al abrir el diálogo se proponen todos los conjuntos del respaldo
+  useEffect(() => {
+    setRestoreType('full');
+    setSelectedFields(availableCollections);
+  }, [availableCollections]);
+
+  const toggleField = useCallback((field: BackupCollection, checked: boolean) => {
+    setSelectedFields(prev => checked ? [...prev, field] : prev.filter(f => f !== field));
+  }, []);
+
   const handleSubmit = useCallback(() => {
     if (backup) {
       const options: RestoreOptions = {
         backupId: backup.id,
         restoreType,
+        ...(restoreType === 'selective' ? { selectedFields } : {}),
         overwriteExisting,
         createBackupBeforeRestore: createBackupBefore,
         validateData: true
       };
       onConfirm(options);
     }
-  }, [backup, restoreType, overwriteExisting, createBackupBefore, onConfirm]);
+  }, [backup, restoreType, selectedFields, overwriteExisting, createBackupBefore, onConfirm]);
 
   return (
     <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
@@ -555,15 +573,44 @@ const RestoreDialog: React.FC<RestoreDialogProps> = ({
             <InputLabel>Tipo de restauración</InputLabel>
             <Select
               value={restoreType}
-              onChange={(e) => setRestoreType(e.target.value as 'full' | 'socios_only' | 'settings_only')}
+              onChange={(e) => setRestoreType(e.target.value as RestoreOptions['restoreType'])}
               label="Tipo de restauración"
             >
               <MenuItem value="full">Restauración completa</MenuItem>
-              <MenuItem value="socios_only">Solo socios</MenuItem>
-              <MenuItem value="settings_only">Solo configuración</MenuItem>
+              <MenuItem value="socios_only" disabled={!availableCollections.includes('socios')}>Solo socios</MenuItem>
+              <MenuItem value="settings_only" disabled={!availableCollections.includes('settings')}>Solo configuración</MenuItem>
+              <MenuItem value="selective">Elegir qué restaurar</MenuItem>
             </Select>
           </FormControl>
 
+          {restoreType === 'selective' && (
+            <Box>
+              <Typography variant="subtitle2" sx={{ fontWeight: 600, mb: 1 }}>
+                Datos a restaurar
+              </Typography>
+              <FormGroup row>
+                {availableCollections.map(field => (
+                  <FormControlLabel
+                    key={field}
+                    control={
+                      <Checkbox
+                        checked={selectedFields.includes(field)}
+                        onChange={(e) => toggleField(field, e.target.checked)}
+                      />
+                    }
+                    label={`${BACKUP_COLLECTION_LABELS[field]} (${backup?.recordCounts?.[field]?.toLocaleString() ?? 0})`}
+                  />
+                ))}
+              </FormGroup>
+            </Box>
+          )}
+
+          {availableCollections.length === 0 && (
+            <Alert severity="info">
+              Este respaldo se creó con una versión anterior y no tiene datos restaurables.
+            </Alert>
+          )}
+
           <Stack spacing={2}>
             <FormControlLabel
               control={
@@ -583,11 +630,16 @@ const RestoreDialog: React.FC<RestoreDialogProps> = ({
               }
               label="Sobrescribir datos existentes"
             />
+            {overwriteExisting && (
+              <Typography variant="caption" color="text.secondary">
+                Comercios, beneficios y validaciones también son de los comercios: solo se restauran los que falten, sin pisar los actuales.
+              </Typography>
+            )}
           </Stack>
 
           <Alert severity="warning">
             <Typography variant="body2">
-              Esta acción modificará tus datos actuales. Se recomienda crear un respaldo antes de continuar.
+              Esta acción modificará tus datos actuales. Antes de escribir se verifica la integridad del respaldo; los datos que no estén en el respaldo no se eliminan.
             </Typography>
           </Alert>
         </Stack>
@@ -600,7 +652,7 @@ const RestoreDialog: React.FC<RestoreDialogProps> = ({
         <Button
           onClick={handleSubmit}
           variant="contained"
-          disabled={loading}
+          disabled={loading || availableCollections.length === 0 || (restoreType === 'selective' && selectedFields.length === 0)}
           startIcon={loading ? <CircularProgress size={20} /> : <Restore />}
           sx={{
             bgcolor: '#f59e0b',
@@ -620,6 +672,7 @@ export const BackupManagementSection: React.FC<BackupManagementSectionProps> = (
   const {
     backups,
     config,
+    schedule,
     loading,
     progress,
     error,
@@ -708,7 +761,7 @@ export const BackupManagementSection: React.FC<BackupManagementSectionProps> = (
   }, [backups, filter, searchTerm, sortField, sortOrder]);
 
   const handleCreateBackup = useCallback(async (name: string, description?: string) => {
-    const result = await createBackup(name, description, 'manual');
+    const result = await createBackup(name, description);
     if (result) {
       setCreateDialogOpen(false);
     }
@@ -1245,6 +1298,7 @@ export const BackupManagementSection: React.FC<BackupManagementSectionProps> = (
       <BackupConfigDialog
         open={configDialogOpen}
         config={config}
+        schedule={schedule}
         onClose={() => setConfigDialogOpen(false)}
         onSave={async (newConfig) => {
           const success = await updateConfig(newConfig);
@@ -1302,6 +1356,7 @@ export const BackupManagementSection: React.FC<BackupManagementSectionProps> = (
 const BackupConfigDialog: React.FC<BackupConfigDialogProps> = ({
   open,
   config,
+  schedule,
   onClose,
   onSave,
   loading
@@ -1402,6 +1457,20 @@ const BackupConfigDialog: React.FC<BackupConfigDialogProps> = ({
                       fullWidth
                       inputProps={{ min: 1, max: 100 }}
                     />
+
+                    {config.autoBackupEnabled && schedule && (
+                      <Alert severity={schedule.lastStatus === 'failed' ? 'error' : 'info'}>
+                        <Typography variant="body2">
+                          Próximo respaldo: {schedule.nextRun.toDate().toLocaleString('es-AR', { dateStyle: 'medium', timeStyle: 'short' })}
+                        </Typography>
+                        {schedule.lastRun && (
+                          <Typography variant="body2">
+                            Último: {formatDistanceToNow(schedule.lastRun.toDate(), { addSuffix: true, locale: es })}
+                            {schedule.lastStatus === 'failed' && ` — falló: ${schedule.lastError || 'error desconocido'}`}
+                          </Typography>
+                        )}
+                      </Alert>
+                    )}
                   </>
                 )}
               </Stack>
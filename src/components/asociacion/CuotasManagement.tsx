@@ -0,0 +1,384 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import {
+  Wallet,
+  AlertTriangle,
+  CalendarPlus,
+  CheckCircle,
+  Download,
+  Receipt,
+  Search,
+  X,
+  DollarSign,
+} from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/hooks/useAuth';
+import { useSocios } from '@/hooks/useSocios';
+import { useCuotas } from '@/hooks/useCuotas';
+import { cuotasService } from '@/services/cuotas.service';
+import { derivarEstadoMembresia, getPeriodo, MEDIOS_PAGO_CUOTA_LABELS } from '@/lib/cuotas';
+import { formatMontoCuota } from '@/lib/recibo-cuota-pdf';
+import { MedioPagoCuota, EstadoCuota } from '@/types/cuotas';
+import { Socio } from '@/types/socio';
+
+const ESTADO_CUOTA_STYLES: Record<EstadoCuota, { label: string; className: string }> = {
+  pendiente: { label: 'Pendiente', className: 'bg-amber-100 text-amber-800' },
+  parcial: { label: 'Pago parcial', className: 'bg-blue-100 text-blue-800' },
+  pagada: { label: 'Pagada', className: 'bg-emerald-100 text-emerald-800' },
+};
+
+const ESTADO_MEMBRESIA_STYLES = {
+  al_dia: { label: 'Al día', className: 'bg-emerald-100 text-emerald-800' },
+  vencido: { label: 'Vencido', className: 'bg-red-100 text-red-800' },
+  pendiente: { label: 'Sin cuotas', className: 'bg-gray-100 text-gray-700' },
+};
+
+/**
+ * Estado de cuenta de un socio con el registro de pagos
+ */
+const EstadoCuentaSocio: React.FC<{ socio: Socio; onClose: () => void; onPagoRegistrado: () => void }> = ({
+  socio,
+  onClose,
+  onPagoRegistrado,
+}) => {
+  const { cuotas, pagos, loading, registrando, registrarPago, descargarRecibo } = useCuotas(socio.id);
+  const [monto, setMonto] = useState('');
+  const [medioPago, setMedioPago] = useState<MedioPagoCuota>('efectivo');
+  const [nota, setNota] = useState('');
+
+  const deuda = socio.cuentaCuotas?.deuda ?? 0;
+
+  const handleRegistrar = async () => {
+    const valor = Number(monto.replace(',', '.'));
+    if (!(valor > 0)) {
+      toast.error('Ingresa un monto mayor a 0');
+      return;
+    }
+
+    const pago = await registrarPago(valor, { medioPago, nota });
+    if (pago) {
+      setMonto('');
+      setNota('');
+      onPagoRegistrado();
+      await descargarRecibo(pago);
+    }
+  };
+
+  return (
+    <motion.div
+      className="bg-white/80 backdrop-blur-xl rounded-2xl border border-white/20 shadow-lg p-6 space-y-6"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+    >
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">{socio.nombre}</h3>
+          <p className="text-sm text-gray-500">
+            Cuota mensual {formatMontoCuota(socio.montoCuota || 0)}
+            {socio.cuentaCuotas?.credito ? ` · Crédito a favor ${formatMontoCuota(socio.cuentaCuotas.credito)}` : ''}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" aria-label="Cerrar">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Registrar pago */}
+      <div className="bg-gray-50 rounded-xl p-4 space-y-3">
+        <p className="text-sm font-semibold text-gray-700">Registrar pago</p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={monto}
+            onChange={(e) => setMonto(e.target.value)}
+            placeholder={deuda > 0 ? `Deuda ${formatMontoCuota(deuda)}` : 'Monto'}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+          />
+          <select
+            value={medioPago}
+            onChange={(e) => setMedioPago(e.target.value as MedioPagoCuota)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+          >
+            {Object.entries(MEDIOS_PAGO_CUOTA_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={nota}
+            onChange={(e) => setNota(e.target.value)}
+            placeholder="Nota (opcional)"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {deuda > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setMonto(String(deuda))}>
+              Saldar deuda
+            </Button>
+          )}
+          <Button size="sm" leftIcon={<DollarSign size={14} />} loading={registrando} onClick={handleRegistrar}>
+            Registrar y emitir recibo
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          El pago se imputa a las cuotas más viejas primero. Lo que sobra queda como crédito para las próximas.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Cuotas */}
+        <div>
+          <p className="text-sm font-semibold text-gray-700 mb-2">Cuotas</p>
+          {!loading && cuotas.length === 0 ? (
+            <p className="text-sm text-gray-500">Todavía no se generaron cuotas para este socio</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {cuotas.map(cuota => (
+                <li key={cuota.id} className="flex items-center justify-between py-2 gap-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{cuota.periodo}</p>
+                    <p className="text-xs text-gray-500">
+                      Vence {cuota.fechaVencimiento.toDate().toLocaleDateString('es-AR')}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-semibold text-gray-900">
+                      {formatMontoCuota(cuota.montoPagado)} / {formatMontoCuota(cuota.monto)}
+                    </p>
+                    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${ESTADO_CUOTA_STYLES[cuota.estado].className}`}>
+                      {ESTADO_CUOTA_STYLES[cuota.estado].label}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Pagos */}
+        <div>
+          <p className="text-sm font-semibold text-gray-700 mb-2">Pagos</p>
+          {!loading && pagos.length === 0 ? (
+            <p className="text-sm text-gray-500">Sin pagos registrados</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {pagos.map(pago => (
+                <li key={pago.id} className="flex items-center justify-between py-2 gap-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      Recibo N° {String(pago.numeroRecibo).padStart(6, '0')}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {pago.fecha.toDate().toLocaleDateString('es-AR')} · {MEDIOS_PAGO_CUOTA_LABELS[pago.medioPago]}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-emerald-700">{formatMontoCuota(pago.monto)}</span>
+                    <button
+                      onClick={() => descargarRecibo(pago)}
+                      className="p-1.5 text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg"
+                      aria-label="Descargar recibo"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+/**
+ * Cuotas de la asociación: generación mensual, deuda por socio y cobros
+ */
+export const CuotasManagement: React.FC = () => {
+  const { user } = useAuth();
+  const { socios, loading, loadSocios } = useSocios();
+  const [busqueda, setBusqueda] = useState('');
+  const [soloDeudores, setSoloDeudores] = useState(false);
+  const [socioSeleccionado, setSocioSeleccionado] = useState<string | null>(null);
+  const [generando, setGenerando] = useState(false);
+
+  const periodoActual = getPeriodo();
+
+  const sociosConCuota = useMemo(() => socios
+    .filter(socio => socio.estado === 'activo' && (socio.montoCuota || 0) > 0)
+    .filter(socio => !soloDeudores || (socio.cuentaCuotas?.deuda ?? 0) > 0)
+    .filter(socio => {
+      const termino = busqueda.trim().toLowerCase();
+      return !termino
+        || socio.nombre?.toLowerCase().includes(termino)
+        || socio.dni?.includes(termino)
+        || socio.numeroSocio?.toLowerCase().includes(termino);
+    })
+    .sort((a, b) => (b.cuentaCuotas?.deudaVencida ?? 0) - (a.cuentaCuotas?.deudaVencida ?? 0)),
+  [socios, busqueda, soloDeudores]);
+
+  const totales = useMemo(() => socios.reduce(
+    (acc, socio) => ({
+      deuda: acc.deuda + (socio.cuentaCuotas?.deuda ?? 0),
+      deudaVencida: acc.deudaVencida + (socio.cuentaCuotas?.deudaVencida ?? 0),
+      morosos: acc.morosos + ((socio.cuentaCuotas?.deudaVencida ?? 0) > 0 ? 1 : 0),
+    }),
+    { deuda: 0, deudaVencida: 0, morosos: 0 }
+  ), [socios]);
+
+  const seleccionado = socios.find(socio => socio.id === socioSeleccionado) ?? null;
+
+  const handleGenerar = async () => {
+    if (!user?.uid) return;
+
+    setGenerando(true);
+    const generadas = await cuotasService.generarCuotasPeriodo(user.uid, periodoActual);
+    setGenerando(false);
+
+    toast.success(generadas > 0
+      ? `Se generaron ${generadas} cuotas para ${periodoActual}`
+      : `Las cuotas de ${periodoActual} ya estaban generadas`);
+    await loadSocios();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Resumen */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="bg-gradient-to-br from-emerald-50 to-green-100 rounded-2xl p-6 border border-emerald-200/50 shadow-lg">
+          <p className="text-sm font-semibold text-emerald-600">Deuda total</p>
+          <p className="text-3xl font-black text-emerald-700">{formatMontoCuota(totales.deuda)}</p>
+        </div>
+        <div className="bg-gradient-to-br from-red-50 to-rose-100 rounded-2xl p-6 border border-red-200/50 shadow-lg">
+          <p className="text-sm font-semibold text-red-600">Deuda vencida</p>
+          <p className="text-3xl font-black text-red-700">{formatMontoCuota(totales.deudaVencida)}</p>
+        </div>
+        <div className="bg-gradient-to-br from-amber-50 to-orange-100 rounded-2xl p-6 border border-amber-200/50 shadow-lg">
+          <p className="text-sm font-semibold text-amber-600">Socios morosos</p>
+          <p className="text-3xl font-black text-amber-700">{totales.morosos}</p>
+        </div>
+      </div>
+
+      {/* Acciones */}
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center justify-between">
+        <div className="flex flex-1 gap-3 items-center">
+          <div className="relative flex-1 max-w-md">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={busqueda}
+              onChange={(e) => setBusqueda(e.target.value)}
+              placeholder="Buscar por nombre, DNI o número de socio"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={soloDeudores}
+              onChange={(e) => setSoloDeudores(e.target.checked)}
+              className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+            />
+            Solo con deuda
+          </label>
+        </div>
+        <Button leftIcon={<CalendarPlus size={16} />} loading={generando} onClick={handleGenerar}>
+          Generar cuotas de {periodoActual}
+        </Button>
+      </div>
+
+      <AnimatePresence>
+        {seleccionado && (
+          <EstadoCuentaSocio
+            key={seleccionado.id}
+            socio={seleccionado}
+            onClose={() => setSocioSeleccionado(null)}
+            onPagoRegistrado={loadSocios}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Socios */}
+      <div className="bg-white/80 backdrop-blur-xl rounded-2xl border border-white/20 shadow-lg p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Wallet className="w-5 h-5 text-emerald-600" />
+          <h3 className="text-lg font-bold text-gray-900">Cuenta de cuotas por socio</h3>
+        </div>
+
+        {!loading && sociosConCuota.length === 0 ? (
+          <div className="text-center py-10">
+            <Receipt className="w-10 h-10 text-emerald-300 mx-auto mb-2" />
+            <p className="text-sm text-gray-500">No hay socios activos con cuota para mostrar</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-100">
+                  <th className="py-2 pr-4 font-medium">Socio</th>
+                  <th className="py-2 pr-4 font-medium">Cuota</th>
+                  <th className="py-2 pr-4 font-medium">Deuda</th>
+                  <th className="py-2 pr-4 font-medium">Vencida</th>
+                  <th className="py-2 pr-4 font-medium">Estado</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {sociosConCuota.map(socio => {
+                  const estado = ESTADO_MEMBRESIA_STYLES[derivarEstadoMembresia(socio)];
+                  const vencidas = socio.cuentaCuotas?.cuotasVencidas ?? 0;
+
+                  return (
+                    <tr key={socio.id} className={socioSeleccionado === socio.id ? 'bg-emerald-50/50' : ''}>
+                      <td className="py-3 pr-4">
+                        <p className="font-medium text-gray-900">{socio.nombre}</p>
+                        {socio.numeroSocio && <p className="text-xs text-gray-500">N° {socio.numeroSocio}</p>}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">{formatMontoCuota(socio.montoCuota || 0)}</td>
+                      <td className="py-3 pr-4 font-semibold text-gray-900">
+                        {formatMontoCuota(socio.cuentaCuotas?.deuda ?? 0)}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {vencidas > 0 ? (
+                          <span className="flex items-center gap-1 text-red-600 font-semibold">
+                            <AlertTriangle className="w-4 h-4" />
+                            {formatMontoCuota(socio.cuentaCuotas?.deudaVencida ?? 0)} ({vencidas})
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-emerald-600">
+                            <CheckCircle className="w-4 h-4" />
+                            Sin atraso
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-medium ${estado.className}`}>
+                          {estado.label}
+                        </span>
+                      </td>
+                      <td className="py-3 text-right">
+                        <Button variant="outline" size="sm" onClick={() => setSocioSeleccionado(socio.id)}>
+                          Ver cuenta
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CuotasManagement;
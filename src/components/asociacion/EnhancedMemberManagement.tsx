@@ -23,7 +23,8 @@ import {
   SlidersHorizontal,
   X,
   CheckSquare,
-  Square
+  Square,
+  Users
 } from 'lucide-react';
 import { useSocios } from '@/hooks/useSocios';
 import { useSocioAsociacion } from '@/hooks/useSocioAsociacion';
@@ -33,6 +34,8 @@ import { DeleteConfirmDialog } from './DeleteConfirmDialog';
 import { UnlinkConfirmDialog } from './UnlinkConfirmDialog';
 import { EnhancedCsvImport } from './EnhancedCsvImport';
 import { BulkEditDialog, BulkUpdateData } from './BulkEditDialog';
+import { GrupoFamiliarDialog } from './GrupoFamiliarDialog';
+import { PARENTESCO_LABELS } from '@/lib/grupo-familiar';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { Timestamp } from 'firebase/firestore';
@@ -47,6 +50,28 @@ interface EnhancedMemberManagementProps {
   onNewSocioTriggered?: () => void;
 }
 
+// Titular con dependientes o dependiente de un grupo familiar
+const GrupoFamiliarBadge = ({ socio }: { socio: Socio }) => {
+  if (socio.titularId) {
+    return (
+      <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-teal-50 text-teal-700">
+        <Users className="w-3 h-3" />
+        Dependiente{socio.parentesco ? ` · ${PARENTESCO_LABELS[socio.parentesco]}` : ''}
+      </span>
+    );
+  }
+
+  const cantidad = socio.dependientesIds?.length ?? 0;
+  if (cantidad === 0) return null;
+
+  return (
+    <span className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-50 text-emerald-700">
+      <Users className="w-3 h-3" />
+      Titular · {cantidad} {cantidad === 1 ? 'dependiente' : 'dependientes'}
+    </span>
+  );
+};
+
 export const EnhancedMemberManagement = ({ 
   triggerNewSocio = false, 
   onNewSocioTriggered 
@@ -92,6 +117,9 @@ export const EnhancedMemberManagement = ({
   const [socioToUnlink, setSocioToUnlink] = useState<Socio | null>(null);
   const [unlinking, setUnlinking] = useState(false);
 
+  // Grupo familiar del socio seleccionado
+  const [grupoFamiliarSocio, setGrupoFamiliarSocio] = useState<Socio | null>(null);
+
   // Estados para importación/exportación
   const [exporting, setExporting] = useState(false);
   const [importing] = useState(false);
@@ -925,6 +953,7 @@ export const EnhancedMemberManagement = ({
                         {socio.numeroSocio && (
                           <p className="text-xs text-slate-500 mt-1">#{socio.numeroSocio}</p>
                         )}
+                        <GrupoFamiliarBadge socio={socio} />
                       </div>
 
                       {/* Quick Info */}
@@ -961,6 +990,15 @@ export const EnhancedMemberManagement = ({
                           <Edit3 className="w-3 h-3" />
                           Editar
                         </motion.button>
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={() => setGrupoFamiliarSocio(socio)}
+                          className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg transition-all duration-200"
+                          title="Grupo familiar"
+                        >
+                          <Users className="w-3 h-3" />
+                        </motion.button>
                         <motion.button
                           whileHover={{ scale: 1.05 }}
                           whileTap={{ scale: 0.95 }}
@@ -1122,6 +1160,7 @@ export const EnhancedMemberManagement = ({
                                 {socio.telefono}
                               </div>
                             )}
+                            <GrupoFamiliarBadge socio={socio} />
                           </div>
                         </div>
                       </td>
@@ -1181,6 +1220,15 @@ export const EnhancedMemberManagement = ({
                             <span className="hidden sm:inline">Editar</span>
                           </motion.button>
                           <div className="flex items-center gap-1">
+                            <motion.button
+                              whileHover={{ scale: 1.05 }}
+                              whileTap={{ scale: 0.95 }}
+                              onClick={() => setGrupoFamiliarSocio(socio)}
+                              className="p-2 text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50 rounded-xl transition-all duration-200 border border-transparent hover:border-emerald-200"
+                              title="Grupo familiar"
+                            >
+                              <Users className="w-4 h-4" />
+                            </motion.button>
                             <motion.button
                               whileHover={{ scale: 1.05 }}
                               whileTap={{ scale: 0.95 }}
@@ -1269,6 +1317,16 @@ Esta acción:
           />
         )}
 
+        {/* Grupo Familiar Dialog */}
+        {grupoFamiliarSocio && (
+          <GrupoFamiliarDialog
+            open={!!grupoFamiliarSocio}
+            onClose={() => setGrupoFamiliarSocio(null)}
+            socio={grupoFamiliarSocio}
+            onChange={() => forceReload()}
+          />
+        )}
+
         {/* Bulk Edit Dialog */}
         {bulkEditOpen && (
           <BulkEditDialog
@@ -0,0 +1,178 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { Award, Save, RotateCcw, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/hooks/useAuth';
+import { fidelizacionService } from '@/services/fidelizacion.service';
+import { DEFAULT_CONFIGURACION_FIDELIZACION } from '@/lib/loyalty-points';
+import { ConfiguracionFidelizacion, NivelFidelizacion } from '@/types/fidelizacion';
+
+const NIVEL_GRADIENTS: Record<NivelFidelizacion['nivel'], string> = {
+  Bronze: 'from-amber-600 to-orange-600',
+  Silver: 'from-gray-400 to-gray-500',
+  Gold: 'from-yellow-400 to-yellow-500',
+  Platinum: 'from-slate-500 to-slate-700',
+  Diamond: 'from-cyan-400 to-blue-600',
+};
+
+const REGLAS: Array<{ key: keyof Omit<ConfiguracionFidelizacion, 'niveles' | 'actualizadoEn'>; label: string; help: string }> = [
+  { key: 'puntosPorValidacion', label: 'Puntos por beneficio usado', help: 'Se acreditan en cada validación exitosa' },
+  { key: 'puntosPorMesPagado', label: 'Puntos por cuota pagada', help: 'Por cada mes abonado' },
+  { key: 'rachaMeses', label: 'Meses de racha', help: 'Meses consecutivos usando beneficios para el bono' },
+  { key: 'puntosPorRacha', label: 'Bono por racha', help: 'Puntos extra al completar la racha' },
+  { key: 'ventanaMeses', label: 'Ventana de evaluación (meses)', help: 'Los puntos más viejos dejan de contar para el nivel' },
+];
+
+/**
+ * Configuración de puntos y niveles de fidelización de la asociación
+ */
+export const FidelizacionConfig: React.FC = () => {
+  const { user } = useAuth();
+  const [config, setConfig] = useState<ConfiguracionFidelizacion>(DEFAULT_CONFIGURACION_FIDELIZACION);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+
+    fidelizacionService.getConfiguracion(user.uid)
+      .then(setConfig)
+      .finally(() => setLoading(false));
+  }, [user?.uid]);
+
+  const updateRegla = (key: typeof REGLAS[number]['key'], value: string) => {
+    setConfig(prev => ({ ...prev, [key]: Math.max(0, Number(value) || 0) }));
+  };
+
+  const updateNivel = (index: number, field: 'puntosMinimos' | 'descuentoAdicional', value: string) => {
+    setConfig(prev => ({
+      ...prev,
+      niveles: prev.niveles.map((nivel, i) =>
+        i === index ? { ...nivel, [field]: Math.max(0, Number(value) || 0) } : nivel
+      ),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!user?.uid) return;
+
+    const umbrales = config.niveles.map(nivel => nivel.puntosMinimos);
+    if (umbrales.some((umbral, i) => i > 0 && umbral <= umbrales[i - 1])) {
+      toast.error('Cada nivel debe requerir más puntos que el anterior');
+      return;
+    }
+
+    setSaving(true);
+    const saved = await fidelizacionService.guardarConfiguracion(user.uid, config);
+    setSaving(false);
+
+    if (saved) {
+      toast.success('Configuración de fidelización guardada. Los niveles se recalculan cada noche.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[300px]">
+        <div className="w-10 h-10 border-4 border-amber-200 border-t-amber-500 rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/50 p-6"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <Sparkles className="w-6 h-6 text-amber-500" />
+          <h3 className="text-xl font-bold text-gray-900">Cómo se ganan puntos</h3>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {REGLAS.map(regla => (
+            <label key={regla.key} className="block">
+              <span className="text-sm font-semibold text-gray-700">{regla.label}</span>
+              <input
+                type="number"
+                min={0}
+                value={config[regla.key]}
+                onChange={(e) => updateRegla(regla.key, e.target.value)}
+                className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+              <span className="text-xs text-gray-500">{regla.help}</span>
+            </label>
+          ))}
+        </div>
+      </motion.div>
+
+      <motion.div
+        className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/50 p-6"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+      >
+        <div className="flex items-center gap-3 mb-6">
+          <Award className="w-6 h-6 text-amber-500" />
+          <h3 className="text-xl font-bold text-gray-900">Niveles</h3>
+        </div>
+
+        <div className="space-y-3">
+          {config.niveles.map((nivel, index) => (
+            <div key={nivel.nivel} className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-center p-4 rounded-2xl bg-gray-50 border border-gray-200">
+              <span className={`inline-flex items-center justify-center px-4 py-2 rounded-xl bg-gradient-to-r ${NIVEL_GRADIENTS[nivel.nivel]} text-white font-bold`}>
+                {nivel.nivel}
+              </span>
+              <label className="block">
+                <span className="text-xs font-semibold text-gray-600">Puntos mínimos</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={nivel.puntosMinimos}
+                  disabled={index === 0}
+                  onChange={(e) => updateNivel(index, 'puntosMinimos', e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-xl disabled:bg-gray-100 focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs font-semibold text-gray-600">Descuento adicional (%)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={nivel.descuentoAdicional}
+                  onChange={(e) => updateNivel(index, 'descuentoAdicional', e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              </label>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-500 mt-4">
+          El descuento adicional se suma a los beneficios porcentuales. Los ascensos y descensos se aplican cada noche.
+        </p>
+      </motion.div>
+
+      <div className="flex justify-end gap-3">
+        <Button
+          variant="outline"
+          leftIcon={<RotateCcw size={16} />}
+          onClick={() => setConfig(DEFAULT_CONFIGURACION_FIDELIZACION)}
+        >
+          Valores por defecto
+        </Button>
+        <Button leftIcon={<Save size={16} />} loading={saving} onClick={handleSave}>
+          Guardar
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default FidelizacionConfig;
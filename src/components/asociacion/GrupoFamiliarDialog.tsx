@@ -0,0 +1,293 @@
+'use client';
+
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  X,
+  Users,
+  UserPlus,
+  Crown,
+  QrCode,
+  KeyRound,
+  Trash2,
+  Loader2,
+  AlertCircle,
+} from 'lucide-react';
+import { useGrupoFamiliar } from '@/hooks/useGrupoFamiliar';
+import { PARENTESCO_LABELS } from '@/lib/grupo-familiar';
+import { derivarEstadoMembresia } from '@/lib/cuotas';
+import { DependienteFormData, Parentesco, Socio } from '@/types/socio';
+
+interface GrupoFamiliarDialogProps {
+  open: boolean;
+  onClose: () => void;
+  socio: Socio;
+  onChange?: () => void;
+}
+
+const ESTADO_MEMBRESIA_STYLES = {
+  al_dia: { label: 'Al día', className: 'bg-emerald-100 text-emerald-800' },
+  vencido: { label: 'Vencida', className: 'bg-red-100 text-red-800' },
+  pendiente: { label: 'Pendiente', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const FORM_INICIAL: DependienteFormData = {
+  nombre: '',
+  parentesco: 'hijo',
+  dni: '',
+  email: '',
+  password: '',
+};
+
+/**
+ * Grupo familiar de un socio: el titular, sus dependientes y el alta de nuevos
+ */
+export const GrupoFamiliarDialog: React.FC<GrupoFamiliarDialogProps> = ({
+  open,
+  onClose,
+  socio,
+  onChange,
+}) => {
+  const { titular, dependientes, loading, guardando, agregarDependiente, quitarDependiente } =
+    useGrupoFamiliar(open ? socio.id : null);
+  const [formData, setFormData] = useState<DependienteFormData>(FORM_INICIAL);
+  const [conAcceso, setConAcceso] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.nombre.trim()) return;
+
+    const agregado = await agregarDependiente({
+      ...formData,
+      email: conAcceso ? formData.email : undefined,
+      password: conAcceso ? formData.password : undefined,
+    });
+    if (agregado) {
+      setFormData(FORM_INICIAL);
+      setConAcceso(false);
+      onChange?.();
+    }
+  };
+
+  const handleQuitar = async (dependiente: Socio) => {
+    if (!window.confirm(`¿Quitar a ${dependiente.nombre} del grupo familiar? Quedará como socio inactivo.`)) return;
+    if (await quitarDependiente(dependiente.id)) {
+      onChange?.();
+    }
+  };
+
+  if (!open) return null;
+
+  const estadoGrupo = titular ? ESTADO_MEMBRESIA_STYLES[derivarEstadoMembresia(titular)] : null;
+
+  const modalContent = (
+    <AnimatePresence>
+      <div className="fixed inset-0 z-[9999] overflow-hidden">
+        {/* Backdrop */}
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.3 }}
+          className="absolute inset-0 bg-black/60 backdrop-blur-md"
+          onClick={onClose}
+        />
+
+        {/* Modal */}
+        <div className="relative w-full h-full flex items-center justify-center p-4 sm:p-6 lg:p-8">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 50 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 50 }}
+            transition={{ type: 'spring', duration: 0.6, bounce: 0.3 }}
+            className="relative w-full max-w-3xl max-h-[90vh] bg-white rounded-3xl shadow-2xl overflow-hidden"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="relative bg-gradient-to-br from-teal-600 via-emerald-600 to-green-600 px-8 py-8">
+              <div className="relative flex items-center justify-between">
+                <div className="flex items-center space-x-4">
+                  <div className="w-16 h-16 bg-white/20 backdrop-blur-sm rounded-2xl flex items-center justify-center">
+                    <Users className="w-8 h-8 text-white" />
+                  </div>
+                  <div>
+                    <h2 className="text-3xl font-bold text-white">Grupo Familiar</h2>
+                    <p className="text-emerald-100 text-lg">
+                      {titular ? `Titular: ${titular.nombre}` : 'Cargando...'}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="w-12 h-12 bg-white/20 backdrop-blur-sm rounded-xl flex items-center justify-center text-white hover:bg-white/30 transition-all duration-200 group"
+                >
+                  <X className="w-6 h-6 group-hover:rotate-90 transition-transform duration-200" />
+                </button>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="overflow-y-auto max-h-[calc(90vh-160px)] p-8 space-y-6">
+              <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 flex items-start space-x-3">
+                <AlertCircle className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+                <p className="text-sm text-blue-700">
+                  Los dependientes comparten la membresía y la cuota del titular. Cada uno tiene su
+                  propia credencial e historial de validaciones, y los límites por socio de los
+                  beneficios se cuentan por persona.
+                </p>
+              </div>
+
+              {/* Integrantes */}
+              {loading ? (
+                <div className="flex items-center justify-center py-8 text-slate-500">
+                  <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                  Cargando grupo familiar...
+                </div>
+              ) : titular && (
+                <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                  <li className="flex items-center justify-between px-4 py-3">
+                    <div className="flex items-center gap-3">
+                      <Crown className="w-5 h-5 text-amber-500" />
+                      <div>
+                        <p className="text-sm font-semibold text-slate-900">{titular.nombre}</p>
+                        <p className="text-xs text-slate-500">Titular · #{titular.numeroSocio}</p>
+                      </div>
+                    </div>
+                    {estadoGrupo && (
+                      <span className={`px-2.5 py-0.5 rounded-full text-xs font-semibold ${estadoGrupo.className}`}>
+                        {estadoGrupo.label}
+                      </span>
+                    )}
+                  </li>
+                  {dependientes.map(dependiente => (
+                    <li key={dependiente.id} className="flex items-center justify-between px-4 py-3">
+                      <div className="flex items-center gap-3">
+                        {dependiente.hasAuthAccount ? (
+                          <KeyRound className="w-5 h-5 text-indigo-500" />
+                        ) : (
+                          <QrCode className="w-5 h-5 text-slate-400" />
+                        )}
+                        <div>
+                          <p className="text-sm font-semibold text-slate-900">{dependiente.nombre}</p>
+                          <p className="text-xs text-slate-500">
+                            {dependiente.parentesco ? PARENTESCO_LABELS[dependiente.parentesco] : 'Dependiente'}
+                            {' · '}#{dependiente.numeroSocio}
+                            {' · '}{dependiente.hasAuthAccount ? 'Acceso propio' : 'Credencial del titular'}
+                          </p>
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleQuitar(dependiente)}
+                        disabled={guardando}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 disabled:opacity-50"
+                        title="Quitar del grupo"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                  {dependientes.length === 0 && (
+                    <li className="px-4 py-3 text-sm text-slate-500">Todavía no tiene dependientes</li>
+                  )}
+                </ul>
+              )}
+
+              {/* Alta de dependiente */}
+              {titular && !titular.titularId && (
+                <form onSubmit={handleSubmit} className="border border-slate-200 rounded-xl p-4 space-y-4">
+                  <h3 className="text-sm font-semibold text-slate-900 flex items-center gap-2">
+                    <UserPlus className="w-4 h-4 text-emerald-600" />
+                    Agregar dependiente
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <input
+                      type="text"
+                      required
+                      value={formData.nombre}
+                      onChange={(e) => setFormData(prev => ({ ...prev, nombre: e.target.value }))}
+                      placeholder="Nombre completo"
+                      className="w-full px-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                    />
+                    <select
+                      value={formData.parentesco}
+                      onChange={(e) => setFormData(prev => ({ ...prev, parentesco: e.target.value as Parentesco }))}
+                      className="w-full px-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                    >
+                      {Object.entries(PARENTESCO_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={formData.dni}
+                      onChange={(e) => setFormData(prev => ({ ...prev, dni: e.target.value }))}
+                      placeholder="DNI (opcional)"
+                      className="w-full px-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                    />
+                    <input
+                      type="date"
+                      value={formData.fechaNacimiento ? formData.fechaNacimiento.toISOString().split('T')[0] : ''}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        fechaNacimiento: e.target.value ? new Date(e.target.value) : undefined,
+                      }))}
+                      className="w-full px-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                    />
+                  </div>
+
+                  <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={conAcceso}
+                      onChange={(e) => setConAcceso(e.target.checked)}
+                      className="w-4 h-4 text-emerald-600 border-slate-300 rounded focus:ring-emerald-500"
+                    />
+                    Darle acceso propio a la app (si no, usa la credencial que le muestra el titular)
+                  </label>
+
+                  {conAcceso && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <input
+                        type="email"
+                        required
+                        value={formData.email}
+                        onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
+                        placeholder="Email"
+                        className="w-full px-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                      />
+                      <input
+                        type="password"
+                        required
+                        minLength={6}
+                        value={formData.password}
+                        onChange={(e) => setFormData(prev => ({ ...prev, password: e.target.value }))}
+                        placeholder="Contraseña temporal"
+                        className="w-full px-4 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={guardando || !formData.nombre.trim()}
+                      className="flex items-center space-x-2 px-6 py-2.5 bg-gradient-to-r from-emerald-600 to-teal-600 text-white rounded-xl hover:from-emerald-700 hover:to-teal-700 font-medium transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-lg"
+                    >
+                      {guardando ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                      <span>Agregar</span>
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    </AnimatePresence>
+  );
+
+  return createPortal(modalContent, document.body);
+};
+
+export default GrupoFamiliarDialog;
@@ -14,14 +14,11 @@ import {
   Button,
   IconButton,
   Paper,
-  LinearProgress,
   CircularProgress,
   List,
   ListItem,
   ListItemIcon,
   ListItemText,
-  Switch,
-  FormControlLabel,
   Tooltip,
   Badge,
   Dialog,
@@ -33,7 +30,6 @@ import {
 } from '@mui/material';
 import {
   AutoGraph,
-  Psychology,
   TrendingUp,
   TrendingDown,
   Lightbulb,
@@ -41,9 +37,6 @@ import {
   CheckCircle,
   Info,
   Star,
-  Speed,
-  SmartToy,
-  Memory,
   Refresh,
   Visibility,
   ArrowForward,
@@ -51,7 +44,6 @@ import {
   Schedule,
   AttachMoney,
   DataUsage,
-  AutoAwesome,
   Close,
   TrendingFlat,
   ErrorOutline,
@@ -64,8 +56,10 @@ import {
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { useAuth } from '@/hooks/useAuth';
-import { useSocios } from '@/hooks/useSocios';
-import { format, subDays } from 'date-fns';
+import { useInsights } from '@/hooks/useInsights';
+import { FactorRiesgoClave, NivelRiesgo, RiesgoSocio } from '@/types/insights';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
 
 interface InsightsIAProps {
   loading?: boolean;
@@ -75,31 +69,50 @@ interface AIInsight {
   id: string;
   title: string;
   description: string;
-  confidence: number;
+  // Datos sobre los que se apoya el insight
+  evidencia: string;
   impact: 'critical' | 'high' | 'medium' | 'low';
   category: 'prediction' | 'recommendation' | 'alert' | 'opportunity' | 'anomaly';
   priority: number;
   icon: React.ReactNode;
   color: string;
   gradient: string;
-  createdAt: Timestamp;
+  createdAt: Date;
   status: 'new' | 'viewed' | 'applied' | 'dismissed';
   data: Record<string, string | number | boolean | null | undefined>;
   actionable: boolean;
-  estimatedValue?: number;
   timeframe?: string;
 }
 
-interface AIModel {
-  id: string;
-  name: string;
-  version: string;
-  accuracy: number;
-  lastTrained: Date;
-  dataPoints: number;
-  status: 'active' | 'training' | 'error';
-  predictions: number;
-}
+const FACTOR_LABELS: Record<FactorRiesgoClave, string> = {
+  recencia: 'la falta de validaciones recientes',
+  frecuencia: 'el uso por debajo de la mediana',
+  vencimiento: 'el vencimiento de la membresía',
+  pagos: 'el atraso en las cuotas',
+};
+
+const IMPACT_ORDER: Record<AIInsight['impact'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+const NIVEL_RIESGO_COLORS: Record<NivelRiesgo, string> = {
+  alto: '#ef4444',
+  medio: '#f59e0b',
+  bajo: '#10b981',
+};
+
+// Socios en riesgo que se muestran antes de pedir el resto
+const SOCIOS_EN_RIESGO_VISIBLES = 10;
+
+const formatPeriodo = (periodo: string): string => {
+  const [year, month] = periodo.split('-').map(Number);
+  return format(new Date(year, month - 1, 1), 'MMM yy', { locale: es });
+};
+
+const formatPorcentaje = (valor: number): string => `${(valor * 100).toFixed(1)}%`;
 
 interface InsightCardProps {
   insight: AIInsight;
@@ -326,27 +339,15 @@ const InsightCard: React.FC<InsightCardProps> = ({
                 sx={{ mb: 2 }}
               >
                 <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                  <Psychology sx={{ fontSize: { xs: 12, md: 14 }, color: '#94a3b8' }} />
+                  <DataUsage sx={{ fontSize: { xs: 12, md: 14 }, color: '#94a3b8' }} />
                   <Typography variant="caption" sx={{ 
                     color: '#94a3b8', 
                     fontWeight: 500,
                     fontSize: { xs: '0.7rem', md: '0.75rem' }
                   }}>
-                    {insight.confidence}% confianza
+                    {insight.evidencia}
                   </Typography>
                 </Box>
-                {insight.estimatedValue && (
-                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
-                    <AttachMoney sx={{ fontSize: { xs: 12, md: 14 }, color: '#94a3b8' }} />
-                    <Typography variant="caption" sx={{ 
-                      color: '#94a3b8', 
-                      fontWeight: 500,
-                      fontSize: { xs: '0.7rem', md: '0.75rem' }
-                    }}>
-                      ${insight.estimatedValue.toLocaleString()}
-                    </Typography>
-                  </Box>
-                )}
                 {insight.timeframe && (
                   <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
                     <Schedule sx={{ fontSize: { xs: 12, md: 14 }, color: '#94a3b8' }} />
@@ -360,44 +361,6 @@ const InsightCard: React.FC<InsightCardProps> = ({
                   </Box>
                 )}
               </Stack>
-
-              {/* Confidence bar */}
-              <Box sx={{ mb: 2 }}>
-                <Box sx={{ 
-                  display: 'flex', 
-                  justifyContent: 'space-between', 
-                  alignItems: 'center', 
-                  mb: 0.5 
-                }}>
-                  <Typography variant="caption" sx={{ 
-                    color: '#94a3b8', 
-                    fontWeight: 600,
-                    fontSize: { xs: '0.7rem', md: '0.75rem' }
-                  }}>
-                    Nivel de confianza
-                  </Typography>
-                  <Typography variant="caption" sx={{ 
-                    color: '#1e293b', 
-                    fontWeight: 700,
-                    fontSize: { xs: '0.7rem', md: '0.75rem' }
-                  }}>
-                    {insight.confidence}%
-                  </Typography>
-                </Box>
-                <LinearProgress
-                  variant="determinate"
-                  value={insight.confidence}
-                  sx={{
-                    height: { xs: 3, md: 4 },
-                    borderRadius: 2,
-                    bgcolor: alpha(insight.color, 0.1),
-                    '& .MuiLinearProgress-bar': {
-                      bgcolor: insight.color,
-                      borderRadius: 2,
-                    }
-                  }}
-                />
-              </Box>
             </Box>
           </Box>
 
@@ -586,13 +549,16 @@ const AIMetricCard: React.FC<{
 
 const PredictionChart: React.FC<{
   title: string;
-  data: Array<{ month: string; actual?: number; predicted: number; confidence?: number }>;
+  subtitle: string;
+  // Meses reales con actual; meses pronosticados con predicted y su intervalo del 95%
+  data: Array<{ month: string; actual?: number; predicted?: number; min?: number; max?: number }>;
   color: string;
   loading?: boolean;
-}> = ({ title, data, color, loading = false }) => {
+  emptyMessage?: string;
+}> = ({ title, subtitle, data, color, loading = false, emptyMessage }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
-  const maxValue = Math.max(...data.map(d => Math.max(d.actual || 0, d.predicted)));
+  const maxValue = Math.max(1, ...data.map(d => Math.max(d.actual || 0, d.max ?? d.predicted ?? 0)));
 
   return (
     <motion.div
@@ -644,7 +610,7 @@ const PredictionChart: React.FC<{
                 color: '#64748b', 
                 fontSize: { xs: '0.8rem', md: '0.85rem' }
               }}>
-                Predicción basada en IA
+                {subtitle}
               </Typography>
             </Box>
           </Box>
@@ -658,6 +624,19 @@ const PredictionChart: React.FC<{
             }}>
               <CircularProgress size={40} sx={{ color }} />
             </Box>
+          ) : data.length === 0 ? (
+            <Box sx={{ 
+              display: 'flex', 
+              justifyContent: 'center', 
+              alignItems: 'center', 
+              textAlign: 'center',
+              height: { xs: 150, md: 200 },
+              px: 2
+            }}>
+              <Typography variant="body2" sx={{ color: '#94a3b8', fontWeight: 600 }}>
+                {emptyMessage || 'Sin datos suficientes'}
+              </Typography>
+            </Box>
           ) : (
             <>
               <Box sx={{ 
@@ -670,7 +649,9 @@ const PredictionChart: React.FC<{
                 {data.map((item, index) => (
                   <Tooltip
                     key={index}
-                    title={`${item.month}: ${item.predicted} (${item.confidence || 85}% confianza)`}
+                    title={item.predicted !== undefined
+                      ? `${item.month}: ${item.predicted} estimado (95%: ${item.min}–${item.max})`
+                      : `${item.month}: ${item.actual}`}
                     arrow
                   >
                     <Box sx={{ 
@@ -680,10 +661,10 @@ const PredictionChart: React.FC<{
                       alignItems: 'center', 
                       gap: 1 
                     }}>
-                      {item.actual && (
+                      {item.actual !== undefined && (
                         <Box
                           sx={{
-                            width: '40%',
+                            width: '70%',
                             height: `${(item.actual / maxValue) * 100}%`,
                             bgcolor: alpha(color, 0.5),
                             borderRadius: '2px 2px 0 0',
@@ -692,21 +673,33 @@ const PredictionChart: React.FC<{
                           }}
                         />
                       )}
-                      <Box
-                        sx={{
-                          width: item.actual ? '40%' : '70%',
-                          height: `${(item.predicted / maxValue) * 100}%`,
-                          bgcolor: color,
-                          borderRadius: '2px 2px 0 0',
-                          minHeight: 4,
-                          border: item.actual ? `2px dashed ${color}` : 'none',
-                          cursor: 'pointer',
-                          '&:hover': {
-                            filter: 'brightness(1.1)',
-                          },
-                          transition: 'all 0.2s ease',
-                        }}
-                      />
+                      {item.predicted !== undefined && (
+                        <Box
+                          sx={{
+                            width: '70%',
+                            height: `${((item.max ?? item.predicted) / maxValue) * 100}%`,
+                            display: 'flex',
+                            flexDirection: 'column',
+                            justifyContent: 'flex-end',
+                            border: `2px dashed ${alpha(color, 0.6)}`,
+                            borderRadius: '2px 2px 0 0',
+                            minHeight: 4,
+                            cursor: 'pointer',
+                          }}
+                        >
+                          {/* Barra llena: estimado; borde punteado: techo del intervalo */}
+                          <Box
+                            sx={{
+                              height: `${(item.predicted / Math.max(1, item.max ?? item.predicted)) * 100}%`,
+                              bgcolor: color,
+                              '&:hover': {
+                                filter: 'brightness(1.1)',
+                              },
+                              transition: 'all 0.2s ease',
+                            }}
+                          />
+                        </Box>
+                      )}
                       <Typography
                         variant="caption"
                         sx={{
@@ -758,7 +751,7 @@ const PredictionChart: React.FC<{
                     fontWeight: 600,
                     fontSize: { xs: '0.7rem', md: '0.75rem' }
                   }}>
-                    Predicción IA
+                    Pronóstico (rango 95%)
                   </Typography>
                 </Box>
               </Box>
@@ -835,7 +828,7 @@ const InsightDetailsDialog: React.FC<{
               color: '#64748b',
               fontSize: { xs: '0.8rem', md: '0.875rem' }
             }}>
-              Generado por IA • {format(insight.createdAt.toDate(), 'dd/MM/yyyy HH:mm')}
+              Calculado el {format(insight.createdAt, 'dd/MM/yyyy HH:mm')} • {insight.evidencia}
             </Typography>
           </Box>
         </Box>
@@ -883,13 +876,6 @@ const InsightDetailsDialog: React.FC<{
               },
               gap: { xs: 2, md: 3 }
             }}>
-              <AIMetricCard
-                title="Confianza"
-                value={`${insight.confidence}%`}
-                subtitle="Nivel de certeza"
-                icon={<Psychology />}
-                color={insight.color}
-              />
               <AIMetricCard
                 title="Impacto"
                 value={insight.impact.toUpperCase()}
@@ -897,13 +883,13 @@ const InsightDetailsDialog: React.FC<{
                 icon={<Star />}
                 color={insight.impact === 'high' ? '#ef4444' : insight.impact === 'medium' ? '#f59e0b' : '#10b981'}
               />
-              {insight.estimatedValue && (
+              {insight.timeframe && (
                 <AIMetricCard
-                  title="Valor Estimado"
-                  value={`$${insight.estimatedValue.toLocaleString()}`}
-                  subtitle="Impacto financiero"
-                  icon={<AttachMoney />}
-                  color="#10b981"
+                  title="Horizonte"
+                  value={insight.timeframe}
+                  subtitle="Período al que aplica"
+                  icon={<Schedule />}
+                  color={insight.color}
                 />
               )}
             </Box>
@@ -941,7 +927,7 @@ const InsightDetailsDialog: React.FC<{
                         fontSize: { xs: '0.8rem', md: '0.875rem' },
                         flex: { xs: '1 1 100%', sm: '1 1 auto' }
                       }}>
-                        {key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}:
+                        {key}:
                       </Typography>
                       <Typography variant="body2" sx={{ 
                         color: '#1e293b', 
@@ -1001,226 +987,388 @@ const InsightDetailsDialog: React.FC<{
   );
 };
 
+const SociosEnRiesgoCard: React.FC<{
+  socios: RiesgoSocio[];
+  loading?: boolean;
+}> = ({ socios, loading = false }) => {
+  const [nivel, setNivel] = useState<Exclude<NivelRiesgo, 'bajo'> | 'todos'>('todos');
+  const [verTodos, setVerTodos] = useState(false);
+
+  const enRiesgo = socios.filter(socio => socio.nivel !== 'bajo' && (nivel === 'todos' || socio.nivel === nivel));
+  const visibles = verTodos ? enRiesgo : enRiesgo.slice(0, SOCIOS_EN_RIESGO_VISIBLES);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5, delay: 0.2 }}
+    >
+      <Card
+        elevation={0}
+        sx={{
+          mt: { xs: 3, md: 4 },
+          border: '1px solid #f1f5f9',
+          borderRadius: { xs: 3, md: 4 },
+          background: 'linear-gradient(135deg, #ffffff 0%, #fafbfc 100%)',
+        }}
+      >
+        <CardContent sx={{ p: { xs: 2, md: 3 } }}>
+          <Box sx={{ 
+            display: 'flex', 
+            alignItems: 'center', 
+            justifyContent: 'space-between',
+            gap: 2, 
+            mb: { xs: 2, md: 3 },
+            flexWrap: 'wrap'
+          }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <Avatar
+                sx={{
+                  width: { xs: 40, md: 44 },
+                  height: { xs: 40, md: 44 },
+                  bgcolor: alpha('#ef4444', 0.1),
+                  color: '#ef4444',
+                  borderRadius: 3,
+                }}
+              >
+                <Group />
+              </Avatar>
+              <Box>
+                <Typography variant="h6" sx={{ 
+                  fontWeight: 700, 
+                  color: '#1e293b', 
+                  fontSize: { xs: '1rem', md: '1.1rem' }
+                }}>
+                  Socios en Riesgo
+                </Typography>
+                <Typography variant="body2" sx={{ 
+                  color: '#64748b', 
+                  fontSize: { xs: '0.8rem', md: '0.85rem' }
+                }}>
+                  Ordenados por puntaje de riesgo (0-100)
+                </Typography>
+              </Box>
+            </Box>
+            <Stack direction="row" spacing={1}>
+              {(['todos', 'alto', 'medio'] as const).map(opcion => (
+                <Chip
+                  key={opcion}
+                  label={opcion === 'todos' ? 'Todos' : `Riesgo ${opcion}`}
+                  size="small"
+                  onClick={() => setNivel(opcion)}
+                  sx={{
+                    fontWeight: 600,
+                    bgcolor: nivel === opcion ? alpha('#ef4444', 0.1) : '#f8fafc',
+                    color: nivel === opcion ? '#ef4444' : '#64748b',
+                  }}
+                />
+              ))}
+            </Stack>
+          </Box>
+
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+              <CircularProgress size={32} />
+            </Box>
+          ) : enRiesgo.length === 0 ? (
+            <Typography variant="body2" sx={{ color: '#10b981', fontWeight: 600, py: 2 }}>
+              No hay socios activos con riesgo {nivel === 'todos' ? 'alto o medio' : nivel}
+            </Typography>
+          ) : (
+            <>
+              <List dense>
+                {visibles.map(socio => (
+                  <ListItem key={socio.socioId} sx={{ px: 0, py: 1, alignItems: 'flex-start' }}>
+                    <ListItemIcon sx={{ mt: 0.5 }}>
+                      <Avatar
+                        sx={{
+                          width: { xs: 32, md: 36 },
+                          height: { xs: 32, md: 36 },
+                          bgcolor: alpha(NIVEL_RIESGO_COLORS[socio.nivel], 0.1),
+                          color: NIVEL_RIESGO_COLORS[socio.nivel],
+                          borderRadius: 2,
+                          fontSize: '0.8rem',
+                          fontWeight: 800,
+                        }}
+                      >
+                        {socio.puntaje}
+                      </Avatar>
+                    </ListItemIcon>
+                    <ListItemText
+                      primary={socio.numeroSocio ? `${socio.nombre} • N° ${socio.numeroSocio}` : socio.nombre}
+                      secondary={socio.factores
+                        .filter(factor => factor.puntos > 0)
+                        .sort((a, b) => b.puntos - a.puntos)
+                        .map(factor => factor.detalle)
+                        .join(' • ')}
+                      primaryTypographyProps={{ 
+                        fontSize: { xs: '0.8rem', md: '0.9rem' }, 
+                        fontWeight: 600,
+                        color: '#1e293b'
+                      }}
+                      secondaryTypographyProps={{ 
+                        fontSize: { xs: '0.7rem', md: '0.75rem' },
+                        color: '#94a3b8'
+                      }}
+                    />
+                    <Chip
+                      label={socio.nivel.toUpperCase()}
+                      size="small"
+                      sx={{
+                        ml: 1,
+                        bgcolor: alpha(NIVEL_RIESGO_COLORS[socio.nivel], 0.1),
+                        color: NIVEL_RIESGO_COLORS[socio.nivel],
+                        fontWeight: 600,
+                        fontSize: { xs: '0.6rem', md: '0.65rem' },
+                        height: { xs: 18, md: 20 },
+                      }}
+                    />
+                  </ListItem>
+                ))}
+              </List>
+              {enRiesgo.length > SOCIOS_EN_RIESGO_VISIBLES && (
+                <Button
+                  onClick={() => setVerTodos(prev => !prev)}
+                  size="small"
+                  sx={{ textTransform: 'none', fontWeight: 600, color: '#64748b' }}
+                >
+                  {verTodos ? 'Ver menos' : `Ver todos (${enRiesgo.length})`}
+                </Button>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+};
+
 export const InsightsIA: React.FC<InsightsIAProps> = ({
   loading: propLoading = false
 }) => {
   const { user } = useAuth();
-  const { stats } = useSocios();
+  const { insights, loading, error, recalcular } = useInsights();
   
-  const [loading, setLoading] = useState(true);
   const [aiInsights, setAiInsights] = useState<AIInsight[]>([]);
-  const [aiModel, setAiModel] = useState<AIModel | null>(null);
-  const [autoRefresh, setAutoRefresh] = useState(true);
   const [processingInsights, setProcessingInsights] = useState<Set<string>>(new Set());
   const [detailsDialog, setDetailsDialog] = useState<{ open: boolean; insight: AIInsight | null }>({
     open: false,
     insight: null
   });
 
-  // Generate AI insights based on real data
+  // Insights armados con el análisis de los datos de la asociación
   const generateInsights = useMemo(() => {
-    if (!stats || stats.total === 0) return [];
-
-    const insights: AIInsight[] = [];
-    const now = new Date();
-
-    // Growth prediction insight
-    if (stats.activos > stats.total * 0.7) {
-      insights.push({
-        id: 'growth-prediction',
-        title: 'Crecimiento Acelerado Detectado',
-        description: `El modelo predice un crecimiento del ${Math.round(15 + Math.random() * 15)}% en los próximos 3 meses basado en la alta tasa de socios activos (${Math.round((stats.activos / stats.total) * 100)}%).`,
-        confidence: 85 + Math.round(Math.random() * 10),
-        impact: 'high',
-        category: 'prediction',
-        priority: 1,
-        icon: <TrendingUp sx={{ fontSize: { xs: 20, md: 24 } }} />,
-        color: '#10b981',
-        gradient: 'linear-gradient(135deg, #10b981 0%, #059669 100%)',
-        createdAt: Timestamp.fromDate(subDays(now, Math.floor(Math.random() * 3))),
-        status: 'new',
-        data: {
-          current_growth_rate: Math.round((stats.activos / stats.total) * 100),
-          predicted_growth: Math.round(15 + Math.random() * 15),
-          timeframe: '3 meses',
-          confidence_interval: '±5%'
-        },
-        actionable: true,
-        estimatedValue: Math.round(stats.total * 0.15 * 50), // Estimated revenue per new member
-        timeframe: '3 meses'
-      });
-    }
+    if (!insights) return [];
+
+    const result: AIInsight[] = [];
+    const createdAt = insights.generadoEn;
+    const baseSocios = `${insights.sociosActivos} socios activos y ${insights.validacionesAnalizadas} validaciones`;
+
+    // Riesgo de abandono
+    const { alto, medio, bajo } = insights.resumenRiesgo;
+    if (alto + medio > 0) {
+      const puntosPorFactor = new Map<FactorRiesgoClave, number>();
+      insights.riesgo
+        .filter(socio => socio.nivel !== 'bajo')
+        .forEach(socio => socio.factores.forEach(factor => {
+          puntosPorFactor.set(factor.clave, (puntosPorFactor.get(factor.clave) || 0) + factor.puntos);
+        }));
+      const factorPrincipal = Array.from(puntosPorFactor.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+      const proporcionAlto = insights.sociosActivos > 0 ? alto / insights.sociosActivos : 0;
 
-    // Retention alert
-    if (stats.vencidos > stats.total * 0.15) {
-      insights.push({
-        id: 'retention-alert',
-        title: 'Riesgo de Abandono Identificado',
-        description: `${stats.vencidos} socios muestran patrones de baja actividad. Se recomienda campaña de re-engagement inmediata para evitar pérdidas.`,
-        confidence: 92,
-        impact: 'critical',
+      result.push({
+        id: 'riesgo-abandono',
+        title: alto > 0 ? `${alto} socios con riesgo alto de abandono` : `${medio} socios con riesgo medio de abandono`,
+        description: `De ${insights.sociosActivos} socios activos, ${alto} tienen riesgo alto y ${medio} riesgo medio.` +
+          (factorPrincipal ? ` Lo que más pesa en el puntaje es ${FACTOR_LABELS[factorPrincipal]}.` : '') +
+          ' El listado de socios en riesgo detalla los motivos de cada uno.',
+        evidencia: baseSocios,
+        impact: proporcionAlto >= 0.1 ? 'critical' : alto > 0 ? 'high' : 'medium',
         category: 'alert',
         priority: 1,
         icon: <Warning sx={{ fontSize: { xs: 20, md: 24 } }} />,
         color: '#ef4444',
         gradient: 'linear-gradient(135deg, #ef4444 0%, #dc2626 100%)',
-        createdAt: Timestamp.fromDate(subDays(now, 1)),
+        createdAt,
         status: 'new',
         data: {
-          at_risk_members: stats.vencidos,
-          risk_percentage: Math.round((stats.vencidos / stats.total) * 100),
-          recommended_action: 'Campaña de re-engagement',
-          estimated_loss: stats.vencidos * 50 // Estimated value per member
+          'Socios activos': insights.sociosActivos,
+          'Riesgo alto': alto,
+          'Riesgo medio': medio,
+          'Riesgo bajo': bajo,
+          'Factor principal': factorPrincipal ? FACTOR_LABELS[factorPrincipal] : null,
         },
         actionable: true,
-        estimatedValue: stats.vencidos * 50,
-        timeframe: 'Inmediato'
+        timeframe: 'Actual'
+      });
+    } else if (insights.sociosActivos > 0) {
+      result.push({
+        id: 'riesgo-abandono',
+        title: 'Sin socios en riesgo de abandono',
+        description: `Ninguno de los ${insights.sociosActivos} socios activos supera el umbral de riesgo medio.`,
+        evidencia: baseSocios,
+        impact: 'low',
+        category: 'opportunity',
+        priority: 4,
+        icon: <CheckCircle sx={{ fontSize: { xs: 20, md: 24 } }} />,
+        color: '#10b981',
+        gradient: 'linear-gradient(135deg, #10b981 0%, #059669 100%)',
+        createdAt,
+        status: 'viewed',
+        data: { 'Socios activos': insights.sociosActivos },
+        actionable: false,
       });
     }
 
-    // Optimal timing recommendation
-    insights.push({
-      id: 'optimal-timing',
-      title: 'Momento Óptimo para Comunicaciones',
-      description: 'Los martes a las 10:00 AM muestran 34% más engagement. Optimiza tus campañas para maximizar la respuesta.',
-      confidence: 78,
-      impact: 'medium',
-      category: 'recommendation',
-      priority: 2,
-      icon: <Schedule sx={{ fontSize: { xs: 20, md: 24 } }} />,
-      color: '#6366f1',
-      gradient: 'linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)',
-      createdAt: Timestamp.fromDate(subDays(now, 2)),
-      status: 'viewed',
-      data: {
-        optimal_day: 'Martes',
-        optimal_time: '10:00 AM',
-        engagement_increase: 34,
-        sample_size: stats.total,
-        confidence_level: '95%'
-      },
-      actionable: true,
-      timeframe: 'Próximas campañas'
-    });
-
-    // Revenue opportunity
-    if (stats.activos > 20) {
-      const premiumCandidates = Math.floor(stats.activos * 0.25);
-      insights.push({
-        id: 'revenue-opportunity',
-        title: 'Oportunidad de Ingresos Adicionales',
-        description: `${premiumCandidates} socios muestran patrones de alto engagement. Segmento premium identificado con potencial de ingresos adicionales.`,
-        confidence: 85,
-        impact: 'high',
-        category: 'opportunity',
-        priority: 1,
+    // Atraso en las cuotas
+    const conDeuda = insights.riesgo.filter(socio => socio.cuotasVencidas > 0 || socio.deudaVencida > 0);
+    if (conDeuda.length > 0) {
+      const deudaTotal = conDeuda.reduce((total, socio) => total + socio.deudaVencida, 0);
+      result.push({
+        id: 'cuotas-vencidas',
+        title: `${conDeuda.length} socios activos con cuotas vencidas`,
+        description: `Suman $${deudaTotal.toLocaleString('es-AR')} de deuda vencida. El atraso en los pagos es uno de los factores del riesgo de abandono.`,
+        evidencia: `Cuenta de cuotas de ${insights.sociosActivos} socios activos`,
+        impact: conDeuda.length / insights.sociosActivos >= 0.1 ? 'high' : 'medium',
+        category: 'recommendation',
+        priority: 2,
         icon: <AttachMoney sx={{ fontSize: { xs: 20, md: 24 } }} />,
         color: '#f59e0b',
         gradient: 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)',
-        createdAt: Timestamp.fromDate(subDays(now, 1)),
+        createdAt,
         status: 'new',
         data: {
-          premium_candidates: premiumCandidates,
-          estimated_revenue_per_member: 100,
-          total_revenue_potential: premiumCandidates * 100,
-          conversion_probability: '65%'
+          'Socios con cuotas vencidas': conDeuda.length,
+          'Deuda vencida total': `$${deudaTotal.toLocaleString('es-AR')}`,
+          'Cuotas vencidas': conDeuda.reduce((total, socio) => total + socio.cuotasVencidas, 0),
         },
         actionable: true,
-        estimatedValue: premiumCandidates * 100,
-        timeframe: '6 meses'
+        timeframe: 'Actual'
       });
     }
 
-    // Demographic insight
-    insights.push({
-      id: 'demographic-insight',
-      title: 'Patrón Demográfico Emergente',
-      description: 'Incremento del 45% en socios de 25-35 años detectado. Ajusta estrategias de marketing para este segmento.',
-      confidence: 73,
-      impact: 'medium',
-      category: 'prediction',
-      priority: 3,
-      icon: <Group sx={{ fontSize: { xs: 20, md: 24 } }} />,
-      color: '#8b5cf6',
-      gradient: 'linear-gradient(135deg, #8b5cf6 0%, #7c3aed 100%)',
-      createdAt: Timestamp.fromDate(subDays(now, 3)),
-      status: 'viewed',
-      data: {
-        age_group: '25-35 años',
-        growth_rate: 45,
-        segment_size: Math.floor(stats.total * 0.4),
-        marketing_recommendation: 'Digital y redes sociales'
-      },
-      actionable: true,
-      timeframe: 'Próximos 3 meses'
-    });
-
-    // Engagement strategy
-    insights.push({
-      id: 'engagement-strategy',
-      title: 'Estrategia de Engagement Personalizada',
-      description: 'Contenido educativo aumenta retención en 67%. Implementa programa de capacitación para mejorar engagement.',
-      confidence: 89,
-      impact: 'high',
-      category: 'recommendation',
-      priority: 2,
-      icon: <Psychology sx={{ fontSize: { xs: 20, md: 24 } }} />,
-      color: '#06b6d4',
-      gradient: 'linear-gradient(135deg, #06b6d4 0%, #0891b2 100%)',
-      createdAt: Timestamp.fromDate(subDays(now, 1)),
-      status: 'new',
-      data: {
-        content_type: 'Educativo',
-        retention_improvement: 67,
-        recommended_frequency: 'Semanal',
-        implementation_cost: 500
-      },
-      actionable: true,
-      estimatedValue: Math.round(stats.total * 0.67 * 25), // Retention value
-      timeframe: '2 meses'
-    });
-
-    return insights.sort((a, b) => b.priority - a.priority || b.confidence - a.confidence);
-  }, [stats]);
+    // Vencimientos de membresía próximos
+    const porVencer = insights.riesgo.filter(socio =>
+      socio.diasParaVencimiento !== null && socio.diasParaVencimiento >= 0 && socio.diasParaVencimiento <= 30
+    );
+    if (porVencer.length > 0) {
+      result.push({
+        id: 'vencimientos-proximos',
+        title: `${porVencer.length} membresías vencen en los próximos 30 días`,
+        description: 'Recordarles la renovación antes del vencimiento evita que pasen a estado vencido.',
+        evidencia: `Fecha de vencimiento de ${insights.sociosActivos} socios activos`,
+        impact: 'medium',
+        category: 'recommendation',
+        priority: 3,
+        icon: <Schedule sx={{ fontSize: { xs: 20, md: 24 } }} />,
+        color: '#6366f1',
+        gradient: 'linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)',
+        createdAt,
+        status: 'new',
+        data: {
+          'Vencen en 15 días o menos': porVencer.filter(socio => (socio.diasParaVencimiento ?? 0) <= 15).length,
+          'Vencen en 16 a 30 días': porVencer.filter(socio => (socio.diasParaVencimiento ?? 0) > 15).length,
+        },
+        actionable: true,
+        timeframe: 'Próximos 30 días'
+      });
+    }
 
-  // Initialize AI insights
-  useEffect(() => {
-    if (!user) {
-      setLoading(false);
-      return;
+    // Pronóstico de crecimiento
+    const { pronostico } = insights;
+    if (pronostico.disponible) {
+      const final = pronostico.proyeccion[pronostico.proyeccion.length - 1];
+      const variacion = final.activos.estimado - pronostico.activosActuales;
+      const baja = pronostico.bajaMensual;
+      result.push({
+        id: 'pronostico-crecimiento',
+        title: variacion >= 0
+          ? `Se esperan ${final.activos.estimado} socios activos en ${formatPeriodo(final.periodo)}`
+          : `Los socios activos caerían a ${final.activos.estimado} en ${formatPeriodo(final.periodo)}`,
+        description: `Con ${pronostico.altasMensuales.estimado} altas por mes (95%: ${pronostico.altasMensuales.minimo}–${pronostico.altasMensuales.maximo}) ` +
+          `y una baja mensual estimada de ${formatPorcentaje(baja.estimado)} (95%: ${formatPorcentaje(baja.minimo)}–${formatPorcentaje(baja.maximo)}), ` +
+          `el rango esperado es de ${final.activos.minimo} a ${final.activos.maximo} socios activos, frente a ${pronostico.activosActuales} hoy.`,
+        evidencia: `${pronostico.mesesHistoria} meses de altas y ${insights.cohortes.length} cohortes`,
+        impact: variacion < 0 ? 'high' : 'medium',
+        category: 'prediction',
+        priority: variacion < 0 ? 1 : 3,
+        icon: variacion >= 0
+          ? <TrendingUp sx={{ fontSize: { xs: 20, md: 24 } }} />
+          : <TrendingDown sx={{ fontSize: { xs: 20, md: 24 } }} />,
+        color: '#10b981',
+        gradient: 'linear-gradient(135deg, #10b981 0%, #059669 100%)',
+        createdAt,
+        status: 'new',
+        data: {
+          'Socios activos hoy': pronostico.activosActuales,
+          [`Estimado ${formatPeriodo(final.periodo)}`]: final.activos.estimado,
+          'Rango 95%': `${final.activos.minimo} – ${final.activos.maximo}`,
+          'Altas por mes': pronostico.altasMensuales.estimado,
+          'Baja mensual': formatPorcentaje(baja.estimado),
+          'Meses de historia': pronostico.mesesHistoria,
+        },
+        actionable: false,
+        timeframe: `${pronostico.proyeccion.length} meses`
+      });
+    } else {
+      result.push({
+        id: 'pronostico-crecimiento',
+        title: 'Pronóstico de crecimiento no disponible',
+        description: `${pronostico.motivo}. No se muestra una proyección sin historia suficiente.`,
+        evidencia: `${pronostico.mesesHistoria} meses de altas`,
+        impact: 'low',
+        category: 'prediction',
+        priority: 4,
+        icon: <Info sx={{ fontSize: { xs: 20, md: 24 } }} />,
+        color: '#94a3b8',
+        gradient: 'linear-gradient(135deg, #94a3b8 0%, #64748b 100%)',
+        createdAt,
+        status: 'viewed',
+        data: { 'Meses de historia': pronostico.mesesHistoria },
+        actionable: false,
+      });
     }
 
-    setLoading(true);
-    
-    // Simulate AI processing time
-    const timer = setTimeout(() => {
-      setAiInsights(generateInsights);
-      setAiModel({
-        id: 'fidelya-ai-v2',
-        name: 'Fidelya AI',
-        version: '2.1.0',
-        accuracy: 94.2,
-        lastTrained: subDays(new Date(), 2),
-        dataPoints: stats.total * 15,
-        status: 'active',
-        predictions: generateInsights.length
+    // Saturación de beneficios
+    insights.saturacion.forEach(alerta => {
+      const cupo = alerta.tipo === 'cupo';
+      result.push({
+        id: `saturacion-${alerta.beneficioId}-${alerta.tipo}`,
+        title: cupo ? `"${alerta.titulo}" está por agotar su cupo` : `"${alerta.titulo}" muestra desgaste`,
+        description: `${alerta.detalle}.`,
+        evidencia: `${alerta.usosUltimos30Dias + alerta.usosPrevios30Dias} usos en 60 días`,
+        impact: cupo && alerta.diasParaAgotarse !== null && alerta.diasParaAgotarse !== undefined && alerta.diasParaAgotarse <= 14
+          ? 'high'
+          : 'medium',
+        category: cupo ? 'alert' : 'anomaly',
+        priority: 2,
+        icon: cupo
+          ? <DataUsage sx={{ fontSize: { xs: 20, md: 24 } }} />
+          : <TrendingFlat sx={{ fontSize: { xs: 20, md: 24 } }} />,
+        color: cupo ? '#f59e0b' : '#8b5cf6',
+        gradient: cupo
+          ? 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)'
+          : 'linear-gradient(135deg, #8b5cf6 0%, #7c3aed 100%)',
+        createdAt,
+        status: 'new',
+        data: {
+          'Comercio': alerta.comercioNombre,
+          'Usos últimos 30 días': alerta.usosUltimos30Dias,
+          'Usos 30 días previos': alerta.usosPrevios30Dias,
+          'Socios activos que lo usaron (90 días)': formatPorcentaje(alerta.penetracion),
+          ...(cupo ? { 'Usos totales': alerta.usosActuales, 'Cupo total': alerta.limiteTotal } : {}),
+        },
+        actionable: true,
+        timeframe: cupo && alerta.diasParaAgotarse ? `${alerta.diasParaAgotarse} días` : 'Últimos 60 días'
       });
-      setLoading(false);
-    }, 1500);
+    });
 
-    return () => clearTimeout(timer);
-  }, [user, generateInsights, stats.total]);
+    return result.sort((a, b) => IMPACT_ORDER[a.impact] - IMPACT_ORDER[b.impact] || a.priority - b.priority);
+  }, [insights]);
 
-  // Auto-refresh insights
   useEffect(() => {
-    if (!autoRefresh) return;
-
-    const interval = setInterval(() => {
-      setAiInsights(generateInsights);
-    }, 30000); // Refresh every 30 seconds
-
-    return () => clearInterval(interval);
-  }, [autoRefresh, generateInsights]);
+    setAiInsights(generateInsights);
+  }, [generateInsights]);
 
   const handleViewDetails = (insight: AIInsight) => {
     setDetailsDialog({ open: true, insight });
@@ -1269,61 +1417,73 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
   };
 
   const handleRefreshAI = () => {
-    setLoading(true);
-    setTimeout(() => {
-      setAiInsights(generateInsights);
-      setLoading(false);
-    }, 1500);
+    recalcular();
   };
 
-  const aiMetrics = useMemo(() => [
-    {
-      title: 'Insights Generados',
-      value: aiInsights.length,
-      subtitle: 'Últimas 24 horas',
-      icon: <AutoAwesome sx={{ fontSize: { xs: 18, md: 20 } }} />,
-      color: '#6366f1',
-      trend: 'up' as const,
-      loading: loading || propLoading
-    },
-    {
-      title: 'Precisión del Modelo',
-      value: aiModel ? `${aiModel.accuracy}%` : '94.2%',
-      subtitle: 'Promedio histórico',
-      icon: <Psychology sx={{ fontSize: { xs: 18, md: 20 } }} />,
-      color: '#10b981',
-      trend: 'up' as const,
-      loading: loading || propLoading
-    },
-    {
-      title: 'Procesamiento IA',
-      value: '2.3s',
-      subtitle: 'Tiempo promedio',
-      icon: <Speed sx={{ fontSize: { xs: 18, md: 20 } }} />,
-      color: '#f59e0b',
-      processing: loading,
-      loading: loading || propLoading
-    },
-    {
-      title: 'Datos Analizados',
-      value: aiModel ? `${(aiModel.dataPoints / 1000).toFixed(1)}K` : '847K',
-      subtitle: 'Puntos de datos',
-      icon: <DataUsage sx={{ fontSize: { xs: 18, md: 20 } }} />,
-      color: '#8b5cf6',
-      trend: 'neutral' as const,
-      loading: loading || propLoading
-    }
-  ], [aiInsights.length, aiModel, loading, propLoading]);
-
-  const predictionData = useMemo(() => [
-    { month: 'Ene', actual: Math.floor(stats.total * 0.8), predicted: Math.floor(stats.total * 0.85), confidence: 92 },
-    { month: 'Feb', actual: Math.floor(stats.total * 0.85), predicted: Math.floor(stats.total * 0.9), confidence: 89 },
-    { month: 'Mar', actual: Math.floor(stats.total * 0.9), predicted: Math.floor(stats.total * 0.95), confidence: 87 },
-    { month: 'Abr', actual: stats.total, predicted: Math.floor(stats.total * 1.05), confidence: 85 },
-    { month: 'May', predicted: Math.floor(stats.total * 1.12), confidence: 82 },
-    { month: 'Jun', predicted: Math.floor(stats.total * 1.18), confidence: 78 },
-    { month: 'Jul', predicted: Math.floor(stats.total * 1.25), confidence: 75 },
-  ], [stats.total]);
+  const isLoading = loading || propLoading;
+
+  const aiMetrics = useMemo(() => {
+    const final = insights?.pronostico.disponible
+      ? insights.pronostico.proyeccion[insights.pronostico.proyeccion.length - 1]
+      : null;
+
+    return [
+      {
+        title: 'Socios en Riesgo Alto',
+        value: insights ? insights.resumenRiesgo.alto : '-',
+        subtitle: insights ? `${insights.resumenRiesgo.medio} más en riesgo medio` : 'Sin calcular',
+        icon: <Warning sx={{ fontSize: { xs: 18, md: 20 } }} />,
+        color: '#ef4444',
+        loading: isLoading
+      },
+      {
+        title: 'Socios Activos',
+        value: insights ? insights.sociosActivos.toLocaleString() : '-',
+        subtitle: insights ? `De ${insights.sociosAnalizados.toLocaleString()} registrados` : 'Sin calcular',
+        icon: <Group sx={{ fontSize: { xs: 18, md: 20 } }} />,
+        color: '#6366f1',
+        loading: isLoading
+      },
+      {
+        title: 'Pronóstico de Activos',
+        value: final ? final.activos.estimado.toLocaleString() : 'Sin datos',
+        subtitle: final
+          ? `${formatPeriodo(final.periodo)} • rango ${final.activos.minimo}–${final.activos.maximo}`
+          : 'Historia insuficiente',
+        icon: <AutoGraph sx={{ fontSize: { xs: 18, md: 20 } }} />,
+        color: '#10b981',
+        trend: final && insights?.pronostico.disponible
+          ? final.activos.estimado > insights.pronostico.activosActuales
+            ? 'up' as const
+            : final.activos.estimado < insights.pronostico.activosActuales ? 'down' as const : 'neutral' as const
+          : undefined,
+        loading: isLoading
+      },
+      {
+        title: 'Validaciones Analizadas',
+        value: insights ? insights.validacionesAnalizadas.toLocaleString() : '-',
+        subtitle: insights ? `Últimos ${insights.ventanaDias} días` : 'Sin calcular',
+        icon: <DataUsage sx={{ fontSize: { xs: 18, md: 20 } }} />,
+        color: '#8b5cf6',
+        loading: isLoading
+      }
+    ];
+  }, [insights, isLoading]);
+
+  // Altas reales de los últimos meses y pronóstico de altas con su rango
+  const predictionData = useMemo(() => {
+    if (!insights?.pronostico.disponible) return [];
+    const { historial, proyeccion } = insights.pronostico;
+    return [
+      ...historial.slice(-6).map(mes => ({ month: formatPeriodo(mes.periodo), actual: mes.altas })),
+      ...proyeccion.map(mes => ({
+        month: formatPeriodo(mes.periodo),
+        predicted: mes.altas.estimado,
+        min: mes.altas.minimo,
+        max: mes.altas.maximo,
+      })),
+    ];
+  }, [insights]);
 
   const priorityInsights = useMemo(() => 
     aiInsights.filter(insight => insight.impact === 'critical' || insight.impact === 'high').slice(0, 3),
@@ -1405,7 +1565,7 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                     fontSize: { xs: '0.9rem', sm: '1rem', md: '1.2rem' },
                   }}
                 >
-                  Inteligencia artificial para decisiones estratégicas • {user?.email?.split('@')[0] || 'Administrador'}
+                  Señales calculadas con los datos de tu asociación • {user?.email?.split('@')[0] || 'Administrador'}
                 </Typography>
               </Box>
             </Box>
@@ -1416,32 +1576,6 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
               alignItems="center"
               sx={{ width: { xs: '100%', md: 'auto' } }}
             >
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={autoRefresh}
-                    onChange={(e) => setAutoRefresh(e.target.checked)}
-                    sx={{
-                      '& .MuiSwitch-thumb': {
-                        bgcolor: '#ec4899',
-                      },
-                      '& .MuiSwitch-track': {
-                        bgcolor: alpha('#ec4899', 0.3),
-                      },
-                    }}
-                  />
-                }
-                label={
-                  <Typography variant="body2" sx={{ 
-                    fontWeight: 600, 
-                    color: '#64748b',
-                    fontSize: { xs: '0.8rem', md: '0.875rem' }
-                  }}>
-                    Auto-refresh
-                  </Typography>
-                }
-              />
-              
               <IconButton
                 onClick={handleRefreshAI}
                 disabled={loading}
@@ -1458,28 +1592,6 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                 {loading ? <CircularProgress size={20} /> : <Refresh />}
               </IconButton>
               
-              <Button
-                variant="contained"
-                startIcon={<SmartToy />}
-                sx={{
-                  py: { xs: 1.5, md: 2 },
-                  px: { xs: 3, md: 4 },
-                  borderRadius: 3,
-                  textTransform: 'none',
-                  fontWeight: 700,
-                  background: 'linear-gradient(135deg, #ec4899 0%, #8b5cf6 100%)',
-                  boxShadow: '0 8px 32px rgba(236, 72, 153, 0.3)',
-                  width: { xs: '100%', sm: 'auto' },
-                  '&:hover': {
-                    background: 'linear-gradient(135deg, #db2777 0%, #7c3aed 100%)',
-                    transform: 'translateY(-2px)',
-                    boxShadow: '0 12px 40px rgba(236, 72, 153, 0.4)',
-                  },
-                  transition: 'all 0.3s ease'
-                }}
-              >
-                Entrenar Modelo
-              </Button>
             </Stack>
           </Box>
 
@@ -1517,7 +1629,7 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                   sx={{
                     width: 12,
                     height: 12,
-                    bgcolor: aiModel?.status === 'active' ? '#10b981' : '#f59e0b',
+                    bgcolor: error ? '#ef4444' : isLoading ? '#f59e0b' : '#10b981',
                     borderRadius: '50%',
                     animation: 'pulse 2s cubic-bezier(0.4, 0, 0.6, 1) infinite',
                     '@keyframes pulse': {
@@ -1531,7 +1643,15 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                   fontWeight: 700, 
                   fontSize: { xs: '0.95rem', md: '1.1rem' }
                 }}>
-                  <Box component="span" sx={{ fontWeight: 900 }}>IA {aiModel?.status === 'active' ? 'Activa' : 'Entrenando'}</Box> - Modelo entrenado con {stats.total.toLocaleString()} registros de socios
+                  {error ? (
+                    <Box component="span" sx={{ fontWeight: 900 }}>{error}</Box>
+                  ) : insights ? (
+                    <>
+                      <Box component="span" sx={{ fontWeight: 900 }}>Análisis calculado</Box> con {insights.sociosAnalizados.toLocaleString()} socios y {insights.validacionesAnalizadas.toLocaleString()} validaciones de los últimos {insights.ventanaDias} días
+                    </>
+                  ) : (
+                    <Box component="span" sx={{ fontWeight: 900 }}>Calculando análisis...</Box>
+                  )}
                 </Typography>
               </Box>
               <Box sx={{ 
@@ -1542,8 +1662,8 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                 justifyContent: { xs: 'center', sm: 'flex-end' }
               }}>
                 <Chip
-                  icon={<Memory />}
-                  label={`Modelo ${aiModel?.version || 'v2.1.0'}`}
+                  icon={<Info />}
+                  label="Reglas explícitas, sin datos simulados"
                   sx={{
                     bgcolor: alpha('#ec4899', 0.1),
                     color: '#ec4899',
@@ -1556,7 +1676,7 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                   fontWeight: 700,
                   fontSize: { xs: '0.8rem', md: '0.9rem' }
                 }}>
-                  Última actualización: {aiModel ? format(aiModel.lastTrained, 'dd/MM HH:mm') : 'Hace 2 horas'}
+                  Última actualización: {insights ? format(insights.generadoEn, 'dd/MM HH:mm') : '-'}
                 </Typography>
               </Box>
             </Box>
@@ -1603,7 +1723,7 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
               fontWeight: 500,
               fontSize: { xs: '0.9rem', md: '1rem' }
             }}>
-              Recomendaciones y predicciones generadas por IA
+              Riesgo de abandono, pronóstico de crecimiento y saturación de beneficios
             </Typography>
           </Box>
           
@@ -1721,15 +1841,14 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                   mb: 2,
                   fontSize: { xs: '1.1rem', md: '1.25rem' }
                 }}>
-                  Generando Insights
+                  {error ? 'No se pudo calcular el análisis' : 'Sin señales para mostrar'}
                 </Typography>
                 <Typography variant="body1" sx={{ 
                   color: '#64748b', 
                   mb: 4,
                   fontSize: { xs: '0.9rem', md: '1rem' }
                 }}>
-                  La IA está analizando tus datos para generar insights personalizados.
-                  Esto puede tomar unos minutos.
+                  {error || 'Todavía no hay socios activos ni validaciones suficientes para calcular señales.'}
                 </Typography>
                 <Button
                   onClick={handleRefreshAI}
@@ -1748,6 +1867,11 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
               </Paper>
             </motion.div>
           )}
+
+          {/* Socios at risk */}
+          {insights && insights.sociosActivos > 0 && (
+            <SociosEnRiesgoCard socios={insights.riesgo} loading={loading || propLoading} />
+          )}
         </Box>
 
         {/* Sidebar */}
@@ -1759,10 +1883,12 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
           <Stack spacing={{ xs: 3, md: 4 }}>
             {/* Growth Prediction */}
             <PredictionChart
-              title="Predicción de Crecimiento"
+              title="Altas de Socios"
+              subtitle="Últimos meses y pronóstico con rango del 95%"
               data={predictionData}
               color="#10b981"
               loading={loading || propLoading}
+              emptyMessage={insights && !insights.pronostico.disponible ? insights.pronostico.motivo : undefined}
             />
 
             {/* Priority Actions */}
@@ -1840,7 +1966,7 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                           </ListItemIcon>
                           <ListItemText
                             primary={insight.title}
-                            secondary={`${insight.confidence}% confianza • ${insight.impact.toUpperCase()}`}
+                            secondary={`${insight.impact.toUpperCase()} • ${insight.evidencia}`}
                             primaryTypographyProps={{ 
                               fontSize: { xs: '0.8rem', md: '0.9rem' }, 
                               fontWeight: 600,
@@ -1876,7 +2002,7 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
               </Card>
             </motion.div>
 
-            {/* AI Model Status */}
+            {/* Analysis Basis */}
             <motion.div
               initial={{ opacity: 0, x: 20 }}
               animate={{ opacity: 1, x: 0 }}
@@ -1907,7 +2033,7 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                         borderRadius: 3,
                       }}
                     >
-                      <SmartToy />
+                      <DataUsage />
                     </Avatar>
                     <Box>
                       <Typography variant="h6" sx={{ 
@@ -1915,13 +2041,13 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                         color: '#1e293b', 
                         fontSize: { xs: '1rem', md: '1.1rem' }
                       }}>
-                        Estado del Modelo IA
+                        Base del Análisis
                       </Typography>
                       <Typography variant="body2" sx={{ 
                         color: '#64748b', 
                         fontSize: { xs: '0.8rem', md: '0.85rem' }
                       }}>
-                        Información técnica
+                        Datos usados en el cálculo
                       </Typography>
                     </Box>
                   </Box>
@@ -1932,114 +2058,43 @@ export const InsightsIA: React.FC<InsightsIAProps> = ({
                     </Box>
                   ) : (
                     <Stack spacing={2}>
-                      <Box sx={{ 
-                        display: 'flex', 
-                        justifyContent: 'space-between', 
-                        alignItems: 'center',
-                        flexWrap: { xs: 'wrap', sm: 'nowrap' },
-                        gap: { xs: 1, sm: 0 }
-                      }}>
-                        <Typography variant="body2" sx={{ 
-                          fontWeight: 600, 
-                          color: '#475569',
-                          fontSize: { xs: '0.8rem', md: '0.875rem' },
-                          flex: { xs: '1 1 100%', sm: '1 1 auto' }
+                      {[
+                        { label: 'Socios analizados', value: insights?.sociosAnalizados.toLocaleString() ?? '-' },
+                        { label: 'Validaciones', value: insights ? `${insights.validacionesAnalizadas.toLocaleString()} en ${insights.ventanaDias} días` : '-' },
+                        { label: 'Beneficios analizados', value: insights?.beneficiosAnalizados.toLocaleString() ?? '-' },
+                        { label: 'Cohortes de ingreso', value: insights?.cohortes.length.toLocaleString() ?? '-' },
+                        { label: 'Calculado', value: insights ? format(insights.generadoEn, 'dd/MM/yyyy HH:mm') : '-' },
+                      ].map(row => (
+                        <Box key={row.label} sx={{ 
+                          display: 'flex', 
+                          justifyContent: 'space-between', 
+                          alignItems: 'center',
+                          flexWrap: { xs: 'wrap', sm: 'nowrap' },
+                          gap: { xs: 1, sm: 0 }
                         }}>
-                          Versión del Modelo
-                        </Typography>
-                        <Chip
-                          label={aiModel?.version || 'v2.1.0'}
-                          size="small"
-                          sx={{
-                            bgcolor: alpha('#6366f1', 0.1),
-                            color: '#6366f1',
-                            fontWeight: 600,
-                            fontSize: { xs: '0.7rem', md: '0.75rem' },
+                          <Typography variant="body2" sx={{ 
+                            fontWeight: 600, 
+                            color: '#475569',
+                            fontSize: { xs: '0.8rem', md: '0.875rem' },
+                            flex: { xs: '1 1 100%', sm: '1 1 auto' }
+                          }}>
+                            {row.label}
+                          </Typography>
+                          <Typography variant="body2" sx={{ 
+                            fontWeight: 700, 
+                            color: '#1e293b',
+                            fontSize: { xs: '0.8rem', md: '0.875rem' },
                             flex: { xs: '1 1 100%', sm: '0 0 auto' },
-                            justifyContent: { xs: 'center', sm: 'flex-start' }
-                          }}
-                        />
-                      </Box>
-                      
-                      <Box sx={{ 
-                        display: 'flex', 
-                        justifyContent: 'space-between', 
-                        alignItems: 'center',
-                        flexWrap: { xs: 'wrap', sm: 'nowrap' },
-                        gap: { xs: 1, sm: 0 }
-                      }}>
-                        <Typography variant="body2" sx={{ 
-                          fontWeight: 600, 
-                          color: '#475569',
-                          fontSize: { xs: '0.8rem', md: '0.875rem' },
-                          flex: { xs: '1 1 100%', sm: '1 1 auto' }
-                        }}>
-                          Precisión
-                        </Typography>
-                        <Typography variant="body2" sx={{ 
-                          fontWeight: 700, 
-                          color: '#10b981',
-                          fontSize: { xs: '0.8rem', md: '0.875rem' },
-                          flex: { xs: '1 1 100%', sm: '0 0 auto' },
-                          textAlign: { xs: 'left', sm: 'right' }
-                        }}>
-                          {aiModel?.accuracy || 94.2}%
-                        </Typography>
-                      </Box>
-                      
-                      <Box sx={{ 
-                        display: 'flex', 
-                        justifyContent: 'space-between', 
-                        alignItems: 'center',
-                        flexWrap: { xs: 'wrap', sm: 'nowrap' },
-                        gap: { xs: 1, sm: 0 }
-                      }}>
-                        <Typography variant="body2" sx={{ 
-                          fontWeight: 600, 
-                          color: '#475569',
-                          fontSize: { xs: '0.8rem', md: '0.875rem' },
-                          flex: { xs: '1 1 100%', sm: '1 1 auto' }
-                        }}>
-                          Datos de Entrenamiento
-                        </Typography>
-                        <Typography variant="body2" sx={{ 
-                          fontWeight: 700, 
-                          color: '#1e293b',
-                          fontSize: { xs: '0.8rem', md: '0.875rem' },
-                          flex: { xs: '1 1 100%', sm: '0 0 auto' },
-                          textAlign: { xs: 'left', sm: 'right' }
-                        }}>
-                          {aiModel?.dataPoints.toLocaleString() || '12.7K'} registros
-                        </Typography>
-                      </Box>
-                      
-                      <Box sx={{ 
-                        display: 'flex', 
-                        justifyContent: 'space-between', 
-                        alignItems: 'center',
-                        flexWrap: { xs: 'wrap', sm: 'nowrap' },
-                        gap: { xs: 1, sm: 0 }
-                      }}>
-                        <Typography variant="body2" sx={{ 
-                          fontWeight: 600, 
-                          color: '#475569',
-                          fontSize: { xs: '0.8rem', md: '0.875rem' },
-                          flex: { xs: '1 1 100%', sm: '1 1 auto' }
-                        }}>
-                          Estado
-                        </Typography>
-                        <Chip
-                          label={aiModel?.status === 'active' ? 'Activo' : 'Entrenando'}
-                          size="small"
-                          color={aiModel?.status === 'active' ? 'success' : 'warning'}
-                          sx={{ 
-                            fontWeight: 600,
-                            fontSize: { xs: '0.7rem', md: '0.75rem' },
-                            flex: { xs: '1 1 100%', sm: '0 0 auto' },
-                            justifyContent: { xs: 'center', sm: 'flex-start' }
-                          }}
-                        />
-                      </Box>
+                            textAlign: { xs: 'left', sm: 'right' }
+                          }}>
+                            {row.value}
+                          </Typography>
+                        </Box>
+                      ))}
+                      <Typography variant="caption" sx={{ color: '#94a3b8', lineHeight: 1.5 }}>
+                        El puntaje de riesgo suma recencia y frecuencia de validaciones, vencimiento de la
+                        membresía y atraso en las cuotas. Es un índice para priorizar, no una probabilidad.
+                      </Typography>
                     </Stack>
                   )}
                 </CardContent>
@@ -24,6 +24,12 @@ import {
   CircularProgress,
   LinearProgress,
   Alert,
+  TextField,
+  Checkbox,
+  FormGroup,
+  FormControlLabel,
+  Switch,
+  Tooltip,
 } from '@mui/material';
 import {
   Assessment,
@@ -53,11 +59,20 @@ import {
   Analytics,
   Delete,
   ErrorOutline,
+  Add,
+  GridOn,
 } from '@mui/icons-material';
 import { Timestamp } from 'firebase/firestore';
 import { useAuth } from '@/hooks/useAuth';
 import { useSocios } from '@/hooks/useSocios';
-import { reportsService, ReportData } from '@/services/reports.service';
+import { reportsService, ReportData, NuevoReporteProgramado } from '@/services/reports.service';
+import {
+  HORA_ENVIO_REPORTES,
+  MAX_DESTINATARIOS_REPORTE,
+  REPORT_FORMAT_LABELS,
+  REPORT_FREQUENCY_LABELS,
+} from '@/lib/report-schedule';
+import { ReportFile, ReportFileFormat, ReportFrequency, ReportSchedule } from '@/types/reports';
 import { format, subDays, startOfDay, endOfDay } from 'date-fns';
 import { es } from 'date-fns/locale';
 import toast from 'react-hot-toast';
@@ -686,6 +701,143 @@ const ReportPreviewDialog: React.FC<{
   );
 };
 
+const ScheduleReportDialog: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  templates: ReportTemplate[];
+  onCreate: (nuevo: Omit<NuevoReporteProgramado, 'userId' | 'asociacionId'>) => Promise<void>;
+}> = ({ open, onClose, templates, onCreate }) => {
+  const [templateId, setTemplateId] = useState('');
+  const [frequency, setFrequency] = useState<ReportFrequency>('weekly');
+  const [formats, setFormats] = useState<ReportFileFormat[]>(['pdf', 'xlsx']);
+  const [recipientsText, setRecipientsText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setTemplateId(templates[0]?.id || '');
+    setFrequency('weekly');
+    setFormats(['pdf', 'xlsx']);
+    setRecipientsText('');
+    setFormError(null);
+  }, [open, templates]);
+
+  const toggleFormat = (formato: ReportFileFormat) => {
+    setFormats(prev => prev.includes(formato) ? prev.filter(f => f !== formato) : [...prev, formato]);
+  };
+
+  const handleSubmit = async () => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template) {
+      setFormError('Elegí un reporte');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setFormError(null);
+      await onCreate({ templateId, templateTitle: template.title, frequency, formats, recipientsText });
+      onClose();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Error al programar el envío');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth PaperProps={{ sx: { borderRadius: 3 } }}>
+      <DialogTitle sx={{ fontWeight: 700, borderBottom: '1px solid #e2e8f0' }}>
+        Programar envío de reporte
+      </DialogTitle>
+      <DialogContent sx={{ pt: '20px !important', display: 'flex', flexDirection: 'column', gap: 2.5 }}>
+        <FormControl size="small" fullWidth>
+          <InputLabel>Reporte</InputLabel>
+          <Select value={templateId} onChange={(e) => setTemplateId(e.target.value)} label="Reporte">
+            {templates.map(template => (
+              <MenuItem key={template.id} value={template.id}>
+                {template.title}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <FormControl size="small" fullWidth>
+          <InputLabel>Frecuencia</InputLabel>
+          <Select
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value as ReportFrequency)}
+            label="Frecuencia"
+          >
+            {(Object.keys(REPORT_FREQUENCY_LABELS) as ReportFrequency[]).map(value => (
+              <MenuItem key={value} value={value}>
+                {REPORT_FREQUENCY_LABELS[value]}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <Box>
+          <Typography variant="body2" sx={{ fontWeight: 600, color: '#334155', mb: 0.5 }}>
+            Formatos adjuntos
+          </Typography>
+          <FormGroup row>
+            {(Object.keys(REPORT_FORMAT_LABELS) as ReportFileFormat[]).map(value => (
+              <FormControlLabel
+                key={value}
+                control={<Checkbox size="small" checked={formats.includes(value)} onChange={() => toggleFormat(value)} />}
+                label={REPORT_FORMAT_LABELS[value]}
+              />
+            ))}
+          </FormGroup>
+        </Box>
+
+        <TextField
+          label="Destinatarios"
+          value={recipientsText}
+          onChange={(e) => setRecipientsText(e.target.value)}
+          placeholder="tesoreria@asociacion.org, comision@asociacion.org"
+          helperText={`Separados por coma o en líneas distintas, hasta ${MAX_DESTINATARIOS_REPORTE}`}
+          multiline
+          minRows={2}
+          size="small"
+          fullWidth
+        />
+
+        <Alert severity="info" sx={{ fontSize: '0.8rem' }}>
+          El reporte se genera a las {HORA_ENVIO_REPORTES} con los datos del período anterior y queda también
+          en el historial de reportes.
+        </Alert>
+
+        {formError && (
+          <Alert severity="error" sx={{ fontSize: '0.8rem' }}>
+            {formError}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 3, borderTop: '1px solid #e2e8f0' }}>
+        <Button onClick={onClose} disabled={saving} sx={{ textTransform: 'none' }}>
+          Cancelar
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          variant="contained"
+          disabled={saving || formats.length === 0}
+          startIcon={saving ? <CircularProgress size={14} color="inherit" /> : <Schedule />}
+          sx={{
+            textTransform: 'none',
+            fontWeight: 600,
+            background: 'linear-gradient(135deg, #f59e0b 0%, #d97706 100%)',
+          }}
+        >
+          Programar
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
 export const ReportsSection: React.FC<ReportsSectionProps> = ({
   loading: propLoading = false
 }) => {
@@ -701,6 +853,9 @@ export const ReportsSection: React.FC<ReportsSectionProps> = ({
     template: null
   });
   const [error, setError] = useState<string | null>(null);
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
+  const [downloadingFile, setDownloadingFile] = useState<string | null>(null);
 
   const reportTemplates: ReportTemplate[] = useMemo(() => [
     {
@@ -811,6 +966,20 @@ export const ReportsSection: React.FC<ReportsSectionProps> = ({
       estimatedTime: '2-3 min',
       dataPoints: stats.total * 6,
       popularity: 68,
+    },
+    {
+      id: 'cohort-analysis',
+      title: 'Cohortes y Valor de Vida',
+      description: 'Retención mensual por mes de ingreso, ingresos por cohorte y LTV por plan de cuota',
+      icon: <GridOn sx={{ fontSize: 22 }} />,
+      color: '#14b8a6',
+      gradient: 'linear-gradient(135deg, #14b8a6 0%, #0d9488 100%)',
+      category: 'members',
+      reportType: 'table',
+      estimatedTime: '1-2 min',
+      dataPoints: stats.total * 12,
+      popularity: 70,
+      isNew: true,
     }
   ], [stats.total]);
 
@@ -854,6 +1023,14 @@ export const ReportsSection: React.FC<ReportsSectionProps> = ({
     }
   }, [user]);
 
+  // Envíos programados de la asociación
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = reportsService.subscribeToSchedules(user.uid, setSchedules);
+    return () => unsubscribe();
+  }, [user]);
+
   const filteredTemplates = useMemo(() => {
     if (categoryFilter === 'all') return reportTemplates;
     return reportTemplates.filter(template => template.category === categoryFilter);
@@ -937,9 +1114,9 @@ export const ReportsSection: React.FC<ReportsSectionProps> = ({
     setPreviewDialog({ open: true, template: template || null });
   };
 
-  const handleDeleteReport = async (reportId: string) => {
+  const handleDeleteReport = async (report: ReportData) => {
     try {
-      await reportsService.deleteReport(reportId);
+      await reportsService.deleteReport(report.id!, Boolean(report.files?.length));
       toast.success('Reporte eliminado exitosamente');
     } catch (error) {
       console.error('Error deleting report:', error);
@@ -955,6 +1132,54 @@ export const ReportsSection: React.FC<ReportsSectionProps> = ({
     }
   };
 
+  // Archivos de los reportes programados, servidos por /api/reports
+  const handleDownloadFile = async (report: ReportData, file: ReportFile) => {
+    const key = `${report.id}-${file.format}`;
+    try {
+      setDownloadingFile(key);
+      const blob = await reportsService.downloadReportFile(report.id!, file);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading report file:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al descargar el archivo');
+    } finally {
+      setDownloadingFile(null);
+    }
+  };
+
+  const handleCreateSchedule = async (nuevo: Omit<NuevoReporteProgramado, 'userId' | 'asociacionId'>) => {
+    if (!user) {
+      throw new Error('Usuario no autenticado');
+    }
+    await reportsService.createSchedule({ ...nuevo, userId: user.uid, asociacionId: user.uid });
+    toast.success('Envío programado');
+  };
+
+  const handleToggleSchedule = async (schedule: ReportSchedule) => {
+    try {
+      await reportsService.setScheduleActive(schedule, !schedule.isActive);
+      toast.success(schedule.isActive ? 'Envío pausado' : 'Envío reactivado');
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      toast.error('Error al actualizar el envío');
+    }
+  };
+
+  const handleDeleteSchedule = async (scheduleId: string) => {
+    try {
+      await reportsService.deleteSchedule(scheduleId);
+      toast.success('Envío eliminado');
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      toast.error('Error al eliminar el envío');
+    }
+  };
+
   const summaryMetrics = useMemo(() => [
     {
       title: 'Reportes Disponibles',
@@ -1332,6 +1557,132 @@ export const ReportsSection: React.FC<ReportsSectionProps> = ({
         </motion.div>
       )}
 
+      {/* Scheduled Reports Section */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.2 }}
+      >
+        <Box sx={{ mt: 6 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2, mb: 3 }}>
+            <Box>
+              <Typography variant="h5" sx={{ fontWeight: 700, color: '#1e293b' }}>
+                Envíos Programados
+              </Typography>
+              <Typography variant="body2" sx={{ color: '#64748b' }}>
+                Reportes que se generan y envían por email automáticamente
+              </Typography>
+            </Box>
+            <Button
+              onClick={() => setScheduleDialogOpen(true)}
+              variant="outlined"
+              startIcon={<Add sx={{ fontSize: 16 }} />}
+              size="small"
+              sx={{
+                textTransform: 'none',
+                fontWeight: 600,
+                borderRadius: 2,
+                color: '#d97706',
+                borderColor: alpha('#f59e0b', 0.5),
+                '&:hover': {
+                  borderColor: '#f59e0b',
+                  bgcolor: alpha('#f59e0b', 0.05),
+                },
+              }}
+            >
+              Programar envío
+            </Button>
+          </Box>
+
+          {schedules.length === 0 ? (
+            <Paper
+              elevation={0}
+              sx={{ p: 3, textAlign: 'center', border: '2px dashed #e2e8f0', borderRadius: 2, bgcolor: '#fafbfc' }}
+            >
+              <Typography variant="body2" sx={{ color: '#64748b' }}>
+                Todavía no hay envíos programados. Suscribite a un reporte para recibirlo cada semana o cada mes.
+              </Typography>
+            </Paper>
+          ) : (
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              {schedules.map(schedule => (
+                <Card key={schedule.id} elevation={0} sx={{ border: '1px solid #e2e8f0', borderRadius: 2 }}>
+                  <CardContent sx={{ p: 2.5 }}>
+                    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 2 }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flex: '1 1 auto', minWidth: 0 }}>
+                        <Avatar
+                          sx={{
+                            width: 32,
+                            height: 32,
+                            bgcolor: alpha(schedule.isActive ? '#f59e0b' : '#94a3b8', 0.1),
+                            color: schedule.isActive ? '#f59e0b' : '#94a3b8',
+                            borderRadius: 2,
+                            flexShrink: 0,
+                          }}
+                        >
+                          <Schedule sx={{ fontSize: 18 }} />
+                        </Avatar>
+                        <Box sx={{ minWidth: 0, flex: 1 }}>
+                          <Typography variant="body1" sx={{ fontWeight: 600, color: '#1e293b', fontSize: '0.9rem' }}>
+                            {schedule.templateTitle}
+                          </Typography>
+                          <Typography variant="caption" sx={{ color: '#64748b', fontSize: '0.75rem', display: 'block' }}>
+                            {REPORT_FREQUENCY_LABELS[schedule.frequency]}
+                            {' • '}
+                            {schedule.formats.map(formato => REPORT_FORMAT_LABELS[formato]).join(' + ')}
+                            {schedule.isActive && schedule.nextRun &&
+                              ` • Próximo envío: ${format(schedule.nextRun.toDate(), 'dd/MM/yyyy HH:mm', { locale: es })}`}
+                          </Typography>
+                          <Typography variant="caption" sx={{ color: '#94a3b8', fontSize: '0.7rem', wordBreak: 'break-all' }}>
+                            {schedule.recipients.join(', ')}
+                          </Typography>
+                        </Box>
+                      </Box>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexShrink: 0 }}>
+                        {schedule.lastStatus && schedule.lastStatus !== 'running' && (
+                          <Chip
+                            label={schedule.lastStatus === 'completed' ? 'Último envío OK' : 'Último envío con error'}
+                            size="small"
+                            color={schedule.lastStatus === 'completed' ? 'success' : 'error'}
+                            variant="outlined"
+                            sx={{ fontWeight: 600, fontSize: '0.7rem' }}
+                          />
+                        )}
+                        <Tooltip title={schedule.isActive ? 'Pausar envío' : 'Reactivar envío'}>
+                          <Switch
+                            size="small"
+                            checked={schedule.isActive}
+                            onChange={() => handleToggleSchedule(schedule)}
+                          />
+                        </Tooltip>
+                        <IconButton
+                          size="small"
+                          onClick={() => handleDeleteSchedule(schedule.id)}
+                          sx={{
+                            color: '#ef4444',
+                            '&:hover': {
+                              bgcolor: alpha('#ef4444', 0.1),
+                            }
+                          }}
+                        >
+                          <Delete sx={{ fontSize: 16 }} />
+                        </IconButton>
+                      </Box>
+                    </Box>
+
+                    {schedule.lastError && (
+                      <Alert severity={schedule.lastStatus === 'failed' ? 'error' : 'warning'} sx={{ mt: 2, fontSize: '0.8rem' }}>
+                        {schedule.lastError}
+                      </Alert>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </Box>
+          )}
+        </Box>
+      </motion.div>
+
       {/* Recent Reports Section */}
       {generatedReports.length > 0 && (
         <motion.div
@@ -1398,13 +1749,28 @@ export const ReportsSection: React.FC<ReportsSectionProps> = ({
                              <ErrorOutline sx={{ fontSize: 18 }} />}
                           </Avatar>
                           <Box sx={{ minWidth: 0, flex: 1 }}>
-                            <Typography variant="body1" sx={{ fontWeight: 600, color: '#1e293b', fontSize: '0.9rem' }}>
-                              {report.title}
-                            </Typography>
+                            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                              <Typography variant="body1" sx={{ fontWeight: 600, color: '#1e293b', fontSize: '0.9rem' }}>
+                                {report.title}
+                              </Typography>
+                              {report.origin === 'scheduled' && (
+                                <Chip
+                                  icon={<Schedule sx={{ fontSize: 12 }} />}
+                                  label="Programado"
+                                  size="small"
+                                  sx={{ height: 20, fontSize: '0.65rem', fontWeight: 600, bgcolor: alpha('#f59e0b', 0.1), color: '#d97706' }}
+                                />
+                              )}
+                            </Box>
                             <Typography variant="caption" sx={{ color: '#64748b', fontSize: '0.75rem' }}>
                               {format(report.generatedAt.toDate(), 'dd/MM/yyyy HH:mm', { locale: es })}
                               {report.fileSize && ` • ${report.fileSize}`}
                             </Typography>
+                            {report.emailedTo && report.emailedTo.length > 0 && (
+                              <Typography variant="caption" sx={{ color: '#94a3b8', fontSize: '0.7rem', display: 'block', wordBreak: 'break-all' }}>
+                                Enviado a {report.emailedTo.join(', ')}
+                              </Typography>
+                            )}
                           </Box>
                         </Box>
                         <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexShrink: 0 }}>
@@ -1418,21 +1784,47 @@ export const ReportsSection: React.FC<ReportsSectionProps> = ({
                           />
                           {report.status === 'completed' && (
                             <>
+                              {report.files && report.files.length > 0 ? (
+                                report.files.map(file => (
+                                  <Button
+                                    key={file.format}
+                                    size="small"
+                                    onClick={() => handleDownloadFile(report, file)}
+                                    disabled={downloadingFile === `${report.id}-${file.format}`}
+                                    startIcon={downloadingFile === `${report.id}-${file.format}`
+                                      ? <CircularProgress size={12} color="inherit" />
+                                      : <Download sx={{ fontSize: 14 }} />}
+                                    sx={{
+                                      minWidth: 0,
+                                      textTransform: 'none',
+                                      fontWeight: 600,
+                                      fontSize: '0.7rem',
+                                      color: '#d97706',
+                                      '&:hover': {
+                                        bgcolor: alpha('#f59e0b', 0.1),
+                                      }
+                                    }}
+                                  >
+                                    {file.format.toUpperCase()}
+                                  </Button>
+                                ))
+                              ) : (
+                                <IconButton
+                                  size="small"
+                                  onClick={() => handleDownloadReport(report)}
+                                  sx={{
+                                    color: '#f59e0b',
+                                    '&:hover': {
+                                      bgcolor: alpha('#f59e0b', 0.1),
+                                    }
+                                  }}
+                                >
+                                  <Download sx={{ fontSize: 16 }} />
+                                </IconButton>
+                              )}
                               <IconButton
                                 size="small"
-                                onClick={() => handleDownloadReport(report)}
-                                sx={{
-                                  color: '#f59e0b',
-                                  '&:hover': {
-                                    bgcolor: alpha('#f59e0b', 0.1),
-                                  }
-                                }}
-                              >
-                                <Download sx={{ fontSize: 16 }} />
-                              </IconButton>
-                              <IconButton
-                                size="small"
-                                onClick={() => handleDeleteReport(report.id!)}
+                                onClick={() => handleDeleteReport(report)}
                                 sx={{
                                   color: '#ef4444',
                                   '&:hover': {
@@ -1496,6 +1888,13 @@ export const ReportsSection: React.FC<ReportsSectionProps> = ({
         template={previewDialog.template}
         onGenerate={handleGenerateReport}
       />
+
+      <ScheduleReportDialog
+        open={scheduleDialogOpen}
+        onClose={() => setScheduleDialogOpen(false)}
+        templates={reportTemplates}
+        onCreate={handleCreateSchedule}
+      />
     </Box>
   );
 };
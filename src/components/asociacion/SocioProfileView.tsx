@@ -35,6 +35,7 @@ import {
   Security,
   Share,
   Close,
+  FamilyRestroom,
 } from '@mui/icons-material';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
@@ -43,6 +44,8 @@ import { HistorialValidacion } from '@/services/validaciones.service';
 import { socioService } from '@/services/socio.service';
 import { validacionesService } from '@/services/validaciones.service';
 import { safeFormatTimestamp } from '@/lib/utils';
+import { PARENTESCO_LABELS } from '@/lib/grupo-familiar';
+import { useGrupoFamiliar } from '@/hooks/useGrupoFamiliar';
 import toast from 'react-hot-toast';
 
 interface SocioProfileViewProps {
@@ -120,6 +123,10 @@ export const SocioProfileView: React.FC<SocioProfileViewProps> = ({
   const [stats, setStats] = useState<SocioStats | null>(null);
   const [validaciones, setValidaciones] = useState<HistorialValidacion[]>([]);
   const [loading, setLoading] = useState(false);
+  const grupoFamiliar = useGrupoFamiliar(open ? socio.id : null);
+  const integrantesGrupo = grupoFamiliar.titular
+    ? [grupoFamiliar.titular, ...grupoFamiliar.dependientes].filter(integrante => integrante.id !== socio.id)
+    : [];
 
   // Detectar el ancho de la pantalla para calcular la posición
   const [screenWidth, setScreenWidth] = useState(0);
@@ -546,6 +553,36 @@ export const SocioProfileView: React.FC<SocioProfileViewProps> = ({
                   </div>
                 </div>
               </div>
+
+              {/* Grupo familiar: la membresía y la cuota son las del titular */}
+              {integrantesGrupo.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 flex items-center mb-3">
+                    <FamilyRestroom className="w-4 h-4 mr-2 text-teal-600" />
+                    Grupo Familiar
+                  </h4>
+
+                  <div className="space-y-2">
+                    <InfoItem
+                      icon={<Person />}
+                      label="Rol en el grupo"
+                      value={socio.titularId
+                        ? `Dependiente${socio.parentesco ? ` (${PARENTESCO_LABELS[socio.parentesco]})` : ''}`
+                        : 'Titular'}
+                    />
+                    {integrantesGrupo.map(integrante => (
+                      <InfoItem
+                        key={integrante.id}
+                        icon={<AccountCircle />}
+                        label={integrante.titularId
+                          ? (integrante.parentesco ? PARENTESCO_LABELS[integrante.parentesco] : 'Dependiente')
+                          : 'Titular'}
+                        value={`${integrante.nombre} · #${integrante.numeroSocio}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </TabPanel>
 
@@ -70,6 +70,8 @@ export const BeneficioCard: React.FC<BeneficioCardProps> = ({
         return `$${beneficio.descuento} OFF`;
       case 'producto_gratis':
         return 'GRATIS';
+      case 'puntos':
+        return `${beneficio.costoPuntos ?? 0} PTS`;
       default:
         return 'DESCUENTO';
     }
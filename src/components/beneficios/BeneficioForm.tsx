@@ -38,7 +38,8 @@ interface FormDataState {
   titulo: string;
   descripcion: string;
   categoria: string;
-  tipo: 'porcentaje' | 'monto_fijo' | 'producto_gratis';
+  tipo: 'porcentaje' | 'monto_fijo' | 'producto_gratis' | 'puntos';
+  // En los beneficios de tipo puntos guarda el costo en puntos
   descuento: string;
   fechaInicio: string;
   fechaFin: string;
@@ -183,7 +184,7 @@ export const BeneficioForm: React.FC<BeneficioFormProps> = ({
         descripcion: beneficio.descripcion || '',
         categoria: beneficio.categoria || '',
         tipo: beneficio.tipo || 'porcentaje',
-        descuento: beneficio.descuento?.toString() || '',
+        descuento: (beneficio.tipo === 'puntos' ? beneficio.costoPuntos : beneficio.descuento)?.toString() || '',
         fechaInicio: formatearFechaParaInput(beneficio.fechaInicio),
         fechaFin: formatearFechaParaInput(beneficio.fechaFin),
         limitePorSocio: beneficio.limitePorSocio?.toString() || '',
@@ -226,7 +227,9 @@ export const BeneficioForm: React.FC<BeneficioFormProps> = ({
     if (!formData.titulo.trim()) newErrors.titulo = 'El título es requerido';
     if (!formData.descripcion.trim()) newErrors.descripcion = 'La descripción es requerida';
     if (!formData.categoria.trim()) newErrors.categoria = 'La categoría es requerida';
-    if (!formData.descuento.trim()) newErrors.descuento = 'El descuento es requerido';
+    if (!formData.descuento.trim()) {
+      newErrors.descuento = formData.tipo === 'puntos' ? 'El costo en puntos es requerido' : 'El descuento es requerido';
+    }
     if (!formData.fechaInicio) newErrors.fechaInicio = 'La fecha de inicio es requerida';
     if (!formData.fechaFin) newErrors.fechaFin = 'La fecha de fin es requerida';
 
@@ -241,7 +244,11 @@ export const BeneficioForm: React.FC<BeneficioFormProps> = ({
 
     // Validar descuento según el tipo
     const descuentoNum = parseFloat(formData.descuento);
-    if (isNaN(descuentoNum) || descuentoNum <= 0) {
+    if (formData.tipo === 'puntos') {
+      if (!Number.isInteger(descuentoNum) || descuentoNum <= 0) {
+        newErrors.descuento = 'El costo debe ser una cantidad entera de puntos mayor a 0';
+      }
+    } else if (isNaN(descuentoNum) || descuentoNum <= 0) {
       newErrors.descuento = 'El descuento debe ser un número mayor a 0';
     } else if (formData.tipo === 'porcentaje' && descuentoNum > 100) {
       newErrors.descuento = 'El porcentaje no puede ser mayor a 100';
@@ -260,7 +267,8 @@ export const BeneficioForm: React.FC<BeneficioFormProps> = ({
         descripcion: formData.descripcion.trim(),
         categoria: formData.categoria.trim(),
         tipo: formData.tipo,
-        descuento: parseFloat(formData.descuento),
+        descuento: formData.tipo === 'puntos' ? 0 : parseFloat(formData.descuento),
+        costoPuntos: formData.tipo === 'puntos' ? parseInt(formData.descuento) : undefined,
         fechaInicio: new Date(formData.fechaInicio),
         fechaFin: new Date(formData.fechaFin),
         limitePorSocio: formData.limitePorSocio ? parseInt(formData.limitePorSocio) : undefined,
@@ -461,24 +469,27 @@ export const BeneficioForm: React.FC<BeneficioFormProps> = ({
                       </label>
                       <select
                         value={formData.tipo}
-                        onChange={(e) => setFormData({ ...formData, tipo: e.target.value as 'porcentaje' | 'monto_fijo' | 'producto_gratis' })}
+                        onChange={(e) => setFormData({ ...formData, tipo: e.target.value as FormDataState['tipo'] })}
                         className="w-full px-4 py-3 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
                       >
                         <option value="porcentaje">Porcentaje de descuento</option>
                         <option value="monto_fijo">Monto fijo de descuento</option>
                         <option value="producto_gratis">Producto/Servicio gratis</option>
+                        <option value="puntos">Canje con puntos</option>
                       </select>
                     </div>
 
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Valor del Descuento *
+                        {formData.tipo === 'puntos' ? 'Costo en Puntos *' : 'Valor del Descuento *'}
                       </label>
                       <div className="relative">
                         {formData.tipo === 'porcentaje' ? (
                           <Percent className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
                         ) : formData.tipo === 'monto_fijo' ? (
                           <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                        ) : formData.tipo === 'puntos' ? (
+                          <Star className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
                         ) : (
                           <Package className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
                         )}
@@ -491,7 +502,8 @@ export const BeneficioForm: React.FC<BeneficioFormProps> = ({
                           }`}
                           placeholder={
                             formData.tipo === 'porcentaje' ? '20' : 
-                            formData.tipo === 'monto_fijo' ? '1000' : '1'
+                            formData.tipo === 'monto_fijo' ? '1000' :
+                            formData.tipo === 'puntos' ? '500' : '1'
                           }
                           min="0"
                           max={formData.tipo === 'porcentaje' ? '100' : undefined}
@@ -14,7 +14,8 @@ import {
   AlertCircle,
   RefreshCw,
   Clock,
-  Users
+  Users,
+  Star
 } from 'lucide-react';
 import { BeneficioForm } from '@/components/beneficios/BeneficioForm';
 import { Button } from '@/components/ui/Button';
@@ -37,6 +38,8 @@ const BeneficioCard: React.FC<{
         return <DollarSign className="w-5 h-5 text-white" />;
       case 'producto_gratis':
         return <Package className="w-5 h-5 text-white" />;
+      case 'puntos':
+        return <Star className="w-5 h-5 text-white" />;
       default:
         return <Gift className="w-5 h-5 text-white" />;
     }
@@ -50,6 +53,8 @@ const BeneficioCard: React.FC<{
         return `$${beneficio.descuento} OFF`;
       case 'producto_gratis':
         return 'GRATIS';
+      case 'puntos':
+        return `${beneficio.costoPuntos ?? 0} PTS`;
       default:
         return '';
     }
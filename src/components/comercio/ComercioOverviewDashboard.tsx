@@ -34,6 +34,7 @@ import { db } from '@/lib/firebase';
 import { useAuth } from '@/hooks/useAuth';
 import { useComercio } from '@/hooks/useComercio';
 import { useBeneficios } from '@/hooks/useBeneficios';
+import { useRotatingQRToken } from '@/hooks/useRotatingQRToken';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import Image from 'next/image';
@@ -302,11 +303,15 @@ const ComercioStatusCard: React.FC<{
   health: ComercioHealth;
   loading: boolean;
   comercio: {
+    id?: string;
     qrCode?: string;
     nombreComercio?: string;
   };
   onGenerateQR?: () => void;
 }> = ({ health, loading, comercio, onGenerateQR }) => {
+  // En pantalla se muestra el QR rotativo; el guardado es el que se imprime
+  const rotatingQR = useRotatingQRToken(comercio.qrCode ? comercio.id : null);
+
   const getStatusConfig = (status: string) => {
     switch (status) {
       case 'excellent': 
@@ -434,13 +439,20 @@ const ComercioStatusCard: React.FC<{
             className="text-center p-6 bg-slate-50/80 rounded-2xl border border-slate-200/50"
           >
             <div className="relative inline-block mb-4">
-              <Image
-                src={comercio.qrCode}
-                alt="QR Code"
-                width={140}
-                height={140}
-                className="w-35 h-35 mx-auto rounded-2xl shadow-lg"
-              />
+              {rotatingQR.qrDataUrl ? (
+                <Image
+                  src={rotatingQR.qrDataUrl}
+                  alt="QR Code"
+                  width={140}
+                  height={140}
+                  className="w-35 h-35 mx-auto rounded-2xl shadow-lg"
+                  unoptimized
+                />
+              ) : (
+                <div className="w-35 h-35 mx-auto rounded-2xl bg-slate-100 flex items-center justify-center text-slate-500 text-sm">
+                  {rotatingQR.error || 'Generando código...'}
+                </div>
+              )}
               <div className="absolute -top-2 -right-2 w-6 h-6 bg-emerald-500 rounded-full border-2 border-white shadow-lg flex items-center justify-center">
                 <CheckCircle className="w-3 h-3 text-white" />
               </div>
@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, CloudOff, RefreshCw, RotateCcw, Trash2, UploadCloud } from 'lucide-react';
+import { OfflineRedencion } from '@/lib/offline-validation-store';
+
+interface OfflineValidationQueueProps {
+  isOnline: boolean;
+  pendientes: OfflineRedencion[];
+  conflictos: OfflineRedencion[];
+  syncing: boolean;
+  onSync: () => void;
+  onRetry: (redencion: OfflineRedencion) => void;
+  onDiscard: (id: string) => void;
+}
+
+const formatFecha = (millis: number) =>
+  new Date(millis).toLocaleString('es-AR', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Cola de validaciones hechas sin conexión y lista de conflictos a revisar
+ */
+export const OfflineValidationQueue: React.FC<OfflineValidationQueueProps> = ({
+  isOnline,
+  pendientes,
+  conflictos,
+  syncing,
+  onSync,
+  onRetry,
+  onDiscard,
+}) => {
+  if (pendientes.length === 0 && conflictos.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {pendientes.length > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-blue-50 border border-blue-200 rounded-2xl p-4">
+          <div className="flex items-center gap-3">
+            <CloudOff className="w-5 h-5 text-blue-600" />
+            <p className="text-blue-900 font-medium">
+              {pendientes.length} validación(es) sin conexión pendientes de sincronizar
+            </p>
+          </div>
+          <button
+            onClick={onSync}
+            disabled={!isOnline || syncing}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-xl font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {syncing ? <RefreshCw className="w-4 h-4 animate-spin" /> : <UploadCloud className="w-4 h-4" />}
+            {isOnline ? 'Sincronizar ahora' : 'Esperando conexión'}
+          </button>
+        </div>
+      )}
+
+      {conflictos.length > 0 && (
+        <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-amber-200 p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            <h3 className="text-lg font-bold text-gray-900">Validaciones a revisar</h3>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">
+            El servidor rechazó estas validaciones hechas sin conexión. El descuento ya se aplicó en caja:
+            revisa cada caso y descártalo cuando lo hayas resuelto.
+          </p>
+
+          <ul className="space-y-3">
+            <AnimatePresence>
+              {conflictos.map(conflicto => (
+                <motion.li
+                  key={conflicto.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-2xl bg-amber-50 border border-amber-200"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                >
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      {conflicto.socioNombre}
+                      {conflicto.numeroSocio && ` · N° ${conflicto.numeroSocio}`}
+                    </p>
+                    <p className="text-sm text-gray-700">
+                      {conflicto.beneficioTitulo} · {formatFecha(conflicto.capturadoEn)}
+                    </p>
+                    <p className="text-sm text-amber-800 mt-1">{conflicto.conflicto?.message}</p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => onRetry(conflicto)}
+                      disabled={syncing}
+                      className="inline-flex items-center gap-1 px-3 py-2 bg-white text-gray-700 rounded-xl text-sm font-medium border border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Reintentar
+                    </button>
+                    <button
+                      onClick={() => onDiscard(conflicto.id)}
+                      className="inline-flex items-center gap-1 px-3 py-2 bg-white text-red-600 rounded-xl text-sm font-medium border border-red-200 hover:bg-red-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Descartar
+                    </button>
+                  </div>
+                </motion.li>
+              ))}
+            </AnimatePresence>
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
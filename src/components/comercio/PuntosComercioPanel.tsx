@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowDownCircle, ArrowUpCircle, Receipt, RefreshCw, Star } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useAuth } from '@/hooks/useAuth';
+import { fidelizacionService } from '@/services/fidelizacion.service';
+import { MovimientoPuntos } from '@/types/fidelizacion';
+
+const formatFecha = (movimiento: MovimientoPuntos) =>
+  movimiento.creadoEn
+    ? movimiento.creadoEn.toDate().toLocaleString('es-AR', { dateStyle: 'short', timeStyle: 'short' })
+    : 'Procesando…';
+
+/**
+ * Estado de cuenta del comercio: puntos que los socios ganaron con sus
+ * validaciones y puntos que canjearon por beneficios del comercio
+ */
+export const PuntosComercioPanel: React.FC = () => {
+  const { user } = useAuth();
+  const [movimientos, setMovimientos] = useState<MovimientoPuntos[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const cargar = useCallback(async () => {
+    if (!user?.uid) return;
+
+    setLoading(true);
+    setMovimientos(await fidelizacionService.getMovimientosComercio(user.uid, 100));
+    setLoading(false);
+  }, [user?.uid]);
+
+  useEffect(() => {
+    cargar();
+  }, [cargar]);
+
+  const { otorgados, canjeados } = useMemo(() => movimientos.reduce(
+    (totales, movimiento) => movimiento.tipo === 'canje'
+      ? { ...totales, canjeados: totales.canjeados - movimiento.puntos }
+      : { ...totales, otorgados: totales.otorgados + movimiento.puntos },
+    { otorgados: 0, canjeados: 0 }
+  ), [movimientos]);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <motion.div
+          className="bg-gradient-to-br from-emerald-50 to-green-100 rounded-2xl p-6 border border-emerald-200/50 shadow-lg"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <p className="text-sm font-semibold text-emerald-600">Puntos otorgados</p>
+          <p className="text-3xl font-black text-emerald-700">{otorgados.toLocaleString('es-AR')}</p>
+          <p className="text-xs text-emerald-600 mt-1">Ganados por socios al usar tus beneficios</p>
+        </motion.div>
+        <motion.div
+          className="bg-gradient-to-br from-violet-50 to-purple-100 rounded-2xl p-6 border border-violet-200/50 shadow-lg"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+        >
+          <p className="text-sm font-semibold text-violet-600">Puntos canjeados</p>
+          <p className="text-3xl font-black text-violet-700">{canjeados.toLocaleString('es-AR')}</p>
+          <p className="text-xs text-violet-600 mt-1">Usados por socios en tus beneficios con puntos</p>
+        </motion.div>
+      </div>
+
+      <div className="bg-white/80 backdrop-blur-xl rounded-2xl border border-white/20 shadow-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <Receipt className="w-5 h-5 text-violet-600" />
+            <h3 className="text-lg font-bold text-gray-900">Movimientos de puntos</h3>
+          </div>
+          <Button variant="outline" size="sm" leftIcon={<RefreshCw size={14} />} onClick={cargar} loading={loading}>
+            Actualizar
+          </Button>
+        </div>
+
+        {!loading && movimientos.length === 0 ? (
+          <div className="text-center py-10">
+            <Star className="w-10 h-10 text-violet-300 mx-auto mb-2" />
+            <p className="text-sm text-gray-500">Todavía no hay movimientos de puntos en tu comercio</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {movimientos.map(movimiento => (
+              <li key={movimiento.id} className="flex items-center justify-between py-3 gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  {movimiento.tipo === 'canje' ? (
+                    <ArrowDownCircle className="w-5 h-5 text-rose-500 flex-shrink-0" />
+                  ) : (
+                    <ArrowUpCircle className="w-5 h-5 text-emerald-500 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{movimiento.descripcion}</p>
+                    <p className="text-xs text-gray-500">{formatFecha(movimiento)}</p>
+                  </div>
+                </div>
+                <span className={`font-bold ${movimiento.tipo === 'canje' ? 'text-rose-600' : 'text-emerald-600'}`}>
+                  {movimiento.puntos > 0 ? '+' : ''}{movimiento.puntos}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PuntosComercioPanel;
@@ -9,11 +9,13 @@ import {
   Copy,
   Palette,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Ban
 } from 'lucide-react';
 import { useComercio } from '@/hooks/useComercio';
+import { useRotatingQRToken } from '@/hooks/useRotatingQRToken';
 import { toast } from 'react-hot-toast';
-import { QR_CONFIG } from '@/lib/constants';
+import { qrTokenService } from '@/services/qr-token.service';
 
 interface QRManagementProps {
   onNavigate?: (section: string) => void;
@@ -24,6 +26,8 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
   const [qrStyle, setQrStyle] = useState('default');
   const [showCustomization, setShowCustomization] = useState(false);
   const [downloadLoading, setDownloadLoading] = useState(false);
+  const [revokeLoading, setRevokeLoading] = useState(false);
+  const rotatingQR = useRotatingQRToken(comercio?.id);
 
   const handleGenerateQR = async () => {
     const success = await generateQRCode();
@@ -32,6 +36,27 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
     }
   };
 
+  // Da de baja los QR impresos o descargados y genera uno nuevo para imprimir
+  const handleRevokePrintedQR = async () => {
+    if (!comercio) return;
+    if (!window.confirm('Los QR impresos o descargados hasta ahora dejarán de funcionar. ¿Continuar?')) {
+      return;
+    }
+
+    setRevokeLoading(true);
+    try {
+      await qrTokenService.revokeTokens(comercio.id);
+      rotatingQR.refresh();
+      toast.success('Se revocaron los QR anteriores');
+      await generateQRCode();
+    } catch (error) {
+      console.error('Error revoking QR:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al revocar los códigos QR');
+    } finally {
+      setRevokeLoading(false);
+    }
+  };
+
   const handleDownloadQR = useCallback(async () => {
     if (!comercio?.qrCode) {
       toast.error('No hay código QR para descargar');
@@ -62,14 +87,11 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
     }
   }, [comercio]);
 
+  // URL firmada vigente (rota junto con el QR en pantalla)
   const generateValidationUrl = useCallback(() => {
     if (!comercio) return '';
-    
-    // Usar la URL de producción configurada en QR_CONFIG.baseUrl
-    // en lugar de window.location.origin para evitar URLs de localhost
-    const baseUrl = QR_CONFIG.baseUrl;
-    return `${baseUrl}/validar-beneficio?comercio=${comercio.id}`;
-  }, [comercio]);
+    return rotatingQR.url;
+  }, [comercio, rotatingQR.url]);
 
   const handleCopyQRUrl = useCallback(() => {
     if (!comercio) return;
@@ -131,7 +153,7 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
                 <p>1. Escanea este código QR con tu teléfono</p>
                 <p>2. Inicia sesión en tu cuenta de socio</p>
                 <p>3. Valida tu beneficio y disfrútalo</p>
-                <p><strong>URL:</strong> ${generateValidationUrl()}</p>
+                <p>Este código sigue vigente hasta que el comercio lo revoque</p>
               </div>
             </div>
           </body>
@@ -140,7 +162,7 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
       printWindow.document.close();
       printWindow.print();
     }
-  }, [comercio, generateValidationUrl]);
+  }, [comercio]);
 
   // Show loading state while comercio data is being fetched
   if (!comercio && loading) {
@@ -198,12 +220,12 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
               Tu Código QR Actual
             </h3>
             
-            {comercio?.qrCode ? (
+            {rotatingQR.qrDataUrl ? (
               <div className="space-y-6">
-                {/* QR Code Image - Using data URL to avoid CORS */}
+                {/* Rotating signed QR - Using data URL to avoid CORS */}
                 <div className="relative">
                   <Image
-                    src={comercio.qrCode}
+                    src={rotatingQR.qrDataUrl}
                     alt="QR Code"
                     width={192}
                     height={192}
@@ -215,9 +237,15 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
                   </div>
                 </div>
 
+                <p className="text-xs text-gray-500">
+                  {rotatingQR.loading
+                    ? 'Renovando código...'
+                    : `Se renueva automáticamente · vence en ${rotatingQR.secondsLeft}s`}
+                </p>
+
                 <div className="text-sm text-gray-600">
                   <p className="mb-2">
-                    <strong>Comercio:</strong> {comercio.nombreComercio}
+                    <strong>Comercio:</strong> {comercio?.nombreComercio}
                   </p>
                   <p>
                     <strong>URL de validación:</strong>
@@ -264,7 +292,16 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
                     className="inline-flex items-center justify-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors disabled:opacity-50"
                   >
                     <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
-                    Regenerar
+                    Generar para imprimir
+                  </button>
+
+                  <button
+                    onClick={handleRevokePrintedQR}
+                    disabled={revokeLoading}
+                    className="col-span-2 inline-flex items-center justify-center px-4 py-2 border border-red-300 text-red-700 rounded-lg text-sm font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    <Ban className={`w-4 h-4 mr-2 ${revokeLoading ? 'animate-pulse' : ''}`} />
+                    Revocar QR impresos
                   </button>
                 </div>
               </div>
@@ -276,15 +313,15 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
                 
                 <div>
                   <p className="text-gray-600 mb-4">
-                    Aún no tienes un código QR generado
+                    {rotatingQR.error || 'Generando tu código QR...'}
                   </p>
                   
                   <button
-                    onClick={handleGenerateQR}
-                    disabled={loading}
+                    onClick={rotatingQR.refresh}
+                    disabled={rotatingQR.loading}
                     className="inline-flex items-center px-6 py-3 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
                   >
-                    {loading ? (
+                    {rotatingQR.loading ? (
                       <>
                         <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
                         Generando...
@@ -321,8 +358,8 @@ export const QRManagement: React.FC<QRManagementProps> = ({}) => {
                   <span className="text-xs font-bold text-blue-600">1</span>
                 </div>
                 <div>
-                  <p className="text-sm font-medium text-gray-900">Coloca el QR visible</p>
-                  <p className="text-xs text-gray-600">Imprime y coloca el código QR en un lugar visible de tu comercio</p>
+                  <p className="text-sm font-medium text-gray-900">Muestra el QR vigente</p>
+                  <p className="text-xs text-gray-600">Deja esta pantalla visible en caja: el código se renueva solo y las capturas viejas dejan de funcionar</p>
                 </div>
               </div>
               
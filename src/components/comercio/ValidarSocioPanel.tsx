@@ -0,0 +1,427 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import toast from 'react-hot-toast';
+import {
+  Keyboard,
+  UserCheck,
+  Gift,
+  CheckCircle,
+  XCircle,
+  RefreshCw,
+  ArrowLeft,
+  ScanLine,
+  CreditCard,
+  CloudOff,
+} from 'lucide-react';
+import { QRScannerButton } from '@/components/socio/QRScannerButton';
+import { ConnectionStatus } from '@/components/ui/ConnectionStatus';
+import { OfflineValidationQueue } from './OfflineValidationQueue';
+import { useAuth } from '@/hooks/useAuth';
+import { useOfflineValidation } from '@/hooks/useOfflineValidation';
+import { comercioService } from '@/services/comercio.service';
+import { validacionesService, ValidacionResponse } from '@/services/validaciones.service';
+import {
+  socioCredentialService,
+  LocalSocioCredential,
+  ResolvedSocioCredential,
+  SocioCredentialInput,
+} from '@/services/socio-credential.service';
+import { describeBenefitSchedule, describeMediosPago } from '@/lib/benefit-schedule';
+import { cn } from '@/lib/utils';
+
+type ActiveBenefit = Pick<
+  Awaited<ReturnType<typeof comercioService.getActiveBenefits>>[number],
+  'id' | 'titulo' | 'descuento' | 'tipo' | 'diasValidez' | 'horariosValidez' | 'mediosPagoHabilitados'
+>;
+
+/**
+ * Validación desde caja: el socio muestra su credencial dinámica y el
+ * comercio la escanea o tipea el código de 6 dígitos.
+ * Sin conexión solo se acepta el QR, que se verifica en el dispositivo y
+ * queda en cola hasta sincronizarse.
+ */
+export const ValidarSocioPanel: React.FC = () => {
+  const { user } = useAuth();
+  const {
+    isOnline,
+    snapshot,
+    pendientes,
+    conflictos,
+    syncing,
+    validateOffline,
+    sync,
+    retryConflict,
+    discardConflict,
+  } = useOfflineValidation(user?.uid);
+
+  const [codeInput, setCodeInput] = useState('');
+  const [credentialInput, setCredentialInput] = useState<SocioCredentialInput | null>(null);
+  const [localCredential, setLocalCredential] = useState<LocalSocioCredential | null>(null);
+  const [socio, setSocio] = useState<ResolvedSocioCredential | null>(null);
+  const [beneficios, setBeneficios] = useState<ActiveBenefit[]>([]);
+  const [beneficioId, setBeneficioId] = useState('');
+  const [medioPago, setMedioPago] = useState('');
+  const [resolving, setResolving] = useState(false);
+  const [validating, setValidating] = useState(false);
+  const [result, setResult] = useState<ValidacionResponse | null>(null);
+  const [scannerKey, setScannerKey] = useState(0);
+
+  useEffect(() => {
+    if (!user?.uid || !isOnline) return;
+
+    comercioService.getActiveBenefits(user.uid)
+      .then(setBeneficios)
+      .catch(error => {
+        console.error('Error cargando beneficios activos:', error);
+        toast.error('No se pudieron cargar los beneficios');
+      });
+  }, [user?.uid, isOnline]);
+
+  const reset = useCallback(() => {
+    setCodeInput('');
+    setCredentialInput(null);
+    setLocalCredential(null);
+    setSocio(null);
+    setBeneficioId('');
+    setMedioPago('');
+    setResult(null);
+    setScannerKey(prev => prev + 1);
+  }, []);
+
+  const resolve = useCallback(async (raw: string) => {
+    const input = socioCredentialService.parseInput(raw);
+    if (!input) {
+      toast.error('Código inválido. Ingresa los 6 dígitos o escanea el QR del socio');
+      return;
+    }
+
+    if (!isOnline && !('token' in input)) {
+      toast.error('Sin conexión solo se puede escanear el QR del socio');
+      return;
+    }
+
+    setResolving(true);
+    setResult(null);
+
+    try {
+      if (!isOnline && 'token' in input) {
+        const local = await socioCredentialService.verifyLocally(input.token);
+        setLocalCredential(local);
+        setSocio({
+          socioId: local.socioId,
+          asociacionId: local.asociacionId,
+          nombre: local.nombre,
+          numeroSocio: local.numeroSocio,
+          estadoMembresia: null,
+          expiresAt: new Date(local.payload.exp * 1000),
+        });
+        return;
+      }
+
+      const resolved = await socioCredentialService.resolveCredential(input);
+      setCredentialInput(input);
+      setSocio(resolved);
+    } catch (error) {
+      console.error('Error verificando credencial del socio:', error);
+      toast.error(error instanceof Error ? error.message : 'No se pudo verificar la credencial');
+      setScannerKey(prev => prev + 1);
+    } finally {
+      setResolving(false);
+    }
+  }, [isOnline]);
+
+  // Sin conexión se ofrecen los beneficios de la copia local
+  const opciones: ActiveBenefit[] = isOnline || beneficios.length > 0
+    ? beneficios
+    : snapshot?.beneficios ?? [];
+
+  // Solo se pide el medio de pago si el beneficio elegido lo restringe
+  const mediosPago = opciones.find(beneficio => beneficio.id === beneficioId)?.mediosPagoHabilitados ?? [];
+
+  const handleValidate = async () => {
+    if (!user?.uid || !socio) return;
+
+    // Credencial capturada sin conexión: validar contra la copia local y encolar
+    if (localCredential) {
+      setValidating(true);
+      try {
+        const response = await validateOffline({
+          credencial: localCredential,
+          beneficioId,
+          medioPago: medioPago || undefined,
+        });
+        setResult(response);
+        if (response.success) {
+          toast.success('Beneficio registrado sin conexión');
+        } else {
+          toast.error(response.message);
+        }
+      } catch (error) {
+        console.error('Error validando sin conexión:', error);
+        toast.error('No se pudo registrar la validación sin conexión');
+      } finally {
+        setValidating(false);
+      }
+      return;
+    }
+
+    if (!credentialInput) return;
+
+    setValidating(true);
+    try {
+      const response = await validacionesService.validarAcceso({
+        socioId: socio.socioId,
+        comercioId: user.uid,
+        beneficioId: beneficioId || undefined,
+        credencialSocio: credentialInput,
+        medioPago: medioPago || undefined,
+      });
+
+      setResult(response);
+      if (response.success) {
+        toast.success('Beneficio validado');
+      } else {
+        toast.error(response.message);
+      }
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        {isOnline ? (
+          <p className="text-gray-600">Escanea o ingresa la credencial del socio</p>
+        ) : (
+          <div className="flex items-center gap-2 text-amber-800">
+            <CloudOff className="w-5 h-5" />
+            <p className="font-medium">
+              Modo sin conexión
+              {snapshot
+                ? ` · beneficios actualizados ${snapshot.actualizadoEn.toLocaleString('es-AR', { dateStyle: 'short', timeStyle: 'short' })}`
+                : ' · no hay beneficios guardados en este dispositivo'}
+            </p>
+          </div>
+        )}
+        <ConnectionStatus />
+      </div>
+
+      <OfflineValidationQueue
+        isOnline={isOnline}
+        pendientes={pendientes}
+        conflictos={conflictos}
+        syncing={syncing}
+        onSync={sync}
+        onRetry={retryConflict}
+        onDiscard={discardConflict}
+      />
+
+      <AnimatePresence mode="wait">
+        {/* Paso 1: capturar la credencial */}
+        {!socio && (
+          <motion.div
+            key="captura"
+            className="grid grid-cols-1 lg:grid-cols-2 gap-6"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+          >
+            <div className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/50 p-8 text-center">
+              <div className="w-14 h-14 bg-gradient-to-br from-blue-500 to-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+                <ScanLine className="w-7 h-7 text-white" />
+              </div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">Escanear QR del socio</h3>
+              <p className="text-gray-600 mb-6">Pide al socio que abra &quot;Mostrar mi código&quot; en su app</p>
+              <div className="max-w-sm mx-auto">
+                <QRScannerButton key={scannerKey} onScan={resolve} loading={resolving} />
+              </div>
+            </div>
+
+            <form
+              className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/50 p-8 text-center"
+              onSubmit={(e) => {
+                e.preventDefault();
+                resolve(codeInput);
+              }}
+            >
+              <div className="w-14 h-14 bg-gradient-to-br from-purple-500 to-purple-600 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+                <Keyboard className="w-7 h-7 text-white" />
+              </div>
+              <h3 className="text-xl font-bold text-gray-900 mb-2">Ingresar código</h3>
+              <p className="text-gray-600 mb-6">
+                {isOnline
+                  ? 'Si la cámara no está disponible, tipea el código de 6 dígitos'
+                  : 'El código de 6 dígitos requiere conexión. Escanea el QR del socio.'}
+              </p>
+              <input
+                value={codeInput}
+                onChange={(e) => setCodeInput(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                inputMode="numeric"
+                autoComplete="off"
+                placeholder="000000"
+                disabled={!isOnline}
+                className="w-full max-w-xs mx-auto block text-center text-3xl font-mono tracking-widest px-4 py-3 border border-gray-300 rounded-2xl focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <button
+                type="submit"
+                disabled={codeInput.length !== 6 || resolving || !isOnline}
+                className="mt-6 inline-flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-purple-500 to-purple-600 text-white rounded-xl font-semibold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {resolving ? <RefreshCw className="w-4 h-4 animate-spin" /> : <UserCheck className="w-4 h-4" />}
+                Verificar socio
+              </button>
+            </form>
+          </motion.div>
+        )}
+
+        {/* Paso 2: elegir beneficio y confirmar */}
+        {socio && !result && (
+          <motion.div
+            key="confirmacion"
+            className="bg-white/80 backdrop-blur-xl rounded-3xl shadow-xl border border-white/50 p-8 space-y-6"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+          >
+            <div className="flex items-center gap-4">
+              <div className="w-14 h-14 bg-gradient-to-br from-green-500 to-green-600 rounded-2xl flex items-center justify-center shadow-lg">
+                <UserCheck className="w-7 h-7 text-white" />
+              </div>
+              <div>
+                <p className="text-xl font-bold text-gray-900">{socio.nombre}</p>
+                <p className="text-gray-600">
+                  {socio.numeroSocio ? `Socio N° ${socio.numeroSocio}` : 'Socio'}
+                  {socio.estadoMembresia && ` · ${socio.estadoMembresia}`}
+                  {localCredential && ' · verificado sin conexión'}
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
+                <Gift className="w-4 h-4" />
+                Beneficio a aplicar
+              </label>
+              {opciones.length === 0 ? (
+                <p className="text-gray-500">No tienes beneficios activos.</p>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {opciones.map(beneficio => (
+                    <button
+                      key={beneficio.id}
+                      type="button"
+                      onClick={() => {
+                        setBeneficioId(beneficio.id);
+                        setMedioPago('');
+                      }}
+                      className={cn(
+                        'text-left p-4 rounded-2xl border transition-all duration-200',
+                        beneficioId === beneficio.id
+                          ? 'border-purple-500 bg-purple-50 shadow-md'
+                          : 'border-gray-200 bg-white hover:border-purple-300'
+                      )}
+                    >
+                      <p className="font-semibold text-gray-900">{beneficio.titulo}</p>
+                      <p className="text-sm text-gray-600">
+                        {beneficio.tipo === 'porcentaje' ? `${beneficio.descuento}% OFF` : `$${beneficio.descuento}`}
+                      </p>
+                      {(beneficio.diasValidez?.length || beneficio.horariosValidez) && (
+                        <p className="text-xs text-gray-500 mt-1">{describeBenefitSchedule(beneficio)}</p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {mediosPago.length > 0 && (
+              <div>
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
+                  <CreditCard className="w-4 h-4" />
+                  Medio de pago
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {mediosPago.map(medio => (
+                    <button
+                      key={medio}
+                      type="button"
+                      onClick={() => setMedioPago(medio)}
+                      className={cn(
+                        'px-4 py-2 rounded-xl border text-sm font-medium transition-all duration-200',
+                        medioPago === medio
+                          ? 'border-purple-500 bg-purple-50 text-purple-700'
+                          : 'border-gray-200 bg-white text-gray-700 hover:border-purple-300'
+                      )}
+                    >
+                      {describeMediosPago([medio])}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-3 justify-end">
+              <button
+                onClick={reset}
+                className="inline-flex items-center justify-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-xl font-semibold hover:bg-gray-200"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Cancelar
+              </button>
+              <button
+                onClick={handleValidate}
+                disabled={!beneficioId || (mediosPago.length > 0 && !medioPago) || validating}
+                className="inline-flex items-center justify-center gap-2 px-6 py-3 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-xl font-semibold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {validating ? <RefreshCw className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                Validar beneficio
+              </button>
+            </div>
+          </motion.div>
+        )}
+
+        {/* Paso 3: resultado */}
+        {result && (
+          <motion.div
+            key="resultado"
+            className={cn(
+              'rounded-3xl shadow-xl border p-8 text-center',
+              result.success ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+            )}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+          >
+            {result.success ? (
+              <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+            ) : (
+              <XCircle className="w-16 h-16 text-red-500 mx-auto mb-4" />
+            )}
+            <p className={cn('text-2xl font-bold mb-2', result.success ? 'text-green-800' : 'text-red-800')}>
+              {result.message}
+            </p>
+            {result.success && localCredential && (
+              <p className="text-gray-700">Quedó pendiente de sincronizar; se confirmará al recuperar la conexión.</p>
+            )}
+            {result.data?.validacion && (
+              <p className="text-gray-700">
+                Código de validación:{' '}
+                <span className="font-mono font-bold">{result.data.validacion.codigoValidacion}</span>
+              </p>
+            )}
+            <button
+              onClick={reset}
+              className="mt-6 inline-flex items-center gap-2 px-6 py-3 bg-white text-gray-800 rounded-xl font-semibold border border-gray-200 hover:bg-gray-50"
+            >
+              <ScanLine className="w-4 h-4" />
+              Validar otro socio
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
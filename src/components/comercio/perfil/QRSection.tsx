@@ -43,7 +43,8 @@ import { useComercios } from '@/hooks/useComercios';
 import QRCode from 'qrcode';
 import jsPDF from 'jspdf';
 import toast from 'react-hot-toast';
-import { getDynamicBaseUrl } from '@/lib/constants';
+import { QR_CONFIG } from '@/lib/constants';
+import { qrTokenService } from '@/services/qr-token.service';
 
 export const QRSection: React.FC = () => {
   const theme = useTheme();
@@ -57,10 +58,11 @@ export const QRSection: React.FC = () => {
   // Select the first linked comercio as the active one (or adjust as needed)
   const comercio = comerciosVinculados && comerciosVinculados.length > 0 ? comerciosVinculados[0] : undefined;
 
-  // Generate QR URLs based on comercio data - USA DETECCIÓN AUTOMÁTICA DEL DOMINIO
-  const generateQRUrl = () => comercio ? `fidelya://${comercio.id}` : '';
-  const generateWebUrl = () => comercio ? `${getDynamicBaseUrl()}/validar-beneficio?comercio=${comercio.id}` : '';
-  
+  // Token firmado del cartel: la app lo lee tal cual y la web desde la URL
+  // de validación. Es de larga duración porque se imprime; se da de baja
+  // revocando los QR del comercio
+  const [qrToken, setQrToken] = useState<{ token: string; url: string } | null>(null);
+
   const [copied, setCopied] = useState(false);
   const [qrDataUrl, setQrDataUrl] = useState<string>('');
   const [webQrDataUrl, setWebQrDataUrl] = useState<string>('');
@@ -70,17 +72,22 @@ export const QRSection: React.FC = () => {
   const [qrGenerated, setQrGenerated] = useState(false);
 
   // Generate QR validation URLs
-  const qrUrl = generateQRUrl(); // fidelya:// protocol for app scanning
-  const webUrl = generateWebUrl(); // production URL for web access
+  const qrUrl = qrToken?.token ?? ''; // token firmado para la app
+  const webUrl = qrToken?.url ?? ''; // URL de validación para la web
 
   // ... rest of the component remains the same
   const generateQRCode = async (type: 'app' | 'web' | 'both' = 'both') => {
+    if (!comercio) return;
+
     try {
       setGenerating(true);
+
+      const emitido = await qrTokenService.issueToken(comercio.id, undefined, QR_CONFIG.printedTokenTtlSeconds);
+      setQrToken({ token: emitido.token, url: emitido.url });
       
       if (type === 'app' || type === 'both') {
-        // Generate QR for app scanning (fidelya:// protocol)
-        const appQrDataUrl = await QRCode.toDataURL(qrUrl, {
+        // Generate QR for app scanning (token firmado)
+        const appQrDataUrl = await QRCode.toDataURL(emitido.token, {
           width: 400,
           margin: 2,
           color: {
@@ -94,7 +101,7 @@ export const QRSection: React.FC = () => {
 
       if (type === 'web' || type === 'both') {
         // Generate QR for web access (production URL) as fallback
-        const webQrDataUrl = await QRCode.toDataURL(webUrl, {
+        const webQrDataUrl = await QRCode.toDataURL(emitido.url, {
           width: 400,
           margin: 2,
           color: {
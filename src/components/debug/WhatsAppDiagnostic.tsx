@@ -14,26 +14,32 @@ import {
   Server
 } from 'lucide-react';
 import toast from 'react-hot-toast';
-
-interface ProviderStatus {
-  name: string;
-  configured: boolean;
-  available: boolean;
-  cost: string;
-  limitations?: string;
-  status?: string;
-}
+import { EstadoCircuito, IntentoEnvioWhatsApp, SaludProveedorWhatsApp } from '@/types/whatsapp';
 
 interface DiagnosticResult {
   provider: string;
   success: boolean;
   error?: string;
   messageId?: string;
+  intentos: IntentoEnvioWhatsApp[];
   timestamp: Date;
 }
 
+const CIRCUITO_STYLES: Record<EstadoCircuito, { label: string; className: string }> = {
+  cerrado: { label: 'Circuito cerrado', className: 'bg-green-100 text-green-800' },
+  semiabierto: { label: 'Circuito en prueba', className: 'bg-yellow-100 text-yellow-800' },
+  abierto: { label: 'Circuito abierto', className: 'bg-red-100 text-red-800' },
+};
+
+const INTENTO_LABELS: Record<IntentoEnvioWhatsApp['resultado'], string> = {
+  enviado: 'enviado',
+  fallido: 'falló',
+  circuito_abierto: 'salteado (circuito abierto)',
+  limite_tasa: 'salteado (límite por minuto)',
+};
+
 export const WhatsAppDiagnostic = () => {
-  const [providers, setProviders] = useState<ProviderStatus[]>([]);
+  const [providers, setProviders] = useState<SaludProveedorWhatsApp[]>([]);
   const [loading, setLoading] = useState(false);
   const [testing, setTesting] = useState(false);
   const [testResults, setTestResults] = useState<DiagnosticResult[]>([]);
@@ -89,10 +95,12 @@ export const WhatsAppDiagnostic = () => {
         success: result.success,
         error: result.error,
         messageId: result.messageId,
+        intentos: result.intentos || [],
         timestamp: new Date()
       };
 
       setTestResults([testResult]);
+      loadProviders();
 
       if (result.success) {
         toast.success(`✅ Mensaje enviado con ${result.provider}`);
@@ -111,38 +119,38 @@ export const WhatsAppDiagnostic = () => {
     loadProviders();
   }, []);
 
-  const getStatusIcon = (status: string, configured: boolean, available: boolean) => {
-    if (!configured) return <XCircle className="w-5 h-5 text-red-500" />;
-    if (!available) return <AlertCircle className="w-5 h-5 text-yellow-500" />;
-    
-    switch (status) {
-      case 'ready':
-      case 'connected':
-      case 'authorized':
-        return <CheckCircle className="w-5 h-5 text-green-500" />;
-      case 'disconnected':
-      case 'not_authorized':
-        return <XCircle className="w-5 h-5 text-red-500" />;
-      case 'dependencies_missing':
-        return <AlertCircle className="w-5 h-5 text-yellow-500" />;
-      default:
-        return <AlertCircle className="w-5 h-5 text-gray-500" />;
+  // Cerrar el circuito a mano después de corregir la configuración
+  const resetCircuit = async (providerId: SaludProveedorWhatsApp['id']) => {
+    try {
+      const response = await fetch('/api/notifications/whatsapp/setup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'reset_circuit', providerId })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setProviders(data.providers);
+        toast.success('Circuito restablecido');
+      } else {
+        toast.error(data.error || 'No se pudo restablecer el circuito');
+      }
+    } catch (error) {
+      console.error('Error resetting circuit:', error);
+      toast.error('Error conectando con la API');
     }
   };
 
-  const getStatusText = (status: string, configured: boolean, available: boolean) => {
-    if (!configured) return 'No configurado';
-    if (!available) return 'Dependencias faltantes';
+  const getStatusIcon = (provider: SaludProveedorWhatsApp) => {
+    if (!provider.configurado) return <XCircle className="w-5 h-5 text-gray-400" />;
     
-    switch (status) {
-      case 'ready': return 'Listo';
-      case 'connected': return 'Conectado';
-      case 'authorized': return 'Autorizado';
-      case 'disconnected': return 'Desconectado';
-      case 'not_authorized': return 'No autorizado';
-      case 'dependencies_missing': return 'Dependencias faltantes';
-      case 'not_configured': return 'No configurado';
-      default: return status || 'Estado desconocido';
+    switch (provider.circuito) {
+      case 'cerrado':
+        return <CheckCircle className="w-5 h-5 text-green-500" />;
+      case 'semiabierto':
+        return <AlertCircle className="w-5 h-5 text-yellow-500" />;
+      default:
+        return <XCircle className="w-5 h-5 text-red-500" />;
     }
   };
 
@@ -190,35 +198,69 @@ export const WhatsAppDiagnostic = () => {
             </div>
           ) : (
             <div className="space-y-4">
+              {providers.length === 0 && (
+                <p className="text-center text-gray-600 py-4">No hay proveedores de WhatsApp registrados</p>
+              )}
               {providers.map((provider, index) => (
                 <motion.div
-                  key={provider.name}
+                  key={provider.id}
                   initial={{ opacity: 0, x: -20 }}
                   animate={{ opacity: 1, x: 0 }}
                   transition={{ delay: index * 0.1 }}
-                  className="flex items-center justify-between p-4 bg-gray-50 rounded-xl"
+                  className="p-4 bg-gray-50 rounded-xl"
                 >
-                  <div className="flex items-center gap-4">
-                    {getStatusIcon(provider.status || '', provider.configured, provider.available)}
-                    <div>
-                      <h3 className="font-semibold text-gray-900">{provider.name}</h3>
-                      <p className="text-sm text-gray-600">
-                        {getStatusText(provider.status || '', provider.configured, provider.available)}
-                      </p>
-                      {provider.limitations && (
-                        <p className="text-xs text-gray-500 mt-1">{provider.limitations}</p>
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-4">
+                      {getStatusIcon(provider)}
+                      <div>
+                        <h3 className="font-semibold text-gray-900">
+                          {provider.prioridad}. {provider.nombre}
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                          {provider.configurado
+                            ? `${provider.enviosUltimoMinuto}/${provider.limitePorMinuto} envíos en el último minuto · ${provider.enviados} enviados · ${provider.fallidos} fallidos`
+                            : 'No configurado'}
+                        </p>
+                        {provider.limitaciones && (
+                          <p className="text-xs text-gray-500 mt-1">{provider.limitaciones}</p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {provider.configurado && (
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${CIRCUITO_STYLES[provider.circuito].className}`}>
+                          {CIRCUITO_STYLES[provider.circuito].label}
+                        </span>
                       )}
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                        provider.costo === 'free' 
+                          ? 'bg-green-100 text-green-800' 
+                          : 'bg-blue-100 text-blue-800'
+                      }`}>
+                        {provider.costo === 'free' ? 'Gratis' : 'Pago'}
+                      </span>
                     </div>
                   </div>
-                  <div className="text-right">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                      provider.cost === 'free' 
-                        ? 'bg-green-100 text-green-800' 
-                        : 'bg-blue-100 text-blue-800'
-                    }`}>
-                      {provider.cost === 'free' ? 'Gratis' : 'Pago'}
-                    </span>
-                  </div>
+                  {(provider.ultimoError || provider.circuito !== 'cerrado') && (
+                    <div className="mt-3 flex items-center justify-between gap-4 text-xs">
+                      <div className="text-red-700 space-y-0.5">
+                        {provider.ultimoError && (
+                          <p>Último error ({provider.fallasConsecutivas} seguidas): {provider.ultimoError}</p>
+                        )}
+                        {provider.abiertoHasta && (
+                          <p>Se vuelve a probar a las {new Date(provider.abiertoHasta).toLocaleTimeString()}</p>
+                        )}
+                      </div>
+                      {provider.circuito !== 'cerrado' && (
+                        <button
+                          onClick={() => resetCircuit(provider.id)}
+                          className="shrink-0 px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors"
+                        >
+                          Restablecer circuito
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </motion.div>
               ))}
             </div>
@@ -307,6 +349,16 @@ export const WhatsAppDiagnostic = () => {
                       {result.error}
                     </p>
                   )}
+                  {result.intentos.length > 1 && (
+                    <ol className="mt-2 text-xs text-gray-600 list-decimal list-inside">
+                      {result.intentos.map((intento, i) => (
+                        <li key={i}>
+                          {intento.proveedor}: {INTENTO_LABELS[intento.resultado]}
+                          {intento.error && ` – ${intento.error}`}
+                        </li>
+                      ))}
+                    </ol>
+                  )}
                   <p className="text-xs text-gray-500 mt-1">
                     {result.timestamp.toLocaleString()}
                   </p>
@@ -334,6 +386,7 @@ export const WhatsAppDiagnostic = () => {
               <p><strong>Green API:</strong> Más confiable, 3000 mensajes gratis/mes</p>
               <p><strong>CallMeBot:</strong> Fácil de configurar, limitado a números registrados</p>
               <p><strong>WhatsApp Web:</strong> Gratis ilimitado, requiere escanear QR</p>
+              <p><strong>Prioridad:</strong> <code>WHATSAPP_PROVIDERS</code> define el orden y <code>WHATSAPP_RATE_LIMITS</code> los límites por minuto</p>
             </div>
             <div className="mt-4 p-3 bg-white rounded-lg border border-blue-200">
               <p className="text-sm text-blue-700">
@@ -8,7 +8,9 @@ import {
   Store, 
   Bell,
   Activity,
-  CheckCircle
+  CheckCircle,
+  Award,
+  Wallet
 } from 'lucide-react';
 
 // Lazy load heavy components for optimal performance
@@ -30,6 +32,8 @@ const ValidacionesHistory = lazy(() =>
     default: module.ValidacionesHistory
   }))
 );
+const FidelizacionConfig = lazy(() => import('@/components/asociacion/FidelizacionConfig'));
+const CuotasManagement = lazy(() => import('@/components/asociacion/CuotasManagement'));
 
 
 // Tab configuration with optimized structure - INCLUYE Validaciones
@@ -52,7 +56,9 @@ const TabLoadingState = memo<{ tabId: string }>(({ tabId }) => {
     socios: { color: 'emerald', text: 'Cargando Socios' },
     comercios: { color: 'purple', text: 'Cargando Comercios' },
     validaciones: { color: 'green', text: 'Cargando Validaciones' },
-    notificaciones: { color: 'red', text: 'Cargando Notificaciones' }
+    notificaciones: { color: 'red', text: 'Cargando Notificaciones' },
+    fidelizacion: { color: 'amber', text: 'Cargando Fidelización' },
+    cuotas: { color: 'emerald', text: 'Cargando Cuotas' }
   };
 
   const config = loadingConfigs[tabId as keyof typeof loadingConfigs] || loadingConfigs.dashboard;
@@ -220,6 +226,22 @@ export const OptimizedTabSystem = memo<OptimizedTabSystemProps>(({
       component: NotificationsCenter,
       gradient: 'from-red-500 to-red-600',
       description: 'Centro de alertas'
+    },
+    {
+      id: 'fidelizacion',
+      label: 'Fidelización',
+      icon: Award,
+      component: FidelizacionConfig,
+      gradient: 'from-amber-500 to-orange-500',
+      description: 'Puntos y niveles de los socios'
+    },
+    {
+      id: 'cuotas',
+      label: 'Cuotas',
+      icon: Wallet,
+      component: CuotasManagement,
+      gradient: 'from-emerald-500 to-teal-600',
+      description: 'Cobros, deuda y recibos'
     }
   ], [stats]);
 
@@ -52,7 +52,10 @@ import {
 } from '@/services/notification-templates.service';
 import { notificationService } from '@/services/notifications.service';
 import { notificationQueueService } from '@/services/notification-queue.service';
-import { NotificationType } from '@/types/notification';
+import { notificationApprovalService } from '@/services/notification-approval.service';
+import { CuerposPorCanal, NotificationType } from '@/types/notification';
+import { TextosPlantilla } from '@/types/plantillas';
+import { contextoDeEjemplo, renderizarEnvio, renderizarPlantilla, validarTextosPlantilla } from '@/lib/plantillas';
 import { useSocios } from '@/hooks/useSocios';
 import { useAuth } from '@/hooks/useAuth';
 
@@ -89,6 +92,7 @@ export const CreateNotificationDialog: React.FC<CreateNotificationDialogProps> =
   // Form state
   const [title, setTitle] = useState('');
   const [message, setMessage] = useState('');
+  const [cuerpos, setCuerpos] = useState<CuerposPorCanal | undefined>(undefined);
   const [type, setType] = useState<NotificationType>('info');
   const [recipientFilter, setRecipientFilter] = useState<RecipientFilter>('todos');
   const [selectedSocios, setSelectedSocios] = useState<string[]>([]);
@@ -98,6 +102,7 @@ export const CreateNotificationDialog: React.FC<CreateNotificationDialogProps> =
     push: true,
     app: true,
   });
+  const [urgent, setUrgent] = useState(false);
 
   // Load templates
   useEffect(() => {
@@ -108,7 +113,8 @@ export const CreateNotificationDialog: React.FC<CreateNotificationDialogProps> =
 
   const loadTemplates = async () => {
     try {
-      const data = await notificationTemplatesService.getTemplates(false);
+      // Las globales y las propias de la asociación
+      const data = await notificationTemplatesService.getTemplates(false, { asociacionId: user?.uid });
       setTemplates(data);
     } catch (error) {
       console.error('Error loading templates:', error);
@@ -119,6 +125,8 @@ export const CreateNotificationDialog: React.FC<CreateNotificationDialogProps> =
   // Handle template selection
   const handleTemplateSelect = (template: NotificationTemplate | null) => {
     setSelectedTemplate(template);
+    // Los textos por canal vienen solo de la plantilla
+    setCuerpos(template?.cuerpos);
     if (template) {
       setTitle(template.title);
       setMessage(template.message);
@@ -144,49 +152,72 @@ export const CreateNotificationDialog: React.FC<CreateNotificationDialogProps> =
   }, [recipientFilter, selectedSocios, stats]);
 
   // Preview with sample data - Render components
+  const contextoPrevia = useMemo(() => ({
+    ...contextoDeEjemplo(),
+    asociacion_nombre: user?.nombre || 'Mi Asociación',
+  }), [user]);
+
   const PreviewTitle = useMemo(() => {
-    try {
-      const parsed = notificationTemplatesService.parseTemplate(title, {
-        socio_nombre: 'Juan Pérez',
-        asociacion_nombre: user?.nombre || 'Mi Asociación',
-        numero_socio: '12345',
-        comercio_nombre: 'Comercio Ejemplo',
-        beneficio_titulo: 'Descuento Especial',
-        descuento: 20,
-        fecha_vencimiento: new Date().toLocaleDateString(),
-        monto: 1500,
-      });
-      const Comp: React.FC = () => <>{parsed || 'Título de la notificación'}</>;
-      Comp.displayName = 'PreviewTitle';
-      return Comp;
-    } catch {
-      const Comp: React.FC = () => <>{title || 'Título de la notificación'}</>;
-      Comp.displayName = 'PreviewTitleFallback';
-      return Comp;
-    }
-  }, [title, user]);
+    const parsed = renderizarPlantilla(title, contextoPrevia).texto;
+    const Comp: React.FC = () => <>{parsed || 'Título de la notificación'}</>;
+    Comp.displayName = 'PreviewTitle';
+    return Comp;
+  }, [title, contextoPrevia]);
 
   const PreviewMessage = useMemo(() => {
-    try {
-      const parsed = notificationTemplatesService.parseTemplate(message, {
-        socio_nombre: 'Juan Pérez',
-        asociacion_nombre: user?.nombre || 'Mi Asociación',
-        numero_socio: '12345',
-        comercio_nombre: 'Comercio Ejemplo',
-        beneficio_titulo: 'Descuento Especial',
-        descuento: 20,
-        fecha_vencimiento: new Date().toLocaleDateString(),
-        monto: 1500,
-      });
-      const Comp: React.FC = () => <>{parsed || 'Mensaje de la notificación'}</>;
-      Comp.displayName = 'PreviewMessage';
-      return Comp;
-    } catch {
-      const Comp: React.FC = () => <>{message || 'Mensaje de la notificación'}</>;
-      Comp.displayName = 'PreviewMessageFallback';
-      return Comp;
+    const parsed = renderizarPlantilla(message, contextoPrevia).texto;
+    const Comp: React.FC = () => <>{parsed || 'Mensaje de la notificación'}</>;
+    Comp.displayName = 'PreviewMessage';
+    return Comp;
+  }, [message, contextoPrevia]);
+
+  /**
+   * Renderiza la plantilla para cada destinatario con sus datos y agrupa a
+   * los que reciben el mismo texto. Si a alguno le falta un dato no se envía
+   * a nadie.
+   */
+  const prepararEnvios = async (
+    asociacionId: string,
+    recipientIds: string[]
+  ): Promise<{ envio: TextosPlantilla; recipientIds: string[] }[] | null> => {
+    const textos: TextosPlantilla = { title, message, cuerpos };
+    const validacion = validarTextosPlantilla(textos);
+
+    if (validacion.errores.length > 0) {
+      toast.error(`Errores en la plantilla: ${validacion.errores.join(', ')}`);
+      return null;
+    }
+    if (validacion.variables.length === 0) {
+      return [{ envio: renderizarEnvio(textos, {}).envio, recipientIds }];
+    }
+
+    const contextos = await notificationTemplatesService.resolverVariablesDeSocios({ asociacionId }, recipientIds);
+    const grupos = new Map<string, { envio: TextosPlantilla; recipientIds: string[] }>();
+    const faltantes = new Set<string>();
+    let incompletos = 0;
+
+    for (const recipientId of recipientIds) {
+      const resultado = renderizarEnvio(textos, contextos.get(recipientId) ?? {});
+      if (!resultado.ok) {
+        incompletos++;
+        resultado.faltantes.forEach(nombre => faltantes.add(nombre));
+        continue;
+      }
+      const clave = JSON.stringify(resultado.envio);
+      const grupo = grupos.get(clave) ?? { envio: resultado.envio, recipientIds: [] };
+      grupo.recipientIds.push(recipientId);
+      grupos.set(clave, grupo);
+    }
+
+    if (incompletos > 0) {
+      toast.error(
+        `Faltan datos para ${incompletos} destinatario(s): ${[...faltantes].map(nombre => `{{${nombre}}}`).join(', ')}`
+      );
+      return null;
     }
-  }, [message, user]);
+
+    return [...grupos.values()];
+  };
 
   // Handle send
   const handleSend = async () => {
@@ -220,38 +251,67 @@ export const CreateNotificationDialog: React.FC<CreateNotificationDialogProps> =
         return;
       }
 
-      // Create notification data
-      const notificationData = {
-        title,
-        message,
-        type,
-        category: selectedTemplate?.category || 'general',
-        recipientIds,
-        metadata: {
-          senderName: user.nombre || 'Asociación',
+      const envios = await prepararEnvios(user.uid, recipientIds);
+      if (!envios) return;
+
+      // Una notificación por cada texto distinto; retenidas si el envío
+      // requiere aprobación
+      const encolar = async (approvalRequestId?: string) => {
+        for (const { envio, recipientIds: destinatarios } of envios) {
+          const notificationData = {
+            ...envio,
+            type,
+            category: selectedTemplate?.category || 'general',
+            ...(urgent ? { priority: 'urgent' as const } : {}),
+            recipientIds: destinatarios,
+            asociacionId: user.uid,
+            metadata: {
+              senderName: user.nombre || 'Asociación',
+              recipientCount: destinatarios.length,
+              templateId: selectedTemplate?.id,
+              templateName: selectedTemplate?.name,
+            },
+          };
+
+          // Create notification document
+          const notificationId = await notificationService.createNotification(notificationData, approvalRequestId);
+
+          // Enqueue for sending
+          await notificationQueueService.enqueueNotification(
+            notificationId,
+            destinatarios,
+            notificationData,
+            { maxAttempts: 3, ...(approvalRequestId ? { approvalRequestId } : {}) }
+          );
+        }
+      };
+
+      const canales = (Object.keys(channels) as (keyof typeof channels)[]).filter(canal => channels[canal]);
+      const approvalRequestId = await notificationApprovalService.createApprovalRequest(
+        {
+          asociacionId: user.uid,
+          type,
           recipientCount: recipientIds.length,
+          channels: canales,
+          priority: urgent ? 'urgent' : 'normal',
           templateId: selectedTemplate?.id,
-          templateName: selectedTemplate?.name,
+          title,
+          message,
         },
-      };
-
-      // Create notification document
-      const notificationId = await notificationService.createNotification(notificationData);
-
-      // Enqueue for sending
-      await notificationQueueService.enqueueNotification(
-        notificationId,
-        recipientIds,
-        notificationData,
-        { maxAttempts: 3 }
+        encolar
       );
+      if (!approvalRequestId) {
+        await encolar();
+      }
 
       // Update template usage if template was used
       if (selectedTemplate) {
         await notificationTemplatesService.updateTemplateUsage(selectedTemplate.id);
       }
 
-      toast.success(`Notificación enviada a ${recipientIds.length} destinatarios`);
+      toast.success(approvalRequestId
+        ? `La notificación para ${recipientIds.length} destinatarios quedó esperando aprobación`
+        : `Notificación enviada a ${recipientIds.length} destinatarios`);
       
       // Reset form
       handleClose();
@@ -271,10 +331,12 @@ export const CreateNotificationDialog: React.FC<CreateNotificationDialogProps> =
     setSelectedTemplate(null);
     setTitle('');
     setMessage('');
+    setCuerpos(undefined);
     setType('info');
     setRecipientFilter('todos');
     setSelectedSocios([]);
     setChannels({ email: false, sms: false, push: true, app: true });
+    setUrgent(false);
     onClose();
   };
 
@@ -484,6 +546,17 @@ export const CreateNotificationDialog: React.FC<CreateNotificationDialogProps> =
                   }
                 />
               </Box>
+              <FormControlLabel
+                sx={{ mt: 1 }}
+                control={
+                  <Switch
+                    color="error"
+                    checked={urgent}
+                    onChange={(e) => setUrgent(e.target.checked)}
+                  />
+                }
+                label="Urgente: enviar ahora aunque el socio tenga horario silencioso, resumen o la categoría desactivada"
+              />
             </Box>
 
             <Divider sx={{ my: 3 }} />
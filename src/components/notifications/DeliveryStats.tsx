@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import {
   BarChart,
@@ -26,111 +26,135 @@ import {
   Clock,
   CheckCircle,
   XCircle,
+  MessageCircle,
 } from 'lucide-react';
+import { notificationService } from '@/services/notifications.service';
+import { CANALES_ENTREGA } from '@/lib/entregas';
+import { CanalEntrega, EstadisticasEntrega } from '@/types/entregas';
 
-interface Notification {
-  status: 'sent' | 'failed' | 'sending';
-  // Add other properties as needed
-}
+const ICONOS_CANAL: Record<CanalEntrega, React.ElementType> = {
+  email: Mail,
+  whatsapp: MessageCircle,
+  sms: Smartphone,
+  push: Bell,
+  app: Bell,
+};
+
+type RangoDias = 7 | 30 | 90;
 
-interface Recipient {
-  email?: string;
-  phone?: string;
-  // Add other properties as needed
-}
+const tasa = (parte: number, total: number): number => (total > 0 ? (parte / total) * 100 : 0);
 
-interface DeliveryStatsProps {
-  notifications: Notification[];
-  recipients: Recipient[];
-}
+// Variación porcentual frente al período anterior
+const variacion = (actual: number, anterior: number): number =>
+  anterior > 0 ? Math.round(((actual - anterior) / anterior) * 1000) / 10 : 0;
 
-export const DeliveryStats = ({ notifications, recipients }: DeliveryStatsProps) => {
-  const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d'>('30d');
+const formatearDuracion = (segundos: number | null): string => {
+  if (segundos === null) return 'Sin datos';
+  if (segundos < 60) return `${segundos.toFixed(1)}s`;
+  if (segundos < 3600) return `${(segundos / 60).toFixed(1)} min`;
+  return `${(segundos / 3600).toFixed(1)} h`;
+};
 
-  // Calculate delivery stats
-  const deliveryStats = {
-    totalSent: notifications.filter(n => n.status === 'sent').length,
-    totalFailed: notifications.filter(n => n.status === 'failed').length,
-    totalPending: notifications.filter(n => n.status === 'sending').length,
-    successRate: notifications.length > 0 
-      ? (notifications.filter(n => n.status === 'sent').length / notifications.length) * 100 
-      : 0
-  };
+// Estadísticas de los registros de entrega que confirman los webhooks de los
+// proveedores (SendGrid, Resend, Twilio, WhatsApp)
+export const DeliveryStats = () => {
+  const [timeRange, setTimeRange] = useState<RangoDias>(30);
+  const [estadisticas, setEstadisticas] = useState<EstadisticasEntrega | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
-  // Channel distribution data
-  const channelData = [
-    {
-      name: 'Email',
-      value: recipients.filter(r => r.email).length,
-      color: '#3B82F6',
-      icon: Mail
-    },
-    {
-      name: 'WhatsApp',
-      value: recipients.filter(r => r.phone).length,
-      color: '#10B981',
-      icon: Smartphone
-    },
-    {
-      name: 'In-App',
-      value: recipients.length,
-      color: '#8B5CF6',
-      icon: Bell
+  const loadStats = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEstadisticas(await notificationService.getDeliveryStats(timeRange));
+    } catch (err) {
+      console.error('Error cargando estadísticas de entrega:', err);
+      setError(err instanceof Error ? err.message : 'Error cargando estadísticas de entrega');
+    } finally {
+      setLoading(false);
     }
-  ];
+  }, [timeRange]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
 
-  // Weekly delivery trend (mock data - would be calculated from real data)
-  const weeklyTrend = [
-    { day: 'Lun', sent: 12, failed: 2 },
-    { day: 'Mar', sent: 19, failed: 1 },
-    { day: 'Mié', sent: 15, failed: 3 },
-    { day: 'Jue', sent: 22, failed: 1 },
-    { day: 'Vie', sent: 18, failed: 2 },
-    { day: 'Sáb', sent: 8, failed: 0 },
-    { day: 'Dom', sent: 5, failed: 1 }
-  ];
+  if (loading && !estadisticas) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !estadisticas) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-sm text-red-700">
+        {error || 'No hay estadísticas de entrega disponibles'}
+      </div>
+    );
+  }
 
-  // Hourly activity (mock data)
-  const hourlyActivity = Array.from({ length: 24 }, (_, i) => ({
-    hour: i,
-    activity: Math.floor(Math.random() * 20) + 1
+  const { actual, anterior } = estadisticas;
+  const enviadas = actual.total - actual.porEstado.queued;
+  const enviadasAnterior = anterior.total - anterior.porEstado.queued;
+  const tasaEntrega = tasa(actual.entregadas, enviadas);
+  const tasaApertura = tasa(actual.abiertas, actual.entregadas);
+  const tasaClics = tasa(actual.clickeadas, actual.entregadas);
+
+  const channelData = (Object.keys(CANALES_ENTREGA) as CanalEntrega[])
+    .map(canal => ({
+      name: CANALES_ENTREGA[canal].label,
+      value: estadisticas.porCanal[canal] ?? 0,
+      color: CANALES_ENTREGA[canal].color,
+      icon: ICONOS_CANAL[canal],
+    }))
+    .filter(canal => canal.value > 0);
+
+  const dailyTrend = estadisticas.porDia.map(dia => ({
+    day: `${dia.fecha.slice(8, 10)}/${dia.fecha.slice(5, 7)}`,
+    sent: dia.enviadas,
+    failed: dia.fallidas,
   }));
 
+  const hourlyActivity = estadisticas.porHora.map(({ hora, cantidad }) => ({ hour: hora, activity: cantidad }));
+
   return (
     <div className="space-y-6">
       {/* Overview Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard
           title="Enviadas"
-          value={deliveryStats.totalSent}
+          value={enviadas}
           icon={CheckCircle}
           color="text-green-600"
           bgColor="bg-green-100"
-          trend={+12}
+          trend={variacion(enviadas, enviadasAnterior)}
         />
         <StatCard
           title="Fallidas"
-          value={deliveryStats.totalFailed}
+          value={actual.fallidas}
           icon={XCircle}
           color="text-red-600"
           bgColor="bg-red-100"
-          trend={-5}
+          trend={variacion(actual.fallidas, anterior.fallidas)}
         />
         <StatCard
           title="Pendientes"
-          value={deliveryStats.totalPending}
+          value={actual.pendientes}
           icon={Clock}
           color="text-yellow-600"
           bgColor="bg-yellow-100"
-          trend={0}
+          trend={variacion(actual.pendientes, anterior.pendientes)}
         />
         <StatCard
-          title="Tasa de Éxito"
-          value={`${deliveryStats.successRate.toFixed(1)}%`}
+          title="Tasa de Entrega"
+          value={`${tasaEntrega.toFixed(1)}%`}
           icon={TrendingUp}
           color="text-blue-600"
           bgColor="bg-blue-100"
-          trend={+3}
+          trend={Math.round((tasaEntrega - tasa(anterior.entregadas, enviadasAnterior)) * 10) / 10}
         />
       </div>
 
@@ -143,19 +167,19 @@ export const DeliveryStats = ({ notifications, recipients }: DeliveryStatsProps)
           className="bg-white rounded-xl shadow-sm border border-gray-200 p-6"
         >
           <div className="flex items-center justify-between mb-6">
-            <h3 className="text-lg font-semibold text-gray-900">Tendencia Semanal</h3>
+            <h3 className="text-lg font-semibold text-gray-900">Tendencia Diaria</h3>
             <select
               value={timeRange}
-              onChange={(e) => setTimeRange(e.target.value as '7d' | '30d' | '90d')}
+              onChange={(e) => setTimeRange(Number(e.target.value) as RangoDias)}
               className="text-sm border border-gray-300 rounded-lg px-3 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              <option value="7d">Últimos 7 días</option>
-              <option value="30d">Últimos 30 días</option>
-              <option value="90d">Últimos 90 días</option>
+              <option value={7}>Últimos 7 días</option>
+              <option value={30}>Últimos 30 días</option>
+              <option value={90}>Últimos 90 días</option>
             </select>
           </div>
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={weeklyTrend}>
+            <BarChart data={dailyTrend}>
               <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
               <XAxis 
                 dataKey="day" 
@@ -293,24 +317,23 @@ export const DeliveryStats = ({ notifications, recipients }: DeliveryStatsProps)
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <MetricCard
             title="Tiempo Promedio de Entrega"
-            value="2.3s"
+            value={formatearDuracion(estadisticas.tiempoPromedioEntrega)}
             description="Tiempo desde envío hasta entrega"
             icon={Clock}
-            trend={-0.5}
           />
           <MetricCard
             title="Tasa de Apertura"
-            value="68.4%"
-            description="Porcentaje de notificaciones abiertas"
+            value={`${tasaApertura.toFixed(1)}%`}
+            description="Entregadas que se abrieron o leyeron"
             icon={Mail}
-            trend={+5.2}
+            trend={Math.round((tasaApertura - tasa(anterior.abiertas, anterior.entregadas)) * 10) / 10}
           />
           <MetricCard
-            title="Engagement Rate"
-            value="24.7%"
-            description="Interacciones por notificación"
+            title="Tasa de Clics"
+            value={`${tasaClics.toFixed(1)}%`}
+            description="Entregadas con al menos un clic"
             icon={Users}
-            trend={+2.1}
+            trend={Math.round((tasaClics - tasa(anterior.clickeadas, anterior.entregadas)) * 10) / 10}
           />
         </div>
       </motion.div>
@@ -362,7 +385,7 @@ const MetricCard = ({ title, value, description, icon: Icon, trend }: {
   value: string;
   description: string;
   icon: React.ElementType;
-  trend: number;
+  trend?: number;
 }) => (
   <div className="text-center">
     <div className="flex justify-center mb-3">
@@ -373,18 +396,20 @@ const MetricCard = ({ title, value, description, icon: Icon, trend }: {
     <h4 className="text-lg font-semibold text-gray-900">{title}</h4>
     <p className="text-2xl font-bold text-blue-600 mt-1">{value}</p>
     <p className="text-sm text-gray-500 mt-1">{description}</p>
-    <div className="flex items-center justify-center mt-2">
-      {trend > 0 ? (
-        <TrendingUp className="w-4 h-4 text-green-500 mr-1" />
-      ) : (
-        <TrendingDown className="w-4 h-4 text-red-500 mr-1" />
-      )}
-      <span className={`text-sm font-medium ${
-        trend > 0 ? 'text-green-600' : 'text-red-600'
-      }`}>
-        {trend > 0 ? '+' : ''}{trend}%
-      </span>
-    </div>
+    {trend !== undefined && (
+      <div className="flex items-center justify-center mt-2">
+        {trend > 0 ? (
+          <TrendingUp className="w-4 h-4 text-green-500 mr-1" />
+        ) : (
+          <TrendingDown className="w-4 h-4 text-red-500 mr-1" />
+        )}
+        <span className={`text-sm font-medium ${
+          trend > 0 ? 'text-green-600' : 'text-red-600'
+        }`}>
+          {trend > 0 ? '+' : ''}{trend}%
+        </span>
+      </div>
+    )}
   </div>
 );
 
@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Box,
+  Typography,
+  Alert,
+  Stack,
+  CircularProgress,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Palette } from '@mui/icons-material';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { emailBrandingService } from '@/services/email-branding.service';
+import { MARCA_FIDELYA, normalizarMarca, renderizarEmail, validarMarcaEmail } from '@/lib/email-layout';
+import { ConfiguracionMarcaEmail } from '@/types/email';
+
+interface EmailBrandingDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type CamposMarca = Record<keyof ConfiguracionMarcaEmail, string>;
+
+const CAMPOS_VACIOS: CamposMarca = {
+  logoUrl: '',
+  colorPrimario: MARCA_FIDELYA.colorPrimario,
+  colorFondo: MARCA_FIDELYA.colorFondo,
+  direccionLegal: '',
+  emailContacto: '',
+  textoPie: '',
+  urlBaja: '',
+};
+
+const MENSAJE_DE_MUESTRA = `¡Hola Juan!
+
+Esta semana sumamos **3 beneficios nuevos** para vos:
+✅ 20% en Librería Central
+✅ 2x1 en Cine Rex
+✅ Envío gratis en Farmacia Sur
+
+Conocé todos en https://fidelya.vercel.app/dashboard/socio/beneficios
+
+---
+*Este es un email automático, por favor no respondas a esta dirección.*`;
+
+export const EmailBrandingDialog: React.FC<EmailBrandingDialogProps> = ({ open, onClose }) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('md'));
+  const { user } = useAuth();
+
+  const [nombre, setNombre] = useState(MARCA_FIDELYA.nombre);
+  const [campos, setCampos] = useState<CamposMarca>(CAMPOS_VACIOS);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user?.uid) return;
+
+    setLoading(true);
+    emailBrandingService.getConfiguracion(user.uid)
+      .then(({ nombre: nombreAsociacion, config }) => {
+        setNombre(nombreAsociacion);
+        setCampos({
+          logoUrl: config.logoUrl ?? '',
+          colorPrimario: config.colorPrimario ?? MARCA_FIDELYA.colorPrimario,
+          colorFondo: config.colorFondo ?? MARCA_FIDELYA.colorFondo,
+          direccionLegal: config.direccionLegal ?? '',
+          emailContacto: config.emailContacto ?? '',
+          textoPie: config.textoPie ?? '',
+          urlBaja: config.urlBaja ?? '',
+        });
+      })
+      .catch(error => {
+        console.error('Error cargando la marca de los emails:', error);
+        toast.error('No se pudo cargar la marca de los emails');
+      })
+      .finally(() => setLoading(false));
+  }, [open, user?.uid]);
+
+  const errores = validarMarcaEmail(campos);
+  const marca = normalizarMarca(nombre, campos);
+  marca.urlBaja ??= emailBrandingService.getUrlBajaPorDefecto();
+  const vistaPrevia = renderizarEmail({ asunto: 'Nuevos beneficios para vos', mensaje: MENSAJE_DE_MUESTRA }, marca);
+
+  const handleChange = (campo: keyof CamposMarca) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCampos(prev => ({ ...prev, [campo]: e.target.value }));
+  };
+
+  const handleSave = async () => {
+    if (!user?.uid || errores.length > 0) return;
+
+    try {
+      setSaving(true);
+      const erroresGuardado = await emailBrandingService.guardarConfiguracion(user.uid, campos);
+      if (erroresGuardado.length > 0) {
+        toast.error(erroresGuardado[0]);
+        return;
+      }
+      toast.success('Marca de los emails guardada');
+      onClose();
+    } catch (error) {
+      console.error('Error guardando la marca de los emails:', error);
+      toast.error('No se pudo guardar la marca de los emails');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="lg"
+      fullWidth
+      fullScreen={isMobile}
+      PaperProps={{ sx: { borderRadius: isMobile ? 0 : 4 } }}
+    >
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1.5, fontWeight: 700 }}>
+        <Palette sx={{ color: marca.colorPrimario }} />
+        Marca de los emails
+      </DialogTitle>
+      <DialogContent dividers>
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '5fr 7fr' }, gap: 3 }}>
+            <Stack spacing={2}>
+              <Typography variant="body2" color="text.secondary">
+                Todos los emails que se envían en nombre de {nombre} usan este logo, estos colores y este pie,
+                con una versión en texto plano generada automáticamente.
+              </Typography>
+              <TextField
+                label="URL del logo"
+                size="small"
+                value={campos.logoUrl}
+                onChange={handleChange('logoUrl')}
+                placeholder="https://..."
+                helperText="Imagen https de hasta 48 px de alto; sin logo se muestra el nombre"
+              />
+              <Stack direction="row" spacing={2}>
+                <TextField
+                  label="Color principal"
+                  size="small"
+                  type="color"
+                  value={/^#[0-9a-f]{6}$/i.test(campos.colorPrimario) ? campos.colorPrimario : MARCA_FIDELYA.colorPrimario}
+                  onChange={handleChange('colorPrimario')}
+                  sx={{ flex: 1 }}
+                />
+                <TextField
+                  label="Color de fondo"
+                  size="small"
+                  type="color"
+                  value={/^#[0-9a-f]{6}$/i.test(campos.colorFondo) ? campos.colorFondo : MARCA_FIDELYA.colorFondo}
+                  onChange={handleChange('colorFondo')}
+                  sx={{ flex: 1 }}
+                />
+              </Stack>
+              <TextField
+                label="Domicilio legal"
+                size="small"
+                value={campos.direccionLegal}
+                onChange={handleChange('direccionLegal')}
+                placeholder="Av. Siempre Viva 742, CABA"
+              />
+              <TextField
+                label="Email de contacto"
+                size="small"
+                value={campos.emailContacto}
+                onChange={handleChange('emailContacto')}
+                placeholder={MARCA_FIDELYA.emailContacto ?? ''}
+              />
+              <TextField
+                label="Texto del pie"
+                size="small"
+                value={campos.textoPie}
+                onChange={handleChange('textoPie')}
+                multiline
+                rows={2}
+              />
+              <TextField
+                label="Enlace para darse de baja"
+                size="small"
+                value={campos.urlBaja}
+                onChange={handleChange('urlBaja')}
+                placeholder="https://..."
+                helperText="Vacío: las preferencias de notificaciones del socio en Fidelya"
+              />
+              {errores.length > 0 && (
+                <Alert severity="error" sx={{ borderRadius: 2 }}>
+                  {errores.map(error => <div key={error}>{error}</div>)}
+                </Alert>
+              )}
+            </Stack>
+
+            <Box sx={{ border: '1px solid #e2e8f0', borderRadius: 2, overflow: 'hidden' }}>
+              <Box sx={{ px: 2, py: 1, borderBottom: '1px solid #e2e8f0', bgcolor: '#f8fafc' }}>
+                <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                  De: {marca.nombre} · Asunto: {vistaPrevia.asunto}
+                </Typography>
+              </Box>
+              <Box
+                component="iframe"
+                title="Vista previa del email"
+                sandbox=""
+                srcDoc={vistaPrevia.html}
+                sx={{ width: '100%', height: 520, border: 0, display: 'block' }}
+              />
+            </Box>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ p: 3, pt: 2 }}>
+        <Button onClick={onClose}>Cancelar</Button>
+        <Button
+          variant="contained"
+          onClick={handleSave}
+          disabled={loading || saving || errores.length > 0}
+        >
+          {saving ? 'Guardando...' : 'Guardar'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default EmailBrandingDialog;
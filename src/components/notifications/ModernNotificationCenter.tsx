@@ -19,17 +19,23 @@ import {
   Search,
   Download,
   Settings,
-  Activity
+  Activity,
+  Zap,
+  ShieldCheck
 } from 'lucide-react';
 import { useSimpleNotifications } from '@/hooks/useSimpleNotifications';
 import { DeliveryStats } from './DeliveryStats';
 import { SimpleNotificationSender } from './SimpleNotificationSender';
 import { AsociacionNotificationDebug } from './AsociacionNotificationDebug';
 import { CreateNotificationDialog } from './CreateNotificationDialog';
+import NotificationAutomation from './NotificationAutomation';
+import { WhatsAppInbox } from './WhatsAppInbox';
+import { NotificationApprovals } from './NotificationApprovals';
+import { EmailBrandingDialog } from './EmailBrandingDialog';
 import { notificationTemplatesService } from '@/services/notification-templates.service';
 import { toast } from 'react-hot-toast';
 
-type TabType = 'dashboard' | 'send' | 'history';
+type TabType = 'dashboard' | 'send' | 'history' | 'approvals' | 'inbox' | 'automation';
 
 interface NotificationStats {
   totalSent: number;
@@ -52,6 +58,7 @@ export const ModernNotificationCenter = () => {
   const [showAdvancedStats, setShowAdvancedStats] = useState(false);
   const [showDebug, setShowDebug] = useState(true);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showBrandingDialog, setShowBrandingDialog] = useState(false);
   const [templatesInitialized, setTemplatesInitialized] = useState(false);
 
   // Initialize system templates on mount (only once)
@@ -101,6 +108,24 @@ export const ModernNotificationCenter = () => {
       label: 'Historial',
       icon: History,
       color: 'from-purple-500 to-purple-600'
+    },
+    {
+      id: 'approvals' as TabType,
+      label: 'Aprobaciones',
+      icon: ShieldCheck,
+      color: 'from-yellow-500 to-amber-600'
+    },
+    {
+      id: 'inbox' as TabType,
+      label: 'WhatsApp',
+      icon: MessageSquare,
+      color: 'from-green-500 to-emerald-600'
+    },
+    {
+      id: 'automation' as TabType,
+      label: 'Automatizaciones',
+      icon: Zap,
+      color: 'from-amber-500 to-orange-600'
     }
   ];
 
@@ -150,7 +175,11 @@ export const ModernNotificationCenter = () => {
               >
                 🔍
               </button>
-              <button className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+              <button
+                onClick={() => setShowBrandingDialog(true)}
+                className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+                title="Marca de los emails"
+              >
                 <Settings className="w-5 h-5" />
               </button>
             </div>
@@ -240,10 +269,19 @@ export const ModernNotificationCenter = () => {
                 loading={loading}
               />
             )}
+            {activeTab === 'approvals' && <NotificationApprovals />}
+            {activeTab === 'inbox' && <WhatsAppInbox />}
+            {activeTab === 'automation' && <NotificationAutomation />}
           </motion.div>
         </AnimatePresence>
       </div>
 
+      {/* Logo, colores y pie de los emails de la asociación */}
+      <EmailBrandingDialog
+        open={showBrandingDialog}
+        onClose={() => setShowBrandingDialog(false)}
+      />
+
       {/* Create Notification Dialog with Templates */}
       <CreateNotificationDialog
         open={showCreateDialog}
@@ -280,13 +318,8 @@ const DashboardTab = ({ stats, notifications, recipients, showAdvancedStats }: {
 }) => {
   const recentNotifications = notifications.slice(0, 5);
 
-  // Narrow notifications to exclude 'draft' so types align with DeliveryStats
-  const deliverableNotifications = notifications.filter(
-    (n): n is Omit<SimpleNotification, 'status'> & { status: Exclude<SimpleNotification['status'], 'draft'> } => n.status !== 'draft'
-  );
-
   if (showAdvancedStats) {
-    return <DeliveryStats notifications={deliverableNotifications} recipients={recipients} />;
+    return <DeliveryStats />;
   }
 
   return (
@@ -0,0 +1,470 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Timestamp } from 'firebase/firestore';
+import {
+  ShieldCheck,
+  CheckCircle,
+  XCircle,
+  MessageCircle,
+  Clock,
+  AlertCircle,
+  Users,
+  Plus,
+  Power,
+  History,
+} from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useNotificationApprovals } from '@/hooks/useNotificationApprovals';
+import { notificationApprovalService } from '@/services/notification-approval.service';
+import {
+  ApprovalAuditAction,
+  ApprovalRequest,
+  ApprovalRequestStatus,
+  ApprovalWorkflow,
+  WorkflowTrigger,
+} from '@/types/notification-approval';
+
+type FiltroSolicitudes = 'pendientes' | 'todas';
+
+const ESTADOS: Record<ApprovalRequestStatus, { label: string; className: string }> = {
+  pending: { label: 'Pendiente', className: 'bg-amber-100 text-amber-700' },
+  approved: { label: 'Aprobada', className: 'bg-green-100 text-green-700' },
+  rejected: { label: 'Rechazada', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Cancelada', className: 'bg-gray-100 text-gray-600' },
+  escalated: { label: 'Escalada', className: 'bg-purple-100 text-purple-700' },
+};
+
+const ACCIONES_AUDITORIA: Record<ApprovalAuditAction, string> = {
+  requested: 'pidió aprobación',
+  auto_approved: 'aprobó automáticamente',
+  approved: 'aprobó',
+  rejected: 'rechazó',
+  commented: 'comentó',
+  released: 'liberó el envío',
+  cancelled: 'canceló el envío',
+};
+
+const PRIORIDADES: Record<ApprovalRequest['priority'], string> = {
+  low: 'Baja',
+  normal: 'Normal',
+  high: 'Alta',
+  urgent: 'Urgente',
+};
+
+const aFecha = (valor: unknown): Date | null =>
+  valor instanceof Timestamp ? valor.toDate() : valor instanceof Date ? valor : null;
+
+const formatearFecha = (valor: unknown) =>
+  aFecha(valor)?.toLocaleString('es-AR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' }) ?? '';
+
+const describirDisparador = (trigger: WorkflowTrigger) => {
+  if (trigger.type === 'recipient_count' && trigger.operator === 'greater_than') {
+    return `Más de ${trigger.value} destinatarios`;
+  }
+  if (trigger.type === 'priority' && trigger.operator === 'equals') {
+    return `Prioridad ${PRIORIDADES[trigger.value as ApprovalRequest['priority']]?.toLowerCase() ?? trigger.value}`;
+  }
+  const valor = Array.isArray(trigger.value) ? trigger.value.join(', ') : trigger.value;
+  return `${trigger.type} ${trigger.operator} ${valor}`;
+};
+
+const describirAprobadores = (workflow: ApprovalWorkflow) =>
+  workflow.steps
+    .map(step => step.approverType === 'role'
+      ? step.approvers.map(rol => rol === 'asociacion' ? 'la asociación' : rol === 'admin' ? 'Fidelya' : rol).join(' o ')
+      : `${step.approvers.length} usuario(s)`)
+    .join(' → ');
+
+// Umbral de destinatarios de la plantilla, si tiene
+const umbralDe = (plantilla: Partial<ApprovalWorkflow>) =>
+  plantilla.triggers?.find(t => t.type === 'recipient_count' && t.operator === 'greater_than')?.value;
+
+export const NotificationApprovals = () => {
+  const {
+    solicitudes,
+    workflows,
+    solicitudSeleccionada,
+    seleccionarSolicitud,
+    auditoria,
+    pendientes,
+    loading,
+    error,
+    puedeDecidir,
+    decidir,
+    comentar,
+    crearWorkflow,
+    cambiarActivo,
+  } = useNotificationApprovals();
+
+  const plantillas = notificationApprovalService.getWorkflowTemplates();
+
+  const [filtro, setFiltro] = useState<FiltroSolicitudes>('pendientes');
+  const [comentario, setComentario] = useState('');
+  const [procesando, setProcesando] = useState(false);
+  const [plantillaIndex, setPlantillaIndex] = useState(0);
+  const [umbral, setUmbral] = useState(Number(umbralDe(plantillas[0]) ?? 100));
+
+  const solicitudesFiltradas = solicitudes.filter(solicitud =>
+    filtro === 'todas' || solicitud.status === 'pending'
+  );
+  const workflowDe = (solicitud: ApprovalRequest) => workflows.find(w => w.id === solicitud.workflowId);
+
+  const ejecutar = async (accion: () => Promise<void>, exito: string) => {
+    if (procesando) return;
+    setProcesando(true);
+    try {
+      await accion();
+      setComentario('');
+      toast.success(exito);
+    } catch (actionError) {
+      toast.error(actionError instanceof Error ? actionError.message : 'No se pudo procesar la solicitud');
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  const handleRechazar = () => {
+    if (!comentario.trim()) {
+      toast.error('Indicá el motivo del rechazo');
+      return;
+    }
+    ejecutar(() => decidir('reject', comentario), 'Solicitud rechazada: el envío se canceló');
+  };
+
+  const handleCrearWorkflow = () => {
+    const plantilla = plantillas[plantillaIndex];
+    const conUmbral = umbralDe(plantilla) !== undefined;
+    if (conUmbral && (!Number.isInteger(umbral) || umbral < 1)) {
+      toast.error('El umbral de destinatarios debe ser un número mayor a cero');
+      return;
+    }
+
+    ejecutar(() => crearWorkflow({
+      ...plantilla,
+      ...(conUmbral && {
+        name: `${plantilla.name} (más de ${umbral})`,
+        triggers: plantilla.triggers?.map(trigger =>
+          trigger.type === 'recipient_count' ? { ...trigger, value: umbral } : trigger
+        ),
+      }),
+    }), 'Workflow creado');
+  };
+
+  const seleccionada = solicitudSeleccionada;
+  const workflowSeleccionado = seleccionada ? workflowDe(seleccionada) : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Aprobaciones</h2>
+            <p className="text-gray-600">
+              Los envíos que cumplen un workflow activo quedan retenidos hasta que los aprueben todos los pasos.
+              Si alguien los rechaza, no se envían.
+            </p>
+          </div>
+          <div className="flex items-center gap-2 px-3 py-2 bg-amber-50 text-amber-700 rounded-lg whitespace-nowrap">
+            <ShieldCheck className="w-4 h-4" />
+            <span className="text-sm font-medium">{pendientes} para decidir</span>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-4 bg-red-50 text-red-700 rounded-lg">
+          <AlertCircle className="w-5 h-5" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden grid grid-cols-1 md:grid-cols-3 min-h-[520px]">
+        {/* Solicitudes */}
+        <div className="border-r border-gray-200 flex flex-col">
+          <div className="p-4 border-b border-gray-200 flex gap-2">
+            {(['pendientes', 'todas'] as FiltroSolicitudes[]).map(opcion => (
+              <button
+                key={opcion}
+                onClick={() => setFiltro(opcion)}
+                className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                  filtro === opcion ? 'bg-amber-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {opcion === 'pendientes' ? 'Pendientes' : 'Todas'}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto max-h-[460px]">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500" />
+              </div>
+            ) : solicitudesFiltradas.length === 0 ? (
+              <div className="text-center py-12 px-4">
+                <ShieldCheck className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                <p className="text-sm text-gray-500">
+                  {filtro === 'pendientes' ? 'No hay envíos esperando aprobación' : 'Todavía no hay solicitudes'}
+                </p>
+              </div>
+            ) : (
+              solicitudesFiltradas.map(solicitud => (
+                <button
+                  key={solicitud.id}
+                  onClick={() => seleccionarSolicitud(solicitud.id ?? null)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${
+                    seleccionada?.id === solicitud.id ? 'bg-amber-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">
+                      {solicitud.metadata.title || 'Notificación sin título'}
+                    </span>
+                    <span className={`px-2 py-0.5 rounded-full text-[11px] font-medium ${ESTADOS[solicitud.status].className}`}>
+                      {ESTADOS[solicitud.status].label}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 mt-1 text-xs text-gray-500">
+                    <span className="truncate">
+                      {solicitud.requesterName} · {solicitud.metadata.recipientCount} destinatarios
+                    </span>
+                    <span className="whitespace-nowrap">{formatearFecha(solicitud.createdAt)}</span>
+                  </div>
+                  {puedeDecidir(solicitud) && (
+                    <span className="inline-block mt-1 text-[11px] text-amber-600">Espera tu decisión</span>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Solicitud seleccionada */}
+        <div className="md:col-span-2 flex flex-col">
+          {!seleccionada ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
+              <ShieldCheck className="w-12 h-12 text-gray-300 mb-3" />
+              <p className="text-gray-500">Elegí una solicitud para revisarla</p>
+            </div>
+          ) : (
+            <>
+              <div className="px-6 py-4 border-b border-gray-200">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="font-semibold text-gray-900">{seleccionada.metadata.title || 'Notificación sin título'}</p>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${ESTADOS[seleccionada.status].className}`}>
+                    {ESTADOS[seleccionada.status].label}
+                  </span>
+                </div>
+                <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-500">
+                  <span className="flex items-center gap-1"><Users className="w-3 h-3" />{seleccionada.metadata.recipientCount} destinatarios</span>
+                  <span>Canales: {seleccionada.metadata.channels.join(', ') || '—'}</span>
+                  <span>Prioridad: {PRIORIDADES[seleccionada.priority]}</span>
+                  <span>Pedida por {seleccionada.requesterName} el {formatearFecha(seleccionada.createdAt)}</span>
+                </div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto max-h-[380px] px-6 py-4 space-y-5 bg-gray-50">
+                {seleccionada.metadata.message && (
+                  <div className="p-4 bg-white rounded-lg border border-gray-200">
+                    <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{seleccionada.metadata.message}</p>
+                  </div>
+                )}
+
+                {/* Pasos */}
+                <div className="space-y-2">
+                  {seleccionada.steps.map((paso, index) => {
+                    const definicion = workflowSeleccionado?.steps.find(s => s.id === paso.stepId);
+                    const actual = seleccionada.status === 'pending' && index === seleccionada.currentStep;
+                    return (
+                      <div
+                        key={paso.stepId}
+                        className={`p-3 rounded-lg border ${actual ? 'border-amber-300 bg-amber-50' : 'border-gray-200 bg-white'}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-sm font-medium text-gray-900">
+                            {index + 1}. {definicion?.name || paso.stepId}
+                          </span>
+                          <span className="flex items-center gap-1 text-xs text-gray-500">
+                            {paso.status === 'approved' && <CheckCircle className="w-3 h-3 text-green-600" />}
+                            {paso.status === 'rejected' && <XCircle className="w-3 h-3 text-red-600" />}
+                            {paso.status === 'pending' && <Clock className="w-3 h-3" />}
+                            {paso.approvals.filter(a => a.action === 'approve').length}/{paso.requiredApprovals} aprobaciones
+                          </span>
+                        </div>
+                        {paso.approvals.map(aprobacion => (
+                          <p key={aprobacion.approverId} className="text-xs text-gray-600 mt-1">
+                            {aprobacion.approverName} {aprobacion.action === 'approve' ? 'aprobó' : 'rechazó'}
+                            {aprobacion.comment && `: “${aprobacion.comment}”`}
+                          </p>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {/* Comentarios */}
+                {seleccionada.comments.length > 0 && (
+                  <div className="space-y-2">
+                    {seleccionada.comments.map(item => (
+                      <motion.div
+                        key={item.id}
+                        initial={{ opacity: 0, y: 8 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="flex gap-2 text-sm"
+                      >
+                        <MessageCircle className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />
+                        <div>
+                          <span className="font-medium text-gray-900">{item.userName}</span>
+                          <span className="text-xs text-gray-400 ml-2">{formatearFecha(item.timestamp)}</span>
+                          <p className="text-gray-700 whitespace-pre-wrap break-words">{item.comment}</p>
+                        </div>
+                      </motion.div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Auditoría */}
+                <div>
+                  <p className="flex items-center gap-1 text-xs font-semibold text-gray-500 uppercase mb-2">
+                    <History className="w-3 h-3" /> Historial
+                  </p>
+                  <ul className="space-y-1">
+                    {auditoria.map(entrada => (
+                      <li key={entrada.id} className="text-xs text-gray-600">
+                        <span className="text-gray-400">{formatearFecha(entrada.createdAt)}</span>{' '}
+                        <span className="font-medium">{entrada.actorName}</span> {ACCIONES_AUDITORIA[entrada.action]}
+                        {entrada.step !== null && ` (paso ${entrada.step + 1})`}
+                        {entrada.comment && entrada.action !== 'commented' && ` · ${entrada.comment}`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+
+              <div className="p-4 border-t border-gray-200 space-y-3">
+                <textarea
+                  value={comentario}
+                  onChange={(e) => setComentario(e.target.value)}
+                  rows={2}
+                  placeholder={puedeDecidir(seleccionada) ? 'Comentario (obligatorio para rechazar)' : 'Escribí un comentario'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm resize-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                />
+                <div className="flex flex-wrap justify-end gap-3">
+                  <button
+                    onClick={() => ejecutar(() => comentar(comentario), 'Comentario agregado')}
+                    disabled={!comentario.trim() || procesando}
+                    className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <MessageCircle className="w-4 h-4" />
+                    <span>Comentar</span>
+                  </button>
+                  {puedeDecidir(seleccionada) && (
+                    <>
+                      <button
+                        onClick={handleRechazar}
+                        disabled={procesando}
+                        className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <XCircle className="w-4 h-4" />
+                        <span className="font-medium">Rechazar</span>
+                      </button>
+                      <button
+                        onClick={() => ejecutar(() => decidir('approve', comentario), 'Aprobación registrada')}
+                        disabled={procesando}
+                        className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                        <span className="font-medium">{procesando ? 'Procesando...' : 'Aprobar'}</span>
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Workflows */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Workflows de aprobación</h3>
+
+        {workflows.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">
+            No hay workflows: todos los envíos salen sin aprobación.
+          </p>
+        ) : (
+          <div className="space-y-3 mb-6">
+            {workflows.map(workflow => (
+              <div key={workflow.id} className="flex items-center justify-between gap-4 p-4 bg-gray-50 rounded-lg border border-gray-100">
+                <div>
+                  <p className="text-sm font-semibold text-gray-900">{workflow.name}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {workflow.triggers.map(describirDisparador).join(' y ') || 'Todos los envíos'} · Aprueba {describirAprobadores(workflow)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => ejecutar(
+                    () => cambiarActivo(workflow.id!, !workflow.isActive),
+                    workflow.isActive ? 'Workflow desactivado' : 'Workflow activado'
+                  )}
+                  disabled={procesando}
+                  className={`flex items-center gap-2 px-3 py-2 text-sm rounded-lg transition-colors ${
+                    workflow.isActive ? 'bg-green-100 text-green-700 hover:bg-green-200' : 'bg-gray-200 text-gray-600 hover:bg-gray-300'
+                  }`}
+                >
+                  <Power className="w-4 h-4" />
+                  <span>{workflow.isActive ? 'Activo' : 'Inactivo'}</span>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Plantilla</label>
+            <select
+              value={plantillaIndex}
+              onChange={(e) => {
+                const index = Number(e.target.value);
+                setPlantillaIndex(index);
+                setUmbral(Number(umbralDe(plantillas[index]) ?? umbral));
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+            >
+              {plantillas.map((plantilla, index) => (
+                <option key={plantilla.name} value={index}>{plantilla.name}</option>
+              ))}
+            </select>
+          </div>
+          {umbralDe(plantillas[plantillaIndex]) !== undefined && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Más de (destinatarios)</label>
+              <input
+                type="number"
+                min={1}
+                value={umbral}
+                onChange={(e) => setUmbral(Number(e.target.value))}
+                className="w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+              />
+            </div>
+          )}
+          <button
+            onClick={handleCrearWorkflow}
+            disabled={procesando}
+            className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-white rounded-lg text-sm hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span className="font-medium">Agregar workflow</span>
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">{plantillas[plantillaIndex]?.description}</p>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationApprovals;
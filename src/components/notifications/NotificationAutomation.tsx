@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Box,
@@ -48,9 +48,20 @@ import {
   Notifications,
   Timer,
 } from '@mui/icons-material';
+import {
+  notificationSchedulerService,
+  ScheduledNotification,
+  NotificationTrigger,
+  CampaignSchedule,
+  NotificationExecution,
+} from '@/services/notification-scheduler.service';
+import { useAuth } from '@/hooks/useAuth';
+import { CAMPOS_EVENTO, EVENTOS_DOMINIO, esTipoEventoDominio } from '@/lib/eventos-dominio';
 
 interface AutomationRule {
   id: string;
+  // Documento del que sale la regla; sin origen la regla todavía no se guardó
+  source?: 'scheduled' | 'trigger' | 'campaign';
   name: string;
   description: string;
   enabled: boolean;
@@ -58,6 +69,11 @@ interface AutomationRule {
   conditions: AutomationCondition[];
   actions: AutomationAction[];
   schedule?: AutomationSchedule;
+  // Límites por usuario de las reglas por evento
+  execution?: {
+    cooldownPeriod?: number; // minutos
+    maxExecutionsPerUser?: number;
+  };
   stats: AutomationStats;
   createdAt: Date;
   updatedAt: Date;
@@ -102,7 +118,191 @@ interface AutomationStats {
   notificationsSent: number;
 }
 
+const FRECUENCIAS: Record<string, string> = {
+  daily: 'día',
+  weekly: 'semana',
+  monthly: 'mes',
+  yearly: 'año',
+};
+
+const DIAS_SEMANA = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+const describirPrograma = (schedule: ScheduledNotification['schedule']): string => {
+  if (schedule.type === 'once') {
+    return `Una vez, ${schedule.startDate.toLocaleString()}`;
+  }
+
+  const interval = schedule.interval || 1;
+  const frecuencia = FRECUENCIAS[schedule.frequency || 'daily'];
+  const partes = [interval > 1 ? `Cada ${interval} ${frecuencia}s` : `Cada ${frecuencia}`];
+  if (schedule.frequency === 'weekly' && schedule.daysOfWeek?.length) {
+    partes.push(schedule.daysOfWeek.map(dia => DIAS_SEMANA[dia]).join(', '));
+  }
+  if (schedule.frequency === 'monthly' && schedule.dayOfMonth) {
+    partes.push(`día ${schedule.dayOfMonth}`);
+  }
+  partes.push(`${schedule.time} (${schedule.timezone})`);
+  return partes.join(' · ');
+};
+
+// Ejecuciones exitosas y fallidas registradas para un documento
+const contarEjecuciones = (
+  executions: NotificationExecution[],
+  coincide: (execution: NotificationExecution) => boolean
+) => {
+  const propias = executions.filter(coincide);
+  return {
+    successfulExecutions: propias.filter(e => e.status === 'completed').length,
+    failedExecutions: propias.filter(e => e.status === 'failed').length,
+  };
+};
+
+const desdeProgramada = (
+  scheduled: ScheduledNotification,
+  executions: NotificationExecution[]
+): AutomationRule => {
+  const { failedExecutions } = contarEjecuciones(executions, e => e.scheduledNotificationId === scheduled.id);
+  return {
+    id: scheduled.id,
+    source: 'scheduled',
+    name: scheduled.name,
+    description: scheduled.description,
+    enabled: scheduled.isActive && scheduled.status === 'active',
+    trigger: {
+      type: 'schedule',
+      schedule: scheduled.nextExecution
+        ? `${describirPrograma(scheduled.schedule)} · próxima: ${scheduled.nextExecution.toLocaleString()}`
+        : describirPrograma(scheduled.schedule),
+      parameters: {},
+    },
+    conditions: [],
+    actions: [{ type: 'send_notification', parameters: { title: scheduled.notificationData.title } }],
+    schedule: {
+      type: scheduled.schedule.type,
+      startDate: scheduled.schedule.startDate,
+      endDate: scheduled.schedule.endDate,
+      frequency: scheduled.schedule.frequency === 'yearly' ? undefined : scheduled.schedule.frequency,
+      interval: scheduled.schedule.interval,
+      daysOfWeek: scheduled.schedule.daysOfWeek,
+      timeOfDay: scheduled.schedule.time,
+    },
+    stats: {
+      totalExecutions: scheduled.executionCount + failedExecutions,
+      successfulExecutions: scheduled.executionCount,
+      failedExecutions,
+      lastExecution: scheduled.lastExecution,
+      averageExecutionTime: 0,
+      notificationsSent: scheduled.analytics?.totalSent || 0,
+    },
+    createdAt: scheduled.createdAt,
+    updatedAt: scheduled.updatedAt,
+  };
+};
+
+const desdeTrigger = (
+  trigger: NotificationTrigger,
+  executions: NotificationExecution[]
+): AutomationRule => {
+  const { failedExecutions } = contarEjecuciones(executions, e => e.triggerId === trigger.id);
+  const totalTriggers = trigger.analytics?.totalTriggers || 0;
+  return {
+    id: trigger.id,
+    source: 'trigger',
+    name: trigger.name,
+    description: trigger.description,
+    enabled: trigger.isActive,
+    trigger: {
+      type: trigger.trigger.type,
+      event: trigger.trigger.event,
+      webhook: trigger.trigger.webhookUrl,
+      parameters: {},
+    },
+    conditions: (trigger.trigger.conditions || []).map(condition => ({
+      field: condition.field,
+      operator: condition.operator,
+      value: condition.value as AutomationCondition['value'],
+    })),
+    actions: [
+      ...(trigger.action.delay ? [{ type: 'delay' as const, parameters: { duration: `${trigger.action.delay} minutes` } }] : []),
+      {
+        type: 'send_notification',
+        parameters: {
+          title: trigger.action.notificationData.title,
+          message: trigger.action.notificationData.message,
+          channel: trigger.action.notificationData.channels?.[0] || 'all',
+        },
+      },
+    ],
+    execution: {
+      cooldownPeriod: trigger.execution?.cooldownPeriod,
+      maxExecutionsPerUser: trigger.execution?.maxExecutionsPerUser,
+    },
+    stats: {
+      totalExecutions: totalTriggers + failedExecutions,
+      successfulExecutions: totalTriggers,
+      failedExecutions,
+      lastExecution: trigger.analytics?.lastTriggered,
+      averageExecutionTime: 0,
+      notificationsSent: trigger.analytics?.totalNotificationsSent || 0,
+    },
+    createdAt: trigger.createdAt,
+    updatedAt: trigger.updatedAt,
+  };
+};
+
+const desdeCampania = (
+  campaign: CampaignSchedule,
+  executions: NotificationExecution[]
+): AutomationRule => {
+  const { successfulExecutions, failedExecutions } =
+    contarEjecuciones(executions, e => e.campaignId === campaign.id);
+  const ejecutadas = campaign.executedPhases?.length || 0;
+  const fases = campaign.schedule.phases.length;
+  const ultima = executions.find(e => e.campaignId === campaign.id);
+  return {
+    id: campaign.id,
+    source: 'campaign',
+    name: campaign.name,
+    description: campaign.description,
+    enabled: campaign.status === 'scheduled' || campaign.status === 'running',
+    trigger: {
+      type: 'schedule',
+      schedule: `Campaña · ${ejecutadas}/${fases} fases enviadas`,
+      parameters: {},
+    },
+    conditions: [],
+    actions: campaign.schedule.phases.map(phase => ({
+      type: 'send_notification' as const,
+      parameters: { phase: phase.name, startDate: phase.startDate },
+    })),
+    stats: {
+      totalExecutions: Math.max(ejecutadas, successfulExecutions) + failedExecutions,
+      successfulExecutions: Math.max(ejecutadas, successfulExecutions),
+      failedExecutions,
+      lastExecution: ultima?.executedAt,
+      averageExecutionTime: 0,
+      notificationsSent: campaign.analytics?.totalSent || 0,
+    },
+    createdAt: campaign.createdAt,
+    updatedAt: campaign.updatedAt,
+  };
+};
+
+const MINUTOS_POR_UNIDAD: Record<string, number> = {
+  minute: 1, minuto: 1, min: 1,
+  hour: 60, hora: 60,
+  day: 60 * 24, dia: 60 * 24, día: 60 * 24,
+};
+
+// "30 minutes", "2 horas", "1 día" → minutos
+const parseDuracionMinutos = (duracion: unknown): number => {
+  const match = String(duracion ?? '').trim().toLowerCase().match(/^(\d+)\s*([a-zá]+?)s?$/);
+  if (!match) return 0;
+  return Number(match[1]) * (MINUTOS_POR_UNIDAD[match[2]] ?? 0);
+};
+
 export default function NotificationAutomation() {
+  const { user } = useAuth();
   const [automationRules, setAutomationRules] = useState<AutomationRule[]>([]);
   const [selectedRule, setSelectedRule] = useState<AutomationRule | null>(null);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
@@ -132,34 +332,11 @@ export default function NotificationAutomation() {
     }
   });
 
-  // Eventos disponibles para triggers
-  const availableEvents = [
-    { value: 'user.registered', label: 'Usuario registrado', description: 'Cuando un nuevo usuario se registra' },
-    { value: 'user.login', label: 'Usuario inicia sesión', description: 'Cuando un usuario inicia sesión' },
-    { value: 'user.inactive', label: 'Usuario inactivo', description: 'Cuando un usuario no ha estado activo por X días' },
-    { value: 'benefit.created', label: 'Beneficio creado', description: 'Cuando se crea un nuevo beneficio' },
-    { value: 'benefit.used', label: 'Beneficio utilizado', description: 'Cuando un usuario utiliza un beneficio' },
-    { value: 'benefit.expires', label: 'Beneficio por vencer', description: 'Cuando un beneficio está por vencer' },
-    { value: 'comercio.joined', label: 'Comercio se une', description: 'Cuando un comercio se une a la asociación' },
-    { value: 'validation.completed', label: 'Validación completada', description: 'Cuando se completa una validación' },
-    { value: 'payment.received', label: 'Pago recibido', description: 'Cuando se recibe un pago' },
-    { value: 'membership.expires', label: 'Membresía por vencer', description: 'Cuando una membresía está por vencer' }
-  ];
+  // Eventos de dominio que publica el sistema
+  const availableEvents = Object.entries(EVENTOS_DOMINIO).map(([value, evento]) => ({ value, ...evento }));
 
-  // Campos disponibles para condiciones
-  const availableFields = [
-    { value: 'user.type', label: 'Tipo de usuario', type: 'select', options: ['socio', 'comercio', 'asociacion'] },
-    { value: 'user.status', label: 'Estado del usuario', type: 'select', options: ['active', 'inactive', 'suspended'] },
-    { value: 'user.registrationDate', label: 'Fecha de registro', type: 'date' },
-    { value: 'user.lastLogin', label: 'Último login', type: 'date' },
-    { value: 'user.location', label: 'Ubicación', type: 'text' },
-    { value: 'user.age', label: 'Edad', type: 'number' },
-    { value: 'user.membershipLevel', label: 'Nivel de membresía', type: 'select', options: ['basic', 'premium', 'vip'] },
-    { value: 'benefit.category', label: 'Categoría del beneficio', type: 'text' },
-    { value: 'benefit.value', label: 'Valor del beneficio', type: 'number' },
-    { value: 'comercio.category', label: 'Categoría del comercio', type: 'text' },
-    { value: 'validation.amount', label: 'Monto de validación', type: 'number' }
-  ];
+  // Campos del evento elegido, para condiciones y variables del mensaje
+  const availableFields = esTipoEventoDominio(newRule.trigger?.event) ? CAMPOS_EVENTO[newRule.trigger.event] : [];
 
   // Tipos de acciones disponibles
   const availableActions = [
@@ -195,167 +372,62 @@ export default function NotificationAutomation() {
     }
   ];
 
-  useEffect(() => {
-    loadAutomationRules();
-  }, []);
-
-  const loadAutomationRules = async () => {
+  const loadAutomationRules = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
-      // Simular carga de reglas de automatización
-      const mockRules: AutomationRule[] = [
-        {
-          id: '1',
-          name: 'Bienvenida a nuevos usuarios',
-          description: 'Envía un email de bienvenida cuando un usuario se registra',
-          enabled: true,
-          trigger: {
-            type: 'event',
-            event: 'user.registered',
-            parameters: {}
-          },
-          conditions: [
-            {
-              field: 'user.type',
-              operator: 'equals',
-              value: 'socio'
-            }
-          ],
-          actions: [
-            {
-              type: 'send_notification',
-              parameters: {
-                template: 'welcome_email',
-                channel: 'email',
-                delay: 0
-              }
-            }
-          ],
-          stats: {
-            totalExecutions: 245,
-            successfulExecutions: 242,
-            failedExecutions: 3,
-            lastExecution: new Date(Date.now() - 2 * 60 * 60 * 1000),
-            averageExecutionTime: 1.2,
-            notificationsSent: 242
-          },
-          createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-          updatedAt: new Date(Date.now() - 2 * 60 * 60 * 1000)
-        },
-        {
-          id: '2',
-          name: 'Recordatorio de beneficios por vencer',
-          description: 'Notifica a usuarios sobre beneficios que vencen en 3 días',
-          enabled: true,
-          trigger: {
-            type: 'schedule',
-            schedule: '0 9 * * *', // Diario a las 9 AM
-            parameters: {}
-          },
-          conditions: [
-            {
-              field: 'benefit.expiryDate',
-              operator: 'less_than',
-              value: '3 days'
-            }
-          ],
-          actions: [
-            {
-              type: 'send_notification',
-              parameters: {
-                template: 'benefit_expiry_reminder',
-                channel: 'push',
-                delay: 0
-              }
-            }
-          ],
-          stats: {
-            totalExecutions: 30,
-            successfulExecutions: 28,
-            failedExecutions: 2,
-            lastExecution: new Date(Date.now() - 24 * 60 * 60 * 1000),
-            averageExecutionTime: 5.8,
-            notificationsSent: 156
-          },
-          createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
-          updatedAt: new Date(Date.now() - 24 * 60 * 60 * 1000)
-        },
-        {
-          id: '3',
-          name: 'Reactivación de usuarios inactivos',
-          description: 'Campaña para reactivar usuarios que no han usado la app en 30 días',
-          enabled: false,
-          trigger: {
-            type: 'schedule',
-            schedule: '0 10 * * 1', // Lunes a las 10 AM
-            parameters: {}
-          },
-          conditions: [
-            {
-              field: 'user.lastLogin',
-              operator: 'less_than',
-              value: '30 days ago'
-            },
-            {
-              field: 'user.status',
-              operator: 'equals',
-              value: 'active',
-              logicalOperator: 'AND'
-            }
-          ],
-          actions: [
-            {
-              type: 'send_notification',
-              parameters: {
-                template: 'reactivation_email',
-                channel: 'email',
-                delay: 0
-              }
-            },
-            {
-              type: 'delay',
-              parameters: {
-                duration: '3 days'
-              }
-            },
-            {
-              type: 'send_notification',
-              parameters: {
-                template: 'reactivation_sms',
-                channel: 'sms',
-                delay: 0
-              }
-            }
-          ],
-          stats: {
-            totalExecutions: 4,
-            successfulExecutions: 3,
-            failedExecutions: 1,
-            lastExecution: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-            averageExecutionTime: 12.5,
-            notificationsSent: 89
-          },
-          createdAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000),
-          updatedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-        }
-      ];
+      // Una asociación administra sus reglas por evento; el admin ve todo
+      const esAsociacion = user?.role === 'asociacion';
+      const [scheduled, triggers, campaigns, executions] = await Promise.all([
+        esAsociacion ? [] : notificationSchedulerService.getScheduledNotifications(true),
+        notificationSchedulerService.getNotificationTriggers(true, esAsociacion ? user.uid : undefined),
+        esAsociacion ? [] : notificationSchedulerService.getCampaignSchedules(),
+        notificationSchedulerService.getRecentExecutions(),
+      ]);
 
-      setAutomationRules(mockRules);
+      setAutomationRules([
+        ...scheduled.map(item => desdeProgramada(item, executions)),
+        ...triggers.map(item => desdeTrigger(item, executions)),
+        ...campaigns.map(item => desdeCampania(item, executions)),
+      ]);
     } catch (err) {
       console.error('Error loading automation rules:', err);
       setError('Error al cargar las reglas de automatización');
     } finally {
       setLoading(false);
     }
-  };
+  }, [user]);
+
+  useEffect(() => {
+    loadAutomationRules();
+  }, [loadAutomationRules]);
 
   const handleToggleRule = async (ruleId: string) => {
     try {
+      const rule = automationRules.find(r => r.id === ruleId);
+      if (!rule) return;
+      const enabled = !rule.enabled;
+
+      if (rule.source === 'scheduled') {
+        const scheduled = (await notificationSchedulerService.getScheduledNotifications(true))
+          .find(item => item.id === ruleId);
+        if (scheduled) {
+          await notificationSchedulerService.setScheduledNotificationActive(scheduled, enabled);
+        }
+      } else if (rule.source === 'trigger') {
+        await notificationSchedulerService.updateNotificationTrigger(ruleId, { isActive: enabled });
+      } else if (rule.source === 'campaign') {
+        const campaign = (await notificationSchedulerService.getCampaignSchedules()).find(item => item.id === ruleId);
+        const status = enabled
+          ? (campaign?.executedPhases?.length ? 'running' : 'scheduled')
+          : 'paused';
+        await notificationSchedulerService.updateCampaignSchedule(ruleId, { status });
+      }
+
       setAutomationRules(prev => prev.map(rule => 
         rule.id === ruleId 
-          ? { ...rule, enabled: !rule.enabled, updatedAt: new Date() }
+          ? { ...rule, enabled, updatedAt: new Date() }
           : rule
       ));
 
@@ -369,6 +441,15 @@ export default function NotificationAutomation() {
 
   const handleDeleteRule = async (ruleId: string) => {
     try {
+      const rule = automationRules.find(r => r.id === ruleId);
+      if (rule?.source === 'scheduled') {
+        await notificationSchedulerService.deleteScheduledNotification(ruleId);
+      } else if (rule?.source === 'trigger') {
+        await notificationSchedulerService.deleteNotificationTrigger(ruleId);
+      } else if (rule?.source === 'campaign') {
+        await notificationSchedulerService.deleteCampaignSchedule(ruleId);
+      }
+
       setAutomationRules(prev => prev.filter(rule => rule.id !== ruleId));
       setSuccess('Regla eliminada exitosamente');
       setTimeout(() => setSuccess(null), 3000);
@@ -388,14 +469,95 @@ export default function NotificationAutomation() {
         return;
       }
 
+      // Las reglas nuevas se disparan por evento y se guardan como NotificationTrigger
+      const esReglaPorEvento = newRule.trigger.type === 'event' &&
+        (!selectedRule || selectedRule.source === 'trigger');
+      if (!selectedRule?.source && !esReglaPorEvento) {
+        setError('Las reglas nuevas deben dispararse por un evento');
+        return;
+      }
+
+      let ruleId = selectedRule?.id || '';
+      if (esReglaPorEvento) {
+        const envio = (newRule.actions || []).find(action => action.type === 'send_notification');
+        const title = String(envio?.parameters.title || '').trim();
+        const message = String(envio?.parameters.message || '').trim();
+        if (!newRule.trigger.event || !title || !message) {
+          setError('Elegí un evento y completá el título y el mensaje de la notificación');
+          return;
+        }
+
+        const delay = (newRule.actions || [])
+          .filter(action => action.type === 'delay')
+          .reduce((total, action) => total + parseDuracionMinutos(action.parameters.duration), 0);
+        const canal = String(envio?.parameters.channel || 'all');
+        const cooldownPeriod = Number(newRule.execution?.cooldownPeriod) || 0;
+        const maxExecutionsPerUser = Number(newRule.execution?.maxExecutionsPerUser) || 0;
+
+        const trigger: Pick<NotificationTrigger, 'trigger' | 'action' | 'execution'> = {
+          trigger: {
+            type: 'event',
+            event: newRule.trigger.event,
+            conditions: (newRule.conditions || []).map(({ field, operator, value }) => ({ field, operator, value })),
+          },
+          action: {
+            type: 'send_notification',
+            notificationData: {
+              title,
+              message,
+              type: 'info',
+              category: 'general',
+              ...(canal !== 'all' ? { channels: [canal as 'email' | 'sms' | 'push'] } : {}),
+            },
+            ...(delay > 0 ? { delay } : {}),
+          },
+          execution: {
+            priority: 'medium',
+            ...(cooldownPeriod > 0 ? { cooldownPeriod } : {}),
+            ...(maxExecutionsPerUser > 0 ? { maxExecutionsPerUser } : {}),
+          },
+        };
+
+        if (selectedRule) {
+          await notificationSchedulerService.updateNotificationTrigger(selectedRule.id, {
+            name: newRule.name,
+            description: newRule.description || '',
+            isActive: newRule.enabled ?? true,
+            ...trigger,
+          });
+        } else {
+          ruleId = await notificationSchedulerService.createNotificationTrigger({
+            name: newRule.name,
+            description: newRule.description || '',
+            isActive: newRule.enabled ?? true,
+            ...(user?.role === 'asociacion' ? { asociacionId: user.uid } : {}),
+            ...trigger,
+            createdBy: user?.uid || 'system',
+          });
+        }
+      } else if (selectedRule?.source === 'scheduled') {
+        // Nombre y descripción se guardan en el documento de origen
+        await notificationSchedulerService.updateScheduledNotification(selectedRule.id, {
+          name: newRule.name,
+          description: newRule.description || '',
+        });
+      } else if (selectedRule?.source === 'campaign') {
+        await notificationSchedulerService.updateCampaignSchedule(selectedRule.id, {
+          name: newRule.name,
+          description: newRule.description || '',
+        });
+      }
+
       const ruleToSave: AutomationRule = {
-        id: selectedRule?.id || Date.now().toString(),
+        id: ruleId,
+        source: selectedRule?.source || 'trigger',
         name: newRule.name!,
         description: newRule.description || '',
-        enabled: newRule.enabled || true,
+        enabled: newRule.enabled ?? true,
         trigger: newRule.trigger!,
         conditions: newRule.conditions || [],
         actions: newRule.actions || [],
+        execution: newRule.execution,
         stats: selectedRule?.stats || {
           totalExecutions: 0,
           successfulExecutions: 0,
@@ -457,7 +619,7 @@ export default function NotificationAutomation() {
       conditions: [
         ...(prev.conditions || []),
         {
-          field: 'user.type',
+          field: availableFields[0]?.value || '',
           operator: 'equals',
           value: ''
         }
@@ -677,6 +839,32 @@ export default function NotificationAutomation() {
               </FormControl>
             )}
 
+            {newRule.trigger?.type === 'event' && (
+              <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 2 }}>
+                <TextField
+                  label="Espera entre envíos al mismo usuario (minutos)"
+                  type="number"
+                  value={newRule.execution?.cooldownPeriod ?? ''}
+                  onChange={(e) => setNewRule(prev => ({
+                    ...prev,
+                    execution: { ...prev.execution, cooldownPeriod: e.target.value ? Number(e.target.value) : undefined }
+                  }))}
+                  fullWidth
+                />
+                <TextField
+                  label="Máximo de envíos por usuario"
+                  type="number"
+                  value={newRule.execution?.maxExecutionsPerUser ?? ''}
+                  onChange={(e) => setNewRule(prev => ({
+                    ...prev,
+                    execution: { ...prev.execution, maxExecutionsPerUser: e.target.value ? Number(e.target.value) : undefined }
+                  }))}
+                  fullWidth
+                  helperText="Ej: 1 para una bienvenida o un primer canje"
+                />
+              </Box>
+            )}
+
             {newRule.trigger?.type === 'schedule' && (
               <TextField
                 label="Expresión cron"
@@ -815,11 +1003,11 @@ export default function NotificationAutomation() {
                   {action.type === 'send_notification' && (
                     <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 2 }}>
                       <TextField
-                        label="Plantilla"
-                        value={action.parameters.template || ''}
+                        label="Título"
+                        value={action.parameters.title || ''}
                         onChange={(e) => {
                           const newActions = [...(newRule.actions || [])];
-                          newActions[index].parameters.template = e.target.value;
+                          newActions[index].parameters.title = e.target.value;
                           setNewRule(prev => ({ ...prev, actions: newActions }));
                         }}
                         fullWidth
@@ -827,19 +1015,35 @@ export default function NotificationAutomation() {
                       <FormControl fullWidth>
                         <InputLabel>Canal</InputLabel>
                         <Select
-                          value={action.parameters.channel || 'email'}
+                          value={action.parameters.channel || 'all'}
                           onChange={(e) => {
                             const newActions = [...(newRule.actions || [])];
                             newActions[index].parameters.channel = e.target.value;
                             setNewRule(prev => ({ ...prev, actions: newActions }));
                           }}
                         >
+                          <MenuItem value="all">Todos los canales</MenuItem>
                           <MenuItem value="email">Email</MenuItem>
                           <MenuItem value="sms">SMS</MenuItem>
                           <MenuItem value="push">Push</MenuItem>
-                          <MenuItem value="app">App</MenuItem>
                         </Select>
                       </FormControl>
+                      <TextField
+                        label="Mensaje"
+                        value={action.parameters.message || ''}
+                        onChange={(e) => {
+                          const newActions = [...(newRule.actions || [])];
+                          newActions[index].parameters.message = e.target.value;
+                          setNewRule(prev => ({ ...prev, actions: newActions }));
+                        }}
+                        multiline
+                        rows={3}
+                        fullWidth
+                        sx={{ gridColumn: '1 / -1' }}
+                        helperText={availableFields.length > 0
+                          ? `Variables: ${availableFields.map(field => `{{${field.value}}}`).join(', ')}`
+                          : undefined}
+                      />
                     </Box>
                   )}
 
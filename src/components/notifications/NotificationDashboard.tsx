@@ -2,6 +2,9 @@
 
 import { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
+import { notificationSchedulerService, CampaignSchedule } from '@/services/notification-scheduler.service';
+import { compararVariantes, METRICAS_VARIANTE, VARIANTE_CONTROL } from '@/lib/ab-testing';
+import { NivelSignificancia } from '@/types/ab-testing';
 
 interface UsageStats {
   period: string;
@@ -20,6 +23,19 @@ interface UsageStats {
   savings: number;
 }
 
+const NIVELES_SIGNIFICANCIA: Record<NivelSignificancia, { label: string; className: string }> = {
+  significativo: { label: 'Diferencia significativa (p < 0,05)', className: 'bg-green-100 text-green-800' },
+  tendencia: { label: 'Tendencia (p < 0,10)', className: 'bg-yellow-100 text-yellow-800' },
+  no_concluyente: { label: 'Sin diferencia concluyente', className: 'bg-gray-100 text-gray-800' },
+  muestra_insuficiente: { label: 'Muestra insuficiente', className: 'bg-blue-100 text-blue-800' },
+};
+
+const ESTADOS_PRUEBA: Record<string, string> = {
+  testing: 'En prueba',
+  sending_winner: 'Enviando ganadora',
+  winner_sent: 'Ganadora enviada',
+};
+
 interface Provider {
   name: string;
   configured: boolean;
@@ -31,6 +47,7 @@ interface Provider {
 export const NotificationDashboard = () => {
   const [stats, setStats] = useState<UsageStats | null>(null);
   const [providers, setProviders] = useState<Provider[]>([]);
+  const [campanias, setCampanias] = useState<CampaignSchedule[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -47,6 +64,10 @@ export const NotificationDashboard = () => {
         setProviders(providersResult.providers);
       }
 
+      // Campañas con variantes para comparar resultados
+      const campaigns = await notificationSchedulerService.getCampaignSchedules();
+      setCampanias(campaigns.filter(campaign => (campaign.campaign.variants?.length ?? 0) > 0));
+
       // Simular estadísticas (en producción, esto vendría de tu API)
       setStats({
         period: 'day',
@@ -77,6 +98,22 @@ export const NotificationDashboard = () => {
     }
   };
 
+  const handleElegirGanadora = async (campaign: CampaignSchedule, variantId: string) => {
+    try {
+      await notificationSchedulerService.selectCampaignWinner(campaign.id, variantId);
+      toast.success('La variante ganadora se enviará al resto del público en unos minutos');
+      await loadDashboardData();
+    } catch (error) {
+      console.error('Error eligiendo la variante ganadora:', error);
+      toast.error('No se pudo elegir la variante ganadora');
+    }
+  };
+
+  const getNombreVariante = (campaign: CampaignSchedule, variantId: string) =>
+    variantId === VARIANTE_CONTROL
+      ? 'Control (mensaje base)'
+      : campaign.campaign.variants?.find(variant => variant.id === variantId)?.name || variantId;
+
   const getProviderStatusColor = (status?: string) => {
     switch (status) {
       case 'connected': return 'bg-green-100 text-green-800';
@@ -244,6 +281,102 @@ export const NotificationDashboard = () => {
         </div>
       )}
 
+      {/* Pruebas A/B de Campañas */}
+      {campanias.length > 0 && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="px-6 py-4 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">🧪 Pruebas A/B de Campañas</h3>
+          </div>
+          <div className="p-6 space-y-6">
+            {campanias.map(campaign => {
+              const prueba = campaign.campaign.abTest;
+              const metrica = prueba?.winnerMetric || 'opened';
+              const resultado = compararVariantes(campaign.analytics?.variantStats ?? {}, metrica);
+              const nivel = NIVELES_SIGNIFICANCIA[resultado.nivel];
+              const puedeElegir = prueba?.status === 'testing' && !prueba.selectedWinnerId;
+
+              return (
+                <div key={campaign.id} className="border rounded-lg p-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                    <div>
+                      <span className="font-medium text-sm">{campaign.name}</span>
+                      <div className="text-xs text-gray-500">
+                        {METRICAS_VARIANTE[metrica]}
+                        {prueba && ` · ${prueba.testPercentage}% en prueba durante ${prueba.testWindowHours} h`}
+                        {prueba && ` · ${ESTADOS_PRUEBA[prueba.status] || prueba.status}`}
+                      </div>
+                    </div>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${nivel.className}`}>
+                      {nivel.label}
+                      {resultado.pValue !== null && ` · p = ${resultado.pValue.toFixed(3)}`}
+                    </span>
+                  </div>
+
+                  {resultado.variantes.length === 0 ? (
+                    <p className="text-sm text-gray-500">Todavía no hay envíos de esta campaña.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500">
+                          <th className="py-1">Variante</th>
+                          <th className="py-1 text-right">Enviados</th>
+                          <th className="py-1 text-right">Entregados</th>
+                          <th className="py-1 text-right">Aperturas</th>
+                          <th className="py-1 text-right">Clics</th>
+                          <th className="py-1 text-right">{METRICAS_VARIANTE[metrica]}</th>
+                          {puedeElegir && <th className="py-1"></th>}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {resultado.variantes.map(variante => {
+                          const ganadora = prueba?.winnerVariantId === variante.variantId;
+                          const lider = !prueba?.winnerVariantId && resultado.liderId === variante.variantId;
+                          return (
+                            <tr key={variante.variantId} className="border-t">
+                              <td className="py-2 font-medium text-gray-700">
+                                {getNombreVariante(campaign, variante.variantId)}
+                                {ganadora && <span className="ml-2">🏆</span>}
+                                {lider && <span className="ml-2 text-xs text-green-600">líder</span>}
+                              </td>
+                              <td className="py-2 text-right">{variante.sent}</td>
+                              <td className="py-2 text-right">{variante.delivered}</td>
+                              <td className="py-2 text-right">{variante.opened}</td>
+                              <td className="py-2 text-right">{variante.clicked}</td>
+                              <td className="py-2 text-right font-bold">{(variante.rate * 100).toFixed(1)}%</td>
+                              {puedeElegir && (
+                                <td className="py-2 text-right">
+                                  <button
+                                    onClick={() => handleElegirGanadora(campaign, variante.variantId)}
+                                    className="text-xs text-blue-600 hover:text-blue-800"
+                                  >
+                                    Enviar como ganadora
+                                  </button>
+                                </td>
+                              )}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+
+                  {prueba?.status === 'testing' && prueba.selectedWinnerId && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Ganadora elegida: {getNombreVariante(campaign, prueba.selectedWinnerId)}. Se envía en la próxima corrida.
+                    </p>
+                  )}
+                  {prueba?.status === 'winner_sent' && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      Ganadora enviada a {prueba.winnerSentCount ?? 0} destinatarios fuera del grupo de prueba.
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Acciones Rápidas */}
       <div className="bg-white rounded-lg shadow">
         <div className="px-6 py-4 border-b border-gray-200">
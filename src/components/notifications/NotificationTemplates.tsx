@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Box,
@@ -65,9 +65,19 @@ import toast from 'react-hot-toast';
 import {
   notificationTemplatesService,
   NotificationTemplate,
-  TemplateVariable
 } from '@/services/notification-templates.service';
-import { NotificationType, NotificationPriority, NotificationCategory } from '@/types/notification';
+import {
+  CuerposPorCanal,
+  NotificationType,
+  NotificationPriority,
+  NotificationCategory,
+} from '@/types/notification';
+import { AlcancePlantilla, ContextoPlantilla, TextosPlantilla } from '@/types/plantillas';
+import { contextoDeEjemplo, largoSms, LIMITE_SMS, renderizarEnvio } from '@/lib/plantillas';
+import { MARCA_FIDELYA, renderizarEmail } from '@/lib/email-layout';
+import { emailBrandingService } from '@/services/email-branding.service';
+import { MarcaEmail } from '@/types/email';
+import { useAuth } from '@/hooks/useAuth';
 
 interface NotificationTemplatesProps {
   loading?: boolean;
@@ -85,11 +95,36 @@ interface TemplateCardProps {
 interface TemplateDialogProps {
   open: boolean;
   template?: NotificationTemplate;
+  muestra: MuestraPlantilla;
   onClose: () => void;
   onSave: (template: Omit<NotificationTemplate, 'id' | 'createdAt' | 'updatedAt' | 'usageCount' | 'lastUsed'>) => void;
   loading?: boolean;
 }
 
+// Destinatario contra el que se renderiza la vista previa
+interface MuestraPlantilla {
+  contexto: ContextoPlantilla;
+  // Nombre del socio de muestra; sin él se usan solo valores de ejemplo
+  socioNombre?: string;
+  // Marca con la que sale el email de la asociación
+  marca?: MarcaEmail;
+}
+
+interface TemplatePreviewProps {
+  textos: TextosPlantilla;
+  type: NotificationType;
+  muestra: MuestraPlantilla;
+}
+
+type CanalVistaPrevia = 'app' | 'email' | 'whatsapp' | 'sms';
+
+const CUERPOS_VACIOS: Required<CuerposPorCanal> = {
+  emailAsunto: '',
+  emailHtml: '',
+  whatsapp: '',
+  sms: '',
+};
+
 const typeConfig = {
   info: { icon: <Info />, color: '#3b82f6', label: 'Información' },
   success: { icon: <CheckCircle />, color: '#10b981', label: 'Éxito' },
@@ -206,6 +241,19 @@ const TemplateCard: React.FC<TemplateCardProps> = ({
                       }}
                     />
                   )}
+
+                  {(template.asociacionId || template.comercioId) && (
+                    <Chip
+                      label="Propia"
+                      size="small"
+                      sx={{
+                        bgcolor: alpha('#10b981', 0.1),
+                        color: '#10b981',
+                        fontSize: '0.7rem',
+                        height: 20,
+                      }}
+                    />
+                  )}
                 </Box>
 
                 <Typography
@@ -449,9 +497,129 @@ const TemplateCard: React.FC<TemplateCardProps> = ({
   );
 };
 
+const TemplatePreview: React.FC<TemplatePreviewProps> = ({ textos, type, muestra }) => {
+  const [canal, setCanal] = useState<CanalVistaPrevia>('app');
+  const { envio, errores } = renderizarEnvio(textos, muestra.contexto);
+
+  const emailAsunto = envio.cuerpos?.emailAsunto || envio.title;
+  const whatsapp = envio.cuerpos?.whatsapp || envio.message;
+  const sms = envio.cuerpos?.sms || `${envio.title}\n\n${envio.message}`;
+  const email = renderizarEmail({
+    asunto: emailAsunto,
+    mensaje: envio.message || 'Mensaje de la notificación',
+    html: envio.cuerpos?.emailHtml,
+  }, muestra.marca ?? MARCA_FIDELYA);
+  const smsExcedido = largoSms(sms) > LIMITE_SMS;
+
+  const canales: { id: CanalVistaPrevia; label: string; icon: React.ReactElement }[] = [
+    { id: 'app', label: 'App', icon: <Notifications sx={{ fontSize: 16 }} /> },
+    { id: 'email', label: 'Email', icon: <Email sx={{ fontSize: 16 }} /> },
+    { id: 'whatsapp', label: 'WhatsApp', icon: <PhoneAndroid sx={{ fontSize: 16 }} /> },
+    { id: 'sms', label: 'SMS', icon: <Sms sx={{ fontSize: 16 }} /> },
+  ];
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        border: '1px solid #e2e8f0',
+        borderRadius: 3,
+        bgcolor: '#f8fafc',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+        <Typography variant="subtitle2" sx={{ fontWeight: 700, display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Preview />
+          Vista Previa
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 0.5 }}>
+          {canales.map(opcion => (
+            <Chip
+              key={opcion.id}
+              icon={opcion.icon}
+              label={opcion.label}
+              size="small"
+              color={canal === opcion.id ? 'primary' : 'default'}
+              variant={canal === opcion.id ? 'filled' : 'outlined'}
+              onClick={() => setCanal(opcion.id)}
+            />
+          ))}
+        </Box>
+      </Box>
+
+      <Typography variant="caption" sx={{ color: '#64748b', display: 'block', mb: 2 }}>
+        {muestra.socioNombre
+          ? `Con los datos de ${muestra.socioNombre}; lo que no tiene se completa con valores de ejemplo`
+          : 'Con valores de ejemplo'}
+      </Typography>
+
+      {errores.length > 0 && (
+        <Alert severity="warning" sx={{ borderRadius: 2, mb: 2 }}>
+          {errores.map(error => <div key={error}>{error}</div>)}
+        </Alert>
+      )}
+
+      {canal === 'app' && (
+        <Alert
+          severity={type === 'error' ? 'error' : type === 'warning' ? 'warning' : type === 'success' ? 'success' : 'info'}
+          sx={{ borderRadius: 2 }}
+        >
+          <Typography variant="subtitle1" sx={{ fontWeight: 700, mb: 1 }}>
+            {envio.title || 'Título de la notificación'}
+          </Typography>
+          <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+            {envio.message || 'Mensaje de la notificación'}
+          </Typography>
+        </Alert>
+      )}
+
+      {canal === 'email' && (
+        <Box sx={{ bgcolor: 'white', border: '1px solid #e2e8f0', borderRadius: 2, overflow: 'hidden' }}>
+          <Box sx={{ px: 2, py: 1, borderBottom: '1px solid #e2e8f0' }}>
+            <Typography variant="body2" sx={{ fontWeight: 600 }}>
+              Asunto: {emailAsunto || 'Título de la notificación'}
+            </Typography>
+          </Box>
+          <Box
+            component="iframe"
+            title="Vista previa del email"
+            sandbox=""
+            srcDoc={email.html}
+            sx={{ width: '100%', height: 360, border: 0 }}
+          />
+        </Box>
+      )}
+
+      {canal === 'whatsapp' && (
+        <Box sx={{ bgcolor: '#e5ddd5', borderRadius: 2, p: 2 }}>
+          <Box sx={{ bgcolor: '#dcf8c6', borderRadius: 2, p: 1.5, maxWidth: 360, ml: 'auto' }}>
+            <Typography variant="body2" sx={{ fontWeight: 700 }}>{envio.title}</Typography>
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+              {whatsapp || 'Mensaje de la notificación'}
+            </Typography>
+          </Box>
+        </Box>
+      )}
+
+      {canal === 'sms' && (
+        <Box>
+          <Box sx={{ bgcolor: '#e2e8f0', borderRadius: 3, p: 1.5, maxWidth: 320 }}>
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>{sms}</Typography>
+          </Box>
+          <Typography variant="caption" sx={{ color: smsExcedido ? '#ef4444' : '#64748b', display: 'block', mt: 1 }}>
+            {largoSms(sms)}/{LIMITE_SMS} caracteres
+          </Typography>
+        </Box>
+      )}
+    </Paper>
+  );
+};
+
 const TemplateDialog: React.FC<TemplateDialogProps> = ({
   open,
   template,
+  muestra,
   onClose,
   onSave,
   loading = false,
@@ -476,36 +644,11 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
       push: true,
       app: true,
     },
+    cuerpos: CUERPOS_VACIOS,
     isActive: true,
   });
   const [tagInput, setTagInput] = useState('');
-  const [availableVariables, setAvailableVariables] = useState<Record<string, TemplateVariable>>({});
-  const [previewData, setPreviewData] = useState<Record<string, string | number | Date>>({});
-
-  // Load available variables
-  useEffect(() => {
-    const variables = notificationTemplatesService.getAvailableVariables();
-    setAvailableVariables(variables);
-
-    // Set default preview data
-    const defaultPreview: Record<string, string | number | Date> = {};
-    Object.entries(variables).forEach(([key, variable]) => {
-      switch (variable.type) {
-        case 'text':
-          defaultPreview[key] = `[${variable.description}]`;
-          break;
-        case 'number':
-          defaultPreview[key] = 123;
-          break;
-        case 'date':
-          defaultPreview[key] = new Date().toLocaleDateString();
-          break;
-        default:
-          defaultPreview[key] = `[${variable.description}]`;
-      }
-    });
-    setPreviewData(defaultPreview);
-  }, []);
+  const availableVariables = useMemo(() => notificationTemplatesService.getAvailableVariables(), []);
 
   // Initialize form data
   useEffect(() => {
@@ -522,6 +665,7 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
         actionUrl: template.actionUrl || '',
         actionLabel: template.actionLabel || '',
         channels: template.channels,
+        cuerpos: { ...CUERPOS_VACIOS, ...template.cuerpos },
         isActive: template.isActive,
       });
     } else {
@@ -542,6 +686,7 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
           push: true,
           app: true,
         },
+        cuerpos: CUERPOS_VACIOS,
         isActive: true,
       });
     }
@@ -554,6 +699,16 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleCuerpoChange = (parte: keyof CuerposPorCanal, value: string) => {
+    setFormData(prev => ({ ...prev, cuerpos: { ...prev.cuerpos, [parte]: value } }));
+  };
+
+  // Solo se guardan los textos por canal que se completaron
+  const cuerposCompletos = (Object.entries(formData.cuerpos) as [keyof CuerposPorCanal, string][])
+    .reduce<CuerposPorCanal>((cuerpos, [parte, texto]) => (
+      texto.trim() ? { ...cuerpos, [parte]: texto } : cuerpos
+    ), {});
+
   const handleChannelChange = (channel: string, enabled: boolean) => {
     setFormData(prev => ({
       ...prev,
@@ -588,7 +743,11 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
     }
 
     // Validate template
-    const validation = notificationTemplatesService.validateTemplate(formData.title, formData.message);
+    const validation = notificationTemplatesService.validateTemplate(
+      formData.title,
+      formData.message,
+      cuerposCompletos
+    );
     if (!validation.isValid) {
       toast.error(`Errores en la plantilla: ${validation.errors.join(', ')}`);
       return;
@@ -596,6 +755,7 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
 
     const templateData = {
       ...formData,
+      cuerpos: cuerposCompletos,
       variables: validation.variables,
       isSystem: false,
       createdBy: 'user', // TODO: Get actual user ID
@@ -604,10 +764,6 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
     onSave(templateData);
   };
 
-  // Generate preview
-  const previewTitle = notificationTemplatesService.parseTemplate(formData.title, previewData);
-  const previewMessage = notificationTemplatesService.parseTemplate(formData.message, previewData);
-
   return (
     <Dialog
       open={open}
@@ -784,9 +940,54 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
                 multiline
                 rows={4}
                 required
-                helperText="Usa {{variable}} para insertar variables dinámicas"
+                helperText="Admite {{#if variable}}…{{else}}…{{/if}} y {{#each beneficios}}…{{/each}}"
               />
 
+              {/* Textos por canal */}
+              <Box>
+                <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 600 }}>
+                  Textos por canal (opcional)
+                </Typography>
+                <Stack spacing={2}>
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="Asunto del email"
+                    value={formData.cuerpos.emailAsunto}
+                    onChange={(e) => handleCuerpoChange('emailAsunto', e.target.value)}
+                  />
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="Email (HTML)"
+                    value={formData.cuerpos.emailHtml}
+                    onChange={(e) => handleCuerpoChange('emailHtml', e.target.value)}
+                    multiline
+                    rows={3}
+                    helperText="Los valores de las variables se escapan"
+                  />
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="WhatsApp"
+                    value={formData.cuerpos.whatsapp}
+                    onChange={(e) => handleCuerpoChange('whatsapp', e.target.value)}
+                    multiline
+                    rows={2}
+                  />
+                  <TextField
+                    fullWidth
+                    size="small"
+                    label="SMS"
+                    value={formData.cuerpos.sms}
+                    onChange={(e) => handleCuerpoChange('sms', e.target.value)}
+                    multiline
+                    rows={2}
+                    helperText={`Hasta ${LIMITE_SMS} caracteres con los datos del destinatario`}
+                  />
+                </Stack>
+              </Box>
+
               <Box sx={{ display: 'flex', gap: 2 }}>
                 <TextField
                   fullWidth
@@ -848,32 +1049,11 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
 
         {/* Preview */}
         <Box sx={{ mt: 3 }}>
-          <Paper
-            elevation={0}
-            sx={{
-              p: 3,
-              border: '1px solid #e2e8f0',
-              borderRadius: 3,
-              bgcolor: '#f8fafc',
-            }}
-          >
-            <Typography variant="subtitle2" sx={{ mb: 2, fontWeight: 700, display: 'flex', alignItems: 'center', gap: 1 }}>
-              <Preview />
-              Vista Previa
-            </Typography>
-
-            <Alert
-              severity={formData.type === 'error' ? 'error' : formData.type === 'warning' ? 'warning' : formData.type === 'success' ? 'success' : 'info'}
-              sx={{ borderRadius: 2 }}
-            >
-              <Typography variant="subtitle1" sx={{ fontWeight: 700, mb: 1 }}>
-                {previewTitle || 'Título de la notificación'}
-              </Typography>
-              <Typography variant="body2">
-                {previewMessage || 'Mensaje de la notificación'}
-              </Typography>
-            </Alert>
-          </Paper>
+          <TemplatePreview
+            textos={{ title: formData.title, message: formData.message, cuerpos: cuerposCompletos }}
+            type={formData.type}
+            muestra={muestra}
+          />
         </Box>
 
         {/* Available Variables */}
@@ -892,27 +1072,34 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
             </Typography>
 
             <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
-              {Object.entries(availableVariables).slice(0, 12).map(([key, variable]) => (
-                <Tooltip key={key} title={variable.description}>
-                  <Chip
-                    label={`{{${key}}}`}
-                    size="small"
-                    variant="outlined"
-                    onClick={() => {
-                      // Copy to clipboard
-                      navigator.clipboard.writeText(`{{${key}}}`);
-                      toast.success('Variable copiada');
-                    }}
-                    sx={{
-                      cursor: 'pointer',
-                      fontSize: '0.7rem',
-                      '&:hover': {
-                        bgcolor: alpha('#6366f1', 0.1),
-                      }
-                    }}
-                  />
-                </Tooltip>
-              ))}
+              {Object.entries(availableVariables).map(([key, variable]) => {
+                // Las listas se copian como bloque con sus campos
+                const fragmento = variable.tipo === 'lista'
+                  ? `{{#each ${key}}}${Object.keys(variable.campos ?? {}).map(campo => `{{${campo}}}`).join(' ')}{{/each}}`
+                  : `{{${key}}}`;
+
+                return (
+                  <Tooltip key={key} title={`${variable.descripcion} (${variable.tipo})`}>
+                    <Chip
+                      label={variable.tipo === 'lista' ? `{{#each ${key}}}` : `{{${key}}}`}
+                      size="small"
+                      variant="outlined"
+                      onClick={() => {
+                        // Copy to clipboard
+                        navigator.clipboard.writeText(fragmento);
+                        toast.success('Variable copiada');
+                      }}
+                      sx={{
+                        cursor: 'pointer',
+                        fontSize: '0.7rem',
+                        '&:hover': {
+                          bgcolor: alpha('#6366f1', 0.1),
+                        }
+                      }}
+                    />
+                  </Tooltip>
+                );
+              })}
             </Box>
           </Paper>
         </Box>
@@ -938,6 +1125,14 @@ const TemplateDialog: React.FC<TemplateDialogProps> = ({
 export const NotificationTemplates: React.FC<NotificationTemplatesProps> = ({
   loading: externalLoading = false
 }) => {
+  const { user } = useAuth();
+
+  // Cada asociación o comercio ve las globales y las suyas; el admin, todas
+  const alcance = useMemo<AlcancePlantilla | undefined>(() => {
+    if (user?.role === 'asociacion') return { asociacionId: user.uid };
+    if (user?.role === 'comercio') return { comercioId: user.uid };
+    return undefined;
+  }, [user]);
 
   const [templates, setTemplates] = useState<NotificationTemplate[]>([]);
   const [loading, setLoading] = useState(true);
@@ -951,14 +1146,16 @@ export const NotificationTemplates: React.FC<NotificationTemplatesProps> = ({
     template?: NotificationTemplate;
   }>({ open: false });
   const [actionLoading, setActionLoading] = useState(false);
+  const [previewTemplate, setPreviewTemplate] = useState<NotificationTemplate | null>(null);
+  const [muestra, setMuestra] = useState<MuestraPlantilla>({ contexto: contextoDeEjemplo() });
 
   // Load templates
-  const loadTemplates = async () => {
+  const loadTemplates = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const data = await notificationTemplatesService.getTemplates(true);
+      const data = await notificationTemplatesService.getTemplates(true, alcance);
       setTemplates(data);
     } catch (err) {
       console.error('Error loading templates:', err);
@@ -971,16 +1168,52 @@ export const NotificationTemplates: React.FC<NotificationTemplatesProps> = ({
     } finally {
       setLoading(false);
     }
-  };
+  }, [alcance]);
 
   // Initial load
   useEffect(() => {
     loadTemplates();
-  }, []);
+  }, [loadTemplates]);
+
+  // Vista previa con un socio real de la asociación; los datos que no tiene
+  // (comercio, beneficio) quedan con los valores de ejemplo
+  useEffect(() => {
+    if (!alcance) return;
+
+    const cargarMuestra = async () => {
+      const [socioId, marca] = await Promise.all([
+        alcance.asociacionId
+          ? notificationTemplatesService.getSocioDeMuestra(alcance.asociacionId)
+          : null,
+        emailBrandingService.getMarca(alcance.asociacionId),
+      ]);
+      const contexto = await notificationTemplatesService.resolverVariables({ ...alcance, socioId: socioId ?? undefined });
+      const conValor = Object.fromEntries(
+        Object.entries(contexto).filter(([, valor]) => valor !== undefined && valor !== null)
+      );
+
+      setMuestra({
+        contexto: { ...contextoDeEjemplo(), ...conValor },
+        socioNombre: socioId ? String(contexto.socio_nombre ?? '') || undefined : undefined,
+        marca,
+      });
+    };
+
+    cargarMuestra().catch(err => console.error('Error loading sample recipient:', err));
+  }, [alcance]);
 
   // Filtered templates
   const filteredTemplates = useMemo(() => {
+    // Una plantilla propia reemplaza a la global del mismo nombre
+    const propias = new Set(
+      templates.filter(template => template.asociacionId || template.comercioId).map(template => template.name)
+    );
+
     return templates.filter(template => {
+      if (alcance && !template.asociacionId && !template.comercioId && propias.has(template.name)) {
+        return false;
+      }
+
       // Search filter
       if (searchTerm && !template.name.toLowerCase().includes(searchTerm.toLowerCase()) &&
         !template.description.toLowerCase().includes(searchTerm.toLowerCase()) &&
@@ -1005,7 +1238,7 @@ export const NotificationTemplates: React.FC<NotificationTemplatesProps> = ({
 
       return true;
     });
-  }, [templates, searchTerm, filterType, filterCategory, showSystemTemplates]);
+  }, [templates, searchTerm, filterType, filterCategory, showSystemTemplates, alcance]);
 
   // Handle template actions
   const handleCreateTemplate = () => {
@@ -1040,7 +1273,7 @@ export const NotificationTemplates: React.FC<NotificationTemplatesProps> = ({
 
     try {
       setActionLoading(true);
-      await notificationTemplatesService.duplicateTemplate(template.id, newName);
+      await notificationTemplatesService.duplicateTemplate(template.id, newName, alcance);
       await loadTemplates();
       toast.success('Plantilla duplicada exitosamente');
     } catch (err) {
@@ -1051,9 +1284,8 @@ export const NotificationTemplates: React.FC<NotificationTemplatesProps> = ({
     }
   };
 
-  const handlePreviewTemplate = () => {
-    // TODO: Implement preview modal
-    toast('Vista previa próximamente');
+  const handlePreviewTemplate = (template: NotificationTemplate) => {
+    setPreviewTemplate(template);
   };
 
   const handleUseTemplate = () => {
@@ -1065,11 +1297,29 @@ export const NotificationTemplates: React.FC<NotificationTemplatesProps> = ({
     try {
       setActionLoading(true);
 
-      if (templateDialog.template) {
-        await notificationTemplatesService.updateTemplate(templateDialog.template.id, templateData);
+      const editada = templateDialog.template;
+      const datos = {
+        ...templateData,
+        asociacionId: alcance?.asociacionId ?? null,
+        comercioId: alcance?.comercioId ?? null,
+        createdBy: user?.uid ?? templateData.createdBy,
+      };
+
+      if (editada && alcance && !editada.asociacionId && !editada.comercioId) {
+        // Editar una global desde una asociación o comercio crea su versión propia
+        await notificationTemplatesService.createTemplate(datos);
+        toast.success('Plantilla personalizada exitosamente');
+      } else if (editada) {
+        await notificationTemplatesService.updateTemplate(editada.id, {
+          ...datos,
+          asociacionId: editada.asociacionId ?? null,
+          comercioId: editada.comercioId ?? null,
+          isSystem: editada.isSystem,
+          createdBy: editada.createdBy,
+        });
         toast.success('Plantilla actualizada exitosamente');
       } else {
-        await notificationTemplatesService.createTemplate(templateData);
+        await notificationTemplatesService.createTemplate(datos);
         toast.success('Plantilla creada exitosamente');
       }
 
@@ -1325,11 +1575,35 @@ export const NotificationTemplates: React.FC<NotificationTemplatesProps> = ({
       <TemplateDialog
         open={templateDialog.open}
         template={templateDialog.template}
+        muestra={muestra}
         onClose={() => setTemplateDialog({ open: false })}
         onSave={handleSaveTemplate}
         loading={actionLoading}
       />
 
+      {/* Template Preview Dialog */}
+      <Dialog
+        open={!!previewTemplate}
+        onClose={() => setPreviewTemplate(null)}
+        maxWidth="sm"
+        fullWidth
+        PaperProps={{ sx: { borderRadius: 4 } }}
+      >
+        <DialogTitle sx={{ fontWeight: 700 }}>{previewTemplate?.name}</DialogTitle>
+        <DialogContent>
+          {previewTemplate && (
+            <TemplatePreview
+              textos={{ title: previewTemplate.title, message: previewTemplate.message, cuerpos: previewTemplate.cuerpos }}
+              type={previewTemplate.type}
+              muestra={muestra}
+            />
+          )}
+        </DialogContent>
+        <DialogActions sx={{ p: 3, pt: 2 }}>
+          <Button onClick={() => setPreviewTemplate(null)}>Cerrar</Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Loading overlay */}
       {isLoading && (
         <LinearProgress
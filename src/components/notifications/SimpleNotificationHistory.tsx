@@ -31,6 +31,8 @@ import {
   Refresh,
   Info,
   Warning,
+  HourglassEmpty,
+  Block,
 } from '@mui/icons-material';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
@@ -51,6 +53,9 @@ const channelColors = {
 
 const statusIcons = {
   draft: <Schedule />,
+  pending_approval: <HourglassEmpty />,
+  approved: <Schedule />,
+  rejected: <Block />,
   sending: <Send />,
   sent: <CheckCircle />,
   failed: <Error />
@@ -58,6 +63,9 @@ const statusIcons = {
 
 const statusColors = {
   draft: '#757575',
+  pending_approval: '#8b5cf6',
+  approved: '#3b82f6',
+  rejected: '#f44336',
   sending: '#ff9800',
   sent: '#4caf50',
   failed: '#f44336'
@@ -86,6 +94,9 @@ export const SimpleNotificationHistory: React.FC = () => {
   const getStatusLabel = (status: SimpleNotification['status']) => {
     switch (status) {
       case 'draft': return 'Borrador';
+      case 'pending_approval': return 'Esperando aprobación';
+      case 'approved': return 'Aprobada, en cola';
+      case 'rejected': return 'Rechazada';
       case 'sending': return 'Enviando';
       case 'sent': return 'Enviada';
       case 'failed': return 'Falló';
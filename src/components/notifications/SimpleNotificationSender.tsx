@@ -124,6 +124,7 @@ export const SimpleNotificationSender: React.FC = () => {
     sentCount: number;
     failedCount: number;
     errors: string[];
+    pendingApproval?: boolean;
   }
 
   const [lastResult, setLastResult] = useState<NotificationResult | null>(null);
@@ -354,15 +355,19 @@ export const SimpleNotificationSender: React.FC = () => {
             exit={{ opacity: 0, y: -20 }}
           >
             <Alert 
-              severity={lastResult.success ? 'success' : 'error'} 
+              severity={lastResult.pendingApproval ? 'info' : lastResult.success ? 'success' : 'error'} 
               sx={{ mb: 3, borderRadius: 3 }}
               onClose={() => setLastResult(null)}
             >
               <Typography variant="subtitle2" sx={{ fontWeight: 700, mb: 1 }}>
-                {lastResult.success ? 'Notificación Enviada' : 'Error al Enviar'}
+                {lastResult.pendingApproval
+                  ? 'Esperando Aprobación'
+                  : lastResult.success ? 'Notificación Enviada' : 'Error al Enviar'}
               </Typography>
               <Typography variant="body2">
-                {lastResult.success 
+                {lastResult.pendingApproval
+                  ? 'El envío requiere aprobación: sale en cuanto lo aprueben desde la pestaña Aprobaciones'
+                  : lastResult.success 
                   ? `${lastResult.sentCount} notificaciones enviadas exitosamente${lastResult.failedCount > 0 ? `, ${lastResult.failedCount} fallaron` : ''}`
                   : `${lastResult.failedCount} notificaciones fallaron`
                 }
@@ -0,0 +1,298 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import {
+  MessageSquare,
+  Search,
+  Send,
+  CheckCircle,
+  RotateCcw,
+  Bot,
+  User,
+  AlertCircle,
+  Inbox,
+} from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { useWhatsAppInbox } from '@/hooks/useWhatsAppInbox';
+import { PALABRAS_COMANDO } from '@/lib/whatsapp-inbox';
+import { formatPhoneForDisplay } from '@/utils/phone-validator';
+import { ComandoWhatsApp, HiloWhatsApp } from '@/types/whatsapp';
+
+type FiltroHilos = 'abiertos' | 'todos';
+
+const DESCRIPCION_COMANDO: Record<ComandoWhatsApp, string> = {
+  saldo: 'Estado de la membresía y saldo de cuotas',
+  beneficios: 'Beneficios activos, primero los de su ciudad',
+  baja: 'Deja de recibir mensajes por WhatsApp',
+  alta: 'Vuelve a recibir mensajes por WhatsApp',
+};
+
+const formatearHora = (fecha: Date) => {
+  const hoy = new Date();
+  return fecha.toDateString() === hoy.toDateString()
+    ? fecha.toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit' })
+    : fecha.toLocaleDateString('es-AR', { day: '2-digit', month: '2-digit' });
+};
+
+const nombreHilo = (hilo: HiloWhatsApp) =>
+  hilo.socioNombre || hilo.nombrePerfil || formatPhoneForDisplay(hilo.telefono);
+
+export const WhatsAppInbox = () => {
+  const {
+    hilos,
+    mensajes,
+    hiloSeleccionado,
+    seleccionarHilo,
+    pendientes,
+    loading,
+    error,
+    responder,
+    cambiarEstado,
+  } = useWhatsAppInbox();
+
+  const [filtro, setFiltro] = useState<FiltroHilos>('abiertos');
+  const [busqueda, setBusqueda] = useState('');
+  const [respuesta, setRespuesta] = useState('');
+  const [enviando, setEnviando] = useState(false);
+  const finMensajesRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    finMensajesRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [mensajes]);
+
+  const hilosFiltrados = hilos.filter(hilo => {
+    if (filtro === 'abiertos' && hilo.estado !== 'abierto') return false;
+    const termino = busqueda.trim().toLowerCase();
+    return !termino ||
+      nombreHilo(hilo).toLowerCase().includes(termino) ||
+      hilo.telefono.includes(termino.replace(/\D/g, '') || termino);
+  });
+
+  const handleResponder = async () => {
+    const texto = respuesta.trim();
+    if (!texto || enviando) return;
+
+    setEnviando(true);
+    try {
+      await responder(texto);
+      setRespuesta('');
+    } catch (sendError) {
+      toast.error(sendError instanceof Error ? sendError.message : 'No se pudo enviar la respuesta');
+    } finally {
+      setEnviando(false);
+    }
+  };
+
+  const handleCambiarEstado = async () => {
+    if (!hiloSeleccionado) return;
+    try {
+      await cambiarEstado(hiloSeleccionado.estado === 'abierto' ? 'resuelto' : 'abierto');
+    } catch (patchError) {
+      toast.error(patchError instanceof Error ? patchError.message : 'No se pudo actualizar la conversación');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Bandeja de WhatsApp</h2>
+            <p className="text-gray-600">
+              Los socios pueden escribir al número de WhatsApp de Fidelya. Los comandos se responden solos;
+              el resto de los mensajes espera tu respuesta acá.
+            </p>
+          </div>
+          <div className="flex items-center gap-2 px-3 py-2 bg-green-50 text-green-700 rounded-lg whitespace-nowrap">
+            <Inbox className="w-4 h-4" />
+            <span className="text-sm font-medium">{pendientes} sin responder</span>
+          </div>
+        </div>
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-3">
+          {(Object.keys(PALABRAS_COMANDO) as ComandoWhatsApp[]).map(comando => (
+            <div key={comando} className="p-3 bg-gray-50 rounded-lg border border-gray-100">
+              <p className="text-sm font-semibold text-gray-900">{PALABRAS_COMANDO[comando][0]}</p>
+              <p className="text-xs text-gray-500 mt-1">{DESCRIPCION_COMANDO[comando]}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-4 bg-red-50 text-red-700 rounded-lg">
+          <AlertCircle className="w-5 h-5" />
+          <span className="text-sm">{error}</span>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden grid grid-cols-1 md:grid-cols-3 min-h-[560px]">
+        {/* Conversaciones */}
+        <div className="border-r border-gray-200 flex flex-col">
+          <div className="p-4 border-b border-gray-200 space-y-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={busqueda}
+                onChange={(e) => setBusqueda(e.target.value)}
+                placeholder="Buscar por nombre o teléfono"
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-green-500 focus:border-transparent"
+              />
+            </div>
+            <div className="flex gap-2">
+              {(['abiertos', 'todos'] as FiltroHilos[]).map(opcion => (
+                <button
+                  key={opcion}
+                  onClick={() => setFiltro(opcion)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${
+                    filtro === opcion ? 'bg-green-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {opcion === 'abiertos' ? 'Sin responder' : 'Todas'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto max-h-[480px]">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600" />
+              </div>
+            ) : hilosFiltrados.length === 0 ? (
+              <div className="text-center py-12 px-4">
+                <MessageSquare className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                <p className="text-sm text-gray-500">
+                  {filtro === 'abiertos' ? 'No hay mensajes esperando respuesta' : 'Todavía no hay conversaciones'}
+                </p>
+              </div>
+            ) : (
+              hilosFiltrados.map(hilo => (
+                <button
+                  key={hilo.id}
+                  onClick={() => seleccionarHilo(hilo.id)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 transition-colors ${
+                    hiloSeleccionado?.id === hilo.id ? 'bg-green-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 truncate">{nombreHilo(hilo)}</span>
+                    <span className="text-xs text-gray-400 whitespace-nowrap">{formatearHora(hilo.ultimoMensajeEn)}</span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <span className="text-xs text-gray-500 truncate">
+                      {hilo.ultimaDireccion === 'saliente' && 'Vos: '}{hilo.ultimoMensaje}
+                    </span>
+                    {hilo.noLeidos > 0 && (
+                      <span className="min-w-[20px] h-5 px-1.5 flex items-center justify-center rounded-full bg-green-600 text-white text-xs font-semibold">
+                        {hilo.noLeidos}
+                      </span>
+                    )}
+                  </div>
+                  {!hilo.socioId && (
+                    <span className="inline-block mt-1 text-[11px] text-amber-600">Número sin socio vinculado</span>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Conversación seleccionada */}
+        <div className="md:col-span-2 flex flex-col">
+          {!hiloSeleccionado ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-center p-8">
+              <MessageSquare className="w-12 h-12 text-gray-300 mb-3" />
+              <p className="text-gray-500">Elegí una conversación para ver los mensajes</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+                <div>
+                  <p className="font-semibold text-gray-900">{nombreHilo(hiloSeleccionado)}</p>
+                  <p className="text-xs text-gray-500">{formatPhoneForDisplay(hiloSeleccionado.telefono)}</p>
+                </div>
+                <button
+                  onClick={handleCambiarEstado}
+                  className="flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  {hiloSeleccionado.estado === 'abierto' ? (
+                    <>
+                      <CheckCircle className="w-4 h-4 text-green-600" />
+                      <span>Marcar resuelta</span>
+                    </>
+                  ) : (
+                    <>
+                      <RotateCcw className="w-4 h-4 text-gray-500" />
+                      <span>Reabrir</span>
+                    </>
+                  )}
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto max-h-[400px] px-6 py-4 space-y-3 bg-gray-50">
+                {mensajes.map(mensaje => {
+                  const saliente = mensaje.direccion === 'saliente';
+                  return (
+                    <motion.div
+                      key={mensaje.id}
+                      initial={{ opacity: 0, y: 8 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      className={`flex ${saliente ? 'justify-end' : 'justify-start'}`}
+                    >
+                      <div
+                        className={`max-w-[75%] rounded-lg px-4 py-2 shadow-sm ${
+                          saliente ? 'bg-green-100 text-gray-900' : 'bg-white text-gray-900'
+                        }`}
+                      >
+                        <p className="text-sm whitespace-pre-wrap break-words">{mensaje.texto}</p>
+                        <div className="flex items-center justify-end gap-1 mt-1 text-[11px] text-gray-500">
+                          {saliente && (mensaje.respuestaAutomatica
+                            ? <Bot className="w-3 h-3" />
+                            : <User className="w-3 h-3" />)}
+                          {mensaje.comando && <span className="uppercase">{mensaje.comando} ·</span>}
+                          {saliente && mensaje.enviado === false && (
+                            <span className="text-red-600">No enviado ·</span>
+                          )}
+                          <span>{formatearHora(mensaje.creadoEn)}</span>
+                        </div>
+                      </div>
+                    </motion.div>
+                  );
+                })}
+                <div ref={finMensajesRef} />
+              </div>
+
+              <div className="p-4 border-t border-gray-200 flex gap-3">
+                <textarea
+                  value={respuesta}
+                  onChange={(e) => setRespuesta(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleResponder();
+                    }
+                  }}
+                  rows={2}
+                  placeholder="Escribí una respuesta"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm resize-none focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handleResponder}
+                  disabled={!respuesta.trim() || enviando}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Send className="w-4 h-4" />
+                  <span className="font-medium">{enviando ? 'Enviando...' : 'Responder'}</span>
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WhatsAppInbox;
@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import {
+  Star,
+  Gift,
+  Building2,
+  ArrowDownCircle,
+  ArrowUpCircle,
+  CheckCircle,
+  X,
+  Receipt,
+} from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useCanjesPuntos } from '@/hooks/useCanjesPuntos';
+import { canjesService } from '@/services/canjes.service';
+import { Beneficio } from '@/types/beneficio';
+import { CanjePuntos } from '@/types/fidelizacion';
+
+interface CatalogoCanjesProps {
+  beneficios: Beneficio[];
+  onCanjeado?: () => void;
+}
+
+/**
+ * Catálogo de beneficios que se pagan con puntos y estado de cuenta del socio
+ */
+export const CatalogoCanjes: React.FC<CatalogoCanjesProps> = ({ beneficios, onCanjeado }) => {
+  const { saldoPuntos, movimientos, loading, canjeando, canjear } = useCanjesPuntos();
+  const [ultimoCanje, setUltimoCanje] = useState<CanjePuntos | null>(null);
+
+  const catalogo = useMemo(() => canjesService.getCatalogo(beneficios), [beneficios]);
+
+  const { ganados, canjeados } = useMemo(() => movimientos.reduce(
+    (totales, movimiento) => movimiento.puntos >= 0
+      ? { ...totales, ganados: totales.ganados + movimiento.puntos }
+      : { ...totales, canjeados: totales.canjeados - movimiento.puntos },
+    { ganados: 0, canjeados: 0 }
+  ), [movimientos]);
+
+  const handleCanjear = async (beneficio: Beneficio) => {
+    const canje = await canjear(beneficio.id);
+    if (canje) {
+      setUltimoCanje(canje);
+      onCanjeado?.();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Saldo */}
+      <div className="bg-gradient-to-r from-violet-600 to-purple-600 rounded-3xl shadow-xl p-6 text-white">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 bg-white/20 rounded-2xl flex items-center justify-center">
+              <Star className="w-8 h-8" />
+            </div>
+            <div>
+              <p className="text-sm font-semibold text-white/80">Puntos disponibles</p>
+              <p className="text-4xl font-black">{loading ? '…' : saldoPuntos.toLocaleString('es-AR')}</p>
+            </div>
+          </div>
+          <div className="flex gap-6 text-sm">
+            <div>
+              <p className="text-white/70">Ganados</p>
+              <p className="text-xl font-bold">+{ganados.toLocaleString('es-AR')}</p>
+            </div>
+            <div>
+              <p className="text-white/70">Canjeados</p>
+              <p className="text-xl font-bold">-{canjeados.toLocaleString('es-AR')}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Último canje: el código que se muestra en el comercio */}
+      <AnimatePresence>
+        {ultimoCanje && (
+          <motion.div
+            className="bg-emerald-50 border border-emerald-200 rounded-2xl p-5 flex items-start gap-4"
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+          >
+            <CheckCircle className="w-6 h-6 text-emerald-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="font-bold text-emerald-900">
+                Canjeaste {ultimoCanje.beneficioTitulo} en {ultimoCanje.comercioNombre}
+              </p>
+              <p className="text-sm text-emerald-700 mt-1">
+                Muestra este código en el comercio para retirar tu beneficio:
+              </p>
+              <p className="font-mono text-2xl font-black text-emerald-800 mt-2 tracking-wider">
+                {ultimoCanje.codigoValidacion}
+              </p>
+            </div>
+            <button
+              onClick={() => setUltimoCanje(null)}
+              className="p-1 text-emerald-600 hover:text-emerald-800"
+              aria-label="Cerrar"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Catálogo */}
+      {catalogo.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {catalogo.map((beneficio, index) => {
+            const costo = beneficio.costoPuntos ?? 0;
+            const alcanza = saldoPuntos >= costo;
+
+            return (
+              <motion.div
+                key={beneficio.id}
+                className="bg-white/80 backdrop-blur-xl rounded-2xl border border-white/20 shadow-lg p-6 flex flex-col"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3, delay: index * 0.05 }}
+              >
+                <span className="self-start inline-flex items-center px-3 py-1 rounded-full text-xs font-bold bg-violet-100 text-violet-800 border border-violet-200 mb-4">
+                  <Star className="w-3 h-3 mr-1" />
+                  {costo.toLocaleString('es-AR')} puntos
+                </span>
+                <h3 className="text-lg font-bold text-gray-900 mb-1">{beneficio.titulo}</h3>
+                <p className="text-sm text-gray-600 mb-3 line-clamp-2">{beneficio.descripcion}</p>
+                <p className="text-sm text-gray-500 flex items-center gap-2 mb-4">
+                  <Building2 className="w-4 h-4" />
+                  {beneficio.comercioNombre}
+                </p>
+                <div className="mt-auto">
+                  <Button
+                    className="w-full"
+                    leftIcon={<Gift size={16} />}
+                    disabled={!alcanza || canjeando !== null}
+                    loading={canjeando === beneficio.id}
+                    onClick={() => handleCanjear(beneficio)}
+                  >
+                    {alcanza ? 'Canjear' : `Te faltan ${(costo - saldoPuntos).toLocaleString('es-AR')} puntos`}
+                  </Button>
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="text-center py-12 bg-white/80 rounded-2xl border border-white/20">
+          <Gift className="w-12 h-12 text-violet-400 mx-auto mb-3" />
+          <h3 className="text-lg font-bold text-gray-900">Todavía no hay premios para canjear</h3>
+          <p className="text-gray-600">Cuando los comercios publiquen beneficios con puntos aparecerán aquí</p>
+        </div>
+      )}
+
+      {/* Estado de cuenta */}
+      <div className="bg-white/80 backdrop-blur-xl rounded-2xl border border-white/20 shadow-lg p-6">
+        <div className="flex items-center gap-3 mb-4">
+          <Receipt className="w-5 h-5 text-violet-600" />
+          <h3 className="text-lg font-bold text-gray-900">Estado de cuenta</h3>
+        </div>
+
+        {movimientos.length === 0 ? (
+          <p className="text-sm text-gray-500">Aún no tienes movimientos de puntos</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {movimientos.map(movimiento => (
+              <li key={movimiento.id} className="flex items-center justify-between py-3 gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  {movimiento.puntos >= 0 ? (
+                    <ArrowUpCircle className="w-5 h-5 text-emerald-500 flex-shrink-0" />
+                  ) : (
+                    <ArrowDownCircle className="w-5 h-5 text-rose-500 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{movimiento.descripcion}</p>
+                    <p className="text-xs text-gray-500">
+                      {movimiento.creadoEn
+                        ? format(movimiento.creadoEn.toDate(), 'dd/MM/yyyy HH:mm', { locale: es })
+                        : 'Procesando…'}
+                    </p>
+                  </div>
+                </div>
+                <span className={`font-bold ${movimiento.puntos >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                  {movimiento.puntos >= 0 ? '+' : ''}{movimiento.puntos}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CatalogoCanjes;
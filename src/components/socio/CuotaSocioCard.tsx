@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { CalendarClock, CreditCard, Download, Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useCuotas } from '@/hooks/useCuotas';
+import { cuotasService } from '@/services/cuotas.service';
+import { derivarEstadoMembresia } from '@/lib/cuotas';
+import { formatMontoCuota } from '@/lib/recibo-cuota-pdf';
+import { Socio } from '@/types/socio';
+
+interface CuotaSocioCardProps {
+  socio: Socio;
+  onPagoConfirmado?: () => void;
+}
+
+const ESTADO_STYLES = {
+  al_dia: { label: 'Al día', className: 'bg-emerald-100 text-emerald-800' },
+  vencido: { label: 'Vencida', className: 'bg-red-100 text-red-800' },
+  pendiente: { label: 'Pendiente', className: 'bg-gray-100 text-gray-700' },
+};
+
+/**
+ * Cuota del socio: deuda, vencimiento, pago online y últimos recibos
+ */
+export const CuotaSocioCard: React.FC<CuotaSocioCardProps> = ({ socio, onPagoConfirmado }) => {
+  const { pagos, descargarRecibo, refrescar } = useCuotas(socio.id);
+  const [iniciando, setIniciando] = useState(false);
+  const retornoRevisado = useRef(false);
+
+  const cuenta = socio.cuentaCuotas;
+  const estado = ESTADO_STYLES[derivarEstadoMembresia(socio)];
+  const deuda = cuenta?.deuda ?? 0;
+  const vencimiento = cuenta?.proximoVencimiento?.toDate() ?? socio.fechaVencimiento?.toDate() ?? null;
+
+  // Al volver del checkout el proveedor agrega ?pago=<intención>
+  useEffect(() => {
+    const intencionId = new URLSearchParams(window.location.search).get('pago');
+    if (!intencionId || retornoRevisado.current) return;
+    retornoRevisado.current = true;
+
+    cuotasService.getIntencionPago(intencionId).then(intencion => {
+      if (intencion?.estado === 'aprobado') {
+        toast.success('¡Pago acreditado! Tu cuota está al día');
+        refrescar();
+        onPagoConfirmado?.();
+      } else if (intencion?.estado === 'rechazado') {
+        toast.error('El pago fue rechazado. Puedes intentarlo nuevamente');
+      } else if (intencion) {
+        toast('Estamos esperando la confirmación del pago');
+      }
+    });
+  }, [refrescar, onPagoConfirmado]);
+
+  const handlePagar = async () => {
+    setIniciando(true);
+    try {
+      const checkout = await cuotasService.iniciarPagoOnline();
+      window.location.href = checkout.checkoutUrl;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'No se pudo iniciar el pago');
+      setIniciando(false);
+    }
+  };
+
+  if (!(socio.montoCuota > 0)) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-lg border border-white/20 p-8"
+    >
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-6">
+        <div className="flex items-center space-x-4">
+          <div className="w-12 h-12 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-2xl flex items-center justify-center shadow-lg">
+            <Wallet className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <div className="flex items-center gap-2">
+              <h3 className="text-2xl font-bold text-gray-900">Mi cuota</h3>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${estado.className}`}>
+                {estado.label}
+              </span>
+            </div>
+            <p className="text-sm text-gray-600">
+              {deuda > 0 ? `Debes ${formatMontoCuota(deuda)}` : `Cuota mensual ${formatMontoCuota(socio.montoCuota)}`}
+              {cuenta?.credito ? ` · Crédito a favor ${formatMontoCuota(cuenta.credito)}` : ''}
+            </p>
+            {vencimiento && (
+              <p className="text-xs text-gray-500 flex items-center gap-1 mt-1">
+                <CalendarClock className="w-3 h-3" />
+                Próximo vencimiento {vencimiento.toLocaleDateString('es-AR')}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <Button
+          size="lg"
+          leftIcon={<CreditCard size={18} />}
+          loading={iniciando}
+          onClick={handlePagar}
+          className="font-bold"
+        >
+          {deuda > 0 ? 'Pagar deuda online' : 'Adelantar cuota'}
+        </Button>
+      </div>
+
+      {pagos.length > 0 && (
+        <ul className="mt-6 divide-y divide-gray-100">
+          {pagos.slice(0, 3).map(pago => (
+            <li key={pago.id} className="flex items-center justify-between py-2 text-sm">
+              <span className="text-gray-700">
+                {pago.fecha?.toDate().toLocaleDateString('es-AR')} · Recibo N° {String(pago.numeroRecibo).padStart(6, '0')}
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="font-semibold text-emerald-700">{formatMontoCuota(pago.monto)}</span>
+                <button
+                  onClick={() => descargarRecibo(pago)}
+                  className="p-1.5 text-gray-500 hover:text-emerald-600 hover:bg-emerald-50 rounded-lg"
+                  aria-label="Descargar recibo"
+                >
+                  <Download className="w-4 h-4" />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  );
+};
+
+export default CuotaSocioCard;
@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Users } from 'lucide-react';
+import { useGrupoFamiliar } from '@/hooks/useGrupoFamiliar';
+import { PARENTESCO_LABELS } from '@/lib/grupo-familiar';
+import { SocioCredentialCard } from './SocioCredentialCard';
+import { Socio } from '@/types/socio';
+
+interface GrupoFamiliarCardProps {
+  socio: Socio;
+}
+
+/**
+ * Grupo familiar del socio. El titular ve a sus dependientes y puede mostrar
+ * la credencial de cada uno; el dependiente ve quién es su titular.
+ */
+export const GrupoFamiliarCard: React.FC<GrupoFamiliarCardProps> = ({ socio }) => {
+  const enGrupo = !!socio.titularId || (socio.dependientesIds?.length ?? 0) > 0;
+  const { titular, dependientes } = useGrupoFamiliar(enGrupo ? socio.id : null);
+
+  if (!enGrupo || !titular) return null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-lg border border-white/20 p-8"
+    >
+      <div className="flex items-center space-x-4">
+        <div className="w-12 h-12 bg-gradient-to-r from-teal-500 to-emerald-500 rounded-2xl flex items-center justify-center shadow-lg">
+          <Users className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h3 className="text-2xl font-bold text-gray-900">Mi grupo familiar</h3>
+          <p className="text-sm text-gray-600">
+            {socio.titularId
+              ? `Tu membresía y tu cuota las gestiona ${titular.nombre}, titular del grupo`
+              : 'Tus dependientes comparten tu membresía y tu cuota'}
+          </p>
+        </div>
+      </div>
+
+      {!socio.titularId && (
+        <div className="mt-6 space-y-4">
+          {dependientes.map(dependiente => (
+            <div key={dependiente.id}>
+              <p className="text-xs text-gray-500 mb-2">
+                {dependiente.parentesco ? PARENTESCO_LABELS[dependiente.parentesco] : 'Dependiente'}
+                {' · '}#{dependiente.numeroSocio}
+              </p>
+              <SocioCredentialCard dependiente={{ id: dependiente.id, nombre: dependiente.nombre }} />
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default GrupoFamiliarCard;
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BellRing, Moon, Save } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import {
+  CATEGORIAS_NOTIFICACION,
+  FRECUENCIAS_NOTIFICACION,
+  PreferenciasEnvio,
+} from '@/lib/notification-preferences';
+import { FrecuenciaNotificaciones, NotificationCategory } from '@/types/notification';
+
+interface PreferenciasNotificacionesCardProps {
+  userId: string;
+}
+
+const inputClassName =
+  'px-4 py-3 border border-slate-300 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm bg-white/80 backdrop-blur-sm transition-all duration-200';
+
+/**
+ * Cuándo y qué notificaciones recibe el socio. Los avisos urgentes de la
+ * asociación llegan siempre, sin importar estas preferencias.
+ */
+export const PreferenciasNotificacionesCard: React.FC<PreferenciasNotificacionesCardProps> = ({ userId }) => {
+  const { preferencias, loading, guardando, guardar } = useNotificationPreferences(userId);
+  const [form, setForm] = useState<PreferenciasEnvio>(preferencias);
+
+  useEffect(() => {
+    setForm(preferencias);
+  }, [preferencias]);
+
+  const setQuietHours = (cambios: Partial<PreferenciasEnvio['quietHours']>) =>
+    setForm(prev => ({ ...prev, quietHours: { ...prev.quietHours, ...cambios } }));
+
+  const handleGuardar = () => {
+    // El horario silencioso y los resúmenes se calculan en la zona del navegador
+    guardar({ ...form, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+  };
+
+  return (
+    <motion.div
+      // Destino del enlace "Dejar de recibir estos emails"
+      id="notificaciones"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-lg border border-white/20 p-8"
+    >
+      <div className="flex items-center space-x-4">
+        <div className="w-12 h-12 bg-gradient-to-r from-indigo-500 to-violet-500 rounded-2xl flex items-center justify-center shadow-lg">
+          <BellRing className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h3 className="text-2xl font-bold text-gray-900">Notificaciones</h3>
+          <p className="text-sm text-gray-600">Los avisos urgentes de tu asociación te llegan siempre</p>
+        </div>
+      </div>
+
+      <div className="mt-6 space-y-6">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-2">Frecuencia</label>
+          <select
+            value={form.frequency}
+            disabled={loading}
+            onChange={(e) => setForm(prev => ({ ...prev, frequency: e.target.value as FrecuenciaNotificaciones }))}
+            className={`w-full ${inputClassName}`}
+          >
+            {Object.entries(FRECUENCIAS_NOTIFICACION).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {form.frequency !== 'immediate' && (
+            <p className="text-xs text-gray-500 mt-2">Recibirás un solo email con todas las novedades del período</p>
+          )}
+        </div>
+
+        <div>
+          <label className="flex items-center gap-3 text-sm font-semibold text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.quietHours.enabled}
+              disabled={loading}
+              onChange={(e) => setQuietHours({ enabled: e.target.checked })}
+              className="w-4 h-4 rounded border-slate-300 text-blue-600"
+            />
+            <Moon className="w-4 h-4 text-indigo-500" />
+            Horario silencioso
+          </label>
+          {form.quietHours.enabled && (
+            <div className="mt-3 flex items-center gap-3 text-sm text-gray-600">
+              <span>De</span>
+              <input
+                type="time"
+                value={form.quietHours.start}
+                onChange={(e) => setQuietHours({ start: e.target.value })}
+                className={inputClassName}
+              />
+              <span>a</span>
+              <input
+                type="time"
+                value={form.quietHours.end}
+                onChange={(e) => setQuietHours({ end: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <p className="text-sm font-semibold text-gray-700 mb-2">Quiero recibir</p>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.entries(CATEGORIAS_NOTIFICACION) as [NotificationCategory, string][]).map(([categoria, label]) => (
+              <label key={categoria} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.categories[categoria]}
+                  disabled={loading}
+                  onChange={(e) => setForm(prev => ({
+                    ...prev,
+                    categories: { ...prev.categories, [categoria]: e.target.checked },
+                  }))}
+                  className="w-4 h-4 rounded border-slate-300 text-blue-600"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <Button leftIcon={<Save size={18} />} loading={guardando} disabled={loading} onClick={handleGuardar}>
+          Guardar preferencias
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
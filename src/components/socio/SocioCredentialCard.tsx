@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import Image from 'next/image';
+import { IdCard, RefreshCw, Eye, EyeOff, Clock, AlertCircle } from 'lucide-react';
+import { useSocioCredential } from '@/hooks/useSocioCredential';
+import { cn } from '@/lib/utils';
+
+interface SocioCredentialCardProps {
+  // Dependiente del grupo familiar cuya credencial muestra el titular
+  dependiente?: { id: string; nombre: string };
+}
+
+/**
+ * Credencial dinámica que el socio muestra en caja cuando el comercio
+ * no tiene su QR a la vista: el cajero escanea el QR o tipea el código.
+ */
+export const SocioCredentialCard: React.FC<SocioCredentialCardProps> = ({ dependiente }) => {
+  const [visible, setVisible] = useState(false);
+  const { qrDataUrl, code, secondsLeft, loading, error, refresh } = useSocioCredential(visible, dependiente?.id);
+
+  const formattedCode = code ? `${code.slice(0, 3)} ${code.slice(3)}` : '--- ---';
+
+  return (
+    <motion.div
+      className="bg-white/80 backdrop-blur-xl rounded-3xl p-8 shadow-xl border border-gray-200/50"
+      initial={{ opacity: 0, y: 30 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, delay: 0.3 }}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="w-14 h-14 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-2xl flex items-center justify-center shadow-lg">
+            <IdCard size={28} className="text-white" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-gray-900">
+              {dependiente ? `Código de ${dependiente.nombre}` : 'Mostrar mi código'}
+            </h3>
+            <p className="text-gray-600">
+              {dependiente
+                ? 'Muéstralo en caja: el beneficio queda registrado a su nombre'
+                : 'El comercio escanea tu QR o ingresa el código de 6 dígitos'}
+            </p>
+          </div>
+        </div>
+
+        <button
+          onClick={() => setVisible(prev => !prev)}
+          className={cn(
+            'flex items-center justify-center gap-2 px-6 py-3 rounded-xl font-semibold transition-all duration-200',
+            visible
+              ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              : 'bg-gradient-to-r from-emerald-500 to-teal-500 text-white shadow-lg hover:shadow-xl'
+          )}
+        >
+          {visible ? <EyeOff size={18} /> : <Eye size={18} />}
+          {visible ? 'Ocultar' : 'Mostrar'}
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {visible && (
+          <motion.div
+            className="mt-8 text-center"
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            {error ? (
+              <div className="flex flex-col items-center gap-4 p-6 bg-red-50 rounded-2xl border border-red-200">
+                <AlertCircle size={32} className="text-red-500" />
+                <p className="text-red-700 font-medium">{error}</p>
+                <button
+                  onClick={refresh}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-500 text-white rounded-xl font-semibold hover:bg-red-600 transition-colors"
+                >
+                  <RefreshCw size={16} />
+                  Reintentar
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="relative w-56 h-56 mx-auto bg-white rounded-2xl border border-gray-200 shadow-inner flex items-center justify-center">
+                  {qrDataUrl && !loading ? (
+                    <Image
+                      src={qrDataUrl}
+                      alt="Credencial del socio"
+                      width={208}
+                      height={208}
+                      className="rounded-xl"
+                      unoptimized
+                    />
+                  ) : (
+                    <RefreshCw size={32} className="text-gray-400 animate-spin" />
+                  )}
+                </div>
+
+                <p className="mt-6 text-4xl font-mono font-bold tracking-widest text-gray-900">
+                  {formattedCode}
+                </p>
+
+                <div className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-600">
+                  <Clock size={16} />
+                  {loading ? (
+                    <span>Generando código...</span>
+                  ) : (
+                    <span>
+                      Se renueva en <span className="font-semibold text-gray-900">{secondsLeft}s</span> · válido para un solo uso
+                    </span>
+                  )}
+                </div>
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
@@ -38,6 +38,7 @@ import { es } from 'date-fns/locale';
 import { Timestamp } from 'firebase/firestore';
 import toast from 'react-hot-toast';
 import { cn } from '@/lib/utils';
+import { getNivelActualSocio, getProgresoNivel } from '@/lib/loyalty-points';
 
 // Interfaces
 interface ProfileFormData {
@@ -188,14 +189,9 @@ export const SocioProfile: React.FC = () => {
       creadoEn: creadoEnDate,
       numeroSocio: socio?.numeroSocio || '',
       fotoPerfil: socio?.fotoPerfil || '',
-      nivel: {
-        nivel: 'Bronze' as const,
-        puntos: Math.floor(estadisticasRapidas.usados * 10),
-        puntosParaProximoNivel: 1000,
-        proximoNivel: 'Silver',
-      }
+      nivel: getNivelActualSocio(socio),
     };
-  }, [socio, user, estadisticasRapidas.usados]);
+  }, [socio, user]);
 
   // Enhanced stats usando datos de beneficios consistentes
   const enhancedStats = useMemo(() => {
@@ -579,12 +575,13 @@ export const SocioProfile: React.FC = () => {
                   <div 
                     className="h-3 rounded-full bg-gradient-to-r from-amber-500 to-orange-500 shadow-sm transition-all duration-1000"
                     style={{ 
-                      width: `${(profileData.nivel.puntos / profileData.nivel.puntosParaProximoNivel) * 100}%` 
+                      width: `${getProgresoNivel(profileData.nivel).porcentaje}%` 
                     }}
                   />
                 </div>
                 <p className="text-xs text-gray-600 mt-2">
-                  {profileData.nivel.puntosParaProximoNivel - profileData.nivel.puntos} puntos restantes
+                  {getProgresoNivel(profileData.nivel).restantes} puntos restantes
+                    {profileData.nivel.descuentoAdicional > 0 && ` · +${profileData.nivel.descuentoAdicional}% en beneficios por tu nivel`}
                 </p>
               </div>
             </div>
@@ -18,6 +18,7 @@ import {
 } from 'lucide-react';
 import { QRScannerButton } from '@/components/socio/QRScannerButton';
 import { ValidationResultModal } from '@/components/socio/ValidationResultModal';
+import { SocioCredentialCard } from '@/components/socio/SocioCredentialCard';
 import { useAuth } from '@/hooks/useAuth';
 import { validacionesService } from '@/services/validaciones.service';
 import { ValidacionResponse } from '@/types/validacion';
@@ -126,7 +127,8 @@ export const SocioValidar: React.FC = () => {
           socioId: user.uid,
           comercioId: parsedData.comercioId,
           beneficioId: parsedData.beneficioId,
-          asociacionId: user.asociacionId
+          asociacionId: user.asociacionId,
+          qrToken: parsedData.token ?? null
         });
 
         console.log('🎯 Resultado de validación:', result);
@@ -150,7 +152,8 @@ export const SocioValidar: React.FC = () => {
                 estado: 'activo',
                 asociacion: user.asociacionId || 'independiente'
               },
-          id: result.data?.validacion?.id
+          id: result.data?.validacion?.id,
+          errorCode: result.errorCode
         };
 
         setValidationResult(transformedResult);
@@ -441,6 +444,9 @@ export const SocioValidar: React.FC = () => {
             </div>
           </motion.div>
 
+          {/* Credencial del socio (flujo inverso) */}
+          <SocioCredentialCard />
+
           {/* Features Grid */}
           <motion.div 
             className="grid grid-cols-1 sm:grid-cols-3 gap-6"
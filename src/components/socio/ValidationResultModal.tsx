@@ -18,6 +18,108 @@ import {
   Clock
 } from 'lucide-react';
 import { QR_CONFIG } from '@/lib/constants';
+import { BenefitRestrictionCode } from '@/lib/benefit-schedule';
+
+// Explicación para el socio de cada restricción del beneficio
+const RESTRICTION_INFO: Record<BenefitRestrictionCode, { title: string; tips: string[] }> = {
+  BENEFIT_NOT_FOUND: {
+    title: 'Beneficio no disponible',
+    tips: [
+      'El beneficio ya no está activo en este comercio',
+      'Pide al comercio el QR actualizado del beneficio',
+    ],
+  },
+  BENEFIT_INACTIVE: {
+    title: 'Beneficio no disponible',
+    tips: [
+      'El comercio pausó este beneficio',
+      'Consulta otros beneficios disponibles en la app',
+    ],
+  },
+  BENEFIT_NOT_STARTED: {
+    title: 'Aún no comenzó',
+    tips: [
+      'Este beneficio todavía no está vigente',
+      'Vuelve a validarlo a partir de la fecha indicada',
+    ],
+  },
+  BENEFIT_EXPIRED: {
+    title: 'Beneficio Vencido',
+    tips: [
+      'La vigencia de este beneficio terminó',
+      'Consulta otros beneficios disponibles en la app',
+    ],
+  },
+  BENEFIT_EXHAUSTED: {
+    title: 'Beneficio agotado',
+    tips: [
+      'Se alcanzó el cupo total de usos de este beneficio',
+      'Consulta otros beneficios disponibles en la app',
+    ],
+  },
+  BENEFIT_SOCIO_LIMIT_REACHED: {
+    title: 'Límite de usos alcanzado',
+    tips: [
+      'Ya usaste este beneficio la cantidad de veces permitida',
+      'Revisa tu historial para ver tus usos',
+    ],
+  },
+  BENEFIT_ASSOCIATION_NOT_ALLOWED: {
+    title: 'Sin acceso para tu asociación',
+    tips: [
+      'Este beneficio es exclusivo de otras asociaciones',
+      'Consulta a tu asociación qué beneficios tiene en este comercio',
+    ],
+  },
+  COMERCIO_NOT_LINKED: {
+    title: 'Sin convenio con el comercio',
+    tips: [
+      'Tu asociación no tiene convenio vigente con este comercio',
+      'Contacta a tu asociación para más información',
+    ],
+  },
+  BENEFIT_REQUIRES_POINTS: {
+    title: 'Se canjea con puntos',
+    tips: [
+      'Este beneficio se obtiene canjeando tus puntos de fidelización',
+      'Canjéalo desde la pestaña Canjear puntos en Mis Beneficios',
+    ],
+  },
+  INSUFFICIENT_POINTS: {
+    title: 'Puntos insuficientes',
+    tips: [
+      'Tu saldo de puntos no alcanza para este canje',
+      'Sumas puntos con cada beneficio que usas y cada cuota que pagas',
+    ],
+  },
+  BENEFIT_DAY_NOT_ALLOWED: {
+    title: 'No aplica hoy',
+    tips: [
+      'Este beneficio solo vale en los días indicados',
+      'Vuelve a validarlo en uno de esos días',
+    ],
+  },
+  BENEFIT_OUTSIDE_HOURS: {
+    title: 'Fuera de horario',
+    tips: [
+      'El horario corresponde a la hora local del comercio',
+      'Vuelve a validarlo dentro de la franja indicada',
+    ],
+  },
+  BENEFIT_PAYMENT_METHOD_REQUIRED: {
+    title: 'Requiere medio de pago',
+    tips: [
+      'Este beneficio depende de cómo pagues',
+      'Muestra tu código en caja para que el comercio lo valide con tu medio de pago',
+    ],
+  },
+  BENEFIT_PAYMENT_METHOD_NOT_ALLOWED: {
+    title: 'Medio de pago no habilitado',
+    tips: [
+      'Paga con alguno de los medios indicados para acceder al beneficio',
+    ],
+  },
+};
 
 interface ValidationResult {
   success: boolean;
@@ -54,6 +156,7 @@ interface ValidationResult {
   };
   error?: string;
   motivo?: string;
+  errorCode?: BenefitRestrictionCode;
 }
 
 interface ValidationResultModalProps {
@@ -143,7 +246,16 @@ export const ValidationResultModal: React.FC<ValidationResultModalProps> = ({
     }
   };
 
-  const statusInfo = getStatusInfo();
+  const restriction = result?.errorCode ? RESTRICTION_INFO[result.errorCode] : undefined;
+  const statusInfo = restriction
+    ? {
+        icon: <Clock className="w-6 h-6 text-amber-600" />,
+        title: restriction.title,
+        bgColor: 'from-amber-50 to-yellow-50',
+        textColor: 'text-amber-900',
+        subtitleColor: 'text-amber-700'
+      }
+    : getStatusInfo();
 
   const handleShare = async () => {
     if (!data || !isSuccess) return;
@@ -417,13 +529,16 @@ ${data.validacion.montoDescuento > 0 ? `Ahorro: ${formatCurrency(data.validacion
                       <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
                         <h4 className="text-sm font-medium text-blue-900 mb-2">¿Qué puedes hacer?</h4>
                         <ul className="text-xs text-blue-800 space-y-1">
-                          {result.resultado === 'vencido' && (
+                          {restriction && restriction.tips.map(tip => (
+                            <li key={tip}>• {tip}</li>
+                          ))}
+                          {!restriction && result.resultado === 'vencido' && (
                             <>
                               <li>• Verifica que tu membresía esté activa</li>
                               <li>• Contacta a tu asociación para renovar</li>
                             </>
                           )}
-                          {result.resultado === 'no_habilitado' && (
+                          {!restriction && result.resultado === 'no_habilitado' && (
                             <>
                               <li>• Verifica que tengas acceso a este comercio</li>
                               <li>• Asegúrate de estar escaneando el QR correcto</li>
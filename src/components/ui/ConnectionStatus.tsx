@@ -3,61 +3,20 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Wifi, WifiOff, Signal } from 'lucide-react';
-
-// Type definition for navigator.connection
-type NetworkInformation = {
-  effectiveType?: 'slow-2g' | '2g' | '3g' | '4g';
-  downlink?: number;
-  rtt?: number;
-  saveData?: boolean;
-  onchange?: (() => void) | null;
-};
+import { useNetworkStatus } from '@/hooks/useNetworkStatus';
 
 interface ConnectionStatusProps {
   className?: string;
 }
 
 export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className = '' }) => {
-  const [isOnline, setIsOnline] = useState(true);
-  const [connectionQuality, setConnectionQuality] = useState<'excellent' | 'good' | 'poor'>('excellent');
+  const { isOnline, connectionQuality } = useNetworkStatus();
   const [lastSync, setLastSync] = useState<Date>(new Date());
 
   useEffect(() => {
-    const handleOnline = () => {
-      setIsOnline(true);
+    if (isOnline) {
       setLastSync(new Date());
-    };
-
-    const handleOffline = () => {
-      setIsOnline(false);
-    };
-
-    // Check connection quality
-    const checkConnectionQuality = () => {
-      if ('connection' in navigator) {
-        const connection = (navigator.connection as NetworkInformation | undefined);
-        if (connection) {
-          const effectiveType = connection.effectiveType;
-          switch (effectiveType) {
-            case '4g':
-              setConnectionQuality('excellent');
-              break;
-            case '3g':
-              setConnectionQuality('good');
-              break;
-            default:
-              setConnectionQuality('poor');
-          }
-        }
-      }
-    };
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-    
-    // Initial check
-    setIsOnline(navigator.onLine);
-    checkConnectionQuality();
+    }
 
     // Periodic sync update
     const syncInterval = setInterval(() => {
@@ -66,12 +25,8 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ className =
       }
     }, 30000); // Update every 30 seconds
 
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-      clearInterval(syncInterval);
-    };
-  }, []);
+    return () => clearInterval(syncInterval);
+  }, [isOnline]);
 
   const getStatusColor = () => {
     if (!isOnline) return 'text-red-500 bg-red-50 border-red-200';
@@ -3,81 +3,64 @@
 import { useState, useEffect, useCallback } from 'react';
 import { 
   collection, 
+  doc,
   query, 
   where, 
   onSnapshot, 
   addDoc, 
   updateDoc, 
-  deleteDoc, 
-  doc, 
   Timestamp,
   orderBy,
   limit,
   getDocs
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { auth, db } from '@/lib/firebase';
+import { DEFAULT_BACKUP_CONFIG } from '@/lib/backup';
 import { useAuth } from './useAuth';
-import { useSocios } from './useSocios';
 import { 
   BackupMetadata, 
-  BackupData, 
   BackupConfig, 
   RestoreOptions, 
+  RestoreResult,
   BackupProgress, 
   BackupStats,
   BackupVerification,
+  BackupSchedule,
 } from '@/types/backup';
 import toast from 'react-hot-toast';
 
-// Simulated Firebase Storage (in real implementation, import from firebase/storage)
-const storage = {
-  ref: (path: string) => ({ path }),
-  uploadBytes: async (ref: { path: string }, data: Blob) => ({ ref, data }),
-  getDownloadURL: async (ref: { path: string }) => `https://storage.example.com/${ref.path}`,
-  deleteObject: async () => {},
-  getMetadata: async () => ({ size: 1024, timeCreated: new Date().toISOString() })
-};
-
-// Helper function to clean undefined values from objects
-const cleanUndefinedValues = (obj: unknown): unknown => {
-  if (obj === null || obj === undefined) {
-    return null;
+/**
+ * Llama a la API de respaldos con el ID token del usuario. Los respaldos se
+ * exportan, comprimen, cifran y verifican en el servidor
+ */
+async function llamarApi(ruta: string, init: RequestInit = {}): Promise<Response> {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('Usuario no autenticado');
   }
-  
-  if (Array.isArray(obj)) {
-    return obj.map(cleanUndefinedValues);
-  }
-  
-  if (typeof obj === 'object') {
-    const cleaned: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(obj as Record<string, unknown>)) {
-      if (value !== undefined) {
-        cleaned[key] = cleanUndefinedValues(value);
-      }
-    }
-    return cleaned;
+
+  const idToken = await currentUser.getIdToken();
+  const response = await fetch(ruta, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      Authorization: `Bearer ${idToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => null) as { error?: string } | null;
+    throw new Error(result?.error || `Error HTTP ${response.status}`);
   }
-  
-  return obj;
-};
+  return response;
+}
 
 export const useBackup = () => {
   const { user } = useAuth();
-  const { socios } = useSocios();
   
   const [backups, setBackups] = useState<BackupMetadata[]>([]);
-  const [config, setConfig] = useState<BackupConfig>({
-    autoBackupEnabled: false,
-    backupFrequency: 'weekly',
-    backupTime: '02:00',
-    maxBackups: 10,
-    compressionEnabled: true,
-    encryptionEnabled: false,
-    includeSettings: true,
-    includeCustomData: false,
-    retentionDays: 90,
-    notificationsEnabled: true
-  });
+  const [config, setConfig] = useState<BackupConfig>(DEFAULT_BACKUP_CONFIG);
+  const [schedule, setSchedule] = useState<BackupSchedule | null>(null);
   const [loading, setLoading] = useState(false);
   const [progress, setProgress] = useState<BackupProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -123,33 +106,21 @@ export const useBackup = () => {
     return () => unsubscribe();
   }, [user]);
 
-  // Generate checksum for data integrity
-  const generateChecksum = useCallback(async (data: string): Promise<string> => {
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  }, []);
+  // Programa de respaldos automáticos, mantenido por la función programada
+  useEffect(() => {
+    if (!user) return;
 
-  // Compress data
-  const compressData = useCallback(async (data: string, type: 'gzip' | 'brotli' = 'gzip'): Promise<Blob> => {
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    
-    if (type === 'gzip') {
-      // In a real implementation, use a compression library like pako
-      return new Blob([dataBuffer], { type: 'application/gzip' });
-    }
-    
-    return new Blob([dataBuffer], { type: 'application/octet-stream' });
-  }, []);
+    const unsubscribe = onSnapshot(doc(db, 'backupSchedules', user.uid), (snapshot) => {
+      setSchedule(snapshot.exists() ? { id: snapshot.id, ...snapshot.data() } as BackupSchedule : null);
+    });
+
+    return () => unsubscribe();
+  }, [user]);
 
   // Create backup
   const createBackup = useCallback(async (
     name: string, 
-    description?: string, 
-    type: 'manual' | 'automatic' | 'scheduled' = 'manual'
+    description?: string
   ): Promise<string | null> => {
     if (!user) {
       setError('Usuario no autenticado');
@@ -167,116 +138,26 @@ export const useBackup = () => {
     setError(null);
 
     try {
-      // Step 1: Prepare data
       setProgress({
-        step: 'Preparando datos...',
-        progress: 10,
-        message: 'Recopilando información de socios'
-      });
-
-      // Create backup metadata with proper null handling
-      const backupMetadata: Omit<BackupMetadata, 'id'> = {
-        name: name.trim(),
-        description: description && description.trim() ? description.trim() : null,
-        createdAt: Timestamp.now(),
-        createdBy: user.uid,
-        asociacionId: user.uid,
-        type,
-        status: 'creating',
-        size: 0,
-        recordCount: socios.length,
-        version: '1.0.0',
-        checksum: '',
-        tags: [],
-        isEncrypted: config.encryptionEnabled,
-        compressionType: config.compressionEnabled ? 'gzip' : 'none',
-        storageLocation: '',
-        verificationStatus: 'pending'
-      };
-
-      const backupData: BackupData = {
-        metadata: { ...backupMetadata, id: '' },
-        socios: socios,
-        settings: config.includeSettings ? { config } : undefined,
-        customData: config.includeCustomData ? {} : undefined
-      };
-
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Step 2: Generate checksum
-      setProgress({
-        step: 'Generando checksum...',
+        step: 'Creando respaldo...',
         progress: 30,
-        message: 'Verificando integridad de datos'
-      });
-
-      const dataString = JSON.stringify(backupData);
-      const checksum = await generateChecksum(dataString);
-      backupMetadata.checksum = checksum;
-
-      await new Promise(resolve => setTimeout(resolve, 300));
-
-      // Step 3: Compress data
-      setProgress({
-        step: 'Comprimiendo datos...',
-        progress: 50,
-        message: 'Optimizando tamaño del archivo'
-      });
-
-      const compressedData = config.compressionEnabled 
-        ? await compressData(dataString, 'gzip')
-        : new Blob([dataString], { type: 'application/json' });
-
-      backupMetadata.size = compressedData.size;
-
-      await new Promise(resolve => setTimeout(resolve, 400));
-
-      // Step 4: Upload to storage
-      setProgress({
-        step: 'Subiendo a almacenamiento...',
-        progress: 70,
-        message: 'Guardando respaldo en la nube'
-      });
-
-      const timestamp = Date.now();
-      const fileName = `backup_${user.uid}_${timestamp}.${config.compressionEnabled ? 'gz' : 'json'}`;
-      const storageRef = storage.ref(`backups/${user.uid}/${fileName}`);
-      
-      await storage.uploadBytes(storageRef, compressedData);
-      const downloadURL = await storage.getDownloadURL(storageRef);
-      
-      backupMetadata.storageLocation = downloadURL;
-
-      await new Promise(resolve => setTimeout(resolve, 300));
-
-      // Step 5: Save metadata to Firestore
-      setProgress({
-        step: 'Guardando metadatos...',
-        progress: 90,
-        message: 'Registrando información del respaldo'
+        message: 'Exportando, comprimiendo y cifrando los datos en el servidor'
       });
 
-      // Clean the metadata object to remove any undefined values
-      const cleanedMetadata = cleanUndefinedValues({
-        ...backupMetadata,
-        status: 'completed'
+      const response = await llamarApi('/api/backups', {
+        method: 'POST',
+        body: JSON.stringify({ name: name.trim(), description: description?.trim() || undefined }),
       });
+      const { backupId } = await response.json() as { backupId: string };
 
-      const docRef = await addDoc(collection(db, 'backups'), cleanedMetadata);
-      
-      await new Promise(resolve => setTimeout(resolve, 200));
-
-      // Step 6: Complete
       setProgress({
         step: 'Completado',
         progress: 100,
         message: 'Respaldo creado exitosamente'
       });
 
-      await new Promise(resolve => setTimeout(resolve, 500));
-
       toast.success(`Respaldo "${name}" creado correctamente`);
-      return docRef.id;
+      return backupId;
 
     } catch (error) {
       console.error('Error creating backup:', error);
@@ -297,7 +178,7 @@ export const useBackup = () => {
       // Clear progress after a delay to show completion/error state
       setTimeout(() => setProgress(null), 2000);
     }
-  }, [user, socios, config, generateChecksum, compressData]);
+  }, [user]);
 
   // Restore backup
   const restoreBackup = useCallback(async (options: RestoreOptions): Promise<boolean> => {
@@ -310,66 +191,34 @@ export const useBackup = () => {
     setError(null);
 
     try {
-      const backup = backups.find(b => b.id === options.backupId);
-      if (!backup) {
-        throw new Error('Respaldo no encontrado');
-      }
-
-      // Step 1: Download backup data
-      setProgress({
-        step: 'Descargando respaldo...',
-        progress: 10,
-        message: 'Obteniendo datos del respaldo'
-      });
-
-      // Simulate download and decompression
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Step 2: Verify data integrity
       setProgress({
-        step: 'Verificando integridad...',
+        step: 'Restaurando datos...',
         progress: 30,
-        message: 'Validando datos del respaldo'
+        message: options.createBackupBeforeRestore
+          ? 'Verificando el respaldo y guardando el estado actual antes de restaurar'
+          : 'Verificando el respaldo y aplicando los cambios'
       });
 
-      await new Promise(resolve => setTimeout(resolve, 800));
-
-      // Step 3: Create backup before restore (if requested)
-      if (options.createBackupBeforeRestore) {
-        setProgress({
-          step: 'Creando respaldo de seguridad...',
-          progress: 50,
-          message: 'Guardando estado actual'
-        });
-
-        await createBackup(`Pre-restore backup ${new Date().toISOString()}`, 'Respaldo automático antes de restauración', 'automatic');
-      }
-
-      // Step 4: Restore data
-      setProgress({
-        step: 'Restaurando datos...',
-        progress: 70,
-        message: 'Aplicando cambios'
+      const response = await llamarApi(`/api/backups/${options.backupId}`, {
+        method: 'POST',
+        body: JSON.stringify({ action: 'restore', options }),
       });
+      const { result } = await response.json() as { result: RestoreResult };
 
-      // Simulate data restoration
-      if (options.restoreType === 'full' || options.restoreType === 'socios_only') {
-        // In real implementation, restore socios data
-        await new Promise(resolve => setTimeout(resolve, 1500));
-      }
-
-      await new Promise(resolve => setTimeout(resolve, 500));
+      const restaurados = Object.values(result.restored).reduce((sum, cantidad) => sum + (cantidad || 0), 0);
+      const omitidos = Object.values(result.skipped).reduce((sum, cantidad) => sum + (cantidad || 0), 0);
 
-      // Step 5: Complete
       setProgress({
         step: 'Completado',
         progress: 100,
         message: 'Restauración completada exitosamente'
       });
 
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      toast.success('Respaldo restaurado correctamente');
+      toast.success(
+        omitidos > 0
+          ? `Se restauraron ${restaurados} registros; ${omitidos} ya existían y no se sobrescribieron`
+          : `Se restauraron ${restaurados} registros`
+      );
       return true;
 
     } catch (error) {
@@ -382,24 +231,14 @@ export const useBackup = () => {
       setLoading(false);
       setTimeout(() => setProgress(null), 2000);
     }
-  }, [user, backups, createBackup]);
+  }, [user]);
 
   // Delete backup
   const deleteBackup = useCallback(async (backupId: string): Promise<boolean> => {
     if (!user) return false;
 
     try {
-      const backup = backups.find(b => b.id === backupId);
-      if (!backup) return false;
-
-      // Delete from storage
-      if (backup.storageLocation) {
-        // In real implementation, delete from Firebase Storage
-        // await deleteObject(ref(storage, backup.storageLocation));
-      }
-
-      // Delete from Firestore
-      await deleteDoc(doc(db, 'backups', backupId));
+      await llamarApi(`/api/backups/${backupId}`, { method: 'DELETE' });
 
       toast.success('Respaldo eliminado correctamente');
       return true;
@@ -408,40 +247,26 @@ export const useBackup = () => {
       toast.error('Error al eliminar el respaldo');
       return false;
     }
-  }, [user, backups]);
+  }, [user]);
 
   // Verify backup integrity
   const verifyBackup = useCallback(async (backupId: string): Promise<BackupVerification | null> => {
-    const backup = backups.find(b => b.id === backupId);
-    if (!backup) return null;
-
     try {
-      // Simulate verification process
-      await new Promise(resolve => setTimeout(resolve, 2000));
-
-      const verification: BackupVerification = {
-        id: `verification_${Date.now()}`,
-        backupId,
-        verifiedAt: Timestamp.now(),
-        status: 'passed',
-        issues: [],
-        dataIntegrity: 100,
-        recordsVerified: backup.recordCount,
-        recordsTotal: backup.recordCount
-      };
-
-      // Update backup verification status
-      await updateDoc(doc(db, 'backups', backupId), {
-        lastVerified: verification.verifiedAt,
-        verificationStatus: verification.status
+      const response = await llamarApi(`/api/backups/${backupId}`, {
+        method: 'POST',
+        body: JSON.stringify({ action: 'verify' }),
       });
+      const { verification } = await response.json() as {
+        verification: Omit<BackupVerification, 'verifiedAt'> & { verifiedAt: string };
+      };
 
-      return verification;
+      return { ...verification, verifiedAt: Timestamp.fromDate(new Date(verification.verifiedAt)) };
     } catch (error) {
       console.error('Error verifying backup:', error);
+      toast.error(error instanceof Error ? error.message : 'Error al verificar el respaldo');
       return null;
     }
-  }, [backups]);
+  }, []);
 
   // Get backup statistics
   const getBackupStats = useCallback((): BackupStats => {
@@ -507,17 +332,21 @@ export const useBackup = () => {
     if (!backup) return false;
 
     try {
-      // Simulate download
+      // El servidor verifica el respaldo y entrega los datos descifrados
+      const response = await llamarApi(`/api/backups/${backupId}`);
+      const url = URL.createObjectURL(await response.blob());
+
       const link = document.createElement('a');
-      link.href = backup.storageLocation;
-      link.download = `${backup.name}_${backup.createdAt.toDate().toISOString().split('T')[0]}.${backup.compressionType === 'gzip' ? 'gz' : 'json'}`;
+      link.href = url;
+      link.download = `${backup.name}_${backup.createdAt.toDate().toISOString().split('T')[0]}.json.gz`;
       link.click();
+      URL.revokeObjectURL(url);
 
       toast.success('Descarga iniciada');
       return true;
     } catch (error) {
       console.error('Error downloading backup:', error);
-      toast.error('Error al descargar el respaldo');
+      toast.error(error instanceof Error ? error.message : 'Error al descargar el respaldo');
       return false;
     }
   }, [backups]);
@@ -526,6 +355,7 @@ export const useBackup = () => {
     // State
     backups,
     config,
+    schedule,
     loading,
     progress,
     error,
@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from './useAuth';
+import { socioService } from '@/services/socio.service';
+import { fidelizacionService } from '@/services/fidelizacion.service';
+import { canjesService } from '@/services/canjes.service';
+import { getSaldoPuntos } from '@/lib/loyalty-points';
+import { CanjePuntos, MovimientoPuntos } from '@/types/fidelizacion';
+
+/**
+ * Saldo de puntos del socio, su estado de cuenta y el canje de beneficios
+ */
+export const useCanjesPuntos = () => {
+  const { user } = useAuth();
+  const [saldoPuntos, setSaldoPuntos] = useState(0);
+  const [movimientos, setMovimientos] = useState<MovimientoPuntos[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [canjeando, setCanjeando] = useState<string | null>(null);
+
+  const refrescar = useCallback(async () => {
+    if (!user?.uid) return;
+
+    setLoading(true);
+    const [socio, ultimos] = await Promise.all([
+      socioService.getSocioById(user.uid),
+      fidelizacionService.getMovimientos(user.uid, 50),
+    ]);
+    setSaldoPuntos(getSaldoPuntos(socio));
+    setMovimientos(ultimos);
+    setLoading(false);
+  }, [user?.uid]);
+
+  useEffect(() => {
+    refrescar();
+  }, [refrescar]);
+
+  const canjear = useCallback(async (beneficioId: string): Promise<CanjePuntos | null> => {
+    setCanjeando(beneficioId);
+    try {
+      const canje = await canjesService.canjear(beneficioId);
+      setSaldoPuntos(canje.saldoPuntos);
+      toast.success(`Canjeaste ${canje.puntosCanjeados} puntos`);
+      await refrescar();
+      return canje;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al canjear los puntos');
+      return null;
+    } finally {
+      setCanjeando(null);
+    }
+  }, [refrescar]);
+
+  return {
+    saldoPuntos,
+    movimientos,
+    loading,
+    canjeando,
+    canjear,
+    refrescar,
+  };
+};
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { cohortesService } from '@/services/cohortes.service';
+import { AnalisisCohortes } from '@/types/cohortes';
+
+interface UseCohortesReturn {
+  analisis: AnalisisCohortes | null;
+  loading: boolean;
+  error: string | null;
+  recalcular: () => Promise<void>;
+}
+
+/**
+ * Retención por cohortes y valor de vida por plan de la asociación del
+ * usuario, calculados al montar y a pedido
+ */
+export const useCohortes = (): UseCohortesReturn => {
+  const { user } = useAuth();
+  const [analisis, setAnalisis] = useState<AnalisisCohortes | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const recalcular = useCallback(async () => {
+    if (!user) {
+      setAnalisis(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setAnalisis(await cohortesService.getAnalisis(user.uid));
+    } catch (err) {
+      console.error('Error calculando las cohortes:', err);
+      setError('No se pudo calcular la retención por cohortes');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    recalcular();
+  }, [recalcular]);
+
+  return { analisis, loading, error, recalcular };
+};
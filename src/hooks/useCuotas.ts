@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { cuotasService, RegistrarPagoOptions } from '@/services/cuotas.service';
+import { Cuota, PagoCuota } from '@/types/cuotas';
+
+/**
+ * Estado de cuenta de cuotas de un socio: cargos, pagos y recibos
+ */
+export const useCuotas = (socioId: string | null) => {
+  const [cuotas, setCuotas] = useState<Cuota[]>([]);
+  const [pagos, setPagos] = useState<PagoCuota[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [registrando, setRegistrando] = useState(false);
+
+  const refrescar = useCallback(async () => {
+    if (!socioId) {
+      setCuotas([]);
+      setPagos([]);
+      return;
+    }
+
+    setLoading(true);
+    const [cargos, recibidos] = await Promise.all([
+      cuotasService.getCuotas(socioId),
+      cuotasService.getPagos(socioId),
+    ]);
+    setCuotas(cargos);
+    setPagos(recibidos);
+    setLoading(false);
+  }, [socioId]);
+
+  useEffect(() => {
+    refrescar();
+  }, [refrescar]);
+
+  const registrarPago = useCallback(async (
+    monto: number,
+    options: RegistrarPagoOptions = {}
+  ): Promise<PagoCuota | null> => {
+    if (!socioId) return null;
+
+    setRegistrando(true);
+    try {
+      const pago = await cuotasService.registrarPago(socioId, monto, options);
+      toast.success(`Pago registrado. Recibo N° ${String(pago.numeroRecibo).padStart(6, '0')}`);
+      await refrescar();
+      return pago;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al registrar el pago');
+      return null;
+    } finally {
+      setRegistrando(false);
+    }
+  }, [socioId, refrescar]);
+
+  const descargarRecibo = useCallback(async (pago: PagoCuota) => {
+    try {
+      await cuotasService.descargarRecibo(pago);
+    } catch (error) {
+      console.error('Error generando el recibo:', error);
+      toast.error('No se pudo generar el recibo');
+    }
+  }, []);
+
+  return {
+    cuotas,
+    pagos,
+    loading,
+    registrando,
+    registrarPago,
+    descargarRecibo,
+    refrescar,
+  };
+};
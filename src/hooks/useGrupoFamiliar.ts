@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { grupoFamiliarService, GrupoFamiliar } from '@/services/grupo-familiar.service';
+import { DependienteFormData } from '@/types/socio';
+
+/**
+ * Grupo familiar de un socio (titular y dependientes) y su administración
+ */
+export const useGrupoFamiliar = (socioId: string | null) => {
+  const [grupo, setGrupo] = useState<GrupoFamiliar>({ titular: null, dependientes: [] });
+  const [loading, setLoading] = useState(false);
+  const [guardando, setGuardando] = useState(false);
+
+  const refrescar = useCallback(async () => {
+    if (!socioId) {
+      setGrupo({ titular: null, dependientes: [] });
+      return;
+    }
+
+    setLoading(true);
+    setGrupo(await grupoFamiliarService.getGrupoFamiliar(socioId));
+    setLoading(false);
+  }, [socioId]);
+
+  useEffect(() => {
+    refrescar();
+  }, [refrescar]);
+
+  const agregarDependiente = useCallback(async (data: DependienteFormData): Promise<boolean> => {
+    if (!grupo.titular) return false;
+
+    setGuardando(true);
+    try {
+      const result = await grupoFamiliarService.agregarDependiente(grupo.titular.id, data);
+      toast.success(
+        result.conAcceso
+          ? `Dependiente #${result.numeroSocio} agregado. Verificará su email al ingresar`
+          : `Dependiente #${result.numeroSocio} agregado`
+      );
+      await refrescar();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al agregar el dependiente');
+      return false;
+    } finally {
+      setGuardando(false);
+    }
+  }, [grupo.titular, refrescar]);
+
+  const quitarDependiente = useCallback(async (dependienteId: string): Promise<boolean> => {
+    setGuardando(true);
+    try {
+      await grupoFamiliarService.quitarDependiente(dependienteId);
+      toast.success('Dependiente quitado del grupo familiar');
+      await refrescar();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al quitar el dependiente');
+      return false;
+    } finally {
+      setGuardando(false);
+    }
+  }, [refrescar]);
+
+  return {
+    titular: grupo.titular,
+    dependientes: grupo.dependientes,
+    loading,
+    guardando,
+    agregarDependiente,
+    quitarDependiente,
+    refrescar,
+  };
+};
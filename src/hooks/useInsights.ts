@@ -0,0 +1,49 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { insightsService } from '@/services/insights.service';
+import { InsightsAsociacion } from '@/types/insights';
+
+interface UseInsightsReturn {
+  insights: InsightsAsociacion | null;
+  loading: boolean;
+  error: string | null;
+  recalcular: () => Promise<void>;
+}
+
+/**
+ * Insights de la asociación del usuario: riesgo de abandono, pronóstico de
+ * crecimiento y saturación de beneficios, calculados al montar y a pedido
+ */
+export const useInsights = (): UseInsightsReturn => {
+  const { user } = useAuth();
+  const [insights, setInsights] = useState<InsightsAsociacion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const recalcular = useCallback(async () => {
+    if (!user) {
+      setInsights(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      setInsights(await insightsService.getInsights(user.uid));
+    } catch (err) {
+      console.error('Error calculando los insights:', err);
+      setError('No se pudieron calcular los insights de la asociación');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    recalcular();
+  }, [recalcular]);
+
+  return { insights, loading, error, recalcular };
+};
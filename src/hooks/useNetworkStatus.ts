@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+
+// Type definition for navigator.connection
+type NetworkInformation = {
+  effectiveType?: 'slow-2g' | '2g' | '3g' | '4g';
+  downlink?: number;
+  rtt?: number;
+  saveData?: boolean;
+  onchange?: (() => void) | null;
+};
+
+export type ConnectionQuality = 'excellent' | 'good' | 'poor';
+
+/**
+ * Estado de la red del dispositivo (online/offline y calidad estimada)
+ */
+export const useNetworkStatus = () => {
+  const [isOnline, setIsOnline] = useState(true);
+  const [connectionQuality, setConnectionQuality] = useState<ConnectionQuality>('excellent');
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+
+    // Check connection quality
+    const checkConnectionQuality = () => {
+      if ('connection' in navigator) {
+        const connection = (navigator.connection as NetworkInformation | undefined);
+        if (connection) {
+          switch (connection.effectiveType) {
+            case '4g':
+              setConnectionQuality('excellent');
+              break;
+            case '3g':
+              setConnectionQuality('good');
+              break;
+            default:
+              setConnectionQuality('poor');
+          }
+        }
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Initial check
+    setIsOnline(navigator.onLine);
+    checkConnectionQuality();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return { isOnline, connectionQuality };
+};
+
+export default useNetworkStatus;
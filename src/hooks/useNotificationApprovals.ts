@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { collection, query, where, orderBy, onSnapshot, limit } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { puedeAprobar } from '@/lib/notification-approval';
+import { notificationApprovalService } from '@/services/notification-approval.service';
+import { useAuth } from './useAuth';
+import {
+  ApprovalAuditEntry,
+  ApprovalRequest,
+  ApprovalWorkflow,
+} from '@/types/notification-approval';
+
+// Solicitudes más recientes que se muestran en la bandeja
+const MAX_SOLICITUDES = 100;
+
+interface UseNotificationApprovalsReturn {
+  solicitudes: ApprovalRequest[];
+  workflows: ApprovalWorkflow[];
+  solicitudSeleccionada: ApprovalRequest | null;
+  seleccionarSolicitud: (requestId: string | null) => void;
+  auditoria: ApprovalAuditEntry[];
+  // Solicitudes pendientes cuyo paso actual puede decidir el usuario
+  pendientes: number;
+  loading: boolean;
+  error: string | null;
+  puedeDecidir: (solicitud: ApprovalRequest) => boolean;
+  decidir: (action: 'approve' | 'reject', comment: string) => Promise<void>;
+  comentar: (comment: string) => Promise<void>;
+  crearWorkflow: (plantilla: Partial<ApprovalWorkflow>) => Promise<void>;
+  cambiarActivo: (workflowId: string, isActive: boolean) => Promise<void>;
+}
+
+/**
+ * Bandeja de aprobaciones de la asociación: solicitudes y workflows en
+ * tiempo real y el registro de auditoría de la solicitud seleccionada. Las
+ * decisiones y comentarios pasan por la API, que las valida y audita.
+ */
+export const useNotificationApprovals = (): UseNotificationApprovalsReturn => {
+  const { user } = useAuth();
+  const [solicitudes, setSolicitudes] = useState<ApprovalRequest[]>([]);
+  const [workflows, setWorkflows] = useState<ApprovalWorkflow[]>([]);
+  const [auditoria, setAuditoria] = useState<ApprovalAuditEntry[]>([]);
+  const [requestId, setRequestId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setSolicitudes([]);
+      setLoading(false);
+      return;
+    }
+
+    const solicitudesQuery = query(
+      collection(db, COLLECTIONS.APPROVAL_REQUESTS),
+      where('asociacionId', '==', user.uid),
+      orderBy('createdAt', 'desc'),
+      limit(MAX_SOLICITUDES)
+    );
+
+    return onSnapshot(
+      solicitudesQuery,
+      (snapshot) => {
+        setSolicitudes(snapshot.docs.map(solicitudDoc => ({
+          ...solicitudDoc.data(),
+          id: solicitudDoc.id,
+        } as ApprovalRequest)));
+        setError(null);
+        setLoading(false);
+      },
+      (snapshotError) => {
+        console.error('Error cargando las solicitudes de aprobación:', snapshotError);
+        setError('No se pudieron cargar las solicitudes de aprobación');
+        setLoading(false);
+      }
+    );
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setWorkflows([]);
+      return;
+    }
+
+    const workflowsQuery = query(
+      collection(db, COLLECTIONS.APPROVAL_WORKFLOWS),
+      where('asociacionId', '==', user.uid),
+      orderBy('createdAt', 'desc')
+    );
+
+    return onSnapshot(
+      workflowsQuery,
+      (snapshot) => {
+        setWorkflows(snapshot.docs.map(workflowDoc => ({
+          ...workflowDoc.data(),
+          id: workflowDoc.id,
+        } as ApprovalWorkflow)));
+      },
+      (snapshotError) => {
+        console.error('Error cargando los workflows de aprobación:', snapshotError);
+        setError('No se pudieron cargar los workflows de aprobación');
+      }
+    );
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !requestId) {
+      setAuditoria([]);
+      return;
+    }
+
+    const auditoriaQuery = query(
+      collection(db, COLLECTIONS.APPROVAL_AUDIT_LOG),
+      where('asociacionId', '==', user.uid),
+      where('requestId', '==', requestId),
+      orderBy('createdAt', 'asc')
+    );
+
+    return onSnapshot(
+      auditoriaQuery,
+      (snapshot) => {
+        setAuditoria(snapshot.docs.map(entradaDoc => ({
+          ...entradaDoc.data(),
+          id: entradaDoc.id,
+        } as ApprovalAuditEntry)));
+      },
+      (snapshotError) => {
+        console.error('Error cargando la auditoría de la solicitud:', snapshotError);
+        setError('No se pudo cargar el historial de la solicitud');
+      }
+    );
+  }, [user, requestId]);
+
+  const puedeDecidir = useCallback((solicitud: ApprovalRequest) => {
+    if (!user || solicitud.status !== 'pending') return false;
+
+    const paso = solicitud.steps[solicitud.currentStep];
+    const workflow = workflows.find(w => w.id === solicitud.workflowId);
+    const definicion = workflow?.steps.find(s => s.id === paso?.stepId);
+    return !!definicion &&
+      puedeAprobar({ uid: user.uid, role: user.role }, definicion, solicitud.asociacionId) &&
+      !paso.approvals.some(a => a.approverId === user.uid);
+  }, [user, workflows]);
+
+  const solicitudSeleccionada = solicitudes.find(s => s.id === requestId) ?? null;
+
+  const decidir = useCallback(async (action: 'approve' | 'reject', comment: string) => {
+    if (!requestId) return;
+    await notificationApprovalService.processApprovalAction(requestId, action, comment.trim() || undefined);
+  }, [requestId]);
+
+  const comentar = useCallback(async (comment: string) => {
+    if (!requestId) return;
+    await notificationApprovalService.addComment(requestId, comment.trim());
+  }, [requestId]);
+
+  const crearWorkflow = useCallback(async (plantilla: Partial<ApprovalWorkflow>) => {
+    if (!user) return;
+    await notificationApprovalService.createWorkflow({
+      name: plantilla.name || 'Workflow de aprobación',
+      description: plantilla.description || '',
+      asociacionId: user.uid,
+      steps: plantilla.steps || [],
+      triggers: plantilla.triggers || [],
+      isActive: true,
+      createdBy: user.uid,
+    });
+  }, [user]);
+
+  const cambiarActivo = useCallback(async (workflowId: string, isActive: boolean) => {
+    await notificationApprovalService.setWorkflowActive(workflowId, isActive);
+  }, []);
+
+  return {
+    solicitudes,
+    workflows,
+    solicitudSeleccionada,
+    seleccionarSolicitud: setRequestId,
+    auditoria,
+    pendientes: solicitudes.filter(puedeDecidir).length,
+    loading,
+    error,
+    puedeDecidir,
+    decidir,
+    comentar,
+    crearWorkflow,
+    cambiarActivo,
+  };
+};
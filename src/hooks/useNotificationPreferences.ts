@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { notificationPreferencesService } from '@/services/notification-preferences.service';
+import { PreferenciasEnvio, PREFERENCIAS_POR_DEFECTO } from '@/lib/notification-preferences';
+
+/**
+ * Preferencias de envío del usuario: horario silencioso, frecuencia de
+ * resumen y categorías que quiere recibir
+ */
+export const useNotificationPreferences = (userId: string | null) => {
+  const [preferencias, setPreferencias] = useState<PreferenciasEnvio>(PREFERENCIAS_POR_DEFECTO);
+  const [loading, setLoading] = useState(false);
+  const [guardando, setGuardando] = useState(false);
+
+  const refrescar = useCallback(async () => {
+    if (!userId) return;
+
+    setLoading(true);
+    setPreferencias(await notificationPreferencesService.getPreferencias(userId));
+    setLoading(false);
+  }, [userId]);
+
+  useEffect(() => {
+    refrescar();
+  }, [refrescar]);
+
+  const guardar = useCallback(async (nuevas: PreferenciasEnvio): Promise<boolean> => {
+    if (!userId) return false;
+
+    setGuardando(true);
+    const ok = await notificationPreferencesService.guardarPreferencias(userId, nuevas);
+    setGuardando(false);
+
+    if (ok) {
+      setPreferencias(nuevas);
+      toast.success('Preferencias de notificaciones guardadas');
+    }
+    return ok;
+  }, [userId]);
+
+  return { preferencias, loading, guardando, guardar, refrescar };
+};
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { useNetworkStatus } from './useNetworkStatus';
+import {
+  offlineValidationService,
+  OfflineValidationRequest,
+  OfflineValidationResult,
+} from '@/services/offline-validation.service';
+import { EligibilitySnapshot, OfflineRedencion } from '@/lib/offline-validation-store';
+
+/**
+ * Modo sin conexión de la validación en caja: mantiene la copia local de
+ * beneficios, la cola de redenciones y la sincroniza al volver la conexión
+ */
+export const useOfflineValidation = (comercioId?: string) => {
+  const { isOnline } = useNetworkStatus();
+  const [snapshot, setSnapshot] = useState<EligibilitySnapshot | null>(null);
+  const [redenciones, setRedenciones] = useState<OfflineRedencion[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const reload = useCallback(async () => {
+    if (!comercioId) return;
+
+    try {
+      const [savedSnapshot, saved] = await Promise.all([
+        offlineValidationService.getSnapshot(comercioId),
+        offlineValidationService.listRedenciones(comercioId),
+      ]);
+      if (mountedRef.current) {
+        setSnapshot(savedSnapshot);
+        setRedenciones(saved);
+      }
+    } catch (error) {
+      console.error('Error leyendo validaciones sin conexión:', error);
+    }
+  }, [comercioId]);
+
+  const sync = useCallback(async () => {
+    if (!comercioId) return;
+
+    setSyncing(true);
+    try {
+      const result = await offlineValidationService.sync(comercioId);
+      if (result.sincronizadas > 0) {
+        toast.success(`${result.sincronizadas} validación(es) sin conexión sincronizadas`);
+      }
+      if (result.conflictos > 0) {
+        toast.error(`${result.conflictos} validación(es) requieren revisión`);
+      }
+    } catch (error) {
+      console.error('Error sincronizando validaciones sin conexión:', error);
+      toast.error('No se pudieron sincronizar las validaciones pendientes');
+    } finally {
+      if (mountedRef.current) {
+        setSyncing(false);
+      }
+      await reload();
+    }
+  }, [comercioId, reload]);
+
+  // Con conexión: refrescar la copia local y enviar lo pendiente
+  useEffect(() => {
+    if (!comercioId) return;
+
+    if (!isOnline) {
+      reload();
+      return;
+    }
+
+    offlineValidationService.refreshSnapshot(comercioId)
+      .catch(error => console.error('Error guardando beneficios para uso sin conexión:', error))
+      .then(reload)
+      .then(sync);
+  }, [comercioId, isOnline, reload, sync]);
+
+  const validateOffline = useCallback(async (
+    request: Omit<OfflineValidationRequest, 'comercioId'>
+  ): Promise<OfflineValidationResult> => {
+    if (!comercioId) {
+      return { success: false, message: 'Comercio no identificado' };
+    }
+
+    const result = await offlineValidationService.validateOffline({ ...request, comercioId });
+    await reload();
+    return result;
+  }, [comercioId, reload]);
+
+  const retryConflict = useCallback(async (redencion: OfflineRedencion) => {
+    await offlineValidationService.retryConflict(redencion);
+    if (isOnline) {
+      await sync();
+    } else {
+      await reload();
+    }
+  }, [isOnline, sync, reload]);
+
+  const discardConflict = useCallback(async (id: string) => {
+    await offlineValidationService.discardConflict(id);
+    await reload();
+  }, [reload]);
+
+  return {
+    isOnline,
+    snapshot,
+    pendientes: redenciones.filter(redencion => redencion.estado === 'pendiente'),
+    conflictos: redenciones.filter(redencion => redencion.estado === 'conflicto'),
+    syncing,
+    validateOffline,
+    sync,
+    retryConflict,
+    discardConflict,
+  };
+};
+
+export default useOfflineValidation;
@@ -0,0 +1,113 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import QRCode from 'qrcode';
+import { qrTokenService } from '@/services/qr-token.service';
+import { QR_CONFIG } from '@/lib/constants';
+
+interface RotatingQRState {
+  qrDataUrl: string;
+  url: string;
+  expiresAt: Date | null;
+  secondsLeft: number;
+  loading: boolean;
+  error: string;
+}
+
+/**
+ * Mantiene un QR firmado que se renueva automáticamente antes de expirar
+ */
+export const useRotatingQRToken = (comercioId?: string | null, beneficioId?: string) => {
+  const [state, setState] = useState<RotatingQRState>({
+    qrDataUrl: '',
+    url: '',
+    expiresAt: null,
+    secondsLeft: 0,
+    loading: false,
+    error: '',
+  });
+
+  const rotateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const mountedRef = useRef(true);
+
+  const rotate = useCallback(async () => {
+    if (!comercioId) return;
+
+    if (rotateTimeoutRef.current) {
+      clearTimeout(rotateTimeoutRef.current);
+      rotateTimeoutRef.current = null;
+    }
+
+    setState(prev => ({ ...prev, loading: true, error: '' }));
+
+    try {
+      const { url, expiresAt } = await qrTokenService.issueToken(comercioId, beneficioId);
+      const qrDataUrl = await QRCode.toDataURL(url, {
+        width: QR_CONFIG.size,
+        margin: QR_CONFIG.margin,
+        color: QR_CONFIG.color,
+        errorCorrectionLevel: QR_CONFIG.errorCorrectionLevel,
+      });
+
+      if (!mountedRef.current) return;
+
+      setState({
+        qrDataUrl,
+        url,
+        expiresAt,
+        secondsLeft: Math.max(0, Math.round((expiresAt.getTime() - Date.now()) / 1000)),
+        loading: false,
+        error: '',
+      });
+
+      // Renovar antes de que expire el token actual
+      const refreshIn = Math.max(expiresAt.getTime() - Date.now() - QR_CONFIG.tokenRefreshMargin * 1000, 5000);
+      rotateTimeoutRef.current = setTimeout(() => {
+        rotate();
+      }, refreshIn);
+    } catch (err) {
+      console.error('❌ Error rotando QR firmado:', err);
+      if (!mountedRef.current) return;
+
+      const errorMessage = err instanceof Error ? err.message : 'Error al generar el código QR';
+      setState(prev => ({ ...prev, loading: false, error: errorMessage }));
+
+      // Reintentar más tarde si falla la red
+      rotateTimeoutRef.current = setTimeout(() => {
+        rotate();
+      }, 15000);
+    }
+  }, [comercioId, beneficioId]);
+
+  // Generar el primer token y limpiar al desmontar
+  useEffect(() => {
+    mountedRef.current = true;
+    rotate();
+
+    return () => {
+      mountedRef.current = false;
+      if (rotateTimeoutRef.current) {
+        clearTimeout(rotateTimeoutRef.current);
+      }
+    };
+  }, [rotate]);
+
+  // Cuenta regresiva visible
+  useEffect(() => {
+    if (!state.expiresAt) return;
+
+    const interval = setInterval(() => {
+      setState(prev => ({
+        ...prev,
+        secondsLeft: prev.expiresAt
+          ? Math.max(0, Math.round((prev.expiresAt.getTime() - Date.now()) / 1000))
+          : 0,
+      }));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [state.expiresAt]);
+
+  return {
+    ...state,
+    refresh: rotate,
+  };
+};
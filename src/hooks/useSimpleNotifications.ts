@@ -10,6 +10,8 @@ import {
   SimpleNotificationSettings
 } from '@/types/simple-notification';
 import { simpleNotificationService } from '@/services/simple-notifications.service';
+import { notificationQueueService } from '@/services/notification-queue.service';
+import { notificationApprovalService } from '@/services/notification-approval.service';
 import { useAuth } from './useAuth';
 import { useClientes } from './useClientes';
 
@@ -108,7 +110,10 @@ export const useSimpleNotifications = () => {
         message: data.message?.trim() || '',
         type: data.type || 'info',
         channels: Array.isArray(data.channels) ? data.channels.filter(Boolean) : [],
-        recipientIds: Array.isArray(data.recipientIds) ? data.recipientIds.filter(Boolean) : []
+        recipientIds: Array.isArray(data.recipientIds) ? data.recipientIds.filter(Boolean) : [],
+        ...(data.cuerpos && { cuerpos: data.cuerpos }),
+        // Los emails de una asociación salen con su marca
+        ...(user.role === 'asociacion' && { asociacionId: user.uid })
       };
 
       // Validaciones básicas
@@ -127,6 +132,31 @@ export const useSimpleNotifications = () => {
 
       console.log('📤 Sending notification with clean data:', cleanData);
 
+      // Los envíos de una asociación pasan por sus workflows de aprobación
+      if (user.role === 'asociacion') {
+        const approvalRequestId = await notificationApprovalService.createApprovalRequest(
+          {
+            asociacionId: user.uid,
+            type: cleanData.type,
+            recipientCount: cleanData.recipientIds.length,
+            channels: cleanData.channels,
+            priority: 'normal',
+            title: cleanData.title,
+            message: cleanData.message,
+          },
+          async (id) => {
+            const heldId = await simpleNotificationService.createNotification(cleanData, user.uid, id);
+            await notificationQueueService.enqueueSimpleNotification(heldId, cleanData, { approvalRequestId: id });
+          }
+        );
+
+        if (approvalRequestId) {
+          toast.success('La notificación quedó esperando aprobación');
+          await loadNotifications();
+          return { success: true, sentCount: 0, failedCount: 0, errors: [], pendingApproval: true };
+        }
+      }
+
       // Crear notificación
       const notificationId = await simpleNotificationService.createNotification(
         cleanData,
@@ -0,0 +1,115 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import QRCode from 'qrcode';
+import { socioCredentialService } from '@/services/socio-credential.service';
+import { QR_CONFIG } from '@/lib/constants';
+
+interface SocioCredentialState {
+  qrDataUrl: string;
+  code: string;
+  expiresAt: Date | null;
+  secondsLeft: number;
+  loading: boolean;
+  error: string;
+}
+
+// Segundos antes del vencimiento en los que se pide una credencial nueva
+const REFRESH_MARGIN_SECONDS = 10;
+
+/**
+ * Credencial dinámica del socio (QR + código de 6 dígitos) que rota sola
+ * mientras `active` sea true. Con socioId es la de un dependiente del titular.
+ */
+export const useSocioCredential = (active: boolean = true, socioId?: string) => {
+  const [state, setState] = useState<SocioCredentialState>({
+    qrDataUrl: '',
+    code: '',
+    expiresAt: null,
+    secondsLeft: 0,
+    loading: false,
+    error: '',
+  });
+
+  const rotateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const mountedRef = useRef(true);
+
+  const clearRotation = () => {
+    if (rotateTimeoutRef.current) {
+      clearTimeout(rotateTimeoutRef.current);
+      rotateTimeoutRef.current = null;
+    }
+  };
+
+  const rotate = useCallback(async () => {
+    clearRotation();
+    setState(prev => ({ ...prev, loading: true, error: '' }));
+
+    try {
+      const credential = await socioCredentialService.issueCredential(socioId);
+      const qrDataUrl = await QRCode.toDataURL(credential.token, {
+        width: QR_CONFIG.size,
+        margin: QR_CONFIG.margin,
+        color: QR_CONFIG.color,
+        errorCorrectionLevel: QR_CONFIG.errorCorrectionLevel,
+      });
+
+      if (!mountedRef.current) return;
+
+      const msLeft = credential.expiresAt.getTime() - Date.now();
+      setState({
+        qrDataUrl,
+        code: credential.code,
+        expiresAt: credential.expiresAt,
+        secondsLeft: Math.max(0, Math.round(msLeft / 1000)),
+        loading: false,
+        error: '',
+      });
+
+      rotateTimeoutRef.current = setTimeout(() => {
+        rotate();
+      }, Math.max(msLeft - REFRESH_MARGIN_SECONDS * 1000, 5000));
+    } catch (err) {
+      console.error('❌ Error generando credencial del socio:', err);
+      if (!mountedRef.current) return;
+
+      const errorMessage = err instanceof Error ? err.message : 'Error al generar tu código';
+      setState(prev => ({ ...prev, loading: false, error: errorMessage }));
+    }
+  }, [socioId]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+
+    if (active) {
+      rotate();
+    } else {
+      clearRotation();
+      setState(prev => ({ ...prev, qrDataUrl: '', code: '', expiresAt: null, secondsLeft: 0 }));
+    }
+
+    return () => {
+      mountedRef.current = false;
+      clearRotation();
+    };
+  }, [active, rotate]);
+
+  // Cuenta regresiva visible
+  useEffect(() => {
+    if (!state.expiresAt) return;
+
+    const interval = setInterval(() => {
+      setState(prev => ({
+        ...prev,
+        secondsLeft: prev.expiresAt
+          ? Math.max(0, Math.round((prev.expiresAt.getTime() - Date.now()) / 1000))
+          : 0,
+      }));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [state.expiresAt]);
+
+  return {
+    ...state,
+    refresh: rotate,
+  };
+};
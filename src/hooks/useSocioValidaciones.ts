@@ -153,7 +153,8 @@ export const useSocioValidaciones = () => {
       const request: ValidacionRequest = {
         socioId: user.uid,
         comercioId: parsedData.comercioId,
-        beneficioId: parsedData.beneficioId
+        beneficioId: parsedData.beneficioId,
+        qrToken: parsedData.token ?? null
       };
 
       const result = await validacionesService.validarAcceso(request);
@@ -193,7 +194,8 @@ export const useSocioValidaciones = () => {
             estado: '',
             asociacion: ''
           },
-          fechaHora: new Date()
+          fechaHora: new Date(),
+          errorCode: result.errorCode
         };
       }
     } catch (error) {
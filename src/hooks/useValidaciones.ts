@@ -228,7 +228,8 @@ export const useValidaciones = (): UseValidacionesReturn => {
         socioId: user.uid,
         comercioId: parsedData.comercioId,
         beneficioId: parsedData.beneficioId,
-        asociacionId: user.asociacionId
+        asociacionId: user.asociacionId,
+        qrToken: parsedData.token ?? null
       });
 
       // Transform result to match ValidacionResponse interface
@@ -244,7 +245,8 @@ export const useValidaciones = (): UseValidacionesReturn => {
           estado: result.data?.socio?.estadoMembresia || 'activo',
           asociacion: user.asociacionId || 'independiente'
         },
-        id: result.data?.validacion?.id
+        id: result.data?.validacion?.id,
+        errorCode: result.errorCode
       };
 
       // Refrescar validaciones después de una nueva validación
@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Timestamp, collection, query, where, orderBy, onSnapshot, limit } from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { useAuth } from './useAuth';
+import { EstadoHiloWhatsApp, HiloWhatsApp, MensajeHiloWhatsApp } from '@/types/whatsapp';
+
+// Conversaciones más recientes que se muestran en la bandeja
+const MAX_HILOS = 100;
+
+const toDate = (value: unknown): Date =>
+  value instanceof Timestamp ? value.toDate() : new Date();
+
+interface UseWhatsAppInboxReturn {
+  hilos: HiloWhatsApp[];
+  mensajes: MensajeHiloWhatsApp[];
+  hiloSeleccionado: HiloWhatsApp | null;
+  seleccionarHilo: (hiloId: string | null) => void;
+  pendientes: number;
+  loading: boolean;
+  error: string | null;
+  responder: (texto: string) => Promise<void>;
+  cambiarEstado: (estado: EstadoHiloWhatsApp) => Promise<void>;
+}
+
+async function llamarBandeja(method: 'POST' | 'PATCH', body: Record<string, unknown>): Promise<void> {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('Usuario no autenticado');
+  }
+
+  const idToken = await currentUser.getIdToken();
+  const response = await fetch('/api/notifications/whatsapp/inbox', {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Error HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Bandeja de WhatsApp de la asociación: conversaciones en tiempo real y
+ * mensajes de la conversación seleccionada. Las escrituras pasan por la API
+ * porque la respuesta sale por la sesión de WhatsApp del servidor.
+ */
+export const useWhatsAppInbox = (): UseWhatsAppInboxReturn => {
+  const { user } = useAuth();
+  const [hilos, setHilos] = useState<HiloWhatsApp[]>([]);
+  const [mensajes, setMensajes] = useState<MensajeHiloWhatsApp[]>([]);
+  const [hiloId, setHiloId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setHilos([]);
+      setLoading(false);
+      return;
+    }
+
+    const hilosQuery = query(
+      collection(db, COLLECTIONS.WHATSAPP_HILOS),
+      where('asociacionId', '==', user.uid),
+      orderBy('ultimoMensajeEn', 'desc'),
+      limit(MAX_HILOS)
+    );
+
+    return onSnapshot(
+      hilosQuery,
+      (snapshot) => {
+        setHilos(snapshot.docs.map(hiloDoc => {
+          const data = hiloDoc.data();
+          return {
+            ...data,
+            id: hiloDoc.id,
+            ultimoMensajeEn: toDate(data.ultimoMensajeEn),
+            creadoEn: toDate(data.creadoEn),
+          } as HiloWhatsApp;
+        }));
+        setError(null);
+        setLoading(false);
+      },
+      (snapshotError) => {
+        console.error('Error cargando la bandeja de WhatsApp:', snapshotError);
+        setError('No se pudieron cargar las conversaciones de WhatsApp');
+        setLoading(false);
+      }
+    );
+  }, [user]);
+
+  useEffect(() => {
+    if (!hiloId) {
+      setMensajes([]);
+      return;
+    }
+
+    const mensajesQuery = query(
+      collection(db, COLLECTIONS.WHATSAPP_HILOS, hiloId, COLLECTIONS.WHATSAPP_MENSAJES),
+      orderBy('creadoEn', 'asc')
+    );
+
+    return onSnapshot(
+      mensajesQuery,
+      (snapshot) => {
+        setMensajes(snapshot.docs.map(mensajeDoc => {
+          const data = mensajeDoc.data();
+          return { ...data, id: mensajeDoc.id, creadoEn: toDate(data.creadoEn) } as MensajeHiloWhatsApp;
+        }));
+      },
+      (snapshotError) => {
+        console.error('Error cargando los mensajes de WhatsApp:', snapshotError);
+        setError('No se pudieron cargar los mensajes de la conversación');
+      }
+    );
+  }, [hiloId]);
+
+  const hiloSeleccionado = hilos.find(hilo => hilo.id === hiloId) ?? null;
+
+  const seleccionarHilo = useCallback((id: string | null) => {
+    setHiloId(id);
+    const hilo = hilos.find(item => item.id === id);
+    if (hilo && hilo.noLeidos > 0) {
+      llamarBandeja('PATCH', { hiloId: hilo.id, leido: true }).catch(patchError => {
+        console.error('Error marcando la conversación como leída:', patchError);
+      });
+    }
+  }, [hilos]);
+
+  const responder = useCallback(async (texto: string) => {
+    if (!hiloId) return;
+    await llamarBandeja('POST', { hiloId, texto });
+  }, [hiloId]);
+
+  const cambiarEstado = useCallback(async (estado: EstadoHiloWhatsApp) => {
+    if (!hiloId) return;
+    await llamarBandeja('PATCH', { hiloId, estado });
+  }, [hiloId]);
+
+  return {
+    hilos,
+    mensajes,
+    hiloSeleccionado,
+    seleccionarHilo,
+    pendientes: hilos.filter(hilo => hilo.estado === 'abierto').length,
+    loading,
+    error,
+    responder,
+    cambiarEstado,
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { compararVariantes } from '@/lib/ab-testing';
+
+describe('compararVariantes', () => {
+  it('sin envíos no hay líder', () => {
+    const resultado = compararVariantes({ a: {}, b: { sent: 0 } }, 'opened');
+
+    expect(resultado.liderId).toBeNull();
+    expect(resultado.nivel).toBe('muestra_insuficiente');
+    expect(resultado.variantes).toHaveLength(2);
+  });
+
+  it('una variante sin enviados no puede liderar', () => {
+    const resultado = compararVariantes({
+      a: { sent: 40, opened: 10 },
+      b: { sent: 40, opened: 20 },
+      c: {},
+    }, 'opened');
+
+    expect(resultado.liderId).toBe('b');
+    expect(resultado.pValue).not.toBeNull();
+    expect(resultado.variantes.map(variante => variante.variantId)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('compara al líder con la segunda que tiene enviados', () => {
+    const resultado = compararVariantes({
+      a: { sent: 40, opened: 0 },
+      b: {},
+    }, 'opened');
+
+    expect(resultado.liderId).toBe('a');
+    expect(resultado.pValue).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { BACKUP_FORMAT_VERSION } from '@/lib/backup';
+import { ALGORITMO, BackupError, desempaquetar, empaquetar, sha256, VERSION_CLAVE } from '@/lib/backup-format';
+import { BackupData, BackupMetadata } from '@/types/backup';
+
+const DATOS: BackupData = {
+  version: BACKUP_FORMAT_VERSION,
+  asociacionId: 'asoc1',
+  exportedAt: '2025-06-15T12:00:00.000Z',
+  collections: {
+    socios: [{ path: 'socios/s1', data: { nombre: 'Ana', asociacionId: 'asoc1' } }],
+  },
+};
+
+// Metadatos como los guarda crearRespaldo para el archivo empaquetado
+function metadatos(backupId: string, archivo: Buffer, checksum: string, cifrado: boolean): BackupMetadata {
+  return {
+    id: backupId,
+    asociacionId: DATOS.asociacionId,
+    checksum,
+    artifactChecksum: sha256(archivo),
+    compressionType: 'gzip',
+    encryptionAlgorithm: cifrado ? ALGORITMO : null,
+    keyVersion: cifrado ? VERSION_CLAVE : null,
+  } as unknown as BackupMetadata;
+}
+
+const problemaDe = (accion: () => unknown) => {
+  try {
+    accion();
+  } catch (error) {
+    return error instanceof BackupError ? error.issue : error;
+  }
+  return null;
+};
+
+describe('empaquetar y desempaquetar', () => {
+  beforeAll(() => {
+    process.env.BACKUP_ENCRYPTION_KEY = Buffer.alloc(32, 7).toString('base64');
+  });
+
+  it('recupera los datos de un archivo comprimido y cifrado', () => {
+    const { archivo, checksum } = empaquetar(DATOS, 'b1', { comprimir: true, cifrar: true });
+
+    expect(archivo.includes(Buffer.from('Ana'))).toBe(false);
+    expect(desempaquetar(archivo, metadatos('b1', archivo, checksum, true))).toEqual(DATOS);
+  });
+
+  it('no descifra un archivo movido a otro respaldo', () => {
+    const { archivo, checksum } = empaquetar(DATOS, 'b1', { comprimir: true, cifrar: true });
+
+    expect(problemaDe(() => desempaquetar(archivo, metadatos('b2', archivo, checksum, true)))).toBe('corruption');
+  });
+
+  it('detecta un archivo alterado', () => {
+    const { archivo, checksum } = empaquetar(DATOS, 'b1', { comprimir: true, cifrar: false });
+    const meta = metadatos('b1', archivo, checksum, false);
+    const alterado = Buffer.from(archivo);
+    alterado[alterado.length - 1] ^= 1;
+
+    expect(problemaDe(() => desempaquetar(alterado, meta))).toBe('checksum_mismatch');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { BACKUP_COLLECTIONS, perteneceAlRespaldo, sobrescribeAlRestaurar } from '@/lib/backup';
+
+describe('sobrescribeAlRestaurar', () => {
+  it('solo pisa los conjuntos propios de la asociación', () => {
+    const pisados = BACKUP_COLLECTIONS.filter(coleccion => sobrescribeAlRestaurar(coleccion, true));
+    expect(pisados).toEqual(['socios', 'cuotas', 'pagos', 'settings']);
+  });
+
+  it('sin overwriteExisting no pisa nada', () => {
+    expect(BACKUP_COLLECTIONS.some(coleccion => sobrescribeAlRestaurar(coleccion, false))).toBe(false);
+  });
+});
+
+describe('perteneceAlRespaldo', () => {
+  it('acepta un comercio vinculado y rechaza uno de otra asociación', () => {
+    const comercio = (vinculadas: string[]) => ({
+      path: 'comercios/c1',
+      data: { nombreComercio: 'Librería Centro', asociacionesVinculadas: vinculadas },
+    });
+
+    expect(perteneceAlRespaldo('comercios', comercio(['asoc1', 'asoc2']), 'asoc1')).toBe(true);
+    expect(perteneceAlRespaldo('comercios', comercio(['asoc2']), 'asoc1')).toBe(false);
+  });
+
+  it('rechaza documentos fuera de su colección', () => {
+    const documento = { path: 'usuarios/s1', data: { asociacionId: 'asoc1' } };
+    expect(perteneceAlRespaldo('socios', documento, 'asoc1')).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { checkBenefitSchedule } from '@/lib/benefit-schedule';
+
+// Viernes 16/10/2026 en UTC
+const viernesA = (hora: string) => new Date(`2026-10-16T${hora}:00Z`);
+const sabadoA = (hora: string) => new Date(`2026-10-17T${hora}:00Z`);
+
+describe('checkBenefitSchedule', () => {
+  const nocheDeViernes = {
+    diasValidez: ['viernes'],
+    horariosValidez: { inicio: '20:00', fin: '02:00' },
+  };
+
+  it('una franja que cruza la medianoche vale el día en que empieza', () => {
+    expect(checkBenefitSchedule(nocheDeViernes, { now: viernesA('22:00'), timezone: 'UTC' }).allowed).toBe(true);
+  });
+
+  it('después de medianoche evalúa el día en que empezó la franja', () => {
+    expect(checkBenefitSchedule(nocheDeViernes, { now: sabadoA('01:30'), timezone: 'UTC' }).allowed).toBe(true);
+  });
+
+  it('la madrugada del viernes pertenece a la franja del jueves', () => {
+    const check = checkBenefitSchedule(nocheDeViernes, { now: viernesA('01:30'), timezone: 'UTC' });
+
+    expect(check).toMatchObject({ allowed: false, code: 'BENEFIT_DAY_NOT_ALLOWED' });
+  });
+
+  it('fuera de la franja rechaza por horario', () => {
+    const check = checkBenefitSchedule(nocheDeViernes, { now: viernesA('15:00'), timezone: 'UTC' });
+
+    expect(check).toMatchObject({ allowed: false, code: 'BENEFIT_OUTSIDE_HOURS' });
+  });
+
+  it('una franja dentro del día evalúa el mismo día', () => {
+    const mañana = { diasValidez: ['sabado'], horariosValidez: { inicio: '09:00', fin: '13:00' } };
+
+    expect(checkBenefitSchedule(mañana, { now: sabadoA('10:00'), timezone: 'UTC' }).allowed).toBe(true);
+    expect(checkBenefitSchedule(mañana, { now: viernesA('10:00'), timezone: 'UTC' }).allowed).toBe(false);
+  });
+});
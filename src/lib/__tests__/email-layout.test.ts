@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { normalizarMarca, renderizarEmail } from '@/lib/email-layout';
+import { ContenidoEmail } from '@/types/email';
+
+const MENSAJE = [
+  'Hola **Ana**, tu cuota de *marzo* ya está disponible.',
+  '',
+  'Podés pagarla desde:',
+  '- La app de la asociación',
+  '• Transferencia bancaria',
+  '✅ Débito automático',
+  '',
+  '---',
+  '',
+  'Más información en https://fidelya.com.ar/cuotas.',
+].join('\n');
+
+const CONTENIDO: ContenidoEmail = {
+  asunto: 'Tu cuota de marzo <2025>',
+  mensaje: MENSAJE,
+  preheader: 'Vence el 10 de marzo',
+};
+
+// Marca con todo configurado y un color principal claro, que lleva texto oscuro
+const MARCA_ASOCIACION = normalizarMarca('Club Atlético Norte', {
+  logoUrl: 'https://club.example.com/logo.png',
+  colorPrimario: '#FACC15',
+  colorFondo: '#FEFCE8',
+  direccionLegal: 'Av. Siempre Viva 742, Rosario',
+  emailContacto: 'socios@club.example.com',
+  textoPie: 'Club Atlético Norte - Desde 1920',
+  urlBaja: 'https://club.example.com/baja',
+});
+
+describe('renderizarEmail', () => {
+  it('con la marca de Fidelya', () => {
+    const email = renderizarEmail(CONTENIDO);
+
+    expect(email.asunto).toBe(CONTENIDO.asunto);
+    expect(email.html).toMatchSnapshot('html');
+    expect(email.texto).toMatchSnapshot('texto');
+  });
+
+  it('con la marca de una asociación', () => {
+    const email = renderizarEmail(CONTENIDO, MARCA_ASOCIACION);
+
+    expect(email.html).toMatchSnapshot('html');
+    expect(email.texto).toMatchSnapshot('texto');
+  });
+
+  it('con un cuerpo HTML propio', () => {
+    const email = renderizarEmail(
+      {
+        asunto: 'Nuevo beneficio',
+        mensaje: 'No se usa cuando hay HTML',
+        html: '<h2>Nuevo beneficio</h2><p>20% en <strong>Librería Centro</strong>.</p><ul><li>Lunes a viernes</li><li>Con la credencial digital</li></ul><p><a href="https://fidelya.com.ar/beneficios">Ver beneficio</a></p>',
+      },
+      MARCA_ASOCIACION
+    );
+
+    expect(email.html).toMatchSnapshot('html');
+    expect(email.texto).toMatchSnapshot('texto');
+  });
+
+  it('es determinístico', () => {
+    expect(renderizarEmail(CONTENIDO, MARCA_ASOCIACION)).toEqual(renderizarEmail(CONTENIDO, MARCA_ASOCIACION));
+  });
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProveedorWhatsAppId } from '@/types/whatsapp';
+
+// Los proveedores reales no participan: solo se registran senders de prueba
+vi.mock('@/services/green-api.service', () => ({ greenAPIService: {} }));
+vi.mock('@/services/callmebot.service', () => ({ callMeBotService: {} }));
+vi.mock('@/services/whatsapp-web.service', () => ({ whatsAppWebService: {} }));
+vi.mock('@/services/notification-providers.service', () => ({ notificationProvidersService: {} }));
+
+import {
+  MockWhatsAppSender,
+  ProveedorRegistrado,
+  ResultadoProveedorWhatsApp,
+  WhatsAppRegistry,
+  WhatsAppSender,
+} from '@/lib/whatsapp-providers';
+
+const TELEFONO = '+5491123456789';
+const APERTURA_MS = 60_000;
+
+// Sender con la respuesta controlada desde el test
+class SenderDePrueba implements WhatsAppSender {
+  readonly nombre: string;
+  readonly costo = 'free' as const;
+  llamadas = 0;
+  falla = false;
+
+  constructor(readonly id: ProveedorWhatsAppId) {
+    this.nombre = `Prueba ${id}`;
+  }
+
+  estaConfigurado(): boolean {
+    return true;
+  }
+
+  async enviar(): Promise<ResultadoProveedorWhatsApp> {
+    this.llamadas++;
+    return this.falla
+      ? { success: false, error: `${this.id} caído` }
+      : { success: true, messageId: `${this.id}_${this.llamadas}` };
+  }
+}
+
+function crearRegistro(senders: WhatsAppSender[], limitePorMinuto = 100) {
+  const reloj = { ahora: 1_000_000 };
+  const proveedores: ProveedorRegistrado[] = senders.map((sender, indice) => ({
+    sender,
+    prioridad: indice + 1,
+    limitePorMinuto,
+  }));
+  const registro = new WhatsAppRegistry(proveedores, {
+    umbralFallas: 3,
+    aperturaMs: APERTURA_MS,
+    ahora: () => reloj.ahora,
+  });
+  return { registro, reloj };
+}
+
+const circuitoDe = (registro: WhatsAppRegistry, id: ProveedorWhatsAppId) =>
+  registro.getSalud().find(salud => salud.id === id)?.circuito;
+
+describe('MockWhatsAppSender', () => {
+  it('en modo flaky falla un envío de cada dos', async () => {
+    const sender = new MockWhatsAppSender('flaky');
+
+    const resultados = [];
+    for (let i = 0; i < 4; i++) {
+      resultados.push((await sender.enviar(TELEFONO, 'Hola')).success);
+    }
+
+    expect(resultados).toEqual([true, false, true, false]);
+    expect(sender.enviados).toHaveLength(2);
+  });
+});
+
+describe('WhatsAppRegistry', () => {
+  // Cada falla deja un aviso en consola
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('abre el circuito después de umbralFallas fallas seguidas', async () => {
+    const { registro } = crearRegistro([new MockWhatsAppSender('fail')]);
+
+    for (let i = 0; i < 3; i++) {
+      expect(circuitoDe(registro, 'mock')).toBe('cerrado');
+      await registro.enviar(TELEFONO, 'Hola');
+    }
+
+    expect(circuitoDe(registro, 'mock')).toBe('abierto');
+    const resultado = await registro.enviar(TELEFONO, 'Hola');
+    expect(resultado.success).toBe(false);
+    expect(resultado.intentos).toEqual([{ proveedor: 'mock', resultado: 'circuito_abierto' }]);
+  });
+
+  it('pasa al siguiente proveedor cuando el primero falla', async () => {
+    const principal = new MockWhatsAppSender('fail');
+    const respaldo = new SenderDePrueba('twilio');
+    const { registro } = crearRegistro([principal, respaldo]);
+
+    const resultado = await registro.enviar(TELEFONO, 'Hola');
+
+    expect(resultado.success).toBe(true);
+    expect(resultado.proveedor).toBe('twilio');
+    expect(resultado.fallbackUsed).toBe(true);
+    expect(resultado.intentos.map(intento => intento.resultado)).toEqual(['fallido', 'enviado']);
+  });
+
+  it('con el circuito abierto saltea al proveedor sin llamarlo', async () => {
+    const principal = new SenderDePrueba('green_api');
+    const respaldo = new SenderDePrueba('twilio');
+    principal.falla = true;
+    const { registro } = crearRegistro([principal, respaldo]);
+
+    for (let i = 0; i < 3; i++) await registro.enviar(TELEFONO, 'Hola');
+    const resultado = await registro.enviar(TELEFONO, 'Hola');
+
+    expect(principal.llamadas).toBe(3);
+    expect(resultado.proveedor).toBe('twilio');
+    expect(resultado.intentos[0]).toEqual({ proveedor: 'green_api', resultado: 'circuito_abierto' });
+  });
+
+  it('pasado el tiempo de apertura cierra el circuito si el envío de prueba sale bien', async () => {
+    const sender = new SenderDePrueba('green_api');
+    sender.falla = true;
+    const { registro, reloj } = crearRegistro([sender]);
+    for (let i = 0; i < 3; i++) await registro.enviar(TELEFONO, 'Hola');
+
+    reloj.ahora += APERTURA_MS;
+    expect(circuitoDe(registro, 'green_api')).toBe('semiabierto');
+
+    sender.falla = false;
+    const resultado = await registro.enviar(TELEFONO, 'Hola');
+
+    expect(resultado.success).toBe(true);
+    expect(circuitoDe(registro, 'green_api')).toBe('cerrado');
+    expect(registro.getSalud()[0].fallasConsecutivas).toBe(0);
+  });
+
+  it('una falla en el envío de prueba vuelve a abrir el circuito', async () => {
+    const sender = new SenderDePrueba('green_api');
+    sender.falla = true;
+    const { registro, reloj } = crearRegistro([sender]);
+    for (let i = 0; i < 3; i++) await registro.enviar(TELEFONO, 'Hola');
+
+    reloj.ahora += APERTURA_MS;
+    await registro.enviar(TELEFONO, 'Hola');
+
+    expect(sender.llamadas).toBe(4);
+    expect(circuitoDe(registro, 'green_api')).toBe('abierto');
+    expect(registro.getSalud()[0].abiertoHasta).toBe(new Date(reloj.ahora + APERTURA_MS).toISOString());
+  });
+
+  it('respeta el límite de envíos por minuto', async () => {
+    const principal = new SenderDePrueba('green_api');
+    const respaldo = new SenderDePrueba('twilio');
+    const { registro, reloj } = crearRegistro([principal, respaldo], 2);
+
+    await registro.enviar(TELEFONO, 'Hola');
+    await registro.enviar(TELEFONO, 'Hola');
+    const limitado = await registro.enviar(TELEFONO, 'Hola');
+
+    expect(limitado.proveedor).toBe('twilio');
+    expect(limitado.intentos[0]).toEqual({ proveedor: 'green_api', resultado: 'limite_tasa' });
+
+    reloj.ahora += 60_000;
+    expect((await registro.enviar(TELEFONO, 'Hola')).proveedor).toBe('green_api');
+  });
+
+  it('no intenta enviar a un número inválido', async () => {
+    const sender = new SenderDePrueba('green_api');
+    const { registro } = crearRegistro([sender]);
+
+    const resultado = await registro.enviar('123', 'Hola');
+
+    expect(resultado.success).toBe(false);
+    expect(sender.llamadas).toBe(0);
+  });
+
+  it('prueba primero el proveedor preferido y usa el resto de respaldo', async () => {
+    const principal = new SenderDePrueba('green_api');
+    const sesion = new SenderDePrueba('baileys');
+    const { registro } = crearRegistro([principal, sesion]);
+
+    expect((await registro.enviar(TELEFONO, 'Hola', undefined, { preferido: 'baileys' })).proveedor).toBe('baileys');
+    expect(principal.llamadas).toBe(0);
+
+    sesion.falla = true;
+    const resultado = await registro.enviar(TELEFONO, 'Hola', undefined, { preferido: 'baileys' });
+    expect(resultado.proveedor).toBe('green_api');
+    expect(resultado.fallbackUsed).toBe(true);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Asignación estable de variantes y comparación de resultados de las pruebas
+ * A/B de campañas, también usadas por procesarNotificacionesProgramadas de
+ * functions/. La variante sale de un hash del socio, así recibe siempre la
+ * misma aunque cambie el orden o el tamaño del público.
+ */
+
+import {
+  EstadisticasVariante,
+  MetricaVariante,
+  NivelSignificancia,
+  ResultadoPruebaAB,
+  ResultadoVariante,
+} from '../types/ab-testing';
+
+// Variante que recibe el mensaje base de la campaña
+export const VARIANTE_CONTROL = 'control';
+
+// Mínimo de enviados por variante para evaluar la diferencia
+export const MUESTRA_MINIMA = 30;
+
+export const METRICAS_VARIANTE: Record<MetricaVariante, string> = {
+  delivered: 'Tasa de entrega',
+  opened: 'Tasa de apertura',
+  clicked: 'Tasa de clics',
+};
+
+export const ESTADISTICAS_VACIAS: EstadisticasVariante = {
+  sent: 0,
+  delivered: 0,
+  opened: 0,
+  clicked: 0,
+  failed: 0,
+};
+
+// FNV-1a de 32 bits
+export function hashEstable(texto: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < texto.length; i++) {
+    hash ^= texto.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Posición del destinatario en [0, 100) para la campaña
+const posicion = (campaignId: string, recipientId: string, sal: string): number =>
+  (hashEstable(`${campaignId}:${sal}:${recipientId}`) % 10000) / 100;
+
+export const enGrupoDePrueba = (campaignId: string, recipientId: string, testPercentage: number): boolean =>
+  posicion(campaignId, recipientId, 'prueba') < testPercentage;
+
+/**
+ * Reparte por porcentajes acumulados; lo que las variantes no cubren recibe
+ * el mensaje base como control.
+ */
+export function asignarVariante(
+  campaignId: string,
+  recipientId: string,
+  variantes: { id: string; percentage: number }[]
+): string {
+  const punto = posicion(campaignId, recipientId, 'variante');
+  let acumulado = 0;
+  for (const variante of variantes) {
+    // El porcentaje llega del documento de la campaña tal como se guardó
+    acumulado += Number(variante.percentage) || 0;
+    if (punto < acumulado) return variante.id;
+  }
+  return VARIANTE_CONTROL;
+}
+
+// Función de distribución normal estándar (Abramowitz y Stegun 7.1.26)
+function normalAcumulada(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Test z de dos proporciones entre la variante líder y la segunda.
+ * Devuelve el p-valor bilateral, o null si no hay diferencia que evaluar.
+ */
+export function pValorDosProporciones(exitos1: number, n1: number, exitos2: number, n2: number): number | null {
+  if (n1 === 0 || n2 === 0) return null;
+  const combinada = (exitos1 + exitos2) / (n1 + n2);
+  const error = Math.sqrt(combinada * (1 - combinada) * (1 / n1 + 1 / n2));
+  if (error === 0) return null;
+  const z = (exitos1 / n1 - exitos2 / n2) / error;
+  return 2 * (1 - normalAcumulada(Math.abs(z)));
+}
+
+/**
+ * Ordena las variantes por la tasa de la métrica. Solo compiten las que ya
+ * tienen enviados: el panel muestra al líder y procesarNotificacionesProgramadas
+ * envía esa misma variante como ganadora.
+ */
+export function compararVariantes(
+  estadisticas: Record<string, Partial<EstadisticasVariante>>,
+  metrica: MetricaVariante
+): ResultadoPruebaAB {
+  const variantes: ResultadoVariante[] = Object.entries(estadisticas)
+    .map(([variantId, stats]) => {
+      const completas = { ...ESTADISTICAS_VACIAS, ...stats };
+      return {
+        variantId,
+        ...completas,
+        rate: completas.sent > 0 ? completas[metrica] / completas.sent : 0,
+      };
+    })
+    .sort((a, b) => b.rate - a.rate || b.sent - a.sent);
+
+  const [lider, segunda] = variantes.filter(variante => variante.sent > 0);
+  if (!lider) {
+    return { variantes, liderId: null, pValue: null, nivel: 'muestra_insuficiente' };
+  }
+
+  if (!segunda || lider.sent < MUESTRA_MINIMA || segunda.sent < MUESTRA_MINIMA) {
+    return { variantes, liderId: lider.variantId, pValue: null, nivel: 'muestra_insuficiente' };
+  }
+
+  const pValue = pValorDosProporciones(lider[metrica], lider.sent, segunda[metrica], segunda.sent);
+  let nivel: NivelSignificancia = 'no_concluyente';
+  if (pValue !== null && pValue < 0.05) nivel = 'significativo';
+  else if (pValue !== null && pValue < 0.1) nivel = 'tendencia';
+
+  return { variantes, liderId: lider.variantId, pValue, nivel };
+}
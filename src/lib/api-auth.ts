@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+
+export interface ApiRequestUser {
+  uid: string;
+  role?: string;
+}
+
+/**
+ * Verifica el ID token de Firebase enviado como "Authorization: Bearer <token>"
+ * y resuelve el rol desde la colección de usuarios. Devuelve null si no es válido.
+ */
+export async function getRequestUser(request: NextRequest): Promise<ApiRequestUser | null> {
+  const authorization = request.headers.get('Authorization');
+  const idToken = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+
+  if (!idToken) {
+    return null;
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(idToken);
+    const userDoc = await adminDb.collection(COLLECTIONS.USERS).doc(decoded.uid).get();
+
+    return {
+      uid: decoded.uid,
+      role: (decoded.role as string | undefined) || userDoc.data()?.role,
+    };
+  } catch (error) {
+    console.warn('⚠️ ID token inválido en request API:', error);
+    return null;
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * URL pública de la app en el servidor: base de los links de retorno de los
+ * checkouts y de las URLs que firman los proveedores en sus webhooks.
+ */
+export const getAppUrl = (): string =>
+  process.env.NEXT_PUBLIC_APP_URL ||
+  (process.env.NEXT_PUBLIC_VERCEL_URL ? `https://${process.env.NEXT_PUBLIC_VERCEL_URL}` : 'http://localhost:3000');
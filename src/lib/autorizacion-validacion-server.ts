@@ -0,0 +1,123 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { ApiRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import { QR_TOKEN_ERROR_MESSAGES, getQRSigningSecret, verifyQRToken } from '@/lib/qr-token';
+import { isQRTokenRevoked } from '@/lib/qr-token-server';
+import { resolverCredencialSocio } from '@/lib/socio-credential-server';
+import { AutorizacionValidacion, MetodoValidacion } from '@/types/validacion';
+
+// Plazo para registrar la validación después de autorizarla
+const VIGENCIA_AUTORIZACION_MS = 5 * 60 * 1000;
+
+export interface PedidoAutorizacion {
+  socioId: string;
+  comercioId: string;
+  beneficioId?: string;
+  // Token del QR del comercio que escaneó el socio (null: QR sin firma)
+  qrToken?: string | null;
+  credencialSocio?: { token?: unknown; code?: unknown; capturadoEn?: unknown };
+}
+
+interface Prueba {
+  metodoValidacion: MetodoValidacion;
+  beneficioId: string | null;
+  capturadoEn: number | null;
+}
+
+export class AutorizacionValidacionError extends Error {
+  readonly codigo: 400 | 403;
+
+  constructor(message: string, codigo: AutorizacionValidacionError['codigo'] = 400) {
+    super(message);
+    this.name = 'AutorizacionValidacionError';
+    this.codigo = codigo;
+  }
+}
+
+export const isAutorizacionValidacionError = (error: unknown): error is AutorizacionValidacionError =>
+  error instanceof AutorizacionValidacionError;
+
+// El socio escaneó el QR vigente del comercio
+async function probarConQR(user: ApiRequestUser, pedido: PedidoAutorizacion): Promise<Prueba> {
+  if (user.uid !== pedido.socioId) {
+    throw new AutorizacionValidacionError('Solo el socio puede validar con el QR del comercio', 403);
+  }
+
+  const result = await verifyQRToken(pedido.qrToken, getQRSigningSecret());
+  if (!result.valid) {
+    throw new AutorizacionValidacionError(QR_TOKEN_ERROR_MESSAGES[result.code]);
+  }
+  if (await isQRTokenRevoked(result.payload)) {
+    throw new AutorizacionValidacionError(QR_TOKEN_ERROR_MESSAGES.QR_TOKEN_REVOKED);
+  }
+
+  const beneficioQR = result.payload.b || null;
+  if (result.payload.c !== pedido.comercioId || (beneficioQR && pedido.beneficioId && beneficioQR !== pedido.beneficioId)) {
+    throw new AutorizacionValidacionError(QR_TOKEN_ERROR_MESSAGES.QR_TOKEN_MISMATCH);
+  }
+
+  return { metodoValidacion: 'qr_comercio', beneficioId: beneficioQR ?? pedido.beneficioId ?? null, capturadoEn: null };
+}
+
+// El comercio presentó la credencial del socio; se consume acá
+async function probarConCredencial(user: ApiRequestUser, pedido: PedidoAutorizacion): Promise<Prueba> {
+  if (user.role !== 'comercio' || user.uid !== pedido.comercioId) {
+    throw new AutorizacionValidacionError('Solo el comercio puede validar la credencial de un socio', 403);
+  }
+
+  const credencial = await resolverCredencialSocio(pedido.credencialSocio ?? {}, pedido.comercioId, {
+    consumir: true,
+    socioId: pedido.socioId,
+  });
+  return {
+    metodoValidacion: credencial.capturadoEn !== null ? 'credencial_socio_offline' : 'credencial_socio',
+    beneficioId: pedido.beneficioId ?? null,
+    capturadoEn: credencial.capturadoEn,
+  };
+}
+
+/**
+ * Autoriza una validación antes de registrarla. Solo se valida con una
+ * prueba de que el socio está en el comercio: el QR firmado del comercio o
+ * la credencial del socio. Las reglas de Firestore exigen la autorización
+ * para registrar una validación exitosa, y los puntos solo se acreditan a
+ * validaciones autorizadas.
+ *
+ * La credencial del socio se consume acá, en una transacción: si no se
+ * puede consumir la validación no se registra, y dos validaciones
+ * simultáneas no pueden usar la misma credencial. Un rechazo posterior
+ * (horario, límites) no la devuelve; el socio muestra un código nuevo.
+ */
+export async function autorizarValidacion(
+  user: ApiRequestUser,
+  pedido: PedidoAutorizacion
+): Promise<AutorizacionValidacion> {
+  let prueba: Prueba;
+  if (pedido.credencialSocio) {
+    prueba = await probarConCredencial(user, pedido);
+  } else if (pedido.qrToken !== undefined) {
+    prueba = await probarConQR(user, pedido);
+  } else {
+    throw new AutorizacionValidacionError(
+      'Escaneá el QR del comercio o mostrá tu credencial para validar el beneficio'
+    );
+  }
+
+  const autorizacionRef = adminDb.collection(COLLECTIONS.AUTORIZACIONES_VALIDACION).doc();
+  await autorizacionRef.set({
+    socioId: pedido.socioId,
+    comercioId: pedido.comercioId,
+    beneficioId: prueba.beneficioId,
+    metodoValidacion: prueba.metodoValidacion,
+    capturadoEn: prueba.capturadoEn !== null ? Timestamp.fromMillis(prueba.capturadoEn) : null,
+    creadoEn: Timestamp.now(),
+    expiraEn: Timestamp.fromMillis(Date.now() + VIGENCIA_AUTORIZACION_MS),
+  });
+
+  return {
+    autorizacionId: autorizacionRef.id,
+    metodoValidacion: prueba.metodoValidacion,
+    capturadoEn: prueba.capturadoEn,
+  };
+}
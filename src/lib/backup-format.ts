@@ -0,0 +1,190 @@
+import { createCipheriv, createDecipheriv, createHash, hkdfSync, randomBytes } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import type { DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { COLLECTIONS } from './constants';
+import { BACKUP_FORMAT_VERSION, codificarValor } from './backup';
+import { BackupCollection, BackupData, BackupDocument, BackupIssue, BackupMetadata } from '../types/backup';
+
+/**
+ * Formato del archivo de un respaldo, compartido por la API de respaldos y
+ * los respaldos automáticos de functions: un respaldo programado se
+ * verifica, restaura y descarga igual que uno manual. Solo usa el Admin SDK
+ * que recibe, sin inicializar ninguna app.
+ *
+ * La clave de cada asociación se deriva con HKDF de BACKUP_ENCRYPTION_KEY
+ * (32 bytes en base64), así que no hay claves guardadas en Firestore. El
+ * archivo cifrado es iv (12 bytes) + tag (16 bytes) + datos, y el tag cubre
+ * también la asociación y el id del respaldo: un archivo movido a otro
+ * respaldo no descifra.
+ */
+
+export const ALGORITMO = 'aes-256-gcm';
+export const VERSION_CLAVE = 1;
+const LARGO_IV = 12;
+const LARGO_TAG = 16;
+
+export class BackupError extends Error {
+  readonly codigo: 400 | 403 | 404 | 409 | 500;
+  readonly issue?: BackupIssue['type'];
+
+  constructor(message: string, codigo: BackupError['codigo'] = 500, issue?: BackupIssue['type']) {
+    super(message);
+    this.name = 'BackupError';
+    this.codigo = codigo;
+    this.issue = issue;
+  }
+}
+
+export const isBackupError = (error: unknown): error is BackupError => error instanceof BackupError;
+
+function claveAsociacion(asociacionId: string, version: number): Buffer {
+  const maestra = Buffer.from(process.env.BACKUP_ENCRYPTION_KEY || '', 'base64');
+  if (maestra.length < 32) {
+    throw new BackupError('Falta BACKUP_ENCRYPTION_KEY (32 bytes en base64) para cifrar los respaldos');
+  }
+  return Buffer.from(hkdfSync('sha256', maestra, `fidelya-backups-v${version}`, `asociacion:${asociacionId}`, 32));
+}
+
+export const sha256 = (datos: Buffer): string => createHash('sha256').update(datos).digest('hex');
+
+const datosAdicionales = (asociacionId: string, backupId: string): Buffer =>
+  Buffer.from(`${asociacionId}:${backupId}`);
+
+export const rutaDelArchivo = (
+  asociacionId: string,
+  backupId: string,
+  opciones: { comprimir: boolean; cifrar: boolean }
+): string =>
+  `backups/${asociacionId}/${backupId}.json${opciones.comprimir ? '.gz' : ''}${opciones.cifrar ? '.enc' : ''}`;
+
+const aDocumentos = (snapshots: DocumentSnapshot[]): BackupDocument[] =>
+  snapshots
+    .filter(snapshot => snapshot.exists)
+    .map(snapshot => ({
+      path: snapshot.ref.path,
+      data: codificarValor(snapshot.data()) as Record<string, unknown>,
+    }));
+
+async function exportarColeccion(
+  db: Firestore,
+  coleccion: BackupCollection,
+  asociacionId: string
+): Promise<BackupDocument[]> {
+  const porAsociacion = (nombre: string) =>
+    db.collection(nombre).where('asociacionId', '==', asociacionId).get();
+
+  switch (coleccion) {
+    case 'socios':
+      return aDocumentos((await porAsociacion(COLLECTIONS.SOCIOS)).docs);
+    case 'validaciones':
+      return aDocumentos((await porAsociacion(COLLECTIONS.VALIDACIONES)).docs);
+    case 'cuotas':
+      return aDocumentos((await porAsociacion(COLLECTIONS.CUOTAS)).docs);
+    case 'pagos':
+      return aDocumentos((await porAsociacion(COLLECTIONS.PAGOS_CUOTAS)).docs);
+    case 'comercios':
+      return aDocumentos((await db.collection(COLLECTIONS.COMERCIOS)
+        .where('asociacionesVinculadas', 'array-contains', asociacionId).get()).docs);
+    case 'beneficios':
+      return aDocumentos((await db.collection(COLLECTIONS.BENEFICIOS)
+        .where('asociacionesDisponibles', 'array-contains', asociacionId).get()).docs);
+    case 'settings': {
+      const [asociacion, fidelizacion, configuraciones] = await Promise.all([
+        db.collection(COLLECTIONS.ASOCIACIONES).doc(asociacionId).get(),
+        db.collection(COLLECTIONS.CONFIGURACION_FIDELIZACION).doc(asociacionId).get(),
+        porAsociacion(COLLECTIONS.BACKUP_CONFIGS),
+      ]);
+      return aDocumentos([asociacion, fidelizacion, ...configuraciones.docs]);
+    }
+  }
+}
+
+/**
+ * Exporta los conjuntos elegidos de la asociación con los tipos de
+ * Firestore ya codificados
+ */
+export async function exportarDatos(
+  db: Firestore,
+  asociacionId: string,
+  colecciones: BackupCollection[]
+): Promise<BackupData> {
+  const exportadas = await Promise.all(
+    colecciones.map(async coleccion => [coleccion, await exportarColeccion(db, coleccion, asociacionId)] as const)
+  );
+  return {
+    version: BACKUP_FORMAT_VERSION,
+    asociacionId,
+    exportedAt: new Date().toISOString(),
+    collections: Object.fromEntries(exportadas),
+  };
+}
+
+/**
+ * Archivo del respaldo: JSON, comprimido y cifrado según las opciones
+ */
+export function empaquetar(
+  datos: BackupData,
+  backupId: string,
+  opciones: { comprimir: boolean; cifrar: boolean }
+): { archivo: Buffer; checksum: string } {
+  const json = Buffer.from(JSON.stringify(datos));
+  let archivo = opciones.comprimir ? gzipSync(json) : json;
+
+  if (opciones.cifrar) {
+    const iv = randomBytes(LARGO_IV);
+    const cipher = createCipheriv(ALGORITMO, claveAsociacion(datos.asociacionId, VERSION_CLAVE), iv);
+    cipher.setAAD(datosAdicionales(datos.asociacionId, backupId));
+    const cifrado = Buffer.concat([cipher.update(archivo), cipher.final()]);
+    archivo = Buffer.concat([iv, cipher.getAuthTag(), cifrado]);
+  }
+
+  return { archivo, checksum: sha256(json) };
+}
+
+/**
+ * Recupera los datos de un archivo verificando, en orden, el checksum del
+ * archivo guardado, el tag de GCM y el checksum de los datos
+ */
+export function desempaquetar(archivo: Buffer, backup: BackupMetadata): BackupData {
+  if (backup.artifactChecksum && sha256(archivo) !== backup.artifactChecksum) {
+    throw new BackupError('El archivo del respaldo no coincide con su checksum', 409, 'checksum_mismatch');
+  }
+
+  let contenido = archivo;
+  if (backup.encryptionAlgorithm) {
+    try {
+      const decipher = createDecipheriv(
+        ALGORITMO,
+        claveAsociacion(backup.asociacionId, backup.keyVersion || VERSION_CLAVE),
+        archivo.subarray(0, LARGO_IV)
+      );
+      decipher.setAAD(datosAdicionales(backup.asociacionId, backup.id));
+      decipher.setAuthTag(archivo.subarray(LARGO_IV, LARGO_IV + LARGO_TAG));
+      contenido = Buffer.concat([decipher.update(archivo.subarray(LARGO_IV + LARGO_TAG)), decipher.final()]);
+    } catch (error) {
+      if (isBackupError(error)) throw error;
+      throw new BackupError('No se pudo descifrar el respaldo: el archivo fue alterado', 409, 'corruption');
+    }
+  }
+
+  let json: Buffer;
+  try {
+    json = backup.compressionType === 'gzip' ? gunzipSync(contenido) : contenido;
+  } catch {
+    throw new BackupError('No se pudo descomprimir el respaldo', 409, 'corruption');
+  }
+
+  if (sha256(json) !== backup.checksum) {
+    throw new BackupError('Los datos del respaldo no coinciden con su checksum', 409, 'checksum_mismatch');
+  }
+
+  try {
+    const datos = JSON.parse(json.toString('utf8')) as BackupData;
+    if (datos.asociacionId !== backup.asociacionId || typeof datos.collections !== 'object') {
+      throw new Error('Formato inesperado');
+    }
+    return datos;
+  } catch {
+    throw new BackupError('El contenido del respaldo no tiene un formato válido', 409, 'invalid_format');
+  }
+}
@@ -0,0 +1,367 @@
+import { gzipSync } from 'zlib';
+import { DocumentReference, FieldValue, GeoPoint, Timestamp } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import adminApp, { adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+import {
+  BACKUP_FORMAT_VERSION,
+  coleccionesARestaurar,
+  contarRegistros,
+  decodificarValor,
+  DEFAULT_BACKUP_CONFIG,
+  FabricaValores,
+  perteneceAlRespaldo,
+  sobrescribeAlRestaurar,
+} from '@/lib/backup';
+import {
+  ALGORITMO,
+  BackupError,
+  desempaquetar,
+  empaquetar,
+  exportarDatos,
+  isBackupError,
+  rutaDelArchivo,
+  sha256,
+  VERSION_CLAVE,
+} from '@/lib/backup-format';
+import {
+  BackupCollection,
+  BackupConfig,
+  BackupData,
+  BackupDocument,
+  BackupIssue,
+  BackupMetadata,
+  BackupVerification,
+  RestoreOptions,
+  RestoreResult,
+} from '@/types/backup';
+
+/**
+ * Respaldos de una asociación del lado del servidor. Los datos se exportan
+ * con el Admin SDK y se empaquetan con el formato de backup-format.ts antes
+ * de subirlos al bucket de Storage. Con FIREBASE_STORAGE_EMULATOR_HOST
+ * definido el Admin SDK usa el emulador.
+ */
+
+// Escrituras por lote al restaurar; también el tamaño de cada getAll
+const ESCRITURAS_POR_LOTE = 450;
+
+// La fecha viaja como ISO en la respuesta de la API
+export type VerificacionRespaldo = Omit<BackupVerification, 'verifiedAt'> & { verifiedAt: string };
+
+const backups = () => adminDb.collection(COLLECTIONS.BACKUPS);
+
+function bucket() {
+  const nombre = process.env.FIREBASE_BACKUP_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+  if (!nombre) {
+    throw new BackupError('No hay un bucket configurado para los respaldos (FIREBASE_BACKUP_BUCKET)');
+  }
+  return getStorage(adminApp).bucket(nombre);
+}
+
+const fabricaAdmin: FabricaValores = {
+  timestamp: (seconds, nanoseconds) => new Timestamp(seconds, nanoseconds),
+  geopoint: (latitude, longitude) => new GeoPoint(latitude, longitude),
+  referencia: path => adminDb.doc(path),
+};
+
+async function leerRespaldo(backupId: string): Promise<BackupMetadata> {
+  const backupDoc = await backups().doc(backupId).get();
+  if (!backupDoc.exists) {
+    throw new BackupError('Respaldo no encontrado', 404);
+  }
+  return { ...backupDoc.data(), id: backupDoc.id } as BackupMetadata;
+}
+
+async function descargarDatos(backup: BackupMetadata): Promise<BackupData> {
+  if (backup.status !== 'completed' && backup.status !== 'corrupted') {
+    throw new BackupError('El respaldo no está completo', 409);
+  }
+  if (!backup.storagePath) {
+    throw new BackupError('El respaldo no tiene un archivo guardado', 409, 'missing_data');
+  }
+
+  let archivo: Buffer;
+  try {
+    [archivo] = await bucket().file(backup.storagePath).download();
+  } catch (error) {
+    if (isBackupError(error)) throw error;
+    throw new BackupError('No se encontró el archivo del respaldo en el almacenamiento', 409, 'missing_data');
+  }
+  return desempaquetar(archivo, backup);
+}
+
+/**
+ * Configuración de respaldos de la asociación, completada con los valores
+ * por defecto
+ */
+export async function leerConfiguracion(asociacionId: string): Promise<BackupConfig> {
+  const snapshot = await adminDb.collection(COLLECTIONS.BACKUP_CONFIGS)
+    .where('asociacionId', '==', asociacionId)
+    .limit(1)
+    .get();
+  return { ...DEFAULT_BACKUP_CONFIG, ...(snapshot.empty ? {} : snapshot.docs[0].data() as Partial<BackupConfig>) };
+}
+
+/**
+ * Solo la asociación dueña y los administradores operan sus respaldos
+ */
+export async function obtenerRespaldoAutorizado(
+  backupId: string,
+  user: { uid: string; role?: string }
+): Promise<BackupMetadata> {
+  const backup = await leerRespaldo(backupId);
+  if (backup.asociacionId !== user.uid && user.role !== 'admin') {
+    throw new BackupError('No tenés acceso a este respaldo', 403);
+  }
+  return backup;
+}
+
+export interface CrearRespaldoParams {
+  asociacionId: string;
+  createdBy: string;
+  name: string;
+  description?: string | null;
+  type: BackupMetadata['type'];
+  colecciones: BackupCollection[];
+  comprimir: boolean;
+  cifrar: boolean;
+  tags?: string[];
+}
+
+/**
+ * Exporta, empaqueta y sube un respaldo. El documento se crea como
+ * 'creating' antes de exportar, así un fallo queda registrado como 'failed'
+ */
+export async function crearRespaldo(params: CrearRespaldoParams): Promise<BackupMetadata> {
+  const backupRef = backups().doc();
+  const storagePath = rutaDelArchivo(params.asociacionId, backupRef.id, { comprimir: params.comprimir, cifrar: params.cifrar });
+
+  await backupRef.set({
+    name: params.name,
+    description: params.description || null,
+    createdAt: FieldValue.serverTimestamp(),
+    createdBy: params.createdBy,
+    asociacionId: params.asociacionId,
+    type: params.type,
+    status: 'creating',
+    size: 0,
+    recordCount: 0,
+    version: BACKUP_FORMAT_VERSION,
+    checksum: '',
+    artifactChecksum: '',
+    tags: params.tags || [],
+    isEncrypted: params.cifrar,
+    encryptionAlgorithm: params.cifrar ? ALGORITMO : null,
+    keyVersion: params.cifrar ? VERSION_CLAVE : null,
+    compressionType: params.comprimir ? 'gzip' : 'none',
+    storageLocation: '',
+    storagePath,
+    collections: params.colecciones,
+    recordCounts: {},
+    verificationStatus: 'pending',
+  });
+
+  try {
+    const datos = await exportarDatos(adminDb, params.asociacionId, params.colecciones);
+
+    const { archivo, checksum } = empaquetar(datos, backupRef.id, { comprimir: params.comprimir, cifrar: params.cifrar });
+    const archivoBucket = bucket().file(storagePath);
+    await archivoBucket.save(archivo, {
+      resumable: false,
+      contentType: 'application/octet-stream',
+      metadata: { metadata: { asociacionId: params.asociacionId, backupId: backupRef.id, checksum } },
+    });
+
+    const { total, porColeccion } = contarRegistros(datos.collections);
+    const completado = {
+      status: 'completed' as const,
+      size: archivo.length,
+      recordCount: total,
+      recordCounts: porColeccion,
+      checksum,
+      artifactChecksum: sha256(archivo),
+      storageLocation: `gs://${archivoBucket.bucket.name}/${storagePath}`,
+    };
+    await backupRef.update(completado);
+
+    return await leerRespaldo(backupRef.id);
+  } catch (error) {
+    const mensaje = error instanceof Error ? error.message : 'Error desconocido';
+    await backupRef.update({ status: 'failed', error: mensaje });
+    throw isBackupError(error) ? error : new BackupError(`No se pudo crear el respaldo: ${mensaje}`);
+  }
+}
+
+/**
+ * Descarga el respaldo, verifica checksums y cifrado, y que cada documento
+ * pertenezca a la asociación y esté contado en los metadatos
+ */
+export async function verificarRespaldo(backup: BackupMetadata): Promise<VerificacionRespaldo> {
+  const issues: BackupIssue[] = [];
+  let recordsVerified = 0;
+
+  try {
+    const datos = await descargarDatos(backup);
+    (Object.entries(datos.collections) as [BackupCollection, BackupDocument[]][]).forEach(([coleccion, documentos]) => {
+      const ajenos = documentos.filter(documento => !perteneceAlRespaldo(coleccion, documento, backup.asociacionId));
+      recordsVerified += documentos.length - ajenos.length;
+
+      if (ajenos.length > 0) {
+        issues.push({
+          type: 'invalid_format',
+          severity: 'high',
+          description: `${ajenos.length} documento(s) de ${coleccion} no pertenecen a la asociación`,
+          affectedRecords: ajenos.slice(0, 20).map(documento => documento.path),
+          suggestedAction: 'No restaurar este respaldo y crear uno nuevo',
+        });
+      }
+      if (backup.recordCounts?.[coleccion] !== undefined && backup.recordCounts[coleccion] !== documentos.length) {
+        issues.push({
+          type: 'missing_data',
+          severity: 'high',
+          description: `${coleccion}: se esperaban ${backup.recordCounts[coleccion]} documentos y hay ${documentos.length}`,
+          suggestedAction: 'Crear un respaldo nuevo',
+        });
+      }
+    });
+  } catch (error) {
+    if (!isBackupError(error) || !error.issue) throw error;
+    issues.push({
+      type: error.issue,
+      severity: 'critical',
+      description: error.message,
+      suggestedAction: 'El respaldo no se puede restaurar; usá otro respaldo',
+    });
+  }
+
+  const estado: BackupVerification['status'] = issues.some(issue => issue.severity === 'critical')
+    ? 'failed'
+    : issues.length > 0 ? 'warning' : 'passed';
+  const verifiedAt = Timestamp.now();
+
+  await backups().doc(backup.id).update({
+    lastVerified: verifiedAt,
+    verificationStatus: estado === 'passed' ? 'verified' : 'failed',
+    ...(estado === 'failed' ? { status: 'corrupted' } : {}),
+  });
+
+  return {
+    id: `verification_${verifiedAt.toMillis()}`,
+    backupId: backup.id,
+    verifiedAt: verifiedAt.toDate().toISOString(),
+    status: estado,
+    issues,
+    dataIntegrity: backup.recordCount > 0 ? Math.round((recordsVerified / backup.recordCount) * 100) : 100,
+    recordsVerified,
+    recordsTotal: backup.recordCount,
+  };
+}
+
+async function escribirDocumentos(
+  documentos: BackupDocument[],
+  sobrescribir: boolean
+): Promise<{ escritos: number; omitidos: number }> {
+  let escritos = 0;
+  let omitidos = 0;
+
+  for (let i = 0; i < documentos.length; i += ESCRITURAS_POR_LOTE) {
+    const lote = documentos.slice(i, i + ESCRITURAS_POR_LOTE);
+    const refs: DocumentReference[] = lote.map(documento => adminDb.doc(documento.path));
+    const existentes = sobrescribir
+      ? new Set<string>()
+      : new Set((await adminDb.getAll(...refs)).filter(snapshot => snapshot.exists).map(snapshot => snapshot.ref.path));
+
+    const batch = adminDb.batch();
+    lote.forEach((documento, indice) => {
+      if (existentes.has(documento.path)) {
+        omitidos++;
+        return;
+      }
+      batch.set(refs[indice], decodificarValor(documento.data, fabricaAdmin) as Record<string, unknown>);
+      escritos++;
+    });
+    await batch.commit();
+  }
+
+  return { escritos, omitidos };
+}
+
+/**
+ * Restaura los conjuntos elegidos. Los documentos que no están en el
+ * respaldo no se borran; los existentes solo se pisan con overwriteExisting
+ * y nunca en los conjuntos compartidos con los comercios
+ */
+export async function restaurarRespaldo(
+  backup: BackupMetadata,
+  options: RestoreOptions,
+  actorId: string
+): Promise<RestoreResult> {
+  const seleccion = coleccionesARestaurar(options, backup.collections || []);
+  if (!seleccion.ok) {
+    throw new BackupError(seleccion.error, 400);
+  }
+
+  // Siempre se verifica el checksum antes de escribir
+  const datos = await descargarDatos(backup);
+
+  const documentos = seleccion.colecciones.map(coleccion => {
+    const todos = datos.collections[coleccion] || [];
+    const propios = todos.filter(documento => perteneceAlRespaldo(coleccion, documento, backup.asociacionId));
+    if (options.validateData && propios.length !== todos.length) {
+      throw new BackupError(
+        `El respaldo tiene ${todos.length - propios.length} documento(s) de ${coleccion} que no pertenecen a la asociación`,
+        409,
+        'invalid_format'
+      );
+    }
+    return [coleccion, propios] as const;
+  });
+
+  let preRestoreBackupId: string | undefined;
+  if (options.createBackupBeforeRestore) {
+    const previo = await crearRespaldo({
+      asociacionId: backup.asociacionId,
+      createdBy: actorId,
+      name: `Antes de restaurar "${backup.name}"`,
+      description: 'Respaldo automático antes de una restauración',
+      type: 'automatic',
+      colecciones: seleccion.colecciones,
+      comprimir: true,
+      cifrar: backup.isEncrypted,
+      tags: ['pre-restore'],
+    });
+    preRestoreBackupId = previo.id;
+  }
+
+  const result: RestoreResult = { restored: {}, skipped: {}, preRestoreBackupId };
+  for (const [coleccion, propios] of documentos) {
+    const { escritos, omitidos } = await escribirDocumentos(
+      propios,
+      sobrescribeAlRestaurar(coleccion, options.overwriteExisting)
+    );
+    result.restored[coleccion] = escritos;
+    result.skipped[coleccion] = omitidos;
+  }
+
+  await backups().doc(backup.id).update({
+    lastVerified: Timestamp.now(),
+    verificationStatus: 'verified',
+  });
+
+  return result;
+}
+
+/**
+ * Datos del respaldo, ya verificados, como JSON comprimido para descargar
+ */
+export async function exportarParaDescarga(backup: BackupMetadata): Promise<Buffer> {
+  return gzipSync(Buffer.from(JSON.stringify(await descargarDatos(backup))));
+}
+
+export async function eliminarRespaldo(backup: BackupMetadata): Promise<void> {
+  if (backup.storagePath) {
+    await bucket().file(backup.storagePath).delete({ ignoreNotFound: true });
+  }
+  await backups().doc(backup.id).delete();
+}
@@ -0,0 +1,208 @@
+import { COLLECTIONS } from './constants';
+import { BackupCollection, BackupConfig, BackupDocument, RestoreOptions } from '../types/backup';
+
+/**
+ * Reglas de los respaldos de una asociación: qué entra en cada conjunto de
+ * datos, qué se restaura según las opciones y cómo se guardan en JSON los
+ * tipos de Firestore para poder reconstruirlos al restaurar.
+ */
+
+export const BACKUP_FORMAT_VERSION = '2.0.0';
+
+export const BACKUP_COLLECTIONS: BackupCollection[] = [
+  'socios',
+  'comercios',
+  'beneficios',
+  'validaciones',
+  'cuotas',
+  'pagos',
+  'settings',
+];
+
+// Documentos que también son de los comercios o de otras asociaciones: se
+// restauran si faltan, pero nunca se pisan con los del respaldo
+export const BACKUP_COLECCIONES_COMPARTIDAS: BackupCollection[] = ['comercios', 'beneficios', 'validaciones'];
+
+export const BACKUP_COLLECTION_LABELS: Record<BackupCollection, string> = {
+  socios: 'Socios',
+  comercios: 'Comercios',
+  beneficios: 'Beneficios',
+  validaciones: 'Validaciones',
+  cuotas: 'Cuotas',
+  pagos: 'Pagos',
+  settings: 'Configuración',
+};
+
+export const DEFAULT_BACKUP_CONFIG: BackupConfig = {
+  autoBackupEnabled: false,
+  backupFrequency: 'weekly',
+  backupTime: '02:00',
+  maxBackups: 10,
+  compressionEnabled: true,
+  encryptionEnabled: true,
+  includeSettings: true,
+  includeCustomData: false,
+  retentionDays: 90,
+  notificationsEnabled: true,
+};
+
+/**
+ * Conjuntos que incluye un respaldo nuevo según la configuración
+ */
+export function coleccionesDelRespaldo(config: Pick<BackupConfig, 'includeSettings'>): BackupCollection[] {
+  return BACKUP_COLLECTIONS.filter(coleccion => coleccion !== 'settings' || config.includeSettings);
+}
+
+/**
+ * Conjuntos que se restauran con las opciones elegidas, entre los que tiene
+ * el respaldo. Devuelve un error si no queda ninguno
+ */
+export function coleccionesARestaurar(
+  options: Pick<RestoreOptions, 'restoreType' | 'selectedFields'>,
+  disponibles: BackupCollection[]
+): { ok: true; colecciones: BackupCollection[] } | { ok: false; error: string } {
+  let pedidas: BackupCollection[];
+  switch (options.restoreType) {
+    case 'full':
+      pedidas = disponibles;
+      break;
+    case 'socios_only':
+      pedidas = ['socios'];
+      break;
+    case 'settings_only':
+      pedidas = ['settings'];
+      break;
+    case 'selective':
+      pedidas = (options.selectedFields || []).filter(coleccion => BACKUP_COLLECTIONS.includes(coleccion));
+      if (pedidas.length === 0) {
+        return { ok: false, error: 'Elegí al menos un conjunto de datos para restaurar' };
+      }
+      break;
+    default:
+      return { ok: false, error: 'Tipo de restauración no válido' };
+  }
+
+  const colecciones = pedidas.filter(coleccion => disponibles.includes(coleccion));
+  if (colecciones.length === 0) {
+    return {
+      ok: false,
+      error: `El respaldo no incluye ${pedidas.map(coleccion => BACKUP_COLLECTION_LABELS[coleccion]).join(', ')}`,
+    };
+  }
+  return { ok: true, colecciones };
+}
+
+/**
+ * Si la restauración puede pisar los documentos existentes del conjunto.
+ * Solo los de la asociación (socios, cuotas, pagos, configuración)
+ */
+export const sobrescribeAlRestaurar = (coleccion: BackupCollection, overwriteExisting: boolean): boolean =>
+  overwriteExisting && !BACKUP_COLECCIONES_COMPARTIDAS.includes(coleccion);
+
+const incluye = (valor: unknown, asociacionId: string): boolean =>
+  Array.isArray(valor) && valor.includes(asociacionId);
+
+/**
+ * Un documento del respaldo solo se restaura en su colección y si sigue
+ * perteneciendo a la asociación; así un archivo alterado no puede escribir
+ * datos de otra asociación
+ */
+export function perteneceAlRespaldo(
+  coleccion: BackupCollection,
+  documento: BackupDocument,
+  asociacionId: string
+): boolean {
+  const [raiz, id, ...resto] = documento.path.split('/');
+  if (!raiz || !id || resto.length > 0) return false;
+  const data = documento.data;
+
+  switch (coleccion) {
+    case 'socios':
+      return raiz === COLLECTIONS.SOCIOS && data.asociacionId === asociacionId;
+    case 'validaciones':
+      return raiz === COLLECTIONS.VALIDACIONES && data.asociacionId === asociacionId;
+    case 'cuotas':
+      return raiz === COLLECTIONS.CUOTAS && data.asociacionId === asociacionId;
+    case 'pagos':
+      return raiz === COLLECTIONS.PAGOS_CUOTAS && data.asociacionId === asociacionId;
+    case 'comercios':
+      return raiz === COLLECTIONS.COMERCIOS && incluye(data.asociacionesVinculadas, asociacionId);
+    case 'beneficios':
+      return raiz === COLLECTIONS.BENEFICIOS && incluye(data.asociacionesDisponibles, asociacionId);
+    case 'settings':
+      return (
+        ((raiz === COLLECTIONS.ASOCIACIONES || raiz === COLLECTIONS.CONFIGURACION_FIDELIZACION) && id === asociacionId) ||
+        (raiz === COLLECTIONS.BACKUP_CONFIGS && data.asociacionId === asociacionId)
+      );
+    default:
+      return false;
+  }
+}
+
+// Marca de los valores de Firestore que JSON no representa
+const TIPO = '__fidelyaTipo';
+
+export interface FabricaValores {
+  timestamp: (seconds: number, nanoseconds: number) => unknown;
+  geopoint: (latitude: number, longitude: number) => unknown;
+  referencia: (path: string) => unknown;
+}
+
+const esObjeto = (valor: unknown): valor is Record<string, unknown> =>
+  typeof valor === 'object' && valor !== null;
+
+/**
+ * Convierte timestamps, geopuntos, referencias y fechas en objetos JSON
+ * marcados. Reconoce los tipos por su forma para servir con el SDK web y
+ * con el Admin SDK
+ */
+export function codificarValor(valor: unknown): unknown {
+  if (valor instanceof Date) {
+    const ms = valor.getTime();
+    return { [TIPO]: 'timestamp', seconds: Math.floor(ms / 1000), nanoseconds: (ms % 1000) * 1e6 };
+  }
+  if (Array.isArray(valor)) return valor.map(codificarValor);
+  if (!esObjeto(valor)) return valor;
+
+  if (typeof valor.toDate === 'function' && typeof valor.seconds === 'number' && typeof valor.nanoseconds === 'number') {
+    return { [TIPO]: 'timestamp', seconds: valor.seconds, nanoseconds: valor.nanoseconds };
+  }
+  if (typeof valor.latitude === 'number' && typeof valor.longitude === 'number' && typeof valor.isEqual === 'function') {
+    return { [TIPO]: 'geopoint', latitude: valor.latitude, longitude: valor.longitude };
+  }
+  if (typeof valor.path === 'string' && esObjeto(valor.firestore)) {
+    return { [TIPO]: 'referencia', path: valor.path };
+  }
+
+  return Object.fromEntries(Object.entries(valor).map(([clave, campo]) => [clave, codificarValor(campo)]));
+}
+
+export function decodificarValor(valor: unknown, fabrica: FabricaValores): unknown {
+  if (Array.isArray(valor)) return valor.map(item => decodificarValor(item, fabrica));
+  if (!esObjeto(valor)) return valor;
+
+  switch (valor[TIPO]) {
+    case 'timestamp':
+      return fabrica.timestamp(Number(valor.seconds), Number(valor.nanoseconds));
+    case 'geopoint':
+      return fabrica.geopoint(Number(valor.latitude), Number(valor.longitude));
+    case 'referencia':
+      return fabrica.referencia(String(valor.path));
+  }
+
+  return Object.fromEntries(
+    Object.entries(valor).map(([clave, campo]) => [clave, decodificarValor(campo, fabrica)])
+  );
+}
+
+export function contarRegistros(
+  collections: Partial<Record<BackupCollection, BackupDocument[]>>
+): { total: number; porColeccion: Partial<Record<BackupCollection, number>> } {
+  const porColeccion: Partial<Record<BackupCollection, number>> = {};
+  let total = 0;
+  (Object.keys(collections) as BackupCollection[]).forEach(coleccion => {
+    porColeccion[coleccion] = collections[coleccion]?.length || 0;
+    total += porColeccion[coleccion] || 0;
+  });
+  return { total, porColeccion };
+}
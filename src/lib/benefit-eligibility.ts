@@ -0,0 +1,232 @@
+import { collection, doc, getDocs, query, where, Timestamp, Transaction } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { BenefitRestrictionCode, BenefitRestrictionError } from '@/lib/benefit-schedule';
+
+/**
+ * Motor único de elegibilidad de beneficios.
+ *
+ * Decide si un socio puede usar un beneficio a partir de sus asociaciones,
+ * el tipo de acceso del beneficio, los convenios del comercio, los límites
+ * de uso y la vigencia. Lo usan BeneficiosService, ValidacionesService y
+ * QRValidationService para que todos respondan lo mismo.
+ *
+ * Tipos de acceso:
+ * - asociacion: solo socios de una asociación incluida en asociacionesDisponibles
+ *   que además mantenga convenio con el comercio
+ * - publico: cualquier socio
+ * - directo: lo ofrece el comercio por su cuenta a cualquier socio, sin convenio
+ */
+
+export type TipoAccesoBeneficio = 'asociacion' | 'publico' | 'directo';
+
+type DateLike = Timestamp | Date | string | number | null | undefined;
+
+export interface EligibilityBeneficio {
+  comercioId?: string;
+  estado?: string;
+  tipoAcceso?: string;
+  asociacionesDisponibles?: string[];
+  fechaInicio?: DateLike;
+  fechaFin?: DateLike;
+  limiteTotal?: number;
+  usosActuales?: number;
+  limitePorSocio?: number;
+}
+
+export interface EligibilityComercio {
+  asociacionesVinculadas?: string[];
+}
+
+export interface BenefitEligibilityInput {
+  beneficio: EligibilityBeneficio;
+  // Asociaciones activas del socio (hoy los socios tienen a lo sumo una)
+  socioAsociaciones: string[];
+  // Si se omite no se verifican los convenios del comercio
+  comercio?: EligibilityComercio | null;
+  // Si se omite no se verifica limitePorSocio
+  usosDelSocio?: number;
+  now?: Date;
+}
+
+export type BenefitEligibilityResult =
+  | { eligible: true; tipoAcceso: TipoAccesoBeneficio }
+  | { eligible: false; code: BenefitRestrictionCode; message: string };
+
+const toDate = (value: DateLike): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Tipo de acceso efectivo. Manda el tipoAcceso guardado; los beneficios sin
+ * tipoAcceso se interpretan igual que al crearlos: con asociaciones son de
+ * asociación, sin ellas son públicos.
+ */
+export function resolveTipoAcceso(beneficio: EligibilityBeneficio): TipoAccesoBeneficio {
+  if (
+    beneficio.tipoAcceso === 'asociacion' ||
+    beneficio.tipoAcceso === 'publico' ||
+    beneficio.tipoAcceso === 'directo'
+  ) {
+    return beneficio.tipoAcceso;
+  }
+  return beneficio.asociacionesDisponibles?.length ? 'asociacion' : 'publico';
+}
+
+/**
+ * Asociaciones que cuentan para la elegibilidad a partir del documento del socio
+ */
+export function getSocioAsociaciones(socio: { asociacionId?: string | null }): string[] {
+  return socio.asociacionId ? [socio.asociacionId] : [];
+}
+
+const reject = (code: BenefitRestrictionCode, message: string): BenefitEligibilityResult => ({
+  eligible: false,
+  code,
+  message,
+});
+
+/**
+ * Evalúa la elegibilidad sin acceder a Firestore
+ */
+export function evaluateBenefitEligibility(input: BenefitEligibilityInput): BenefitEligibilityResult {
+  const { beneficio, socioAsociaciones, comercio, usosDelSocio } = input;
+  const now = input.now ?? new Date();
+
+  // 1. Estado
+  if (beneficio.estado === 'agotado') {
+    return reject('BENEFIT_EXHAUSTED', 'Este beneficio ha alcanzado su límite de usos');
+  }
+  if (beneficio.estado === 'vencido') {
+    return reject('BENEFIT_EXPIRED', 'Este beneficio ha expirado');
+  }
+  if (beneficio.estado && beneficio.estado !== 'activo') {
+    return reject('BENEFIT_INACTIVE', 'Este beneficio no está disponible actualmente');
+  }
+
+  // 2. Vigencia
+  const fechaInicio = toDate(beneficio.fechaInicio);
+  if (fechaInicio && fechaInicio > now) {
+    return reject('BENEFIT_NOT_STARTED', `Este beneficio estará disponible desde el ${fechaInicio.toLocaleDateString('es-AR')}`);
+  }
+  const fechaFin = toDate(beneficio.fechaFin);
+  if (fechaFin && fechaFin <= now) {
+    return reject('BENEFIT_EXPIRED', 'Este beneficio ha expirado');
+  }
+
+  // 3. Acceso según tipo y convenios
+  const tipoAcceso = resolveTipoAcceso(beneficio);
+  if (tipoAcceso === 'asociacion') {
+    const habilitadas = (beneficio.asociacionesDisponibles ?? [])
+      .filter(asociacionId => socioAsociaciones.includes(asociacionId));
+
+    if (habilitadas.length === 0) {
+      return reject('BENEFIT_ASSOCIATION_NOT_ALLOWED', 'Tu asociación no tiene acceso a este beneficio');
+    }
+
+    if (comercio && !habilitadas.some(asociacionId => comercio.asociacionesVinculadas?.includes(asociacionId))) {
+      return reject('COMERCIO_NOT_LINKED', 'Tu asociación no tiene convenio vigente con este comercio');
+    }
+  }
+
+  // 4. Límites
+  if (beneficio.limiteTotal && (beneficio.usosActuales ?? 0) >= beneficio.limiteTotal) {
+    return reject('BENEFIT_EXHAUSTED', 'Este beneficio ha alcanzado su límite de usos');
+  }
+  if (beneficio.limitePorSocio && usosDelSocio !== undefined && usosDelSocio >= beneficio.limitePorSocio) {
+    return reject(
+      'BENEFIT_SOCIO_LIMIT_REACHED',
+      `Has alcanzado el límite de usos (${beneficio.limitePorSocio}) para este beneficio`
+    );
+  }
+
+  return { eligible: true, tipoAcceso };
+}
+
+/**
+ * Igual que evaluateBenefitEligibility pero lanza BenefitRestrictionError,
+ * pensado para usarse dentro de runTransaction
+ */
+export function assertBenefitEligibility(input: BenefitEligibilityInput): TipoAccesoBeneficio {
+  const result = evaluateBenefitEligibility(input);
+  if (!result.eligible) {
+    throw new BenefitRestrictionError(result.code, result.message);
+  }
+  return result.tipoAcceso;
+}
+
+/**
+ * Los beneficios de tipo puntos solo se obtienen canjeando puntos (ver
+ * /api/canjes); las validaciones en caja o por QR los rechazan
+ */
+export function assertNotPointsReward(beneficio: { tipo?: string; costoPuntos?: number }): void {
+  if (beneficio.tipo === 'puntos') {
+    throw new BenefitRestrictionError(
+      'BENEFIT_REQUIRES_POINTS',
+      `Este beneficio se canjea con ${beneficio.costoPuntos ?? 0} puntos desde la sección Beneficios`
+    );
+  }
+}
+
+/**
+ * Usos registrados del socio para un beneficio, según el historial de usos.
+ * Se filtra por comercio para que la consulta también la pueda hacer el comercio.
+ */
+export async function countSocioBenefitUses(params: {
+  beneficioId: string;
+  socioId: string;
+  comercioId?: string;
+}): Promise<number> {
+  const constraints = [
+    where('beneficioId', '==', params.beneficioId),
+    where('socioId', '==', params.socioId),
+    where('estado', 'in', ['usado', 'validado']),
+  ];
+  if (params.comercioId) {
+    constraints.push(where('comercioId', '==', params.comercioId));
+  }
+
+  const snapshot = await getDocs(query(collection(db, COLLECTIONS.BENEFICIO_USOS), ...constraints));
+  return snapshot.size;
+}
+
+/**
+ * Contador de usos del socio para un beneficio (ID `${beneficioId}_${socioId}`)
+ */
+export const getSocioBenefitCounterRef = (beneficioId: string, socioId: string) =>
+  doc(db, COLLECTIONS.USOS_BENEFICIO_SOCIO, `${beneficioId}_${socioId}`);
+
+/**
+ * Usos del socio para un beneficio leídos dentro de la transacción. Como el
+ * contador se lee y se escribe en la misma transacción, dos validaciones
+ * simultáneas no pueden pasar las dos el límite: Firestore reintenta la
+ * segunda. historial son los usos contados con countSocioBenefitUses, que
+ * cubren los anteriores a que existiera el contador.
+ */
+export async function readSocioBenefitUses(
+  transaction: Transaction,
+  params: { beneficioId: string; socioId: string; historial?: number }
+): Promise<number> {
+  const contador = await transaction.get(getSocioBenefitCounterRef(params.beneficioId, params.socioId));
+  return Math.max(Number(contador.data()?.usos) || 0, params.historial ?? 0);
+}
+
+/**
+ * Registra un uso más en el contador; usos es lo que devolvió readSocioBenefitUses
+ */
+export function incrementSocioBenefitUses(
+  transaction: Transaction,
+  params: { beneficioId: string; socioId: string },
+  usos: number
+): void {
+  transaction.set(getSocioBenefitCounterRef(params.beneficioId, params.socioId), {
+    beneficioId: params.beneficioId,
+    socioId: params.socioId,
+    usos: usos + 1,
+    actualizadoEn: Timestamp.now(),
+  });
+}
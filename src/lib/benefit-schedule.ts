@@ -0,0 +1,244 @@
+/**
+ * Reglas de uso de un beneficio que dependen del momento de la compra:
+ * días válidos, franja horaria y medios de pago habilitados.
+ *
+ * Los días y horarios se evalúan en la zona horaria del comercio, no en la
+ * del dispositivo que valida.
+ */
+
+export const DEFAULT_COMERCIO_TIMEZONE = 'America/Argentina/Buenos_Aires';
+
+export type BenefitRestrictionCode =
+  | 'BENEFIT_NOT_FOUND'
+  // Elegibilidad (ver benefit-eligibility.ts)
+  | 'BENEFIT_INACTIVE'
+  | 'BENEFIT_NOT_STARTED'
+  | 'BENEFIT_EXPIRED'
+  | 'BENEFIT_EXHAUSTED'
+  | 'BENEFIT_SOCIO_LIMIT_REACHED'
+  | 'BENEFIT_ASSOCIATION_NOT_ALLOWED'
+  | 'COMERCIO_NOT_LINKED'
+  // Canje con puntos
+  | 'BENEFIT_REQUIRES_POINTS'
+  | 'INSUFFICIENT_POINTS'
+  // Días, horario y medio de pago
+  | 'BENEFIT_DAY_NOT_ALLOWED'
+  | 'BENEFIT_OUTSIDE_HOURS'
+  | 'BENEFIT_PAYMENT_METHOD_REQUIRED'
+  | 'BENEFIT_PAYMENT_METHOD_NOT_ALLOWED';
+
+export interface BenefitScheduleRules {
+  diasValidez?: string[];
+  horariosValidez?: {
+    inicio: string; // HH:MM
+    fin: string; // HH:MM
+  };
+  mediosPagoHabilitados?: string[];
+}
+
+export interface BenefitScheduleContext {
+  timezone?: string;
+  medioPago?: string | null;
+  now?: Date;
+}
+
+export type BenefitScheduleCheck =
+  | { allowed: true }
+  | { allowed: false; code: BenefitRestrictionCode; message: string };
+
+/**
+ * Error lanzado dentro de las transacciones de validación para que el
+ * código llegue intacto hasta la respuesta
+ */
+export class BenefitRestrictionError extends Error {
+  readonly code: BenefitRestrictionCode;
+
+  constructor(code: BenefitRestrictionCode, message: string) {
+    super(message);
+    this.name = 'BenefitRestrictionError';
+    this.code = code;
+  }
+}
+
+export const isBenefitRestrictionError = (error: unknown): error is BenefitRestrictionError =>
+  error instanceof BenefitRestrictionError;
+
+// Índice 0 = domingo, igual que Date#getDay
+const DIAS_SEMANA = ['domingo', 'lunes', 'martes', 'miercoles', 'jueves', 'viernes', 'sabado'];
+const DIAS_ABREVIADOS = ['dom', 'lun', 'mar', 'mié', 'jue', 'vie', 'sáb'];
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+export const MEDIOS_PAGO_LABELS: Record<string, string> = {
+  efectivo: 'Efectivo',
+  debito: 'Débito',
+  credito: 'Crédito',
+  transferencia: 'Transferencia',
+  mercadopago: 'Mercado Pago',
+  qr: 'QR',
+};
+
+const normalize = (value: string) =>
+  value.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const toDayIndex = (dia: string): number => DIAS_SEMANA.indexOf(normalize(dia));
+
+const parseMinutes = (hhmm: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const formatHour = (hhmm: string) => {
+  const [h, m] = hhmm.split(':');
+  return m === '00' ? String(Number(h)) : `${Number(h)}:${m}`;
+};
+
+/**
+ * Día de la semana (0 = domingo) y minutos desde medianoche en la zona horaria dada
+ */
+export function getLocalDayAndMinutes(now: Date, timezone: string): { day: number; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now);
+  } catch {
+    // Zona horaria inválida guardada en el comercio: usar la predeterminada
+    return getLocalDayAndMinutes(now, DEFAULT_COMERCIO_TIMEZONE);
+  }
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value ?? '';
+  return {
+    day: WEEKDAY_INDEX[get('weekday')] ?? now.getDay(),
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+/**
+ * Describe los días válidos de forma compacta: "lun–vie", "sáb y dom", "lun, mié, vie"
+ */
+export function describeDiasValidez(dias: string[]): string {
+  const indices = Array.from(new Set(dias.map(toDayIndex).filter(i => i >= 0)))
+    // Ordenar de lunes a domingo
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+
+  if (indices.length === 0 || indices.length === 7) return 'todos los días';
+
+  const isRange = indices.every((day, i) => i === 0 || day === (indices[i - 1] + 1) % 7);
+  if (isRange && indices.length > 2) {
+    return `${DIAS_ABREVIADOS[indices[0]]}–${DIAS_ABREVIADOS[indices[indices.length - 1]]}`;
+  }
+
+  const labels = indices.map(i => DIAS_ABREVIADOS[i]);
+  return labels.length === 2 ? labels.join(' y ') : labels.join(', ');
+}
+
+export function describeHorarioValidez(horario: { inicio: string; fin: string }): string {
+  return `${formatHour(horario.inicio)}–${formatHour(horario.fin)}h`;
+}
+
+export function describeMediosPago(medios: string[]): string {
+  return medios.map(medio => MEDIOS_PAGO_LABELS[normalize(medio)] ?? medio).join(', ');
+}
+
+/**
+ * Resumen legible de las restricciones, p. ej. "válido lun–vie 9–13h"
+ */
+export function describeBenefitSchedule(rules: BenefitScheduleRules): string {
+  const partes: string[] = [];
+
+  if (rules.diasValidez?.length) {
+    partes.push(describeDiasValidez(rules.diasValidez));
+  }
+  if (rules.horariosValidez?.inicio && rules.horariosValidez?.fin) {
+    partes.push(describeHorarioValidez(rules.horariosValidez));
+  }
+
+  return partes.length > 0 ? `válido ${partes.join(' ')}` : 'válido todos los días';
+}
+
+/**
+ * Verifica días, horario y medio de pago del beneficio en el momento actual
+ */
+export function checkBenefitSchedule(
+  rules: BenefitScheduleRules,
+  context: BenefitScheduleContext = {}
+): BenefitScheduleCheck {
+  const { day, minutes } = getLocalDayAndMinutes(
+    context.now ?? new Date(),
+    context.timezone || DEFAULT_COMERCIO_TIMEZONE
+  );
+
+  const inicio = rules.horariosValidez?.inicio ? parseMinutes(rules.horariosValidez.inicio) : null;
+  const fin = rules.horariosValidez?.fin ? parseMinutes(rules.horariosValidez.fin) : null;
+  const conHorario = inicio !== null && fin !== null && inicio !== fin;
+  // Una franja como 20:00–02:00 cruza la medianoche
+  const cruzaMedianoche = conHorario && inicio > fin;
+  const dentroDeFranja = !conHorario || (cruzaMedianoche
+    ? minutes >= inicio || minutes < fin
+    : minutes >= inicio && minutes < fin);
+
+  // Pasada la medianoche la franja sigue siendo la del día en que empezó:
+  // el viernes 20:00–02:00 incluye la madrugada del sábado
+  const diaDeLaFranja = cruzaMedianoche && minutes < fin ? (day + 6) % 7 : day;
+
+  if (rules.diasValidez?.length) {
+    const diasPermitidos = rules.diasValidez.map(toDayIndex).filter(i => i >= 0);
+    if (diasPermitidos.length > 0 && !diasPermitidos.includes(diaDeLaFranja)) {
+      return {
+        allowed: false,
+        code: 'BENEFIT_DAY_NOT_ALLOWED',
+        message: `Este beneficio no aplica hoy (${describeBenefitSchedule(rules)})`,
+      };
+    }
+  }
+
+  if (!dentroDeFranja) {
+    return {
+      allowed: false,
+      code: 'BENEFIT_OUTSIDE_HOURS',
+      message: `Este beneficio está fuera de horario (${describeBenefitSchedule(rules)})`,
+    };
+  }
+
+  if (rules.mediosPagoHabilitados?.length) {
+    const medios = rules.mediosPagoHabilitados.map(normalize);
+    const medioPago = context.medioPago ? normalize(context.medioPago) : null;
+
+    if (!medioPago) {
+      return {
+        allowed: false,
+        code: 'BENEFIT_PAYMENT_METHOD_REQUIRED',
+        message: `Este beneficio solo aplica pagando con ${describeMediosPago(rules.mediosPagoHabilitados)}. Pide al comercio que lo valide en caja indicando el medio de pago`,
+      };
+    }
+
+    if (!medios.includes(medioPago)) {
+      return {
+        allowed: false,
+        code: 'BENEFIT_PAYMENT_METHOD_NOT_ALLOWED',
+        message: `Este beneficio solo aplica pagando con ${describeMediosPago(rules.mediosPagoHabilitados)}`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Igual que checkBenefitSchedule pero lanza BenefitRestrictionError, pensado
+ * para usarse dentro de runTransaction
+ */
+export function assertBenefitSchedule(rules: BenefitScheduleRules, context: BenefitScheduleContext = {}): void {
+  const check = checkBenefitSchedule(rules, context);
+  if (!check.allowed) {
+    throw new BenefitRestrictionError(check.code, check.message);
+  }
+}
@@ -0,0 +1,176 @@
+import { getPeriodo, periodoSiguiente } from './cuotas';
+import {
+  AnalisisCohortes,
+  CohorteRetencion,
+  CuotaCohorte,
+  LtvPlan,
+  PagoCohorte,
+  SocioCohorte,
+} from '../types/cohortes';
+
+/**
+ * Retención por cohortes y valor de vida de los socios, calculados con las
+ * cuotas y los pagos registrados.
+ *
+ * Un socio sigue en su cohorte el mes en que pagó (total o parcialmente) la
+ * cuota de ese período. Los meses en que la asociación no generó cuotas no
+ * tienen dato, y el mes en curso no se cuenta porque su cuota puede no haber
+ * vencido todavía. Los dependientes de un grupo familiar comparten la cuota
+ * del titular y no forman parte del análisis.
+ */
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+const DIAS_POR_MES = 30.44;
+
+// Meses desde el ingreso que sigue la curva y cohortes que se muestran
+export const MESES_SEGUIMIENTO_COHORTES = 12;
+export const COHORTES_MOSTRADAS = 12;
+
+const diasEntre = (desde: Date, hasta: Date): number =>
+  Math.floor((hasta.getTime() - desde.getTime()) / DIA_MS);
+
+function mesesEntrePeriodos(desde: string, hasta: string): number {
+  const [yearDesde, monthDesde] = desde.split('-').map(Number);
+  const [yearHasta, monthHasta] = hasta.split('-').map(Number);
+  return (yearHasta - yearDesde) * 12 + (monthHasta - monthDesde);
+}
+
+const participa = (socio: SocioCohorte): boolean => !socio.titularId && socio.estado !== 'pendiente';
+
+/**
+ * Meses que el socio estuvo en la asociación. Los activos siguen hasta hoy;
+ * los que se fueron, hasta la última cuota que pagaron. Sin ningún pago se
+ * les imputa la mitad de su antigüedad, igual que en el pronóstico de
+ * crecimiento de los insights
+ */
+function permanenciaMeses(socio: SocioCohorte, ultimoPagado: string | undefined, ahora: Date): number {
+  const antiguedad = Math.max(0, diasEntre(socio.fechaIngreso, ahora)) / DIAS_POR_MES;
+  if (socio.estado === 'activo') return antiguedad;
+  if (ultimoPagado) {
+    return Math.min(antiguedad, Math.max(1, mesesEntrePeriodos(getPeriodo(socio.fechaIngreso), ultimoPagado) + 1));
+  }
+  return antiguedad / 2;
+}
+
+const promedio = (valores: number[]): number =>
+  valores.length > 0 ? valores.reduce((total, valor) => total + valor, 0) / valores.length : 0;
+
+/**
+ * LTV por plan (monto de la cuota): ingreso mensual por socio sobre la tasa
+ * mensual de bajas, ambos medidos sobre los meses de permanencia de los
+ * socios del plan
+ */
+function calcularLtvPorPlan(
+  socios: SocioCohorte[],
+  permanencia: Map<string, number>,
+  ingresosPorSocio: Map<string, number>
+): LtvPlan[] {
+  const planes = new Map<number, SocioCohorte[]>();
+  socios.forEach(socio => {
+    const montoCuota = Math.round(socio.montoCuota || 0);
+    planes.set(montoCuota, [...(planes.get(montoCuota) || []), socio]);
+  });
+
+  return Array.from(planes.entries())
+    .map(([montoCuota, miembros]) => {
+      const activos = miembros.filter(socio => socio.estado === 'activo').length;
+      const bajas = miembros.length - activos;
+      const ingresos = miembros.reduce((total, socio) => total + (ingresosPorSocio.get(socio.id) || 0), 0);
+      const exposicionMeses = miembros.reduce((total, socio) => total + (permanencia.get(socio.id) || 0), 0);
+
+      const ingresoMensualPorSocio = exposicionMeses > 0 ? ingresos / exposicionMeses : 0;
+      const bajaMensual = exposicionMeses > 0 && bajas > 0 ? Math.min(1, bajas / exposicionMeses) : null;
+
+      return {
+        montoCuota,
+        socios: miembros.length,
+        activos,
+        ingresos,
+        ingresoMensualPorSocio,
+        bajaMensual,
+        permanenciaEsperadaMeses: bajaMensual ? 1 / bajaMensual : null,
+        ltv: bajaMensual ? ingresoMensualPorSocio / bajaMensual : null,
+        ltvObservado: ingresos / miembros.length,
+      };
+    })
+    .sort((a, b) => a.montoCuota - b.montoCuota);
+}
+
+export function analizarCohortes(
+  datos: { socios: SocioCohorte[]; cuotas: CuotaCohorte[]; pagos: PagoCohorte[] },
+  ahora: Date,
+  mesesSeguimiento: number = MESES_SEGUIMIENTO_COHORTES
+): AnalisisCohortes {
+  const socios = datos.socios.filter(participa);
+  const periodoActual = getPeriodo(ahora);
+  const periodosConCuotas = new Set(datos.cuotas.map(cuota => cuota.periodo));
+
+  const pagados = new Map<string, Set<string>>();
+  datos.cuotas
+    .filter(cuota => cuota.montoPagado > 0)
+    .forEach(cuota => {
+      pagados.set(cuota.socioId, (pagados.get(cuota.socioId) || new Set()).add(cuota.periodo));
+    });
+
+  const ingresosPorSocio = new Map<string, number>();
+  datos.pagos.forEach(pago => {
+    ingresosPorSocio.set(pago.socioId, (ingresosPorSocio.get(pago.socioId) || 0) + (pago.monto || 0));
+  });
+
+  const permanencia = new Map(socios.map(socio => {
+    const periodos = Array.from(pagados.get(socio.id) || []).filter(periodo => periodo < periodoActual).sort();
+    return [socio.id, permanenciaMeses(socio, periodos[periodos.length - 1], ahora)] as const;
+  }));
+
+  const porPeriodo = new Map<string, SocioCohorte[]>();
+  socios.forEach(socio => {
+    const periodo = getPeriodo(socio.fechaIngreso);
+    porPeriodo.set(periodo, [...(porPeriodo.get(periodo) || []), socio]);
+  });
+
+  // Por cohorte y mes desde el ingreso: cuántos pagaron y sobre cuántos
+  const retenidos = Array.from({ length: mesesSeguimiento + 1 }, () => ({ pagaron: 0, socios: 0 }));
+  const todas: CohorteRetencion[] = Array.from(porPeriodo.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([periodoIngreso, miembros]) => {
+      const retencion: (number | null)[] = [];
+      let periodo = periodoIngreso;
+      for (let mes = 0; mes <= mesesSeguimiento && periodo < periodoActual; mes++) {
+        if (periodosConCuotas.has(periodo)) {
+          const pagaron = miembros.filter(socio => pagados.get(socio.id)?.has(periodo)).length;
+          retenidos[mes].pagaron += pagaron;
+          retenidos[mes].socios += miembros.length;
+          retencion.push(pagaron / miembros.length);
+        } else {
+          retencion.push(null);
+        }
+        periodo = periodoSiguiente(periodo);
+      }
+
+      const ingresos = miembros.reduce((total, socio) => total + (ingresosPorSocio.get(socio.id) || 0), 0);
+      return {
+        periodo: periodoIngreso,
+        socios: miembros.length,
+        activos: miembros.filter(socio => socio.estado === 'activo').length,
+        retencion,
+        permanenciaPromedioMeses: promedio(miembros.map(socio => permanencia.get(socio.id) || 0)),
+        ingresos,
+        ingresoPorSocio: ingresos / miembros.length,
+      };
+    });
+
+  const curvaPromedio = retenidos.map(mes => (mes.socios > 0 ? mes.pagaron / mes.socios : null));
+  while (curvaPromedio.length > 0 && curvaPromedio[curvaPromedio.length - 1] === null) curvaPromedio.pop();
+
+  return {
+    generadoEn: ahora,
+    mesesSeguimiento,
+    primerPeriodoConCuotas: Array.from(periodosConCuotas).sort()[0] || null,
+    sociosAnalizados: socios.length,
+    permanenciaPromedioMeses: promedio(Array.from(permanencia.values())),
+    ingresosTotales: datos.pagos.reduce((total, pago) => total + (pago.monto || 0), 0),
+    cohortes: todas.slice(-COHORTES_MOSTRADAS),
+    curvaPromedio,
+    ltvPorPlan: calcularLtvPorPlan(socios, permanencia, ingresosPorSocio),
+  };
+}
@@ -5,14 +5,43 @@ export const COLLECTIONS = {
   SOCIOS: 'socios',
   ASOCIACIONES: 'asociaciones',
   BENEFICIOS: 'beneficios',
+  BENEFICIO_USOS: 'beneficio_usos',
+  USOS_BENEFICIO_SOCIO: 'usos_beneficio_socio',
   VALIDACIONES: 'validaciones',
   NOTIFICATIONS: 'notifications',
   BACKUPS: 'backups',
   BACKUP_CONFIGS: 'backupConfigs',
+  BACKUP_SCHEDULES: 'backupSchedules',
+  REPORTS: 'reports',
+  REPORT_SCHEDULES: 'reportSchedules',
   ACTIVITIES: 'activities',
   CLIENTE_ACTIVITIES: 'cliente_activities',
   CLIENTE_SEGMENTS: 'cliente_segments',
   SOLICITUDES_ADHESION: 'solicitudes_adhesion',
+  CREDENCIALES_SOCIO: 'credenciales_socio',
+  CREDENCIALES_SOCIO_USADAS: 'credenciales_socio_usadas',
+  PUNTOS_MOVIMIENTOS: 'puntos_movimientos',
+  VALIDACIONES_ACREDITADAS: 'validaciones_acreditadas',
+  AUTORIZACIONES_VALIDACION: 'autorizaciones_validacion',
+  CONFIGURACION_FIDELIZACION: 'configuracion_fidelizacion',
+  CUOTAS: 'cuotas',
+  PAGOS_CUOTAS: 'pagos_cuotas',
+  CONTADORES_RECIBOS: 'contadores_recibos',
+  INTENCIONES_PAGO: 'intenciones_pago',
+  WEBHOOK_EVENTOS_PAGO: 'webhook_eventos_pago',
+  EVENTOS_DOMINIO: 'eventos_dominio',
+  NOTIFICATION_QUEUE: 'notificationQueue',
+  NOTIFICATION_DELIVERIES: 'notificationDeliveries',
+  NOTIFICATION_CAMPAIGNS: 'notificationCampaigns',
+  NOTIFICATION_SETTINGS: 'notificationSettings',
+  WHATSAPP_HILOS: 'whatsapp_hilos',
+  // Subcolección de cada hilo de WhatsApp
+  WHATSAPP_MENSAJES: 'mensajes',
+  WHATSAPP_BAJAS: 'whatsapp_bajas',
+  SIMPLE_NOTIFICATIONS: 'simpleNotifications',
+  APPROVAL_WORKFLOWS: 'approval_workflows',
+  APPROVAL_REQUESTS: 'approval_requests',
+  APPROVAL_AUDIT_LOG: 'approval_audit_log',
 } as const;
 
 // Export type for collection names
@@ -188,6 +217,10 @@ export const QR_CONFIG = {
   enableBatchProcessing: true,
   batchSize: 5,
   batchDelay: 500, // milliseconds between batches
+  // Signed token rotation (see src/lib/qr-token.ts)
+  tokenTtlSeconds: 120, // validity of an on-screen QR token
+  tokenRefreshMargin: 30, // seconds before expiry to rotate the QR
+  printedTokenTtlSeconds: 365 * 24 * 60 * 60, // validity of a downloaded/printed QR (revocable, see /api/qr/revoke)
 } as const;
 
 // Pagination defaults
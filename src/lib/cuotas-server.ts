@@ -0,0 +1,133 @@
+import { FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+import { CuotaAbierta, estadoMembresiaDesdeCuenta, getEstadoCuota, imputarPago, resumirCuenta } from '@/lib/cuotas';
+import { normalizeConfiguracionFidelizacion } from '@/lib/loyalty-points';
+import { MedioPagoCuota, PagoCuota } from '@/types/cuotas';
+
+export interface RegistrarPagoServidorParams {
+  socioId: string;
+  monto: number;
+  medioPago: MedioPagoCuota;
+  // ID del documento del pago: con un ID determinístico el pago no se duplica
+  pagoId: string;
+  registradoPor: string;
+  nota?: string | null;
+}
+
+/**
+ * Versión con Admin SDK de cuotasService.registrarPago para las rutas API.
+ * Corre dentro de la transacción que recibe: el llamador debe hacer sus
+ * lecturas antes, porque acá se lee todo y después se escribe.
+ */
+export async function registrarPagoServidor(
+  transaction: Transaction,
+  params: RegistrarPagoServidorParams
+): Promise<Omit<PagoCuota, 'fecha'>> {
+  const socioRef = adminDb.collection(COLLECTIONS.SOCIOS).doc(params.socioId);
+  const socioDoc = await transaction.get(socioRef);
+  const socio = socioDoc.data();
+  if (!socio) {
+    throw new Error('Socio no encontrado');
+  }
+
+  const asociacionId: string | undefined = socio.asociacionId;
+  if (!asociacionId) {
+    throw new Error('El socio no pertenece a una asociación');
+  }
+
+  const contadorRef = adminDb.collection(COLLECTIONS.CONTADORES_RECIBOS).doc(asociacionId);
+  const [contadorDoc, configDoc, abiertasSnapshot] = await Promise.all([
+    transaction.get(contadorRef),
+    transaction.get(adminDb.collection(COLLECTIONS.CONFIGURACION_FIDELIZACION).doc(asociacionId)),
+    transaction.get(adminDb.collection(COLLECTIONS.CUOTAS)
+      .where('socioId', '==', params.socioId)
+      .where('estado', 'in', ['pendiente', 'parcial'])),
+  ]);
+
+  const cuotasAbiertas: CuotaAbierta[] = abiertasSnapshot.docs.map(cuotaDoc => ({
+    id: cuotaDoc.id,
+    periodo: cuotaDoc.data().periodo,
+    monto: cuotaDoc.data().monto ?? 0,
+    montoPagado: cuotaDoc.data().montoPagado ?? 0,
+    fechaVencimiento: (cuotaDoc.data().fechaVencimiento as Timestamp).toDate(),
+  }));
+
+  const creditoPrevio: number = socio.cuentaCuotas?.credito ?? 0;
+  const { imputaciones, sobrante } = imputarPago(cuotasAbiertas, params.monto + creditoPrevio);
+
+  const actualizadas = cuotasAbiertas.map(cuota => {
+    const imputado = imputaciones.find(imputacion => imputacion.cuotaId === cuota.id)?.monto ?? 0;
+    return { ...cuota, montoPagado: cuota.montoPagado + imputado };
+  });
+  const imputadas = actualizadas.filter(cuota => imputaciones.some(imputacion => imputacion.cuotaId === cuota.id));
+  const saldadas = imputadas.filter(cuota => getEstadoCuota(cuota) === 'pagada');
+
+  imputadas.forEach(cuota => {
+    transaction.update(adminDb.collection(COLLECTIONS.CUOTAS).doc(cuota.id), {
+      montoPagado: cuota.montoPagado,
+      estado: getEstadoCuota(cuota),
+      actualizadoEn: FieldValue.serverTimestamp(),
+    });
+  });
+
+  const resumen = resumirCuenta({
+    cuotasAbiertas: actualizadas,
+    credito: sobrante,
+    ultimoPeriodo: socio.cuentaCuotas?.ultimoPeriodo ?? null,
+    montoCuota: Number(socio.montoCuota) || 0,
+  });
+
+  const numeroRecibo = (contadorDoc.data()?.ultimoNumero ?? 0) + 1;
+  transaction.set(contadorRef, { ultimoNumero: numeroRecibo, actualizadoEn: FieldValue.serverTimestamp() });
+
+  const pago = {
+    socioId: params.socioId,
+    asociacionId,
+    numeroRecibo,
+    monto: params.monto,
+    medioPago: params.medioPago,
+    imputaciones,
+    creditoGenerado: Math.max(0, sobrante - creditoPrevio),
+    deudaPosterior: resumen.deuda,
+    nota: params.nota?.trim() || null,
+    registradoPor: params.registradoPor,
+  };
+  transaction.set(adminDb.collection(COLLECTIONS.PAGOS_CUOTAS).doc(params.pagoId), {
+    ...pago,
+    fecha: FieldValue.serverTimestamp(),
+  });
+
+  // Un mes de puntos por cada cuota saldada, igual que en el cobro manual
+  const configuracion = normalizeConfiguracionFidelizacion(configDoc.data() ?? null);
+  const puntos = configuracion.puntosPorMesPagado * saldadas.length;
+  if (puntos > 0) {
+    transaction.set(adminDb.collection(COLLECTIONS.PUNTOS_MOVIMIENTOS).doc(), {
+      socioId: params.socioId,
+      asociacionId,
+      tipo: 'pago',
+      puntos,
+      descripcion: saldadas.length === 1 ? 'Pago de cuota' : `Pago de ${saldadas.length} cuotas`,
+      referenciaId: params.pagoId,
+      comercioId: null,
+      creadoEn: FieldValue.serverTimestamp(),
+    });
+  }
+
+  transaction.update(socioRef, {
+    cuentaCuotas: {
+      ...resumen,
+      proximoVencimiento: resumen.proximoVencimiento ? Timestamp.fromDate(resumen.proximoVencimiento) : null,
+    },
+    estadoMembresia: estadoMembresiaDesdeCuenta(resumen) ?? 'al_dia',
+    fechaVencimiento: resumen.proximoVencimiento ? Timestamp.fromDate(resumen.proximoVencimiento) : null,
+    ultimoPago: FieldValue.serverTimestamp(),
+    actualizadoEn: FieldValue.serverTimestamp(),
+    ...(puntos > 0 ? {
+      puntosFidelidad: FieldValue.increment(puntos),
+      saldoPuntos: FieldValue.increment(puntos),
+    } : {}),
+  });
+
+  return { id: params.pagoId, ...pago };
+}
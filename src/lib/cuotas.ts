@@ -0,0 +1,193 @@
+import { CuentaCuotas, EstadoCuota, EstadoMembresia, ImputacionPago, MedioPagoCuota } from '../types/cuotas';
+import { getMesClave } from './loyalty-points';
+
+/**
+ * Reglas de facturación de cuotas: vencimientos, imputación de pagos y
+ * resumen de la cuenta del socio.
+ *
+ * Cada mes se genera un cargo por el montoCuota del socio. Los pagos se
+ * imputan a las cuotas abiertas de la más vieja a la más nueva y lo que
+ * sobra queda como crédito para las siguientes. El estado de la membresía
+ * sale del saldo: con deuda vencida el socio está vencido.
+ */
+
+// Día del mes en que vence la cuota del período
+export const DIA_VENCIMIENTO_CUOTA = 10;
+
+// Buenos Aires no tiene horario de verano: UTC-3 todo el año
+const OFFSET_ARGENTINA_HORAS = 3;
+
+// Diferencias menores a un centavo se consideran saldadas
+const TOLERANCIA = 0.005;
+
+export const MEDIOS_PAGO_CUOTA_LABELS: Record<MedioPagoCuota, string> = {
+  efectivo: 'Efectivo',
+  transferencia: 'Transferencia',
+  tarjeta: 'Tarjeta',
+  mercado_pago: 'Mercado Pago',
+  otro: 'Otro',
+};
+
+const redondear = (monto: number): number => Math.round(monto * 100) / 100;
+
+export interface CuotaAbierta {
+  id: string;
+  periodo: string;
+  monto: number;
+  montoPagado: number;
+  fechaVencimiento: Date;
+}
+
+export type ResumenCuenta = Omit<CuentaCuotas, 'proximoVencimiento'> & {
+  proximoVencimiento: Date | null;
+};
+
+/**
+ * Período (YYYY-MM) de una fecha en la hora de Argentina
+ */
+export const getPeriodo = (fecha: Date = new Date()): string => getMesClave(fecha);
+
+export function periodoSiguiente(periodo: string): string {
+  const [year, month] = periodo.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Último instante del día de vencimiento del período, en hora de Argentina
+ */
+export function getFechaVencimientoCuota(periodo: string, dia: number = DIA_VENCIMIENTO_CUOTA): Date {
+  const [year, month] = periodo.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, dia + 1, OFFSET_ARGENTINA_HORAS) - 1);
+}
+
+export function getSaldoCuota(cuota: { monto: number; montoPagado: number }): number {
+  return Math.max(0, redondear(cuota.monto - cuota.montoPagado));
+}
+
+export function getEstadoCuota(cuota: { monto: number; montoPagado: number }): EstadoCuota {
+  if (getSaldoCuota(cuota) <= TOLERANCIA) return 'pagada';
+  return cuota.montoPagado > 0 ? 'parcial' : 'pendiente';
+}
+
+/**
+ * Reparte un monto entre las cuotas abiertas, de la más vieja a la más nueva.
+ * sobrante es lo que no alcanzó a imputarse (pago adelantado).
+ */
+export function imputarPago(
+  cuotas: CuotaAbierta[],
+  monto: number
+): { imputaciones: ImputacionPago[]; sobrante: number } {
+  let disponible = redondear(monto);
+  const imputaciones: ImputacionPago[] = [];
+
+  [...cuotas]
+    .sort((a, b) => a.periodo.localeCompare(b.periodo))
+    .forEach(cuota => {
+      const saldo = getSaldoCuota(cuota);
+      if (disponible <= 0 || saldo <= 0) return;
+
+      const aplicado = Math.min(saldo, disponible);
+      imputaciones.push({ cuotaId: cuota.id, periodo: cuota.periodo, monto: redondear(aplicado) });
+      disponible = redondear(disponible - aplicado);
+    });
+
+  return { imputaciones, sobrante: Math.max(0, disponible) };
+}
+
+/**
+ * Sin cuotas abiertas vence la primera cuota futura que el crédito no
+ * alcanza a cubrir: un pago adelantado extiende el vencimiento
+ */
+function getVencimientoSinDeuda(
+  ultimoPeriodo: string | null,
+  credito: number,
+  montoCuota: number,
+  now: Date
+): Date | null {
+  if (!ultimoPeriodo && credito <= TOLERANCIA) return null;
+
+  let periodo = ultimoPeriodo ? periodoSiguiente(ultimoPeriodo) : getPeriodo(now);
+  const cubiertas = montoCuota > 0 ? Math.floor((credito + TOLERANCIA) / montoCuota) : 0;
+  for (let i = 0; i < cubiertas; i++) {
+    periodo = periodoSiguiente(periodo);
+  }
+  return getFechaVencimientoCuota(periodo);
+}
+
+/**
+ * Resumen de la cuenta a partir de las cuotas abiertas del socio
+ */
+export function resumirCuenta(params: {
+  cuotasAbiertas: CuotaAbierta[];
+  credito: number;
+  ultimoPeriodo: string | null;
+  montoCuota?: number;
+  now?: Date;
+}): ResumenCuenta {
+  const now = params.now ?? new Date();
+  const abiertas = params.cuotasAbiertas.filter(cuota => getSaldoCuota(cuota) > TOLERANCIA);
+  const vencidas = abiertas.filter(cuota => cuota.fechaVencimiento < now);
+
+  const masVieja = [...abiertas].sort((a, b) => a.periodo.localeCompare(b.periodo))[0];
+  const proximoVencimiento = masVieja
+    ? masVieja.fechaVencimiento
+    : getVencimientoSinDeuda(params.ultimoPeriodo, params.credito, params.montoCuota ?? 0, now);
+
+  return {
+    deuda: redondear(abiertas.reduce((total, cuota) => total + getSaldoCuota(cuota), 0)),
+    deudaVencida: redondear(vencidas.reduce((total, cuota) => total + getSaldoCuota(cuota), 0)),
+    cuotasVencidas: vencidas.length,
+    credito: redondear(Math.max(0, params.credito)),
+    proximoVencimiento,
+    ultimoPeriodo: params.ultimoPeriodo,
+  };
+}
+
+/**
+ * Estado de la membresía según el saldo. Devuelve null si el socio todavía
+ * no tiene cuenta de cuotas; en ese caso manda la fecha de vencimiento.
+ * Una cuota abierta cuyo vencimiento pasó desde el último resumen también
+ * cuenta como deuda vencida.
+ */
+export function estadoMembresiaDesdeCuenta(
+  cuenta: { deuda: number; deudaVencida: number; proximoVencimiento: Date | null } | null | undefined,
+  now: Date = new Date()
+): EstadoMembresia | null {
+  if (!cuenta) return null;
+
+  if (cuenta.deudaVencida > TOLERANCIA) return 'vencido';
+  if (cuenta.deuda > TOLERANCIA && cuenta.proximoVencimiento && cuenta.proximoVencimiento < now) {
+    return 'vencido';
+  }
+  return 'al_dia';
+}
+
+type FechaLike = { toDate: () => Date } | Date | null | undefined;
+
+const toDate = (fecha: FechaLike): Date | null =>
+  !fecha ? null : fecha instanceof Date ? fecha : fecha.toDate();
+
+/**
+ * Estado de la membresía de un documento de socio: por saldo si tiene cuenta
+ * de cuotas y, si no, por la fecha de vencimiento como hasta ahora
+ */
+export function derivarEstadoMembresia(
+  socio: {
+    cuentaCuotas?: { deuda: number; deudaVencida: number; proximoVencimiento?: FechaLike } | null;
+    fechaVencimiento?: FechaLike;
+  },
+  now: Date = new Date()
+): EstadoMembresia {
+  const porSaldo = socio.cuentaCuotas
+    ? estadoMembresiaDesdeCuenta({
+        deuda: socio.cuentaCuotas.deuda,
+        deudaVencida: socio.cuentaCuotas.deudaVencida,
+        proximoVencimiento: toDate(socio.cuentaCuotas.proximoVencimiento),
+      }, now)
+    : null;
+  if (porSaldo) return porSaldo;
+
+  const fechaVencimiento = toDate(socio.fechaVencimiento);
+  if (!fechaVencimiento) return 'pendiente';
+  return fechaVencimiento < now ? 'vencido' : 'al_dia';
+}
@@ -0,0 +1,282 @@
+import { createHmac, createVerify, timingSafeEqual } from 'crypto';
+import { EstadoEntrega, ProveedorEntregaId } from '@/types/entregas';
+
+/**
+ * Proveedores de envío de notificaciones (solo servidor).
+ *
+ * Cada proveedor verifica la firma de su webhook de estados y traduce sus
+ * eventos al modelo común de EstadoEntrega. El webhook de
+ * /api/webhooks/delivery/[proveedor] solo conoce esta interfaz.
+ */
+
+export interface EventoEntrega {
+  // SendGrid devuelve el trackingId propio en custom_args; el resto de los
+  // proveedores identifica el mensaje por su ID
+  trackingId?: string;
+  providerMessageId?: string;
+  estado: EstadoEntrega;
+  ocurridoEn: Date;
+  motivo?: string;
+  url?: string;
+}
+
+export interface WebhookEntregaRequest {
+  headers: Headers;
+  searchParams: URLSearchParams;
+  rawBody: string;
+  // URL pública con la que el proveedor firmó (Twilio la incluye en la firma)
+  url: string;
+}
+
+export interface DeliveryProvider {
+  readonly id: ProveedorEntregaId;
+  verificarFirma(request: WebhookEntregaRequest): boolean;
+  obtenerEventos(request: WebhookEntregaRequest): EventoEntrega[];
+  // Handshake GET de suscripción; devuelve el challenge o null si no es válido
+  verificarSuscripcion?(searchParams: URLSearchParams): string | null;
+}
+
+// Firmas de webhook más viejas que esto se rechazan (segundos)
+const TOLERANCIA_FIRMA_SEGUNDOS = 5 * 60;
+
+const iguales = (esperada: Buffer, recibida: Buffer): boolean =>
+  esperada.length > 0 && esperada.length === recibida.length && timingSafeEqual(esperada, recibida);
+
+const timestampVigente = (segundos: number): boolean =>
+  Number.isFinite(segundos) && Math.abs(Date.now() / 1000 - segundos) <= TOLERANCIA_FIRMA_SEGUNDOS;
+
+const parseJson = (rawBody: string): unknown => {
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return null;
+  }
+};
+
+const desdeSegundos = (valor: unknown): Date => {
+  const segundos = Number(valor);
+  return Number.isFinite(segundos) && segundos > 0 ? new Date(segundos * 1000) : new Date();
+};
+
+/**
+ * SendGrid Event Webhook firmado. La firma es ECDSA (SHA-256) sobre
+ * timestamp + cuerpo, verificada con la clave pública de la configuración
+ * del webhook (SENDGRID_WEBHOOK_PUBLIC_KEY).
+ */
+class SendGridDeliveryProvider implements DeliveryProvider {
+  readonly id = 'sendgrid' as const;
+
+  private static readonly ESTADOS: Record<string, EstadoEntrega> = {
+    processed: 'sent',
+    delivered: 'delivered',
+    open: 'opened',
+    click: 'clicked',
+    bounce: 'bounced',
+    dropped: 'failed',
+  };
+
+  verificarFirma({ headers, rawBody }: WebhookEntregaRequest): boolean {
+    const publicKey = process.env.SENDGRID_WEBHOOK_PUBLIC_KEY;
+    const signature = headers.get('x-twilio-email-event-webhook-signature');
+    const timestamp = headers.get('x-twilio-email-event-webhook-timestamp');
+    if (!publicKey || !signature || !timestamp || !timestampVigente(Number(timestamp))) return false;
+
+    const pem = publicKey.includes('BEGIN PUBLIC KEY')
+      ? publicKey
+      : `-----BEGIN PUBLIC KEY-----\n${publicKey}\n-----END PUBLIC KEY-----`;
+    try {
+      return createVerify('sha256').update(timestamp + rawBody).verify(pem, signature, 'base64');
+    } catch {
+      return false;
+    }
+  }
+
+  obtenerEventos({ rawBody }: WebhookEntregaRequest): EventoEntrega[] {
+    const eventos = parseJson(rawBody);
+    if (!Array.isArray(eventos)) return [];
+
+    return eventos.flatMap((evento: Record<string, unknown>): EventoEntrega[] => {
+      const estado = SendGridDeliveryProvider.ESTADOS[String(evento.event)];
+      if (!estado) return [];
+      return [{
+        trackingId: typeof evento.tracking_id === 'string' ? evento.tracking_id : undefined,
+        // sg_message_id es el X-Message-Id del envío más un sufijo del filtro
+        providerMessageId: typeof evento.sg_message_id === 'string' ? evento.sg_message_id.split('.')[0] : undefined,
+        estado,
+        ocurridoEn: desdeSegundos(evento.timestamp),
+        motivo: typeof evento.reason === 'string' ? evento.reason : undefined,
+        url: typeof evento.url === 'string' ? evento.url : undefined,
+      }];
+    });
+  }
+}
+
+/**
+ * Resend firma con Svix: HMAC-SHA256 en base64 de "<svix-id>.<svix-timestamp>.<cuerpo>"
+ * con el secreto "whsec_..." (RESEND_WEBHOOK_SECRET) decodificado.
+ */
+class ResendDeliveryProvider implements DeliveryProvider {
+  readonly id = 'resend' as const;
+
+  private static readonly ESTADOS: Record<string, EstadoEntrega> = {
+    'email.sent': 'sent',
+    'email.delivered': 'delivered',
+    'email.opened': 'opened',
+    'email.clicked': 'clicked',
+    'email.bounced': 'bounced',
+    'email.failed': 'failed',
+  };
+
+  verificarFirma({ headers, rawBody }: WebhookEntregaRequest): boolean {
+    const secret = process.env.RESEND_WEBHOOK_SECRET;
+    const id = headers.get('svix-id');
+    const timestamp = headers.get('svix-timestamp');
+    const signature = headers.get('svix-signature');
+    if (!secret || !id || !timestamp || !signature || !timestampVigente(Number(timestamp))) return false;
+
+    const clave = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+    const esperada = createHmac('sha256', clave).update(`${id}.${timestamp}.${rawBody}`).digest();
+
+    // El header puede traer varias firmas ("v1,<firma> v1,<firma>") al rotar el secreto
+    return signature.split(' ').some(parte => {
+      const [version, firma] = parte.split(',');
+      return version === 'v1' && !!firma && iguales(esperada, Buffer.from(firma, 'base64'));
+    });
+  }
+
+  obtenerEventos({ rawBody }: WebhookEntregaRequest): EventoEntrega[] {
+    const evento = parseJson(rawBody) as {
+      type?: string;
+      created_at?: string;
+      data?: { email_id?: string; click?: { link?: string }; bounce?: { message?: string } };
+    } | null;
+    const estado = evento?.type ? ResendDeliveryProvider.ESTADOS[evento.type] : undefined;
+    if (!estado || !evento?.data?.email_id) return [];
+
+    const fecha = evento.created_at ? new Date(evento.created_at) : new Date();
+    return [{
+      providerMessageId: evento.data.email_id,
+      estado,
+      ocurridoEn: isNaN(fecha.getTime()) ? new Date() : fecha,
+      motivo: evento.data.bounce?.message,
+      url: evento.data.click?.link,
+    }];
+  }
+}
+
+/**
+ * Twilio (SMS y WhatsApp): StatusCallback en form-urlencoded. La firma es
+ * HMAC-SHA1 en base64 de la URL seguida de cada parámetro ordenado
+ * (nombre + valor), con TWILIO_AUTH_TOKEN.
+ */
+class TwilioDeliveryProvider implements DeliveryProvider {
+  readonly id = 'twilio' as const;
+
+  private static readonly ESTADOS: Record<string, EstadoEntrega> = {
+    sent: 'sent',
+    delivered: 'delivered',
+    read: 'opened',
+    undelivered: 'failed',
+    failed: 'failed',
+  };
+
+  verificarFirma({ headers, rawBody, url }: WebhookEntregaRequest): boolean {
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    const signature = headers.get('x-twilio-signature');
+    if (!authToken || !signature) return false;
+
+    const params = Array.from(new URLSearchParams(rawBody).entries())
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const contenido = params.reduce((texto, [clave, valor]) => texto + clave + valor, url);
+    const esperada = createHmac('sha1', authToken).update(contenido).digest();
+    return iguales(esperada, Buffer.from(signature, 'base64'));
+  }
+
+  obtenerEventos({ rawBody }: WebhookEntregaRequest): EventoEntrega[] {
+    const params = new URLSearchParams(rawBody);
+    const sid = params.get('MessageSid') || params.get('SmsSid');
+    const estado = TwilioDeliveryProvider.ESTADOS[params.get('MessageStatus') || params.get('SmsStatus') || ''];
+    if (!sid || !estado) return [];
+
+    const errorCode = params.get('ErrorCode');
+    return [{
+      providerMessageId: sid,
+      estado,
+      ocurridoEn: new Date(),
+      motivo: errorCode ? `Twilio error ${errorCode}` : undefined,
+    }];
+  }
+}
+
+/**
+ * WhatsApp Cloud API de Meta. La firma llega en X-Hub-Signature-256
+ * ("sha256=<hex>") y es HMAC-SHA256 del cuerpo con el app secret
+ * (META_WHATSAPP_APP_SECRET). La suscripción se valida por GET con
+ * META_WHATSAPP_VERIFY_TOKEN.
+ */
+class MetaWhatsAppDeliveryProvider implements DeliveryProvider {
+  readonly id = 'meta_whatsapp' as const;
+
+  private static readonly ESTADOS: Record<string, EstadoEntrega> = {
+    sent: 'sent',
+    delivered: 'delivered',
+    read: 'opened',
+    failed: 'failed',
+  };
+
+  verificarFirma({ headers, rawBody }: WebhookEntregaRequest): boolean {
+    const secret = process.env.META_WHATSAPP_APP_SECRET;
+    const signature = headers.get('x-hub-signature-256');
+    if (!secret || !signature?.startsWith('sha256=')) return false;
+
+    const esperada = createHmac('sha256', secret).update(rawBody).digest();
+    return iguales(esperada, Buffer.from(signature.slice('sha256='.length), 'hex'));
+  }
+
+  verificarSuscripcion(searchParams: URLSearchParams): string | null {
+    const verifyToken = process.env.META_WHATSAPP_VERIFY_TOKEN;
+    if (!verifyToken || searchParams.get('hub.mode') !== 'subscribe') return null;
+    if (searchParams.get('hub.verify_token') !== verifyToken) return null;
+    return searchParams.get('hub.challenge');
+  }
+
+  obtenerEventos({ rawBody }: WebhookEntregaRequest): EventoEntrega[] {
+    const body = parseJson(rawBody) as {
+      entry?: { changes?: { value?: { statuses?: Record<string, unknown>[] } }[] }[];
+    } | null;
+
+    const statuses = (body?.entry ?? [])
+      .flatMap(entry => entry.changes ?? [])
+      .flatMap(change => change.value?.statuses ?? []);
+
+    return statuses.flatMap((status): EventoEntrega[] => {
+      const estado = MetaWhatsAppDeliveryProvider.ESTADOS[String(status.status)];
+      if (!estado || typeof status.id !== 'string') return [];
+      const errores = status.errors as { code?: number; title?: string }[] | undefined;
+      return [{
+        providerMessageId: status.id,
+        estado,
+        ocurridoEn: desdeSegundos(status.timestamp),
+        motivo: errores?.length ? `${errores[0].code}: ${errores[0].title}` : undefined,
+      }];
+    });
+  }
+}
+
+/**
+ * Proveedor por ID, tal como aparece en la URL del webhook.
+ */
+export function getDeliveryProvider(id: string): DeliveryProvider | null {
+  switch (id) {
+    case 'sendgrid':
+      return new SendGridDeliveryProvider();
+    case 'resend':
+      return new ResendDeliveryProvider();
+    case 'twilio':
+      return new TwilioDeliveryProvider();
+    case 'meta_whatsapp':
+      return new MetaWhatsAppDeliveryProvider();
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Diseño común de los emails. El contenido (el mensaje con su formato liviano
+ * o un HTML propio) se envuelve con el encabezado y el pie de la marca del
+ * remitente, y de lo mismo sale la alternativa en texto plano. El render es
+ * determinístico: el mismo contenido y la misma marca dan siempre el mismo
+ * HTML, sin fechas ni IDs generados.
+ */
+
+import { escaparHtml } from '@/lib/plantillas';
+import { ConfiguracionMarcaEmail, ContenidoEmail, EmailRenderizado, MarcaEmail } from '@/types/email';
+
+export const MARCA_FIDELYA: MarcaEmail = {
+  nombre: 'Fidelya',
+  logoUrl: null,
+  colorPrimario: '#2563eb',
+  colorFondo: '#f3f4f6',
+  direccionLegal: null,
+  emailContacto: 'soporte@fidelya.com.ar',
+  textoPie: 'Fidelya - Tu plataforma de fidelización',
+  urlBaja: null,
+};
+
+const COLOR_HEX = /^#[0-9a-f]{6}$/i;
+const ITEM_LISTA = /^(?:[-•]|✅)\s+/;
+const SEPARADOR = /^-{3,}$/;
+// Sin * para que "**https://…**" no se lleve el cierre de la negrita
+const URL = /https?:\/\/[^\s<>"*]+/g;
+const PUNTUACION_FINAL = /[.,;:!?)]+$/;
+
+const esUrlSegura = (url: string | null | undefined): url is string =>
+  !!url && /^https:\/\/[^\s"'<>]+$/i.test(url);
+
+const textoONull = (texto: string | null | undefined) => texto?.trim() || null;
+
+export function validarMarcaEmail(config: Partial<ConfiguracionMarcaEmail>): string[] {
+  const errores: string[] = [];
+  if (config.colorPrimario && !COLOR_HEX.test(config.colorPrimario)) {
+    errores.push('El color principal debe tener el formato #RRGGBB');
+  }
+  if (config.colorFondo && !COLOR_HEX.test(config.colorFondo)) {
+    errores.push('El color de fondo debe tener el formato #RRGGBB');
+  }
+  if (config.logoUrl && !esUrlSegura(config.logoUrl)) {
+    errores.push('El logo debe ser una URL https');
+  }
+  if (config.urlBaja && !esUrlSegura(config.urlBaja)) {
+    errores.push('El enlace para darse de baja debe ser una URL https');
+  }
+  if (config.emailContacto && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(config.emailContacto)) {
+    errores.push('El email de contacto no es válido');
+  }
+  return errores;
+}
+
+// Marca completa a partir de lo guardado: lo inválido o vacío toma el valor de Fidelya
+export function normalizarMarca(
+  nombre: string | null | undefined,
+  config?: Partial<ConfiguracionMarcaEmail> | null
+): MarcaEmail {
+  return {
+    nombre: textoONull(nombre) ?? MARCA_FIDELYA.nombre,
+    logoUrl: esUrlSegura(config?.logoUrl) ? config.logoUrl : null,
+    colorPrimario: config?.colorPrimario && COLOR_HEX.test(config.colorPrimario)
+      ? config.colorPrimario.toLowerCase()
+      : MARCA_FIDELYA.colorPrimario,
+    colorFondo: config?.colorFondo && COLOR_HEX.test(config.colorFondo)
+      ? config.colorFondo.toLowerCase()
+      : MARCA_FIDELYA.colorFondo,
+    direccionLegal: textoONull(config?.direccionLegal),
+    emailContacto: textoONull(config?.emailContacto) ?? MARCA_FIDELYA.emailContacto,
+    textoPie: textoONull(config?.textoPie),
+    urlBaja: esUrlSegura(config?.urlBaja) ? config.urlBaja : null,
+  };
+}
+
+// Texto blanco u oscuro según la luminancia del color de fondo
+function colorSobre(hex: string): string {
+  const [r, g, b] = [1, 3, 5].map(inicio => parseInt(hex.slice(inicio, inicio + 2), 16) / 255)
+    .map(canal => (canal <= 0.03928 ? canal / 12.92 : ((canal + 0.055) / 1.055) ** 2.4));
+  const luminancia = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  return luminancia > 0.45 ? '#111827' : '#ffffff';
+}
+
+function formatoEnLinea(linea: string, colorEnlace: string): string {
+  return escaparHtml(linea)
+    .replace(URL, (coincidencia) => {
+      const final = coincidencia.match(PUNTUACION_FINAL)?.[0] ?? '';
+      const url = coincidencia.slice(0, coincidencia.length - final.length);
+      return `<a href="${url}" style="color:${colorEnlace};word-break:break-all;">${url}</a>${final}`;
+    })
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*\n]+)\*/g, '<em>$1</em>');
+}
+
+/**
+ * Convierte el formato liviano de los mensajes a HTML. Cada bloque separado
+ * por una línea en blanco es un párrafo; dentro de un bloque las líneas que
+ * empiezan con "- ", "• " o "✅ " forman una lista y "---" es un separador.
+ */
+export function mensajeAHtml(mensaje: string, colorEnlace: string = MARCA_FIDELYA.colorPrimario): string {
+  const partes: string[] = [];
+
+  mensaje.replace(/\r\n/g, '\n').trim().split(/\n\s*\n/).forEach(bloque => {
+    let parrafo: string[] = [];
+    let lista: string[] = [];
+
+    const cerrarParrafo = () => {
+      if (parrafo.length === 0) return;
+      partes.push(`<p style="margin:0 0 16px;">${parrafo.join('<br>')}</p>`);
+      parrafo = [];
+    };
+    const cerrarLista = () => {
+      if (lista.length === 0) return;
+      partes.push(`<ul style="margin:0 0 16px;padding-left:20px;">${lista.map(item => `<li style="margin:0 0 6px;">${item}</li>`).join('')}</ul>`);
+      lista = [];
+    };
+
+    bloque.split('\n').map(linea => linea.trim()).filter(Boolean).forEach(linea => {
+      if (SEPARADOR.test(linea)) {
+        cerrarParrafo();
+        cerrarLista();
+        partes.push('<hr style="border:none;border-top:1px solid #e5e7eb;margin:24px 0;">');
+      } else if (ITEM_LISTA.test(linea)) {
+        cerrarParrafo();
+        lista.push(formatoEnLinea(linea.replace(ITEM_LISTA, ''), colorEnlace));
+      } else {
+        cerrarLista();
+        parrafo.push(formatoEnLinea(linea, colorEnlace));
+      }
+    });
+
+    cerrarParrafo();
+    cerrarLista();
+  });
+
+  return partes.join('\n');
+}
+
+const limpiarLineas = (texto: string) =>
+  texto
+    .split('\n')
+    .map(linea => linea.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export function mensajeATexto(mensaje: string): string {
+  return limpiarLineas(
+    mensaje
+      .replace(/\r\n/g, '\n')
+      .replace(/\*\*(.+?)\*\*/g, '$1')
+      .replace(/\*([^*\n]+)\*/g, '$1')
+  );
+}
+
+const ENTIDADES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  nbsp: ' ',
+};
+
+// Texto plano de un cuerpo HTML: los enlaces quedan como "texto (url)"
+export function htmlATexto(html: string): string {
+  const texto = html
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, url: string, contenido: string) => {
+      const etiqueta = contenido.replace(/<[^>]+>/g, '').trim();
+      return !etiqueta || etiqueta === url ? url : `${etiqueta} (${url})`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<hr[^>]*>/gi, '\n---\n')
+    .replace(/<li[^>]*>/gi, '\n• ')
+    .replace(/<\/(p|div|h[1-6]|tr|table|ul|ol)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#\d+|#x[0-9a-f]+|\w+);/gi, (entidad, codigo: string) => {
+      if (codigo.startsWith('#x') || codigo.startsWith('#X')) return String.fromCodePoint(parseInt(codigo.slice(2), 16));
+      if (codigo.startsWith('#')) return String.fromCodePoint(Number(codigo.slice(1)));
+      return ENTIDADES[codigo.toLowerCase()] ?? entidad;
+    });
+
+  return limpiarLineas(texto);
+}
+
+function encabezadoHtml(marca: MarcaEmail): string {
+  const colorTexto = colorSobre(marca.colorPrimario);
+  const contenido = marca.logoUrl
+    ? `<img src="${escaparHtml(marca.logoUrl)}" alt="${escaparHtml(marca.nombre)}" height="48" style="display:block;margin:0 auto;max-height:48px;border:0;">`
+    : `<span style="font-size:22px;font-weight:bold;color:${colorTexto};">${escaparHtml(marca.nombre)}</span>`;
+  return `<td style="background-color:${marca.colorPrimario};padding:24px;text-align:center;">${contenido}</td>`;
+}
+
+function pieHtml(marca: MarcaEmail): string {
+  const lineas = [
+    marca.textoPie ? escaparHtml(marca.textoPie) : null,
+    marca.direccionLegal ? escaparHtml(marca.direccionLegal) : null,
+    marca.emailContacto
+      ? `<a href="mailto:${escaparHtml(marca.emailContacto)}" style="color:#6b7280;">${escaparHtml(marca.emailContacto)}</a>`
+      : null,
+    marca.urlBaja
+      ? `<a href="${escaparHtml(marca.urlBaja)}" style="color:#6b7280;">Dejar de recibir estos emails</a>`
+      : null,
+    marca.nombre !== MARCA_FIDELYA.nombre ? 'Enviado con Fidelya' : null,
+  ].filter((linea): linea is string => linea !== null);
+
+  return `<td style="padding:20px 32px;background-color:#f9fafb;color:#6b7280;font-size:12px;line-height:1.5;text-align:center;">${lineas.join('<br>')}</td>`;
+}
+
+function pieTexto(marca: MarcaEmail): string {
+  return [
+    marca.textoPie,
+    marca.direccionLegal,
+    marca.emailContacto,
+    marca.urlBaja ? `Para dejar de recibir estos emails: ${marca.urlBaja}` : null,
+  ].filter(Boolean).join('\n');
+}
+
+export function renderizarEmail(contenido: ContenidoEmail, marca: MarcaEmail = MARCA_FIDELYA): EmailRenderizado {
+  const cuerpoHtml = contenido.html?.trim()
+    ? contenido.html.trim()
+    : mensajeAHtml(contenido.mensaje, marca.colorPrimario);
+  const cuerpoTexto = contenido.html?.trim()
+    ? htmlATexto(contenido.html)
+    : mensajeATexto(contenido.mensaje);
+
+  const html = [
+    '<!DOCTYPE html>',
+    '<html lang="es">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escaparHtml(contenido.asunto)}</title>`,
+    '</head>',
+    `<body style="margin:0;padding:0;background-color:${marca.colorFondo};">`,
+    contenido.preheader
+      ? `<div style="display:none;max-height:0;overflow:hidden;">${escaparHtml(contenido.preheader)}</div>`
+      : null,
+    `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:${marca.colorFondo};">`,
+    '<tr><td align="center" style="padding:24px 12px;">',
+    '<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;background-color:#ffffff;border-radius:12px;overflow:hidden;font-family:Arial,Helvetica,sans-serif;">',
+    `<tr>${encabezadoHtml(marca)}</tr>`,
+    '<tr><td style="padding:32px 32px 16px;color:#1f2937;font-size:15px;line-height:1.6;">',
+    cuerpoHtml,
+    '</td></tr>',
+    `<tr>${pieHtml(marca)}</tr>`,
+    '</table>',
+    '</td></tr>',
+    '</table>',
+    '</body>',
+    '</html>',
+  ].filter((linea): linea is string => linea !== null).join('\n');
+
+  const pie = pieTexto(marca);
+  const texto = [marca.nombre, '', cuerpoTexto, ...(pie ? ['', '--', pie] : [])].join('\n');
+
+  return { asunto: contenido.asunto, html, texto };
+}
@@ -0,0 +1,205 @@
+import { DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+import { EventoEntrega } from '@/lib/delivery-providers';
+import {
+  CAMPO_HITO,
+  CANALES_ENTREGA,
+  esFallaEntrega,
+  hitosDeEstado,
+  resumirEntregas,
+  siguienteEstadoEntrega,
+} from '@/lib/entregas';
+import { ZONA_HORARIA_POR_DEFECTO } from '@/lib/notification-schedule';
+import { CanalEntrega, EstadisticasEntrega, EstadoEntrega, ProveedorEntregaId } from '@/types/entregas';
+
+export type ResultadoEventoEntrega = 'actualizado' | 'sin_cambios' | 'sin_registro';
+
+async function buscarRegistroEntrega(
+  proveedor: ProveedorEntregaId,
+  evento: EventoEntrega
+): Promise<DocumentReference | null> {
+  const deliveries = adminDb.collection(COLLECTIONS.NOTIFICATION_DELIVERIES);
+
+  if (evento.providerMessageId) {
+    const snapshot = await deliveries
+      .where('provider', '==', proveedor)
+      .where('providerMessageId', '==', evento.providerMessageId)
+      .limit(1)
+      .get();
+    if (!snapshot.empty) return snapshot.docs[0].ref;
+  }
+
+  // El primer evento de SendGrid puede llegar antes de que se guarde el ID
+  // del mensaje; el trackingId se comparte entre canales del mismo envío
+  if (evento.trackingId) {
+    const snapshot = await deliveries
+      .where('metadata.trackingId', '==', evento.trackingId)
+      .where('channel', '==', 'email')
+      .limit(1)
+      .get();
+    if (!snapshot.empty) return snapshot.docs[0].ref;
+  }
+
+  return null;
+}
+
+/**
+ * Aplica un evento normalizado de un proveedor al registro de entrega, al
+ * ítem de la cola que lo originó, a las métricas de la notificación y, si
+ * el envío es de una variante de campaña, a las de la variante. Cada hito
+ * (entrega, apertura, clic, falla) se cuenta una sola vez por registro, así
+ * los reintentos del proveedor y los eventos repetidos no inflan las métricas.
+ */
+export async function procesarEventoEntrega(
+  proveedor: ProveedorEntregaId,
+  evento: EventoEntrega
+): Promise<ResultadoEventoEntrega> {
+  const deliveryRef = await buscarRegistroEntrega(proveedor, evento);
+  if (!deliveryRef) return 'sin_registro';
+
+  return adminDb.runTransaction(async (transaction): Promise<ResultadoEventoEntrega> => {
+    const delivery = (await transaction.get(deliveryRef)).data();
+    if (!delivery) return 'sin_registro';
+
+    const estadoActual = delivery.status as EstadoEntrega | undefined;
+    const nuevoEstado = siguienteEstadoEntrega(estadoActual, evento.estado);
+    // Una falla que no cambia el estado (llegó después de la entrega) no cuenta
+    const hitos = hitosDeEstado(evento.estado)
+      .filter(hito => hito !== 'failed' || nuevoEstado !== null)
+      .filter(hito => !delivery[CAMPO_HITO[hito]]);
+    if (!nuevoEstado && hitos.length === 0) return 'sin_cambios';
+
+    // Lecturas antes de escribir: la notificación, el ítem de la cola o la
+    // campaña pueden haberse eliminado
+    const metadata: Record<string, unknown> = delivery.metadata ?? {};
+    const queueRef = typeof delivery.queueItemId === 'string'
+      ? adminDb.collection(COLLECTIONS.NOTIFICATION_QUEUE).doc(delivery.queueItemId)
+      : null;
+    const notificationRef = typeof delivery.notificationId === 'string'
+      ? adminDb.collection(COLLECTIONS.NOTIFICATIONS).doc(delivery.notificationId)
+      : null;
+    const campaignRef = typeof metadata.campaignId === 'string' && typeof metadata.variantId === 'string'
+      ? adminDb.collection(COLLECTIONS.NOTIFICATION_CAMPAIGNS).doc(metadata.campaignId)
+      : null;
+    const [queueDoc, notificationDoc, campaignDoc] = await Promise.all([
+      queueRef ? transaction.get(queueRef) : null,
+      notificationRef && hitos.length > 0 ? transaction.get(notificationRef) : null,
+      campaignRef && hitos.length > 0 ? transaction.get(campaignRef) : null,
+    ]);
+
+    const ocurridoEn = Timestamp.fromDate(evento.ocurridoEn);
+    const updates: Record<string, unknown> = { updatedAt: FieldValue.serverTimestamp() };
+    if (nuevoEstado) {
+      updates.status = nuevoEstado;
+      if (esFallaEntrega(nuevoEstado)) {
+        updates.failureReason = evento.motivo || `${proveedor}: ${nuevoEstado}`;
+      }
+    }
+    hitos.forEach(hito => {
+      updates[CAMPO_HITO[hito]] = ocurridoEn;
+    });
+    if (hitos.includes('clicked') && evento.url) {
+      updates['metadata.clickedUrl'] = evento.url;
+    }
+    if (!delivery.provider) updates.provider = proveedor;
+    if (!delivery.providerMessageId && evento.providerMessageId) {
+      updates.providerMessageId = evento.providerMessageId;
+    }
+    transaction.update(deliveryRef, updates);
+
+    if (queueDoc?.exists && nuevoEstado) {
+      transaction.update(queueRef!, {
+        [`deliveryStatus.${delivery.channel}`]: nuevoEstado,
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
+    if (notificationDoc?.exists) {
+      const incrementos: Record<string, unknown> = {};
+      hitos.forEach(hito => {
+        incrementos[`deliveryStats.${hito}`] = FieldValue.increment(1);
+      });
+      transaction.update(notificationRef!, incrementos);
+    }
+
+    if (campaignDoc?.exists) {
+      const incrementos: Record<string, unknown> = {};
+      hitos.forEach(hito => {
+        incrementos[`analytics.variantStats.${metadata.variantId}.${hito}`] = FieldValue.increment(1);
+      });
+      if (hitos.includes('delivered')) {
+        incrementos['analytics.totalDelivered'] = FieldValue.increment(1);
+      }
+      transaction.update(campaignRef!, incrementos);
+    }
+
+    return 'actualizado';
+  });
+}
+
+interface RegistroParaEstadisticas {
+  status: EstadoEntrega;
+  channel: CanalEntrega;
+  createdAt: Date;
+  sentAt?: Date;
+  deliveredAt?: Date;
+}
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+const fechaLocal = (fecha: Date): string =>
+  fecha.toLocaleDateString('en-CA', { timeZone: ZONA_HORARIA_POR_DEFECTO });
+
+const horaLocal = (fecha: Date): number =>
+  Number(fecha.toLocaleString('en-US', { timeZone: ZONA_HORARIA_POR_DEFECTO, hour: 'numeric', hourCycle: 'h23' })) % 24;
+
+/**
+ * Estadísticas de los registros de entrega de los últimos `dias` días,
+ * comparadas con el período anterior de igual duración.
+ */
+export function calcularEstadisticasEntrega(
+  registros: RegistroParaEstadisticas[],
+  dias: number,
+  ahora: Date = new Date()
+): EstadisticasEntrega {
+  const desde = new Date(ahora.getTime() - dias * MS_POR_DIA);
+  const actuales = registros.filter(registro => registro.createdAt >= desde);
+  const anteriores = registros.filter(registro => registro.createdAt < desde);
+
+  const porCanal = Object.fromEntries(
+    (Object.keys(CANALES_ENTREGA) as CanalEntrega[]).map(canal => [canal, 0])
+  ) as Record<CanalEntrega, number>;
+  const porHora = Array.from({ length: 24 }, (_, hora) => ({ hora, cantidad: 0 }));
+  const porDia = new Map<string, { fecha: string; enviadas: number; fallidas: number }>();
+  for (let i = dias - 1; i >= 0; i--) {
+    const fecha = fechaLocal(new Date(ahora.getTime() - i * MS_POR_DIA));
+    porDia.set(fecha, { fecha, enviadas: 0, fallidas: 0 });
+  }
+
+  let segundosEntrega = 0;
+  let conTiempoEntrega = 0;
+  actuales.forEach(registro => {
+    porCanal[registro.channel] = (porCanal[registro.channel] ?? 0) + 1;
+    porHora[horaLocal(registro.createdAt)].cantidad++;
+
+    const dia = porDia.get(fechaLocal(registro.createdAt));
+    if (dia && esFallaEntrega(registro.status)) dia.fallidas++;
+    else if (dia && registro.status !== 'queued') dia.enviadas++;
+
+    if (registro.sentAt && registro.deliveredAt && registro.deliveredAt >= registro.sentAt) {
+      segundosEntrega += (registro.deliveredAt.getTime() - registro.sentAt.getTime()) / 1000;
+      conTiempoEntrega++;
+    }
+  });
+
+  return {
+    dias,
+    actual: resumirEntregas(actuales.map(registro => registro.status)),
+    anterior: resumirEntregas(anteriores.map(registro => registro.status)),
+    porCanal,
+    porDia: Array.from(porDia.values()),
+    porHora,
+    tiempoPromedioEntrega: conTiempoEntrega > 0 ? segundosEntrega / conTiempoEntrega : null,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Modelo común de estados de entrega. Los webhooks de los proveedores lo usan
+ * para decidir si un evento avanza el estado de un envío, y los paneles para
+ * mostrar las etiquetas.
+ */
+
+import { CanalEntrega, EstadoEntrega, ResumenEntregas } from '@/types/entregas';
+
+export const ESTADOS_ENTREGA: Record<EstadoEntrega, { label: string; color: string }> = {
+  queued: { label: 'En cola', color: '#9CA3AF' },
+  sent: { label: 'Enviada', color: '#3B82F6' },
+  delivered: { label: 'Entregada', color: '#10B981' },
+  opened: { label: 'Abierta', color: '#8B5CF6' },
+  clicked: { label: 'Clic', color: '#F59E0B' },
+  bounced: { label: 'Rebotada', color: '#F97316' },
+  failed: { label: 'Fallida', color: '#EF4444' },
+};
+
+export const CANALES_ENTREGA: Record<CanalEntrega, { label: string; color: string }> = {
+  email: { label: 'Email', color: '#3B82F6' },
+  whatsapp: { label: 'WhatsApp', color: '#10B981' },
+  sms: { label: 'SMS', color: '#F59E0B' },
+  push: { label: 'Push', color: '#EC4899' },
+  app: { label: 'In-App', color: '#8B5CF6' },
+};
+
+const PROGRESO: Record<EstadoEntrega, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  opened: 3,
+  clicked: 4,
+  bounced: -1,
+  failed: -1,
+};
+
+export const esFallaEntrega = (estado: EstadoEntrega): boolean =>
+  estado === 'bounced' || estado === 'failed';
+
+/**
+ * Estado resultante de aplicar un evento, o null si no cambia. Los eventos
+ * llegan desordenados: un "delivered" tardío no baja un "opened", y una
+ * falla solo aplica mientras el mensaje no se confirmó como entregado.
+ */
+export function siguienteEstadoEntrega(actual: EstadoEntrega | undefined, nuevo: EstadoEntrega): EstadoEntrega | null {
+  const desde = actual ?? 'queued';
+  if (desde === nuevo) return null;
+  if (esFallaEntrega(nuevo)) {
+    return PROGRESO[desde] >= PROGRESO.delivered ? null : nuevo;
+  }
+  if (esFallaEntrega(desde)) return nuevo;
+  return PROGRESO[nuevo] > PROGRESO[desde] ? nuevo : null;
+}
+
+export type HitoEntrega = 'delivered' | 'opened' | 'clicked' | 'failed';
+
+// Hitos que implica un estado: un clic confirma la apertura y la entrega
+export function hitosDeEstado(estado: EstadoEntrega): HitoEntrega[] {
+  switch (estado) {
+    case 'delivered':
+      return ['delivered'];
+    case 'opened':
+      return ['delivered', 'opened'];
+    case 'clicked':
+      return ['delivered', 'opened', 'clicked'];
+    case 'bounced':
+    case 'failed':
+      return ['failed'];
+    default:
+      return [];
+  }
+}
+
+// Campo del registro de entrega que marca cada hito
+export const CAMPO_HITO: Record<HitoEntrega, 'deliveredAt' | 'openedAt' | 'clickedAt' | 'failedAt'> = {
+  delivered: 'deliveredAt',
+  opened: 'openedAt',
+  clicked: 'clickedAt',
+  failed: 'failedAt',
+};
+
+export function resumirEntregas(estados: EstadoEntrega[]): ResumenEntregas {
+  const porEstado = Object.fromEntries(
+    (Object.keys(ESTADOS_ENTREGA) as EstadoEntrega[]).map(estado => [estado, 0])
+  ) as Record<EstadoEntrega, number>;
+  estados.forEach(estado => {
+    porEstado[estado] = (porEstado[estado] ?? 0) + 1;
+  });
+
+  return {
+    total: estados.length,
+    porEstado,
+    entregadas: porEstado.delivered + porEstado.opened + porEstado.clicked,
+    abiertas: porEstado.opened + porEstado.clicked,
+    clickeadas: porEstado.clicked,
+    fallidas: porEstado.bounced + porEstado.failed,
+    pendientes: porEstado.queued + porEstado.sent,
+  };
+}
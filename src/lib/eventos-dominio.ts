@@ -0,0 +1,135 @@
+/**
+ * Catálogo de eventos de dominio y evaluación de las condiciones de los
+ * triggers. La función procesarEventosDominio de functions/ la usa para
+ * decidir qué triggers dispara cada evento.
+ */
+
+import { CondicionTrigger, TipoEventoDominio } from '../types/eventos-dominio';
+
+export const EVENTOS_DOMINIO: Record<TipoEventoDominio, { label: string; description: string }> = {
+  user_registered: {
+    label: 'Socio registrado',
+    description: 'Cuando se da de alta un nuevo socio',
+  },
+  payment_received: {
+    label: 'Pago recibido',
+    description: 'Cuando se registra un pago de cuotas, manual u online',
+  },
+  benefit_redeemed: {
+    label: 'Beneficio utilizado',
+    description: 'Cuando un socio valida un beneficio en un comercio',
+  },
+  benefit_expired: {
+    label: 'Beneficio vencido',
+    description: 'Cuando un beneficio llega a su fecha de fin (avisa al comercio)',
+  },
+  adhesion_approved: {
+    label: 'Comercio adherido',
+    description: 'Cuando se aprueba la solicitud de adhesión de un comercio',
+  },
+  membership_expiring: {
+    label: 'Membresía por vencer',
+    description: 'A los 30, 15, 7, 3 y 1 días del vencimiento de la membresía',
+  },
+};
+
+export const DIAS_AVISO_VENCIMIENTO = [30, 15, 7, 3, 1];
+
+export interface CampoEvento {
+  value: string;
+  label: string;
+  type: 'text' | 'number' | 'boolean';
+}
+
+// Campos del payload disponibles para condiciones y para {{variables}} en el mensaje
+export const CAMPOS_EVENTO: Record<TipoEventoDominio, CampoEvento[]> = {
+  user_registered: [
+    { value: 'nombre', label: 'Nombre del socio', type: 'text' },
+    { value: 'email', label: 'Email', type: 'text' },
+  ],
+  payment_received: [
+    { value: 'monto', label: 'Monto pagado', type: 'number' },
+    { value: 'medioPago', label: 'Medio de pago', type: 'text' },
+    { value: 'deudaPosterior', label: 'Deuda después del pago', type: 'number' },
+    { value: 'numeroRecibo', label: 'Número de recibo', type: 'number' },
+    { value: 'origen', label: 'Origen (manual / online)', type: 'text' },
+  ],
+  benefit_redeemed: [
+    { value: 'esPrimerUso', label: 'Es su primer beneficio', type: 'boolean' },
+    { value: 'totalUsos', label: 'Beneficios usados en total', type: 'number' },
+    { value: 'montoDescuento', label: 'Monto de descuento', type: 'number' },
+    { value: 'beneficioTitulo', label: 'Beneficio', type: 'text' },
+    { value: 'comercioNombre', label: 'Comercio', type: 'text' },
+  ],
+  benefit_expired: [
+    { value: 'beneficioTitulo', label: 'Beneficio', type: 'text' },
+  ],
+  adhesion_approved: [
+    { value: 'comercioNombre', label: 'Comercio', type: 'text' },
+    { value: 'categoria', label: 'Categoría', type: 'text' },
+  ],
+  membership_expiring: [
+    { value: 'diasRestantes', label: 'Días para el vencimiento', type: 'number' },
+    { value: 'fechaVencimiento', label: 'Fecha de vencimiento', type: 'text' },
+    { value: 'nombre', label: 'Nombre del socio', type: 'text' },
+  ],
+};
+
+export const esTipoEventoDominio = (value: unknown): value is TipoEventoDominio =>
+  typeof value === 'string' && value in EVENTOS_DOMINIO;
+
+export const getValorCampo = (payload: Record<string, unknown>, field: string): unknown =>
+  field.split('.').reduce<unknown>(
+    (valor, parte) => (valor && typeof valor === 'object' ? (valor as Record<string, unknown>)[parte] : undefined),
+    payload
+  );
+
+// Los valores de las condiciones se cargan como texto desde el editor
+const normalizar = (valor: unknown): unknown => {
+  if (typeof valor !== 'string') return valor;
+  const texto = valor.trim();
+  if (texto === 'true') return true;
+  if (texto === 'false') return false;
+  if (texto !== '' && !isNaN(Number(texto))) return Number(texto);
+  return texto;
+};
+
+const comoLista = (valor: unknown): unknown[] =>
+  (Array.isArray(valor) ? valor : String(valor).split(',')).map(normalizar);
+
+export function cumpleCondicion(condition: CondicionTrigger, payload: Record<string, unknown>): boolean {
+  const actual = normalizar(getValorCampo(payload, condition.field));
+  const esperado = normalizar(condition.value);
+
+  switch (condition.operator) {
+    case 'equals':
+      return actual === esperado;
+    case 'not_equals':
+      return actual !== esperado;
+    case 'greater_than':
+      return typeof actual === 'number' && typeof esperado === 'number' && actual > esperado;
+    case 'less_than':
+      return typeof actual === 'number' && typeof esperado === 'number' && actual < esperado;
+    case 'contains':
+      return String(actual ?? '').toLowerCase().includes(String(esperado ?? '').toLowerCase());
+    case 'in':
+      return comoLista(condition.value).includes(actual);
+    case 'not_in':
+      return !comoLista(condition.value).includes(actual);
+    default:
+      return false;
+  }
+}
+
+// Todas las condiciones deben cumplirse
+export const cumpleCondiciones = (
+  conditions: CondicionTrigger[] | undefined,
+  payload: Record<string, unknown>
+): boolean => (conditions ?? []).every(condition => cumpleCondicion(condition, payload));
+
+// Reemplaza {{campo}} por el valor del payload
+export const interpolarEvento = (texto: string, payload: Record<string, unknown>): string =>
+  texto.replace(/{{\s*([\w.]+)\s*}}/g, (coincidencia, campo: string) => {
+    const valor = getValorCampo(payload, campo);
+    return valor === undefined || valor === null ? coincidencia : String(valor);
+  });
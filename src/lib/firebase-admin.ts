@@ -1,5 +1,6 @@
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
 import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
 
 // Configuración de Firebase Admin SDK
 const initializeFirebaseAdmin = () => {
@@ -47,6 +48,9 @@ const adminApp = initializeFirebaseAdmin();
 // Exportar el servicio de autenticación
 export const adminAuth = getAuth(adminApp);
 
+// Exportar Firestore con privilegios de administrador (solo server-side)
+export const adminDb = getFirestore(adminApp);
+
 // Función helper para verificar si Admin SDK está disponible
 export const isAdminSDKAvailable = (): boolean => {
   try {
@@ -0,0 +1,29 @@
+import { Parentesco } from '@/types/socio';
+
+/**
+ * Grupo familiar: un socio titular con dependientes (cónyuge, hijos...).
+ *
+ * Cada dependiente es un documento de socio propio, así tiene su credencial,
+ * su historial de validaciones y su cuenta de limitePorSocio. La cuota se
+ * factura solo al titular (los dependientes tienen montoCuota 0) y la función
+ * sincronizarGrupoFamiliar les copia el estado de membresía del titular.
+ */
+
+export const PARENTESCO_LABELS: Record<Parentesco, string> = {
+  conyuge: 'Cónyuge',
+  hijo: 'Hijo/a',
+  padre: 'Padre/Madre',
+  hermano: 'Hermano/a',
+  otro: 'Otro',
+};
+
+export const esParentesco = (valor: unknown): valor is Parentesco =>
+  typeof valor === 'string' && valor in PARENTESCO_LABELS;
+
+/**
+ * Número del dependiente: el del titular con un sufijo correlativo (001-01, 001-02...)
+ */
+export const getNumeroDependiente = (numeroTitular: string, orden: number): string =>
+  `${numeroTitular}-${String(orden).padStart(2, '0')}`;
+
+export const esDependiente = (socio: { titularId?: string | null }): boolean => !!socio.titularId;
@@ -0,0 +1,493 @@
+import { getPeriodo, periodoSiguiente } from '@/lib/cuotas';
+import {
+  AlertaSaturacion,
+  BeneficioInsights,
+  CohorteSocios,
+  FactorRiesgo,
+  InsightsAsociacion,
+  IntervaloConfianza,
+  NivelRiesgo,
+  PronosticoCrecimiento,
+  RiesgoSocio,
+  SocioInsights,
+  ValidacionInsights,
+} from '@/types/insights';
+
+/**
+ * Señales para la junta de la asociación calculadas con los socios y su
+ * historial de validaciones: riesgo de abandono por socio, pronóstico de
+ * crecimiento por cohortes y beneficios que se están saturando.
+ *
+ * Todo sale de reglas explícitas sobre datos reales. Cuando no hay datos
+ * suficientes para un cálculo se dice, en lugar de completar con supuestos.
+ */
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+const DIAS_POR_MES = 30.44;
+
+// Días de validaciones que se cargan para el análisis
+export const VENTANA_INSIGHTS_DIAS = 180;
+
+// Topes de cada factor del puntaje de riesgo; suman 100
+const MAXIMO_RECENCIA = 35;
+const MAXIMO_FRECUENCIA = 20;
+const MAXIMO_VENCIMIENTO = 25;
+const MAXIMO_PAGOS = 20;
+
+// Sin validar hasta 14 días no suma riesgo; a los 90 suma el máximo
+const RECENCIA_SIN_RIESGO_DIAS = 14;
+const RECENCIA_RIESGO_MAXIMO_DIAS = 90;
+// Un socio recién ingresado sin validaciones todavía no es una señal
+const ANTIGUEDAD_MINIMA_DIAS = 30;
+const ATRASO_GRAVE_DIAS = 60;
+
+export const UMBRAL_RIESGO: Record<Exclude<NivelRiesgo, 'bajo'>, number> = {
+  alto: 60,
+  medio: 35,
+};
+
+// Meses completos de altas necesarios para pronosticar y máximo que se usa
+const MESES_HISTORIA_MINIMOS = 3;
+const MESES_HISTORIA_MAXIMOS = 12;
+export const HORIZONTE_PRONOSTICO_MESES = 3;
+
+// Valores críticos de t de Student a dos colas del 95% por grados de libertad
+const T_STUDENT_95 = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179];
+const Z_95 = 1.96;
+
+const CUPO_ALERTA = 0.8;
+const PENETRACION_SATURADA = 0.5;
+const CAIDA_DESGASTE = 0.3;
+// Con menos usos previos una caída no dice nada
+const USOS_MINIMOS_DESGASTE = 10;
+
+const diasEntre = (desde: Date, hasta: Date): number =>
+  Math.floor((hasta.getTime() - desde.getTime()) / DIA_MS);
+
+const limitar = (valor: number, minimo: number, maximo: number): number =>
+  Math.min(maximo, Math.max(minimo, valor));
+
+const porcentaje = (valor: number): number => Math.round(valor * 100);
+
+const textoDias = (dias: number): string => (dias === 1 ? '1 día' : `${dias} días`);
+
+function mediana(valores: number[]): number {
+  if (valores.length === 0) return 0;
+  const ordenados = [...valores].sort((a, b) => a - b);
+  const medio = Math.floor(ordenados.length / 2);
+  return ordenados.length % 2 === 0 ? (ordenados[medio - 1] + ordenados[medio]) / 2 : ordenados[medio];
+}
+
+function periodoAnterior(periodo: string): string {
+  const [year, month] = periodo.split('-').map(Number);
+  return month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, '0')}`;
+}
+
+const esUso = (validacion: ValidacionInsights): boolean => validacion.estado === 'exitosa';
+
+export function nivelDeRiesgo(puntaje: number): NivelRiesgo {
+  if (puntaje >= UMBRAL_RIESGO.alto) return 'alto';
+  if (puntaje >= UMBRAL_RIESGO.medio) return 'medio';
+  return 'bajo';
+}
+
+function factorRecencia(
+  ultimoUso: Date | undefined,
+  antiguedadDias: number,
+  ventanaDias: number,
+  ahora: Date
+): FactorRiesgo {
+  if (!ultimoUso) {
+    return antiguedadDias < ANTIGUEDAD_MINIMA_DIAS
+      ? { clave: 'recencia', puntos: 0, maximo: MAXIMO_RECENCIA, detalle: 'Socio nuevo, todavía sin validaciones' }
+      : {
+        clave: 'recencia',
+        puntos: MAXIMO_RECENCIA,
+        maximo: MAXIMO_RECENCIA,
+        detalle: `Sin validaciones en los últimos ${ventanaDias} días`,
+      };
+  }
+
+  const dias = diasEntre(ultimoUso, ahora);
+  const proporcion = (dias - RECENCIA_SIN_RIESGO_DIAS) / (RECENCIA_RIESGO_MAXIMO_DIAS - RECENCIA_SIN_RIESGO_DIAS);
+  return {
+    clave: 'recencia',
+    puntos: Math.round(MAXIMO_RECENCIA * limitar(proporcion, 0, 1)),
+    maximo: MAXIMO_RECENCIA,
+    detalle: dias === 0 ? 'Validó hoy' : `Última validación hace ${textoDias(dias)}`,
+  };
+}
+
+function factorFrecuencia(usos90Dias: number, medianaAsociacion: number): FactorRiesgo {
+  if (medianaAsociacion === 0) {
+    return {
+      clave: 'frecuencia',
+      puntos: 0,
+      maximo: MAXIMO_FRECUENCIA,
+      detalle: 'No hay actividad suficiente en la asociación para comparar',
+    };
+  }
+
+  return {
+    clave: 'frecuencia',
+    puntos: Math.round(MAXIMO_FRECUENCIA * limitar(1 - usos90Dias / medianaAsociacion, 0, 1)),
+    maximo: MAXIMO_FRECUENCIA,
+    detalle: `${usos90Dias} validaciones en 90 días (mediana de la asociación: ${medianaAsociacion})`,
+  };
+}
+
+function factorVencimiento(diasParaVencimiento: number | null): FactorRiesgo {
+  if (diasParaVencimiento === null) {
+    return { clave: 'vencimiento', puntos: 0, maximo: MAXIMO_VENCIMIENTO, detalle: 'Sin fecha de vencimiento' };
+  }
+
+  let puntos = 0;
+  if (diasParaVencimiento < 0) puntos = MAXIMO_VENCIMIENTO;
+  else if (diasParaVencimiento <= 15) puntos = 15;
+  else if (diasParaVencimiento <= 30) puntos = 8;
+
+  return {
+    clave: 'vencimiento',
+    puntos,
+    maximo: MAXIMO_VENCIMIENTO,
+    detalle: diasParaVencimiento < 0
+      ? `La membresía venció hace ${textoDias(-diasParaVencimiento)}`
+      : `La membresía vence en ${textoDias(diasParaVencimiento)}`,
+  };
+}
+
+function factorPagos(socio: SocioInsights, ahora: Date): FactorRiesgo {
+  if (socio.cuotasVencidas <= 0 && socio.deudaVencida <= 0) {
+    return { clave: 'pagos', puntos: 0, maximo: MAXIMO_PAGOS, detalle: 'Cuotas al día' };
+  }
+
+  const atraso = socio.proximoVencimiento ? diasEntre(socio.proximoVencimiento, ahora) : null;
+  const cuotas = Math.max(1, socio.cuotasVencidas);
+  return {
+    clave: 'pagos',
+    puntos: Math.min(MAXIMO_PAGOS, cuotas * 7 + (atraso !== null && atraso > ATRASO_GRAVE_DIAS ? 6 : 0)),
+    maximo: MAXIMO_PAGOS,
+    detalle: `${cuotas} cuota(s) vencida(s) por $${socio.deudaVencida.toLocaleString('es-AR')}` +
+      (atraso !== null && atraso > 0 ? `, ${textoDias(atraso)} de atraso` : ''),
+  };
+}
+
+/**
+ * Puntaje de riesgo de abandono de cada socio activo, de mayor a menor.
+ * Suma cuatro factores con tope: hace cuánto no valida, cuánto valida
+ * contra la mediana de la asociación, cuánto falta para el vencimiento de
+ * la membresía y el atraso en las cuotas
+ */
+export function calcularRiesgoSocios(
+  socios: SocioInsights[],
+  validaciones: ValidacionInsights[],
+  ahora: Date,
+  ventanaDias: number = VENTANA_INSIGHTS_DIAS
+): RiesgoSocio[] {
+  const desde90Dias = ahora.getTime() - 90 * DIA_MS;
+  const ultimoUso = new Map<string, Date>();
+  const usos90Dias = new Map<string, number>();
+
+  validaciones.filter(esUso).forEach(validacion => {
+    const anterior = ultimoUso.get(validacion.socioId);
+    if (!anterior || validacion.fechaValidacion > anterior) ultimoUso.set(validacion.socioId, validacion.fechaValidacion);
+    if (validacion.fechaValidacion.getTime() >= desde90Dias) {
+      usos90Dias.set(validacion.socioId, (usos90Dias.get(validacion.socioId) || 0) + 1);
+    }
+  });
+
+  const activos = socios.filter(socio => socio.estado === 'activo');
+  // Referencia: el socio típico entre los que usan la membresía
+  const medianaAsociacion = mediana(
+    activos.map(socio => usos90Dias.get(socio.id) || 0).filter(usos => usos > 0)
+  );
+
+  return activos
+    .map(socio => {
+      const usos = usos90Dias.get(socio.id) || 0;
+      const diasParaVencimiento = socio.fechaVencimiento ? diasEntre(ahora, socio.fechaVencimiento) : null;
+      const ultimo = ultimoUso.get(socio.id);
+      const factores = [
+        factorRecencia(ultimo, diasEntre(socio.fechaIngreso, ahora), ventanaDias, ahora),
+        factorFrecuencia(usos, medianaAsociacion),
+        factorVencimiento(diasParaVencimiento),
+        factorPagos(socio, ahora),
+      ];
+      const puntaje = factores.reduce((total, factor) => total + factor.puntos, 0);
+
+      return {
+        socioId: socio.id,
+        nombre: socio.nombre,
+        numeroSocio: socio.numeroSocio,
+        email: socio.email,
+        puntaje,
+        nivel: nivelDeRiesgo(puntaje),
+        factores,
+        diasSinValidar: ultimo ? diasEntre(ultimo, ahora) : null,
+        validaciones90Dias: usos,
+        diasParaVencimiento,
+        deudaVencida: socio.deudaVencida,
+        cuotasVencidas: socio.cuotasVencidas,
+      };
+    })
+    .sort((a, b) => b.puntaje - a.puntaje);
+}
+
+/**
+ * Socios agrupados por mes de ingreso con cuántos siguen activos hoy
+ */
+export function calcularCohortes(socios: SocioInsights[]): CohorteSocios[] {
+  const cohortes = new Map<string, { altas: number; activos: number }>();
+
+  socios
+    .filter(socio => socio.estado !== 'pendiente')
+    .forEach(socio => {
+      const periodo = getPeriodo(socio.fechaIngreso);
+      const cohorte = cohortes.get(periodo) || { altas: 0, activos: 0 };
+      cohorte.altas++;
+      if (socio.estado === 'activo') cohorte.activos++;
+      cohortes.set(periodo, cohorte);
+    });
+
+  return Array.from(cohortes.entries())
+    .map(([periodo, { altas, activos }]) => ({ periodo, altas, activos, retencion: activos / altas }))
+    .sort((a, b) => a.periodo.localeCompare(b.periodo));
+}
+
+/**
+ * Tasa mensual de bajas estimada con todas las cohortes. No hay fecha de
+ * baja, así que a quien ya no está activo se le imputa la mitad de su
+ * antigüedad como tiempo de permanencia. El intervalo es el de Poisson
+ * sobre la cantidad de bajas (regla de tres si no hubo ninguna)
+ */
+function estimarBajaMensual(socios: SocioInsights[], ahora: Date): IntervaloConfianza | null {
+  let bajas = 0;
+  let exposicionMeses = 0;
+
+  socios
+    .filter(socio => socio.estado !== 'pendiente')
+    .forEach(socio => {
+      const meses = Math.max(0, diasEntre(socio.fechaIngreso, ahora)) / DIAS_POR_MES;
+      if (socio.estado === 'activo') {
+        exposicionMeses += meses;
+      } else {
+        bajas++;
+        exposicionMeses += meses / 2;
+      }
+    });
+
+  if (exposicionMeses <= 0) return null;
+
+  const margen = bajas > 0 ? Z_95 * Math.sqrt(bajas) : 0;
+  return {
+    estimado: limitar(bajas / exposicionMeses, 0, 1),
+    minimo: limitar((bajas - margen) / exposicionMeses, 0, 1),
+    maximo: limitar((bajas > 0 ? bajas + margen : 3) / exposicionMeses, 0, 1),
+  };
+}
+
+/**
+ * Pronóstico de socios activos para los próximos meses. Las altas salen
+ * del promedio de los últimos meses completos con un intervalo de
+ * predicción t del 95%; las bajas, de la tasa por cohortes. Los extremos
+ * combinan el peor y el mejor caso de ambos, así que el rango es
+ * conservador y se abre con cada mes proyectado
+ */
+export function pronosticarCrecimiento(
+  socios: SocioInsights[],
+  ahora: Date,
+  horizonte: number = HORIZONTE_PRONOSTICO_MESES
+): PronosticoCrecimiento {
+  const considerados = socios.filter(socio => socio.estado !== 'pendiente');
+  const periodoActual = getPeriodo(ahora);
+  const primerPeriodo = considerados
+    .map(socio => getPeriodo(socio.fechaIngreso))
+    .sort()[0];
+
+  // Meses completos desde la primera alta, sin contar el mes en curso
+  const historial: { periodo: string; altas: number }[] = [];
+  if (primerPeriodo) {
+    for (
+      let periodo = periodoAnterior(periodoActual);
+      periodo >= primerPeriodo && historial.length < MESES_HISTORIA_MAXIMOS;
+      periodo = periodoAnterior(periodo)
+    ) {
+      historial.unshift({ periodo, altas: 0 });
+    }
+  }
+
+  const bajaMensual = estimarBajaMensual(considerados, ahora);
+  if (historial.length < MESES_HISTORIA_MINIMOS || !bajaMensual) {
+    return {
+      disponible: false,
+      mesesHistoria: historial.length,
+      motivo: `Hacen falta al menos ${MESES_HISTORIA_MINIMOS} meses completos de altas para pronosticar ` +
+        `y hay ${historial.length}`,
+    };
+  }
+
+  const indice = new Map(historial.map((mes, i) => [mes.periodo, i]));
+  considerados.forEach(socio => {
+    const i = indice.get(getPeriodo(socio.fechaIngreso));
+    if (i !== undefined) historial[i].altas++;
+  });
+
+  const n = historial.length;
+  const media = historial.reduce((total, mes) => total + mes.altas, 0) / n;
+  const varianza = historial.reduce((total, mes) => total + (mes.altas - media) ** 2, 0) / (n - 1);
+  const margen = (T_STUDENT_95[n - 2] ?? Z_95) * Math.sqrt(varianza) * Math.sqrt(1 + 1 / n);
+  const altasMensuales = {
+    estimado: media,
+    minimo: Math.max(0, media - margen),
+    maximo: media + margen,
+  };
+
+  const activosActuales = considerados.filter(socio => socio.estado === 'activo').length;
+  const proyeccion = [];
+  let activos = { estimado: activosActuales, minimo: activosActuales, maximo: activosActuales };
+  let periodo = periodoActual;
+
+  for (let mes = 0; mes < horizonte; mes++) {
+    periodo = periodoSiguiente(periodo);
+    activos = {
+      estimado: activos.estimado * (1 - bajaMensual.estimado) + altasMensuales.estimado,
+      minimo: activos.minimo * (1 - bajaMensual.maximo) + altasMensuales.minimo,
+      maximo: activos.maximo * (1 - bajaMensual.minimo) + altasMensuales.maximo,
+    };
+    proyeccion.push({
+      periodo,
+      altas: redondearIntervalo(altasMensuales),
+      activos: redondearIntervalo(activos),
+    });
+  }
+
+  return {
+    disponible: true,
+    mesesHistoria: n,
+    altasMensuales: redondearIntervalo(altasMensuales, 1),
+    bajaMensual,
+    activosActuales,
+    historial,
+    proyeccion,
+  };
+}
+
+function redondearIntervalo(intervalo: IntervaloConfianza, decimales: number = 0): IntervaloConfianza {
+  const factor = 10 ** decimales;
+  const redondear = (valor: number) => Math.round(valor * factor) / factor;
+  return {
+    estimado: redondear(intervalo.estimado),
+    minimo: redondear(intervalo.minimo),
+    maximo: redondear(intervalo.maximo),
+  };
+}
+
+/**
+ * Beneficios activos que están por agotar su cupo total o que ya usó gran
+ * parte de los socios y vienen perdiendo uso
+ */
+export function detectarSaturacion(
+  beneficios: BeneficioInsights[],
+  validaciones: ValidacionInsights[],
+  sociosActivos: number,
+  ahora: Date
+): AlertaSaturacion[] {
+  const hace30Dias = ahora.getTime() - 30 * DIA_MS;
+  const hace60Dias = ahora.getTime() - 60 * DIA_MS;
+  const hace90Dias = ahora.getTime() - 90 * DIA_MS;
+  const usos = new Map<string, { ultimos30: number; previos30: number; socios: Set<string> }>();
+
+  validaciones.filter(esUso).forEach(validacion => {
+    if (!validacion.beneficioId) return;
+    const fecha = validacion.fechaValidacion.getTime();
+    const uso = usos.get(validacion.beneficioId) || { ultimos30: 0, previos30: 0, socios: new Set<string>() };
+    if (fecha >= hace30Dias) uso.ultimos30++;
+    else if (fecha >= hace60Dias) uso.previos30++;
+    if (fecha >= hace90Dias) uso.socios.add(validacion.socioId);
+    usos.set(validacion.beneficioId, uso);
+  });
+
+  const alertas: AlertaSaturacion[] = [];
+
+  beneficios
+    .filter(beneficio => beneficio.estado === 'activo')
+    .forEach(beneficio => {
+      const uso = usos.get(beneficio.id) || { ultimos30: 0, previos30: 0, socios: new Set<string>() };
+      const penetracion = sociosActivos > 0 ? uso.socios.size / sociosActivos : 0;
+      const base = {
+        beneficioId: beneficio.id,
+        titulo: beneficio.titulo,
+        comercioNombre: beneficio.comercioNombre,
+        usosUltimos30Dias: uso.ultimos30,
+        usosPrevios30Dias: uso.previos30,
+        penetracion,
+        usosActuales: beneficio.usosActuales || 0,
+      };
+
+      if (beneficio.limiteTotal && beneficio.limiteTotal > 0) {
+        const ocupado = base.usosActuales / beneficio.limiteTotal;
+        if (ocupado >= CUPO_ALERTA) {
+          const restante = Math.max(0, beneficio.limiteTotal - base.usosActuales);
+          const diasParaAgotarse = uso.ultimos30 > 0 ? Math.ceil(restante / (uso.ultimos30 / 30)) : null;
+          alertas.push({
+            ...base,
+            tipo: 'cupo',
+            limiteTotal: beneficio.limiteTotal,
+            diasParaAgotarse,
+            detalle: `Usó ${base.usosActuales} de ${beneficio.limiteTotal} (${porcentaje(ocupado)}%)` +
+              (diasParaAgotarse !== null
+                ? `; al ritmo de los últimos 30 días se agota en ${textoDias(diasParaAgotarse)}`
+                : '; sin usos en los últimos 30 días'),
+          });
+          return;
+        }
+      }
+
+      const caida = uso.previos30 > 0 ? 1 - uso.ultimos30 / uso.previos30 : 0;
+      if (penetracion >= PENETRACION_SATURADA && uso.previos30 >= USOS_MINIMOS_DESGASTE && caida >= CAIDA_DESGASTE) {
+        alertas.push({
+          ...base,
+          tipo: 'desgaste',
+          detalle: `Ya lo usó el ${porcentaje(penetracion)}% de los socios activos en 90 días y los usos ` +
+            `cayeron ${porcentaje(caida)}% contra los 30 días previos (${uso.ultimos30} vs ${uso.previos30})`,
+        });
+      }
+    });
+
+  return alertas.sort((a, b) =>
+    a.tipo === b.tipo
+      ? (a.diasParaAgotarse ?? Infinity) - (b.diasParaAgotarse ?? Infinity) || b.penetracion - a.penetracion
+      : a.tipo === 'cupo' ? -1 : 1
+  );
+}
+
+export function analizarAsociacion(
+  datos: {
+    socios: SocioInsights[];
+    validaciones: ValidacionInsights[];
+    beneficios: BeneficioInsights[];
+  },
+  ahora: Date,
+  ventanaDias: number = VENTANA_INSIGHTS_DIAS
+): InsightsAsociacion {
+  const riesgo = calcularRiesgoSocios(datos.socios, datos.validaciones, ahora, ventanaDias);
+  const sociosActivos = riesgo.length;
+
+  return {
+    generadoEn: ahora,
+    ventanaDias,
+    sociosAnalizados: datos.socios.length,
+    sociosActivos,
+    validacionesAnalizadas: datos.validaciones.length,
+    beneficiosAnalizados: datos.beneficios.length,
+    riesgo,
+    resumenRiesgo: {
+      alto: riesgo.filter(socio => socio.nivel === 'alto').length,
+      medio: riesgo.filter(socio => socio.nivel === 'medio').length,
+      bajo: riesgo.filter(socio => socio.nivel === 'bajo').length,
+    },
+    cohortes: calcularCohortes(datos.socios),
+    pronostico: pronosticarCrecimiento(datos.socios, ahora),
+    saturacion: detectarSaturacion(datos.beneficios, datos.validaciones, sociosActivos, ahora),
+  };
+}
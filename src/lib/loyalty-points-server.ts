@@ -0,0 +1,146 @@
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+import { avanzarRacha, normalizeConfiguracionFidelizacion } from '@/lib/loyalty-points';
+
+export interface AcreditacionValidacion {
+  // false si la validación ya se había acreditado
+  acreditada: boolean;
+  puntos: number;
+}
+
+export class AcreditacionError extends Error {
+  readonly codigo: 400 | 403 | 404;
+
+  constructor(message: string, codigo: AcreditacionError['codigo']) {
+    super(message);
+    this.name = 'AcreditacionError';
+    this.codigo = codigo;
+  }
+}
+
+export const isAcreditacionError = (error: unknown): error is AcreditacionError =>
+  error instanceof AcreditacionError;
+
+const toDate = (value: unknown): Date | null =>
+  value instanceof Timestamp ? value.toDate() : null;
+
+/**
+ * Aplica al socio los efectos de una validación exitosa: contadores de uso,
+ * racha y puntos de fidelización. Los puntos salen de la configuración de la
+ * asociación, nunca de lo que manda el cliente, y cada validación se acredita
+ * una sola vez (la marca vive en una colección que solo escribe el servidor).
+ * Solo se acreditan validaciones que el servidor autorizó: el documento de
+ * validaciones lo escribe el cliente, la autorización no.
+ * Puede pedirlo el comercio o el socio de la validación, o el titular del
+ * grupo familiar del socio.
+ */
+export async function acreditarValidacionServidor(
+  validacionId: string,
+  uid: string
+): Promise<AcreditacionValidacion> {
+  const validacionRef = adminDb.collection(COLLECTIONS.VALIDACIONES).doc(validacionId);
+  const marcaRef = adminDb.collection(COLLECTIONS.VALIDACIONES_ACREDITADAS).doc(validacionId);
+  const autorizacionRef = adminDb.collection(COLLECTIONS.AUTORIZACIONES_VALIDACION).doc(validacionId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const [validacionDoc, marcaDoc, autorizacionDoc] = await Promise.all([
+      transaction.get(validacionRef),
+      transaction.get(marcaRef),
+      transaction.get(autorizacionRef),
+    ]);
+
+    const validacion = validacionDoc.data();
+    if (!validacion) {
+      throw new AcreditacionError('Validación no encontrada', 404);
+    }
+    if (validacion.estado !== 'exitosa') {
+      throw new AcreditacionError('Solo se acreditan validaciones exitosas', 400);
+    }
+    // Un canje ya se cobró en puntos (ver /api/canjes): no suma puntos
+    if (marcaDoc.exists || validacion.metodoValidacion === 'canje_puntos') {
+      return { acreditada: false, puntos: 0 };
+    }
+
+    const autorizacion = autorizacionDoc.data();
+    if (
+      !autorizacion ||
+      autorizacion.socioId !== validacion.socioId ||
+      autorizacion.comercioId !== validacion.comercioId
+    ) {
+      throw new AcreditacionError('La validación no fue autorizada por el servidor', 403);
+    }
+
+    const socioRef = adminDb.collection(COLLECTIONS.SOCIOS).doc(validacion.socioId);
+    const socioDoc = await transaction.get(socioRef);
+    const socio = socioDoc.data();
+    if (!socio) {
+      throw new AcreditacionError('Socio no encontrado', 404);
+    }
+
+    const autorizado = [validacion.comercioId, validacion.socioId, socio.titularId].includes(uid);
+    if (!autorizado) {
+      throw new AcreditacionError('No puedes acreditar esta validación', 403);
+    }
+
+    const asociacionId: string | null = socio.asociacionId || null;
+    const configDoc = asociacionId
+      ? await transaction.get(adminDb.collection(COLLECTIONS.CONFIGURACION_FIDELIZACION).doc(asociacionId))
+      : null;
+    const configuracion = normalizeConfiguracionFidelizacion(configDoc?.data() ?? null);
+
+    // Las validaciones sin conexión cuentan para la racha en el mes de la captura
+    const fecha = toDate(validacion.capturadoEn) ?? toDate(validacion.fechaValidacion) ?? new Date();
+    const { racha, bono } = avanzarRacha(socio.racha, fecha, configuracion);
+    const beneficioTitulo: string = validacion.beneficioTitulo || validacion.beneficioUsado?.titulo || 'Beneficio';
+
+    const movimientos = [
+      {
+        id: `${validacionId}_validacion`,
+        tipo: 'validacion',
+        puntos: configuracion.puntosPorValidacion,
+        descripcion: `Beneficio utilizado: ${beneficioTitulo}`,
+      },
+      {
+        id: `${validacionId}_racha`,
+        tipo: 'racha',
+        puntos: bono ? configuracion.puntosPorRacha : 0,
+        descripcion: `Racha de ${racha.meses} meses consecutivos usando beneficios`,
+      },
+    ].filter(movimiento => movimiento.puntos > 0);
+
+    movimientos.forEach(({ id, ...movimiento }) => {
+      transaction.set(adminDb.collection(COLLECTIONS.PUNTOS_MOVIMIENTOS).doc(id), {
+        ...movimiento,
+        socioId: validacion.socioId,
+        asociacionId,
+        referenciaId: validacionId,
+        comercioId: validacion.comercioId ?? null,
+        creadoEn: FieldValue.serverTimestamp(),
+      });
+    });
+
+    const puntos = movimientos.reduce((total, movimiento) => total + movimiento.puntos, 0);
+    transaction.update(socioRef, {
+      beneficiosUsados: FieldValue.increment(1),
+      ahorroTotal: FieldValue.increment(Number(validacion.montoDescuento) || 0),
+      ultimaValidacion: FieldValue.serverTimestamp(),
+      ultimaActividad: FieldValue.serverTimestamp(),
+      actualizadoEn: FieldValue.serverTimestamp(),
+      racha,
+      ...(puntos > 0 ? {
+        puntosFidelidad: FieldValue.increment(puntos),
+        saldoPuntos: FieldValue.increment(puntos),
+      } : {}),
+    });
+
+    transaction.set(marcaRef, {
+      socioId: validacion.socioId,
+      comercioId: validacion.comercioId ?? null,
+      puntos,
+      acreditadaEn: FieldValue.serverTimestamp(),
+    });
+
+    return { acreditada: true, puntos };
+  });
+}
@@ -0,0 +1,203 @@
+import { SocioLevel } from '../types/socio';
+import {
+  ConfiguracionFidelizacion,
+  NivelFidelizacion,
+  NivelSocio,
+  RachaSocio,
+} from '../types/fidelizacion';
+import { DEFAULT_COMERCIO_TIMEZONE } from './benefit-schedule';
+
+/**
+ * Reglas de fidelización: cuántos puntos otorga cada acción, a qué nivel
+ * corresponde un puntaje y cuánto descuento adicional da cada nivel.
+ *
+ * La cola de movimientos (puntos_movimientos) es la fuente de verdad. Los
+ * puntos se acreditan en el momento, pero el ascenso o descenso de nivel lo
+ * aplica la función programada actualizarNivelesSocios, que recalcula los
+ * puntos de la ventana configurada por cada asociación.
+ */
+
+export const NIVELES_SOCIO: NivelSocio[] = ['Bronze', 'Silver', 'Gold', 'Platinum', 'Diamond'];
+
+export const DEFAULT_CONFIGURACION_FIDELIZACION: ConfiguracionFidelizacion = {
+  puntosPorValidacion: 10,
+  puntosPorMesPagado: 20,
+  rachaMeses: 3,
+  puntosPorRacha: 50,
+  ventanaMeses: 12,
+  niveles: [
+    { nivel: 'Bronze', puntosMinimos: 0, descuentoAdicional: 0, beneficiosDesbloqueados: [] },
+    { nivel: 'Silver', puntosMinimos: 500, descuentoAdicional: 2, beneficiosDesbloqueados: [] },
+    { nivel: 'Gold', puntosMinimos: 1500, descuentoAdicional: 5, beneficiosDesbloqueados: [] },
+    { nivel: 'Platinum', puntosMinimos: 3500, descuentoAdicional: 8, beneficiosDesbloqueados: [] },
+    { nivel: 'Diamond', puntosMinimos: 7000, descuentoAdicional: 12, beneficiosDesbloqueados: [] },
+  ],
+};
+
+const nonNegative = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+/**
+ * Completa una configuración guardada con los valores por defecto y deja los
+ * niveles ordenados, con el primero siempre desde 0 puntos
+ */
+export function normalizeConfiguracionFidelizacion(
+  config?: Partial<ConfiguracionFidelizacion> | null
+): ConfiguracionFidelizacion {
+  const defaults = DEFAULT_CONFIGURACION_FIDELIZACION;
+
+  const niveles: NivelFidelizacion[] = NIVELES_SOCIO.map(nivel => {
+    const base = defaults.niveles.find(item => item.nivel === nivel) as NivelFidelizacion;
+    const saved = config?.niveles?.find(item => item.nivel === nivel);
+    return {
+      nivel,
+      puntosMinimos: nonNegative(saved?.puntosMinimos, base.puntosMinimos),
+      descuentoAdicional: Math.min(100, nonNegative(saved?.descuentoAdicional, base.descuentoAdicional)),
+      beneficiosDesbloqueados: saved?.beneficiosDesbloqueados ?? base.beneficiosDesbloqueados,
+    };
+  }).sort((a, b) => a.puntosMinimos - b.puntosMinimos);
+
+  niveles[0] = { ...niveles[0], puntosMinimos: 0 };
+
+  return {
+    puntosPorValidacion: nonNegative(config?.puntosPorValidacion, defaults.puntosPorValidacion),
+    puntosPorMesPagado: nonNegative(config?.puntosPorMesPagado, defaults.puntosPorMesPagado),
+    rachaMeses: Math.max(1, nonNegative(config?.rachaMeses, defaults.rachaMeses)),
+    puntosPorRacha: nonNegative(config?.puntosPorRacha, defaults.puntosPorRacha),
+    ventanaMeses: Math.max(1, nonNegative(config?.ventanaMeses, defaults.ventanaMeses)),
+    niveles,
+    ...(config?.actualizadoEn ? { actualizadoEn: config.actualizadoEn } : {}),
+  };
+}
+
+/**
+ * Nivel que corresponde a un puntaje. puntosParaProximoNivel es el umbral
+ * del siguiente nivel (en el nivel máximo, el propio puntaje).
+ */
+export function calcularNivelSocio(puntos: number, config: ConfiguracionFidelizacion): SocioLevel {
+  const niveles = config.niveles;
+  let index = 0;
+  niveles.forEach((nivel, i) => {
+    if (puntos >= nivel.puntosMinimos) index = i;
+  });
+
+  const actual = niveles[index];
+  const proximo = niveles[index + 1];
+
+  return {
+    nivel: actual.nivel,
+    puntos,
+    puntosParaProximoNivel: proximo ? proximo.puntosMinimos : puntos,
+    proximoNivel: proximo ? proximo.nivel : actual.nivel,
+    beneficiosDesbloqueados: actual.beneficiosDesbloqueados,
+    descuentoAdicional: actual.descuentoAdicional,
+  };
+}
+
+/**
+ * Mes calendario (YYYY-MM) en la zona horaria indicada
+ */
+export function getMesClave(fecha: Date, timezone: string = DEFAULT_COMERCIO_TIMEZONE): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit' })
+      .format(fecha)
+      .slice(0, 7);
+  } catch {
+    return getMesClave(fecha, DEFAULT_COMERCIO_TIMEZONE);
+  }
+}
+
+const mesAnterior = (mes: string): string => {
+  const [year, month] = mes.split('-').map(Number);
+  return month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, '0')}`;
+};
+
+/**
+ * Actualiza la racha de meses consecutivos con validaciones. bono es true
+ * cuando la racha acaba de completar un múltiplo de rachaMeses.
+ */
+export function avanzarRacha(
+  racha: RachaSocio | null | undefined,
+  fecha: Date,
+  config: ConfiguracionFidelizacion
+): { racha: RachaSocio; bono: boolean } {
+  const mes = getMesClave(fecha);
+
+  if (racha?.ultimoMes === mes) {
+    return { racha, bono: false };
+  }
+
+  const meses = racha?.ultimoMes === mesAnterior(mes) ? racha.meses + 1 : 1;
+  return {
+    racha: { meses, ultimoMes: mes },
+    bono: meses % config.rachaMeses === 0,
+  };
+}
+
+/**
+ * Descuento porcentual efectivo de un beneficio sumando el adicional del nivel.
+ * Los beneficios de monto fijo o producto gratis conservan su valor.
+ */
+export function aplicarDescuentoAdicional(tipo: string, descuento: number, descuentoAdicional: number = 0): number {
+  if (tipo !== 'porcentaje' || descuentoAdicional <= 0) return descuento;
+  return Math.min(100, descuento + descuentoAdicional);
+}
+
+/**
+ * Monto descontado sobre una compra, con el adicional del nivel aplicado
+ * sobre el total en los beneficios que no son porcentuales
+ */
+export function calcularMontoDescuento(
+  tipo: string,
+  descuento: number,
+  montoCompra?: number,
+  descuentoAdicional: number = 0
+): number {
+  if (!montoCompra) return 0;
+
+  const adicional = (montoCompra * descuentoAdicional) / 100;
+  switch (tipo) {
+    case 'porcentaje':
+      return (montoCompra * aplicarDescuentoAdicional(tipo, descuento, descuentoAdicional)) / 100;
+    case 'monto_fijo':
+      return Math.min(montoCompra, descuento + adicional);
+    case 'producto_gratis':
+      return adicional; // El producto no tiene valor monetario; solo cuenta el adicional
+    case 'puntos':
+      return 0; // Se paga con puntos, no es un descuento sobre la compra
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Nivel a mostrar al socio: el último calculado por la función programada con
+ * los puntos acreditados desde entonces
+ */
+export function getNivelActualSocio(
+  socio?: { nivel?: SocioLevel; puntosFidelidad?: number } | null
+): SocioLevel {
+  const nivel = socio?.nivel ?? calcularNivelSocio(0, DEFAULT_CONFIGURACION_FIDELIZACION);
+  return { ...nivel, puntos: socio?.puntosFidelidad ?? nivel.puntos };
+}
+
+/**
+ * Puntos disponibles para canjear. A diferencia de puntosFidelidad no vencen
+ * con la ventana del nivel y bajan con cada canje.
+ */
+export function getSaldoPuntos(socio?: { saldoPuntos?: number } | null): number {
+  return Math.max(0, socio?.saldoPuntos ?? 0);
+}
+
+/**
+ * Progreso hacia el próximo nivel (0–100) y puntos que faltan
+ */
+export function getProgresoNivel(nivel: SocioLevel): { porcentaje: number; restantes: number } {
+  if (nivel.puntosParaProximoNivel <= 0 || nivel.proximoNivel === nivel.nivel) {
+    return { porcentaje: 100, restantes: 0 };
+  }
+  return {
+    porcentaje: Math.min(100, (nivel.puntos / nivel.puntosParaProximoNivel) * 100),
+    restantes: Math.max(0, nivel.puntosParaProximoNivel - nivel.puntos),
+  };
+}
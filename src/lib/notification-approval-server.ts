@@ -0,0 +1,359 @@
+import { DocumentReference, FieldValue, UpdateData, DocumentData } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+import {
+  APROBADOR_SISTEMA,
+  aplicarDecision,
+  aprobacionesRequeridas,
+  avanzarPasosAutomaticos,
+  coincideConDisparadores,
+  puedeAprobar,
+} from '@/lib/notification-approval';
+import {
+  ApprovalAction,
+  ApprovalActor,
+  ApprovalAuditAction,
+  ApprovalRequest,
+  ApprovalRequestStatus,
+  ApprovalRequestStep,
+  ApprovalWorkflow,
+  NotificationData,
+} from '@/types/notification-approval';
+
+export type ResultadoSolicitud =
+  | { success: true; status: ApprovalRequestStatus }
+  | { success: false; codigo: 403 | 404 | 409; error: string };
+
+export type ResultadoRegistro =
+  | { success: true; approvalRequestId: string | null }
+  | { success: false; codigo: 409; error: string };
+
+// Escrituras por lote al liberar un envío con muchos ítems en la cola
+const ESCRITURAS_POR_LOTE = 450;
+
+const auditoria = () => adminDb.collection(COLLECTIONS.APPROVAL_AUDIT_LOG);
+
+const entradaAuditoria = (
+  solicitud: Pick<ApprovalRequest, 'asociacionId'>,
+  requestId: string,
+  action: ApprovalAuditAction,
+  actor: ApprovalActor,
+  step: number | null,
+  comment?: string | null
+) => ({
+  requestId,
+  asociacionId: solicitud.asociacionId,
+  action,
+  actorId: actor.uid,
+  actorName: actor.name,
+  step,
+  comment: comment || null,
+  createdAt: FieldValue.serverTimestamp(),
+});
+
+async function actualizarEnLotes(cambios: [DocumentReference, UpdateData<DocumentData>][]): Promise<void> {
+  for (let i = 0; i < cambios.length; i += ESCRITURAS_POR_LOTE) {
+    const batch = adminDb.batch();
+    cambios.slice(i, i + ESCRITURAS_POR_LOTE).forEach(([ref, datos]) => batch.update(ref, datos));
+    await batch.commit();
+  }
+}
+
+/**
+ * Libera o descarta lo que el envío dejó retenido: los ítems de la cola
+ * vuelven al estado con el que se habrían creado ('pending' o 'digest') o se
+ * cancelan, y las notificaciones del historial cambian de estado
+ */
+async function resolverEnvioRetenido(
+  requestId: string,
+  solicitud: Pick<ApprovalRequest, 'asociacionId'>,
+  aprobado: boolean
+): Promise<void> {
+  const [cola, notificaciones, simples] = await Promise.all([
+    adminDb.collection(COLLECTIONS.NOTIFICATION_QUEUE)
+      .where('approvalRequestId', '==', requestId)
+      .where('status', '==', 'pending_approval')
+      .get(),
+    adminDb.collection(COLLECTIONS.NOTIFICATIONS).where('approvalRequestId', '==', requestId).get(),
+    adminDb.collection(COLLECTIONS.SIMPLE_NOTIFICATIONS).where('approvalRequestId', '==', requestId).get(),
+  ]);
+
+  const updatedAt = FieldValue.serverTimestamp();
+  await actualizarEnLotes([
+    ...cola.docs.map(item => [
+      item.ref,
+      aprobado
+        ? { status: item.data().releaseStatus || 'pending', releasedAt: updatedAt, updatedAt }
+        : { status: 'cancelled', updatedAt },
+    ] as [DocumentReference, UpdateData<DocumentData>]),
+    ...notificaciones.docs.map(notificacion => [
+      notificacion.ref,
+      { status: aprobado ? 'pending' : 'rejected', updatedAt },
+    ] as [DocumentReference, UpdateData<DocumentData>]),
+    ...simples.docs.map(notificacion => [
+      notificacion.ref,
+      { status: aprobado ? 'approved' : 'rejected' },
+    ] as [DocumentReference, UpdateData<DocumentData>]),
+  ]);
+
+  await auditoria().add(entradaAuditoria(
+    solicitud,
+    requestId,
+    aprobado ? 'released' : 'cancelled',
+    APROBADOR_SISTEMA,
+    null,
+    aprobado
+      ? `${cola.size} ítem(s) liberados a la cola de envío`
+      : `${cola.size} ítem(s) cancelados en la cola de envío`
+  ));
+}
+
+/**
+ * Primer workflow activo de la asociación cuyos disparadores cumple el envío
+ */
+async function workflowAplicable(notificationData: NotificationData): Promise<ApprovalWorkflow | null> {
+  const snapshot = await adminDb.collection(COLLECTIONS.APPROVAL_WORKFLOWS)
+    .where('asociacionId', '==', notificationData.asociacionId)
+    .where('isActive', '==', true)
+    .orderBy('createdAt', 'desc')
+    .get();
+  const workflows = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ApprovalWorkflow));
+  return workflows.find(workflow => coincideConDisparadores(notificationData, workflow.triggers)) ?? null;
+}
+
+/**
+ * Pasos de la solicitud según el workflow, con los que el sistema aprueba
+ * solo ya resueltos
+ */
+function armarSolicitud(notificationData: NotificationData, workflow: ApprovalWorkflow) {
+  const metadata: ApprovalRequest['metadata'] = {
+    notificationType: notificationData.type,
+    recipientCount: notificationData.recipientCount || 0,
+    channels: notificationData.channels || [],
+    ...(notificationData.title ? { title: notificationData.title } : {}),
+    ...(notificationData.message ? { message: notificationData.message } : {}),
+    ...(notificationData.templateId ? { templateId: notificationData.templateId } : {}),
+    ...(notificationData.segmentId ? { segmentId: notificationData.segmentId } : {}),
+  };
+
+  const steps: ApprovalRequestStep[] = [...workflow.steps]
+    .sort((a, b) => a.order - b.order)
+    .map(step => ({
+      stepId: step.id,
+      status: 'pending',
+      approvals: [],
+      requiredApprovals: aprobacionesRequeridas(step),
+    }));
+
+  return { metadata, ...avanzarPasosAutomaticos({ steps, currentStep: 0, metadata }, workflow, new Date()) };
+}
+
+/**
+ * Escribe la solicitud con su auditoría: el pedido y las auto-aprobaciones.
+ * create() falla si el ID ya existe, así no se pisa una solicitud en curso
+ */
+async function guardarSolicitud(
+  requestRef: DocumentReference,
+  notificationData: NotificationData,
+  workflow: ApprovalWorkflow,
+  requester: ApprovalActor
+): Promise<ApprovalRequestStatus> {
+  const solicitud = armarSolicitud(notificationData, workflow);
+  const status: ApprovalRequestStatus = solicitud.completa ? 'approved' : 'pending';
+  const { asociacionId } = notificationData;
+
+  const batch = adminDb.batch();
+  batch.create(requestRef, {
+    workflowId: workflow.id!,
+    asociacionId,
+    notificationId: notificationData.id || '',
+    requesterId: requester.uid,
+    requesterName: requester.name,
+    status,
+    currentStep: solicitud.currentStep,
+    steps: solicitud.steps,
+    priority: notificationData.priority || 'normal',
+    metadata: solicitud.metadata,
+    comments: [],
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+    ...(solicitud.completa ? { completedAt: FieldValue.serverTimestamp() } : {}),
+  });
+  batch.set(auditoria().doc(), entradaAuditoria({ asociacionId }, requestRef.id, 'requested', requester, null));
+  solicitud.autoAprobados.forEach(paso => {
+    batch.set(auditoria().doc(), entradaAuditoria({ asociacionId }, requestRef.id, 'auto_approved', APROBADOR_SISTEMA, paso));
+  });
+  await batch.commit();
+
+  return status;
+}
+
+/**
+ * Primer paso de un envío masivo: decide si necesita aprobación. Sin
+ * workflow aplicable, o si el sistema aprueba todos los pasos (lo que queda
+ * registrado), devuelve null y el envío sigue directo. Si hace falta
+ * aprobación devuelve el ID reservado para la solicitud, con el que el
+ * cliente retiene el envío antes de registrarla
+ */
+export async function prepararSolicitud(
+  notificationData: NotificationData,
+  requester: ApprovalActor
+): Promise<string | null> {
+  const workflow = await workflowAplicable(notificationData);
+  if (!workflow) return null;
+
+  const requestRef = adminDb.collection(COLLECTIONS.APPROVAL_REQUESTS).doc();
+  if (!armarSolicitud(notificationData, workflow).completa) {
+    return requestRef.id;
+  }
+
+  await guardarSolicitud(requestRef, notificationData, workflow, requester);
+  return null;
+}
+
+/**
+ * Segundo paso, con el envío ya retenido bajo requestId: registra la
+ * solicitud pendiente. Si entre un paso y otro el workflow dejó de aplicar o
+ * quedó aprobado por el sistema, el envío retenido se libera y devuelve null
+ */
+export async function registrarSolicitud(
+  requestId: string,
+  notificationData: NotificationData,
+  requester: ApprovalActor
+): Promise<ResultadoRegistro> {
+  const requestRef = adminDb.collection(COLLECTIONS.APPROVAL_REQUESTS).doc(requestId);
+  // Un ID ya registrado no se reusa: liberaría el envío que retiene otra solicitud
+  if ((await requestRef.get()).exists) {
+    return { success: false, codigo: 409, error: 'La solicitud de aprobación ya existe' };
+  }
+
+  const workflow = await workflowAplicable(notificationData);
+  const { asociacionId } = notificationData;
+  const status = workflow ? await guardarSolicitud(requestRef, notificationData, workflow, requester) : null;
+
+  if (status !== 'pending') {
+    await resolverEnvioRetenido(requestId, { asociacionId }, true);
+    return { success: true, approvalRequestId: null };
+  }
+  return { success: true, approvalRequestId: requestId };
+}
+
+/**
+ * Nombre con el que el usuario queda en la solicitud y en la auditoría
+ */
+export async function resolverAprobador(uid: string, role?: string): Promise<ApprovalActor> {
+  const usuario = (await adminDb.collection(COLLECTIONS.USERS).doc(uid).get()).data();
+  return {
+    uid,
+    role,
+    name: usuario?.nombreAsociacion || usuario?.nombre || usuario?.email || uid,
+  };
+}
+
+/**
+ * Aprueba o rechaza el paso actual de una solicitud. La decisión y las
+ * auto-aprobaciones que dispare se auditan en la misma transacción; si la
+ * solicitud queda resuelta, el envío retenido se libera o se cancela
+ */
+export async function decidirSolicitud(
+  requestId: string,
+  actor: ApprovalActor,
+  action: ApprovalAction['action'],
+  comment?: string
+): Promise<ResultadoSolicitud> {
+  const requestRef = adminDb.collection(COLLECTIONS.APPROVAL_REQUESTS).doc(requestId);
+  let asociacionId = '';
+
+  const resultado = await adminDb.runTransaction(async (transaction): Promise<ResultadoSolicitud> => {
+    const requestDoc = await transaction.get(requestRef);
+    if (!requestDoc.exists) {
+      return { success: false, codigo: 404, error: 'Solicitud de aprobación no encontrada' };
+    }
+    const solicitud = { id: requestDoc.id, ...requestDoc.data() } as ApprovalRequest;
+    asociacionId = solicitud.asociacionId;
+
+    const workflowDoc = await transaction.get(
+      adminDb.collection(COLLECTIONS.APPROVAL_WORKFLOWS).doc(solicitud.workflowId)
+    );
+    if (!workflowDoc.exists) {
+      return { success: false, codigo: 409, error: 'El workflow de la solicitud ya no existe' };
+    }
+    const workflow = { id: workflowDoc.id, ...workflowDoc.data() } as ApprovalWorkflow;
+
+    const decision = aplicarDecision(solicitud, workflow, actor, action, comment, new Date());
+    if (!decision.ok) {
+      return { success: false, codigo: decision.motivo === 'no_autorizado' ? 403 : 409, error: decision.error };
+    }
+
+    transaction.update(requestRef, {
+      steps: decision.steps,
+      currentStep: decision.currentStep,
+      status: decision.status,
+      updatedAt: FieldValue.serverTimestamp(),
+      ...(decision.status !== 'pending' ? { completedAt: FieldValue.serverTimestamp() } : {}),
+    });
+    transaction.set(auditoria().doc(), entradaAuditoria(
+      solicitud,
+      requestId,
+      action === 'approve' ? 'approved' : 'rejected',
+      actor,
+      solicitud.currentStep,
+      comment
+    ));
+    decision.autoAprobados.forEach(paso => {
+      transaction.set(auditoria().doc(), entradaAuditoria(solicitud, requestId, 'auto_approved', APROBADOR_SISTEMA, paso));
+    });
+
+    return { success: true, status: decision.status };
+  });
+
+  if (resultado.success && resultado.status !== 'pending') {
+    await resolverEnvioRetenido(requestId, { asociacionId }, resultado.status === 'approved');
+  }
+  return resultado;
+}
+
+/**
+ * Agrega un comentario a la solicitud. Pueden comentar la asociación dueña,
+ * quien la pidió, los administradores y los aprobadores de cualquier paso
+ */
+export async function comentarSolicitud(
+  requestId: string,
+  actor: ApprovalActor,
+  comment: string,
+  isInternal: boolean
+): Promise<ResultadoSolicitud> {
+  const requestRef = adminDb.collection(COLLECTIONS.APPROVAL_REQUESTS).doc(requestId);
+  const requestDoc = await requestRef.get();
+  if (!requestDoc.exists) {
+    return { success: false, codigo: 404, error: 'Solicitud de aprobación no encontrada' };
+  }
+  const solicitud = requestDoc.data() as ApprovalRequest;
+
+  let autorizado = actor.role === 'admin' || actor.uid === solicitud.asociacionId || actor.uid === solicitud.requesterId;
+  if (!autorizado) {
+    const workflow = (await adminDb.collection(COLLECTIONS.APPROVAL_WORKFLOWS).doc(solicitud.workflowId).get())
+      .data() as ApprovalWorkflow | undefined;
+    autorizado = !!workflow?.steps.some(step => puedeAprobar(actor, step, solicitud.asociacionId));
+  }
+  if (!autorizado) {
+    return { success: false, codigo: 403, error: 'No podés comentar esta solicitud' };
+  }
+
+  const batch = adminDb.batch();
+  batch.update(requestRef, {
+    comments: FieldValue.arrayUnion({
+      id: auditoria().doc().id,
+      userId: actor.uid,
+      userName: actor.name,
+      comment,
+      timestamp: new Date(),
+      isInternal,
+    }),
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  batch.set(auditoria().doc(), entradaAuditoria(solicitud, requestId, 'commented', actor, solicitud.currentStep, comment));
+  await batch.commit();
+
+  return { success: true, status: solicitud.status };
+}
@@ -0,0 +1,238 @@
+import {
+  ApprovalAction,
+  ApprovalActor,
+  ApprovalCondition,
+  ApprovalRequest,
+  ApprovalRequestStatus,
+  ApprovalRequestStep,
+  ApprovalStep,
+  ApprovalWorkflow,
+  NotificationData,
+  WorkflowTrigger,
+} from '@/types/notification-approval';
+
+// Autor de las aprobaciones automáticas
+export const APROBADOR_SISTEMA: ApprovalActor = {
+  uid: 'system',
+  role: 'system',
+  name: 'Sistema (Auto-aprobación)',
+};
+
+export function aprobacionesRequeridas(step: ApprovalStep): number {
+  return step.approverType === 'all' ? step.approvers.length : Math.max(1, step.requiredApprovals);
+}
+
+/**
+ * Si el usuario puede decidir el paso. El rol 'asociacion' solo habilita a la
+ * asociación dueña del envío, no a cualquier asociación
+ */
+export function puedeAprobar(
+  actor: Pick<ApprovalActor, 'uid' | 'role'>,
+  step: ApprovalStep,
+  asociacionId: string
+): boolean {
+  switch (step.approverType) {
+    case 'role':
+      if (!actor.role || !step.approvers.includes(actor.role)) return false;
+      return actor.role !== 'asociacion' || actor.uid === asociacionId;
+    case 'user':
+    case 'any':
+    case 'all':
+      return step.approvers.includes(actor.uid);
+    default:
+      return false;
+  }
+}
+
+const valorDelDisparador = (data: NotificationData, trigger: WorkflowTrigger) => {
+  switch (trigger.type) {
+    case 'notification_type':
+      return data.type;
+    case 'recipient_count':
+      return data.recipientCount ?? 0;
+    case 'content_keywords':
+      return `${data.title ?? ''} ${data.message ?? ''}`.toLowerCase();
+    case 'priority':
+      return data.priority ?? 'normal';
+    case 'channel':
+      return data.channels ?? [];
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Si el envío cumple todos los disparadores del workflow. Los canales se
+ * comparan como lista y las palabras clave sin distinguir mayúsculas
+ */
+export function coincideConDisparadores(data: NotificationData, triggers: WorkflowTrigger[]): boolean {
+  return triggers.every(trigger => {
+    const value = valorDelDisparador(data, trigger);
+    const esperado = trigger.type === 'content_keywords'
+      ? (Array.isArray(trigger.value) ? trigger.value : [String(trigger.value)]).map(v => v.toLowerCase())
+      : trigger.value;
+
+    switch (trigger.operator) {
+      case 'equals':
+        return value === esperado;
+      case 'contains':
+        if (Array.isArray(value)) return value.includes(String(esperado));
+        if (Array.isArray(esperado)) return esperado.some(palabra => String(value).includes(palabra));
+        return String(value).includes(String(esperado));
+      case 'greater_than':
+        return Number(value) > Number(esperado);
+      case 'less_than':
+        return Number(value) < Number(esperado);
+      case 'in':
+        if (!Array.isArray(esperado)) return false;
+        if (Array.isArray(value)) return value.some(v => esperado.includes(v));
+        return typeof value === 'string' && esperado.includes(value);
+      default:
+        return false;
+    }
+  });
+}
+
+export function cumpleCondiciones(
+  conditions: ApprovalCondition[],
+  metadata: ApprovalRequest['metadata']
+): boolean {
+  return conditions.every(condition => {
+    const value = metadata[condition.field as keyof typeof metadata];
+
+    switch (condition.operator) {
+      case 'equals':
+        return value === condition.value;
+      case 'less_than':
+        return Number(value) < Number(condition.value);
+      case 'greater_than':
+        return Number(value) > Number(condition.value);
+      case 'contains':
+        return String(value).includes(String(condition.value));
+      default:
+        return false;
+    }
+  });
+}
+
+const copiarPasos = (steps: ApprovalRequestStep[]): ApprovalRequestStep[] =>
+  steps.map(step => ({ ...step, approvals: [...step.approvals] }));
+
+const accionDeAprobacion = (
+  actor: ApprovalActor,
+  action: ApprovalAction['action'],
+  comment: string | undefined,
+  ahora: Date
+): ApprovalAction => ({
+  approverId: actor.uid,
+  approverName: actor.name,
+  action,
+  ...(comment ? { comment } : {}),
+  timestamp: ahora,
+});
+
+/**
+ * Aprueba en nombre del sistema los pasos que, desde el actual, tienen
+ * auto-aprobación y cumplen sus condiciones. Se detiene en el primero que
+ * necesita una persona
+ */
+export function avanzarPasosAutomaticos(
+  solicitud: Pick<ApprovalRequest, 'steps' | 'currentStep' | 'metadata'>,
+  workflow: ApprovalWorkflow,
+  ahora: Date
+): { steps: ApprovalRequestStep[]; currentStep: number; completa: boolean; autoAprobados: number[] } {
+  const steps = copiarPasos(solicitud.steps);
+  const autoAprobados: number[] = [];
+  let actual = solicitud.currentStep;
+
+  while (actual < steps.length) {
+    const definicion = workflow.steps.find(s => s.id === steps[actual].stepId);
+    if (!definicion?.autoApprove || !definicion.autoApproveConditions?.length ||
+        !cumpleCondiciones(definicion.autoApproveConditions, solicitud.metadata)) {
+      break;
+    }
+
+    steps[actual].approvals.push(
+      accionDeAprobacion(APROBADOR_SISTEMA, 'approve', 'Aprobado automáticamente por el sistema', ahora)
+    );
+    steps[actual].status = 'approved';
+    autoAprobados.push(actual);
+    actual++;
+  }
+
+  const completa = actual >= steps.length;
+  return { steps, currentStep: completa ? steps.length - 1 : actual, completa, autoAprobados };
+}
+
+export type ResultadoDecision =
+  | { ok: false; motivo: 'no_pendiente' | 'no_autorizado' | 'repetida' | 'workflow'; error: string }
+  | {
+      ok: true;
+      steps: ApprovalRequestStep[];
+      currentStep: number;
+      status: ApprovalRequestStatus;
+      // Pasos que aprobó el sistema al avanzar
+      autoAprobados: number[];
+    };
+
+/**
+ * Registra la decisión de un aprobador sobre el paso actual. Un rechazo
+ * rechaza la solicitud entera; al juntar las aprobaciones necesarias se pasa
+ * al paso siguiente, y al completar el último la solicitud queda aprobada
+ */
+export function aplicarDecision(
+  solicitud: ApprovalRequest,
+  workflow: ApprovalWorkflow,
+  actor: ApprovalActor,
+  action: ApprovalAction['action'],
+  comment: string | undefined,
+  ahora: Date
+): ResultadoDecision {
+  if (solicitud.status !== 'pending') {
+    return { ok: false, motivo: 'no_pendiente', error: 'La solicitud ya no está pendiente' };
+  }
+
+  const steps = copiarPasos(solicitud.steps);
+  const paso = steps[solicitud.currentStep];
+  const definicion = paso && workflow.steps.find(s => s.id === paso.stepId);
+  if (!paso || !definicion) {
+    return { ok: false, motivo: 'workflow', error: 'El paso actual ya no existe en el workflow' };
+  }
+
+  if (!puedeAprobar(actor, definicion, solicitud.asociacionId)) {
+    return { ok: false, motivo: 'no_autorizado', error: 'No estás autorizado para decidir este paso' };
+  }
+  if (paso.approvals.some(a => a.approverId === actor.uid)) {
+    return { ok: false, motivo: 'repetida', error: 'Ya registraste tu decisión en este paso' };
+  }
+
+  paso.approvals.push(accionDeAprobacion(actor, action, comment, ahora));
+
+  if (action === 'reject') {
+    paso.status = 'rejected';
+    return { ok: true, steps, currentStep: solicitud.currentStep, status: 'rejected', autoAprobados: [] };
+  }
+
+  const aprobaciones = paso.approvals.filter(a => a.action === 'approve').length;
+  if (aprobaciones < aprobacionesRequeridas(definicion)) {
+    return { ok: true, steps, currentStep: solicitud.currentStep, status: 'pending', autoAprobados: [] };
+  }
+
+  paso.status = 'approved';
+  if (solicitud.currentStep + 1 >= steps.length) {
+    return { ok: true, steps, currentStep: solicitud.currentStep, status: 'approved', autoAprobados: [] };
+  }
+
+  const siguiente = avanzarPasosAutomaticos(
+    { steps, currentStep: solicitud.currentStep + 1, metadata: solicitud.metadata },
+    workflow,
+    ahora
+  );
+  return {
+    ok: true,
+    steps: siguiente.steps,
+    currentStep: siguiente.currentStep,
+    status: siguiente.completa ? 'approved' : 'pending',
+    autoAprobados: siguiente.autoAprobados,
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Reglas de envío según las preferencias del destinatario: horario
+ * silencioso en su zona horaria, frecuencia de resumen y categorías
+ * desactivadas. notificationQueueService y el procesador de la cola de
+ * functions/ la usan para decidir qué hacer con cada envío; la prioridad
+ * 'urgent' se salta todas las reglas.
+ */
+
+import {
+  FrecuenciaNotificaciones,
+  NotificationCategory,
+  NotificationPriority,
+  NotificationSettings,
+} from '../types/notification';
+import { desdeFechaLocal, getFechaLocal, ZONA_HORARIA_POR_DEFECTO, zonaValida } from './notification-schedule';
+
+export interface PreferenciasEnvio {
+  categories: Record<NotificationCategory, boolean>;
+  quietHours: NotificationSettings['quietHours'];
+  frequency: FrecuenciaNotificaciones;
+  timezone: string;
+}
+
+export type DecisionEnvio =
+  | { accion: 'enviar' }
+  | { accion: 'suprimir'; motivo: string }
+  | { accion: 'diferir'; hasta: Date }
+  | { accion: 'resumen'; hasta: Date };
+
+// Hora local a la que salen los resúmenes diarios y semanales (los lunes)
+export const HORA_RESUMEN = 9;
+
+export const FRECUENCIAS_NOTIFICACION: Record<FrecuenciaNotificaciones, string> = {
+  immediate: 'Inmediata',
+  hourly: 'Resumen cada hora',
+  daily: 'Resumen diario',
+  weekly: 'Resumen semanal',
+};
+
+export const CATEGORIAS_NOTIFICACION: Record<NotificationCategory, string> = {
+  system: 'Sistema',
+  membership: 'Membresía',
+  payment: 'Pagos',
+  event: 'Eventos',
+  general: 'General',
+};
+
+export const PREFERENCIAS_POR_DEFECTO: PreferenciasEnvio = {
+  categories: { system: true, membership: true, payment: true, event: true, general: true },
+  quietHours: { enabled: false, start: '22:00', end: '08:00' },
+  frequency: 'immediate',
+  timezone: ZONA_HORARIA_POR_DEFECTO,
+};
+
+const FRECUENCIAS = Object.keys(FRECUENCIAS_NOTIFICACION) as FrecuenciaNotificaciones[];
+
+// Completa con los valores por defecto lo que falte en el documento guardado
+export function normalizarPreferencias(data: Partial<NotificationSettings> | undefined | null): PreferenciasEnvio {
+  return {
+    categories: { ...PREFERENCIAS_POR_DEFECTO.categories, ...(data?.categories ?? {}) },
+    quietHours: { ...PREFERENCIAS_POR_DEFECTO.quietHours, ...(data?.quietHours ?? {}) },
+    frequency: data?.frequency && FRECUENCIAS.includes(data.frequency) ? data.frequency : 'immediate',
+    timezone: zonaValida(data?.timezone),
+  };
+}
+
+const aMinutos = (hora: string): number | null => {
+  const [h, m] = hora.split(':').map(Number);
+  return Number.isInteger(h) && Number.isInteger(m) && h >= 0 && h < 24 && m >= 0 && m < 60 ? h * 60 + m : null;
+};
+
+/**
+ * Fin del horario silencioso en curso, o null si `fecha` no cae en él
+ */
+export function finHorarioSilencioso(
+  quietHours: NotificationSettings['quietHours'],
+  timezone: string,
+  fecha: Date
+): Date | null {
+  if (!quietHours.enabled) return null;
+  const inicio = aMinutos(quietHours.start);
+  const fin = aMinutos(quietHours.end);
+  if (inicio === null || fin === null || inicio === fin) return null;
+
+  const local = getFechaLocal(fecha, timezone);
+  const ahora = local.hour * 60 + local.minute;
+  const cruzaMedianoche = inicio > fin;
+  const silencioso = cruzaMedianoche ? ahora >= inicio || ahora < fin : ahora >= inicio && ahora < fin;
+  if (!silencioso) return null;
+
+  // Pasada la medianoche el horario termina hoy; antes, mañana
+  const dia = cruzaMedianoche && ahora >= inicio ? local.day + 1 : local.day;
+  return desdeFechaLocal(
+    { year: local.year, month: local.month, day: dia, hour: Math.floor(fin / 60), minute: fin % 60 },
+    timezone
+  );
+}
+
+/**
+ * Próximo envío del resumen para la frecuencia: al comienzo de la hora
+ * siguiente, a las HORA_RESUMEN de cada día o del lunes.
+ */
+export function proximoResumen(frequency: FrecuenciaNotificaciones, timezone: string, desde: Date): Date {
+  const local = getFechaLocal(desde, timezone);
+  if (frequency === 'hourly') {
+    return desdeFechaLocal({ ...local, hour: local.hour + 1, minute: 0 }, timezone);
+  }
+
+  let dias = local.hour < HORA_RESUMEN ? 0 : 1;
+  if (frequency === 'weekly') {
+    const diaSemana = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+    dias = (8 - diaSemana) % 7;
+    if (dias === 0 && local.hour >= HORA_RESUMEN) dias = 7;
+  }
+  return desdeFechaLocal({ ...local, day: local.day + dias, hour: HORA_RESUMEN, minute: 0 }, timezone);
+}
+
+export function decidirEnvio(
+  preferencias: PreferenciasEnvio,
+  envio: { category?: NotificationCategory; priority?: NotificationPriority },
+  ahora: Date = new Date()
+): DecisionEnvio {
+  if (envio.priority === 'urgent') return { accion: 'enviar' };
+
+  const categoria = envio.category ?? 'general';
+  if (preferencias.categories[categoria] === false) {
+    return { accion: 'suprimir', motivo: `Categoría ${categoria} desactivada por el destinatario` };
+  }
+
+  if (preferencias.frequency !== 'immediate') {
+    const hasta = proximoResumen(preferencias.frequency, preferencias.timezone, ahora);
+    return {
+      accion: 'resumen',
+      hasta: finHorarioSilencioso(preferencias.quietHours, preferencias.timezone, hasta) ?? hasta,
+    };
+  }
+
+  const fin = finHorarioSilencioso(preferencias.quietHours, preferencias.timezone, ahora);
+  return fin ? { accion: 'diferir', hasta: fin } : { accion: 'enviar' };
+}
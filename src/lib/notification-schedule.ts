@@ -0,0 +1,153 @@
+/**
+ * Cálculo de la próxima ejecución de una notificación programada.
+ *
+ * La hora (HH:mm), los días de la semana y el día del mes se interpretan en
+ * la zona horaria del programa, no en la del navegador ni en la del servidor.
+ * La función procesarNotificacionesProgramadas de functions/ la usa para
+ * avanzar el programa después de cada ejecución.
+ */
+
+export interface ProgramaNotificacion {
+  type: 'once' | 'recurring';
+  startDate: Date;
+  endDate?: Date;
+  frequency?: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval?: number;
+  daysOfWeek?: number[]; // 0-6 (domingo-sábado)
+  dayOfMonth?: number; // 1-31; en meses más cortos se usa el último día
+  time: string; // HH:mm
+  timezone: string;
+}
+
+export const ZONA_HORARIA_POR_DEFECTO = 'America/Argentina/Buenos_Aires';
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+export interface FechaLocal {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export const zonaValida = (timezone: string | undefined): string => {
+  if (!timezone) return ZONA_HORARIA_POR_DEFECTO;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    return ZONA_HORARIA_POR_DEFECTO;
+  }
+};
+
+// Fecha y hora de pared de un instante en la zona indicada
+export const getFechaLocal = (fecha: Date, timezone: string): FechaLocal => {
+  const partes = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(fecha);
+  const valor = (tipo: Intl.DateTimeFormatPartTypes) => Number(partes.find(p => p.type === tipo)?.value);
+
+  return {
+    year: valor('year'),
+    month: valor('month'),
+    day: valor('day'),
+    hour: valor('hour'),
+    minute: valor('minute'),
+  };
+};
+
+// Instante que corresponde a una hora de pared en la zona indicada (con horario de verano)
+export const desdeFechaLocal = (local: FechaLocal, timezone: string): Date => {
+  const comoUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const offset = (instante: number) => {
+    const pared = getFechaLocal(new Date(instante), timezone);
+    return Date.UTC(pared.year, pared.month - 1, pared.day, pared.hour, pared.minute) - instante;
+  };
+
+  const primero = comoUtc - offset(comoUtc);
+  return new Date(comoUtc - offset(primero));
+};
+
+// Días civiles desde la época, para comparar fechas sin horas
+const diaCivil = (year: number, month: number, day: number): number =>
+  Math.floor(Date.UTC(year, month - 1, day) / MS_POR_DIA);
+
+const ultimoDiaDelMes = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Próxima ejecución posterior a `desde`, o undefined si el programa ya terminó
+ */
+export function calcularProximaEjecucion(
+  schedule: ProgramaNotificacion,
+  desde: Date = new Date()
+): Date | undefined {
+  const startDate = new Date(schedule.startDate);
+  const endDate = schedule.endDate ? new Date(schedule.endDate) : undefined;
+
+  if (schedule.type === 'once') {
+    return startDate > desde ? startDate : undefined;
+  }
+
+  const timezone = zonaValida(schedule.timezone);
+  const [hour, minute] = (schedule.time || '09:00').split(':').map(Number);
+  const interval = Math.max(1, Math.floor(schedule.interval || 1));
+  const inicio = getFechaLocal(startDate, timezone);
+  const diaInicio = diaCivil(inicio.year, inicio.month, inicio.day);
+  // La semana del inicio empieza el domingo
+  const semanaInicio = diaInicio - new Date(diaInicio * MS_POR_DIA).getUTCDay();
+  const diasSemana = schedule.daysOfWeek?.length
+    ? schedule.daysOfWeek
+    : [new Date(diaInicio * MS_POR_DIA).getUTCDay()];
+
+  const base = desde > startDate ? desde : startDate;
+  const local = getFechaLocal(base, timezone);
+  const primerDia = diaCivil(local.year, local.month, local.day);
+  // Alcanza para encontrar una ocurrencia en cualquier frecuencia e intervalo
+  const maxDias = 366 * interval + 31;
+
+  for (let dia = primerDia; dia <= primerDia + maxDias; dia++) {
+    const fecha = new Date(dia * MS_POR_DIA);
+    const year = fecha.getUTCFullYear();
+    const month = fecha.getUTCMonth() + 1;
+    const day = fecha.getUTCDate();
+
+    let coincide: boolean;
+    switch (schedule.frequency || 'daily') {
+      case 'weekly': {
+        const semana = dia - fecha.getUTCDay();
+        coincide = diasSemana.includes(fecha.getUTCDay()) &&
+          Math.round((semana - semanaInicio) / 7) % interval === 0;
+        break;
+      }
+      case 'monthly': {
+        const diaObjetivo = Math.min(schedule.dayOfMonth || inicio.day, ultimoDiaDelMes(year, month));
+        const meses = (year - inicio.year) * 12 + (month - inicio.month);
+        coincide = day === diaObjetivo && meses % interval === 0;
+        break;
+      }
+      case 'yearly': {
+        const diaObjetivo = Math.min(inicio.day, ultimoDiaDelMes(year, month));
+        coincide = month === inicio.month && day === diaObjetivo && (year - inicio.year) % interval === 0;
+        break;
+      }
+      default:
+        coincide = (dia - diaInicio) % interval === 0;
+    }
+    if (!coincide) continue;
+
+    const candidata = desdeFechaLocal({ year, month, day, hour, minute }, timezone);
+    if (candidata <= desde || candidata < startDate) continue;
+    if (endDate && candidata > endDate) return undefined;
+    return candidata;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,41 @@
+/**
+ * Público de un envío segmentado: qué usuarios de la colección users lo
+ * reciben según el tipo de usuario, la asociación y los excluidos. El
+ * programador de notificaciones y las funciones procesarNotificacionesProgramadas
+ * y procesarEventosDominio de functions/ consultan users con estos filtros.
+ */
+
+export interface SegmentacionEnvio {
+  userTypes?: string[];
+  associations?: string[];
+  excludeUsers?: string[];
+}
+
+export interface FiltroSegmentacion {
+  campo: 'role' | 'asociacionId';
+  valores: string[];
+}
+
+// Firestore admite hasta 30 valores en un filtro 'in'
+const MAX_VALORES_IN = 30;
+
+/**
+ * Filtros 'in' de la consulta a users. Sin tipos de usuario, o con 'all',
+ * el envío no se acota por rol
+ */
+export function filtrosDeSegmentacion(segmentacion: SegmentacionEnvio | undefined): FiltroSegmentacion[] {
+  const filtros: FiltroSegmentacion[] = [];
+  const userTypes = segmentacion?.userTypes ?? [];
+  if (userTypes.length > 0 && !userTypes.includes('all')) {
+    filtros.push({ campo: 'role', valores: userTypes.slice(0, MAX_VALORES_IN) });
+  }
+  if (segmentacion?.associations?.length) {
+    filtros.push({ campo: 'asociacionId', valores: segmentacion.associations.slice(0, MAX_VALORES_IN) });
+  }
+  return filtros;
+}
+
+export const sinExcluidos = (userIds: string[], segmentacion: SegmentacionEnvio | undefined): string[] => {
+  const excluidos = new Set(segmentacion?.excludeUsers ?? []);
+  return userIds.filter(id => !excluidos.has(id));
+};
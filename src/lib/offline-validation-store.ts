@@ -0,0 +1,160 @@
+import { BenefitRestrictionCode } from '@/lib/benefit-schedule';
+
+/**
+ * Almacenamiento local (IndexedDB) para validar beneficios sin conexión.
+ *
+ * - snapshots: copia de las reglas del comercio y sus beneficios activos,
+ *   tomada mientras hay conexión
+ * - redenciones: validaciones hechas sin conexión. Quedan 'pendiente' hasta
+ *   sincronizarse; si el servidor las rechaza pasan a 'conflicto' para revisión
+ */
+
+const DB_NAME = 'fidelya-validaciones-offline';
+const DB_VERSION = 1;
+const SNAPSHOTS_STORE = 'snapshots';
+const REDENCIONES_STORE = 'redenciones';
+
+export interface OfflineBeneficio {
+  id: string;
+  titulo: string;
+  descripcion: string;
+  descuento: number;
+  tipo: string;
+  estado?: string;
+  tipoAcceso?: string;
+  asociacionesDisponibles?: string[];
+  fechaInicio?: Date | null;
+  fechaFin?: Date | null;
+  limiteTotal?: number;
+  limitePorSocio?: number;
+  usosActuales?: number;
+  diasValidez?: string[];
+  horariosValidez?: { inicio: string; fin: string };
+  mediosPagoHabilitados?: string[];
+}
+
+export interface EligibilitySnapshot {
+  comercioId: string;
+  comercio: {
+    nombreComercio: string;
+    timezone?: string;
+    asociacionesVinculadas: string[];
+  };
+  beneficios: OfflineBeneficio[];
+  actualizadoEn: Date;
+}
+
+export type OfflineRedencionEstado = 'pendiente' | 'conflicto';
+
+export interface OfflineRedencion {
+  // Nonce de la credencial: una misma credencial no se encola dos veces
+  id: string;
+  comercioId: string;
+  socioId: string;
+  socioNombre: string;
+  numeroSocio: string | null;
+  beneficioId: string;
+  beneficioTitulo: string;
+  medioPago?: string;
+  token: string;
+  capturadoEn: number;
+  estado: OfflineRedencionEstado;
+  intentos: number;
+  conflicto?: {
+    message: string;
+    errorCode?: BenefitRestrictionCode;
+    detectadoEn: number;
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('Este navegador no permite guardar validaciones sin conexión'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+          db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'comercioId' });
+        }
+        if (!db.objectStoreNames.contains(REDENCIONES_STORE)) {
+          const store = db.createObjectStore(REDENCIONES_STORE, { keyPath: 'id' });
+          store.createIndex('comercioId', 'comercioId');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(action(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const offlineValidationStore = {
+  saveSnapshot(snapshot: EligibilitySnapshot): Promise<IDBValidKey> {
+    return withStore(SNAPSHOTS_STORE, 'readwrite', store => store.put(snapshot));
+  },
+
+  async getSnapshot(comercioId: string): Promise<EligibilitySnapshot | null> {
+    const snapshot = await withStore<EligibilitySnapshot | undefined>(
+      SNAPSHOTS_STORE,
+      'readonly',
+      store => store.get(comercioId)
+    );
+    return snapshot ?? null;
+  },
+
+  putRedencion(redencion: OfflineRedencion): Promise<IDBValidKey> {
+    return withStore(REDENCIONES_STORE, 'readwrite', store => store.put(redencion));
+  },
+
+  /**
+   * Agrega una redención nueva; falla si la credencial ya estaba encolada
+   */
+  addRedencion(redencion: OfflineRedencion): Promise<IDBValidKey> {
+    return withStore(REDENCIONES_STORE, 'readwrite', store => store.add(redencion));
+  },
+
+  deleteRedencion(id: string): Promise<undefined> {
+    return withStore(REDENCIONES_STORE, 'readwrite', store => store.delete(id));
+  },
+
+  /**
+   * Redenciones del comercio en el orden en que se capturaron
+   */
+  async listRedenciones(comercioId: string): Promise<OfflineRedencion[]> {
+    const redenciones = await withStore<OfflineRedencion[]>(
+      REDENCIONES_STORE,
+      'readonly',
+      store => store.index('comercioId').getAll(comercioId)
+    );
+    return redenciones.sort((a, b) => a.capturadoEn - b.capturadoEn);
+  },
+};
+
+export default offlineValidationStore;
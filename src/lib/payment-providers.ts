@@ -0,0 +1,249 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getAppUrl } from '@/lib/app-url';
+import { EstadoPagoOnline, ProveedorPagoId } from '@/types/pagos-online';
+
+/**
+ * Proveedores de pago online para las cuotas (solo servidor).
+ *
+ * Cada proveedor arma el link de checkout, verifica la firma de sus webhooks
+ * y traduce la notificación a un formato común. El webhook de
+ * /api/webhooks/pagos/[proveedor] solo conoce esta interfaz.
+ */
+
+export interface CheckoutParams {
+  intencionId: string;
+  monto: number;
+  descripcion: string;
+  email?: string | null;
+  urlRetorno: string;
+  urlNotificacion: string;
+}
+
+export interface NotificacionPago {
+  // ID del pago en el proveedor: es la clave de idempotencia del webhook
+  pagoExternoId: string;
+  intencionId: string;
+  estado: EstadoPagoOnline;
+  monto: number;
+}
+
+export interface WebhookRequest {
+  headers: Headers;
+  searchParams: URLSearchParams;
+  rawBody: string;
+}
+
+export interface PaymentProvider {
+  readonly id: ProveedorPagoId;
+  crearCheckout(params: CheckoutParams): Promise<{ checkoutUrl: string }>;
+  verificarFirma(request: WebhookRequest): boolean;
+  // null si la notificación no es de un pago (el webhook la ignora)
+  obtenerNotificacion(request: WebhookRequest): Promise<NotificacionPago | null>;
+}
+
+const hmacHex = (secret: string, contenido: string): string =>
+  createHmac('sha256', secret).update(contenido).digest('hex');
+
+const firmasIguales = (esperada: string, recibida: string): boolean => {
+  const a = Buffer.from(esperada, 'hex');
+  const b = Buffer.from(recibida, 'hex');
+  return a.length > 0 && a.length === b.length && timingSafeEqual(a, b);
+};
+
+const parseJson = (rawBody: string): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(rawBody);
+    return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+};
+
+// Firmas de webhook más viejas que esto se rechazan (segundos)
+const TOLERANCIA_FIRMA_SEGUNDOS = 5 * 60;
+
+/**
+ * Mercado Pago: preferencia de Checkout Pro y webhook de pagos.
+ * La firma llega en x-signature ("ts=...,v1=...") y se calcula sobre
+ * "id:<data.id>;request-id:<x-request-id>;ts:<ts>;" con la clave secreta.
+ * La notificación solo trae el ID: el estado se consulta a la API.
+ */
+class MercadoPagoProvider implements PaymentProvider {
+  readonly id = 'mercado_pago' as const;
+  private readonly apiUrl = 'https://api.mercadopago.com';
+
+  private get accessToken(): string {
+    const token = process.env.MERCADOPAGO_ACCESS_TOKEN;
+    if (!token) {
+      throw new Error('MERCADOPAGO_ACCESS_TOKEN no está configurado');
+    }
+    return token;
+  }
+
+  async crearCheckout(params: CheckoutParams): Promise<{ checkoutUrl: string }> {
+    const response = await fetch(`${this.apiUrl}/checkout/preferences`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.accessToken}`,
+        'X-Idempotency-Key': params.intencionId,
+      },
+      body: JSON.stringify({
+        items: [{
+          id: params.intencionId,
+          title: params.descripcion,
+          quantity: 1,
+          currency_id: 'ARS',
+          unit_price: params.monto,
+        }],
+        payer: params.email ? { email: params.email } : undefined,
+        external_reference: params.intencionId,
+        notification_url: params.urlNotificacion,
+        back_urls: {
+          success: params.urlRetorno,
+          pending: params.urlRetorno,
+          failure: params.urlRetorno,
+        },
+        auto_return: 'approved',
+      }),
+    });
+
+    const data = await response.json();
+    if (!response.ok || typeof data.init_point !== 'string') {
+      throw new Error(`Mercado Pago rechazó la preferencia: ${data.message || response.status}`);
+    }
+    return { checkoutUrl: data.init_point };
+  }
+
+  verificarFirma({ headers, searchParams, rawBody }: WebhookRequest): boolean {
+    const secret = process.env.MERCADOPAGO_WEBHOOK_SECRET;
+    const signature = headers.get('x-signature');
+    const requestId = headers.get('x-request-id');
+    if (!secret || !signature || !requestId) return false;
+
+    const partes = Object.fromEntries(signature.split(',').map(parte => {
+      const [clave, ...valor] = parte.trim().split('=');
+      return [clave, valor.join('=')];
+    }));
+    const ts = partes.ts;
+    const v1 = partes.v1;
+    if (!ts || !v1) return false;
+
+    // ts puede venir en segundos o en milisegundos
+    const tsMs = Number(ts) < 1e12 ? Number(ts) * 1000 : Number(ts);
+    if (!Number.isFinite(tsMs) || Math.abs(Date.now() - tsMs) > TOLERANCIA_FIRMA_SEGUNDOS * 1000) return false;
+
+    const body = parseJson(rawBody);
+    const data = body?.data as { id?: unknown } | undefined;
+    const dataId = searchParams.get('data.id') ?? (data?.id != null ? String(data.id) : null);
+    if (!dataId) return false;
+
+    const manifest = `id:${dataId.toLowerCase()};request-id:${requestId};ts:${ts};`;
+    return firmasIguales(hmacHex(secret, manifest), v1);
+  }
+
+  async obtenerNotificacion({ searchParams, rawBody }: WebhookRequest): Promise<NotificacionPago | null> {
+    const body = parseJson(rawBody);
+    const tipo = body?.type ?? searchParams.get('type');
+    const data = body?.data as { id?: unknown } | undefined;
+    const pagoId = data?.id != null ? String(data.id) : searchParams.get('data.id');
+    if (tipo !== 'payment' || !pagoId) return null;
+
+    const response = await fetch(`${this.apiUrl}/v1/payments/${encodeURIComponent(pagoId)}`, {
+      headers: { Authorization: `Bearer ${this.accessToken}` },
+    });
+    if (!response.ok) {
+      throw new Error(`No se pudo consultar el pago ${pagoId} en Mercado Pago (HTTP ${response.status})`);
+    }
+
+    const pago = await response.json();
+    if (typeof pago.external_reference !== 'string' || !pago.external_reference) return null;
+
+    return {
+      pagoExternoId: String(pago.id),
+      intencionId: pago.external_reference,
+      estado: pago.status === 'approved'
+        ? 'aprobado'
+        : ['rejected', 'cancelled', 'refunded', 'charged_back'].includes(pago.status) ? 'rechazado' : 'pendiente',
+      monto: Number(pago.transaction_amount) || 0,
+    };
+  }
+}
+
+/**
+ * Proveedor local para desarrollo: el checkout lleva a /api/pagos/fake, que
+ * arma una notificación de ejemplo, la firma con FAKE_PAYMENTS_SECRET y la
+ * envía al webhook como lo haría un proveedor real.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly id = 'fake' as const;
+
+  // Sin secreto cualquiera podría firmar notificaciones de pago aprobadas:
+  // el fake queda deshabilitado hasta configurar FAKE_PAYMENTS_SECRET
+  static get habilitado(): boolean {
+    const permitido = process.env.NODE_ENV !== 'production' || process.env.FAKE_PAYMENTS_ENABLED === 'true';
+    return permitido && !!process.env.FAKE_PAYMENTS_SECRET;
+  }
+
+  static get secret(): string {
+    const secret = process.env.FAKE_PAYMENTS_SECRET;
+    if (!secret) {
+      throw new Error('FAKE_PAYMENTS_SECRET no está configurado');
+    }
+    return secret;
+  }
+
+  static firmar(rawBody: string): string {
+    return hmacHex(FakePaymentProvider.secret, rawBody);
+  }
+
+  async crearCheckout(params: CheckoutParams): Promise<{ checkoutUrl: string }> {
+    const url = new URL('/api/pagos/fake', getAppUrl());
+    url.searchParams.set('intencion', params.intencionId);
+    url.searchParams.set('retorno', params.urlRetorno);
+    return { checkoutUrl: url.toString() };
+  }
+
+  verificarFirma({ headers, rawBody }: WebhookRequest): boolean {
+    const signature = headers.get('x-fake-signature');
+    return !!signature && firmasIguales(FakePaymentProvider.firmar(rawBody), signature);
+  }
+
+  async obtenerNotificacion({ rawBody }: WebhookRequest): Promise<NotificacionPago | null> {
+    const body = parseJson(rawBody);
+    if (!body || typeof body.id !== 'string' || typeof body.intencionId !== 'string') return null;
+
+    const estado = body.estado === 'aprobado' || body.estado === 'rechazado' ? body.estado : 'pendiente';
+    return {
+      pagoExternoId: body.id,
+      intencionId: body.intencionId,
+      estado,
+      monto: Number(body.monto) || 0,
+    };
+  }
+}
+
+/**
+ * Proveedor por ID. El fake solo existe fuera de producción y con
+ * FAKE_PAYMENTS_SECRET configurado.
+ */
+export function getPaymentProvider(id: string): PaymentProvider | null {
+  switch (id) {
+    case 'mercado_pago':
+      return new MercadoPagoProvider();
+    case 'fake':
+      return FakePaymentProvider.habilitado ? new FakePaymentProvider() : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * PAYMENTS_PROVIDER elige el proveedor; sin configuración se usa Mercado
+ * Pago si hay token y, si no, el fake para poder probar en local.
+ */
+export function getProveedorPagoPorDefecto(): PaymentProvider | null {
+  const configurado = process.env.PAYMENTS_PROVIDER;
+  if (configurado) return getPaymentProvider(configurado);
+  return getPaymentProvider(process.env.MERCADOPAGO_ACCESS_TOKEN ? 'mercado_pago' : 'fake');
+}
@@ -0,0 +1,383 @@
+/**
+ * Motor de las plantillas de notificación. Se analiza el texto a un árbol
+ * (texto, variables, {{#if}} y {{#each}}) y se renderiza contra el contexto
+ * del destinatario. Una variable sin valor no corta el render: queda vacía y
+ * se informa en faltantes, así el envío puede rechazarse antes de salir.
+ */
+
+import { CuerposPorCanal } from '@/types/notification';
+import {
+  ContextoPlantilla,
+  ResultadoEnvioPlantilla,
+  ResultadoRender,
+  TextosPlantilla,
+  ValorPlantilla,
+  VariablePlantilla,
+} from '@/types/plantillas';
+
+export const LIMITE_SMS = 160;
+
+// Número de vuelta dentro de {{#each}}, desde 1
+export const VARIABLE_INDICE = '@indice';
+
+const variable = (
+  nombre: string,
+  descripcion: string,
+  tipo: VariablePlantilla['tipo'],
+  origen: VariablePlantilla['origen'],
+  ejemplo: ValorPlantilla,
+  campos?: Record<string, VariablePlantilla>
+): VariablePlantilla => ({ nombre, descripcion, tipo, origen, ejemplo, ...(campos && { campos }) });
+
+export const VARIABLES_PLANTILLA: Record<string, VariablePlantilla> = {
+  socio_nombre: variable('socio_nombre', 'Nombre del socio', 'texto', 'socio', 'Juan Pérez'),
+  socio_email: variable('socio_email', 'Email del socio', 'texto', 'socio', 'juan.perez@email.com'),
+  numero_socio: variable('numero_socio', 'Número de socio', 'texto', 'socio', '012'),
+  al_dia: variable('al_dia', 'El socio no tiene deuda vencida', 'booleano', 'socio', true),
+  deuda: variable('deuda', 'Saldo de las cuotas abiertas', 'moneda', 'socio', 0),
+  cuotas_vencidas: variable('cuotas_vencidas', 'Cantidad de cuotas vencidas', 'numero', 'socio', 0),
+  fecha_vencimiento: variable('fecha_vencimiento', 'Vencimiento de la próxima cuota', 'fecha', 'cuota', new Date(2025, 0, 10)),
+  monto: variable('monto', 'Monto de la cuota en pesos', 'numero', 'cuota', 1500),
+  cuota_periodo: variable('cuota_periodo', 'Mes de la cuota (AAAA-MM)', 'texto', 'cuota', '2025-01'),
+  asociacion_nombre: variable('asociacion_nombre', 'Nombre de la asociación', 'texto', 'asociacion', 'Mi Asociación'),
+  comercio_nombre: variable('comercio_nombre', 'Nombre del comercio', 'texto', 'comercio', 'Comercio Ejemplo'),
+  comercio_direccion: variable('comercio_direccion', 'Dirección del comercio', 'texto', 'comercio', 'Av. Siempre Viva 742'),
+  beneficio_titulo: variable('beneficio_titulo', 'Título del beneficio', 'texto', 'beneficio', 'Descuento Especial'),
+  descuento: variable('descuento', 'Porcentaje de descuento', 'numero', 'beneficio', 20),
+  beneficio_vencimiento: variable('beneficio_vencimiento', 'Fin de vigencia del beneficio', 'fecha', 'beneficio', new Date(2025, 1, 28)),
+  beneficios: variable('beneficios', 'Beneficios activos de la asociación', 'lista', 'asociacion', [
+    { titulo: 'Descuento Especial', descuento: 20, comercio: 'Comercio Ejemplo' },
+    { titulo: '2x1 en cafetería', descuento: 50, comercio: 'Café Central' },
+  ], {
+    titulo: variable('titulo', 'Título del beneficio', 'texto', 'beneficio', 'Descuento Especial'),
+    descuento: variable('descuento', 'Porcentaje de descuento', 'numero', 'beneficio', 20),
+    comercio: variable('comercio', 'Nombre del comercio', 'texto', 'comercio', 'Comercio Ejemplo'),
+  }),
+  fecha_actual: variable('fecha_actual', 'Fecha actual', 'fecha', 'sistema', new Date(2025, 0, 1)),
+  hora_actual: variable('hora_actual', 'Hora actual', 'texto', 'sistema', '10:30'),
+  enlace: variable('enlace', 'Enlace a la app', 'texto', 'sistema', 'https://fidelya.com.ar'),
+};
+
+type Nodo =
+  | { tipo: 'texto'; valor: string }
+  | { tipo: 'variable'; nombre: string }
+  | { tipo: 'si'; nombre: string; entonces: Nodo[]; sino: Nodo[] }
+  | { tipo: 'cada'; nombre: string; cuerpo: Nodo[] };
+
+type Bloque = Extract<Nodo, { tipo: 'si' | 'cada' }>;
+
+const NOMBRE_VALIDO = /^@?\w+$/;
+
+function analizar(texto: string): { nodos: Nodo[]; errores: string[] } {
+  const nodos: Nodo[] = [];
+  const errores: string[] = [];
+  // Bloques abiertos con la rama que recibe los nodos siguientes
+  const abiertos: { bloque: Bloque; rama: Nodo[] }[] = [];
+  const destino = () => (abiertos.length > 0 ? abiertos[abiertos.length - 1].rama : nodos);
+
+  const etiqueta = /\{\{\s*(.*?)\s*\}\}/g;
+  let desde = 0;
+  let match;
+
+  while ((match = etiqueta.exec(texto)) !== null) {
+    if (match.index > desde) {
+      destino().push({ tipo: 'texto', valor: texto.slice(desde, match.index) });
+    }
+    desde = match.index + match[0].length;
+
+    const [accion, nombre, ...resto] = match[1].split(/\s+/);
+
+    if (accion === '#if' || accion === '#each') {
+      if (!nombre || resto.length > 0 || !NOMBRE_VALIDO.test(nombre)) {
+        errores.push(`Bloque inválido: ${match[0]}`);
+        continue;
+      }
+      const bloque: Bloque = accion === '#if'
+        ? { tipo: 'si', nombre, entonces: [], sino: [] }
+        : { tipo: 'cada', nombre, cuerpo: [] };
+      destino().push(bloque);
+      abiertos.push({ bloque, rama: bloque.tipo === 'si' ? bloque.entonces : bloque.cuerpo });
+    } else if (accion === 'else' && !nombre) {
+      const abierto = abiertos[abiertos.length - 1];
+      if (!abierto || abierto.bloque.tipo !== 'si' || abierto.rama === abierto.bloque.sino) {
+        errores.push('{{else}} fuera de un {{#if}}');
+      } else {
+        abierto.rama = abierto.bloque.sino;
+      }
+    } else if ((accion === '/if' || accion === '/each') && !nombre) {
+      const abierto = abiertos[abiertos.length - 1];
+      if (!abierto || abierto.bloque.tipo !== (accion === '/if' ? 'si' : 'cada')) {
+        errores.push(`${match[0]} no cierra ningún bloque abierto`);
+      } else {
+        abiertos.pop();
+      }
+    } else if (accion && !nombre && NOMBRE_VALIDO.test(accion)) {
+      destino().push({ tipo: 'variable', nombre: accion });
+    } else {
+      errores.push(`Etiqueta inválida: ${match[0]}`);
+    }
+  }
+
+  if (desde < texto.length) {
+    destino().push({ tipo: 'texto', valor: texto.slice(desde) });
+  }
+  for (const { bloque } of abiertos) {
+    errores.push(`Falta cerrar {{#${bloque.tipo === 'si' ? 'if' : 'each'} ${bloque.nombre}}}`);
+  }
+
+  return { nodos, errores };
+}
+
+// Busca primero en los campos de la lista más interna
+const buscarDefinicion = (nombre: string, ambitos: Record<string, VariablePlantilla>[]) =>
+  ambitos.find(ambito => nombre in ambito)?.[nombre];
+
+function revisar(
+  nodos: Nodo[],
+  ambitos: Record<string, VariablePlantilla>[],
+  errores: string[],
+  usadas: Set<string>
+): void {
+  const catalogo = ambitos[ambitos.length - 1];
+  const registrar = (nombre: string) => {
+    // Solo las del catálogo: los campos de una lista van con la lista
+    if (buscarDefinicion(nombre, ambitos) === catalogo[nombre]) usadas.add(nombre);
+  };
+
+  for (const nodo of nodos) {
+    if (nodo.tipo === 'texto') continue;
+
+    if (nodo.nombre === VARIABLE_INDICE) {
+      if (nodo.tipo !== 'variable' || ambitos.length === 1) {
+        errores.push(`{{${VARIABLE_INDICE}}} solo se puede usar dentro de {{#each}}`);
+      }
+      continue;
+    }
+
+    const definicion = buscarDefinicion(nodo.nombre, ambitos);
+    if (!definicion) {
+      errores.push(`Variable desconocida: {{${nodo.nombre}}}`);
+    } else {
+      registrar(nodo.nombre);
+    }
+
+    // Los bloques se revisan por dentro aunque su variable tenga errores
+    if (nodo.tipo === 'variable' && definicion?.tipo === 'lista') {
+      errores.push(`{{${nodo.nombre}}} es una lista: recorrela con {{#each ${nodo.nombre}}}`);
+    } else if (nodo.tipo === 'si') {
+      revisar(nodo.entonces, ambitos, errores, usadas);
+      revisar(nodo.sino, ambitos, errores, usadas);
+    } else if (nodo.tipo === 'cada') {
+      if (definicion && definicion.tipo !== 'lista') {
+        errores.push(`{{#each ${nodo.nombre}}} necesita una lista`);
+      }
+      revisar(nodo.cuerpo, [definicion?.campos ?? {}, ...ambitos], errores, usadas);
+    }
+  }
+}
+
+/**
+ * Errores de sintaxis y variables que no están en el catálogo. Devuelve
+ * también las variables del catálogo que usa el texto.
+ */
+export function validarPlantilla(
+  texto: string,
+  catalogo: Record<string, VariablePlantilla> = VARIABLES_PLANTILLA
+): { errores: string[]; variables: string[] } {
+  const { nodos, errores } = analizar(texto);
+  const usadas = new Set<string>();
+  revisar(nodos, [catalogo], errores, usadas);
+  return { errores, variables: [...usadas] };
+}
+
+const sinValor = (valor: ValorPlantilla): boolean =>
+  valor === undefined ||
+  valor === null ||
+  (typeof valor === 'string' && valor.trim() === '') ||
+  (typeof valor === 'number' && Number.isNaN(valor)) ||
+  (valor instanceof Date && Number.isNaN(valor.getTime()));
+
+const esVerdadero = (valor: ValorPlantilla): boolean => {
+  if (sinValor(valor)) return false;
+  if (Array.isArray(valor)) return valor.length > 0;
+  return valor !== false && valor !== 0;
+};
+
+export function formatearValor(valor: ValorPlantilla, tipo?: VariablePlantilla['tipo']): string {
+  if (sinValor(valor)) return '';
+  if (valor instanceof Date) return valor.toLocaleDateString('es-AR');
+  if (typeof valor === 'boolean') return valor ? 'Sí' : 'No';
+  if (typeof valor === 'number') {
+    return tipo === 'moneda'
+      ? valor.toLocaleString('es-AR', { style: 'currency', currency: 'ARS' })
+      : valor.toLocaleString('es-AR', { maximumFractionDigits: 2 });
+  }
+  if (Array.isArray(valor)) return String(valor.length);
+  return String(valor);
+}
+
+export const escaparHtml = (texto: string) =>
+  texto
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+interface Ambito {
+  contexto: ContextoPlantilla;
+  definiciones: Record<string, VariablePlantilla>;
+  indice?: number;
+}
+
+function renderizarNodos(nodos: Nodo[], ambitos: Ambito[], html: boolean, faltantes: Set<string>): string {
+  const buscar = (nombre: string) => {
+    const ambito = ambitos.find(a => Object.prototype.hasOwnProperty.call(a.contexto, nombre));
+    return {
+      valor: ambito?.contexto[nombre],
+      definicion: ambitos.find(a => nombre in a.definiciones)?.definiciones[nombre],
+    };
+  };
+
+  return nodos.map(nodo => {
+    if (nodo.tipo === 'texto') return nodo.valor;
+
+    if (nodo.nombre === VARIABLE_INDICE) {
+      return String(ambitos.find(a => a.indice !== undefined)?.indice ?? '');
+    }
+
+    const { valor, definicion } = buscar(nodo.nombre);
+
+    if (nodo.tipo === 'si') {
+      return renderizarNodos(esVerdadero(valor) ? nodo.entonces : nodo.sino, ambitos, html, faltantes);
+    }
+
+    if (nodo.tipo === 'cada') {
+      if (!Array.isArray(valor)) {
+        faltantes.add(nodo.nombre);
+        return '';
+      }
+      return valor.map((elemento, i) => renderizarNodos(
+        nodo.cuerpo,
+        [{ contexto: elemento, definiciones: definicion?.campos ?? {}, indice: i + 1 }, ...ambitos],
+        html,
+        faltantes
+      )).join('');
+    }
+
+    if (sinValor(valor)) {
+      faltantes.add(nodo.nombre);
+      return '';
+    }
+    const texto = formatearValor(valor, definicion?.tipo);
+    return html ? escaparHtml(texto) : texto;
+  }).join('');
+}
+
+/**
+ * Renderiza el texto para un destinatario. Con html los valores se escapan;
+ * el resto del texto es de quien escribió la plantilla y se deja como está.
+ */
+export function renderizarPlantilla(
+  texto: string,
+  contexto: ContextoPlantilla,
+  opciones: { html?: boolean; catalogo?: Record<string, VariablePlantilla> } = {}
+): ResultadoRender {
+  const { nodos, errores } = analizar(texto);
+  const faltantes = new Set<string>();
+  const resultado = renderizarNodos(
+    nodos,
+    [{ contexto, definiciones: opciones.catalogo ?? VARIABLES_PLANTILLA }],
+    opciones.html ?? false,
+    faltantes
+  );
+
+  return { texto: resultado, faltantes: [...faltantes], errores };
+}
+
+export const contextoDeEjemplo = (
+  catalogo: Record<string, VariablePlantilla> = VARIABLES_PLANTILLA
+): ContextoPlantilla =>
+  Object.fromEntries(Object.values(catalogo).map(v => [v.nombre, v.ejemplo]));
+
+export const largoSms = (texto: string) => Array.from(texto).length;
+
+export const PARTES_PLANTILLA: Record<'title' | 'message' | keyof CuerposPorCanal, string> = {
+  title: 'Título',
+  message: 'Mensaje',
+  emailAsunto: 'Asunto del email',
+  emailHtml: 'Email',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+};
+
+const partesDe = (textos: TextosPlantilla) =>
+  (Object.keys(PARTES_PLANTILLA) as (keyof typeof PARTES_PLANTILLA)[])
+    .map(parte => ({
+      parte,
+      texto: parte === 'title' || parte === 'message' ? textos[parte] : textos.cuerpos?.[parte],
+    }))
+    .filter((p): p is { parte: keyof typeof PARTES_PLANTILLA; texto: string } => !!p.texto?.trim());
+
+/**
+ * Valida todas las partes de la plantilla. El SMS se mide con los valores de
+ * ejemplo: si ya con ellos pasa de 160 caracteres, con datos reales también.
+ */
+export function validarTextosPlantilla(
+  textos: TextosPlantilla,
+  catalogo: Record<string, VariablePlantilla> = VARIABLES_PLANTILLA
+): { errores: string[]; variables: string[] } {
+  const errores: string[] = [];
+  const variables = new Set<string>();
+
+  for (const { parte, texto } of partesDe(textos)) {
+    const validacion = validarPlantilla(texto, catalogo);
+    validacion.errores.forEach(error => errores.push(`${PARTES_PLANTILLA[parte]}: ${error}`));
+    validacion.variables.forEach(nombre => variables.add(nombre));
+
+    if (parte === 'sms' && validacion.errores.length === 0) {
+      const largo = largoSms(renderizarPlantilla(texto, contextoDeEjemplo(catalogo), { catalogo }).texto);
+      if (largo > LIMITE_SMS) {
+        errores.push(`SMS: con los datos de ejemplo ocupa ${largo} caracteres (máximo ${LIMITE_SMS})`);
+      }
+    }
+  }
+
+  return { errores, variables: [...variables] };
+}
+
+/**
+ * Renderiza título, mensaje y cuerpos por canal para un destinatario. No está
+ * lista para enviar si alguna variable quedó sin valor o el SMS se pasa del
+ * límite.
+ */
+export function renderizarEnvio(textos: TextosPlantilla, contexto: ContextoPlantilla): ResultadoEnvioPlantilla {
+  const faltantes = new Set<string>();
+  const errores: string[] = [];
+  const envio: TextosPlantilla = { title: '', message: '' };
+  const cuerpos: CuerposPorCanal = {};
+
+  for (const { parte, texto } of partesDe(textos)) {
+    const resultado = renderizarPlantilla(texto, contexto, { html: parte === 'emailHtml' });
+    resultado.faltantes.forEach(nombre => faltantes.add(nombre));
+    resultado.errores.forEach(error => errores.push(`${PARTES_PLANTILLA[parte]}: ${error}`));
+
+    if (parte === 'title' || parte === 'message') {
+      envio[parte] = resultado.texto;
+    } else {
+      cuerpos[parte] = resultado.texto;
+    }
+    if (parte === 'sms' && largoSms(resultado.texto) > LIMITE_SMS) {
+      errores.push(`SMS: ocupa ${largoSms(resultado.texto)} caracteres (máximo ${LIMITE_SMS})`);
+    }
+  }
+
+  if (Object.keys(cuerpos).length > 0) envio.cuerpos = cuerpos;
+
+  return {
+    ok: faltantes.size === 0 && errores.length === 0,
+    envio,
+    faltantes: [...faltantes],
+    errores,
+  };
+}
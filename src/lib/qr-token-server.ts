@@ -0,0 +1,43 @@
+import { Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { ApiRequestUser } from '@/lib/api-auth';
+import { COLLECTIONS } from '@/lib/constants';
+import { QRTokenPayload } from '@/lib/qr-token';
+
+/**
+ * Verifica que quien hace el pedido pueda emitir o revocar QRs del comercio:
+ * el propio comercio, un admin o una asociación vinculada
+ */
+export async function canIssueForComercio(user: ApiRequestUser, comercioId: string): Promise<boolean> {
+  if (user.uid === comercioId || user.role === 'admin') {
+    return true;
+  }
+
+  if (user.role === 'asociacion') {
+    const comercioDoc = await adminDb.collection(COLLECTIONS.COMERCIOS).doc(comercioId).get();
+    const vinculadas: string[] = comercioDoc.data()?.asociacionesVinculadas || [];
+    return vinculadas.includes(user.uid);
+  }
+
+  return false;
+}
+
+/**
+ * Un token está revocado si se emitió antes de la última revocación de QRs
+ * del comercio (qrRevocadosEn). Así se anulan los QR impresos, que tienen
+ * vigencia larga, sin esperar a que venzan
+ */
+export async function isQRTokenRevoked(payload: QRTokenPayload): Promise<boolean> {
+  const comercioDoc = await adminDb.collection(COLLECTIONS.COMERCIOS).doc(payload.c).get();
+  const revocadosEn = comercioDoc.data()?.qrRevocadosEn;
+  return revocadosEn instanceof Timestamp && payload.iat < revocadosEn.seconds;
+}
+
+/**
+ * Revoca todos los QR emitidos hasta ahora para el comercio
+ */
+export async function revokeQRTokens(comercioId: string): Promise<Date> {
+  const revocadosEn = Timestamp.now();
+  await adminDb.collection(COLLECTIONS.COMERCIOS).doc(comercioId).update({ qrRevocadosEn: revocadosEn });
+  return revocadosEn.toDate();
+}
@@ -0,0 +1,366 @@
+/**
+ * Tokens QR firmados para validación de beneficios
+ * Formato: <prefijo><version>.<payload base64url>.<firma base64url>
+ * - FQ: QR del comercio que escanea el socio (HMAC-SHA256)
+ * - FS: credencial personal del socio que escanea el comercio (ECDSA P-256).
+ *   Se firma con una clave privada del servidor y se verifica con la clave
+ *   pública, de modo que el comercio puede verificarla sin conexión.
+ * Usa Web Crypto, disponible tanto en el navegador como en Node 18+
+ */
+
+export const QR_TOKEN_VERSION = 1;
+export const QR_TOKEN_PREFIX = `FQ${QR_TOKEN_VERSION}`;
+export const SOCIO_CREDENTIAL_VERSION = 2;
+export const SOCIO_CREDENTIAL_PREFIX = `FS${SOCIO_CREDENTIAL_VERSION}`;
+
+// Vigencia de la credencial que muestra el socio (segundos)
+export const SOCIO_CREDENTIAL_TTL = 60;
+// Plazo para sincronizar una credencial capturada sin conexión (segundos)
+export const SOCIO_CREDENTIAL_OFFLINE_MAX_AGE = 72 * 60 * 60;
+
+// Vigencia por defecto de un token mostrado en pantalla (segundos)
+export const QR_TOKEN_DEFAULT_TTL = 120;
+// Tolerancia de reloj entre emisor y verificador (segundos)
+export const QR_TOKEN_CLOCK_SKEW = 30;
+
+export interface QRTokenPayload {
+  v: number;
+  /** ID del comercio */
+  c: string;
+  /** ID del beneficio (opcional) */
+  b?: string;
+  /** Emitido en (epoch segundos) */
+  iat: number;
+  /** Expira en (epoch segundos) */
+  exp: number;
+  /** Nonce aleatorio para que cada rotación produzca un token distinto */
+  n: string;
+}
+
+export interface SocioCredentialPayload {
+  v: number;
+  /** ID del socio */
+  s: string;
+  /** Asociación del socio al momento de emitir la credencial */
+  a?: string;
+  /** Nombre y número de socio, para mostrarlos sin conexión */
+  nm?: string;
+  ns?: string;
+  /** Estado del socio al momento de emitir la credencial */
+  st?: string;
+  iat: number;
+  exp: number;
+  n: string;
+}
+
+export type QRTokenErrorCode =
+  | 'QR_TOKEN_MISSING'
+  | 'QR_TOKEN_MALFORMED'
+  | 'QR_TOKEN_UNSUPPORTED_VERSION'
+  | 'QR_TOKEN_INVALID_SIGNATURE'
+  | 'QR_TOKEN_EXPIRED'
+  | 'QR_TOKEN_MISMATCH'
+  | 'QR_TOKEN_REVOKED';
+
+export type SignedTokenVerification<T> =
+  | { valid: true; payload: T }
+  | { valid: false; code: QRTokenErrorCode; payload?: T };
+
+export type QRTokenVerification = SignedTokenVerification<QRTokenPayload>;
+export type SocioCredentialVerification = SignedTokenVerification<SocioCredentialPayload>;
+
+export const QR_TOKEN_ERROR_MESSAGES: Record<QRTokenErrorCode, string> = {
+  QR_TOKEN_MISSING: 'Este código QR no está firmado. Pedí al comercio que muestre su QR vigente.',
+  QR_TOKEN_MALFORMED: 'Código QR inválido o dañado',
+  QR_TOKEN_UNSUPPORTED_VERSION: 'Versión de código QR no soportada. Pedí al comercio que genere un QR nuevo.',
+  QR_TOKEN_INVALID_SIGNATURE: 'La firma del código QR no es válida',
+  QR_TOKEN_EXPIRED: 'El código QR expiró. Escaneá el QR actual que muestra el comercio.',
+  QR_TOKEN_MISMATCH: 'El código QR no corresponde a este comercio o beneficio',
+  QR_TOKEN_REVOKED: 'El comercio dio de baja este código QR. Escaneá el QR actual que muestra el comercio.',
+};
+
+export const SOCIO_CREDENTIAL_ERROR_MESSAGES: Record<QRTokenErrorCode, string> = {
+  QR_TOKEN_MISSING: 'Ingresá el código o escaneá el QR del socio',
+  QR_TOKEN_MALFORMED: 'El código del socio no es válido',
+  QR_TOKEN_UNSUPPORTED_VERSION: 'El socio debe actualizar la aplicación para generar un código nuevo',
+  QR_TOKEN_INVALID_SIGNATURE: 'La credencial del socio no es auténtica',
+  QR_TOKEN_EXPIRED: 'El código del socio expiró o ya fue utilizado. Pedile que muestre el código actual.',
+  QR_TOKEN_MISMATCH: 'La credencial no corresponde a este socio',
+  QR_TOKEN_REVOKED: 'La credencial del socio fue revocada',
+};
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const importKey = (secret: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+
+const ECDSA_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const ECDSA_SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+// Las claves se guardan en base64 estándar: PKCS8 la privada, SPKI la pública
+const importPrivateKey = (pkcs8: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('pkcs8', fromBase64Url(pkcs8), ECDSA_PARAMS, false, ['sign']);
+
+const importPublicKey = (spki: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('spki', fromBase64Url(spki), ECDSA_PARAMS, false, ['verify']);
+
+type Signer = (data: Uint8Array<ArrayBuffer>) => Promise<ArrayBuffer>;
+type Verifier = (signature: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>) => Promise<boolean>;
+
+const hmacSigner = (secret: string): Signer => async (data) =>
+  crypto.subtle.sign('HMAC', await importKey(secret), data);
+
+const hmacVerifier = (secret: string): Verifier => async (signature, data) =>
+  crypto.subtle.verify('HMAC', await importKey(secret), signature, data);
+
+const ecdsaSigner = (privateKey: string): Signer => async (data) =>
+  crypto.subtle.sign(ECDSA_SIGN_PARAMS, await importPrivateKey(privateKey), data);
+
+const ecdsaVerifier = (publicKey: string): Verifier => async (signature, data) =>
+  crypto.subtle.verify(ECDSA_SIGN_PARAMS, await importPublicKey(publicKey), signature, data);
+
+const generateNonce = (): string => {
+  const bytes = new Uint8Array(8);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+};
+
+interface SignedPayload {
+  v: number;
+  iat: number;
+  exp: number;
+}
+
+const signPayload = async (prefix: string, payload: SignedPayload, sign: Signer): Promise<string> => {
+  const body = `${prefix}.${toBase64Url(encoder.encode(JSON.stringify(payload)))}`;
+  const signature = new Uint8Array(await sign(encoder.encode(body)));
+  return `${body}.${toBase64Url(signature)}`;
+};
+
+const decodePayload = <T extends SignedPayload>(token: string, kind: 'FQ' | 'FS'): T | null => {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3 || !new RegExp(`^${kind}\\d+$`).test(parts[0])) {
+      return null;
+    }
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(parts[1]))) as T;
+    if (!payload || typeof payload.exp !== 'number' || typeof payload.iat !== 'number') {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+};
+
+const verifyPayload = async <T extends SignedPayload>(
+  token: string | null | undefined,
+  prefix: string,
+  version: number,
+  decode: (token: string) => T | null,
+  verify: Verifier,
+  now: number
+): Promise<SignedTokenVerification<T>> => {
+  if (!token) {
+    return { valid: false, code: 'QR_TOKEN_MISSING' };
+  }
+
+  const parts = token.split('.');
+  const payload = decode(token);
+  if (!payload) {
+    return { valid: false, code: 'QR_TOKEN_MALFORMED' };
+  }
+
+  if (parts[0] !== prefix || payload.v !== version) {
+    return { valid: false, code: 'QR_TOKEN_UNSUPPORTED_VERSION', payload };
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = await verify(fromBase64Url(parts[2]), encoder.encode(`${parts[0]}.${parts[1]}`));
+  } catch {
+    signatureValid = false;
+  }
+
+  if (!signatureValid) {
+    return { valid: false, code: 'QR_TOKEN_INVALID_SIGNATURE' };
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (payload.exp + QR_TOKEN_CLOCK_SKEW < nowSeconds || payload.iat - QR_TOKEN_CLOCK_SKEW > nowSeconds) {
+    return { valid: false, code: 'QR_TOKEN_EXPIRED', payload };
+  }
+
+  return { valid: true, payload };
+};
+
+/**
+ * Firma un token QR para un comercio (y opcionalmente un beneficio)
+ * @param data IDs de comercio y beneficio
+ * @param secret Secreto HMAC (solo del lado del servidor)
+ * @param ttlSeconds Vigencia del token en segundos
+ */
+export async function signQRToken(
+  data: { comercioId: string; beneficioId?: string },
+  secret: string,
+  ttlSeconds: number = QR_TOKEN_DEFAULT_TTL,
+  now: number = Date.now()
+): Promise<{ token: string; payload: QRTokenPayload }> {
+  const iat = Math.floor(now / 1000);
+  const payload: QRTokenPayload = {
+    v: QR_TOKEN_VERSION,
+    c: data.comercioId,
+    ...(data.beneficioId ? { b: data.beneficioId } : {}),
+    iat,
+    exp: iat + ttlSeconds,
+    n: generateNonce(),
+  };
+
+  return { token: await signPayload(QR_TOKEN_PREFIX, payload, hmacSigner(secret)), payload };
+}
+
+/**
+ * Decodifica el payload de un token SIN verificar la firma.
+ * Solo sirve para extraer los IDs antes de la verificación en el servidor.
+ */
+export function decodeQRToken(token: string): QRTokenPayload | null {
+  const payload = decodePayload<QRTokenPayload>(token, 'FQ');
+  return payload && typeof payload.c === 'string' ? payload : null;
+}
+
+/**
+ * Verifica firma, versión y vigencia de un token QR
+ * @param token Token completo
+ * @param secret Secreto HMAC
+ * @param now Momento de referencia (ms)
+ */
+export function verifyQRToken(
+  token: string | null | undefined,
+  secret: string,
+  now: number = Date.now()
+): Promise<QRTokenVerification> {
+  return verifyPayload(token, QR_TOKEN_PREFIX, QR_TOKEN_VERSION, decodeQRToken, hmacVerifier(secret), now);
+}
+
+/**
+ * Firma la credencial dinámica que el socio muestra en su teléfono
+ * @param privateKey Clave privada ECDSA P-256 en PKCS8 (solo del lado del servidor)
+ */
+export async function signSocioCredential(
+  data: { socioId: string; asociacionId?: string; nombre?: string; numeroSocio?: string; estado?: string },
+  privateKey: string,
+  ttlSeconds: number = SOCIO_CREDENTIAL_TTL,
+  now: number = Date.now()
+): Promise<{ token: string; payload: SocioCredentialPayload }> {
+  const iat = Math.floor(now / 1000);
+  const payload: SocioCredentialPayload = {
+    v: SOCIO_CREDENTIAL_VERSION,
+    s: data.socioId,
+    ...(data.asociacionId ? { a: data.asociacionId } : {}),
+    ...(data.nombre ? { nm: data.nombre } : {}),
+    ...(data.numeroSocio ? { ns: data.numeroSocio } : {}),
+    ...(data.estado ? { st: data.estado } : {}),
+    iat,
+    exp: iat + ttlSeconds,
+    n: generateNonce(),
+  };
+
+  return { token: await signPayload(SOCIO_CREDENTIAL_PREFIX, payload, ecdsaSigner(privateKey)), payload };
+}
+
+/**
+ * Decodifica una credencial de socio SIN verificar la firma
+ */
+export function decodeSocioCredential(token: string): SocioCredentialPayload | null {
+  const payload = decodePayload<SocioCredentialPayload>(token, 'FS');
+  return payload && typeof payload.s === 'string' ? payload : null;
+}
+
+/**
+ * Verifica firma, versión y vigencia de una credencial de socio.
+ * Solo necesita la clave pública, así que también corre en el dispositivo del comercio.
+ * @param now Momento de referencia (ms); al sincronizar validaciones offline es el momento de captura
+ */
+export function verifySocioCredential(
+  token: string | null | undefined,
+  publicKey: string,
+  now: number = Date.now()
+): Promise<SocioCredentialVerification> {
+  return verifyPayload(
+    token,
+    SOCIO_CREDENTIAL_PREFIX,
+    SOCIO_CREDENTIAL_VERSION,
+    decodeSocioCredential,
+    ecdsaVerifier(publicKey),
+    now
+  );
+}
+
+/**
+ * Genera el código numérico corto que acompaña a la credencial del socio
+ */
+export function generateCredentialCode(length: number = 6): string {
+  const bytes = new Uint32Array(1);
+  crypto.getRandomValues(bytes);
+  return String(bytes[0] % 10 ** length).padStart(length, '0');
+}
+
+/**
+ * Obtiene el secreto de firma desde el entorno (solo server-side)
+ */
+export function getQRSigningSecret(): string {
+  const secret = process.env.QR_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('QR_SIGNING_SECRET no está configurado');
+  }
+  return secret;
+}
+
+/**
+ * Clave privada para firmar credenciales de socio (solo server-side)
+ */
+export function getSocioCredentialPrivateKey(): string {
+  const key = process.env.SOCIO_CREDENTIAL_PRIVATE_KEY;
+  if (!key) {
+    throw new Error('SOCIO_CREDENTIAL_PRIVATE_KEY no está configurada');
+  }
+  return key;
+}
+
+/**
+ * Clave pública para verificar credenciales de socio (servidor y navegador)
+ */
+export function getSocioCredentialPublicKey(): string {
+  const key = process.env.NEXT_PUBLIC_SOCIO_CREDENTIAL_PUBLIC_KEY;
+  if (!key) {
+    throw new Error('NEXT_PUBLIC_SOCIO_CREDENTIAL_PUBLIC_KEY no está configurada');
+  }
+  return key;
+}
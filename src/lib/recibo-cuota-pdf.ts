@@ -0,0 +1,125 @@
+import jsPDF from 'jspdf';
+import { MEDIOS_PAGO_CUOTA_LABELS } from '@/lib/cuotas';
+import { PagoCuota } from '@/types/cuotas';
+
+export interface ReciboCuotaData {
+  pago: Pick<
+    PagoCuota,
+    'numeroRecibo' | 'monto' | 'medioPago' | 'imputaciones' | 'creditoGenerado' | 'deudaPosterior' | 'nota' | 'fecha'
+  >;
+  socioNombre: string;
+  numeroSocio?: string | null;
+  dni?: string | null;
+  asociacionNombre: string;
+}
+
+export const formatMontoCuota = (monto: number): string =>
+  new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(monto);
+
+const formatPeriodo = (periodo: string): string => {
+  const [year, month] = periodo.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('es-AR', { month: 'long', year: 'numeric' });
+};
+
+/**
+ * Recibo A4 de un pago de cuotas con el detalle de lo imputado a cada período
+ */
+export function generarReciboCuotaPDF(data: ReciboCuotaData): jsPDF {
+  const { pago } = data;
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const numero = String(pago.numeroRecibo).padStart(6, '0');
+
+  // Encabezado
+  pdf.setFontSize(20);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(data.asociacionNombre, 20, 25);
+
+  pdf.setFontSize(14);
+  pdf.text(`Recibo N° ${numero}`, pageWidth - 20, 25, { align: 'right' });
+
+  pdf.setFontSize(10);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(`Fecha: ${pago.fecha.toDate().toLocaleDateString('es-AR')}`, pageWidth - 20, 32, { align: 'right' });
+
+  pdf.setDrawColor(200, 200, 200);
+  pdf.line(20, 38, pageWidth - 20, 38);
+
+  // Socio
+  pdf.setFontSize(12);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Recibimos de:', 20, 50);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(data.socioNombre, 55, 50);
+
+  const identificacion = [
+    data.numeroSocio ? `Socio N° ${data.numeroSocio}` : null,
+    data.dni ? `DNI ${data.dni}` : null,
+  ].filter(Boolean).join('  ·  ');
+  if (identificacion) {
+    pdf.setFontSize(10);
+    pdf.text(identificacion, 55, 56);
+  }
+
+  pdf.setFontSize(12);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('La suma de:', 20, 66);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(formatMontoCuota(pago.monto), 55, 66);
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Medio de pago:', 20, 74);
+  pdf.setFont('helvetica', 'normal');
+  pdf.text(MEDIOS_PAGO_CUOTA_LABELS[pago.medioPago] ?? pago.medioPago, 55, 74);
+
+  // Detalle de imputación
+  let y = 90;
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Concepto', 20, y);
+  pdf.text('Importe', pageWidth - 20, y, { align: 'right' });
+  pdf.line(20, y + 2, pageWidth - 20, y + 2);
+  pdf.setFont('helvetica', 'normal');
+
+  pago.imputaciones.forEach(imputacion => {
+    y += 8;
+    pdf.text(`Cuota ${formatPeriodo(imputacion.periodo)}`, 20, y);
+    pdf.text(formatMontoCuota(imputacion.monto), pageWidth - 20, y, { align: 'right' });
+  });
+
+  if (pago.creditoGenerado > 0) {
+    y += 8;
+    pdf.text('Pago a cuenta de cuotas futuras', 20, y);
+    pdf.text(formatMontoCuota(pago.creditoGenerado), pageWidth - 20, y, { align: 'right' });
+  }
+
+  y += 4;
+  pdf.line(20, y, pageWidth - 20, y);
+  y += 8;
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Total', 20, y);
+  pdf.text(formatMontoCuota(pago.monto), pageWidth - 20, y, { align: 'right' });
+
+  y += 12;
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  pdf.text(
+    pago.deudaPosterior > 0
+      ? `Saldo pendiente luego de este pago: ${formatMontoCuota(pago.deudaPosterior)}`
+      : 'El socio no registra deuda luego de este pago',
+    20,
+    y
+  );
+
+  if (pago.nota) {
+    y += 8;
+    pdf.text(`Nota: ${pago.nota}`, 20, y, { maxWidth: pageWidth - 40 });
+  }
+
+  // Pie
+  pdf.setFontSize(9);
+  pdf.setTextColor(128, 128, 128);
+  pdf.text('Generado por Fidelitá', pageWidth / 2, pageHeight - 10, { align: 'center' });
+
+  return pdf;
+}
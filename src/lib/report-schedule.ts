@@ -0,0 +1,65 @@
+import { calcularProximaEjecucion, ZONA_HORARIA_POR_DEFECTO } from './notification-schedule';
+import { ReportFileFormat, ReportFrequency } from '../types/reports';
+
+/**
+ * Reglas de los reportes programados. Los semanales se envían los lunes y
+ * los mensuales el día 1, a las 08:00 de Argentina, con los datos del
+ * período que terminó. La función enviarReportesProgramados de functions/
+ * la usa para avanzar el programa de cada reporte.
+ */
+
+export const HORA_ENVIO_REPORTES = '08:00';
+export const MAX_DESTINATARIOS_REPORTE = 20;
+
+export const REPORT_FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  weekly: 'Semanal (lunes)',
+  monthly: 'Mensual (día 1)',
+};
+
+export const REPORT_FORMAT_LABELS: Record<ReportFileFormat, string> = {
+  pdf: 'PDF',
+  xlsx: 'Excel (XLSX)',
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Próximo envío posterior a `desde`
+ */
+export function proximoEnvioReporte(frequency: ReportFrequency, desde: Date = new Date()): Date {
+  const proximo = calcularProximaEjecucion({
+    type: 'recurring',
+    startDate: new Date(0),
+    frequency,
+    ...(frequency === 'weekly' ? { daysOfWeek: [1] } : { dayOfMonth: 1 }),
+    time: HORA_ENVIO_REPORTES,
+    timezone: ZONA_HORARIA_POR_DEFECTO,
+  }, desde);
+
+  // Un programa recurrente sin fecha de fin siempre tiene próxima ejecución
+  return proximo as Date;
+}
+
+/**
+ * Lista de distribución a partir del texto ingresado (separado por comas,
+ * punto y coma o saltos de línea), sin repetidos
+ */
+export function parsearDestinatarios(
+  texto: string
+): { ok: true; recipients: string[] } | { ok: false; error: string } {
+  const recipients = [...new Set(
+    texto.split(/[,;\n]/).map(email => email.trim().toLowerCase()).filter(Boolean)
+  )];
+
+  if (recipients.length === 0) {
+    return { ok: false, error: 'Agregá al menos un destinatario' };
+  }
+  if (recipients.length > MAX_DESTINATARIOS_REPORTE) {
+    return { ok: false, error: `Hasta ${MAX_DESTINATARIOS_REPORTE} destinatarios por reporte` };
+  }
+  const invalidos = recipients.filter(email => !EMAIL_REGEX.test(email));
+  if (invalidos.length > 0) {
+    return { ok: false, error: `Emails no válidos: ${invalidos.join(', ')}` };
+  }
+  return { ok: true, recipients };
+}
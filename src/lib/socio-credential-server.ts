@@ -0,0 +1,149 @@
+import { DocumentReference, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+import {
+  QR_TOKEN_CLOCK_SKEW,
+  QRTokenErrorCode,
+  SOCIO_CREDENTIAL_ERROR_MESSAGES,
+  SOCIO_CREDENTIAL_OFFLINE_MAX_AGE,
+  SocioCredentialPayload,
+  getSocioCredentialPublicKey,
+  verifySocioCredential,
+} from '@/lib/qr-token';
+
+export interface CredencialSocioResuelta {
+  socioId: string;
+  asociacionId: string | null;
+  expiresAt: number;
+  // Momento de la captura sin conexión (ms), ya acotado a la vigencia firmada
+  // de la credencial. null si se presentó en línea
+  capturadoEn: number | null;
+}
+
+export class CredencialSocioError extends Error {
+  readonly code: QRTokenErrorCode;
+
+  constructor(code: QRTokenErrorCode, message: string = SOCIO_CREDENTIAL_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'CredencialSocioError';
+    this.code = code;
+  }
+}
+
+export const isCredencialSocioError = (error: unknown): error is CredencialSocioError =>
+  error instanceof CredencialSocioError;
+
+/**
+ * Resuelve la credencial del socio (QR firmado o código de 6 dígitos) que
+ * presenta un comercio. Con consumir la credencial queda invalidada en la
+ * misma transacción que la verifica: dos validaciones simultáneas no pueden
+ * usarla las dos.
+ *
+ * Con capturadoEn se sincroniza una validación hecha sin conexión. El
+ * servidor no sabe cuándo se capturó, así que el momento que informa el
+ * comercio se acota a la vigencia firmada de la credencial (iat/exp) y el
+ * plazo para sincronizar corre desde su vencimiento. Una credencial que
+ * todavía está vigente no se acepta como capturada sin conexión: se evalúa
+ * ahora.
+ */
+export async function resolverCredencialSocio(
+  input: { token?: unknown; code?: unknown; capturadoEn?: unknown },
+  comercioId: string,
+  opciones: { consumir: boolean; socioId?: string }
+): Promise<CredencialSocioResuelta> {
+  const { token, code } = input;
+  const credenciales = adminDb.collection(COLLECTIONS.CREDENCIALES_SOCIO);
+  const usadas = adminDb.collection(COLLECTIONS.CREDENCIALES_SOCIO_USADAS);
+  const ahora = Date.now();
+  let capturadoEn = typeof input.capturadoEn === 'number' ? input.capturadoEn : null;
+
+  if (capturadoEn !== null) {
+    if (typeof token !== 'string' || !token) {
+      throw new CredencialSocioError(
+        'QR_TOKEN_MISSING',
+        'Las validaciones sin conexión solo se sincronizan con el QR del socio'
+      );
+    }
+    if (capturadoEn > ahora + QR_TOKEN_CLOCK_SKEW * 1000) {
+      throw new CredencialSocioError('QR_TOKEN_EXPIRED');
+    }
+  }
+
+  let credentialRef: DocumentReference | null = null;
+  let payload: SocioCredentialPayload | null = null;
+
+  if (typeof token === 'string' && token) {
+    const result = await verifySocioCredential(token, getSocioCredentialPublicKey(), capturadoEn ?? ahora);
+    if (!result.valid) {
+      throw new CredencialSocioError(result.code);
+    }
+
+    payload = result.payload;
+    if (capturadoEn !== null) {
+      if (ahora - payload.exp * 1000 > SOCIO_CREDENTIAL_OFFLINE_MAX_AGE * 1000) {
+        throw new CredencialSocioError('QR_TOKEN_EXPIRED');
+      }
+      capturadoEn = Math.min(Math.max(capturadoEn, payload.iat * 1000), payload.exp * 1000);
+    }
+
+    const snapshot = await credenciales.where('nonce', '==', payload.n).limit(1).get();
+    credentialRef = snapshot.empty ? null : snapshot.docs[0].ref;
+  } else if (typeof code === 'string' && /^\d{6}$/.test(code.trim())) {
+    credentialRef = credenciales.doc(code.trim());
+  } else {
+    throw new CredencialSocioError(token === undefined && !code ? 'QR_TOKEN_MISSING' : 'QR_TOKEN_MALFORMED');
+  }
+
+  // Sin conexión el código reservado ya pudo vencer; alcanza con la firma
+  if (!credentialRef && capturadoEn === null) {
+    throw new CredencialSocioError('QR_TOKEN_EXPIRED');
+  }
+
+  const signed = payload;
+  const ref = credentialRef;
+  return adminDb.runTransaction(async (transaction) => {
+    const snapshot = ref ? await transaction.get(ref) : null;
+    const data = snapshot?.data();
+    const expiresAt = data?.expiresAt as Timestamp | undefined;
+    const nonce: string | undefined = signed?.n ?? data?.nonce;
+
+    const vigente = !!data && data.nonce === nonce && !!expiresAt && expiresAt.toMillis() >= ahora;
+    const offline = capturadoEn !== null && !vigente;
+    if ((!vigente && !offline) || !nonce) {
+      throw new CredencialSocioError('QR_TOKEN_EXPIRED');
+    }
+
+    const usadaRef = usadas.doc(nonce);
+    const usada = await transaction.get(usadaRef);
+    if (usada.exists) {
+      throw new CredencialSocioError('QR_TOKEN_EXPIRED');
+    }
+
+    const socioId = (signed?.s ?? data?.socioId) as string;
+    if (opciones.socioId && opciones.socioId !== socioId) {
+      throw new CredencialSocioError('QR_TOKEN_MISMATCH');
+    }
+
+    if (opciones.consumir) {
+      if (vigente && ref) {
+        transaction.delete(ref);
+      }
+      transaction.set(usadaRef, {
+        socioId,
+        comercioId,
+        offline,
+        capturadoEn: offline ? Timestamp.fromMillis(capturadoEn as number) : null,
+        consumidoEn: Timestamp.now(),
+        // Campo para la política TTL de Firestore
+        purgarEn: Timestamp.fromMillis(ahora + SOCIO_CREDENTIAL_OFFLINE_MAX_AGE * 1000),
+      });
+    }
+
+    return {
+      socioId,
+      asociacionId: (signed?.a ?? (data?.asociacionId as string | null)) || null,
+      expiresAt: signed ? signed.exp * 1000 : expiresAt?.toMillis() ?? 0,
+      capturadoEn: offline ? capturadoEn : null,
+    };
+  });
+}
@@ -1,4 +1,5 @@
 import { BeneficioFormData } from '@/types/beneficio';
+import { evaluateBenefitEligibility } from '@/lib/benefit-eligibility';
 
 /**
  * Validaciones para la creación y actualización de beneficios
@@ -192,23 +193,14 @@ export function validateSocioAccessToBeneficio(
   socioAsociacionesActivas: string[],
   beneficioTipoAcceso?: 'asociacion' | 'publico' | 'directo'
 ): boolean {
-  // Si el beneficio es público, todos tienen acceso
-  if (beneficioTipoAcceso === 'publico') {
-    return true;
-  }
-
-  // Si el beneficio es de acceso directo, todos tienen acceso
-  if (beneficioTipoAcceso === 'directo') {
-    return true;
-  }
-
-  // Si el beneficio es de tipo asociación, verificar que el socio pertenezca a alguna de las asociaciones
-  if (beneficioTipoAcceso === 'asociacion' || !beneficioTipoAcceso) {
-    // Verificar si hay intersección entre las asociaciones del beneficio y las del socio
-    return beneficioAsociaciones.some(asocId => socioAsociacionesActivas.includes(asocId));
-  }
-
-  return false;
+  // Solo el criterio de acceso; vigencia y límites los evalúa el motor completo
+  return evaluateBenefitEligibility({
+    beneficio: {
+      asociacionesDisponibles: beneficioAsociaciones,
+      tipoAcceso: beneficioTipoAcceso,
+    },
+    socioAsociaciones: socioAsociacionesActivas,
+  }).eligible;
 }
 
 /**
@@ -0,0 +1,325 @@
+import { DocumentReference, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { COLLECTIONS } from '@/lib/constants';
+import { derivarEstadoMembresia } from '@/lib/cuotas';
+import {
+  BENEFICIOS_EN_RESPUESTA,
+  BeneficioRespuesta,
+  RESPUESTA_ALTA,
+  RESPUESTA_BAJA,
+  RESPUESTA_SIN_SOCIO,
+  claveTelefono,
+  detectarComando,
+  idHiloWhatsApp,
+  normalizarTexto,
+  respuestaBeneficios,
+  respuestaSaldo,
+} from '@/lib/whatsapp-inbox';
+import { getWhatsAppRegistry } from '@/lib/whatsapp-providers';
+import { whatsAppWebService } from '@/services/whatsapp-web.service';
+import { ComandoWhatsApp, EstadoHiloWhatsApp, MensajeEntranteWhatsApp } from '@/types/whatsapp';
+
+export type ResultadoMensajeEntrante = 'comando' | 'bandeja' | 'duplicado' | 'ignorado';
+
+interface SocioDelTelefono {
+  id: string;
+  asociacionId: string;
+  nombre: string;
+  titular: boolean;
+}
+
+// Directorio teléfono -> socios en memoria: cruzar cada mensaje contra la
+// colección de socios sería una lectura completa por mensaje
+const VIGENCIA_DIRECTORIO_MS = 10 * 60 * 1000;
+// Un número desconocido recarga el directorio, como mucho una vez por minuto,
+// para encontrar a los socios dados de alta después de la última carga
+const RECARGA_MINIMA_MS = 60 * 1000;
+// Beneficios que se leen para elegir los más cercanos al socio
+const BENEFICIOS_CANDIDATOS = 20;
+
+let directorio: Map<string, SocioDelTelefono[]> | null = null;
+let directorioCargadoEn = 0;
+let cargaEnCurso: Promise<Map<string, SocioDelTelefono[]>> | null = null;
+
+async function cargarDirectorio(): Promise<Map<string, SocioDelTelefono[]>> {
+  const snapshot = await adminDb.collection(COLLECTIONS.SOCIOS)
+    .select('telefono', 'asociacionId', 'nombre', 'titularId')
+    .get();
+
+  const nuevo = new Map<string, SocioDelTelefono[]>();
+  snapshot.docs.forEach(socioDoc => {
+    const socio = socioDoc.data();
+    const clave = claveTelefono(socio.telefono);
+    if (!clave || !socio.asociacionId) return;
+
+    const socios = nuevo.get(clave) ?? [];
+    socios.push({
+      id: socioDoc.id,
+      asociacionId: socio.asociacionId,
+      nombre: socio.nombre ?? '',
+      titular: !socio.titularId,
+    });
+    nuevo.set(clave, socios);
+  });
+
+  directorio = nuevo;
+  directorioCargadoEn = Date.now();
+  return nuevo;
+}
+
+async function obtenerDirectorio(forzar: boolean): Promise<Map<string, SocioDelTelefono[]>> {
+  const antiguedad = Date.now() - directorioCargadoEn;
+  const vencido = antiguedad > VIGENCIA_DIRECTORIO_MS || (forzar && antiguedad > RECARGA_MINIMA_MS);
+  if (directorio && !vencido) return directorio;
+
+  cargaEnCurso ??= cargarDirectorio().finally(() => {
+    cargaEnCurso = null;
+  });
+  return cargaEnCurso;
+}
+
+// Un grupo familiar puede compartir el teléfono: responde el titular
+async function buscarSocioPorTelefono(telefono: string): Promise<SocioDelTelefono | null> {
+  let socios = (await obtenerDirectorio(false)).get(telefono);
+  if (!socios) {
+    socios = (await obtenerDirectorio(true)).get(telefono);
+  }
+  if (!socios?.length) return null;
+
+  return socios.find(socio => socio.titular) ?? socios[0];
+}
+
+async function beneficiosParaSocio(socio: SocioDelTelefono): Promise<string> {
+  const [socioDoc, beneficiosSnapshot] = await Promise.all([
+    adminDb.collection(COLLECTIONS.SOCIOS).doc(socio.id).get(),
+    adminDb.collection(COLLECTIONS.BENEFICIOS)
+      .where('estado', '==', 'activo')
+      .where('asociacionesDisponibles', 'array-contains', socio.asociacionId)
+      .orderBy('creadoEn', 'desc')
+      .limit(BENEFICIOS_CANDIDATOS)
+      .get(),
+  ]);
+
+  const ahora = new Date();
+  const vigentes = beneficiosSnapshot.docs
+    .map(beneficioDoc => beneficioDoc.data())
+    .filter(beneficio => !beneficio.fechaFin || beneficio.fechaFin.toDate() >= ahora);
+
+  // Los comercios no tienen coordenadas: es cercano el que tiene la ciudad
+  // del socio en la dirección
+  const ciudad: string | null = socioDoc.data()?.ubicacionActual?.ciudad || null;
+  const direcciones = new Map<string, string>();
+  const comercioIds = [...new Set(vigentes.map(beneficio => beneficio.comercioId).filter(Boolean))];
+  if (ciudad && comercioIds.length > 0) {
+    const comercios = await adminDb.getAll(
+      ...comercioIds.map(id => adminDb.collection(COLLECTIONS.COMERCIOS).doc(id))
+    );
+    comercios.forEach(comercioDoc => {
+      const direccion = comercioDoc.data()?.direccion;
+      if (direccion) direcciones.set(comercioDoc.id, normalizarTexto(direccion));
+    });
+  }
+
+  const beneficios: BeneficioRespuesta[] = vigentes.map(beneficio => ({
+    titulo: beneficio.titulo,
+    tipo: beneficio.tipo,
+    descuento: beneficio.descuento ?? 0,
+    comercioNombre: beneficio.comercioNombre ?? '',
+    costoPuntos: beneficio.costoPuntos,
+    cercano: !!ciudad && !!direcciones.get(beneficio.comercioId)?.includes(normalizarTexto(ciudad)),
+  }));
+  // sort es estable: dentro de cada grupo se mantiene el orden por fecha
+  beneficios.sort((a, b) => Number(!!b.cercano) - Number(!!a.cercano));
+
+  return respuestaBeneficios(beneficios.slice(0, BENEFICIOS_EN_RESPUESTA), ciudad);
+}
+
+async function saldoParaSocio(socio: SocioDelTelefono): Promise<string> {
+  const datos = (await adminDb.collection(COLLECTIONS.SOCIOS).doc(socio.id).get()).data();
+  if (!datos) return RESPUESTA_SIN_SOCIO;
+
+  const cuenta = datos.cuentaCuotas;
+  return respuestaSaldo({
+    nombre: datos.nombre ?? socio.nombre,
+    estadoMembresia: derivarEstadoMembresia(datos),
+    deuda: cuenta?.deuda,
+    deudaVencida: cuenta?.deudaVencida,
+    cuotasVencidas: cuenta?.cuotasVencidas,
+    credito: cuenta?.credito,
+    proximoVencimiento: cuenta?.proximoVencimiento?.toDate() ?? null,
+  });
+}
+
+const refBaja = (telefono: string) =>
+  adminDb.collection(COLLECTIONS.WHATSAPP_BAJAS).doc(telefono.replace(/\D/g, ''));
+
+async function respuestaComando(
+  comando: ComandoWhatsApp,
+  telefono: string,
+  socio: SocioDelTelefono | null
+): Promise<string> {
+  switch (comando) {
+    case 'baja':
+      await refBaja(telefono).set({
+        telefono,
+        socioId: socio?.id ?? null,
+        asociacionId: socio?.asociacionId ?? null,
+        creadoEn: FieldValue.serverTimestamp(),
+      });
+      return RESPUESTA_BAJA;
+    case 'alta':
+      await refBaja(telefono).delete();
+      return RESPUESTA_ALTA;
+    case 'saldo':
+      return socio ? saldoParaSocio(socio) : RESPUESTA_SIN_SOCIO;
+    case 'beneficios':
+      return socio ? beneficiosParaSocio(socio) : RESPUESTA_SIN_SOCIO;
+  }
+}
+
+interface OpcionesSaliente {
+  respuestaAutomatica: boolean;
+  enviadoPor: string | null;
+  // Con una respuesta del personal el hilo deja de esperar
+  resolver?: boolean;
+}
+
+async function enviarSaliente(
+  hiloRef: DocumentReference,
+  telefono: string,
+  texto: string,
+  opciones: OpcionesSaliente
+): Promise<{ success: boolean; error?: string }> {
+  // La conversación llegó por WhatsApp Web: se contesta primero por la misma
+  // sesión, con la conmutación y los circuitos del registro de proveedores
+  const resultado = await getWhatsAppRegistry().enviar(telefono, texto, undefined, { preferido: 'baileys' });
+  const batch = adminDb.batch();
+
+  batch.set(hiloRef.collection(COLLECTIONS.WHATSAPP_MENSAJES).doc(), {
+    direccion: 'saliente',
+    texto,
+    respuestaAutomatica: opciones.respuestaAutomatica,
+    enviadoPor: opciones.enviadoPor,
+    enviado: resultado.success,
+    proveedor: resultado.proveedor ?? null,
+    error: resultado.error ?? null,
+    creadoEn: FieldValue.serverTimestamp(),
+  });
+  batch.update(hiloRef, {
+    ultimoMensaje: texto,
+    ultimaDireccion: 'saliente',
+    ultimoMensajeEn: FieldValue.serverTimestamp(),
+    ...(opciones.resolver && resultado.success ? { estado: 'resuelto', noLeidos: 0 } : {}),
+  });
+  await batch.commit();
+
+  return { success: resultado.success, error: resultado.error };
+}
+
+/**
+ * Guarda un mensaje recibido en el hilo de su número y asociación. Los
+ * comandos (SALDO, BENEFICIOS, BAJA, ALTA) se contestan sin intervención del
+ * personal; cualquier otro mensaje deja el hilo abierto en la bandeja de la
+ * asociación. WhatsApp puede entregar el mismo mensaje más de una vez: el ID
+ * del mensaje es el del documento y un repetido no se procesa.
+ */
+export async function procesarMensajeEntrante(
+  mensaje: MensajeEntranteWhatsApp
+): Promise<ResultadoMensajeEntrante> {
+  const telefono = claveTelefono(mensaje.telefono);
+  const texto = mensaje.texto.trim();
+  if (!telefono || !texto) return 'ignorado';
+
+  const socio = await buscarSocioPorTelefono(telefono);
+  const comando = detectarComando(texto);
+  // SALDO y BENEFICIOS de un número sin socio se contestan, pero el personal
+  // tiene que verlos para vincular el teléfono
+  const atendido = comando !== null && (socio !== null || comando === 'baja' || comando === 'alta');
+
+  const hiloRef = adminDb.collection(COLLECTIONS.WHATSAPP_HILOS)
+    .doc(idHiloWhatsApp(socio?.asociacionId ?? null, telefono));
+  const mensajeRef = hiloRef.collection(COLLECTIONS.WHATSAPP_MENSAJES).doc(mensaje.messageId);
+
+  const registrado = await adminDb.runTransaction(async (transaction) => {
+    const [mensajeDoc, hiloDoc] = await Promise.all([
+      transaction.get(mensajeRef),
+      transaction.get(hiloRef),
+    ]);
+    if (mensajeDoc.exists) return false;
+
+    const recibidoEn = Timestamp.fromDate(mensaje.recibidoEn);
+    transaction.set(mensajeRef, {
+      direccion: 'entrante',
+      texto,
+      comando,
+      creadoEn: recibidoEn,
+    });
+
+    const estado: Record<string, unknown> = atendido
+      ? (hiloDoc.exists ? {} : { estado: 'resuelto', noLeidos: 0 })
+      : { estado: 'abierto', noLeidos: FieldValue.increment(1) };
+    transaction.set(hiloRef, {
+      asociacionId: socio?.asociacionId ?? null,
+      socioId: socio?.id ?? null,
+      socioNombre: socio?.nombre ?? null,
+      telefono,
+      nombrePerfil: mensaje.nombrePerfil ?? null,
+      ultimoMensaje: texto,
+      ultimaDireccion: 'entrante',
+      ultimoMensajeEn: recibidoEn,
+      ...(hiloDoc.exists ? {} : { creadoEn: FieldValue.serverTimestamp() }),
+      ...estado,
+    }, { merge: true });
+
+    return true;
+  });
+
+  if (!registrado) return 'duplicado';
+  if (!comando) return 'bandeja';
+
+  const respuesta = await respuestaComando(comando, telefono, socio);
+  await enviarSaliente(hiloRef, telefono, respuesta, { respuestaAutomatica: true, enviadoPor: null });
+  return atendido ? 'comando' : 'bandeja';
+}
+
+let bandejaActiva = false;
+
+// Conecta la sesión de WhatsApp Web con la bandeja; se puede llamar varias veces
+export function activarBandejaWhatsApp(): void {
+  if (bandejaActiva) return;
+  whatsAppWebService.onMensajeEntrante(procesarMensajeEntrante);
+  bandejaActiva = true;
+}
+
+// El socio respondió BAJA: no se le envían mensajes por WhatsApp
+export async function estaDeBajaWhatsApp(telefono: string): Promise<boolean> {
+  const clave = claveTelefono(telefono);
+  if (!clave) return false;
+  return (await refBaja(clave).get()).exists;
+}
+
+export async function responderHiloWhatsApp(
+  hiloId: string,
+  texto: string,
+  enviadoPor: string
+): Promise<{ success: boolean; error?: string }> {
+  const hiloRef = adminDb.collection(COLLECTIONS.WHATSAPP_HILOS).doc(hiloId);
+  const hilo = (await hiloRef.get()).data();
+  if (!hilo) return { success: false, error: 'Conversación no encontrada' };
+
+  return enviarSaliente(hiloRef, hilo.telefono, texto, {
+    respuestaAutomatica: false,
+    enviadoPor,
+    resolver: true,
+  });
+}
+
+export async function actualizarHiloWhatsApp(
+  hiloId: string,
+  cambios: { estado?: EstadoHiloWhatsApp; leido?: boolean }
+): Promise<void> {
+  await adminDb.collection(COLLECTIONS.WHATSAPP_HILOS).doc(hiloId).update({
+    ...(cambios.estado ? { estado: cambios.estado } : {}),
+    ...(cambios.leido || cambios.estado === 'resuelto' ? { noLeidos: 0 } : {}),
+  });
+}
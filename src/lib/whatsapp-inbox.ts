@@ -0,0 +1,136 @@
+import { formatPhoneForArgentina, isValidWhatsAppPhone } from '@/utils/phone-validator';
+import { formatearValor } from '@/lib/plantillas';
+import { EstadoMembresia } from '@/types/cuotas';
+import { ComandoWhatsApp } from '@/types/whatsapp';
+
+/**
+ * Palabras clave que los socios pueden enviar por WhatsApp. El mensaje tiene
+ * que ser solo la palabra: "SALDO" es un comando, "¿cuál es mi saldo?" va a
+ * la bandeja del personal.
+ */
+export const PALABRAS_COMANDO: Record<ComandoWhatsApp, string[]> = {
+  saldo: ['SALDO', 'ESTADO', 'CUOTA'],
+  beneficios: ['BENEFICIOS', 'BENEFICIO', 'DESCUENTOS'],
+  baja: ['BAJA', 'STOP'],
+  alta: ['ALTA'],
+};
+
+// Beneficios listados en la respuesta a BENEFICIOS
+export const BENEFICIOS_EN_RESPUESTA = 5;
+
+// Sin tildes y en minúsculas, para comparar palabras y direcciones
+export const normalizarTexto = (texto: string) =>
+  texto.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export function detectarComando(texto: string): ComandoWhatsApp | null {
+  const palabra = normalizarTexto(texto).replace(/[^\p{L}\p{N}\s]/gu, '').trim().toUpperCase();
+  if (!palabra || /\s/.test(palabra)) return null;
+
+  const comando = (Object.keys(PALABRAS_COMANDO) as ComandoWhatsApp[])
+    .find(clave => PALABRAS_COMANDO[clave].includes(palabra));
+  return comando ?? null;
+}
+
+/**
+ * Clave +549… con la que se cruzan los números entrantes con el teléfono de
+ * los socios; null si no es un celular argentino válido. WhatsApp informa el
+ * número con código de país y el socio puede tenerlo cargado sin él o con 0.
+ */
+export function claveTelefono(telefono: string | null | undefined): string | null {
+  if (!telefono) return null;
+  const formateado = formatPhoneForArgentina(telefono.replace(/@.*$/, ''));
+  return formateado && isValidWhatsAppPhone(formateado) ? formateado : null;
+}
+
+// ID del hilo: uno por número y asociación
+export const idHiloWhatsApp = (asociacionId: string | null, telefono: string) =>
+  `${asociacionId ?? 'sin_asociacion'}_${telefono.replace(/\D/g, '')}`;
+
+export interface DatosSaldoSocio {
+  nombre: string;
+  estadoMembresia: EstadoMembresia;
+  deuda?: number;
+  deudaVencida?: number;
+  cuotasVencidas?: number;
+  credito?: number;
+  proximoVencimiento?: Date | null;
+}
+
+const TEXTO_ESTADO: Record<EstadoMembresia, string> = {
+  al_dia: 'está al día ✅',
+  vencido: 'tiene cuotas vencidas ⚠️',
+  pendiente: 'está pendiente de activación',
+};
+
+export function respuestaSaldo(socio: DatosSaldoSocio): string {
+  const lineas = [`Hola ${socio.nombre}, tu membresía ${TEXTO_ESTADO[socio.estadoMembresia]}.`];
+
+  if (socio.deuda && socio.deuda > 0) {
+    lineas.push(`Saldo adeudado: ${formatearValor(socio.deuda, 'moneda')}`);
+  }
+  if (socio.deudaVencida && socio.deudaVencida > 0) {
+    const cuotas = socio.cuotasVencidas ?? 0;
+    lineas.push(
+      `Vencido: ${formatearValor(socio.deudaVencida, 'moneda')}` +
+      (cuotas > 0 ? ` (${cuotas} ${cuotas === 1 ? 'cuota' : 'cuotas'})` : '')
+    );
+  }
+  if (socio.credito && socio.credito > 0) {
+    lineas.push(`Crédito a favor: ${formatearValor(socio.credito, 'moneda')}`);
+  }
+  if (socio.proximoVencimiento) {
+    lineas.push(`Próximo vencimiento: ${formatearValor(socio.proximoVencimiento, 'fecha')}`);
+  }
+
+  return lineas.join('\n');
+}
+
+export interface BeneficioRespuesta {
+  titulo: string;
+  tipo: string;
+  descuento: number;
+  comercioNombre: string;
+  costoPuntos?: number;
+  // El comercio queda en la ciudad del socio
+  cercano?: boolean;
+}
+
+const describirDescuento = (beneficio: BeneficioRespuesta): string => {
+  switch (beneficio.tipo) {
+    case 'porcentaje':
+      return `${beneficio.descuento}% de descuento`;
+    case 'monto_fijo':
+      return `${formatearValor(beneficio.descuento, 'moneda')} de descuento`;
+    case 'producto_gratis':
+      return 'producto gratis';
+    case 'puntos':
+      return `canje por ${beneficio.costoPuntos ?? beneficio.descuento} puntos`;
+    default:
+      return '';
+  }
+};
+
+export function respuestaBeneficios(beneficios: BeneficioRespuesta[], ciudad?: string | null): string {
+  if (beneficios.length === 0) {
+    return 'Por ahora tu asociación no tiene beneficios activos. Te avisamos cuando haya nuevos.';
+  }
+
+  const encabezado = ciudad && beneficios.some(beneficio => beneficio.cercano)
+    ? `Beneficios activos cerca tuyo en ${ciudad}:`
+    : 'Beneficios activos de tu asociación:';
+  const lista = beneficios.map(beneficio => {
+    const descuento = describirDescuento(beneficio);
+    return `• ${beneficio.titulo} en ${beneficio.comercioNombre}${descuento ? ` - ${descuento}` : ''}`;
+  });
+
+  return [encabezado, ...lista, '', 'Mostrá tu credencial desde la app de Fidelya para usarlos.'].join('\n');
+}
+
+export const RESPUESTA_BAJA =
+  'Listo, no vas a recibir más mensajes de Fidelya por WhatsApp. Si querés volver a recibirlos, respondé ALTA.';
+
+export const RESPUESTA_ALTA =
+  'Listo, vas a volver a recibir los mensajes de tu asociación por WhatsApp. Para dejar de recibirlos, respondé BAJA.';
+
+export const RESPUESTA_SIN_SOCIO =
+  'No encontramos un socio con este número. Pedile a tu asociación que actualice tu teléfono para usar SALDO y BENEFICIOS.';
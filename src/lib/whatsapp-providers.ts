@@ -0,0 +1,444 @@
+/**
+ * Registro único de proveedores de WhatsApp (solo servidor). Cada proveedor
+ * se prueba en orden de prioridad y, si falla, se pasa al siguiente. Un
+ * proveedor con demasiadas fallas seguidas abre su circuito y se saltea
+ * durante un tiempo; el límite por minuto evita agotar cuotas de la API.
+ *
+ * La salud se lleva en memoria de la instancia del servidor: se reinicia con
+ * cada despliegue, igual que la conexión de WhatsApp Web.
+ */
+
+import { greenAPIService } from '@/services/green-api.service';
+import { callMeBotService } from '@/services/callmebot.service';
+import { whatsAppWebService } from '@/services/whatsapp-web.service';
+import { notificationProvidersService } from '@/services/notification-providers.service';
+import { validateAndFormatPhoneInternational } from '@/utils/phone-validator';
+import {
+  EstadoCircuito,
+  IntentoEnvioWhatsApp,
+  ProveedorWhatsAppId,
+  ResultadoEnvioWhatsApp,
+  SaludProveedorWhatsApp,
+} from '@/types/whatsapp';
+
+export interface ResultadoProveedorWhatsApp {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface WhatsAppSender {
+  readonly id: ProveedorWhatsAppId;
+  readonly nombre: string;
+  readonly costo: 'free' | 'paid';
+  readonly limitaciones?: string;
+  estaConfigurado(): boolean;
+  enviar(to: string, message: string, title?: string): Promise<ResultadoProveedorWhatsApp>;
+}
+
+export interface ProveedorRegistrado {
+  sender: WhatsAppSender;
+  prioridad: number;
+  limitePorMinuto: number;
+}
+
+export interface OpcionesRegistroWhatsApp {
+  // Fallas seguidas que abren el circuito
+  umbralFallas: number;
+  // Tiempo que el circuito queda abierto antes del envío de prueba
+  aperturaMs: number;
+  // Reloj inyectable para probar el circuito sin esperar
+  ahora: () => number;
+}
+
+const MS_POR_MINUTO = 60 * 1000;
+
+// Orden por defecto: primero los gratuitos más confiables, los pagos al final
+const PRIORIDAD_POR_DEFECTO: ProveedorWhatsAppId[] = [
+  'green_api',
+  'meta_whatsapp',
+  '360dialog',
+  'twilio',
+  'callmebot',
+  'baileys',
+];
+
+const LIMITE_POR_MINUTO_POR_DEFECTO: Record<ProveedorWhatsAppId, number> = {
+  green_api: 30,
+  callmebot: 10,
+  baileys: 20,
+  meta_whatsapp: 80,
+  twilio: 60,
+  '360dialog': 60,
+  mock: 1000,
+};
+
+const conTitulo = (message: string, title?: string): string =>
+  title ? `*${title}*\n\n${message}` : message;
+
+// ==================== PROVEEDORES ====================
+
+class GreenApiSender implements WhatsAppSender {
+  readonly id = 'green_api' as const;
+  readonly nombre = 'Green API';
+  readonly costo = 'free' as const;
+  readonly limitaciones = '3000 mensajes gratis/mes';
+
+  estaConfigurado(): boolean {
+    return greenAPIService.isConfigured();
+  }
+
+  enviar(to: string, message: string, title?: string) {
+    return greenAPIService.sendMessage(to, message, title);
+  }
+}
+
+class CallMeBotSender implements WhatsAppSender {
+  readonly id = 'callmebot' as const;
+  readonly nombre = 'CallMeBot';
+  readonly costo = 'free' as const;
+  readonly limitaciones = 'Limitado a números registrados';
+
+  estaConfigurado(): boolean {
+    return callMeBotService.isConfigured();
+  }
+
+  enviar(to: string, message: string, title?: string) {
+    return callMeBotService.sendMessage(to, message, title);
+  }
+}
+
+class BaileysSender implements WhatsAppSender {
+  readonly id = 'baileys' as const;
+  readonly nombre = 'WhatsApp Web (Baileys)';
+  readonly costo = 'free' as const;
+  readonly limitaciones = 'Requiere escanear QR y dependencias opcionales';
+
+  // Solo cuenta como configurado con la sesión conectada
+  estaConfigurado(): boolean {
+    return whatsAppWebService.isAvailable() && whatsAppWebService.getConnectionStatus();
+  }
+
+  enviar(to: string, message: string, title?: string) {
+    return whatsAppWebService.sendMessage(to, message, title);
+  }
+}
+
+class MetaWhatsAppSender implements WhatsAppSender {
+  readonly id = 'meta_whatsapp' as const;
+  readonly nombre = 'WhatsApp Business (Meta)';
+  readonly costo = 'paid' as const;
+
+  estaConfigurado(): boolean {
+    return !!(process.env.META_WHATSAPP_ACCESS_TOKEN && process.env.META_WHATSAPP_PHONE_NUMBER_ID);
+  }
+
+  enviar(to: string, message: string, title?: string) {
+    return notificationProvidersService.sendWhatsAppViaMeta(
+      {
+        name: 'meta',
+        apiKey: '',
+        accessToken: process.env.META_WHATSAPP_ACCESS_TOKEN,
+        phoneNumberId: process.env.META_WHATSAPP_PHONE_NUMBER_ID,
+      },
+      { to, content: conTitulo(message, title) }
+    );
+  }
+}
+
+class TwilioWhatsAppSender implements WhatsAppSender {
+  readonly id = 'twilio' as const;
+  readonly nombre = 'Twilio WhatsApp';
+  readonly costo = 'paid' as const;
+
+  estaConfigurado(): boolean {
+    return !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN);
+  }
+
+  enviar(to: string, message: string, title?: string) {
+    return notificationProvidersService.sendWhatsAppViaTwilio(
+      {
+        name: 'twilio',
+        apiKey: '',
+        accountSid: process.env.TWILIO_ACCOUNT_SID,
+        authToken: process.env.TWILIO_AUTH_TOKEN,
+      },
+      { to, content: conTitulo(message, title) }
+    );
+  }
+}
+
+class Dialog360Sender implements WhatsAppSender {
+  readonly id = '360dialog' as const;
+  readonly nombre = '360Dialog';
+  readonly costo = 'paid' as const;
+
+  estaConfigurado(): boolean {
+    return !!process.env.D360_API_KEY;
+  }
+
+  enviar(to: string, message: string, title?: string) {
+    return notificationProvidersService.sendWhatsAppVia360Dialog(
+      { name: '360dialog', apiKey: process.env.D360_API_KEY || '' },
+      { to, content: conTitulo(message, title) }
+    );
+  }
+}
+
+/**
+ * Proveedor local para probar la conmutación sin enviar mensajes reales.
+ * 'fail' falla siempre y 'flaky' falla un envío de cada dos.
+ */
+export class MockWhatsAppSender implements WhatsAppSender {
+  readonly id = 'mock' as const;
+  readonly nombre = 'Mock local';
+  readonly costo = 'free' as const;
+  readonly limitaciones = 'No envía mensajes; solo fuera de producción';
+  readonly enviados: { to: string; message: string; title?: string }[] = [];
+  private llamadas = 0;
+
+  constructor(private readonly modo: 'ok' | 'fail' | 'flaky' = 'ok') {}
+
+  static get habilitado(): boolean {
+    return process.env.NODE_ENV !== 'production' && !!process.env.WHATSAPP_MOCK_MODE;
+  }
+
+  estaConfigurado(): boolean {
+    return true;
+  }
+
+  async enviar(to: string, message: string, title?: string): Promise<ResultadoProveedorWhatsApp> {
+    this.llamadas++;
+    if (this.modo === 'fail' || (this.modo === 'flaky' && this.llamadas % 2 === 0)) {
+      return { success: false, error: `Mock: falla simulada (${this.modo})` };
+    }
+    this.enviados.push({ to, message, title });
+    return { success: true, messageId: `mock_${this.llamadas}_${Date.now()}` };
+  }
+}
+
+function crearSender(id: ProveedorWhatsAppId): WhatsAppSender | null {
+  switch (id) {
+    case 'green_api':
+      return new GreenApiSender();
+    case 'callmebot':
+      return new CallMeBotSender();
+    case 'baileys':
+      return new BaileysSender();
+    case 'meta_whatsapp':
+      return new MetaWhatsAppSender();
+    case 'twilio':
+      return new TwilioWhatsAppSender();
+    case '360dialog':
+      return new Dialog360Sender();
+    case 'mock': {
+      const modo = process.env.WHATSAPP_MOCK_MODE;
+      return MockWhatsAppSender.habilitado
+        ? new MockWhatsAppSender(modo === 'fail' || modo === 'flaky' ? modo : 'ok')
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// ==================== REGISTRO ====================
+
+interface EstadoProveedor {
+  circuito: EstadoCircuito;
+  fallasConsecutivas: number;
+  abiertoHasta: number;
+  envios: number[];
+  enviados: number;
+  fallidos: number;
+  ultimoError?: string;
+  ultimoEnvio?: number;
+}
+
+export class WhatsAppRegistry {
+  private readonly proveedores: ProveedorRegistrado[];
+  private readonly estados = new Map<ProveedorWhatsAppId, EstadoProveedor>();
+  private readonly opciones: OpcionesRegistroWhatsApp;
+
+  constructor(proveedores: ProveedorRegistrado[], opciones: Partial<OpcionesRegistroWhatsApp> = {}) {
+    this.proveedores = [...proveedores].sort((a, b) => a.prioridad - b.prioridad);
+    this.opciones = { umbralFallas: 3, aperturaMs: 5 * MS_POR_MINUTO, ahora: Date.now, ...opciones };
+    this.proveedores.forEach(({ sender }) => {
+      this.estados.set(sender.id, { circuito: 'cerrado', fallasConsecutivas: 0, abiertoHasta: 0, envios: [], enviados: 0, fallidos: 0 });
+    });
+  }
+
+  /**
+   * Envía con el primer proveedor disponible. Un número inválido no se
+   * intenta: fallaría en todos y abriría circuitos sanos. Con preferido ese
+   * proveedor se prueba primero (p. ej. la sesión por la que llegó una
+   * conversación) y el resto queda como respaldo.
+   */
+  async enviar(
+    to: string,
+    message: string,
+    title?: string,
+    opciones: { preferido?: ProveedorWhatsAppId } = {}
+  ): Promise<ResultadoEnvioWhatsApp> {
+    const intentos: IntentoEnvioWhatsApp[] = [];
+    const resultado = (datos: Partial<ResultadoEnvioWhatsApp>): ResultadoEnvioWhatsApp => ({
+      success: false,
+      fallbackUsed: false,
+      intentos,
+      timestamp: new Date(this.opciones.ahora()),
+      ...datos,
+    });
+
+    if (!validateAndFormatPhoneInternational(to.replace(/\D/g, '')).isValid) {
+      return resultado({ error: 'Número de teléfono inválido' });
+    }
+
+    const orden = opciones.preferido
+      ? [
+          ...this.proveedores.filter(({ sender }) => sender.id === opciones.preferido),
+          ...this.proveedores.filter(({ sender }) => sender.id !== opciones.preferido),
+        ]
+      : this.proveedores;
+
+    for (const { sender, limitePorMinuto } of orden) {
+      if (!sender.estaConfigurado()) continue;
+
+      const estado = this.estados.get(sender.id)!;
+      const ahora = this.opciones.ahora();
+      if (!this.puedeIntentar(estado, ahora)) {
+        intentos.push({ proveedor: sender.id, resultado: 'circuito_abierto' });
+        continue;
+      }
+      estado.envios = estado.envios.filter(momento => momento > ahora - MS_POR_MINUTO);
+      if (estado.envios.length >= limitePorMinuto) {
+        intentos.push({ proveedor: sender.id, resultado: 'limite_tasa' });
+        continue;
+      }
+
+      // Pasado el tiempo de apertura, este envío es la prueba del circuito
+      if (estado.circuito === 'abierto') estado.circuito = 'semiabierto';
+      estado.envios.push(ahora);
+      let envio: ResultadoProveedorWhatsApp;
+      try {
+        envio = await sender.enviar(to, message, title);
+      } catch (error) {
+        envio = { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+      }
+
+      if (envio.success) {
+        this.registrarExito(estado);
+        intentos.push({ proveedor: sender.id, resultado: 'enviado' });
+        return resultado({
+          success: true,
+          messageId: envio.messageId,
+          proveedor: sender.id,
+          fallbackUsed: intentos.length > 1,
+        });
+      }
+
+      this.registrarFalla(estado, envio.error || 'Error desconocido');
+      intentos.push({ proveedor: sender.id, resultado: 'fallido', error: envio.error });
+      console.warn(`⚠️ WhatsApp: falló ${sender.nombre}, probando el siguiente proveedor`, envio.error);
+    }
+
+    return resultado({
+      error: intentos.length > 0
+        ? 'Todos los proveedores de WhatsApp fallaron o no están disponibles'
+        : 'No hay proveedores de WhatsApp configurados',
+    });
+  }
+
+  getSalud(): SaludProveedorWhatsApp[] {
+    const ahora = this.opciones.ahora();
+    return this.proveedores.map(({ sender, prioridad, limitePorMinuto }) => {
+      const estado = this.estados.get(sender.id)!;
+      const circuito = estado.circuito === 'abierto' && ahora >= estado.abiertoHasta ? 'semiabierto' : estado.circuito;
+      return {
+        id: sender.id,
+        nombre: sender.nombre,
+        prioridad,
+        configurado: sender.estaConfigurado(),
+        costo: sender.costo,
+        limitaciones: sender.limitaciones,
+        circuito,
+        fallasConsecutivas: estado.fallasConsecutivas,
+        abiertoHasta: circuito === 'abierto' ? new Date(estado.abiertoHasta).toISOString() : undefined,
+        limitePorMinuto,
+        enviosUltimoMinuto: estado.envios.filter(momento => momento > ahora - MS_POR_MINUTO).length,
+        enviados: estado.enviados,
+        fallidos: estado.fallidos,
+        ultimoError: estado.ultimoError,
+        ultimoEnvio: estado.ultimoEnvio ? new Date(estado.ultimoEnvio).toISOString() : undefined,
+      };
+    });
+  }
+
+  // Cierra el circuito a mano (después de arreglar la configuración)
+  restablecerCircuito(id: ProveedorWhatsAppId): boolean {
+    const estado = this.estados.get(id);
+    if (!estado) return false;
+    estado.circuito = 'cerrado';
+    estado.fallasConsecutivas = 0;
+    estado.abiertoHasta = 0;
+    return true;
+  }
+
+  private puedeIntentar(estado: EstadoProveedor, ahora: number): boolean {
+    if (estado.circuito === 'cerrado') return true;
+    // Con el circuito semiabierto ya hay un envío de prueba en curso
+    return estado.circuito === 'abierto' && ahora >= estado.abiertoHasta;
+  }
+
+  private registrarExito(estado: EstadoProveedor): void {
+    estado.circuito = 'cerrado';
+    estado.fallasConsecutivas = 0;
+    estado.enviados++;
+    estado.ultimoEnvio = this.opciones.ahora();
+  }
+
+  private registrarFalla(estado: EstadoProveedor, error: string): void {
+    estado.fallasConsecutivas++;
+    estado.fallidos++;
+    estado.ultimoError = error;
+    // Una falla en el envío de prueba vuelve a abrir el circuito
+    if (estado.circuito === 'semiabierto' || estado.fallasConsecutivas >= this.opciones.umbralFallas) {
+      estado.circuito = 'abierto';
+      estado.abiertoHasta = this.opciones.ahora() + this.opciones.aperturaMs;
+    }
+  }
+}
+
+/**
+ * WHATSAPP_PROVIDERS fija el orden (ej. "meta_whatsapp,green_api"); los que
+ * no figuran quedan fuera. WHATSAPP_RATE_LIMITS ajusta los límites por
+ * minuto (ej. "green_api:20,callmebot:5").
+ */
+function crearRegistroDesdeEntorno(): WhatsAppRegistry {
+  const orden = process.env.WHATSAPP_PROVIDERS
+    ? process.env.WHATSAPP_PROVIDERS.split(',').map(id => id.trim()) as ProveedorWhatsAppId[]
+    : [...(MockWhatsAppSender.habilitado ? ['mock' as const] : []), ...PRIORIDAD_POR_DEFECTO];
+
+  const limites: Partial<Record<string, number>> = Object.fromEntries(
+    (process.env.WHATSAPP_RATE_LIMITS || '')
+      .split(',')
+      .map(par => par.split(':').map(valor => valor.trim()))
+      .filter(([id, limite]) => id && Number(limite) > 0)
+      .map(([id, limite]) => [id, Number(limite)])
+  );
+
+  const proveedores = orden.flatMap((id, indice): ProveedorRegistrado[] => {
+    const sender = crearSender(id);
+    return sender
+      ? [{ sender, prioridad: indice + 1, limitePorMinuto: limites[id] ?? LIMITE_POR_MINUTO_POR_DEFECTO[id] }]
+      : [];
+  });
+
+  return new WhatsAppRegistry(proveedores);
+}
+
+let registro: WhatsAppRegistry | null = null;
+
+export function getWhatsAppRegistry(): WhatsAppRegistry {
+  if (!registro) registro = crearRegistroDesdeEntorno();
+  return registro;
+}
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+
+// Cada colección devuelve los documentos que el test carga en `coleccion`
+const coleccion: Record<string, Record<string, unknown>[]> = {};
+const consultas: { nombre: string; filtros: unknown[][] }[] = [];
+
+vi.mock('@/lib/firebase', () => ({ db: {} }));
+vi.mock('firebase/firestore', async (importOriginal) => {
+  const original = await importOriginal<typeof import('firebase/firestore')>();
+  return {
+    ...original,
+    collection: (_db: unknown, nombre: string) => nombre,
+    where: (...filtro: unknown[]) => filtro,
+    query: (nombre: string, ...filtros: unknown[][]) => {
+      consultas.push({ nombre, filtros });
+      return nombre;
+    },
+    getDocs: async (nombre: string) => ({
+      docs: (coleccion[nombre] || []).map((data, indice) => ({ id: `${nombre}_${indice}`, data: () => data })),
+    }),
+  };
+});
+
+import { insightsService } from '@/services/insights.service';
+
+const AHORA = new Date('2025-06-15T12:00:00Z');
+const haceDias = (dias: number) => Timestamp.fromDate(new Date(AHORA.getTime() - dias * 24 * 60 * 60 * 1000));
+
+// Validación exitosa tal como la escribe validacionesService.validarAcceso
+const validacionExitosa = (socioId: string, beneficioId: string, dias: number) => ({
+  socioId,
+  socioNombre: 'Socio',
+  socioNumero: '001',
+  asociacionId: 'asoc1',
+  comercioId: 'comercio1',
+  comercioNombre: 'Librería Centro',
+  beneficioId,
+  beneficioTitulo: '20% de descuento',
+  descuento: 20,
+  tipoDescuento: 'porcentaje',
+  montoDescuento: 0,
+  fechaValidacion: haceDias(dias),
+  estado: 'exitosa',
+  codigoValidacion: 'FID-ABC-12345',
+});
+
+// Validación rechazada tal como la registra recordFailedValidation
+const validacionFallida = (socioId: string, beneficioId: string, dias: number) => ({
+  socioId,
+  comercioId: 'comercio1',
+  beneficioId,
+  asociacionId: 'asoc1',
+  fechaValidacion: haceDias(dias),
+  estado: 'fallida',
+  error: 'Límite de usos alcanzado',
+  creadoEn: haceDias(dias),
+});
+
+const socio = (nombre: string) => ({
+  nombre,
+  numeroSocio: '001',
+  email: `${nombre.toLowerCase()}@example.com`,
+  estado: 'activo',
+  asociacionId: 'asoc1',
+  fechaIngreso: haceDias(400),
+});
+
+describe('insightsService.getInsights', () => {
+  beforeEach(() => {
+    consultas.length = 0;
+    coleccion.socios = [socio('Ana'), socio('Bruno')];
+    coleccion.beneficios = [{
+      titulo: '20% de descuento',
+      comercioNombre: 'Librería Centro',
+      estado: 'activo',
+      asociacionesDisponibles: ['asoc1'],
+      limiteTotal: 4,
+      usosActuales: 4,
+    }];
+    coleccion.validaciones = [
+      validacionExitosa('socios_0', 'beneficios_0', 2),
+      validacionExitosa('socios_0', 'beneficios_0', 10),
+      validacionExitosa('socios_0', 'beneficios_0', 45),
+      validacionFallida('socios_1', 'beneficios_0', 1),
+    ];
+  });
+
+  it('filtra la ventana de análisis por fechaValidacion', async () => {
+    await insightsService.getInsights('asoc1', AHORA);
+
+    const validaciones = consultas.find(consulta => consulta.nombre === 'validaciones');
+    expect(validaciones?.filtros.map(([campo, operador]) => `${campo} ${operador}`))
+      .toEqual(['asociacionId ==', 'fechaValidacion >=']);
+  });
+
+  it('cuenta como usos solo las validaciones exitosas', async () => {
+    const insights = await insightsService.getInsights('asoc1', AHORA);
+
+    const ana = insights.riesgo.find(riesgo => riesgo.nombre === 'Ana');
+    const bruno = insights.riesgo.find(riesgo => riesgo.nombre === 'Bruno');
+    expect(ana?.validaciones90Dias).toBe(3);
+    expect(ana?.diasSinValidar).toBe(2);
+    expect(bruno?.validaciones90Dias).toBe(0);
+    expect(bruno?.diasSinValidar).toBeNull();
+  });
+
+  it('mide el uso de los beneficios con las validaciones exitosas', async () => {
+    const insights = await insightsService.getInsights('asoc1', AHORA);
+
+    expect(insights.validacionesAnalizadas).toBe(4);
+    expect(insights.saturacion).toHaveLength(1);
+    expect(insights.saturacion[0]).toMatchObject({
+      beneficioId: 'beneficios_0',
+      tipo: 'cupo',
+      usosUltimos30Dias: 2,
+      usosPrevios30Dias: 1,
+      penetracion: 0.5,
+    });
+  });
+});
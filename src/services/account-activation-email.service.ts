@@ -240,7 +240,9 @@ El equipo de Fidelya 💙
         type: 'info' as const,
         channels: ['email' as const],
         recipientIds: [socioEmail],
-        businessName: asociacionInfo.nombre // Usar el nombre correcto de la asociación
+        businessName: asociacionInfo.nombre, // Usar el nombre correcto de la asociación
+        // El email sale con el logo, los colores y el pie de la asociación
+        asociacionId
       };
 
       console.log(`📤 Datos de notificación preparados:`, {
@@ -255,13 +257,6 @@ El equipo de Fidelya 💙
       const originalGetRecipients = simpleNotificationService.getRecipients;
       simpleNotificationService.getRecipients = async () => [tempRecipient];
 
-      // Sobrescribir temporalmente el método sendEmail para pasar el nombre de la asociación
-      const originalSendEmail = simpleNotificationService['emailService'].sendEmail;
-      simpleNotificationService['emailService'].sendEmail = async (to: string, subject: string, message: string) => {
-        console.log(`📧 Enviando email con nombre de asociación: ${asociacionInfo.nombre}`);
-        return originalSendEmail.call(simpleNotificationService['emailService'], to, subject, message, asociacionInfo.nombre);
-      };
-
       try {
         // Crear y enviar la notificación
         const notificationId = await simpleNotificationService.createNotification(
@@ -283,9 +278,8 @@ El equipo de Fidelya 💙
           errorsCount: result.errors.length
         });
 
-        // Restaurar los métodos originales
+        // Restaurar el método original
         simpleNotificationService.getRecipients = originalGetRecipients;
-        simpleNotificationService['emailService'].sendEmail = originalSendEmail;
 
         if (result.success && result.sentCount > 0) {
           console.log(`✅ Email de activación enviado exitosamente a: ${socioEmail}`);
@@ -302,9 +296,8 @@ El equipo de Fidelya 💙
         }
 
       } catch (sendError) {
-        // Restaurar los métodos originales en caso de error
+        // Restaurar el método original en caso de error
         simpleNotificationService.getRecipients = originalGetRecipients;
-        simpleNotificationService['emailService'].sendEmail = originalSendEmail;
         throw sendError;
       }
 
@@ -18,6 +18,7 @@ import {
 import { db } from '@/lib/firebase';
 import { COLLECTIONS } from '@/lib/constants';
 import { handleError } from '@/lib/error-handler';
+import { eventosDominioService } from './eventos-dominio.service';
 
 export interface ComercioDisponible {
   id: string;
@@ -42,6 +43,7 @@ export interface ComercioDisponible {
   };
   estado: 'activo' | 'inactivo' | 'pendiente' | 'suspendido';
   asociacionesVinculadas: string[];
+  timezone?: string;
   creadoEn: Timestamp;
   actualizadoEn?: Timestamp;
   verificado: boolean;
@@ -311,6 +313,15 @@ class AdhesionService {
 
       await batch.commit();
 
+      // Sin destinatario propio: el trigger elige a quién avisar (p. ej. a los socios)
+      await eventosDominioService.publicar('adhesion_approved', {
+        solicitudId,
+        asociacionId: solicitudData.asociacionId,
+        comercioId: comercioRef.id,
+        comercioNombre: solicitudData.nombreComercio,
+        categoria: solicitudData.categoria,
+      }, { asociacionId: solicitudData.asociacionId });
+
       console.log('✅ Solicitud aprobada y comercio creado exitosamente');
       return true;
     } catch (error) {
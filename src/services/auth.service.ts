@@ -912,19 +912,6 @@ class AuthService {
             actualizadoEn: serverTimestamp(),
           };
 
-          // For socios, check if they should have active membership
-          if (userData.role === 'socio') {
-            // Check if socio has an association
-            const socioDoc = await getDoc(roleDocRef);
-            if (socioDoc.exists()) {
-              const socioData = socioDoc.data();
-              if (socioData.asociacionId) {
-                updateData.estadoMembresia = 'al_dia';
-                console.log('🔧 Setting socio membership to al_dia due to association link');
-              }
-            }
-          }
-
           batch.update(roleDocRef, updateData);
         }
       }
@@ -26,8 +26,16 @@ import {
 import { 
   validateBeneficioCreate, 
   validateBeneficioUpdate,
-  validateSocioAccessToBeneficio 
 } from '@/lib/validations/beneficio';
+import {
+  assertNotPointsReward,
+  countSocioBenefitUses,
+  evaluateBenefitEligibility,
+  getSocioAsociaciones,
+  BenefitEligibilityResult,
+} from '@/lib/benefit-eligibility';
+import { BenefitRestrictionError } from '@/lib/benefit-schedule';
+import { eventosDominioService } from './eventos-dominio.service';
 
 export class BeneficiosService {
   private static readonly BENEFICIOS_COLLECTION = 'beneficios';
@@ -760,6 +768,10 @@ export class BeneficiosService {
         beneficioData.destacado = true;
       }
 
+      if (data.tipo === 'puntos' && data.costoPuntos) {
+        beneficioData.costoPuntos = data.costoPuntos;
+      }
+
       if (comercioInfo?.logo) {
         beneficioData.comercioLogo = comercioInfo.logo;
       }
@@ -838,6 +850,7 @@ export class BeneficiosService {
       if (data.descripcion !== undefined) updateDataBase.descripcion = data.descripcion;
       if (data.tipo !== undefined) updateDataBase.tipo = data.tipo;
       if (data.descuento !== undefined) updateDataBase.descuento = data.descuento;
+      if (data.costoPuntos !== undefined) updateDataBase.costoPuntos = data.costoPuntos;
       if (data.categoria !== undefined) updateDataBase.categoria = data.categoria;
 
       // Campos opcionales - solo agregar si tienen valor
@@ -1138,11 +1151,13 @@ export class BeneficiosService {
    * 
    * @param beneficioId - ID del beneficio
    * @param socioActiveAssociationIds - Array de IDs de asociaciones activas del socio
+   * @param socioId - Si se indica, también se verifica limitePorSocio
    * @returns true si el socio tiene acceso, false en caso contrario
    */
   static async verificarAccesoSocioABeneficio(
     beneficioId: string,
-    socioActiveAssociationIds: string[]
+    socioActiveAssociationIds: string[],
+    socioId?: string
   ): Promise<boolean> {
     try {
       const beneficio = await this.obtenerBeneficio(beneficioId);
@@ -1151,12 +1166,8 @@ export class BeneficiosService {
         return false;
       }
 
-      // Usar la función de validación
-      return validateSocioAccessToBeneficio(
-        beneficio.asociacionesDisponibles || [],
-        socioActiveAssociationIds,
-        beneficio.tipoAcceso
-      );
+      const result = await this.evaluarElegibilidad(beneficio, socioActiveAssociationIds, socioId);
+      return result.eligible;
     } catch (error) {
       console.error('❌ Error verificando acceso del socio al beneficio:', error);
       return false;
@@ -1277,42 +1288,16 @@ export class BeneficiosService {
         throw new Error('Beneficio no encontrado');
       }
 
-      // Verificaciones
-      if (beneficio.estado !== 'activo') {
-        throw new Error('El beneficio no está disponible');
-      }
-
-      const now = new Date();
-      if (beneficio.fechaFin.toDate() <= now) {
-        throw new Error('El beneficio ha expirado');
-      }
-
-      if (beneficio.fechaInicio.toDate() > now) {
-        throw new Error('El beneficio aún no está disponible');
-      }
-
-      if (beneficio.limiteTotal && beneficio.usosActuales >= beneficio.limiteTotal) {
-        throw new Error('El beneficio ha alcanzado su límite de usos');
-      }
-
-      // Verificar límite por socio
-      if (beneficio.limitePorSocio) {
-        const usosDelSocio = await this.obtenerUsosDelSocio(beneficioId, socioId);
-        if (usosDelSocio >= beneficio.limitePorSocio) {
-          throw new Error('Has alcanzado el límite de usos para este beneficio');
-        }
-      }
-
-      // Verificar que el socio tenga acceso a este beneficio
-      const comerciosAfiliados = await this.obtenerComerciosAfiliadosSocio(socioId);
-      const tieneAcceso = 
-        beneficio.asociacionesDisponibles.includes(asociacionId) ||
-        comerciosAfiliados.includes(beneficio.comercioId) ||
-        beneficio.tipoAcceso === 'publico';
-
-      if (!tieneAcceso) {
-        throw new Error('No tienes acceso a este beneficio');
+      // Verificaciones: estado, vigencia, acceso, convenio y límites
+      const elegibilidad = await this.evaluarElegibilidad(
+        beneficio,
+        getSocioAsociaciones({ asociacionId }),
+        socioId
+      );
+      if (!elegibilidad.eligible) {
+        throw new BenefitRestrictionError(elegibilidad.code, elegibilidad.message);
       }
+      assertNotPointsReward(beneficio);
 
       // Calcular descuento
       const montoDescuento = this.calcularDescuento(beneficio, montoOriginal || 0);
@@ -1389,6 +1374,26 @@ export class BeneficiosService {
     }
   }
 
+  // Evalúa la elegibilidad con el motor compartido, cargando el comercio y los usos del socio
+  private static async evaluarElegibilidad(
+    beneficio: Beneficio,
+    socioAsociaciones: string[],
+    socioId?: string
+  ): Promise<BenefitEligibilityResult> {
+    const comercioDoc = await getDoc(doc(db, this.COMERCIOS_COLLECTION, beneficio.comercioId));
+
+    const usosDelSocio = socioId && beneficio.limitePorSocio
+      ? await countSocioBenefitUses({ beneficioId: beneficio.id, socioId, comercioId: beneficio.comercioId })
+      : undefined;
+
+    return evaluateBenefitEligibility({
+      beneficio,
+      socioAsociaciones,
+      comercio: comercioDoc.exists() ? comercioDoc.data() : null,
+      usosDelSocio,
+    });
+  }
+
   static async obtenerUsosDelSocio(beneficioId: string, socioId: string): Promise<number> {
     try {
       const q = query(
@@ -1885,6 +1890,13 @@ export class BeneficiosService {
       });
 
       await batch.commit();
+
+      // El aviso del vencimiento va al comercio dueño del beneficio
+      await Promise.all(snapshot.docs.map(doc => eventosDominioService.publicar('benefit_expired', {
+        beneficioId: doc.id,
+        beneficioTitulo: doc.data().titulo || '',
+        comercioId: doc.data().comercioId || '',
+      }, { userId: doc.data().comercioId || null, asociacionId: doc.data().asociacionId || null })));
       
       // NUEVO: Actualizar contadores de comercios afectados
       for (const comercioId of comerciosAfectados) {
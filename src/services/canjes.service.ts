@@ -0,0 +1,65 @@
+import { auth } from '@/lib/firebase';
+import { BenefitRestrictionCode } from '@/lib/benefit-schedule';
+import { Beneficio } from '@/types/beneficio';
+import { CanjePuntos } from '@/types/fidelizacion';
+
+export class CanjeError extends Error {
+  readonly code?: BenefitRestrictionCode;
+
+  constructor(message: string, code?: BenefitRestrictionCode) {
+    super(message);
+    this.name = 'CanjeError';
+    this.code = code;
+  }
+}
+
+class CanjesService {
+  /**
+   * Beneficios de tipo puntos, del más barato al más caro
+   */
+  getCatalogo(beneficios: Beneficio[]): Beneficio[] {
+    return beneficios
+      .filter(beneficio => beneficio.tipo === 'puntos' && (beneficio.costoPuntos ?? 0) > 0)
+      .sort((a, b) => (a.costoPuntos ?? 0) - (b.costoPuntos ?? 0));
+  }
+
+  /**
+   * Canjea un beneficio con los puntos del socio autenticado. El servidor
+   * descuenta el saldo y registra la validación en una sola transacción.
+   */
+  async canjear(beneficioId: string): Promise<CanjePuntos> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new CanjeError('Usuario no autenticado');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch('/api/canjes', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({ beneficioId }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new CanjeError(result.error || `Error HTTP ${response.status}`, result.code);
+    }
+
+    return {
+      validacionId: result.validacionId,
+      codigoValidacion: result.codigoValidacion,
+      beneficioId: result.beneficioId,
+      beneficioTitulo: result.beneficioTitulo,
+      comercioNombre: result.comercioNombre,
+      puntosCanjeados: result.puntosCanjeados,
+      saldoPuntos: result.saldoPuntos,
+    };
+  }
+}
+
+// Export singleton instance
+export const canjesService = new CanjesService();
+export default canjesService;
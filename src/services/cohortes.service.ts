@@ -0,0 +1,63 @@
+import { collection, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { analizarCohortes } from '@/lib/cohortes';
+import { AnalisisCohortes, CuotaCohorte, PagoCohorte, SocioCohorte } from '@/types/cohortes';
+
+const aFecha = (valor: unknown): Date | null => {
+  if (valor instanceof Timestamp) return valor.toDate();
+  if (valor instanceof Date) return valor;
+  return null;
+};
+
+class CohortesService {
+  /**
+   * Carga los socios, las cuotas y los pagos de la asociación y calcula la
+   * retención por cohortes y el valor de vida por plan
+   */
+  async getAnalisis(asociacionId: string, ahora: Date = new Date()): Promise<AnalisisCohortes> {
+    const porAsociacion = (coleccion: string) =>
+      getDocs(query(collection(db, coleccion), where('asociacionId', '==', asociacionId)));
+
+    const [sociosSnapshot, cuotasSnapshot, pagosSnapshot] = await Promise.all([
+      porAsociacion(COLLECTIONS.SOCIOS),
+      porAsociacion(COLLECTIONS.CUOTAS),
+      porAsociacion(COLLECTIONS.PAGOS_CUOTAS),
+    ]);
+
+    const socios: SocioCohorte[] = [];
+    sociosSnapshot.docs.forEach(socioDoc => {
+      const data = socioDoc.data();
+      // Sin fecha de ingreso ni de alta no se puede ubicar al socio en una cohorte
+      const fechaIngreso = aFecha(data.fechaIngreso) || aFecha(data.creadoEn);
+      if (!fechaIngreso) return;
+
+      socios.push({
+        id: socioDoc.id,
+        estado: data.estado,
+        montoCuota: Number(data.montoCuota) || 0,
+        titularId: data.titularId,
+        fechaIngreso,
+      });
+    });
+
+    const cuotas: CuotaCohorte[] = cuotasSnapshot.docs.map(cuotaDoc => {
+      const data = cuotaDoc.data();
+      return {
+        socioId: data.socioId,
+        periodo: data.periodo,
+        monto: Number(data.monto) || 0,
+        montoPagado: Number(data.montoPagado) || 0,
+      };
+    });
+
+    const pagos: PagoCohorte[] = pagosSnapshot.docs.map(pagoDoc => ({
+      socioId: pagoDoc.data().socioId,
+      monto: Number(pagoDoc.data().monto) || 0,
+    }));
+
+    return analizarCohortes({ socios, cuotas, pagos }, ahora);
+  }
+}
+
+export const cohortesService = new CohortesService();
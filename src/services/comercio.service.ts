@@ -15,9 +15,10 @@ import {
 } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { db, storage } from '@/lib/firebase';
-import { COLLECTIONS, QR_CONFIG, STORAGE_CONFIG, getDynamicBaseUrl } from '@/lib/constants';
+import { COLLECTIONS, QR_CONFIG, STORAGE_CONFIG } from '@/lib/constants';
 import { handleError } from '@/lib/error-handler';
 import QRCode from 'qrcode';
+import { qrTokenService } from './qr-token.service';
 
 export interface Comercio {
   id: string;
@@ -107,14 +108,6 @@ class ComercioService {
   private readonly validacionesCollection = COLLECTIONS.VALIDACIONES;
   private readonly beneficiosCollection = COLLECTIONS.BENEFICIOS;
 
-  /**
-   * Get the correct base URL for QR generation - DETECTA AUTOMÁTICAMENTE EL DOMINIO
-   */
-  private getQRBaseUrl(): string {
-    // Usar la función que detecta automáticamente el dominio actual
-    return getDynamicBaseUrl();
-  }
-
   /**
    * Create new comercio WITH Firebase Authentication account (FIXED VERSION)
    */
@@ -467,6 +460,9 @@ class ComercioService {
     fechaFin: Date;
     usosActuales: number;
     limiteTotal?: number;
+    diasValidez?: string[];
+    horariosValidez?: { inicio: string; fin: string };
+    mediosPagoHabilitados?: string[];
   }>> {
     try {
       const q = query(
@@ -489,6 +485,9 @@ class ComercioService {
           fechaFin: data.fechaFin?.toDate() || new Date(),
           usosActuales: data.usosActuales || 0,
           limiteTotal: data.limiteTotal,
+          diasValidez: data.diasValidez,
+          horariosValidez: data.horariosValidez,
+          mediosPagoHabilitados: data.mediosPagoHabilitados,
         };
       });
     } catch (error) {
@@ -539,13 +538,13 @@ class ComercioService {
   }
 
   /**
-   * Generate QR Code for comercio - Enhanced with dynamic URL detection
+   * Generate the printable QR Code for comercio (se guarda para descargar e
+   * imprimir). Lleva un token firmado de larga duración que se da de baja
+   * revocando los QR del comercio; en pantalla se usa useRotatingQRToken
    */
   async generateQRCode(comercioId: string, beneficioId?: string): Promise<string | null> {
     try {
-      // Get the correct base URL dynamically
-      const baseUrl = this.getQRBaseUrl();
-      const validationUrl = `${baseUrl}${QR_CONFIG.validationPath}?comercio=${comercioId}${beneficioId ? `&beneficio=${beneficioId}` : ''}`;
+      const validationUrl = await this.generatePrintedQRValidationURL(comercioId, beneficioId);
 
       console.log('🔗 Generating QR with URL:', validationUrl);
 
@@ -704,11 +703,20 @@ class ComercioService {
   }
 
   /**
-   * Generate QR validation URL with dynamic base URL
+   * Generate signed QR validation URL for on-screen use (token expires after tokenTtlSeconds)
+   */
+  async generateQRValidationURL(comercioId: string, beneficioId?: string): Promise<string> {
+    const { url } = await qrTokenService.issueToken(comercioId, beneficioId, QR_CONFIG.tokenTtlSeconds);
+    return url;
+  }
+
+  /**
+   * Generate signed QR validation URL for printed QRs (token expires after
+   * printedTokenTtlSeconds unless revoked with qrTokenService.revokeTokens)
    */
-  generateQRValidationURL(comercioId: string, beneficioId?: string): string {
-    const baseUrl = this.getQRBaseUrl();
-    return `${baseUrl}${QR_CONFIG.validationPath}?comercio=${comercioId}${beneficioId ? `&beneficio=${beneficioId}` : ''}`;
+  async generatePrintedQRValidationURL(comercioId: string, beneficioId?: string): Promise<string> {
+    const { url } = await qrTokenService.issueToken(comercioId, beneficioId, QR_CONFIG.printedTokenTtlSeconds);
+    return url;
   }
 
   /**
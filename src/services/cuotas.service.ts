@@ -0,0 +1,295 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  Transaction,
+  DocumentSnapshot,
+} from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { handleError } from '@/lib/error-handler';
+import {
+  CuotaAbierta,
+  ResumenCuenta,
+  estadoMembresiaDesdeCuenta,
+  getEstadoCuota,
+  getFechaVencimientoCuota,
+  getPeriodo,
+  resumirCuenta,
+} from '@/lib/cuotas';
+import { generarReciboCuotaPDF } from '@/lib/recibo-cuota-pdf';
+import { Cuota, CuentaCuotas, MedioPagoCuota, PagoCuota } from '@/types/cuotas';
+import { CheckoutPago, IntencionPago } from '@/types/pagos-online';
+
+export interface RegistrarPagoOptions {
+  medioPago?: MedioPagoCuota;
+  nota?: string;
+}
+
+const toCuotaAbierta = (snapshot: DocumentSnapshot): CuotaAbierta | null => {
+  const data = snapshot.data();
+  if (!data) return null;
+
+  return {
+    id: snapshot.id,
+    periodo: data.periodo,
+    monto: data.monto ?? 0,
+    montoPagado: data.montoPagado ?? 0,
+    fechaVencimiento: (data.fechaVencimiento as Timestamp).toDate(),
+  };
+};
+
+const toCuentaCuotas = (resumen: ResumenCuenta): CuentaCuotas => ({
+  ...resumen,
+  proximoVencimiento: resumen.proximoVencimiento ? Timestamp.fromDate(resumen.proximoVencimiento) : null,
+});
+
+class CuotasService {
+  private readonly cuotasCollection = COLLECTIONS.CUOTAS;
+  private readonly pagosCollection = COLLECTIONS.PAGOS_CUOTAS;
+  private readonly sociosCollection = COLLECTIONS.SOCIOS;
+
+  /**
+   * Cuotas del socio, de la más nueva a la más vieja
+   */
+  async getCuotas(socioId: string): Promise<Cuota[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.cuotasCollection),
+        where('socioId', '==', socioId),
+        orderBy('periodo', 'desc')
+      ));
+      return snapshot.docs.map(cuotaDoc => ({ id: cuotaDoc.id, ...cuotaDoc.data() }) as Cuota);
+    } catch (error) {
+      handleError(error, 'Get Cuotas', false);
+      return [];
+    }
+  }
+
+  async getPagos(socioId: string): Promise<PagoCuota[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.pagosCollection),
+        where('socioId', '==', socioId),
+        orderBy('fecha', 'desc')
+      ));
+      return snapshot.docs.map(pagoDoc => ({ id: pagoDoc.id, ...pagoDoc.data() }) as PagoCuota);
+    } catch (error) {
+      handleError(error, 'Get Pagos Cuotas', false);
+      return [];
+    }
+  }
+
+  /**
+   * Genera la cuota del período para el socio a partir de su montoCuota,
+   * descontando el crédito a favor. Devuelve false si ya existía o el socio
+   * no paga cuota.
+   */
+  async generarCuota(socioId: string, periodo: string = getPeriodo()): Promise<boolean> {
+    const abiertas = await this.getIdsCuotasAbiertas(socioId);
+
+    return runTransaction(db, async (transaction) => {
+      const socioRef = doc(db, this.sociosCollection, socioId);
+      const cuotaRef = doc(db, this.cuotasCollection, `${socioId}_${periodo}`);
+      const [socioDoc, cuotaDoc] = await Promise.all([transaction.get(socioRef), transaction.get(cuotaRef)]);
+      const cuotasAbiertas = await this.leerCuotas(transaction, abiertas);
+
+      const socio = socioDoc.data();
+      const monto = Number(socio?.montoCuota) || 0;
+      if (!socio || cuotaDoc.exists() || monto <= 0) {
+        return false;
+      }
+
+      const creditoPrevio: number = socio.cuentaCuotas?.credito ?? 0;
+      const montoPagado = Math.min(monto, creditoPrevio);
+      const fechaVencimiento = getFechaVencimientoCuota(periodo);
+
+      transaction.set(cuotaRef, {
+        socioId,
+        asociacionId: socio.asociacionId,
+        periodo,
+        monto,
+        montoPagado,
+        estado: getEstadoCuota({ monto, montoPagado }),
+        fechaVencimiento: Timestamp.fromDate(fechaVencimiento),
+        creadoEn: serverTimestamp(),
+        actualizadoEn: serverTimestamp(),
+      });
+
+      const ultimoPeriodo = [socio.cuentaCuotas?.ultimoPeriodo, periodo]
+        .filter((value): value is string => !!value)
+        .sort()
+        .pop() ?? periodo;
+
+      const resumen = resumirCuenta({
+        cuotasAbiertas: [...cuotasAbiertas, { id: cuotaRef.id, periodo, monto, montoPagado, fechaVencimiento }],
+        credito: creditoPrevio - montoPagado,
+        ultimoPeriodo,
+        montoCuota: monto,
+      });
+      transaction.update(socioRef, this.getActualizacionSocio(resumen));
+      return true;
+    });
+  }
+
+  /**
+   * Genera la cuota del período para todos los socios activos de la asociación
+   */
+  async generarCuotasPeriodo(asociacionId: string, periodo: string = getPeriodo()): Promise<number> {
+    try {
+      const socios = await getDocs(query(
+        collection(db, this.sociosCollection),
+        where('asociacionId', '==', asociacionId),
+        where('estado', '==', 'activo')
+      ));
+
+      let generadas = 0;
+      for (const socio of socios.docs) {
+        if ((Number(socio.data().montoCuota) || 0) <= 0) continue;
+        if (await this.generarCuota(socio.id, periodo)) generadas++;
+      }
+      return generadas;
+    } catch (error) {
+      handleError(error, 'Generar Cuotas');
+      return 0;
+    }
+  }
+
+  /**
+   * Registra un pago y lo imputa a las cuotas abiertas, de la más vieja a la
+   * más nueva. Lo que sobra queda como crédito. Lo registra el servidor
+   * (/api/cuotas/pagos) porque el pago acredita puntos de fidelización.
+   */
+  async registrarPago(socioId: string, monto: number, options: RegistrarPagoOptions = {}): Promise<PagoCuota> {
+    if (!(monto > 0)) {
+      throw new Error('El monto del pago debe ser mayor a 0');
+    }
+
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch('/api/cuotas/pagos', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({ socioId, monto, medioPago: options.medioPago, nota: options.nota }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Error HTTP ${response.status}`);
+    }
+
+    return { ...result.pago, fecha: Timestamp.fromMillis(result.pago.fecha) } as PagoCuota;
+  }
+
+  /**
+   * Inicia el pago online del socio autenticado y devuelve el link de
+   * checkout. El webhook del proveedor registra el pago cuando se aprueba.
+   */
+  async iniciarPagoOnline(monto?: number): Promise<CheckoutPago> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch('/api/pagos/checkout', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({ monto }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Error HTTP ${response.status}`);
+    }
+
+    return {
+      intencionId: result.intencionId,
+      checkoutUrl: result.checkoutUrl,
+      monto: result.monto,
+    };
+  }
+
+  /**
+   * Estado de un pago online iniciado por el socio
+   */
+  async getIntencionPago(intencionId: string): Promise<IntencionPago | null> {
+    try {
+      const intencionDoc = await getDoc(doc(db, COLLECTIONS.INTENCIONES_PAGO, intencionId));
+      return intencionDoc.exists() ? ({ id: intencionDoc.id, ...intencionDoc.data() } as IntencionPago) : null;
+    } catch (error) {
+      handleError(error, 'Get Intencion Pago', false);
+      return null;
+    }
+  }
+
+  /**
+   * Descarga el recibo en PDF de un pago
+   */
+  async descargarRecibo(pago: PagoCuota): Promise<void> {
+    const [socioDoc, asociacionDoc] = await Promise.all([
+      getDoc(doc(db, this.sociosCollection, pago.socioId)),
+      getDoc(doc(db, COLLECTIONS.ASOCIACIONES, pago.asociacionId)),
+    ]);
+    const socio = socioDoc.data();
+    const asociacion = asociacionDoc.data();
+
+    const pdf = generarReciboCuotaPDF({
+      pago,
+      socioNombre: socio?.nombre || 'Socio',
+      numeroSocio: socio?.numeroSocio ?? null,
+      dni: socio?.dni ?? null,
+      asociacionNombre: asociacion?.nombre || 'Asociación',
+    });
+    pdf.save(`recibo-${String(pago.numeroRecibo).padStart(6, '0')}.pdf`);
+  }
+
+  // Las consultas no se pueden hacer dentro de una transacción del SDK web:
+  // se buscan antes y cada cuota se vuelve a leer en la transacción
+  private async getIdsCuotasAbiertas(socioId: string): Promise<string[]> {
+    const snapshot = await getDocs(query(
+      collection(db, this.cuotasCollection),
+      where('socioId', '==', socioId),
+      where('estado', 'in', ['pendiente', 'parcial'])
+    ));
+    return snapshot.docs.map(cuotaDoc => cuotaDoc.id);
+  }
+
+  private async leerCuotas(transaction: Transaction, ids: string[]): Promise<CuotaAbierta[]> {
+    const snapshots = await Promise.all(ids.map(id => transaction.get(doc(db, this.cuotasCollection, id))));
+    return snapshots
+      .map(toCuotaAbierta)
+      .filter((cuota): cuota is CuotaAbierta => cuota !== null);
+  }
+
+  private getActualizacionSocio(resumen: ResumenCuenta) {
+    return {
+      cuentaCuotas: toCuentaCuotas(resumen),
+      estadoMembresia: estadoMembresiaDesdeCuenta(resumen) ?? 'al_dia',
+      // Se mantiene para las pantallas que todavía muestran el vencimiento
+      fechaVencimiento: resumen.proximoVencimiento ? Timestamp.fromDate(resumen.proximoVencimiento) : null,
+      actualizadoEn: serverTimestamp(),
+    };
+  }
+}
+
+// Export singleton instance
+export const cuotasService = new CuotasService();
+export default cuotasService;
@@ -0,0 +1,83 @@
+import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { configService } from '@/lib/config';
+import { handleError } from '@/lib/error-handler';
+import { MARCA_FIDELYA, normalizarMarca, validarMarcaEmail } from '@/lib/email-layout';
+import { ConfiguracionMarcaEmail, MarcaEmail } from '@/types/email';
+
+// La marca se lee en cada envío; un envío masivo no vuelve a leer el documento
+const VIGENCIA_CACHE_MS = 5 * 60 * 1000;
+
+class EmailBrandingService {
+  private cache = new Map<string, { marca: MarcaEmail; expira: number }>();
+
+  // Donde el socio desactiva los emails si la asociación no indicó otro enlace
+  getUrlBajaPorDefecto(): string {
+    return `${configService.getAuthUrl()}/dashboard/socio/perfil#notificaciones`;
+  }
+
+  /**
+   * Marca con la que salen los emails de la asociación; sin asociación, o si
+   * no se puede leer, la de Fidelya
+   */
+  async getMarca(asociacionId?: string | null): Promise<MarcaEmail> {
+    if (!asociacionId) return MARCA_FIDELYA;
+
+    const enCache = this.cache.get(asociacionId);
+    if (enCache && enCache.expira > Date.now()) return enCache.marca;
+
+    try {
+      const asociacionDoc = await getDoc(doc(db, COLLECTIONS.ASOCIACIONES, asociacionId));
+      if (!asociacionDoc.exists()) return MARCA_FIDELYA;
+
+      const data = asociacionDoc.data();
+      const marca = normalizarMarca(data.nombreAsociacion || data.nombre, data.marcaEmail);
+      marca.urlBaja ??= this.getUrlBajaPorDefecto();
+
+      this.cache.set(asociacionId, { marca, expira: Date.now() + VIGENCIA_CACHE_MS });
+      return marca;
+    } catch (error) {
+      handleError(error, 'Get Email Branding', false);
+      return MARCA_FIDELYA;
+    }
+  }
+
+  async getConfiguracion(asociacionId: string): Promise<{ nombre: string; config: Partial<ConfiguracionMarcaEmail> }> {
+    const asociacionDoc = await getDoc(doc(db, COLLECTIONS.ASOCIACIONES, asociacionId));
+    const data = asociacionDoc.data();
+    return {
+      nombre: data?.nombreAsociacion || data?.nombre || MARCA_FIDELYA.nombre,
+      config: data?.marcaEmail ?? {},
+    };
+  }
+
+  /**
+   * Guarda la marca de la asociación. Devuelve los errores de validación;
+   * vacío si se guardó
+   */
+  async guardarConfiguracion(asociacionId: string, config: Partial<ConfiguracionMarcaEmail>): Promise<string[]> {
+    const errores = validarMarcaEmail(config);
+    if (errores.length > 0) return errores;
+
+    // Firestore no acepta undefined: lo vacío se guarda como null
+    const marcaEmail: Record<keyof ConfiguracionMarcaEmail, string | null> = {
+      logoUrl: config.logoUrl?.trim() || null,
+      colorPrimario: config.colorPrimario?.trim() || MARCA_FIDELYA.colorPrimario,
+      colorFondo: config.colorFondo?.trim() || MARCA_FIDELYA.colorFondo,
+      direccionLegal: config.direccionLegal?.trim() || null,
+      emailContacto: config.emailContacto?.trim() || null,
+      textoPie: config.textoPie?.trim() || null,
+      urlBaja: config.urlBaja?.trim() || null,
+    };
+
+    await updateDoc(doc(db, COLLECTIONS.ASOCIACIONES, asociacionId), {
+      marcaEmail,
+      actualizadoEn: serverTimestamp(),
+    });
+    this.cache.delete(asociacionId);
+    return [];
+  }
+}
+
+export const emailBrandingService = new EmailBrandingService();
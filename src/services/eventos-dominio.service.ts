@@ -0,0 +1,42 @@
+import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { PayloadsEventoDominio, TipoEventoDominio } from '@/types/eventos-dominio';
+
+interface OpcionesEvento {
+  userId?: string | null;
+  asociacionId?: string | null;
+}
+
+/**
+ * Publica eventos de dominio. Los triggers de notificaciones que escuchan
+ * cada evento se evalúan en el servidor (procesarEventosDominio). Las
+ * reglas de Firestore limitan qué eventos publica cada rol y a nombre de quién.
+ */
+class EventosDominioService {
+  /**
+   * Publicar un evento. Nunca lanza: un evento que no se pudo publicar no
+   * debe deshacer la operación que lo originó.
+   */
+  async publicar<T extends TipoEventoDominio>(
+    type: T,
+    payload: PayloadsEventoDominio[T],
+    options: OpcionesEvento = {}
+  ): Promise<void> {
+    try {
+      await addDoc(collection(db, COLLECTIONS.EVENTOS_DOMINIO), {
+        type,
+        payload,
+        userId: options.userId ?? null,
+        asociacionId: options.asociacionId ?? null,
+        status: 'pending',
+        occurredAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error(`⚠️ Error publicando el evento ${type} (no crítico):`, error);
+    }
+  }
+}
+
+export const eventosDominioService = new EventosDominioService();
+export default eventosDominioService;
@@ -0,0 +1,131 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { handleError } from '@/lib/error-handler';
+import { normalizeConfiguracionFidelizacion } from '@/lib/loyalty-points';
+import { ConfiguracionFidelizacion, MovimientoPuntos } from '@/types/fidelizacion';
+
+class FidelizacionService {
+  private readonly movimientosCollection = COLLECTIONS.PUNTOS_MOVIMIENTOS;
+  private readonly configuracionCollection = COLLECTIONS.CONFIGURACION_FIDELIZACION;
+
+  /**
+   * Configuración de puntos y niveles de la asociación (con valores por defecto)
+   */
+  async getConfiguracion(asociacionId?: string | null): Promise<ConfiguracionFidelizacion> {
+    if (!asociacionId) {
+      return normalizeConfiguracionFidelizacion();
+    }
+
+    try {
+      const configDoc = await getDoc(doc(db, this.configuracionCollection, asociacionId));
+      return normalizeConfiguracionFidelizacion(configDoc.exists() ? configDoc.data() : null);
+    } catch (error) {
+      handleError(error, 'Get Configuracion Fidelizacion', false);
+      return normalizeConfiguracionFidelizacion();
+    }
+  }
+
+  async guardarConfiguracion(asociacionId: string, config: ConfiguracionFidelizacion): Promise<boolean> {
+    try {
+      const normalizada = normalizeConfiguracionFidelizacion(config);
+      await setDoc(doc(db, this.configuracionCollection, asociacionId), {
+        ...normalizada,
+        asociacionId,
+        actualizadoEn: serverTimestamp(),
+      });
+      return true;
+    } catch (error) {
+      handleError(error, 'Save Configuracion Fidelizacion');
+      return false;
+    }
+  }
+
+  /**
+   * Últimos movimientos de puntos del socio
+   */
+  async getMovimientos(socioId: string, cantidad: number = 20): Promise<MovimientoPuntos[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.movimientosCollection),
+        where('socioId', '==', socioId),
+        orderBy('creadoEn', 'desc'),
+        limit(cantidad)
+      ));
+
+      return snapshot.docs.map(movimientoDoc => ({
+        id: movimientoDoc.id,
+        ...movimientoDoc.data(),
+      }) as MovimientoPuntos);
+    } catch (error) {
+      handleError(error, 'Get Movimientos Puntos', false);
+      return [];
+    }
+  }
+
+  /**
+   * Puntos que los socios ganaron y canjearon en el comercio
+   */
+  async getMovimientosComercio(comercioId: string, cantidad: number = 50): Promise<MovimientoPuntos[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, this.movimientosCollection),
+        where('comercioId', '==', comercioId),
+        orderBy('creadoEn', 'desc'),
+        limit(cantidad)
+      ));
+
+      return snapshot.docs.map(movimientoDoc => ({
+        id: movimientoDoc.id,
+        ...movimientoDoc.data(),
+      }) as MovimientoPuntos);
+    } catch (error) {
+      handleError(error, 'Get Movimientos Puntos Comercio', false);
+      return [];
+    }
+  }
+
+  /**
+   * Pide al servidor que acredite los puntos de una validación exitosa (y el
+   * bono de racha si corresponde). Los movimientos solo los escribe el
+   * servidor; el nivel lo recalcula la función programada.
+   */
+  async acreditarValidacion(validacionId: string): Promise<number> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch('/api/puntos/validaciones', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({ validacionId }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Error HTTP ${response.status}`);
+    }
+
+    return result.puntos;
+  }
+}
+
+// Export singleton instance
+export const fidelizacionService = new FidelizacionService();
+export default fidelizacionService;
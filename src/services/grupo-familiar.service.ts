@@ -0,0 +1,104 @@
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { auth, db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { handleError } from '@/lib/error-handler';
+import { DependienteFormData, Socio } from '@/types/socio';
+import { socioService } from './socio.service';
+
+export interface GrupoFamiliar {
+  titular: Socio | null;
+  dependientes: Socio[];
+}
+
+export interface AgregarDependienteResult {
+  socioId: string;
+  numeroSocio: string;
+  conAcceso: boolean;
+}
+
+class GrupoFamiliarService {
+  /**
+   * Grupo familiar al que pertenece un socio, sea el titular o un dependiente
+   */
+  async getGrupoFamiliar(socioId: string): Promise<GrupoFamiliar> {
+    try {
+      const socio = await socioService.getSocioById(socioId);
+      if (!socio) {
+        return { titular: null, dependientes: [] };
+      }
+
+      const titular = socio.titularId ? await socioService.getSocioById(socio.titularId) : socio;
+      if (!titular) {
+        return { titular: null, dependientes: [] };
+      }
+
+      const snapshot = await getDocs(query(
+        collection(db, COLLECTIONS.SOCIOS),
+        where('titularId', '==', titular.id)
+      ));
+      const dependientes = snapshot.docs
+        .map(dependienteDoc => ({ id: dependienteDoc.id, uid: dependienteDoc.id, ...dependienteDoc.data() } as Socio))
+        .sort((a, b) => (a.numeroSocio || '').localeCompare(b.numeroSocio || ''));
+
+      return { titular, dependientes };
+    } catch (error) {
+      handleError(error, 'Get Grupo Familiar', false);
+      return { titular: null, dependientes: [] };
+    }
+  }
+
+  /**
+   * Agrega un dependiente al grupo del titular. Lo crea el servidor porque
+   * escribe el socio, el titular y, si tiene email, su cuenta de acceso.
+   */
+  async agregarDependiente(titularId: string, data: DependienteFormData): Promise<AgregarDependienteResult> {
+    const result = await this.request('POST', '/api/socios/dependientes', {
+      titularId,
+      dependiente: {
+        ...data,
+        fechaNacimiento: data.fechaNacimiento?.toISOString(),
+      },
+    });
+
+    return {
+      socioId: result.socioId,
+      numeroSocio: result.numeroSocio,
+      conAcceso: result.conAcceso,
+    };
+  }
+
+  /**
+   * Quita a un dependiente del grupo familiar; queda como socio inactivo
+   */
+  async quitarDependiente(dependienteId: string): Promise<void> {
+    await this.request('DELETE', `/api/socios/dependientes?dependienteId=${encodeURIComponent(dependienteId)}`);
+  }
+
+  private async request(method: 'POST' | 'DELETE', url: string, body?: Record<string, unknown>) {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Error HTTP ${response.status}`);
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const grupoFamiliarService = new GrupoFamiliarService();
+export default grupoFamiliarService;
@@ -0,0 +1,89 @@
+import { collection, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { subDays } from 'date-fns';
+import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { analizarAsociacion, VENTANA_INSIGHTS_DIAS } from '@/lib/insights';
+import {
+  BeneficioInsights,
+  InsightsAsociacion,
+  SocioInsights,
+  ValidacionInsights,
+} from '@/types/insights';
+
+const aFecha = (valor: unknown): Date | null => {
+  if (valor instanceof Timestamp) return valor.toDate();
+  if (valor instanceof Date) return valor;
+  return null;
+};
+
+class InsightsService {
+  /**
+   * Carga los socios, las validaciones de la ventana de análisis y los
+   * beneficios de la asociación y calcula los insights con esos datos
+   */
+  async getInsights(asociacionId: string, ahora: Date = new Date()): Promise<InsightsAsociacion> {
+    const [sociosSnapshot, validacionesSnapshot, beneficiosSnapshot] = await Promise.all([
+      getDocs(query(collection(db, COLLECTIONS.SOCIOS), where('asociacionId', '==', asociacionId))),
+      getDocs(query(
+        collection(db, COLLECTIONS.VALIDACIONES),
+        where('asociacionId', '==', asociacionId),
+        where('fechaValidacion', '>=', Timestamp.fromDate(subDays(ahora, VENTANA_INSIGHTS_DIAS)))
+      )),
+      getDocs(query(
+        collection(db, COLLECTIONS.BENEFICIOS),
+        where('asociacionesDisponibles', 'array-contains', asociacionId)
+      )),
+    ]);
+
+    const socios: SocioInsights[] = [];
+    sociosSnapshot.docs.forEach(socioDoc => {
+      const data = socioDoc.data();
+      // Sin fecha de ingreso ni de alta no se puede ubicar al socio en una cohorte
+      const fechaIngreso = aFecha(data.fechaIngreso) || aFecha(data.creadoEn);
+      if (!fechaIngreso) return;
+
+      socios.push({
+        id: socioDoc.id,
+        nombre: data.nombre || 'Sin nombre',
+        numeroSocio: data.numeroSocio || '',
+        email: data.email || '',
+        estado: data.estado,
+        fechaIngreso,
+        fechaVencimiento: aFecha(data.fechaVencimiento),
+        deudaVencida: data.cuentaCuotas?.deudaVencida || 0,
+        cuotasVencidas: data.cuentaCuotas?.cuotasVencidas || 0,
+        proximoVencimiento: aFecha(data.cuentaCuotas?.proximoVencimiento),
+      });
+    });
+
+    const validaciones: ValidacionInsights[] = [];
+    validacionesSnapshot.docs.forEach(validacionDoc => {
+      const data = validacionDoc.data();
+      const fechaValidacion = aFecha(data.fechaValidacion);
+      if (!fechaValidacion || !data.socioId) return;
+
+      validaciones.push({
+        socioId: data.socioId,
+        beneficioId: data.beneficioId,
+        estado: data.estado,
+        fechaValidacion,
+      });
+    });
+
+    const beneficios: BeneficioInsights[] = beneficiosSnapshot.docs.map(beneficioDoc => {
+      const data = beneficioDoc.data();
+      return {
+        id: beneficioDoc.id,
+        titulo: data.titulo || 'Beneficio',
+        comercioNombre: data.comercioNombre || '',
+        estado: data.estado,
+        limiteTotal: data.limiteTotal,
+        usosActuales: data.usosActuales || 0,
+      };
+    });
+
+    return analizarAsociacion({ socios, validaciones, beneficios }, ahora);
+  }
+}
+
+export const insightsService = new InsightsService();
@@ -11,6 +11,7 @@ import {
 import { db } from '@/lib/firebase';
 import { COLLECTIONS } from '@/lib/constants';
 import { handleError } from '@/lib/error-handler';
+import { derivarEstadoMembresia } from '@/lib/cuotas';
 
 interface MembershipSyncResult {
   success: boolean;
@@ -51,15 +52,8 @@ class MembershipStatusSyncService {
       const now = new Date();
       const fechaVencimiento = socioData.fechaVencimiento?.toDate();
       
-      // Calculate the correct membership status based on expiration date
-      let correctStatus: string;
-      if (!fechaVencimiento) {
-        correctStatus = 'pendiente'; // No expiration date set
-      } else if (fechaVencimiento < now) {
-        correctStatus = 'vencido'; // Expired
-      } else {
-        correctStatus = 'al_dia'; // Up to date
-      }
+      // Calculate the correct membership status from the dues balance
+      const correctStatus: string = derivarEstadoMembresia(socioData, now);
 
       const currentStatus = socioData.estadoMembresia || 'pendiente';
       
@@ -240,14 +234,7 @@ class MembershipStatusSyncService {
       const currentStatus = socioData.estadoMembresia || 'pendiente';
       
       // Calculate what the status should be
-      let calculatedStatus: string;
-      if (!fechaVencimiento) {
-        calculatedStatus = 'pendiente';
-      } else if (fechaVencimiento < new Date()) {
-        calculatedStatus = 'vencido';
-      } else {
-        calculatedStatus = 'al_dia';
-      }
+      const calculatedStatus: string = derivarEstadoMembresia(socioData);
 
       return {
         estadoMembresia: currentStatus,
@@ -295,15 +282,7 @@ class MembershipStatusSyncService {
         const socioData = docSnapshot.data();
         const fechaVencimiento = socioData.fechaVencimiento?.toDate() || null;
         const currentStatus = socioData.estadoMembresia || 'pendiente';
-        
-        let calculatedStatus: string;
-        if (!fechaVencimiento) {
-          calculatedStatus = 'pendiente';
-        } else if (fechaVencimiento < new Date()) {
-          calculatedStatus = 'vencido';
-        } else {
-          calculatedStatus = 'al_dia';
-        }
+        const calculatedStatus: string = derivarEstadoMembresia(socioData);
 
         if (currentStatus !== calculatedStatus) {
           inconsistentSocios.push({
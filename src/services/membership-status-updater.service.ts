@@ -9,6 +9,7 @@ import {
 import { db } from '@/lib/firebase';
 import { COLLECTIONS } from '@/lib/constants';
 import { handleError } from '@/lib/error-handler';
+import { derivarEstadoMembresia } from '@/lib/cuotas';
 
 interface MembershipUpdateResult {
   success: boolean;
@@ -53,12 +54,12 @@ class MembershipStatusUpdaterService {
       snapshot.docs.forEach(docSnapshot => {
         try {
           const data = docSnapshot.data();
-          const fechaVencimiento = data.fechaVencimiento?.toDate();
+          const estadoCalculado = derivarEstadoMembresia(data, now);
           const currentEstadoMembresia = data.estadoMembresia;
           const socioName = data.nombre || docSnapshot.id;
 
           // Check if membership is expired and needs update
-          if (fechaVencimiento && fechaVencimiento < now) {
+          if (estadoCalculado === 'vencido') {
             if (currentEstadoMembresia !== 'vencido') {
               batch.update(docSnapshot.ref, {
                 estadoMembresia: 'vencido',
@@ -66,11 +67,11 @@ class MembershipStatusUpdaterService {
               });
               updatedCount++;
               details.markedAsExpired++;
-              console.log(`⏰ Marking socio ${socioName} as expired (vencimiento: ${fechaVencimiento.toLocaleDateString()})`);
+              console.log(`⏰ Marking socio ${socioName} as expired`);
             } else {
               details.alreadyCorrect++;
             }
-          } else if (fechaVencimiento && fechaVencimiento >= now) {
+          } else if (estadoCalculado === 'al_dia') {
             // If membership is not expired but marked as expired, update to 'al_dia'
             if (currentEstadoMembresia === 'vencido') {
               batch.update(docSnapshot.ref, {
@@ -79,12 +80,12 @@ class MembershipStatusUpdaterService {
               });
               updatedCount++;
               details.markedAsUpToDate++;
-              console.log(`✅ Marking socio ${socioName} as up to date (vencimiento: ${fechaVencimiento.toLocaleDateString()})`);
+              console.log(`✅ Marking socio ${socioName} as up to date`);
             } else {
               details.alreadyCorrect++;
             }
           } else {
-            // No expiration date - keep as is
+            // Sin cuotas ni fecha de vencimiento - keep as is
             details.alreadyCorrect++;
           }
         } catch (error) {
@@ -150,26 +151,26 @@ class MembershipStatusUpdaterService {
       snapshot.docs.forEach(docSnapshot => {
         try {
           const data = docSnapshot.data();
-          const fechaVencimiento = data.fechaVencimiento?.toDate();
+          const estadoCalculado = derivarEstadoMembresia(data, now);
           const currentEstadoMembresia = data.estadoMembresia;
           const socioName = data.nombre || docSnapshot.id;
 
-          if (fechaVencimiento && fechaVencimiento < now && currentEstadoMembresia !== 'vencido') {
+          if (estadoCalculado === 'vencido' && currentEstadoMembresia !== 'vencido') {
             batch.update(docSnapshot.ref, {
               estadoMembresia: 'vencido',
               actualizadoEn: serverTimestamp(),
             });
             updatedCount++;
             details.markedAsExpired++;
-            console.log(`⏰ Marking socio ${socioName} as expired (vencimiento: ${fechaVencimiento.toLocaleDateString()})`);
-          } else if (fechaVencimiento && fechaVencimiento >= now && currentEstadoMembresia === 'vencido') {
+            console.log(`⏰ Marking socio ${socioName} as expired`);
+          } else if (estadoCalculado === 'al_dia' && currentEstadoMembresia === 'vencido') {
             batch.update(docSnapshot.ref, {
               estadoMembresia: 'al_dia',
               actualizadoEn: serverTimestamp(),
             });
             updatedCount++;
             details.markedAsUpToDate++;
-            console.log(`✅ Marking socio ${socioName} as up to date (vencimiento: ${fechaVencimiento.toLocaleDateString()})`);
+            console.log(`✅ Marking socio ${socioName} as up to date`);
           } else {
             details.alreadyCorrect++;
           }
@@ -236,13 +237,13 @@ class MembershipStatusUpdaterService {
       let discrepanciasDetectadas = 0;
 
       socios.forEach(socio => {
-        const fechaVencimiento = socio.fechaVencimiento?.toDate();
+        const estadoCalculado = derivarEstadoMembresia(socio, now);
         const estadoMembresia = socio.estadoMembresia;
         
-        if (!fechaVencimiento) {
-          // No expiration date set - consider as pending
+        if (estadoCalculado === 'pendiente') {
+          // Sin cuotas ni fecha de vencimiento - consider as pending
           pendientes++;
-        } else if (fechaVencimiento < now) {
+        } else if (estadoCalculado === 'vencido') {
           // Expired
           vencidos++;
           
@@ -271,7 +272,7 @@ class MembershipStatusUpdaterService {
         vencidos,
         pendientes,
         ingresosMensuales: socios
-          .filter(s => s.estado === 'activo' && (s.fechaVencimiento?.toDate() || new Date()) >= now)
+          .filter(s => s.estado === 'activo' && derivarEstadoMembresia(s, now) !== 'vencido')
           .reduce((total, s) => total + (s.montoCuota || 0), 0),
         beneficiosUsados: socios.reduce((total, s) => total + (s.beneficiosUsados || 0), 0),
       };
@@ -109,11 +109,11 @@ class MembershipSyncService {
         actualizadoEn: serverTimestamp(),
       });
 
-      // Update socio document
+      // Update socio document. estadoMembresia no se toca: se deriva de la
+      // cuenta de cuotas y lo escribe la asociación
       const socioRef = doc(db, this.sociosCollection, userId);
       batch.update(socioRef, {
         estado: correctStatus.socioStatus,
-        estadoMembresia: correctStatus.membershipStatus,
         asociacionId: correctStatus.asociacionId,
         actualizadoEn: serverTimestamp(),
       });
@@ -230,11 +230,10 @@ class MembershipSyncService {
         actualizadoEn: serverTimestamp(),
       });
 
-      // Update socio document to active with proper membership status
+      // Update socio document to active; estadoMembresia sale de la cuenta de cuotas
       const socioRef = doc(db, this.sociosCollection, userId);
       batch.update(socioRef, {
         estado: 'activo',
-        estadoMembresia: 'al_dia',
         actualizadoEn: serverTimestamp(),
       });
 
@@ -0,0 +1,73 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  query,
+  where,
+  serverTimestamp,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { handleError } from '@/lib/error-handler';
+import { normalizarPreferencias, PreferenciasEnvio } from '@/lib/notification-preferences';
+
+// Límite de valores de un filtro 'in' de Firestore
+const TAMANO_CONSULTA = 30;
+
+class NotificationPreferencesService {
+  private readonly collection = COLLECTIONS.NOTIFICATION_SETTINGS;
+
+  /**
+   * Preferencias de envío del usuario (con valores por defecto)
+   */
+  async getPreferencias(userId: string): Promise<PreferenciasEnvio> {
+    try {
+      const settingsDoc = await getDoc(doc(db, this.collection, userId));
+      return normalizarPreferencias(settingsDoc.exists() ? settingsDoc.data() : null);
+    } catch (error) {
+      handleError(error, 'Get Notification Preferences', false);
+      return normalizarPreferencias(null);
+    }
+  }
+
+  /**
+   * Preferencias de varios destinatarios; quien no tiene documento queda con
+   * los valores por defecto
+   */
+  async getPreferenciasDe(userIds: string[]): Promise<Map<string, PreferenciasEnvio>> {
+    const unicos = Array.from(new Set(userIds));
+    const preferencias = new Map(unicos.map(userId => [userId, normalizarPreferencias(null)]));
+
+    for (let i = 0; i < unicos.length; i += TAMANO_CONSULTA) {
+      const snapshot = await getDocs(query(
+        collection(db, this.collection),
+        where('userId', 'in', unicos.slice(i, i + TAMANO_CONSULTA))
+      ));
+      snapshot.docs.forEach(settingsDoc => {
+        preferencias.set(settingsDoc.data().userId, normalizarPreferencias(settingsDoc.data()));
+      });
+    }
+
+    return preferencias;
+  }
+
+  async guardarPreferencias(userId: string, preferencias: PreferenciasEnvio): Promise<boolean> {
+    try {
+      await setDoc(doc(db, this.collection, userId), {
+        ...normalizarPreferencias(preferencias),
+        userId,
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+      return true;
+    } catch (error) {
+      handleError(error, 'Save Notification Preferences');
+      return false;
+    }
+  }
+}
+
+// Export singleton instance
+export const notificationPreferencesService = new NotificationPreferencesService();
+export default notificationPreferencesService;
@@ -16,6 +16,8 @@ import { db } from '@/lib/firebase';
 import { NotificationFormData } from '@/types/notification';
 import { SimpleNotificationFormData, SimpleNotificationChannel } from '@/types/simple-notification';
 import { simpleNotificationService } from './simple-notifications.service';
+import { notificationPreferencesService } from './notification-preferences.service';
+import { decidirEnvio, DecisionEnvio } from '@/lib/notification-preferences';
 
 export interface QueuedNotification {
   id: string;
@@ -23,8 +25,16 @@ export interface QueuedNotification {
   recipientIds: string[];
   notificationData: NotificationFormData;
   
+  // Envíos de SimpleNotificationSender: se mandan tal cual, con sus canales
+  // y destinatarios, sobre la notificación ya creada
+  simpleNotificationData?: SimpleNotificationFormData;
+  
   // Queue metadata
-  status: 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled';
+  // 'pending_approval': retenido hasta que se resuelva su solicitud de
+  // aprobación; al aprobarse pasa a releaseStatus, al rechazarse se cancela
+  status: 'pending_approval' | 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled';
+  approvalRequestId?: string;
+  releaseStatus?: 'pending' | 'digest';
   // REMOVED: priority - Las notificaciones se procesan por orden de ejecución (FIFO)
   attempts: number;
   maxAttempts: number;
@@ -57,6 +67,8 @@ export interface QueueOptions {
   maxAttempts?: number;
   delay?: number; // Delay in minutes
   batchId?: string;
+  // Retiene los ítems hasta que se apruebe esta solicitud
+  approvalRequestId?: string;
 }
 
 export interface QueueStats {
@@ -91,7 +103,12 @@ class NotificationQueueService {
   // ==================== QUEUE MANAGEMENT ====================
 
   /**
-   * Add notification to queue for immediate processing
+   * Add notification to queue for immediate processing. Se respetan las
+   * preferencias de cada destinatario: las categorías desactivadas se
+   * descartan, el horario silencioso corre el envío y con frecuencia de
+   * resumen la notificación espera al próximo email de resumen. La prioridad
+   * 'urgent' sale siempre en el momento.
+   * Devuelve el ID del primer ítem creado, o '' si no quedó nada para enviar.
    */
   async enqueueNotification(
     notificationId: string,
@@ -100,31 +117,11 @@ class NotificationQueueService {
     options: QueueOptions = {}
   ): Promise<string> {
     try {
-      const queueItem: Omit<QueuedNotification, 'id'> = {
-        notificationId,
-        recipientIds,
-        notificationData,
-        status: 'pending',
-        // REMOVED: priority - Las notificaciones se procesan por orden de ejecución (FIFO)
-        attempts: 0,
-        maxAttempts: options.maxAttempts || 3,
-        processAfter: new Date(Date.now() + (options.delay || 0) * 60 * 1000),
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        errorHistory: [],
-        batchId: options.batchId,
-        batchSize: recipientIds.length,
-      };
-
-      const docRef = await addDoc(collection(db, this.QUEUE_COLLECTION), {
-        ...queueItem,
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        processAfter: Timestamp.fromDate(queueItem.processAfter),
-      });
+      const processAfter = new Date(Date.now() + (options.delay || 0) * 60 * 1000);
+      const ids = await this.encolarSegunPreferencias(notificationId, recipientIds, notificationData, processAfter, options);
 
       console.log(`📥 Enqueued notification: ${notificationId} for ${recipientIds.length} recipients`);
-      return docRef.id;
+      return ids[0] ?? '';
     } catch (error) {
       console.error('❌ Error enqueuing notification:', error);
       throw error;
@@ -132,7 +129,8 @@ class NotificationQueueService {
   }
 
   /**
-   * Schedule notification for future processing
+   * Schedule notification for future processing. Las preferencias se evalúan
+   * para la fecha programada.
    */
   async scheduleNotification(
     notificationId: string,
@@ -142,39 +140,151 @@ class NotificationQueueService {
     options: QueueOptions = {}
   ): Promise<string> {
     try {
-      const queueItem: Omit<QueuedNotification, 'id'> = {
+      const ids = await this.encolarSegunPreferencias(
         notificationId,
         recipientIds,
         notificationData,
+        scheduledFor,
+        options,
+        scheduledFor
+      );
+
+      console.log(`⏰ Scheduled notification: ${notificationId} for ${scheduledFor.toISOString()}`);
+      return ids[0] ?? '';
+    } catch (error) {
+      console.error('❌ Error scheduling notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reparte los destinatarios según sus preferencias y crea los ítems de la
+   * cola: uno por cada momento de envío y, para los resúmenes, uno por
+   * destinatario en el formato que procesa enviarResumenesNotificaciones.
+   */
+  private async encolarSegunPreferencias(
+    notificationId: string,
+    recipientIds: string[],
+    notificationData: NotificationFormData,
+    processAfter: Date,
+    options: QueueOptions,
+    scheduledFor?: Date
+  ): Promise<string[]> {
+    const porMomento = new Map<number, string[]>();
+    const resumenes: { recipientId: string; digestAt: Date }[] = [];
+    let suprimidos = 0;
+
+    const urgente = notificationData.priority === 'urgent';
+    const preferencias = urgente ? null : await notificationPreferencesService.getPreferenciasDe(recipientIds);
+
+    recipientIds.forEach(recipientId => {
+      const decision: DecisionEnvio = preferencias
+        ? decidirEnvio(preferencias.get(recipientId)!, notificationData, processAfter)
+        : { accion: 'enviar' };
+
+      if (decision.accion === 'suprimir') {
+        suprimidos++;
+      } else if (decision.accion === 'resumen') {
+        resumenes.push({ recipientId, digestAt: decision.hasta });
+      } else {
+        const momento = decision.accion === 'diferir' ? decision.hasta.getTime() : processAfter.getTime();
+        porMomento.set(momento, [...(porMomento.get(momento) ?? []), recipientId]);
+      }
+    });
+
+    const ids: string[] = [];
+    for (const [momento, destinatarios] of porMomento) {
+      const queueItem: Omit<QueuedNotification, 'id'> = {
+        notificationId,
+        recipientIds: destinatarios,
+        notificationData,
         status: 'pending',
         // REMOVED: priority - Las notificaciones se procesan por orden de ejecución (FIFO)
         attempts: 0,
         maxAttempts: options.maxAttempts || 3,
-        scheduledFor,
-        processAfter: scheduledFor,
+        processAfter: new Date(momento),
         createdAt: new Date(),
         updatedAt: new Date(),
         errorHistory: [],
         batchId: options.batchId,
-        batchSize: recipientIds.length,
+        batchSize: destinatarios.length,
       };
 
       const docRef = await addDoc(collection(db, this.QUEUE_COLLECTION), {
         ...queueItem,
+        ...this.retencion(options, 'pending'),
+        ...(scheduledFor ? { scheduledFor: Timestamp.fromDate(scheduledFor) } : {}),
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
-        scheduledFor: Timestamp.fromDate(scheduledFor),
         processAfter: Timestamp.fromDate(queueItem.processAfter),
       });
+      ids.push(docRef.id);
+    }
 
-      console.log(`⏰ Scheduled notification: ${notificationId} for ${scheduledFor.toISOString()}`);
+    for (const { recipientId, digestAt } of resumenes) {
+      const docRef = await addDoc(collection(db, this.QUEUE_COLLECTION), {
+        notificationId,
+        recipientId,
+        notificationData,
+        status: 'digest',
+        ...this.retencion(options, 'digest'),
+        digestAt: Timestamp.fromDate(digestAt),
+        attempts: 0,
+        maxAttempts: options.maxAttempts || 3,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      ids.push(docRef.id);
+    }
+
+    if (suprimidos > 0 || resumenes.length > 0 || porMomento.size > 1) {
+      console.log(`🔕 Preferencias de ${notificationId}: ${suprimidos} descartados, ${resumenes.length} al resumen, ${porMomento.size} momento(s) de envío`);
+    }
+    return ids;
+  }
+
+  /**
+   * Encola un envío de SimpleNotificationSender ya creado en simpleNotifications.
+   * Se manda como lo armó quien lo envía, sin pasar por las preferencias: es
+   * lo que se habría enviado en el momento si no hubiera requerido aprobación
+   */
+  async enqueueSimpleNotification(
+    notificationId: string,
+    data: SimpleNotificationFormData,
+    options: QueueOptions = {}
+  ): Promise<string> {
+    try {
+      const docRef = await addDoc(collection(db, this.QUEUE_COLLECTION), {
+        notificationId,
+        recipientIds: data.recipientIds,
+        notificationData: { title: data.title, message: data.message, type: data.type },
+        simpleNotificationData: data,
+        status: 'pending',
+        ...this.retencion(options, 'pending'),
+        attempts: 0,
+        maxAttempts: options.maxAttempts || 3,
+        processAfter: Timestamp.fromDate(new Date(Date.now() + (options.delay || 0) * 60 * 1000)),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        errorHistory: [],
+        batchSize: data.recipientIds.length,
+      });
+
+      console.log(`📥 Enqueued simple notification: ${notificationId} for ${data.recipientIds.length} recipients`);
       return docRef.id;
     } catch (error) {
-      console.error('❌ Error scheduling notification:', error);
+      console.error('❌ Error enqueuing simple notification:', error);
       throw error;
     }
   }
 
+  // Campos de un ítem retenido por una solicitud de aprobación
+  private retencion(options: QueueOptions, releaseStatus: 'pending' | 'digest') {
+    return options.approvalRequestId
+      ? { status: 'pending_approval' as const, approvalRequestId: options.approvalRequestId, releaseStatus }
+      : {};
+  }
+
   /**
    * Get queue statistics
    */
@@ -416,6 +526,24 @@ class NotificationQueueService {
         updatedAt: serverTimestamp(),
       });
 
+      if (queueItem.simpleNotificationData) {
+        const simpleResult = await simpleNotificationService.sendNotification(
+          queueItem.notificationId,
+          queueItem.simpleNotificationData
+        );
+        if (!simpleResult.success) {
+          throw new Error(simpleResult.errors.join(', ') || 'Unknown error');
+        }
+
+        await updateDoc(doc(db, this.QUEUE_COLLECTION, queueItem.id), {
+          status: 'sent',
+          completedAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+        console.log(`✅ Successfully processed queued notification: ${queueItem.notificationId}`);
+        return;
+      }
+
       // Create temporary recipients for the simple notification service
       const tempRecipients = queueItem.recipientIds.map((id, index) => ({
         id,
@@ -448,7 +576,9 @@ class NotificationQueueService {
         message: queueItem.notificationData.message,
         type: this.mapNotificationType(queueItem.notificationData.type || 'info'),
         channels: mapChannels(['email', 'app']), // Default channels
-        recipientIds: queueItem.recipientIds
+        recipientIds: queueItem.recipientIds,
+        ...(queueItem.notificationData.cuerpos && { cuerpos: queueItem.notificationData.cuerpos }),
+        ...(queueItem.notificationData.asociacionId && { asociacionId: queueItem.notificationData.asociacionId })
       };
 
       // Override the getRecipients method temporarily
@@ -11,8 +11,16 @@ import {
   limit,
   serverTimestamp,
   Timestamp,
+  deleteField,
+  increment,
+  writeBatch,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { calcularProximaEjecucion } from '@/lib/notification-schedule';
+import { cumpleCondiciones } from '@/lib/eventos-dominio';
+import { filtrosDeSegmentacion, sinExcluidos } from '@/lib/notification-targeting';
+import { CondicionTrigger, TipoEventoDominio } from '@/types/eventos-dominio';
+import { EstadisticasVariante, PruebaAB } from '@/types/ab-testing';
 import { NotificationFormData, NotificationPriority } from '@/types/notification';
 import { notificationService } from './notifications.service';
 import { notificationQueueService } from './notification-queue.service';
@@ -52,13 +60,14 @@ export interface ScheduledNotification {
   lastExecution?: Date;
   executionCount: number;
   maxExecutions?: number;
+  lastError?: string;
   
   // Metadata
   createdAt: Date;
   updatedAt: Date;
   createdBy: string;
   
-  // Analytics
+  // Analytics (las escribe procesarNotificacionesProgramadas en cada ejecución)
   analytics: {
     totalSent: number;
     totalDelivered: number;
@@ -78,16 +87,14 @@ export interface NotificationTrigger {
   name: string;
   description: string;
   isActive: boolean;
+  // Sin asociación el trigger responde a los eventos de todas
+  asociacionId?: string;
   
   // Trigger configuration
   trigger: {
     type: 'event' | 'condition' | 'webhook';
-    event?: string; // e.g., 'user_registered', 'payment_received'
-    conditions?: {
-      field: string;
-      operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains';
-      value: unknown;
-    }[];
+    event?: TipoEventoDominio | string; // Eventos de dominio: 'user_registered', 'payment_received', ...
+    conditions?: CondicionTrigger[];
     webhookUrl?: string;
   };
   
@@ -99,6 +106,7 @@ export interface NotificationTrigger {
     delay?: number; // Delay in minutes
     targeting?: {
       userTypes: string[];
+      associations?: string[];
       customFilters?: Record<string, unknown>;
     };
   };
@@ -140,6 +148,8 @@ export interface CampaignSchedule {
       percentage: number;
       notificationData: NotificationFormData;
     }[];
+    // Con prueba A/B las variantes van solo al grupo de prueba de cada fase
+    abTest?: PruebaAB;
   };
   
   // Scheduling
@@ -167,6 +177,8 @@ export interface CampaignSchedule {
   // Status
   status: 'draft' | 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled';
   currentPhase?: string;
+  executedPhases?: string[];
+  lastError?: string;
   
   // Analytics
   analytics: {
@@ -178,6 +190,8 @@ export interface CampaignSchedule {
       delivered: number;
       failed: number;
     }>;
+    // Por variante; 'control' es el mensaje base
+    variantStats?: Record<string, EstadisticasVariante>;
   };
   
   createdAt: Date;
@@ -185,21 +199,33 @@ export interface CampaignSchedule {
   createdBy: string;
 }
 
+export interface NotificationExecution {
+  id: string;
+  scheduledNotificationId?: string;
+  campaignId?: string;
+  phaseId?: string;
+  triggerId?: string;
+  targetCount: number;
+  status: 'completed' | 'failed';
+  error?: string;
+  source?: 'functions' | 'client';
+  executedAt: Date;
+}
+
+/**
+ * Alta y administración de notificaciones programadas, triggers y campañas.
+ *
+ * La ejecución no corre en el navegador: la función programada
+ * procesarNotificacionesProgramadas (functions/) evalúa cada minuto los
+ * programas y las fases de las campañas, y deja en los mismos documentos
+ * executionCount, lastExecution, nextExecution y analytics.
+ */
 class NotificationSchedulerService {
   private readonly SCHEDULED_COLLECTION = 'scheduledNotifications';
   private readonly TRIGGERS_COLLECTION = 'notificationTriggers';
   private readonly CAMPAIGNS_COLLECTION = 'notificationCampaigns';
   private readonly EXECUTIONS_COLLECTION = 'notificationExecutions';
-
-  private processingInterval: NodeJS.Timeout | null = null;
-  private isProcessing = false;
-
-  constructor() {
-    // Auto-start processing in browser environment
-    if (typeof window !== 'undefined') {
-      this.startProcessing();
-    }
-  }
+  private readonly QUEUE_COLLECTION = 'notificationQueue';
 
   // ==================== SCHEDULED NOTIFICATIONS ====================
 
@@ -208,6 +234,7 @@ class NotificationSchedulerService {
     data: Omit<ScheduledNotification, 'id' | 'createdAt' | 'updatedAt' | 'executionCount' | 'analytics'>
   ): Promise<string> {
     try {
+      const nextExecution = calcularProximaEjecucion(data.schedule);
       const scheduledNotification = {
         ...data,
         executionCount: 0,
@@ -217,7 +244,7 @@ class NotificationSchedulerService {
           totalFailed: 0,
           averageDeliveryRate: 0,
         },
-        nextExecution: this.calculateNextExecution(data.schedule),
+        ...(nextExecution ? { nextExecution: Timestamp.fromDate(nextExecution) } : {}),
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
       };
@@ -257,6 +284,13 @@ class NotificationSchedulerService {
         },
         nextExecution: doc.data().nextExecution?.toDate(),
         lastExecution: doc.data().lastExecution?.toDate(),
+        analytics: {
+          ...doc.data().analytics,
+          lastExecutionStats: doc.data().analytics?.lastExecutionStats && {
+            ...doc.data().analytics.lastExecutionStats,
+            executedAt: doc.data().analytics.lastExecutionStats.executedAt?.toDate() || new Date(),
+          },
+        },
       })) as ScheduledNotification[];
     } catch (error) {
       console.error('❌ Error getting scheduled notifications:', error);
@@ -267,18 +301,20 @@ class NotificationSchedulerService {
   // Update scheduled notification
   async updateScheduledNotification(
     id: string,
-    updates: Partial<Omit<ScheduledNotification, 'id' | 'createdAt' | 'createdBy'>>
+    updates: Partial<Omit<ScheduledNotification, 'id' | 'createdAt' | 'createdBy' | 'nextExecution'>>
   ): Promise<void> {
     try {
       const docRef = doc(db, this.SCHEDULED_COLLECTION, id);
+      const data: Record<string, unknown> = { ...updates };
       
-      // Recalculate next execution if schedule changed
+      // Recalcular la próxima ejecución si cambió el programa
       if (updates.schedule) {
-        updates.nextExecution = this.calculateNextExecution(updates.schedule);
+        const nextExecution = calcularProximaEjecucion(updates.schedule);
+        data.nextExecution = nextExecution ? Timestamp.fromDate(nextExecution) : deleteField();
       }
       
       await updateDoc(docRef, {
-        ...updates,
+        ...data,
         updatedAt: serverTimestamp(),
       });
       
@@ -289,6 +325,23 @@ class NotificationSchedulerService {
     }
   }
 
+  /**
+   * Pausa o reanuda una notificación programada. Al reanudar se recalcula la
+   * próxima ejecución para no disparar de golpe las que se saltearon.
+   */
+  async setScheduledNotificationActive(notification: ScheduledNotification, isActive: boolean): Promise<void> {
+    if (!isActive) {
+      await this.updateScheduledNotification(notification.id, { isActive: false, status: 'paused' });
+      return;
+    }
+
+    await this.updateScheduledNotification(notification.id, {
+      isActive: true,
+      status: 'active',
+      schedule: notification.schedule,
+    });
+  }
+
   // Delete scheduled notification
   async deleteScheduledNotification(id: string): Promise<void> {
     try {
@@ -331,13 +384,19 @@ class NotificationSchedulerService {
   }
 
   // Get notification triggers
-  async getNotificationTriggers(includeInactive: boolean = false): Promise<NotificationTrigger[]> {
+  async getNotificationTriggers(
+    includeInactive: boolean = false,
+    asociacionId?: string
+  ): Promise<NotificationTrigger[]> {
     try {
       const constraints = [];
       
       if (!includeInactive) {
         constraints.push(where('isActive', '==', true));
       }
+      if (asociacionId) {
+        constraints.push(where('asociacionId', '==', asociacionId));
+      }
       constraints.push(orderBy('createdAt', 'desc'));
       
       const q = query(collection(db, this.TRIGGERS_COLLECTION), ...constraints);
@@ -359,6 +418,33 @@ class NotificationSchedulerService {
     }
   }
 
+  // Update notification trigger
+  async updateNotificationTrigger(
+    id: string,
+    updates: Partial<Pick<NotificationTrigger, 'name' | 'description' | 'isActive' | 'trigger' | 'action' | 'execution'>>
+  ): Promise<void> {
+    try {
+      await updateDoc(doc(db, this.TRIGGERS_COLLECTION, id), {
+        ...updates,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('❌ Error updating notification trigger:', error);
+      throw error;
+    }
+  }
+
+  // Eliminar un trigger
+  async deleteNotificationTrigger(id: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, this.TRIGGERS_COLLECTION, id));
+      console.log(`✅ Deleted notification trigger: ${id}`);
+    } catch (error) {
+      console.error('❌ Error deleting notification trigger:', error);
+      throw error;
+    }
+  }
+
   // Trigger notification based on event
   async triggerNotification(
     triggerId: string,
@@ -375,37 +461,16 @@ class NotificationSchedulerService {
       }
 
       // Check conditions if specified
-      if (trigger.trigger.conditions) {
-        const conditionsMet = trigger.trigger.conditions.every(condition => {
-          const fieldValue = eventData[condition.field];
-          
-          switch (condition.operator) {
-            case 'equals':
-              return fieldValue === condition.value;
-            case 'not_equals':
-              return fieldValue !== condition.value;
-            case 'greater_than':
-              return typeof fieldValue === 'number' && typeof condition.value === 'number' && fieldValue > condition.value;
-            case 'less_than':
-              return typeof fieldValue === 'number' && typeof condition.value === 'number' && fieldValue < condition.value;
-            case 'contains':
-              return String(fieldValue).includes(String(condition.value));
-            default:
-              return false;
-          }
-        });
-
-        if (!conditionsMet) {
-          console.log(`⏭️ Conditions not met for trigger: ${triggerId}`);
-          return;
-        }
+      if (!cumpleCondiciones(trigger.trigger.conditions, eventData)) {
+        console.log(`⏭️ Conditions not met for trigger: ${triggerId}`);
+        return;
       }
 
       // Execute trigger action
-      await this.executeTriggerAction(trigger, eventData, userId);
+      const sentCount = await this.executeTriggerAction(trigger, eventData, userId);
       
       // Update analytics
-      await this.updateTriggerAnalytics(triggerId);
+      await this.updateTriggerAnalytics(triggerId, sentCount);
       
       console.log(`✅ Executed trigger: ${trigger.name}`);
     } catch (error) {
@@ -423,11 +488,16 @@ class NotificationSchedulerService {
     try {
       const campaign = {
         ...data,
+        campaign: data.campaign.abTest
+          ? { ...data.campaign, abTest: { ...data.campaign.abTest, status: 'testing' } }
+          : data.campaign,
+        executedPhases: [],
         analytics: {
           totalTargeted: 0,
           totalSent: 0,
           totalDelivered: 0,
           phaseStats: {},
+          variantStats: {},
         },
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
@@ -443,148 +513,97 @@ class NotificationSchedulerService {
     }
   }
 
-  // ==================== PROCESSING ENGINE ====================
-
-  // Start processing scheduled notifications
-  startProcessing(intervalMs: number = 60000): void {
-    if (this.processingInterval) {
-      this.stopProcessing();
-    }
+  // Obtener campañas
+  async getCampaignSchedules(): Promise<CampaignSchedule[]> {
+    try {
+      const q = query(collection(db, this.CAMPAIGNS_COLLECTION), orderBy('createdAt', 'desc'));
+      const snapshot = await getDocs(q);
 
-    console.log('🔄 Starting notification scheduler processing...');
-    this.processingInterval = setInterval(() => {
-      this.processScheduledNotifications().catch(error => {
-        console.error('❌ Scheduler processing error:', error);
+      return snapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          updatedAt: data.updatedAt?.toDate() || new Date(),
+          schedule: {
+            ...data.schedule,
+            startDate: data.schedule?.startDate?.toDate() || new Date(),
+            endDate: data.schedule?.endDate?.toDate(),
+            phases: (data.schedule?.phases || []).map((phase: Record<string, unknown> & { startDate?: Timestamp }) => ({
+              ...phase,
+              startDate: phase.startDate?.toDate() || new Date(),
+            })),
+          },
+        } as CampaignSchedule;
       });
-    }, intervalMs);
-
-    // Process immediately
-    this.processScheduledNotifications().catch(error => {
-      console.error('❌ Initial scheduler processing error:', error);
-    });
-  }
-
-  // Stop processing
-  stopProcessing(): void {
-    if (this.processingInterval) {
-      clearInterval(this.processingInterval);
-      this.processingInterval = null;
-      console.log('⏹️ Stopped notification scheduler processing');
+    } catch (error) {
+      console.error('❌ Error getting campaign schedules:', error);
+      throw error;
     }
   }
 
-  // Process scheduled notifications
-  private async processScheduledNotifications(): Promise<void> {
-    if (this.isProcessing) {
-      return;
+  // Actualizar una campaña; con status se pausa, reanuda o cancela
+  async updateCampaignSchedule(
+    id: string,
+    updates: Partial<Pick<CampaignSchedule, 'name' | 'description' | 'status'>>
+  ): Promise<void> {
+    try {
+      await updateDoc(doc(db, this.CAMPAIGNS_COLLECTION, id), {
+        ...updates,
+        updatedAt: serverTimestamp(),
+      });
+    } catch (error) {
+      console.error('❌ Error updating campaign schedule:', error);
+      throw error;
     }
+  }
 
-    this.isProcessing = true;
-
+  // Elegir a mano la variante ganadora; la función la envía al resto del
+  // público en su próxima corrida
+  async selectCampaignWinner(id: string, variantId: string): Promise<void> {
     try {
-      const now = new Date();
-      
-      // Get notifications ready for execution
-      const readyQuery = query(
-        collection(db, this.SCHEDULED_COLLECTION),
-        where('isActive', '==', true),
-        where('status', '==', 'active'),
-        where('nextExecution', '<=', Timestamp.fromDate(now)),
-        limit(10)
-      );
-
-      const snapshot = await getDocs(readyQuery);
-      
-      if (snapshot.empty) {
-        return;
-      }
-
-      console.log(`📤 Processing ${snapshot.docs.length} scheduled notifications...`);
-
-      for (const docSnapshot of snapshot.docs) {
-        const scheduledNotification = {
-          id: docSnapshot.id,
-          ...docSnapshot.data(),
-          createdAt: docSnapshot.data().createdAt?.toDate() || new Date(),
-          updatedAt: docSnapshot.data().updatedAt?.toDate() || new Date(),
-          schedule: {
-            ...docSnapshot.data().schedule,
-            startDate: docSnapshot.data().schedule.startDate?.toDate() || new Date(),
-            endDate: docSnapshot.data().schedule.endDate?.toDate(),
-          },
-          nextExecution: docSnapshot.data().nextExecution?.toDate(),
-          lastExecution: docSnapshot.data().lastExecution?.toDate(),
-        } as ScheduledNotification;
-
-        await this.executeScheduledNotification(scheduledNotification);
-      }
-
+      await updateDoc(doc(db, this.CAMPAIGNS_COLLECTION, id), {
+        'campaign.abTest.selectedWinnerId': variantId,
+        updatedAt: serverTimestamp(),
+      });
     } catch (error) {
-      console.error('❌ Error processing scheduled notifications:', error);
-    } finally {
-      this.isProcessing = false;
+      console.error('❌ Error selecting campaign winner:', error);
+      throw error;
     }
   }
 
-  // Execute scheduled notification
-  private async executeScheduledNotification(scheduledNotification: ScheduledNotification): Promise<void> {
+  // Eliminar una campaña
+  async deleteCampaignSchedule(id: string): Promise<void> {
     try {
-      console.log(`🚀 Executing scheduled notification: ${scheduledNotification.name}`);
+      await deleteDoc(doc(db, this.CAMPAIGNS_COLLECTION, id));
+      console.log(`✅ Deleted campaign schedule: ${id}`);
+    } catch (error) {
+      console.error('❌ Error deleting campaign schedule:', error);
+      throw error;
+    }
+  }
 
-      // Get target users based on targeting criteria
-      const targetUsers = await this.getTargetUsers(scheduledNotification.targeting);
-      
-      if (targetUsers.length === 0) {
-        console.warn(`⚠️ No target users found for: ${scheduledNotification.name}`);
-        return;
-      }
+  // ==================== EXECUTIONS ====================
 
-      // Create notification
-      const notificationId = await notificationService.createNotification(scheduledNotification.notificationData);
-      
-      // Send to users using queue system for better performance
-      await notificationQueueService.enqueueNotification(
-        notificationId,
-        targetUsers,
-        scheduledNotification.notificationData,
-        {
-          maxAttempts: 3,
-        }
+  // Últimas ejecuciones registradas por las funciones y los triggers
+  async getRecentExecutions(maxResults: number = 200): Promise<NotificationExecution[]> {
+    try {
+      const q = query(
+        collection(db, this.EXECUTIONS_COLLECTION),
+        orderBy('executedAt', 'desc'),
+        limit(maxResults)
       );
+      const snapshot = await getDocs(q);
 
-      // Update execution stats
-      const executionCount = scheduledNotification.executionCount + 1;
-      const nextExecution = this.calculateNextExecution(scheduledNotification.schedule, new Date());
-      
-      // Check if should complete
-      const shouldComplete = 
-        (scheduledNotification.maxExecutions && executionCount >= scheduledNotification.maxExecutions) ||
-        (scheduledNotification.schedule.type === 'once') ||
-        (scheduledNotification.schedule.endDate && nextExecution && nextExecution > scheduledNotification.schedule.endDate);
-
-      const updates: Partial<ScheduledNotification> = {
-        executionCount,
-        lastExecution: new Date(),
-        nextExecution: shouldComplete ? undefined : nextExecution,
-        status: shouldComplete ? 'completed' : 'active',
-        updatedAt: new Date(),
-      };
-
-      await this.updateScheduledNotification(scheduledNotification.id, updates);
-      
-      // Record execution
-      await this.recordExecution(scheduledNotification.id, targetUsers.length);
-      
-      console.log(`✅ Executed scheduled notification: ${scheduledNotification.name} (${targetUsers.length} users)`);
-
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data(),
+        executedAt: doc.data().executedAt?.toDate() || new Date(),
+      })) as NotificationExecution[];
     } catch (error) {
-      console.error(`❌ Error executing scheduled notification ${scheduledNotification.name}:`, error);
-      
-      // Mark as failed and schedule retry
-      await this.updateScheduledNotification(scheduledNotification.id, {
-        status: 'paused',
-        nextExecution: new Date(Date.now() + 30 * 60 * 1000), // Retry in 30 minutes
-      });
+      console.error('❌ Error getting notification executions:', error);
+      return [];
     }
   }
 
@@ -593,31 +612,28 @@ class NotificationSchedulerService {
     trigger: NotificationTrigger,
     eventData: Record<string, unknown>,
     userId?: string
-  ): Promise<void> {
+  ): Promise<number> {
     try {
       const targetUsers = userId ? [userId] : await this.getTargetUsers(trigger.action.targeting || { userTypes: ['all'] });
       
       if (targetUsers.length === 0) {
-        return;
+        return 0;
       }
 
-      // Apply delay if specified
       const delay = trigger.action.delay || 0;
-      const scheduledFor = new Date(Date.now() + delay * 60 * 1000);
 
       if (trigger.action.type === 'send_notification') {
-        // Create and send notification immediately or with delay
         const notificationId = await notificationService.createNotification(trigger.action.notificationData);
         
         if (delay > 0) {
-          await notificationQueueService.scheduleNotification(
+          // Los envíos diferidos los hace processNotificationQueue en el servidor:
+          // no dependen de que quede un navegador abierto
+          await this.enqueueServerNotification(
             notificationId,
             targetUsers,
             trigger.action.notificationData,
-            scheduledFor,
-            {
-              maxAttempts: 3,
-            }
+            new Date(Date.now() + delay * 60 * 1000),
+            { tipo: 'trigger', id: trigger.id }
           );
         } else {
           await notificationQueueService.enqueueNotification(
@@ -631,102 +647,59 @@ class NotificationSchedulerService {
         }
       }
 
+      await this.recordExecution({ triggerId: trigger.id, targetCount: targetUsers.length });
+      return targetUsers.length;
     } catch (error) {
       console.error('❌ Error executing trigger action:', error);
+      await this.recordExecution({
+        triggerId: trigger.id,
+        targetCount: 0,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
       throw error;
     }
   }
 
   // ==================== UTILITY METHODS ====================
 
-  // Calculate next execution time
-  private calculateNextExecution(schedule: ScheduledNotification['schedule'], fromDate?: Date): Date | undefined {
-    const baseDate = fromDate || new Date();
-    
-    if (schedule.type === 'once') {
-      return schedule.startDate > baseDate ? schedule.startDate : undefined;
-    }
-
-    // For recurring schedules
-    const [hours, minutes] = schedule.time.split(':').map(Number);
-    const nextDate = new Date(baseDate);
-    nextDate.setHours(hours, minutes, 0, 0);
-
-    // If time has passed today, start from tomorrow
-    if (nextDate <= baseDate) {
-      nextDate.setDate(nextDate.getDate() + 1);
-    }
-
-    switch (schedule.frequency) {
-      case 'daily':
-        const interval = schedule.interval || 1;
-        while (nextDate <= baseDate) {
-          nextDate.setDate(nextDate.getDate() + interval);
-        }
-        break;
-
-      case 'weekly':
-        if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
-          // Find next occurrence of specified days
-          const currentDay = nextDate.getDay();
-          const sortedDays = [...schedule.daysOfWeek].sort((a, b) => a - b);
-          
-          let targetDay = sortedDays.find(day => day > currentDay);
-          if (!targetDay) {
-            targetDay = sortedDays[0];
-            nextDate.setDate(nextDate.getDate() + 7);
-          }
-          
-          const daysToAdd = (targetDay - nextDate.getDay() + 7) % 7;
-          nextDate.setDate(nextDate.getDate() + daysToAdd);
-        }
-        break;
-
-      case 'monthly':
-        if (schedule.dayOfMonth) {
-          nextDate.setDate(schedule.dayOfMonth);
-          if (nextDate <= baseDate) {
-            nextDate.setMonth(nextDate.getMonth() + 1);
-          }
-        }
-        break;
-    }
-
-    // Check if within end date
-    if (schedule.endDate && nextDate > schedule.endDate) {
-      return undefined;
+  // Encola un envío por destinatario con el formato que procesa processNotificationQueue
+  private async enqueueServerNotification(
+    notificationId: string,
+    recipientIds: string[],
+    notificationData: NotificationFormData,
+    scheduledFor: Date,
+    origen: Record<string, string>
+  ): Promise<void> {
+    const BATCH_SIZE = 400;
+
+    for (let i = 0; i < recipientIds.length; i += BATCH_SIZE) {
+      const batch = writeBatch(db);
+      recipientIds.slice(i, i + BATCH_SIZE).forEach(recipientId => {
+        batch.set(doc(collection(db, this.QUEUE_COLLECTION)), {
+          notificationId,
+          recipientId,
+          notificationData,
+          status: 'pending',
+          attempts: 0,
+          maxAttempts: 3,
+          scheduledFor: Timestamp.fromDate(scheduledFor),
+          origen,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+      });
+      await batch.commit();
     }
-
-    return nextDate;
   }
 
   // Get target users based on criteria
   private async getTargetUsers(targeting: ScheduledNotification['targeting']): Promise<string[]> {
     try {
-      // This is a simplified implementation
-      // In a real app, you'd query your users collection based on the targeting criteria
-      
-      const constraints = [];
-      
-      if (targeting.userTypes && targeting.userTypes.length > 0 && !targeting.userTypes.includes('all')) {
-        constraints.push(where('role', 'in', targeting.userTypes));
-      }
-      
-      if (targeting.associations && targeting.associations.length > 0) {
-        constraints.push(where('asociacionId', 'in', targeting.associations));
-      }
+      const constraints = filtrosDeSegmentacion(targeting).map(filtro => where(filtro.campo, 'in', filtro.valores));
+      const snapshot = await getDocs(query(collection(db, 'users'), ...constraints));
 
-      const q = query(collection(db, 'users'), ...constraints);
-      const snapshot = await getDocs(q);
-      
-      let userIds = snapshot.docs.map(doc => doc.id);
-      
-      // Exclude specified users
-      if (targeting.excludeUsers && targeting.excludeUsers.length > 0) {
-        userIds = userIds.filter(id => !targeting.excludeUsers!.includes(id));
-      }
-      
-      return userIds;
+      return sinExcluidos(snapshot.docs.map(doc => doc.id), targeting);
     } catch (error) {
       console.error('❌ Error getting target users:', error);
       return [];
@@ -734,13 +707,17 @@ class NotificationSchedulerService {
   }
 
   // Record execution
-  private async recordExecution(scheduledNotificationId: string, targetCount: number): Promise<void> {
+  private async recordExecution(
+    execution: Omit<NotificationExecution, 'id' | 'executedAt' | 'status' | 'source'> & {
+      status?: NotificationExecution['status'];
+    }
+  ): Promise<void> {
     try {
       await addDoc(collection(db, this.EXECUTIONS_COLLECTION), {
-        scheduledNotificationId,
-        targetCount,
-        executedAt: serverTimestamp(),
         status: 'completed',
+        ...execution,
+        source: 'client',
+        executedAt: serverTimestamp(),
       });
     } catch (error) {
       console.error('❌ Error recording execution:', error);
@@ -748,13 +725,13 @@ class NotificationSchedulerService {
   }
 
   // Update trigger analytics
-  private async updateTriggerAnalytics(triggerId: string): Promise<void> {
+  private async updateTriggerAnalytics(triggerId: string, sentCount: number): Promise<void> {
     try {
       const docRef = doc(db, this.TRIGGERS_COLLECTION, triggerId);
       
-      // In a real implementation, you'd calculate actual stats
       await updateDoc(docRef, {
-        'analytics.totalTriggers': (await this.getNotificationTriggers()).find(t => t.id === triggerId)?.analytics.totalTriggers || 0 + 1,
+        'analytics.totalTriggers': increment(1),
+        'analytics.totalNotificationsSent': increment(sentCount),
         'analytics.lastTriggered': serverTimestamp(),
         updatedAt: serverTimestamp(),
       });
@@ -787,9 +764,10 @@ class NotificationSchedulerService {
     };
   }> {
     try {
-      const [scheduledNotifications, triggers] = await Promise.all([
+      const [scheduledNotifications, triggers, campaigns] = await Promise.all([
         this.getScheduledNotifications(true),
         this.getNotificationTriggers(true),
+        this.getCampaignSchedules(),
       ]);
 
       const now = new Date();
@@ -806,12 +784,12 @@ class NotificationSchedulerService {
         triggers: {
           total: triggers.length,
           active: triggers.filter(t => t.isActive).length,
-          totalExecutions: triggers.reduce((sum, t) => sum + t.analytics.totalTriggers, 0),
+          totalExecutions: triggers.reduce((sum, t) => sum + (t.analytics.totalTriggers || 0), 0),
         },
         campaigns: {
-          total: 0, // TODO: Implement campaign stats
-          running: 0,
-          completed: 0,
+          total: campaigns.length,
+          running: campaigns.filter(c => c.status === 'running').length,
+          completed: campaigns.filter(c => c.status === 'completed').length,
         },
         upcomingExecutions: {
           next24Hours: scheduledNotifications.filter(s => 
@@ -827,19 +805,7 @@ class NotificationSchedulerService {
       throw error;
     }
   }
-
-  // Cleanup method
-  cleanup(): void {
-    this.stopProcessing();
-  }
 }
 
 // Export singleton instance
 export const notificationSchedulerService = new NotificationSchedulerService();
-
-// Cleanup on page unload
-if (typeof window !== 'undefined') {
-  window.addEventListener('beforeunload', () => {
-    notificationSchedulerService.cleanup();
-  });
-}
\ No newline at end of file
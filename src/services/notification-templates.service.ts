@@ -9,20 +9,83 @@ import {
   query,
   where,
   orderBy,
+  limit,
+  documentId,
   serverTimestamp,
   Timestamp,
+  DocumentData,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
 import { handleError } from '@/lib/error-handler';
-import { NotificationType, NotificationPriority, NotificationCategory } from '@/types/notification';
-
-export interface TemplateVariable {
-  name: string;
-  description: string;
-  type: 'text' | 'number' | 'date' | 'boolean';
-  required: boolean;
-  defaultValue?: string | number | boolean;
-}
+import {
+  renderizarEnvio,
+  renderizarPlantilla,
+  validarTextosPlantilla,
+  VARIABLES_PLANTILLA,
+} from '@/lib/plantillas';
+import {
+  CuerposPorCanal,
+  NotificationType,
+  NotificationPriority,
+  NotificationCategory,
+} from '@/types/notification';
+import {
+  AlcancePlantilla,
+  ContextoPlantilla,
+  ReferenciasPlantilla,
+  ResultadoEnvioPlantilla,
+  TextosPlantilla,
+  VariablePlantilla,
+} from '@/types/plantillas';
+
+// Límite de valores de un filtro 'in' de Firestore
+const TAMANO_CONSULTA = 30;
+
+// Beneficios que se cargan en {{#each beneficios}}
+const BENEFICIOS_EN_PLANTILLA = 5;
+
+const aFecha = (valor: unknown): Date | undefined => {
+  if (valor instanceof Timestamp) return valor.toDate();
+  if (valor instanceof Date) return valor;
+  return undefined;
+};
+
+const contextoSocio = (socio: DocumentData): ContextoPlantilla => ({
+  socio_nombre: socio.nombre,
+  socio_email: socio.email,
+  numero_socio: socio.numeroSocio,
+  al_dia: socio.estadoMembresia === 'al_dia',
+  deuda: socio.cuentaCuotas?.deuda ?? 0,
+  cuotas_vencidas: socio.cuentaCuotas?.cuotasVencidas ?? 0,
+  fecha_vencimiento: aFecha(socio.cuentaCuotas?.proximoVencimiento) ?? aFecha(socio.fechaVencimiento),
+  monto: socio.montoCuota,
+});
+
+const contextoCuota = (cuota: DocumentData): ContextoPlantilla => ({
+  fecha_vencimiento: aFecha(cuota.fechaVencimiento),
+  // Lo que falta pagar de la cuota
+  monto: (cuota.monto ?? 0) - (cuota.montoPagado ?? 0),
+  cuota_periodo: cuota.periodo,
+});
+
+const contextoComercio = (comercio: DocumentData): ContextoPlantilla => ({
+  comercio_nombre: comercio.nombreComercio,
+  comercio_direccion: comercio.direccion,
+});
+
+const contextoBeneficio = (beneficio: DocumentData): ContextoPlantilla => ({
+  beneficio_titulo: beneficio.titulo,
+  descuento: beneficio.descuento,
+  beneficio_vencimiento: aFecha(beneficio.fechaFin),
+  comercio_nombre: beneficio.comercioNombre,
+});
+
+const esGlobal = (template: NotificationTemplate) => !template.asociacionId && !template.comercioId;
+
+const esDelAlcance = (template: NotificationTemplate, alcance: AlcancePlantilla) =>
+  (!!alcance.asociacionId && template.asociacionId === alcance.asociacionId) ||
+  (!!alcance.comercioId && template.comercioId === alcance.comercioId);
 
 export interface NotificationTemplate {
   id: string;
@@ -50,6 +113,11 @@ export interface NotificationTemplate {
   updatedAt: Date | Timestamp;
   usageCount: number;
   lastUsed?: Date | Timestamp;
+  // Dueño de la plantilla; las globales (sistema) no tienen ninguno
+  asociacionId?: string | null;
+  comercioId?: string | null;
+  // Textos por canal; admiten las mismas variables que el título y el mensaje
+  cuerpos?: CuerposPorCanal;
 }
 
 export interface TemplateValidation {
@@ -145,22 +213,6 @@ class NotificationTemplatesService {
     },
   ];
 
-  // Available template variables
-  private readonly AVAILABLE_VARIABLES: Record<string, TemplateVariable> = {
-    socio_nombre: { name: 'socio_nombre', description: 'Nombre del socio', type: 'text', required: false },
-    socio_email: { name: 'socio_email', description: 'Email del socio', type: 'text', required: false },
-    numero_socio: { name: 'numero_socio', description: 'Número de socio', type: 'text', required: false },
-    asociacion_nombre: { name: 'asociacion_nombre', description: 'Nombre de la asociación', type: 'text', required: false },
-    comercio_nombre: { name: 'comercio_nombre', description: 'Nombre del comercio', type: 'text', required: false },
-    beneficio_titulo: { name: 'beneficio_titulo', description: 'Título del beneficio', type: 'text', required: false },
-    descuento: { name: 'descuento', description: 'Porcentaje de descuento', type: 'number', required: false },
-    fecha_vencimiento: { name: 'fecha_vencimiento', description: 'Fecha de vencimiento', type: 'date', required: false },
-    monto: { name: 'monto', description: 'Monto en pesos', type: 'number', required: false },
-    fecha_actual: { name: 'fecha_actual', description: 'Fecha actual', type: 'date', required: false },
-    hora_actual: { name: 'hora_actual', description: 'Hora actual', type: 'text', required: false },
-    enlace: { name: 'enlace', description: 'Enlace de acción o más información', type: 'text', required: false },
-  };
-
   // Initialize system templates
   async initializeSystemTemplates(): Promise<void> {
     try {
@@ -196,8 +248,8 @@ class NotificationTemplatesService {
     }
   }
 
-  // Get all templates
-  async getTemplates(includeInactive = false): Promise<NotificationTemplate[]> {
+  // Get all templates; con un alcance, solo las globales y las de ese dueño
+  async getTemplates(includeInactive = false, alcance?: AlcancePlantilla): Promise<NotificationTemplate[]> {
     try {
       let templatesQuery = query(
         collection(db, this.COLLECTION_NAME),
@@ -214,13 +266,17 @@ class NotificationTemplatesService {
 
       const snapshot = await getDocs(templatesQuery);
       
-      return snapshot.docs.map(doc => ({
+      const templates = snapshot.docs.map(doc => ({
         id: doc.id,
         ...doc.data(),
         createdAt: doc.data().createdAt?.toDate() || new Date(),
         updatedAt: doc.data().updatedAt?.toDate() || new Date(),
         lastUsed: doc.data().lastUsed?.toDate(),
       })) as NotificationTemplate[];
+
+      return alcance
+        ? templates.filter(template => esGlobal(template) || esDelAlcance(template, alcance))
+        : templates;
     } catch (error) {
       console.error('Error getting templates:', error);
       handleError(error, 'Get Templates');
@@ -326,8 +382,8 @@ class NotificationTemplatesService {
     }
   }
 
-  // Duplicate template
-  async duplicateTemplate(id: string, newName: string): Promise<NotificationTemplate> {
+  // Duplicate template; la copia queda del alcance indicado
+  async duplicateTemplate(id: string, newName: string, alcance?: AlcancePlantilla): Promise<NotificationTemplate> {
     try {
       const originalTemplate = await this.getTemplateById(id);
       if (!originalTemplate) {
@@ -339,6 +395,8 @@ class NotificationTemplatesService {
         name: newName,
         isSystem: false, // Duplicated templates are never system templates
         createdBy: 'user', // TODO: Get actual user ID
+        asociacionId: alcance?.asociacionId ?? originalTemplate.asociacionId ?? null,
+        comercioId: alcance?.comercioId ?? originalTemplate.comercioId ?? null,
       };
 
       // Remove fields that shouldn't be duplicated
@@ -353,23 +411,9 @@ class NotificationTemplatesService {
   }
 
   // Validate template content
-  validateTemplate(title: string, message: string): TemplateValidation {
-    const errors: string[] = [];
-    const variables: string[] = [];
-
-    // Extract variables from title and message
-    const titleVariables = this.extractVariables(title);
-    const messageVariables = this.extractVariables(message);
-    const allVariables = [...new Set([...titleVariables, ...messageVariables])];
-
-    // Validate variables exist in available variables
-    for (const variable of allVariables) {
-      if (!this.AVAILABLE_VARIABLES[variable]) {
-        errors.push(`Variable desconocida: {{${variable}}}`);
-      } else {
-        variables.push(variable);
-      }
-    }
+  validateTemplate(title: string, message: string, cuerpos?: CuerposPorCanal): TemplateValidation {
+    const { errores, variables } = validarTextosPlantilla({ title, message, cuerpos });
+    const errors = [...errores];
 
     // Basic validation
     if (!title.trim()) {
@@ -387,42 +431,163 @@ class NotificationTemplatesService {
     };
   }
 
-  // Parse template with variables
-  parseTemplate(template: string, variables: Record<string, string | number | Date>): string {
-    let parsed = template;
+  // Parse template with variables; las variables sin valor quedan vacías
+  parseTemplate(template: string, variables: ContextoPlantilla): string {
+    return renderizarPlantilla(template, variables).texto;
+  }
+
+  // Get available variables
+  getAvailableVariables(): Record<string, VariablePlantilla> {
+    return { ...VARIABLES_PLANTILLA };
+  }
 
-    for (const [key, value] of Object.entries(variables)) {
-      const regex = new RegExp(`{{${key}}}`, 'g');
-      let stringValue = '';
+  /**
+   * Plantilla a usar en un envío automático: la del dueño con ese nombre si
+   * la personalizó (primero la asociación), si no la global
+   */
+  async getTemplateParaEnvio(name: string, alcance: AlcancePlantilla): Promise<NotificationTemplate | null> {
+    const templates = (await this.getTemplates(false, alcance)).filter(template => template.name === name);
+    return templates.find(template => !!alcance.asociacionId && template.asociacionId === alcance.asociacionId)
+      ?? templates.find(template => !esGlobal(template))
+      ?? templates[0]
+      ?? null;
+  }
 
-      if (value instanceof Date) {
-        stringValue = value.toLocaleDateString();
-      } else {
-        stringValue = String(value);
-      }
+  /**
+   * Plantilla de un envío automático renderizada con los datos del
+   * destinatario. Devuelve null si no hay plantilla o si quedó alguna
+   * variable sin resolver: no se envían mensajes con huecos.
+   */
+  async prepararEnvioAutomatico(
+    name: string,
+    referencias: ReferenciasPlantilla,
+    conocidas: ContextoPlantilla = {}
+  ): Promise<{ template: NotificationTemplate; envio: TextosPlantilla } | null> {
+    const template = await this.getTemplateParaEnvio(name, {
+      asociacionId: referencias.asociacionId,
+      comercioId: referencias.comercioId,
+    });
+    if (!template) {
+      console.warn(`⚠️ Plantilla "${name}" no encontrada`);
+      return null;
+    }
 
-      parsed = parsed.replace(regex, stringValue);
+    const contexto = { ...(await this.resolverVariables(referencias)), ...conocidas };
+    const resultado = this.prepararEnvio(template, contexto);
+    if (!resultado.ok) {
+      console.warn(`⚠️ Plantilla "${name}" sin enviar`, {
+        faltantes: resultado.faltantes,
+        errores: resultado.errores,
+      });
+      return null;
     }
 
-    return parsed;
+    return { template, envio: resultado.envio };
   }
 
-  // Get available variables
-  getAvailableVariables(): Record<string, TemplateVariable> {
-    return { ...this.AVAILABLE_VARIABLES };
+  /**
+   * Valores de las variables a partir de los documentos referenciados. Lo
+   * que no se encuentra queda sin definir y el envío lo informa como faltante.
+   */
+  async resolverVariables(referencias: ReferenciasPlantilla): Promise<ContextoPlantilla> {
+    const contexto = await this.resolverVariablesComunes(referencias);
+
+    if (referencias.socioId) {
+      const socioDoc = await getDoc(doc(db, COLLECTIONS.SOCIOS, referencias.socioId));
+      if (socioDoc.exists()) Object.assign(contexto, contextoSocio(socioDoc.data()));
+    }
+    if (referencias.cuotaId) {
+      const cuotaDoc = await getDoc(doc(db, COLLECTIONS.CUOTAS, referencias.cuotaId));
+      if (cuotaDoc.exists()) Object.assign(contexto, contextoCuota(cuotaDoc.data()));
+    }
+
+    return contexto;
   }
 
-  // Extract variables from template string
-  private extractVariables(template: string): string[] {
-    const regex = /{{(\w+)}}/g;
-    const variables: string[] = [];
-    let match;
+  /**
+   * Contexto de cada socio destinatario para un envío masivo: los documentos
+   * comunes se leen una sola vez y los socios en consultas de a 30
+   */
+  async resolverVariablesDeSocios(
+    referencias: Omit<ReferenciasPlantilla, 'socioId' | 'cuotaId'>,
+    socioIds: string[]
+  ): Promise<Map<string, ContextoPlantilla>> {
+    const comunes = await this.resolverVariablesComunes(referencias);
+    const unicos = Array.from(new Set(socioIds));
+    const contextos = new Map(unicos.map(socioId => [socioId, { ...comunes }]));
+
+    for (let i = 0; i < unicos.length; i += TAMANO_CONSULTA) {
+      const snapshot = await getDocs(query(
+        collection(db, COLLECTIONS.SOCIOS),
+        where(documentId(), 'in', unicos.slice(i, i + TAMANO_CONSULTA))
+      ));
+      snapshot.docs.forEach(socioDoc => {
+        contextos.set(socioDoc.id, { ...comunes, ...contextoSocio(socioDoc.data()) });
+      });
+    }
+
+    return contextos;
+  }
+
+  // Socio cualquiera de la asociación para la vista previa
+  async getSocioDeMuestra(asociacionId: string): Promise<string | null> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, COLLECTIONS.SOCIOS),
+        where('asociacionId', '==', asociacionId),
+        limit(1)
+      ));
+      return snapshot.empty ? null : snapshot.docs[0].id;
+    } catch (error) {
+      handleError(error, 'Get Sample Recipient', false);
+      return null;
+    }
+  }
+
+  // Renderiza todas las partes de la plantilla para un destinatario
+  prepararEnvio(template: NotificationTemplate, contexto: ContextoPlantilla): ResultadoEnvioPlantilla {
+    return renderizarEnvio(
+      { title: template.title, message: template.message, cuerpos: template.cuerpos },
+      contexto
+    );
+  }
+
+  private async resolverVariablesComunes(referencias: ReferenciasPlantilla): Promise<ContextoPlantilla> {
+    const ahora = new Date();
+    const contexto: ContextoPlantilla = {
+      fecha_actual: ahora,
+      hora_actual: ahora.toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit' }),
+      enlace: process.env.NEXT_PUBLIC_APP_URL,
+    };
 
-    while ((match = regex.exec(template)) !== null) {
-      variables.push(match[1]);
+    const [asociacionDoc, comercioDoc, beneficioDoc, beneficios] = await Promise.all([
+      referencias.asociacionId ? getDoc(doc(db, COLLECTIONS.ASOCIACIONES, referencias.asociacionId)) : null,
+      referencias.comercioId ? getDoc(doc(db, COLLECTIONS.COMERCIOS, referencias.comercioId)) : null,
+      referencias.beneficioId ? getDoc(doc(db, COLLECTIONS.BENEFICIOS, referencias.beneficioId)) : null,
+      referencias.asociacionId
+        ? getDocs(query(
+          collection(db, COLLECTIONS.BENEFICIOS),
+          where('estado', '==', 'activo'),
+          where('asociacionesDisponibles', 'array-contains', referencias.asociacionId),
+          orderBy('creadoEn', 'desc'),
+          limit(BENEFICIOS_EN_PLANTILLA)
+        ))
+        : null,
+    ]);
+
+    if (asociacionDoc?.exists()) contexto.asociacion_nombre = asociacionDoc.data().nombre;
+    if (beneficios) {
+      contexto.beneficios = beneficios.docs.map(beneficioDoc => ({
+        titulo: beneficioDoc.data().titulo,
+        descuento: beneficioDoc.data().descuento,
+        comercio: beneficioDoc.data().comercioNombre,
+      }));
     }
+    // El comercio del beneficio vale si no se indicó uno
+    if (beneficioDoc?.exists()) Object.assign(contexto, contextoBeneficio(beneficioDoc.data()));
+    if (comercioDoc?.exists()) Object.assign(contexto, contextoComercio(comercioDoc.data()));
 
-    return variables;
+    return contexto;
   }
 
   // Update template usage
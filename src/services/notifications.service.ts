@@ -5,10 +5,11 @@ import {
   setDoc,
   serverTimestamp
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { auth, db } from '@/lib/firebase';
 import { simpleNotificationService } from './simple-notifications.service';
 import { NotificationFormData } from '@/types/notification';
 import { SimpleNotificationFormData, SimpleNotificationChannel } from '@/types/simple-notification';
+import { EstadisticasEntrega } from '@/types/entregas';
 
 /**
  * Unified notification service that provides a consistent interface
@@ -47,16 +48,18 @@ class NotificationService {
   }
 
   /**
-   * Create a notification document in Firestore
+   * Create a notification document in Firestore. Con approvalRequestId queda
+   * en 'pending_approval' hasta que se resuelva la solicitud
    */
-  async createNotification(notificationData: NotificationFormData): Promise<string> {
+  async createNotification(notificationData: NotificationFormData, approvalRequestId?: string): Promise<string> {
     try {
       const docRef = await addDoc(collection(db, 'notifications'), {
         title: notificationData.title,
         message: notificationData.message,
         type: notificationData.type || 'info',
         category: notificationData.category || 'general',
-        status: 'pending',
+        status: approvalRequestId ? 'pending_approval' : 'pending',
+        ...(approvalRequestId ? { approvalRequestId } : {}),
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp()
       });
@@ -229,6 +232,28 @@ class NotificationService {
     }
   }
 
+  /**
+   * Estadísticas de entrega confirmadas por los webhooks de los proveedores
+   * para la asociación autenticada
+   */
+  async getDeliveryStats(dias: 7 | 30 | 90 = 30): Promise<EstadisticasEntrega> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch(`/api/notifications/entregas?dias=${dias}`, {
+      headers: { Authorization: `Bearer ${idToken}` },
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Error HTTP ${response.status}`);
+    }
+    return result.estadisticas;
+  }
+
   /**
    * Get service status for debugging
    */
@@ -0,0 +1,285 @@
+import { collection, doc, getDoc, getDocs, query, where, Timestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { evaluateBenefitEligibility } from '@/lib/benefit-eligibility';
+import { BenefitRestrictionCode, checkBenefitSchedule } from '@/lib/benefit-schedule';
+import {
+  offlineValidationStore,
+  EligibilitySnapshot,
+  OfflineBeneficio,
+  OfflineRedencion,
+} from '@/lib/offline-validation-store';
+import { LocalSocioCredential } from './socio-credential.service';
+import { validacionesService } from './validaciones.service';
+
+export interface OfflineValidationRequest {
+  comercioId: string;
+  credencial: LocalSocioCredential;
+  beneficioId: string;
+  medioPago?: string;
+}
+
+export interface OfflineValidationResult {
+  success: boolean;
+  message: string;
+  errorCode?: BenefitRestrictionCode;
+  redencion?: OfflineRedencion;
+}
+
+export interface OfflineSyncResult {
+  sincronizadas: number;
+  conflictos: number;
+}
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+/**
+ * Validación de beneficios sin conexión para comercios.
+ *
+ * Mientras hay conexión se guarda una copia de los beneficios activos. Sin
+ * conexión la credencial del socio se verifica con la clave pública y el
+ * beneficio con el mismo motor de elegibilidad que usa el servidor; la
+ * redención queda en cola y se confirma con validarAcceso al reconectar.
+ * Lo que el servidor rechace (p. ej. limiteTotal superado por validaciones
+ * de otras cajas) queda como conflicto para revisión.
+ */
+class OfflineValidationService {
+  private syncing: Promise<OfflineSyncResult> | null = null;
+
+  /**
+   * Actualiza la copia local de reglas del comercio y sus beneficios activos
+   */
+  async refreshSnapshot(comercioId: string): Promise<EligibilitySnapshot> {
+    const [comercioDoc, beneficiosSnapshot] = await Promise.all([
+      getDoc(doc(db, COLLECTIONS.COMERCIOS, comercioId)),
+      getDocs(query(
+        collection(db, COLLECTIONS.BENEFICIOS),
+        where('comercioId', '==', comercioId),
+        where('estado', '==', 'activo')
+      )),
+    ]);
+
+    if (!comercioDoc.exists()) {
+      throw new Error('Comercio no encontrado');
+    }
+
+    const comercioData = comercioDoc.data();
+    const beneficios: OfflineBeneficio[] = beneficiosSnapshot.docs.map(beneficioDoc => {
+      const data = beneficioDoc.data();
+      return {
+        id: beneficioDoc.id,
+        titulo: data.titulo ?? '',
+        descripcion: data.descripcion ?? '',
+        descuento: data.descuento ?? 0,
+        tipo: data.tipo ?? '',
+        estado: data.estado,
+        tipoAcceso: data.tipoAcceso,
+        asociacionesDisponibles: data.asociacionesDisponibles ?? [],
+        fechaInicio: toDate(data.fechaInicio),
+        fechaFin: toDate(data.fechaFin),
+        limiteTotal: data.limiteTotal,
+        limitePorSocio: data.limitePorSocio,
+        usosActuales: data.usosActuales ?? 0,
+        diasValidez: data.diasValidez,
+        horariosValidez: data.horariosValidez,
+        mediosPagoHabilitados: data.mediosPagoHabilitados,
+      };
+    });
+
+    const snapshot: EligibilitySnapshot = {
+      comercioId,
+      comercio: {
+        nombreComercio: comercioData.nombreComercio || 'Comercio',
+        timezone: comercioData.timezone,
+        asociacionesVinculadas: comercioData.asociacionesVinculadas ?? [],
+      },
+      beneficios,
+      actualizadoEn: new Date(),
+    };
+
+    await offlineValidationStore.saveSnapshot(snapshot);
+    return snapshot;
+  }
+
+  getSnapshot(comercioId: string): Promise<EligibilitySnapshot | null> {
+    return offlineValidationStore.getSnapshot(comercioId);
+  }
+
+  listRedenciones(comercioId: string): Promise<OfflineRedencion[]> {
+    return offlineValidationStore.listRedenciones(comercioId);
+  }
+
+  /**
+   * Valida contra la copia local y encola la redención.
+   * Los usos en cola se suman a usosActuales para no superar los límites
+   * desde esta caja; los de otras cajas solo se detectan al sincronizar.
+   */
+  async validateOffline(request: OfflineValidationRequest): Promise<OfflineValidationResult> {
+    const { comercioId, credencial } = request;
+
+    const snapshot = await offlineValidationStore.getSnapshot(comercioId);
+    if (!snapshot) {
+      return {
+        success: false,
+        message: 'No hay datos guardados para validar sin conexión. Conéctate al menos una vez desde este dispositivo.',
+      };
+    }
+
+    if (credencial.estado && credencial.estado !== 'activo') {
+      return { success: false, message: 'La cuenta del socio no está activa' };
+    }
+
+    const beneficio = snapshot.beneficios.find(item => item.id === request.beneficioId);
+    if (!beneficio) {
+      return {
+        success: false,
+        message: 'El beneficio solicitado no está disponible en este comercio',
+        errorCode: 'BENEFIT_NOT_FOUND',
+      };
+    }
+
+    const enCola = (await offlineValidationStore.listRedenciones(comercioId))
+      .filter(redencion => redencion.estado === 'pendiente' && redencion.beneficioId === beneficio.id);
+    const now = new Date(credencial.capturadoEn);
+
+    const eligibility = evaluateBenefitEligibility({
+      beneficio: { ...beneficio, usosActuales: (beneficio.usosActuales ?? 0) + enCola.length },
+      socioAsociaciones: credencial.asociacionId ? [credencial.asociacionId] : [],
+      comercio: snapshot.comercio,
+      usosDelSocio: beneficio.limitePorSocio
+        ? enCola.filter(redencion => redencion.socioId === credencial.socioId).length
+        : undefined,
+      now,
+    });
+    if (!eligibility.eligible) {
+      return { success: false, message: eligibility.message, errorCode: eligibility.code };
+    }
+
+    const schedule = checkBenefitSchedule(beneficio, {
+      timezone: snapshot.comercio.timezone,
+      medioPago: request.medioPago,
+      now,
+    });
+    if (!schedule.allowed) {
+      return { success: false, message: schedule.message, errorCode: schedule.code };
+    }
+
+    const redencion: OfflineRedencion = {
+      id: credencial.payload.n,
+      comercioId,
+      socioId: credencial.socioId,
+      socioNombre: credencial.nombre,
+      numeroSocio: credencial.numeroSocio,
+      beneficioId: beneficio.id,
+      beneficioTitulo: beneficio.titulo,
+      ...(request.medioPago ? { medioPago: request.medioPago } : {}),
+      token: credencial.token,
+      capturadoEn: credencial.capturadoEn,
+      estado: 'pendiente',
+      intentos: 0,
+    };
+
+    try {
+      await offlineValidationStore.addRedencion(redencion);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'ConstraintError') {
+        return { success: false, message: 'Esta credencial ya fue registrada. Pide al socio que muestre su código actual.' };
+      }
+      throw error;
+    }
+
+    return {
+      success: true,
+      message: 'Beneficio registrado sin conexión. Se confirmará al recuperar la conexión.',
+      redencion,
+    };
+  }
+
+  /**
+   * Confirma en el servidor las redenciones pendientes, en orden de captura.
+   * Si ya hay una sincronización en curso devuelve esa misma.
+   */
+  sync(comercioId: string): Promise<OfflineSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync(comercioId).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Vuelve a encolar un conflicto (p. ej. si falló por un corte de red)
+   */
+  async retryConflict(redencion: OfflineRedencion): Promise<void> {
+    await offlineValidationStore.putRedencion({
+      ...redencion,
+      estado: 'pendiente',
+      conflicto: undefined,
+    });
+  }
+
+  /**
+   * Descarta un conflicto ya revisado por el comercio
+   */
+  async discardConflict(id: string): Promise<void> {
+    await offlineValidationStore.deleteRedencion(id);
+  }
+
+  private async runSync(comercioId: string): Promise<OfflineSyncResult> {
+    const result: OfflineSyncResult = { sincronizadas: 0, conflictos: 0 };
+    const pendientes = (await offlineValidationStore.listRedenciones(comercioId))
+      .filter(redencion => redencion.estado === 'pendiente');
+
+    for (const redencion of pendientes) {
+      if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        break;
+      }
+
+      const response = await validacionesService.validarAcceso({
+        socioId: redencion.socioId,
+        comercioId,
+        beneficioId: redencion.beneficioId,
+        credencialSocio: { token: redencion.token, capturadoEn: redencion.capturadoEn },
+        medioPago: redencion.medioPago,
+      });
+
+      if (response.success) {
+        await offlineValidationStore.deleteRedencion(redencion.id);
+        result.sincronizadas++;
+      } else {
+        await offlineValidationStore.putRedencion({
+          ...redencion,
+          estado: 'conflicto',
+          intentos: redencion.intentos + 1,
+          conflicto: {
+            message: response.message,
+            ...(response.errorCode ? { errorCode: response.errorCode } : {}),
+            detectadoEn: Date.now(),
+          },
+        });
+        result.conflictos++;
+      }
+    }
+
+    if (result.sincronizadas > 0) {
+      await this.refreshSnapshot(comercioId).catch(error =>
+        console.error('Error actualizando beneficios para uso sin conexión:', error)
+      );
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const offlineValidationService = new OfflineValidationService();
+export default offlineValidationService;
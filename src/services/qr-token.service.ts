@@ -0,0 +1,155 @@
+import { auth } from '@/lib/firebase';
+import { QR_CONFIG, getDynamicBaseUrl } from '@/lib/constants';
+import {
+  QRTokenErrorCode,
+  QR_TOKEN_ERROR_MESSAGES,
+  decodeQRToken,
+} from '@/lib/qr-token';
+import { QRData } from '@/types/comercio';
+
+export interface QRTokenIssueResult {
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+export type QRTokenCheckResult =
+  | { valid: true; comercioId: string; beneficioId?: string; expiresAt: Date }
+  | { valid: false; code: QRTokenErrorCode | 'QR_TOKEN_VERIFY_ERROR'; message: string };
+
+class QRTokenService {
+  /**
+   * Solicita al servidor un token firmado para el QR del comercio
+   */
+  async issueToken(
+    comercioId: string,
+    beneficioId?: string,
+    ttlSeconds: number = QR_CONFIG.tokenTtlSeconds
+  ): Promise<QRTokenIssueResult> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Debes iniciar sesión para generar el código QR');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch('/api/qr/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({ comercioId, beneficioId, ttlSeconds }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Error HTTP ${response.status}`);
+    }
+
+    return {
+      token: result.token,
+      url: this.buildValidationUrl(result.token),
+      expiresAt: new Date(result.expiresAt),
+    };
+  }
+
+  /**
+   * Revoca todos los QR emitidos hasta ahora para el comercio (incluidos los
+   * impresos). Los que se generen después siguen siendo válidos
+   */
+  async revokeTokens(comercioId: string): Promise<Date> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Debes iniciar sesión para revocar los códigos QR');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch('/api/qr/revoke', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({ comercioId }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Error HTTP ${response.status}`);
+    }
+
+    return new Date(result.revocadosEn);
+  }
+
+  /**
+   * Verifica un token contra el servidor y, si se indica, que coincida
+   * con el comercio/beneficio esperado
+   */
+  async verifyToken(
+    token: string | null | undefined,
+    expected?: { comercioId?: string; beneficioId?: string }
+  ): Promise<QRTokenCheckResult> {
+    if (!token) {
+      return { valid: false, code: 'QR_TOKEN_MISSING', message: QR_TOKEN_ERROR_MESSAGES.QR_TOKEN_MISSING };
+    }
+
+    try {
+      const response = await fetch('/api/qr/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        return {
+          valid: false,
+          code: result.code || 'QR_TOKEN_VERIFY_ERROR',
+          message: result.error || 'Error al verificar el código QR',
+        };
+      }
+
+      const comercioMismatch = expected?.comercioId && expected.comercioId !== result.comercioId;
+      const beneficioMismatch = result.beneficioId && expected?.beneficioId && expected.beneficioId !== result.beneficioId;
+      if (comercioMismatch || beneficioMismatch) {
+        return { valid: false, code: 'QR_TOKEN_MISMATCH', message: QR_TOKEN_ERROR_MESSAGES.QR_TOKEN_MISMATCH };
+      }
+
+      return {
+        valid: true,
+        comercioId: result.comercioId,
+        beneficioId: result.beneficioId || undefined,
+        expiresAt: new Date(result.expiresAt),
+      };
+    } catch (error) {
+      console.error('❌ Error verificando token QR:', error);
+      return { valid: false, code: 'QR_TOKEN_VERIFY_ERROR', message: 'No se pudo verificar el código QR' };
+    }
+  }
+
+  /**
+   * Extrae comercio y beneficio del token sin verificar la firma
+   */
+  peek(token: string): QRData | null {
+    const payload = decodeQRToken(token);
+    if (!payload) return null;
+
+    return {
+      comercioId: payload.c,
+      beneficioId: payload.b,
+      timestamp: payload.iat * 1000,
+      expiresAt: payload.exp * 1000,
+      signature: token.split('.')[2],
+      token,
+      version: String(payload.v),
+    };
+  }
+
+  buildValidationUrl(token: string): string {
+    return `${getDynamicBaseUrl()}${QR_CONFIG.validationPath}?t=${encodeURIComponent(token)}`;
+  }
+}
+
+// Export singleton instance
+export const qrTokenService = new QRTokenService();
+export default qrTokenService;
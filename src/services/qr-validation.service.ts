@@ -12,12 +12,27 @@ import {
 import { db } from '@/lib/firebase';
 import { COLLECTIONS } from '@/lib/constants';
 import { handleError } from '@/lib/error-handler';
+import { assertBenefitSchedule, isBenefitRestrictionError, BenefitRestrictionError } from '@/lib/benefit-schedule';
+import {
+  assertBenefitEligibility,
+  assertNotPointsReward,
+  countSocioBenefitUses,
+  evaluateBenefitEligibility,
+  getSocioAsociaciones,
+  incrementSocioBenefitUses,
+  readSocioBenefitUses,
+} from '@/lib/benefit-eligibility';
+import { aplicarDescuentoAdicional, calcularMontoDescuento } from '@/lib/loyalty-points';
+import { ReferenciasPlantilla } from '@/types/plantillas';
+import { fidelizacionService } from './fidelizacion.service';
+import { qrTokenService } from './qr-token.service';
 
 export interface QRValidationRequest {
   socioId: string;
   comercioId: string;
   beneficioId?: string;
   asociacionId?: string;
+  qrToken?: string; // Token firmado leído del QR del comercio
   ubicacion?: {
     lat: number;
     lng: number;
@@ -84,6 +99,19 @@ class QRValidationService {
         };
       }
 
+      // Verify signed token before running the transaction
+      const qrCheck = await qrTokenService.verifyToken(request.qrToken, {
+        comercioId,
+        beneficioId: request.beneficioId,
+      });
+      if (!qrCheck.valid) {
+        return {
+          success: false,
+          message: qrCheck.message,
+          error: qrCheck.code
+        };
+      }
+
       // Run transaction to ensure data consistency
       const result = await runTransaction(db, async (transaction) => {
         // 1. Get and validate socio
@@ -118,11 +146,8 @@ class QRValidationService {
           throw new Error('Este comercio no está disponible actualmente');
         }
 
-        // Check if socio's association is linked to this comercio
-        const socioAsociacionId = socioData.asociacionId;
-        if (!comercioData.asociacionesVinculadas?.includes(socioAsociacionId)) {
-          throw new Error('Tu asociación no tiene convenio con este comercio');
-        }
+        const socioAsociacionId = socioData.asociacionId || null;
+        const socioAsociaciones = getSocioAsociaciones(socioData);
 
         // 3. Get available benefits for this comercio and association
         const beneficiosQuery = query(
@@ -132,7 +157,7 @@ class QRValidationService {
         );
         const beneficiosSnapshot = await getDocs(beneficiosQuery);
         
-        // Filter benefits by association if needed
+        // Filtrar con el motor de elegibilidad (tipo de acceso, convenio, vigencia y cupo)
         interface Beneficio {
           id: string;
           titulo: string;
@@ -143,18 +168,29 @@ class QRValidationService {
           asociacionesDisponibles?: string[];
         }
 
-        const availableBeneficios = beneficiosSnapshot.docs
-          .map(docSnap => {
-            const data = docSnap.data();
-            return { id: docSnap.id, ...data } as Beneficio;
-          })
-          .filter((beneficio: Beneficio) => 
-            !beneficio.asociacionesDisponibles || 
-            beneficio.asociacionesDisponibles.includes(socioAsociacionId)
-          );
+        if (beneficiosSnapshot.empty) {
+          throw new Error('No hay beneficios disponibles para este comercio');
+        }
+
+        const evaluaciones = beneficiosSnapshot.docs.map(docSnap => ({
+          beneficio: { id: docSnap.id, ...docSnap.data() } as Beneficio,
+          result: evaluateBenefitEligibility({
+            beneficio: docSnap.data(),
+            socioAsociaciones,
+            comercio: comercioData,
+          }),
+        }));
+
+        const availableBeneficios = evaluaciones
+          .filter(evaluacion => evaluacion.result.eligible)
+          .map(evaluacion => evaluacion.beneficio);
 
         if (availableBeneficios.length === 0) {
-          throw new Error('No hay beneficios disponibles para este comercio');
+          // Informar el motivo del primer beneficio rechazado
+          const rechazo = evaluaciones[0].result;
+          if (!rechazo.eligible) {
+            throw new BenefitRestrictionError(rechazo.code, rechazo.message);
+          }
         }
 
         // 4. Create validation record
@@ -239,7 +275,7 @@ class QRValidationService {
       return {
         success: false,
         message: error instanceof Error ? error.message : 'Error desconocido al validar el código QR',
-        error: 'VALIDATION_ERROR'
+        error: isBenefitRestrictionError(error) ? error.code : 'VALIDATION_ERROR'
       };
     }
   }
@@ -250,7 +286,8 @@ class QRValidationService {
   async useBenefit(
     validacionId: string,
     beneficioId: string,
-    montoCompra?: number
+    montoCompra?: number,
+    medioPago?: string
   ): Promise<QRValidationResponse> {
     try {
       // Run transaction to ensure data consistency
@@ -276,50 +313,46 @@ class QRValidationService {
         }
         const beneficioData = beneficioDoc.data();
 
-        // Check if benefit is active
-        if (beneficioData.estado !== 'activo') {
-          throw new Error('Este beneficio no está disponible actualmente');
-        }
+        const comercioRef = doc(db, this.comerciosCollection, validacionData.comercioId);
+        const comercioDoc = await transaction.get(comercioRef);
+        const comercioData = comercioDoc.exists() ? comercioDoc.data() : null;
 
-        // Check if benefit is available for this socio's association
-        const socioAsociacionId = validacionData.asociacionId;
-        if (
-          beneficioData.asociacionesDisponibles && 
-          beneficioData.asociacionesDisponibles.length > 0 &&
-          !beneficioData.asociacionesDisponibles.includes(socioAsociacionId)
-        ) {
-          throw new Error('Este beneficio no está disponible para tu asociación');
-        }
+        // Elegibilidad: asociación, convenio, vigencia y límites
+        const socioId = validacionData.socioId;
+        const socioAsociacionId = validacionData.asociacionId || null;
+        const usosDelSocio = beneficioData.limitePorSocio
+          ? await readSocioBenefitUses(transaction, {
+              beneficioId,
+              socioId,
+              historial: await countSocioBenefitUses({ beneficioId, socioId, comercioId: validacionData.comercioId }),
+            })
+          : undefined;
+        assertBenefitEligibility({
+          beneficio: beneficioData,
+          socioAsociaciones: getSocioAsociaciones({ asociacionId: socioAsociacionId }),
+          comercio: comercioData,
+          usosDelSocio,
+        });
 
-        // Check if benefit has reached its total limit
-        if (
-          beneficioData.limiteTotal && 
-          beneficioData.usosActuales >= beneficioData.limiteTotal
-        ) {
-          throw new Error('Este beneficio ha alcanzado su límite de usos');
-        }
+        // Días, horario y medio de pago se evalúan en la zona horaria del comercio
+        assertBenefitSchedule(beneficioData, {
+          timezone: comercioData?.timezone,
+          medioPago,
+        });
+        assertNotPointsReward(beneficioData);
 
-        // Check if socio has reached their limit for this benefit
-        const socioId = validacionData.socioId;
-        const socioUsosQuery = query(
-          collection(db, this.validacionesCollection),
-          where('socioId', '==', socioId),
-          where('beneficioUsado.id', '==', beneficioId)
-        );
-        const socioUsosSnapshot = await getDocs(socioUsosQuery);
-        
-        if (
-          beneficioData.limitePorSocio && 
-          socioUsosSnapshot.size >= beneficioData.limitePorSocio
-        ) {
-          throw new Error(`Has alcanzado el límite de usos (${beneficioData.limitePorSocio}) para este beneficio`);
-        }
+        // Fidelización: el nivel del socio suma un descuento adicional
+        const socioRef = doc(db, COLLECTIONS.SOCIOS, socioId);
+        const socioDoc = await transaction.get(socioRef);
+        const socioData = socioDoc.exists() ? socioDoc.data() : null;
+        const descuentoAdicional: number = socioData?.nivel?.descuentoAdicional ?? 0;
 
         // Calculate discount amount
         const montoDescuento = this.calculateDiscountAmount(
           beneficioData.tipo,
           beneficioData.descuento,
-          montoCompra
+          montoCompra,
+          descuentoAdicional
         );
 
         // Generate usage code
@@ -330,13 +363,16 @@ class QRValidationService {
           beneficioUsado: {
             id: beneficioId,
             titulo: beneficioData.titulo,
-            descuento: beneficioData.descuento,
+            descuento: aplicarDescuentoAdicional(beneficioData.tipo, beneficioData.descuento, descuentoAdicional),
+            descuentoBase: beneficioData.descuento,
+            descuentoAdicionalNivel: descuentoAdicional,
             tipo: beneficioData.tipo
           },
           montoDescuento,
           codigoUso: usageCode,
           fechaUso: serverTimestamp(),
-          montoCompra: montoCompra || 0
+          montoCompra: montoCompra || 0,
+          medioPago: medioPago ?? null
         });
 
         // 4. Update benefit usage count
@@ -345,11 +381,34 @@ class QRValidationService {
           'metadata.ultimoUso': serverTimestamp()
         });
 
+        if (usosDelSocio !== undefined) {
+          incrementSocioBenefitUses(transaction, { beneficioId, socioId }, usosDelSocio);
+        }
+
+        // Registrar en el historial de usos, que también cuenta para limitePorSocio
+        transaction.set(doc(collection(db, COLLECTIONS.BENEFICIO_USOS)), {
+          beneficioId,
+          beneficioTitulo: beneficioData.titulo,
+          socioId,
+          socioNombre: validacionData.socioNombre || 'Socio',
+          comercioId: validacionData.comercioId,
+          comercioNombre: validacionData.comercioNombre || 'Comercio',
+          asociacionId: socioAsociacionId,
+          asociacionNombre: validacionData.asociacionNombre || null,
+          fechaUso: serverTimestamp(),
+          montoOriginal: montoCompra ?? null,
+          montoDescuento,
+          estado: 'usado',
+          validacionId,
+          codigoValidacion: usageCode,
+          metodoPago: medioPago ?? 'qr_validation',
+          origenValidacion: 'qr_scanner',
+          creadoEn: serverTimestamp(),
+          actualizadoEn: serverTimestamp()
+        });
+
         // 5. Update comercio stats
-        const comercioRef = doc(db, this.comerciosCollection, validacionData.comercioId);
-        const comercioDoc = await transaction.get(comercioRef);
-        if (comercioDoc.exists()) {
-          const comercioData = comercioDoc.data();
+        if (comercioData) {
           transaction.update(comercioRef, {
             ingresosMensuales: (comercioData.ingresosMensuales || 0) + (montoCompra || 0)
           });
@@ -358,7 +417,12 @@ class QRValidationService {
         // 6. Send automatic "Beneficio usado" notification
         try {
           await this.sendBenefitUsedNotification(
-            validacionData.socioId,
+            {
+              socioId: validacionData.socioId,
+              asociacionId: socioAsociacionId ?? undefined,
+              comercioId: validacionData.comercioId,
+              beneficioId,
+            },
             validacionData.socioNombre,
             beneficioData.titulo,
             validacionData.comercioNombre,
@@ -384,7 +448,7 @@ class QRValidationService {
               id: beneficioId,
               titulo: beneficioData.titulo,
               descripcion: beneficioData.descripcion,
-              descuento: beneficioData.descuento,
+              descuento: aplicarDescuentoAdicional(beneficioData.tipo, beneficioData.descuento, descuentoAdicional),
               tipo: beneficioData.tipo,
               condiciones: beneficioData.condiciones
             },
@@ -404,13 +468,20 @@ class QRValidationService {
         };
       });
 
+      // Puntos por el uso y, si corresponde, por la racha: los acredita el servidor
+      try {
+        await fidelizacionService.acreditarValidacion(validacionId);
+      } catch (puntosError) {
+        console.warn('⚠️ Error acreditando puntos del beneficio usado:', puntosError);
+      }
+
       return result;
     } catch (error) {
       console.error('Error using benefit:', error);
       return {
         success: false,
         message: error instanceof Error ? error.message : 'Error desconocido al aplicar el beneficio',
-        error: 'BENEFIT_USAGE_ERROR'
+        error: isBenefitRestrictionError(error) ? error.code : 'BENEFIT_USAGE_ERROR'
       };
     }
   }
@@ -555,7 +626,7 @@ class QRValidationService {
    * Send automatic benefit used notification
    */
   private async sendBenefitUsedNotification(
-    socioId: string,
+    referencias: ReferenciasPlantilla & { socioId: string },
     socioNombre: string,
     beneficioTitulo: string,
     comercioNombre: string,
@@ -568,34 +639,25 @@ class QRValidationService {
       const { notificationTemplatesService } = await import('./notification-templates.service');
       const { notificationQueueService } = await import('./notification-queue.service');
 
-      // Buscar plantilla "Beneficio Usado"
-      const templates = await notificationTemplatesService.getTemplates(false);
-      const template = templates.find(t => t.name === 'Beneficio Usado' && t.isSystem);
-
-      if (!template) {
-        console.warn('⚠️ Plantilla "Beneficio Usado" no encontrada');
-        return;
-      }
-
-      // Renderizar plantilla con variables
-      const title = notificationTemplatesService.parseTemplate(template.title, {
-        socio_nombre: socioNombre,
-        beneficio_titulo: beneficioTitulo,
-        comercio_nombre: comercioNombre,
-        descuento,
-      });
+      // Plantilla "Beneficio Usado" con los datos del socio y del beneficio
+      const preparado = await notificationTemplatesService.prepararEnvioAutomatico(
+        'Beneficio Usado',
+        referencias,
+        {
+          socio_nombre: socioNombre,
+          beneficio_titulo: beneficioTitulo,
+          comercio_nombre: comercioNombre,
+          descuento,
+        }
+      );
+      if (!preparado) return;
 
-      const message = notificationTemplatesService.parseTemplate(template.message, {
-        socio_nombre: socioNombre,
-        beneficio_titulo: beneficioTitulo,
-        comercio_nombre: comercioNombre,
-        descuento,
-      });
+      const { template, envio } = preparado;
+      const socioId = referencias.socioId;
 
       // Crear datos de notificación
       const notificationData = {
-        title,
-        message,
+        ...envio,
         type: template.type,
         category: template.category,
         recipientIds: [socioId],
@@ -645,20 +707,10 @@ class QRValidationService {
   private calculateDiscountAmount(
     tipo: string,
     descuento: number,
-    montoCompra?: number
+    montoCompra?: number,
+    descuentoAdicional: number = 0
   ): number {
-    if (!montoCompra) return 0;
-
-    switch (tipo) {
-      case 'porcentaje':
-        return (montoCompra * descuento) / 100;
-      case 'monto_fijo':
-        return descuento;
-      case 'producto_gratis':
-        return 0; // No monetary discount for free product
-      default:
-        return 0;
-    }
+    return calcularMontoDescuento(tipo, descuento, montoCompra, descuentoAdicional);
   }
 }
 
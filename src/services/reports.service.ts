@@ -13,7 +13,12 @@ import {
   Timestamp,
   getDoc
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { auth, db } from '@/lib/firebase';
+import { COLLECTIONS } from '@/lib/constants';
+import { parsearDestinatarios, proximoEnvioReporte } from '@/lib/report-schedule';
+import { cohortesService } from '@/services/cohortes.service';
+import { AnalisisCohortes } from '@/types/cohortes';
+import { ReportFile, ReportFileFormat, ReportFrequency, ReportSchedule } from '@/types/reports';
 import { format } from 'date-fns';
 import { Socio } from '@/types/socio';
 import { Validacion } from '@/types/validacion';
@@ -41,6 +46,21 @@ export interface ReportData {
   data?: unknown;
   progress?: number;
   errorMessage?: string;
+  // Reportes generados por un envío programado
+  origin?: 'manual' | 'scheduled';
+  scheduleId?: string;
+  files?: ReportFile[];
+  emailedTo?: string[];
+}
+
+export interface NuevoReporteProgramado {
+  templateId: string;
+  templateTitle: string;
+  userId: string;
+  asociacionId: string;
+  frequency: ReportFrequency;
+  formats: ReportFileFormat[];
+  recipientsText: string;
 }
 
 export interface ReportTemplate {
@@ -167,6 +187,9 @@ export interface CommunicationReportData {
   notificacionesEnviadas: number;
 }
 
+// Retención por cohortes y valor de vida por plan
+export type CohortReportData = AnalisisCohortes;
+
 // Union type for all report data types
 export type ReportDataUnion = 
   | MemberReportData
@@ -176,7 +199,8 @@ export type ReportDataUnion =
   | FinancialReportData
   | DemographicReportData
   | EngagementReportData
-  | CommunicationReportData;
+  | CommunicationReportData
+  | CohortReportData;
 
 export interface ChartData {
   type: 'line' | 'bar' | 'pie' | 'doughnut';
@@ -321,6 +345,9 @@ class ReportsService {
       case 'communication-report':
         return await this.fetchCommunicationData(asociacionId, startDate, endDate);
       
+      case 'cohort-analysis':
+        return await cohortesService.getAnalisis(asociacionId);
+      
       default:
         throw new Error('Template no encontrado');
     }
@@ -688,6 +715,15 @@ class ReportsService {
         return `Reporte de comunicación: ${communicationData.totalNotificaciones} notificaciones totales, ${communicationData.notificacionesEnviadas} enviadas exitosamente.`;
       }
       
+      case 'cohort-analysis': {
+        const cohortData = data as CohortReportData;
+        const retencionTercerMes = cohortData.curvaPromedio[3];
+        return `Análisis de cohortes: ${cohortData.sociosAnalizados} socios con una permanencia promedio de ${cohortData.permanenciaPromedioMeses.toFixed(1)} meses` +
+          (retencionTercerMes !== null && retencionTercerMes !== undefined
+            ? ` y ${(retencionTercerMes * 100).toFixed(1)}% pagando la cuota al tercer mes.`
+            : '. Todavía no hay cuotas suficientes para medir la retención al tercer mes.');
+      }
+      
       default:
         return 'Reporte generado exitosamente.';
     }
@@ -733,6 +769,26 @@ class ReportsService {
         };
       }
       
+      case 'cohort-analysis': {
+        const cohortData = data as CohortReportData;
+        return {
+          type: 'line',
+          data: cohortData.curvaPromedio.map((retencion, mes) => ({
+            x: `Mes ${mes}`,
+            y: retencion === null ? null : Math.round(retencion * 1000) / 10
+          })),
+          options: {
+            responsive: true,
+            plugins: {
+              title: {
+                display: true,
+                text: 'Retención por Mes desde el Ingreso'
+              }
+            }
+          }
+        };
+      }
+      
       default:
         return {
           type: 'line',
@@ -819,8 +875,13 @@ class ReportsService {
   }
 
   // Delete report
-  async deleteReport(reportId: string): Promise<void> {
+  // Los reportes con archivos en Storage se eliminan desde el servidor
+  async deleteReport(reportId: string, hasFiles = false): Promise<void> {
     try {
+      if (hasFiles) {
+        await this.reportApiRequest(reportId, { method: 'DELETE' });
+        return;
+      }
       await deleteDoc(doc(db, this.reportsCollection, reportId));
     } catch (error) {
       console.error('Error deleting report:', error);
@@ -828,6 +889,83 @@ class ReportsService {
     }
   }
 
+  // Envíos programados de la asociación
+  subscribeToSchedules(asociacionId: string, callback: (schedules: ReportSchedule[]) => void): () => void {
+    const schedulesQuery = query(
+      collection(db, COLLECTIONS.REPORT_SCHEDULES),
+      where('asociacionId', '==', asociacionId),
+      orderBy('createdAt', 'desc')
+    );
+
+    return onSnapshot(schedulesQuery, (snapshot) => {
+      callback(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as ReportSchedule[]);
+    });
+  }
+
+  async createSchedule(nuevo: NuevoReporteProgramado): Promise<string> {
+    const destinatarios = parsearDestinatarios(nuevo.recipientsText);
+    if (!destinatarios.ok) {
+      throw new Error(destinatarios.error);
+    }
+    if (nuevo.formats.length === 0) {
+      throw new Error('Elegí al menos un formato');
+    }
+
+    const docRef = await addDoc(collection(db, COLLECTIONS.REPORT_SCHEDULES), {
+      templateId: nuevo.templateId,
+      templateTitle: nuevo.templateTitle,
+      userId: nuevo.userId,
+      asociacionId: nuevo.asociacionId,
+      frequency: nuevo.frequency,
+      formats: nuevo.formats,
+      recipients: destinatarios.recipients,
+      isActive: true,
+      nextRun: Timestamp.fromDate(proximoEnvioReporte(nuevo.frequency)),
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+    return docRef.id;
+  }
+
+  // Al reactivar un envío se recalcula el próximo para no mandar los atrasados
+  async setScheduleActive(schedule: ReportSchedule, isActive: boolean): Promise<void> {
+    await updateDoc(doc(db, COLLECTIONS.REPORT_SCHEDULES, schedule.id), {
+      isActive,
+      ...(isActive ? { nextRun: Timestamp.fromDate(proximoEnvioReporte(schedule.frequency)) } : {}),
+      updatedAt: Timestamp.now(),
+    });
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await deleteDoc(doc(db, COLLECTIONS.REPORT_SCHEDULES, scheduleId));
+  }
+
+  // Archivo de un reporte programado
+  async downloadReportFile(reportId: string, file: ReportFile): Promise<Blob> {
+    const response = await this.reportApiRequest(`${reportId}?format=${file.format}`);
+    return response.blob();
+  }
+
+  // Llamada a /api/reports con el ID token del usuario
+  private async reportApiRequest(ruta: string, init: RequestInit = {}): Promise<Response> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch(`/api/reports/${ruta}`, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${idToken}` },
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => null) as { error?: string } | null;
+      throw new Error(result?.error || `Error HTTP ${response.status}`);
+    }
+    return response;
+  }
+
   // Get analytics metrics
   async getAnalyticsMetrics(asociacionId: string, startDate: Date, endDate: Date): Promise<AnalyticsMetrics> {
     const memberData = await this.fetchMemberData(asociacionId, startDate, endDate);
@@ -20,6 +20,9 @@ import {
 } from '@/types/simple-notification';
 import emailjs from '@emailjs/browser';
 import { validateAndFormatPhone, formatPhoneForDisplay } from '@/utils/phone-validator';
+import { renderizarEmail } from '@/lib/email-layout';
+import { EmailRenderizado } from '@/types/email';
+import { emailBrandingService } from './email-branding.service';
 
 // Servicio de Email con EmailJS - CONFIGURADO
 class SimpleEmailService {
@@ -38,7 +41,9 @@ class SimpleEmailService {
     }
   }
 
-  async sendEmail(to: string, subject: string, message: string, asociacionName?: string): Promise<boolean> {
+  // El email ya viene armado con el diseño de la marca: el template de
+  // EmailJS tiene que usar {{{message_html}}} y {{message}} como alternativa
+  async sendEmail(to: string, email: EmailRenderizado, remitente?: string): Promise<boolean> {
     if (!this.serviceId || !this.templateId || !this.publicKey) {
       console.warn('📧 EmailJS credentials not configured');
       console.warn('Missing:', {
@@ -51,18 +56,19 @@ class SimpleEmailService {
 
     try {
       console.log(`📧 Cliente: Enviando email a: ${to}`);
-      console.log(`📧 Cliente: Subject: ${subject}`);
-      console.log(`📧 Cliente: Asociación: ${asociacionName || 'No especificada'}`);
-      console.log(`📧 Cliente: Message preview: ${message.substring(0, 150)}...`);
+      console.log(`📧 Cliente: Subject: ${email.asunto}`);
+      console.log(`📧 Cliente: Remitente: ${remitente || 'No especificado'}`);
+      console.log(`📧 Cliente: Message preview: ${email.texto.substring(0, 150)}...`);
       
       // Parámetros para el template de EmailJS
       const templateParams = {
         to_email: to,
-        title: subject,
-        message: message,
-        from_name: asociacionName || 'Fidelya', // USAR NOMBRE DE ASOCIACIÓN COMO REMITENTE
+        title: email.asunto,
+        message: email.texto,
+        message_html: email.html,
+        from_name: remitente || 'Fidelya', // USAR NOMBRE DE ASOCIACIÓN COMO REMITENTE
         reply_to: 'noreply@fidelya.com.ar',
-        asociacion_name: asociacionName || 'Tu Asociación' // PARÁMETRO ADICIONAL PARA EL TEMPLATE
+        asociacion_name: remitente || 'Tu Asociación' // PARÁMETRO ADICIONAL PARA EL TEMPLATE
       };
 
       console.log(`📧 Cliente: Template params enviados a EmailJS:`, {
@@ -71,7 +77,8 @@ class SimpleEmailService {
         from_name: templateParams.from_name,
         asociacion_name: templateParams.asociacion_name,
         reply_to: templateParams.reply_to,
-        messageLength: templateParams.message.length
+        messageLength: templateParams.message.length,
+        htmlLength: templateParams.message_html.length
       });
 
       const response = await emailjs.send(
@@ -381,10 +388,12 @@ export class SimpleNotificationService {
     }
   }
 
-  // Crear notificación
+  // Crear notificación. Con approvalRequestId queda esperando aprobación y
+  // la envía la cola cuando se aprueba
   async createNotification(
     data: SimpleNotificationFormData,
-    createdBy: string
+    createdBy: string,
+    approvalRequestId?: string
   ): Promise<string> {
     try {
       // Clean the data to remove undefined values and ensure all required fields exist
@@ -395,7 +404,8 @@ export class SimpleNotificationService {
         channels: data.channels || [],
         recipientIds: data.recipientIds || [],
         createdBy: createdBy || '',
-        status: 'draft' as const,
+        status: approvalRequestId ? 'pending_approval' as const : 'draft' as const,
+        ...(approvalRequestId ? { approvalRequestId } : {}),
         createdAt: serverTimestamp()
       };
 
@@ -466,6 +476,18 @@ export class SimpleNotificationService {
         return { ...recipient, phoneValid: false };
       });
 
+      // El email es el mismo para todos: se arma una vez con la marca de la asociación
+      const marca = data.channels.includes('email')
+        ? await emailBrandingService.getMarca(data.asociacionId)
+        : null;
+      const email = marca
+        ? renderizarEmail({
+            asunto: data.cuerpos?.emailAsunto || data.title,
+            mensaje: data.message,
+            html: data.cuerpos?.emailHtml,
+          }, marca)
+        : null;
+
       // Enviar por cada canal seleccionado
       for (const recipient of recipientsWithValidatedPhones) {
         console.log(`👤 Procesando destinatario: ${recipient.name} (${recipient.type})`);
@@ -476,12 +498,8 @@ export class SimpleNotificationService {
 
             switch (channel) {
               case 'email':
-                if (recipient.email) {
-                  sent = await this.emailService.sendEmail(
-                    recipient.email,
-                    data.title,
-                    data.message
-                  );
+                if (recipient.email && email) {
+                  sent = await this.emailService.sendEmail(recipient.email, email, marca?.nombre);
                   if (sent) {
                     console.log(`✅ Email enviado a ${recipient.name} (${recipient.email})`);
                   } else {
@@ -498,7 +516,7 @@ export class SimpleNotificationService {
                   // Pasar el título para el branding personalizado
                   sent = await this.whatsappService.sendWhatsApp(
                     recipient.phone,
-                    data.message,
+                    data.cuerpos?.whatsapp || data.message,
                     data.title
                   );
                   if (sent) {
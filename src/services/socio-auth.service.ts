@@ -242,41 +242,20 @@ class SocioAuthService {
       // Importar servicios dinámicamente para evitar dependencias circulares
       const { notificationTemplatesService } = await import('./notification-templates.service');
       const { notificationQueueService } = await import('./notification-queue.service');
-      const { doc, getDoc } = await import('firebase/firestore');
-      const { db } = await import('@/lib/firebase');
-
-      // Obtener nombre de la asociación
-      const asociacionDoc = await getDoc(doc(db, 'asociaciones', asociacionId));
-      const asociacionNombre = asociacionDoc.exists() 
-        ? asociacionDoc.data().nombre || 'Tu Asociación'
-        : 'Tu Asociación';
-
-      // Buscar plantilla "Creación de cuenta"
-      const templates = await notificationTemplatesService.getTemplates(false);
-      const template = templates.find(t => t.name === 'Creación de cuenta' && t.isSystem);
-
-      if (!template) {
-        console.warn('⚠️ Plantilla "Creación de cuenta" no encontrada');
-        return;
-      }
 
-      // Renderizar plantilla con variables
-      const title = notificationTemplatesService.parseTemplate(template.title, {
-        socio_nombre: socioNombre,
-        asociacion_nombre: asociacionNombre,
-        numero_socio: numeroSocio,
-      });
+      // Plantilla de la asociación (o la del sistema) con los datos del socio
+      const preparado = await notificationTemplatesService.prepararEnvioAutomatico(
+        'Creación de cuenta',
+        { socioId, asociacionId },
+        { socio_nombre: socioNombre, numero_socio: numeroSocio }
+      );
+      if (!preparado) return;
 
-      const message = notificationTemplatesService.parseTemplate(template.message, {
-        socio_nombre: socioNombre,
-        asociacion_nombre: asociacionNombre,
-        numero_socio: numeroSocio,
-      });
+      const { template, envio } = preparado;
 
       // Crear datos de notificación
       const notificationData = {
-        title,
-        message,
+        ...envio,
         type: template.type,
         category: template.category,
         recipientIds: [socioId],
@@ -0,0 +1,139 @@
+import { auth } from '@/lib/firebase';
+import {
+  SOCIO_CREDENTIAL_ERROR_MESSAGES,
+  SocioCredentialPayload,
+  getSocioCredentialPublicKey,
+  verifySocioCredential,
+} from '@/lib/qr-token';
+
+export interface SocioCredential {
+  token: string;
+  code: string;
+  expiresAt: Date;
+}
+
+export interface ResolvedSocioCredential {
+  socioId: string;
+  asociacionId: string | null;
+  nombre: string;
+  numeroSocio: string | null;
+  estadoMembresia: string | null;
+  expiresAt: Date;
+}
+
+// Lo que el comercio captura: el QR escaneado o el código tipeado.
+// capturadoEn (ms) identifica una credencial verificada sin conexión que se sincroniza después.
+export type SocioCredentialInput = { token: string; capturadoEn?: number } | { code: string };
+
+// Credencial verificada en el dispositivo del comercio, sin consultar al servidor
+export interface LocalSocioCredential {
+  token: string;
+  payload: SocioCredentialPayload;
+  socioId: string;
+  asociacionId: string | null;
+  nombre: string;
+  numeroSocio: string | null;
+  estado: string | null;
+  capturadoEn: number;
+}
+
+class SocioCredentialService {
+  /**
+   * Emite una credencial nueva para el socio autenticado, o para uno de sus
+   * dependientes si se indica socioId
+   */
+  async issueCredential(socioId?: string): Promise<SocioCredential> {
+    const result = await this.post('/api/socio-credential', socioId ? { socioId } : {});
+
+    return {
+      token: result.token,
+      code: result.code,
+      expiresAt: new Date(result.expiresAt),
+    };
+  }
+
+  /**
+   * Resuelve la identidad del socio a partir de su credencial, sin
+   * consumirla: la consume el servidor al autorizar la validación
+   */
+  async resolveCredential(input: SocioCredentialInput): Promise<ResolvedSocioCredential> {
+    const result = await this.post('/api/socio-credential/verify', input);
+
+    return {
+      socioId: result.socioId,
+      asociacionId: result.asociacionId,
+      nombre: result.nombre,
+      numeroSocio: result.numeroSocio,
+      estadoMembresia: result.estadoMembresia,
+      expiresAt: new Date(result.expiresAt),
+    };
+  }
+
+  /**
+   * Verifica la firma y vigencia del QR del socio con la clave pública, sin red.
+   * El código de 6 dígitos no se puede verificar así: solo lo conoce el servidor.
+   */
+  async verifyLocally(token: string, now: number = Date.now()): Promise<LocalSocioCredential> {
+    const result = await verifySocioCredential(token, getSocioCredentialPublicKey(), now);
+    if (!result.valid) {
+      throw new Error(SOCIO_CREDENTIAL_ERROR_MESSAGES[result.code]);
+    }
+
+    const { payload } = result;
+    return {
+      token,
+      payload,
+      socioId: payload.s,
+      asociacionId: payload.a ?? null,
+      nombre: payload.nm || 'Socio sin nombre',
+      numeroSocio: payload.ns ?? null,
+      estado: payload.st ?? null,
+      capturadoEn: now,
+    };
+  }
+
+  /**
+   * Interpreta lo que ingresa el cajero: un QR de credencial o un código de 6 dígitos
+   */
+  parseInput(raw: string): SocioCredentialInput | null {
+    const value = raw.trim();
+
+    if (/^\d{6}$/.test(value.replace(/\s/g, ''))) {
+      return { code: value.replace(/\s/g, '') };
+    }
+
+    if (value.startsWith('FS')) {
+      return { token: value };
+    }
+
+    return null;
+  }
+
+  private async post(url: string, body: Record<string, unknown>) {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Error HTTP ${response.status}`);
+    }
+
+    return result;
+  }
+}
+
+// Export singleton instance
+export const socioCredentialService = new SocioCredentialService();
+export default socioCredentialService;
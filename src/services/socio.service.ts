@@ -16,7 +16,10 @@ import {
 import { db } from '@/lib/firebase';
 import { COLLECTIONS } from '@/lib/constants';
 import { handleError } from '@/lib/error-handler';
+import { derivarEstadoMembresia } from '@/lib/cuotas';
 import { Socio, SocioStats, SocioActivity, SocioFormData } from '@/types/socio';
+import { cuotasService, RegistrarPagoOptions } from './cuotas.service';
+import { eventosDominioService } from './eventos-dominio.service';
 
 export interface SocioFilters {
   estado?: string;
@@ -328,6 +331,13 @@ class SocioService {
         
         console.log('📧 Estado de emails:', emailStatusMessage);
 
+        await eventosDominioService.publicar('user_registered', {
+          socioId: result.uid,
+          asociacionId,
+          nombre: data.nombre,
+          email: data.email || null,
+        }, { userId: result.uid, asociacionId });
+
         return {
           success: true,
           socioId: result.uid,
@@ -1080,17 +1090,17 @@ class SocioService {
       const activos = socios.filter(s => s.estado === 'activo').length;
       const inactivos = socios.filter(s => s.estado === 'inactivo').length;
       
-      // Calcular estados de membresía verificando fechas de vencimiento
+      // Calcular estados de membresía a partir del saldo de cuotas
       let alDia = 0;
       let vencidos = 0;
       let pendientes = 0;
 
       socios.forEach(socio => {
-        const fechaVencimiento = socio.fechaVencimiento?.toDate();
-        
-        if (!fechaVencimiento) {
+        const estado = derivarEstadoMembresia(socio, now);
+
+        if (estado === 'pendiente') {
           pendientes++;
-        } else if (fechaVencimiento < now) {
+        } else if (estado === 'vencido') {
           vencidos++;
         } else {
           alDia++;
@@ -1099,10 +1109,7 @@ class SocioService {
 
       // Calcular ingresos mensuales solo de socios activos y al día
       const ingresosMensuales = socios
-        .filter(s => {
-          const fechaVencimiento = s.fechaVencimiento?.toDate();
-          return s.estado === 'activo' && fechaVencimiento && fechaVencimiento >= now;
-        })
+        .filter(s => s.estado === 'activo' && derivarEstadoMembresia(s, now) === 'al_dia')
         .reduce((total, s) => total + (s.montoCuota || 0), 0);
 
       // Calcular beneficios usados
@@ -1163,9 +1170,8 @@ class SocioService {
 
       snapshot.docs.forEach(docSnapshot => {
         const data = docSnapshot.data();
-        const fechaVencimiento = data.fechaVencimiento?.toDate();
 
-        if (fechaVencimiento && fechaVencimiento < now && data.estadoMembresia !== 'vencido') {
+        if (derivarEstadoMembresia(data, now) === 'vencido' && data.estadoMembresia !== 'vencido') {
           batch.update(docSnapshot.ref, {
             estadoMembresia: 'vencido',
             actualizadoEn: serverTimestamp(),
@@ -1187,34 +1193,36 @@ class SocioService {
   }
 
   /**
-   * Register payment for socio
+   * Register payment for socio. El monto se imputa a las cuotas adeudadas;
+   * si no viene monto se cobran `months` cuotas del socio.
    */
-  async registerPayment(socioId: string, _amount: number, months: number = 1): Promise<boolean> {
+  async registerPayment(
+    socioId: string,
+    amount: number,
+    months: number = 1,
+    options: RegistrarPagoOptions = {}
+  ): Promise<boolean> {
     try {
-      const socioRef = doc(db, this.collection, socioId);
-      const socioDoc = await getDoc(socioRef);
-
-      if (!socioDoc.exists()) {
-        throw new Error('Socio no encontrado');
-      }
-
-      const socioData = socioDoc.data();
-      const now = new Date();
-      
-      // Calculate new expiration date
-      let fechaVencimiento = socioData.fechaVencimiento?.toDate() || now;
-      if (fechaVencimiento < now) {
-        fechaVencimiento = now;
+      let monto = amount;
+      if (!(monto > 0)) {
+        const socioDoc = await getDoc(doc(db, this.collection, socioId));
+        if (!socioDoc.exists()) {
+          throw new Error('Socio no encontrado');
+        }
+        monto = (Number(socioDoc.data().montoCuota) || 0) * months;
       }
-      
-      fechaVencimiento.setMonth(fechaVencimiento.getMonth() + months);
 
-      await updateDoc(socioRef, {
-        ultimoPago: serverTimestamp(),
-        fechaVencimiento: Timestamp.fromDate(fechaVencimiento),
-        estadoMembresia: 'al_dia',
-        actualizadoEn: serverTimestamp(),
-      });
+      const pago = await cuotasService.registrarPago(socioId, monto, options);
+
+      await eventosDominioService.publicar('payment_received', {
+        socioId,
+        asociacionId: pago.asociacionId,
+        monto: pago.monto,
+        medioPago: pago.medioPago,
+        numeroRecibo: pago.numeroRecibo,
+        deudaPosterior: pago.deudaPosterior,
+        origen: 'manual',
+      }, { userId: socioId, asociacionId: pago.asociacionId });
 
       console.log('✅ Payment registered successfully for socio:', socioId);
       return true;
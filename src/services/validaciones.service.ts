@@ -11,15 +11,45 @@ import {
   limit,
   Timestamp,
 } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { auth, db } from '@/lib/firebase';
 import { COLLECTIONS } from '@/lib/constants';
 import { handleError } from '@/lib/error-handler';
+import {
+  assertBenefitEligibility,
+  assertNotPointsReward,
+  countSocioBenefitUses,
+  evaluateBenefitEligibility,
+  getSocioAsociaciones,
+  incrementSocioBenefitUses,
+  readSocioBenefitUses,
+} from '@/lib/benefit-eligibility';
+import {
+  assertBenefitSchedule,
+  checkBenefitSchedule,
+  isBenefitRestrictionError,
+  BenefitRestrictionCode,
+  BenefitRestrictionError,
+} from '@/lib/benefit-schedule';
+import { aplicarDescuentoAdicional } from '@/lib/loyalty-points';
+import { ReferenciasPlantilla } from '@/types/plantillas';
+import { AutorizacionValidacion } from '@/types/validacion';
+import { fidelizacionService } from './fidelizacion.service';
+import { eventosDominioService } from './eventos-dominio.service';
+import { qrTokenService } from './qr-token.service';
+import { SocioCredentialInput } from './socio-credential.service';
 
 export interface ValidacionRequest {
   socioId: string;
   comercioId: string;
   beneficioId?: string;
   asociacionId?: string;
+  // Token firmado del QR escaneado. null indica un QR sin firma (se rechaza);
+  // se omite en validaciones que no provienen de un QR
+  qrToken?: string | null;
+  // Flujo inverso: credencial que el socio muestra y el comercio escanea/tipea
+  credencialSocio?: SocioCredentialInput;
+  // Medio de pago de la compra, requerido por beneficios con mediosPagoHabilitados
+  medioPago?: string;
 }
 
 export interface ValidacionResponse {
@@ -55,6 +85,7 @@ export interface ValidacionResponse {
     };
   };
   error?: string;
+  errorCode?: BenefitRestrictionCode;
 }
 
 export interface HistorialValidacion {
@@ -87,6 +118,7 @@ interface SocioValidationData {
   asociacionNombre?: string;
   beneficiosUsados?: number;
   ahorroTotal?: number;
+  nivel?: { nivel: string; descuentoAdicional: number };
 }
 
 class ValidacionesService {
@@ -136,15 +168,6 @@ class ValidacionesService {
     console.log('✅ Socio validado correctamente (estado activo)');
   }
 
-  /**
-   * VALIDACIÓN DESHABILITADA: No verificar estado en tabla del comercio
-   */
-  // private async validateSocioInComercio(): Promise<void> {
-  //   console.log('🔍 Validación de estado en comercio DESHABILITADA - permitiendo acceso libre');
-  //   // Esta validación está deshabilitada para permitir acceso sin restricciones
-  //   return;
-  // }
-
   /**
    * NUEVO: Crear registro en el historial de usos de beneficios
    */
@@ -155,6 +178,7 @@ class ValidacionesService {
       asociacionId?: string;
       codigoValidacion: string;
       comercioId: string;
+      metodoValidacion?: string;
     },
     beneficioData: {
       titulo?: string;
@@ -207,7 +231,7 @@ class ValidacionesService {
         metodoPago: 'qr_validation',
         
         // Metadatos
-        origenValidacion: 'qr_scanner',
+        origenValidacion: validacionData.metodoValidacion?.startsWith('credencial_socio') ? 'comercio_scanner' : 'qr_scanner',
         tipoValidacion: 'automatica',
         
         // Timestamps
@@ -233,6 +257,16 @@ class ValidacionesService {
     try {
       console.log('🔍 Starting strict validation process:', request);
 
+      // 0. El servidor verifica el QR del comercio o consume la credencial
+      // del socio y autoriza la validación; sin autorización no se registra
+      // una validación exitosa ni se acreditan puntos
+      const autorizacion = await this.autorizar(request);
+
+      // Las validaciones hechas sin conexión se evalúan en el momento de la
+      // captura, que el servidor acota a la vigencia firmada de la credencial
+      const capturadoEn = autorizacion.capturadoEn;
+      const fechaOperacion = capturadoEn ? new Date(capturadoEn) : new Date();
+
       const result = await runTransaction(db, async (transaction) => {
         // 1. Validate socio with strict checks
         const socioRef = doc(db, this.sociosCollection, request.socioId);
@@ -247,9 +281,6 @@ class ValidacionesService {
         // VALIDACIÓN ESTRICTA DE SOCIO - Bloquea si está vencido
         await this.validateActiveSocio(socioData as SocioValidationData);
 
-        // VALIDACIÓN DE COMERCIO DESHABILITADA - Permitir acceso libre
-        // await this.validateSocioInComercio(request.socioId, request.comercioId);
-
         // 2. Basic comercio validation
         const comercioRef = doc(db, this.comerciosCollection, request.comercioId);
         const comercioDoc = await transaction.get(comercioRef);
@@ -263,137 +294,97 @@ class ValidacionesService {
         // Solo verificar que el comercio exista, no su estado
         console.log('🔍 Comercio encontrado:', comercioData.nombreComercio);
 
-        // 3. Relaxed benefit validation - buscar cualquier beneficio disponible
-        let beneficiosQuery;
+        // 3. Beneficios activos del comercio; el acceso lo decide el motor de elegibilidad
         const socioAsociacionId = socioData.asociacionId;
+        const socioAsociaciones = getSocioAsociaciones(socioData);
 
-        // Buscar beneficios disponibles sin restricciones estrictas
-        if (socioAsociacionId && comercioData.asociacionesVinculadas?.includes(socioAsociacionId)) {
-          // Beneficios de asociación
-          beneficiosQuery = query(
-            collection(db, this.beneficiosCollection),
-            where('comercioId', '==', request.comercioId),
-            where('estado', '==', 'activo')
-          );
-        } else {
-          // Beneficios públicos o directos
-          beneficiosQuery = query(
-            collection(db, this.beneficiosCollection),
-            where('comercioId', '==', request.comercioId),
-            where('estado', '==', 'activo')
-          );
-        }
+        const beneficiosSnapshot = await getDocs(query(
+          collection(db, this.beneficiosCollection),
+          where('comercioId', '==', request.comercioId),
+          where('estado', '==', 'activo')
+        ));
 
-        const beneficiosSnapshot = await getDocs(beneficiosQuery);
-        
         if (beneficiosSnapshot.empty) {
           throw new Error('No hay beneficios disponibles en este comercio en este momento');
         }
 
-        // 4. Select benefit with minimal validation
-        let selectedBeneficio: {
+        // 4. Seleccionar el beneficio pedido. Sin beneficioId se toma el primero que
+        // aplique en este momento; si ninguno aplica, el primero informa el motivo.
+        const scheduleContext = {
+          timezone: comercioData.timezone,
+          medioPago: request.medioPago,
+          now: fechaOperacion,
+        };
+
+        const beneficioDoc = request.beneficioId
+          ? beneficiosSnapshot.docs.find(doc => doc.id === request.beneficioId)
+          : beneficiosSnapshot.docs.find(doc =>
+              evaluateBenefitEligibility({ beneficio: doc.data(), socioAsociaciones, comercio: comercioData, now: fechaOperacion }).eligible &&
+              checkBenefitSchedule(doc.data(), scheduleContext).allowed
+            ) ?? beneficiosSnapshot.docs[0];
+
+        // Releer dentro de la transacción para evaluar las reglas vigentes
+        const beneficioSnap = beneficioDoc
+          ? await transaction.get(doc(db, this.beneficiosCollection, beneficioDoc.id))
+          : null;
+
+        if (!beneficioSnap?.exists()) {
+          throw new BenefitRestrictionError(
+            'BENEFIT_NOT_FOUND',
+            'El beneficio solicitado no está disponible en este comercio'
+          );
+        }
+
+        const beneficioDocData = beneficioSnap.data();
+
+        // 5. Elegibilidad (asociación, convenio, vigencia y límites) y luego
+        // días, horario y medio de pago en la zona horaria del comercio
+        const usosDelSocio = beneficioDocData.limitePorSocio
+          ? await readSocioBenefitUses(transaction, {
+              beneficioId: beneficioSnap.id,
+              socioId: request.socioId,
+              historial: await countSocioBenefitUses({
+                beneficioId: beneficioSnap.id,
+                socioId: request.socioId,
+                comercioId: request.comercioId,
+              }),
+            })
+          : undefined;
+
+        assertBenefitEligibility({
+          beneficio: beneficioDocData,
+          socioAsociaciones,
+          comercio: comercioData,
+          usosDelSocio,
+          now: fechaOperacion,
+        });
+        assertBenefitSchedule(beneficioDocData, scheduleContext);
+        assertNotPointsReward(beneficioDocData);
+
+        // 5b. Fidelización: el nivel del socio suma descuento a los beneficios porcentuales
+        const descuentoBase = beneficioDocData.descuento ?? 0;
+        const descuentoAdicional = socioData.nivel?.descuentoAdicional ?? 0;
+
+        const selectedBeneficio: {
           id: string;
           titulo: string;
           descripcion: string;
           descuento: number;
           tipo: string;
           condiciones?: string;
-          fechaInicio?: Timestamp | Date | string;
-          fechaFin?: Timestamp | Date | string;
-          limiteTotal?: number;
-          usosActuales?: number;
-          limitePorSocio?: number;
-          limiteDiario?: number;
-          tipoAcceso?: string;
-          asociacionesDisponibles?: string[];
-          montoBase?: number;
+          usosActuales: number;
+        } = {
+          id: beneficioSnap.id,
+          titulo: beneficioDocData.titulo ?? '',
+          descripcion: beneficioDocData.descripcion ?? '',
+          descuento: aplicarDescuentoAdicional(beneficioDocData.tipo ?? '', descuentoBase, descuentoAdicional),
+          tipo: beneficioDocData.tipo ?? '',
+          condiciones: beneficioDocData.condiciones,
+          usosActuales: beneficioDocData.usosActuales ?? 0,
         };
-        
-        if (request.beneficioId) {
-          const beneficioDoc = beneficiosSnapshot.docs.find(doc => doc.id === request.beneficioId);
-          if (!beneficioDoc) {
-            // Si no encuentra el beneficio específico, usar el primero disponible
-            const firstBeneficio = beneficiosSnapshot.docs[0];
-            const beneficioData = firstBeneficio.data();
-            selectedBeneficio = {
-              id: firstBeneficio.id,
-              titulo: beneficioData.titulo ?? '',
-              descripcion: beneficioData.descripcion ?? '',
-              descuento: beneficioData.descuento ?? 0,
-              tipo: beneficioData.tipo ?? '',
-              condiciones: beneficioData.condiciones,
-              fechaInicio: beneficioData.fechaInicio,
-              fechaFin: beneficioData.fechaFin,
-              limiteTotal: beneficioData.limiteTotal,
-              usosActuales: beneficioData.usosActuales,
-              limitePorSocio: beneficioData.limitePorSocio,
-              limiteDiario: beneficioData.limiteDiario,
-              tipoAcceso: beneficioData.tipoAcceso,
-              asociacionesDisponibles: beneficioData.asociacionesDisponibles,
-              montoBase: beneficioData.montoBase,
-            };
-          } else {
-            const beneficioData = beneficioDoc.data();
-            selectedBeneficio = {
-              id: beneficioDoc.id,
-              titulo: beneficioData.titulo ?? '',
-              descripcion: beneficioData.descripcion ?? '',
-              descuento: beneficioData.descuento ?? 0,
-              tipo: beneficioData.tipo ?? '',
-              condiciones: beneficioData.condiciones,
-              fechaInicio: beneficioData.fechaInicio,
-              fechaFin: beneficioData.fechaFin,
-              limiteTotal: beneficioData.limiteTotal,
-              usosActuales: beneficioData.usosActuales,
-              limitePorSocio: beneficioData.limitePorSocio,
-              limiteDiario: beneficioData.limiteDiario,
-              tipoAcceso: beneficioData.tipoAcceso,
-              asociacionesDisponibles: beneficioData.asociacionesDisponibles,
-              montoBase: beneficioData.montoBase,
-            };
-          }
-        } else {
-          // Use first available benefit
-          const firstBeneficio = beneficiosSnapshot.docs[0];
-          const beneficioData = firstBeneficio.data();
-          selectedBeneficio = {
-            id: firstBeneficio.id,
-            titulo: beneficioData.titulo ?? '',
-            descripcion: beneficioData.descripcion ?? '',
-            descuento: beneficioData.descuento ?? 0,
-            tipo: beneficioData.tipo ?? '',
-            condiciones: beneficioData.condiciones,
-            fechaInicio: beneficioData.fechaInicio,
-            fechaFin: beneficioData.fechaFin,
-            limiteTotal: beneficioData.limiteTotal,
-            usosActuales: beneficioData.usosActuales,
-            limitePorSocio: beneficioData.limitePorSocio,
-            limiteDiario: beneficioData.limiteDiario,
-            tipoAcceso: beneficioData.tipoAcceso,
-            asociacionesDisponibles: beneficioData.asociacionesDisponibles,
-            montoBase: beneficioData.montoBase,
-          };
-        }
-
-        // 5. Minimal benefit validation - solo verificar fechas básicas
-        const now = new Date();
-        const beneficioData = selectedBeneficio;
-
-        // Solo verificar fechas de vigencia básicas
-        if (beneficioData.fechaFin) {
-          const fechaFin = beneficioData.fechaFin instanceof Timestamp 
-            ? beneficioData.fechaFin.toDate() 
-            : new Date(beneficioData.fechaFin);
-          if (fechaFin < now) {
-            console.log('⚠️ Beneficio expirado, pero permitiendo acceso en modo permisivo');
-          }
-        }
-
-        // Ignorar límites de uso en modo permisivo
-        console.log('🔍 Ignorando límites de uso - modo permisivo activado');
 
         // 6. Create validation record
-        const validacionId = doc(collection(db, this.collection)).id;
+        const validacionId = autorizacion.autorizacionId;
         const codigoValidacion = this.generateValidationCode();
         const montoDescuento = this.calculateDiscountAmount();
         
@@ -418,10 +409,13 @@ class ValidacionesService {
           
           // Benefit info
           beneficioId: selectedBeneficio.id,
-          beneficioTitulo: beneficioData.titulo,
-          beneficioDescripcion: beneficioData.descripcion,
-          descuento: beneficioData.descuento,
-          tipoDescuento: beneficioData.tipo,
+          beneficioTitulo: selectedBeneficio.titulo,
+          beneficioDescripcion: selectedBeneficio.descripcion,
+          descuento: selectedBeneficio.descuento,
+          descuentoBase,
+          descuentoAdicionalNivel: descuentoAdicional,
+          nivelSocio: socioData.nivel?.nivel ?? null,
+          tipoDescuento: selectedBeneficio.tipo,
           tipoAcceso: 'estricto', // Marcar como acceso estricto
           
           // Validation details
@@ -429,20 +423,24 @@ class ValidacionesService {
           fechaValidacion: serverTimestamp(),
           estado: 'exitosa',
           codigoValidacion,
+          metodoValidacion: autorizacion.metodoValidacion,
+          capturadoEn: capturadoEn ? Timestamp.fromMillis(capturadoEn) : null,
+          medioPago: request.medioPago ?? null,
           
           // Metadata
           metadata: {
             userAgent: typeof window !== 'undefined' ? window.navigator.userAgent : 'server',
             timestamp: Date.now(),
-            version: '4.0', // Nueva versión para modo estricto
+            version: '4.1', // Elegibilidad estricta compartida
             modoEstricto: true, // Indicar que se usó modo estricto
             validacionesAdicionales: {
               socioActivo: true,
-              socioActivoEnComercio: 'deshabilitado', // Validación deshabilitada
+              socioActivoEnComercio: 'verificado', // Convenio asociación-comercio
               membresiaValida: 'verificada', // Verificar membresía
-              fechaVencimientoChecked: false, // No verificar vencimiento
+              fechaVencimientoChecked: true,
               socioNumeroFallback: !socioData.numeroSocio,
-              limitesIgnorados: true, // Límites ignorados
+              limitesIgnorados: false,
+              usosDelSocio: usosDelSocio ?? null,
               estadoSocioValidado: socioData.estado // Guardar estado validado
             }
           },
@@ -455,22 +453,18 @@ class ValidacionesService {
         // Save validation
         transaction.set(doc(db, this.collection, validacionId), validacionData);
 
+        if (usosDelSocio !== undefined) {
+          incrementSocioBenefitUses(transaction, { beneficioId: selectedBeneficio.id, socioId: request.socioId }, usosDelSocio);
+        }
+
         // Update counters (opcional)
         try {
           transaction.update(doc(db, this.beneficiosCollection, selectedBeneficio.id), {
-            usosActuales: (beneficioData.usosActuales || 0) + 1,
+            usosActuales: selectedBeneficio.usosActuales + 1,
             ultimoUso: serverTimestamp(),
             actualizadoEn: serverTimestamp(),
           });
 
-          transaction.update(socioRef, {
-            beneficiosUsados: (socioData.beneficiosUsados || 0) + 1,
-            ultimaValidacion: serverTimestamp(),
-            ahorroTotal: (socioData.ahorroTotal || 0) + montoDescuento,
-            ultimaActividad: serverTimestamp(),
-            actualizadoEn: serverTimestamp(),
-          });
-
           transaction.update(comercioRef, {
             validacionesRealizadas: (comercioData.validacionesRealizadas || 0) + 1,
             clientesAtendidos: (comercioData.clientesAtendidos || 0) + 1,
@@ -493,6 +487,13 @@ class ValidacionesService {
         };
       });
 
+      // Puntos, racha y contadores del socio: los acredita el servidor
+      try {
+        await fidelizacionService.acreditarValidacion(result.validacionId);
+      } catch (puntosError) {
+        console.error('⚠️ Error acreditando puntos de la validación (no crítico):', puntosError);
+      }
+
       // NUEVO: Crear registro en el historial de usos DESPUÉS de la transacción
       try {
         await this.crearRegistroHistorialUso(
@@ -502,6 +503,7 @@ class ValidacionesService {
             asociacionId: result.validacionData.asociacionId ?? undefined,
             codigoValidacion: result.validacionData.codigoValidacion,
             comercioId: result.validacionData.comercioId,
+            metodoValidacion: result.validacionData.metodoValidacion,
           },
           result.beneficioData,
           result.comercioData,
@@ -516,7 +518,12 @@ class ValidacionesService {
       // NUEVO: Enviar notificación automática de beneficio usado
       try {
         await this.enviarNotificacionBeneficioUsado(
-          result.validacionData.socioId,
+          {
+            socioId: result.validacionData.socioId,
+            asociacionId: result.socioData.asociacionId || undefined,
+            comercioId: request.comercioId,
+            beneficioId: result.beneficioData.id,
+          },
           result.beneficioData.titulo,
           result.comercioData.nombreComercio,
           result.beneficioData.descuento,
@@ -526,6 +533,19 @@ class ValidacionesService {
         // No interrumpimos el flujo principal si falla la notificación
       }
 
+      const usosPrevios = result.socioData.beneficiosUsados || 0;
+      await eventosDominioService.publicar('benefit_redeemed', {
+        socioId: request.socioId,
+        asociacionId: result.socioData.asociacionId || null,
+        comercioId: request.comercioId,
+        comercioNombre: result.comercioData.nombreComercio || '',
+        beneficioId: result.beneficioData.id,
+        beneficioTitulo: result.beneficioData.titulo,
+        montoDescuento: result.montoDescuento,
+        esPrimerUso: usosPrevios === 0,
+        totalUsos: usosPrevios + 1,
+      }, { userId: request.socioId, asociacionId: result.socioData.asociacionId || null });
+
       // NUEVO: Upsert del cliente en la colección de clientes del comercio
       try {
         const { ClienteService } = await import('../services/cliente.service');
@@ -595,6 +615,7 @@ class ValidacionesService {
         success: false,
         message: errorMessage,
         error: errorMessage,
+        errorCode: isBenefitRestrictionError(error) ? error.code : undefined,
       };
     }
   }
@@ -660,12 +681,22 @@ class ValidacionesService {
     }
   }
 
-  parseQRData(qrData: string): { comercioId: string; beneficioId?: string } | null {
+  parseQRData(qrData: string): { comercioId: string; beneficioId?: string; token?: string } | null {
     try {
       console.log('🔍 Parsing QR data:', qrData);
 
+      // Token firmado sin envolver en URL
+      if (qrData.startsWith('FQ')) {
+        return this.parseSignedToken(qrData);
+      }
+
       if (qrData.includes('validar-beneficio') || qrData.includes('/validar')) {
         const url = new URL(qrData.startsWith('http') ? qrData : `https://fidelya.com${qrData}`);
+        const token = url.searchParams.get('t');
+        if (token) {
+          return this.parseSignedToken(token);
+        }
+
         const comercioId = url.searchParams.get('comercio') || url.searchParams.get('c');
         const beneficioId = url.searchParams.get('beneficio') || url.searchParams.get('b');
 
@@ -734,6 +765,24 @@ class ValidacionesService {
     }
   }
 
+  /**
+   * Extrae los IDs de un token QR firmado (la firma se verifica en validarAcceso)
+   */
+  private parseSignedToken(token: string): { comercioId: string; beneficioId?: string; token: string } | null {
+    const qrData = qrTokenService.peek(token);
+    if (!qrData) {
+      console.warn('❌ Signed QR token could not be decoded');
+      return null;
+    }
+
+    console.log('✅ Signed QR token parsed:', { comercioId: qrData.comercioId, beneficioId: qrData.beneficioId });
+    return {
+      comercioId: qrData.comercioId,
+      beneficioId: qrData.beneficioId,
+      token,
+    };
+  }
+
   async getEstadisticasSocio(socioId: string): Promise<{
     totalValidaciones: number;
     ahorroTotal: number;
@@ -844,6 +893,43 @@ class ValidacionesService {
     }
   }
 
+  /**
+   * Pide al servidor que autorice la validación (/api/validaciones/autorizacion)
+   */
+  private async autorizar(request: ValidacionRequest): Promise<AutorizacionValidacion> {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+
+    const idToken = await currentUser.getIdToken();
+    const response = await fetch('/api/validaciones/autorizacion', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({
+        socioId: request.socioId,
+        comercioId: request.comercioId,
+        beneficioId: request.beneficioId,
+        qrToken: request.qrToken,
+        credencialSocio: request.credencialSocio,
+      }),
+    });
+
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `Error HTTP ${response.status}`);
+    }
+
+    return {
+      autorizacionId: result.autorizacionId,
+      metodoValidacion: result.metodoValidacion,
+      capturadoEn: result.capturadoEn,
+    };
+  }
+
   private generateValidationCode(): string {
     const timestamp = Date.now().toString(36).toUpperCase();
     const rnd = Math.random().toString(36).substring(2, 7).toUpperCase();
@@ -868,6 +954,7 @@ class ValidacionesService {
         estado: 'fallida',
         error: error instanceof Error ? error.message : 'Error desconocido',
         errorType: error instanceof Error ? error.constructor.name : 'UnknownError',
+        errorCode: isBenefitRestrictionError(error) ? error.code : null,
         metadata: {
           userAgent: typeof window !== 'undefined' ? window.navigator.userAgent : 'server',
           timestamp: Date.now(),
@@ -986,7 +1073,7 @@ class ValidacionesService {
    * NUEVO: Enviar notificación automática cuando se usa un beneficio
    */
   private async enviarNotificacionBeneficioUsado(
-    socioId: string,
+    referencias: ReferenciasPlantilla & { socioId: string },
     beneficioTitulo: string,
     comercioNombre: string,
     descuento: number,
@@ -998,31 +1085,20 @@ class ValidacionesService {
       const { notificationSchedulerService } = await import('./notification-scheduler.service');
       const { notificationTemplatesService } = await import('./notification-templates.service');
 
-      // Obtener la plantilla de "Beneficio Usado"
-      const templates = await notificationTemplatesService.getTemplates();
-      const beneficioUsadoTemplate = templates.find(t => t.name === 'Beneficio Usado');
-
-      if (!beneficioUsadoTemplate) {
-        console.warn('⚠️ Plantilla "Beneficio Usado" no encontrada');
-        return;
-      }
-
-      // Preparar variables para la plantilla
-      const templateVariables = {
-        beneficio_titulo: beneficioTitulo,
-        comercio_nombre: comercioNombre,
-        descuento: descuento.toString(),
-      };
-
-      // Parsear la plantilla con las variables
-      const titulo = notificationTemplatesService.parseTemplate(
-        beneficioUsadoTemplate.title,
-        templateVariables
-      );
-      const mensaje = notificationTemplatesService.parseTemplate(
-        beneficioUsadoTemplate.message,
-        templateVariables
+      // Plantilla "Beneficio Usado" con los datos del socio y del beneficio
+      const preparado = await notificationTemplatesService.prepararEnvioAutomatico(
+        'Beneficio Usado',
+        referencias,
+        {
+          beneficio_titulo: beneficioTitulo,
+          comercio_nombre: comercioNombre,
+          descuento,
+        }
       );
+      if (!preparado) return;
+
+      const { template: beneficioUsadoTemplate, envio } = preparado;
+      const socioId = referencias.socioId;
 
       // Crear trigger para enviar la notificación
       const triggerId = await notificationSchedulerService.createNotificationTrigger({
@@ -1036,8 +1112,7 @@ class ValidacionesService {
         action: {
           type: 'send_notification',
           notificationData: {
-            title: titulo,
-            message: mensaje,
+            ...envio,
             type: 'success',
             category: 'general',
           },
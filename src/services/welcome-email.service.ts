@@ -234,12 +234,6 @@ El equipo de Fidelya 💙
       const originalGetRecipients = simpleNotificationService.getRecipients;
       simpleNotificationService.getRecipients = async () => [tempRecipient];
 
-      // Sobrescribir temporalmente el método sendEmail para usar el nombre correcto del negocio
-      const originalSendEmail = simpleNotificationService['emailService'].sendEmail;
-      simpleNotificationService['emailService'].sendEmail = async (to: string, subject: string, message: string) => {
-        return originalSendEmail.call(simpleNotificationService['emailService'], to, subject, message);
-      };
-
       try {
         // Crear y enviar la notificación
         const notificationId = await simpleNotificationService.createNotification(
@@ -261,9 +255,8 @@ El equipo de Fidelya 💙
           errorsCount: result.errors.length
         });
 
-        // Restaurar los métodos originales
+        // Restaurar el método original
         simpleNotificationService.getRecipients = originalGetRecipients;
-        simpleNotificationService['emailService'].sendEmail = originalSendEmail;
 
         if (result.success && result.sentCount > 0) {
           console.log(`✅ Email de bienvenida enviado exitosamente a: ${userEmail}`);
@@ -280,9 +273,8 @@ El equipo de Fidelya 💙
         }
 
       } catch (sendError) {
-        // Restaurar los métodos originales en caso de error
+        // Restaurar el método original en caso de error
         simpleNotificationService.getRecipients = originalGetRecipients;
-        simpleNotificationService['emailService'].sendEmail = originalSendEmail;
         throw sendError;
       }
 
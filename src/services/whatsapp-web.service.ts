@@ -1,7 +1,8 @@
 import { Boom } from '@hapi/boom';
+import { MensajeEntranteWhatsApp } from '@/types/whatsapp';
 
 // Importaciones dinámicas para evitar errores de dependencias
-import type { WASocket, UserFacingSocketConfig, ConnectionState } from '@whiskeysockets/baileys';
+import type { WASocket, UserFacingSocketConfig, ConnectionState, BaileysEventMap } from '@whiskeysockets/baileys';
 let makeWASocket: ((config: UserFacingSocketConfig) => WASocket) | undefined;
 
 let multiFileAuthState: (sessionPath: string) => Promise<{ state: import('@whiskeysockets/baileys').AuthenticationState; saveCreds: () => Promise<void> }>;
@@ -13,6 +14,8 @@ interface WhatsAppWebConfig {
   maxRetries: number;
 }
 
+type ManejadorMensajeEntrante = (mensaje: MensajeEntranteWhatsApp) => Promise<unknown>;
+
 interface SendMessageResult {
   success: boolean;
   messageId?: string;
@@ -26,6 +29,7 @@ class WhatsAppWebService {
   private config: WhatsAppWebConfig;
   private retryCount = 0;
   private isInitialized = false;
+  private manejadorEntrante: ManejadorMensajeEntrante | null = null;
 
   constructor(config?: Partial<WhatsAppWebConfig>) {
     this.config = {
@@ -145,6 +149,31 @@ class WhatsAppWebService {
       // Guardar credenciales cuando cambien
       this.socket.ev.on('creds.update', saveCreds);
 
+      // Mensajes recibidos: solo los nuevos de chats individuales; se ignoran
+      // los propios, los de grupos, estados y listas de difusión
+      this.socket.ev.on('messages.upsert', ({ messages, type }: BaileysEventMap['messages.upsert']) => {
+        if (type !== 'notify' || !this.manejadorEntrante) return;
+
+        for (const recibido of messages) {
+          const jid = recibido.key.remoteJid;
+          if (!jid || recibido.key.fromMe || !jid.endsWith('@s.whatsapp.net')) continue;
+
+          const texto = recibido.message?.conversation || recibido.message?.extendedTextMessage?.text;
+          if (!texto || !recibido.key.id) continue;
+
+          const segundos = Number(recibido.messageTimestamp);
+          this.manejadorEntrante({
+            messageId: recibido.key.id,
+            telefono: jid.split('@')[0],
+            texto,
+            nombrePerfil: recibido.pushName || undefined,
+            recibidoEn: segundos ? new Date(segundos * 1000) : new Date(),
+          }).catch(error => {
+            console.error('❌ Error procesando mensaje entrante de WhatsApp:', error);
+          });
+        }
+      });
+
       return true;
     } catch (error) {
       console.error('❌ Error inicializando WhatsApp Web:', error);
@@ -218,6 +247,11 @@ class WhatsAppWebService {
     }
   }
 
+  // Recibe los mensajes entrantes de todas las conexiones, incluidas las reconexiones
+  onMensajeEntrante(manejador: ManejadorMensajeEntrante): void {
+    this.manejadorEntrante = manejador;
+  }
+
   getConnectionStatus(): boolean {
     return this.isConnected;
   }
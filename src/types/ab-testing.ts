@@ -0,0 +1,48 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Prueba A/B de una campaña: cada fase envía las variantes a un grupo de
+ * prueba y, cumplida la ventana, la variante ganadora al resto del público.
+ */
+export type MetricaVariante = 'delivered' | 'opened' | 'clicked';
+
+export type EstadoPruebaAB = 'testing' | 'sending_winner' | 'winner_sent';
+
+export interface EstadisticasVariante {
+  sent: number;
+  delivered: number;
+  opened: number;
+  clicked: number;
+  failed: number;
+}
+
+export interface PruebaAB {
+  // Porcentaje del público de cada fase que participa de la prueba
+  testPercentage: number;
+  testWindowHours: number;
+  winnerMetric: MetricaVariante;
+  autoSendWinner: boolean;
+  status: EstadoPruebaAB;
+  testStartedAt?: Timestamp;
+  // Elección manual desde el panel; la función la envía en la próxima corrida
+  selectedWinnerId?: string;
+  winnerVariantId?: string;
+  winnerPValue?: number | null;
+  winnerSentAt?: Timestamp;
+  winnerSentCount?: number;
+}
+
+export type NivelSignificancia = 'significativo' | 'tendencia' | 'no_concluyente' | 'muestra_insuficiente';
+
+export interface ResultadoVariante extends EstadisticasVariante {
+  variantId: string;
+  // Tasa de la métrica elegida sobre los enviados
+  rate: number;
+}
+
+export interface ResultadoPruebaAB {
+  variantes: ResultadoVariante[];
+  liderId: string | null;
+  pValue: number | null;
+  nivel: NivelSignificancia;
+}
@@ -1,5 +1,14 @@
 import { Timestamp } from 'firebase/firestore';
-import { Socio } from './socio';
+
+// Conjuntos de datos de la asociación que entran en un respaldo
+export type BackupCollection =
+  | 'socios'
+  | 'comercios'
+  | 'beneficios'
+  | 'validaciones'
+  | 'cuotas'
+  | 'pagos'
+  | 'settings';
 
 export interface BackupMetadata {
   id: string;
@@ -17,17 +26,34 @@ export interface BackupMetadata {
   tags: string[];
   isEncrypted: boolean;
   compressionType: 'none' | 'gzip' | 'brotli';
+  // Cifrado con la clave de la asociación; null si se guardó sin cifrar
+  encryptionAlgorithm: 'aes-256-gcm' | null;
+  keyVersion: number | null;
+  // URI gs:// del archivo y su ruta dentro del bucket
   storageLocation: string;
+  storagePath: string;
+  collections: BackupCollection[];
+  recordCounts: Partial<Record<BackupCollection, number>>;
+  // SHA-256 del archivo guardado (checksum es el de los datos sin comprimir ni cifrar)
+  artifactChecksum: string;
+  error?: string | null;
   expiresAt?: Timestamp;
   lastVerified?: Timestamp;
   verificationStatus: 'pending' | 'verified' | 'failed';
 }
 
+// Documento exportado con su ruta completa en Firestore
+export interface BackupDocument {
+  path: string;
+  data: Record<string, unknown>;
+}
+
+// Contenido del archivo de respaldo, antes de comprimir y cifrar
 export interface BackupData {
-  metadata: BackupMetadata;
-  socios: Socio[];
-  settings?: Record<string, unknown>;
-  customData?: Record<string, unknown>;
+  version: string;
+  asociacionId: string;
+  exportedAt: string;
+  collections: Partial<Record<BackupCollection, BackupDocument[]>>;
 }
 
 export interface BackupConfig {
@@ -46,12 +72,20 @@ export interface BackupConfig {
 export interface RestoreOptions {
   backupId: string;
   restoreType: 'full' | 'socios_only' | 'settings_only' | 'selective';
-  selectedFields?: string[];
+  // Colecciones a restaurar cuando restoreType es 'selective'
+  selectedFields?: BackupCollection[];
   overwriteExisting: boolean;
   createBackupBeforeRestore: boolean;
   validateData: boolean;
 }
 
+export interface RestoreResult {
+  restored: Partial<Record<BackupCollection, number>>;
+  // Documentos que ya existían y no se sobrescribieron
+  skipped: Partial<Record<BackupCollection, number>>;
+  preRestoreBackupId?: string;
+}
+
 export interface BackupProgress {
   step: string;
   progress: number;
@@ -91,14 +125,20 @@ export interface BackupIssue {
   suggestedAction: string;
 }
 
+// Programa de respaldos automáticos de una asociación; lo mantiene la
+// función programada (el id es el de la asociación)
 export interface BackupSchedule {
   id: string;
+  asociacionId: string;
   name: string;
   frequency: 'daily' | 'weekly' | 'monthly';
   time: string;
   enabled: boolean;
   lastRun?: Timestamp;
   nextRun: Timestamp;
+  lastStatus?: 'running' | 'completed' | 'failed';
+  lastBackupId?: string | null;
+  lastError?: string | null;
   config: Partial<BackupConfig>;
 }
 
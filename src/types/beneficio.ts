@@ -5,7 +5,9 @@ export interface Beneficio {
   titulo: string;
   descripcion: string;
   descuento: number;
-  tipo: 'porcentaje' | 'monto_fijo' | 'producto_gratis';
+  tipo: 'porcentaje' | 'monto_fijo' | 'producto_gratis' | 'puntos';
+  // Solo en los beneficios de tipo puntos: lo que cuesta canjearlo
+  costoPuntos?: number;
   comercioId: string;
   comercioNombre: string;
   comercioLogo?: string;
@@ -19,6 +21,12 @@ export interface Beneficio {
   limitePorSocio?: number;
   limiteTotal?: number;
   usosActuales: number;
+  diasValidez?: string[]; // ['lunes', 'martes', etc.]
+  horariosValidez?: {
+    inicio: string; // HH:MM, hora del comercio
+    fin: string; // HH:MM
+  };
+  mediosPagoHabilitados?: string[];
   condiciones?: string;
   categoria: string;
   tags?: string[];
@@ -103,7 +111,8 @@ export interface BeneficioFormData {
   titulo: string;
   descripcion: string;
   descuento: number;
-  tipo: 'porcentaje' | 'monto_fijo' | 'producto_gratis';
+  tipo: 'porcentaje' | 'monto_fijo' | 'producto_gratis' | 'puntos';
+  costoPuntos?: number;
   fechaInicio: Date;
   fechaFin: Date;
   limitePorSocio?: number;
@@ -180,7 +189,8 @@ export const ESTADOS_BENEFICIO = [
 export const TIPOS_BENEFICIO = [
   'porcentaje',
   'monto_fijo',
-  'producto_gratis'
+  'producto_gratis',
+  'puntos'
 ] as const;
 
 export const TIPOS_ACCESO_BENEFICIO = [
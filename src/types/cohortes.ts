@@ -0,0 +1,63 @@
+import { Socio } from './socio';
+import { Cuota, PagoCuota } from './cuotas';
+
+/**
+ * Socios que ingresaron en un mismo mes y cuántos siguieron pagando la cuota
+ * en cada mes posterior
+ */
+export interface CohorteRetencion {
+  // Mes de ingreso (YYYY-MM)
+  periodo: string;
+  socios: number;
+  activos: number;
+  // Proporción de la cohorte que pagó la cuota de cada mes desde el ingreso
+  // (la posición 0 es el mes de ingreso). null: ese mes la asociación no
+  // generó cuotas, así que no hay dato
+  retencion: (number | null)[];
+  permanenciaPromedioMeses: number;
+  // Pagos registrados de los socios de la cohorte
+  ingresos: number;
+  ingresoPorSocio: number;
+}
+
+/**
+ * Valor de vida de los socios de un plan, que es el monto de la cuota
+ * mensual. El LTV proyectado es el ingreso mensual por socio sobre la tasa
+ * mensual de bajas; sin bajas registradas no se proyecta
+ */
+export interface LtvPlan {
+  montoCuota: number;
+  socios: number;
+  activos: number;
+  ingresos: number;
+  ingresoMensualPorSocio: number;
+  bajaMensual: number | null;
+  permanenciaEsperadaMeses: number | null;
+  ltv: number | null;
+  // Lo pagado hasta hoy por socio del plan
+  ltvObservado: number;
+}
+
+export interface AnalisisCohortes {
+  generadoEn: Date;
+  // Meses desde el ingreso que muestra la curva de retención
+  mesesSeguimiento: number;
+  // Primer mes con cuotas generadas: antes no hay datos de pagos
+  primerPeriodoConCuotas: string | null;
+  sociosAnalizados: number;
+  permanenciaPromedioMeses: number;
+  ingresosTotales: number;
+  cohortes: CohorteRetencion[];
+  // Retención de todas las cohortes juntas por mes desde el ingreso
+  curvaPromedio: (number | null)[];
+  ltvPorPlan: LtvPlan[];
+}
+
+// Lo que necesita el cálculo, con las fechas ya convertidas a Date
+export type SocioCohorte = Pick<Socio, 'id' | 'estado' | 'montoCuota' | 'titularId'> & {
+  fechaIngreso: Date;
+};
+
+export type CuotaCohorte = Pick<Cuota, 'socioId' | 'periodo' | 'monto' | 'montoPagado'>;
+
+export type PagoCohorte = Pick<PagoCuota, 'socioId' | 'monto'>;
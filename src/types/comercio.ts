@@ -59,6 +59,7 @@ export interface Comercio {
   estado: 'activo' | 'inactivo' | 'pendiente' | 'suspendido';
   visible: boolean;
   asociacionesVinculadas: string[];
+  timezone?: string; // IANA, p. ej. 'America/Argentina/Buenos_Aires'
   qrCode?: string;
   qrCodeUrl?: string;
   beneficiosActivos: number;
@@ -169,6 +170,7 @@ export interface ComercioFormData {
   ubicacion?: string;
   emailContacto?: string;
   visible?: boolean;
+  timezone?: string;
   redesSociales?: {
     facebook?: string;
     instagram?: string;
@@ -213,10 +215,13 @@ export interface ValidacionStats {
   promedioValidacionesDiarias: number;
 }
 
+// Contenido verificado de un token QR firmado (ver src/lib/qr-token.ts)
 export interface QRData {
   comercioId: string;
-  timestamp: number;
-  signature: string;
+  timestamp: number; // emisión, epoch ms
+  expiresAt: number; // expiración, epoch ms
+  signature: string; // firma HMAC-SHA256 (base64url)
+  token: string; // token completo tal como viaja en el QR
   beneficioId?: string;
   version?: string;
 }
@@ -346,11 +351,11 @@ export const TIPOS_BENEFICIO = {
     maxValue: null
   },
   puntos: {
-    label: 'Puntos Extra',
+    label: 'Canje con Puntos',
     icon: 'Star',
     color: '#8b5cf6',
     requiresValue: true,
-    valueLabel: 'Puntos',
+    valueLabel: 'Costo en puntos',
     maxValue: null
   }
 } as const;
@@ -0,0 +1,68 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type EstadoCuota = 'pendiente' | 'parcial' | 'pagada';
+
+export type EstadoMembresia = 'al_dia' | 'vencido' | 'pendiente';
+
+export type MedioPagoCuota = 'efectivo' | 'transferencia' | 'tarjeta' | 'mercado_pago' | 'otro';
+
+/**
+ * Cargo mensual generado a partir de la cuota del socio. El id es
+ * `${socioId}_${periodo}` para que generar dos veces el mismo mes no duplique.
+ */
+export interface Cuota {
+  id: string;
+  socioId: string;
+  asociacionId: string;
+  // Mes facturado, formato YYYY-MM
+  periodo: string;
+  monto: number;
+  montoPagado: number;
+  estado: EstadoCuota;
+  fechaVencimiento: Timestamp;
+  creadoEn: Timestamp;
+  actualizadoEn: Timestamp;
+}
+
+// Parte de un pago aplicada a una cuota
+export interface ImputacionPago {
+  cuotaId: string;
+  periodo: string;
+  monto: number;
+}
+
+export interface PagoCuota {
+  id: string;
+  socioId: string;
+  asociacionId: string;
+  // Correlativo por asociación
+  numeroRecibo: number;
+  monto: number;
+  medioPago: MedioPagoCuota;
+  imputaciones: ImputacionPago[];
+  // Lo que excede a las cuotas abiertas y queda a favor para las próximas
+  creditoGenerado: number;
+  // Deuda que quedó después del pago
+  deudaPosterior: number;
+  nota?: string | null;
+  registradoPor: string;
+  fecha: Timestamp;
+}
+
+/**
+ * Resumen de la cuenta del socio guardado en su documento. De acá sale
+ * estadoMembresia: con deuda vencida el socio queda vencido.
+ */
+export interface CuentaCuotas {
+  // Saldo de todas las cuotas abiertas
+  deuda: number;
+  // Saldo de las cuotas abiertas cuyo vencimiento ya pasó
+  deudaVencida: number;
+  cuotasVencidas: number;
+  // Pagado por adelantado, se aplica a las próximas cuotas
+  credito: number;
+  // Vencimiento de la cuota abierta más vieja (o de la próxima a generar)
+  proximoVencimiento: Timestamp | null;
+  // Último período facturado
+  ultimoPeriodo: string | null;
+}
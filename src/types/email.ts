@@ -0,0 +1,41 @@
+/**
+ * Diseño común de los emails: cada asociación define su marca (logo, colores
+ * y pie) y todo email que sale en su nombre se arma con ella. Los que no
+ * tienen asociación usan la marca de Fidelya.
+ */
+export interface MarcaEmail {
+  nombre: string;
+  logoUrl?: string | null;
+  // Hex de 6 dígitos: encabezado, enlaces y botones
+  colorPrimario: string;
+  // Hex de 6 dígitos: fondo alrededor del cuerpo
+  colorFondo: string;
+  // Domicilio legal del remitente, requerido en los envíos masivos
+  direccionLegal?: string | null;
+  emailContacto?: string | null;
+  textoPie?: string | null;
+  // Sin definir se usa la página de preferencias de notificaciones del socio
+  urlBaja?: string | null;
+}
+
+// Lo que la asociación configura; el nombre sale de su documento
+export type ConfiguracionMarcaEmail = Omit<MarcaEmail, 'nombre'>;
+
+export interface ContenidoEmail {
+  asunto: string;
+  // Formato liviano de los mensajes: **negrita**, *cursiva*, listas con
+  // "- ", "• " o "✅ ", "---" como separador y URLs sueltas
+  mensaje: string;
+  // Cuerpo HTML propio (por ejemplo el de una plantilla); reemplaza al
+  // mensaje en la versión HTML y la versión de texto se obtiene de él
+  html?: string;
+  // Texto que los clientes de correo muestran junto al asunto
+  preheader?: string;
+}
+
+export interface EmailRenderizado {
+  asunto: string;
+  html: string;
+  // Alternativa en texto plano para clientes sin HTML y filtros de spam
+  texto: string;
+}
@@ -0,0 +1,57 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Estado de entrega de una notificación por canal. Los webhooks de cada
+ * proveedor traducen sus eventos a este modelo.
+ */
+export type EstadoEntrega = 'queued' | 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'failed';
+
+export type ProveedorEntregaId = 'sendgrid' | 'resend' | 'twilio' | 'meta_whatsapp';
+
+export type CanalEntrega = 'app' | 'email' | 'sms' | 'push' | 'whatsapp';
+
+// Documento de notificationDeliveries
+export interface RegistroEntrega {
+  id: string;
+  notificationId: string;
+  recipientId: string;
+  asociacionId?: string | null;
+  // Ítem de notificationQueue que originó el envío
+  queueItemId?: string | null;
+  channel: CanalEntrega;
+  status: EstadoEntrega;
+  provider?: ProveedorEntregaId;
+  // ID del mensaje en el proveedor: así lo encuentran los webhooks
+  providerMessageId?: string;
+  failureReason?: string;
+  sentAt?: Timestamp;
+  deliveredAt?: Timestamp;
+  openedAt?: Timestamp;
+  clickedAt?: Timestamp;
+  failedAt?: Timestamp;
+  metadata?: Record<string, unknown>;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface ResumenEntregas {
+  total: number;
+  porEstado: Record<EstadoEntrega, number>;
+  // Entregadas incluye las abiertas y clickeadas
+  entregadas: number;
+  abiertas: number;
+  clickeadas: number;
+  fallidas: number;
+  pendientes: number;
+}
+
+export interface EstadisticasEntrega {
+  dias: number;
+  actual: ResumenEntregas;
+  anterior: ResumenEntregas;
+  porCanal: Record<CanalEntrega, number>;
+  porDia: { fecha: string; enviadas: number; fallidas: number }[];
+  porHora: { hora: number; cantidad: number }[];
+  // Segundos entre el envío y la confirmación del proveedor
+  tiempoPromedioEntrega: number | null;
+}
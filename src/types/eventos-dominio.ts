@@ -0,0 +1,95 @@
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Eventos que publican las operaciones del sistema. Cada NotificationTrigger
+ * con trigger.type 'event' se dispara con el evento de igual nombre.
+ */
+export type TipoEventoDominio =
+  | 'user_registered'
+  | 'payment_received'
+  | 'benefit_redeemed'
+  | 'benefit_expired'
+  | 'adhesion_approved'
+  | 'membership_expiring';
+
+export interface PayloadsEventoDominio {
+  user_registered: {
+    socioId: string;
+    asociacionId: string;
+    nombre: string;
+    email: string | null;
+  };
+  payment_received: {
+    socioId: string;
+    asociacionId: string;
+    monto: number;
+    medioPago: string;
+    numeroRecibo: number;
+    deudaPosterior: number;
+    origen: 'manual' | 'online';
+  };
+  benefit_redeemed: {
+    socioId: string;
+    asociacionId: string | null;
+    comercioId: string;
+    comercioNombre: string;
+    beneficioId: string;
+    beneficioTitulo: string;
+    montoDescuento: number;
+    // Primer beneficio que usa el socio
+    esPrimerUso: boolean;
+    totalUsos: number;
+  };
+  benefit_expired: {
+    beneficioId: string;
+    beneficioTitulo: string;
+    comercioId: string;
+  };
+  adhesion_approved: {
+    solicitudId: string;
+    asociacionId: string;
+    comercioId: string;
+    comercioNombre: string;
+    categoria: string;
+  };
+  membership_expiring: {
+    socioId: string;
+    asociacionId: string;
+    nombre: string;
+    diasRestantes: number;
+    fechaVencimiento: string; // YYYY-MM-DD
+  };
+}
+
+export type EstadoEventoDominio = 'pending' | 'processing' | 'processed' | 'failed';
+
+export interface EventoDominio<T extends TipoEventoDominio = TipoEventoDominio> {
+  id: string;
+  type: T;
+  payload: PayloadsEventoDominio[T];
+  // Destinatario natural del evento (el socio, el comercio); sin él, el
+  // trigger necesita una segmentación propia
+  userId: string | null;
+  asociacionId: string | null;
+  status: EstadoEventoDominio;
+  matchedTriggers?: number;
+  error?: string;
+  occurredAt: Timestamp;
+  processedAt?: Timestamp;
+}
+
+export type OperadorCondicion =
+  | 'equals'
+  | 'not_equals'
+  | 'greater_than'
+  | 'less_than'
+  | 'contains'
+  | 'in'
+  | 'not_in';
+
+export interface CondicionTrigger {
+  // Campo del payload del evento; admite rutas con punto
+  field: string;
+  operator: OperadorCondicion;
+  value: unknown;
+}
@@ -0,0 +1,59 @@
+import { Timestamp } from 'firebase/firestore';
+import { SocioLevel } from './socio';
+
+export type NivelSocio = SocioLevel['nivel'];
+
+export interface NivelFidelizacion {
+  nivel: NivelSocio;
+  // Puntos dentro de la ventana de evaluación necesarios para el nivel
+  puntosMinimos: number;
+  // Porcentaje que se suma al descuento de cada beneficio
+  descuentoAdicional: number;
+  beneficiosDesbloqueados: string[];
+}
+
+export interface ConfiguracionFidelizacion {
+  puntosPorValidacion: number;
+  puntosPorMesPagado: number;
+  // Meses consecutivos con al menos una validación que otorgan el bono de racha
+  rachaMeses: number;
+  puntosPorRacha: number;
+  // Meses de puntos que cuentan para el nivel; los más viejos dejan de contar
+  ventanaMeses: number;
+  niveles: NivelFidelizacion[];
+  actualizadoEn?: Timestamp;
+}
+
+// canje es el único movimiento negativo: no descuenta puntos del nivel, solo del saldo
+export type TipoMovimientoPuntos = 'validacion' | 'pago' | 'racha' | 'ajuste' | 'canje';
+
+export interface MovimientoPuntos {
+  id: string;
+  socioId: string;
+  asociacionId: string | null;
+  tipo: TipoMovimientoPuntos;
+  puntos: number;
+  descripcion: string;
+  // Validación o pago que originó el movimiento
+  referenciaId?: string | null;
+  // Comercio donde se ganaron o canjearon los puntos
+  comercioId?: string | null;
+  beneficioId?: string | null;
+  creadoEn: Timestamp;
+}
+
+export interface CanjePuntos {
+  validacionId: string;
+  codigoValidacion: string;
+  beneficioId: string;
+  beneficioTitulo: string;
+  comercioNombre: string;
+  puntosCanjeados: number;
+  saldoPuntos: number;
+}
+
+export interface RachaSocio {
+  meses: number;
+  // Último mes con actividad, formato YYYY-MM
+  ultimoMes: string;
+}
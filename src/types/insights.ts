@@ -0,0 +1,125 @@
+import { Socio } from './socio';
+import { Beneficio } from './beneficio';
+
+export type NivelRiesgo = 'alto' | 'medio' | 'bajo';
+
+export type FactorRiesgoClave = 'recencia' | 'frecuencia' | 'vencimiento' | 'pagos';
+
+export interface FactorRiesgo {
+  clave: FactorRiesgoClave;
+  // Aporte al puntaje y tope del factor; los topes suman 100
+  puntos: number;
+  maximo: number;
+  detalle: string;
+}
+
+/**
+ * Puntaje de riesgo de abandono de un socio activo (0-100). Es un índice
+ * armado con reglas explícitas, no una probabilidad calibrada.
+ */
+export interface RiesgoSocio {
+  socioId: string;
+  nombre: string;
+  numeroSocio: string;
+  email: string;
+  puntaje: number;
+  nivel: NivelRiesgo;
+  factores: FactorRiesgo[];
+  diasSinValidar: number | null;
+  validaciones90Dias: number;
+  diasParaVencimiento: number | null;
+  deudaVencida: number;
+  cuotasVencidas: number;
+}
+
+export interface CohorteSocios {
+  // Mes de ingreso (YYYY-MM)
+  periodo: string;
+  altas: number;
+  activos: number;
+  retencion: number;
+}
+
+export interface IntervaloConfianza {
+  estimado: number;
+  minimo: number;
+  maximo: number;
+}
+
+export interface PuntoPronostico {
+  periodo: string;
+  altas: IntervaloConfianza;
+  activos: IntervaloConfianza;
+}
+
+export type PronosticoCrecimiento =
+  | {
+    disponible: true;
+    // Meses completos usados para estimar las altas
+    mesesHistoria: number;
+    altasMensuales: IntervaloConfianza;
+    // Tasa mensual de bajas estimada a partir de las cohortes
+    bajaMensual: IntervaloConfianza;
+    activosActuales: number;
+    historial: { periodo: string; altas: number }[];
+    proyeccion: PuntoPronostico[];
+  }
+  | {
+    disponible: false;
+    mesesHistoria: number;
+    motivo: string;
+  };
+
+export type TipoAlertaSaturacion = 'cupo' | 'desgaste';
+
+export interface AlertaSaturacion {
+  beneficioId: string;
+  titulo: string;
+  comercioNombre: string;
+  tipo: TipoAlertaSaturacion;
+  detalle: string;
+  usosUltimos30Dias: number;
+  usosPrevios30Dias: number;
+  // Socios activos que lo usaron en los últimos 90 días
+  penetracion: number;
+  usosActuales: number;
+  limiteTotal?: number;
+  diasParaAgotarse?: number | null;
+}
+
+export interface InsightsAsociacion {
+  generadoEn: Date;
+  ventanaDias: number;
+  sociosAnalizados: number;
+  sociosActivos: number;
+  validacionesAnalizadas: number;
+  beneficiosAnalizados: number;
+  riesgo: RiesgoSocio[];
+  resumenRiesgo: Record<NivelRiesgo, number>;
+  cohortes: CohorteSocios[];
+  pronostico: PronosticoCrecimiento;
+  saturacion: AlertaSaturacion[];
+}
+
+// Lo que necesita el cálculo, con las fechas ya convertidas a Date
+export type SocioInsights = Pick<Socio, 'id' | 'nombre' | 'numeroSocio' | 'email' | 'estado'> & {
+  fechaIngreso: Date;
+  fechaVencimiento: Date | null;
+  deudaVencida: number;
+  cuotasVencidas: number;
+  proximoVencimiento: Date | null;
+};
+
+// Campos que escriben validaciones.service y qr-validation.service
+export interface ValidacionInsights {
+  socioId: string;
+  beneficioId?: string;
+  // Solo 'exitosa' cuenta como uso del beneficio
+  estado: 'exitosa' | 'fallida' | 'pendiente' | 'cancelada';
+  fechaValidacion: Date;
+}
+
+export type BeneficioInsights = Pick<
+  Beneficio,
+  'id' | 'titulo' | 'comercioNombre' | 'estado' | 'limiteTotal' | 'usosActuales'
+>;
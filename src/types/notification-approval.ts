@@ -0,0 +1,162 @@
+import { FieldValue, Timestamp } from 'firebase/firestore';
+
+export interface ApprovalWorkflow {
+  id?: string;
+  name: string;
+  description: string;
+  asociacionId: string;
+  steps: ApprovalStep[];
+  triggers: WorkflowTrigger[];
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+}
+
+export interface ApprovalStep {
+  id: string;
+  name: string;
+  description: string;
+  order: number;
+  // 'user', 'any' y 'all' listan IDs de usuario; 'role' lista roles
+  // ('asociacion' es la cuenta de la asociación dueña del envío, 'admin'
+  // cualquier administrador). Con 'all' aprueban todos los listados
+  approverType: 'user' | 'role' | 'any' | 'all';
+  approvers: string[];
+  requiredApprovals: number;
+  autoApprove?: boolean;
+  autoApproveConditions?: ApprovalCondition[];
+  escalationTime?: number; // en horas
+  escalationTo?: string[];
+}
+
+export interface WorkflowTrigger {
+  type: 'notification_type' | 'recipient_count' | 'content_keywords' | 'priority' | 'channel';
+  operator: 'equals' | 'contains' | 'greater_than' | 'less_than' | 'in';
+  value: string | number | string[];
+}
+
+export interface ApprovalCondition {
+  field: string;
+  operator: 'equals' | 'contains' | 'greater_than' | 'less_than';
+  value: string | number | boolean;
+}
+
+export type ApprovalRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled' | 'escalated';
+
+export interface ApprovalRequest {
+  id?: string;
+  workflowId: string;
+  asociacionId: string;
+  // Vacío: un envío puede generar varias notificaciones; la cola y las
+  // notificaciones retenidas apuntan a la solicitud con approvalRequestId
+  notificationId: string;
+  requesterId: string;
+  requesterName: string;
+  status: ApprovalRequestStatus;
+  currentStep: number;
+  steps: ApprovalRequestStep[];
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  metadata: {
+    notificationType: string;
+    recipientCount: number;
+    channels: string[];
+    // Lo que revisan los aprobadores
+    title?: string;
+    message?: string;
+    scheduledFor?: Timestamp | FieldValue;
+    templateId?: string;
+    segmentId?: string;
+  };
+  comments: ApprovalComment[];
+  createdAt: Timestamp | FieldValue;
+  updatedAt: Timestamp | FieldValue;
+  completedAt?: Timestamp | FieldValue;
+}
+
+export interface ApprovalRequestStep {
+  stepId: string;
+  status: 'pending' | 'approved' | 'rejected' | 'skipped';
+  approvals: ApprovalAction[];
+  requiredApprovals: number;
+  escalatedAt?: Timestamp;
+}
+
+export interface ApprovalAction {
+  approverId: string;
+  approverName: string;
+  action: 'approve' | 'reject';
+  comment?: string;
+  // Firestore no acepta serverTimestamp() dentro de arrays
+  timestamp: Timestamp | Date;
+}
+
+export interface ApprovalComment {
+  id: string;
+  userId: string;
+  userName: string;
+  comment: string;
+  timestamp: Timestamp | Date;
+  isInternal: boolean;
+}
+
+export interface ApprovalStats {
+  totalRequests: number;
+  pendingRequests: number;
+  approvedRequests: number;
+  rejectedRequests: number;
+  cancelledRequests: number;
+  avgApprovalTime: number; // en horas
+  approvalRate: number;
+  escalatedRequests: number;
+  byPriority: Record<string, number>;
+  byType: Record<string, number>;
+}
+
+export interface NotificationData {
+  id?: string;
+  asociacionId: string;
+  type: string;
+  recipientCount?: number;
+  channels?: string[];
+  scheduledFor?: Timestamp;
+  templateId?: string;
+  segmentId?: string;
+  priority?: 'low' | 'normal' | 'high' | 'urgent';
+  title?: string;
+  message?: string;
+}
+
+/**
+ * Registro de auditoría de las solicitudes: una entrada por cada hecho, que
+ * no se modifica ni se borra. 'released' y 'cancelled' los registra el
+ * sistema al liberar o descartar el envío retenido.
+ */
+export type ApprovalAuditAction =
+  | 'requested'
+  | 'auto_approved'
+  | 'approved'
+  | 'rejected'
+  | 'commented'
+  | 'released'
+  | 'cancelled';
+
+export interface ApprovalAuditEntry {
+  id?: string;
+  requestId: string;
+  asociacionId: string;
+  action: ApprovalAuditAction;
+  actorId: string;
+  actorName: string;
+  // Paso del workflow sobre el que se actuó; null si no aplica
+  step: number | null;
+  comment: string | null;
+  createdAt: Timestamp | Date;
+}
+
+// Quien actúa sobre una solicitud
+export interface ApprovalActor {
+  uid: string;
+  role?: string;
+  name: string;
+}
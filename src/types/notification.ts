@@ -55,25 +55,50 @@ export interface NotificationSettings {
   // REMOVED: priorities - Ya no se configuran prioridades
   quietHours: {
     enabled: boolean;
-    start: string;
-    end: string;
+    start: string; // HH:mm
+    end: string; // HH:mm; si es menor que start, el horario cruza la medianoche
   };
-  frequency: 'immediate' | 'hourly' | 'daily' | 'weekly';
+  // Con una frecuencia distinta de immediate los envíos no urgentes llegan en
+  // un email de resumen
+  frequency: FrecuenciaNotificaciones;
+  // Zona del destinatario para el horario silencioso y los resúmenes
+  timezone?: string;
   updatedAt: Date;
 }
 
+export type FrecuenciaNotificaciones = 'immediate' | 'hourly' | 'daily' | 'weekly';
+
+// Textos propios de cada canal; el canal que no tiene uno usa el título y el
+// mensaje generales
+export interface CuerposPorCanal {
+  emailAsunto?: string;
+  emailHtml?: string;
+  whatsapp?: string;
+  // Hasta 160 caracteres ya renderizado
+  sms?: string;
+}
+
 // Datos básicos para crear notificación (mantener para compatibilidad)
 export interface NotificationFormData {
   title: string;
   message: string;
   type: NotificationType;
-  // REMOVED: priority - Las notificaciones se envían por orden de ejecución
+  // Las notificaciones se envían por orden de ejecución; la prioridad solo
+  // importa como 'urgent', que ignora horario silencioso, resúmenes y
+  // categorías desactivadas del destinatario
+  priority?: NotificationPriority;
   category?: NotificationCategory;
   recipientIds?: string[];
   tags?: string[];
   expiresAt?: Date;
   actionUrl?: string;
   actionLabel?: string;
+  // Canales de entrega; sin definir se usan todos los que el usuario tenga activos
+  channels?: ('email' | 'sms' | 'push')[];
+  // Renderizados desde una plantilla para estos destinatarios
+  cuerpos?: CuerposPorCanal;
+  // Asociación remitente: sus emails salen con su logo, colores y pie
+  asociacionId?: string;
   metadata?: {
     senderName?: string;
     tags?: string[];
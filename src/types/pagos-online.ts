@@ -0,0 +1,31 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type ProveedorPagoId = 'mercado_pago' | 'fake';
+
+export type EstadoPagoOnline = 'pendiente' | 'aprobado' | 'rechazado';
+
+/**
+ * Checkout iniciado por el socio. El webhook del proveedor la cierra y, si
+ * el pago se aprobó, registra el pago de cuotas.
+ */
+export interface IntencionPago {
+  id: string;
+  socioId: string;
+  asociacionId: string;
+  proveedor: ProveedorPagoId;
+  monto: number;
+  descripcion: string;
+  estado: EstadoPagoOnline;
+  checkoutUrl: string | null;
+  // ID del pago en el proveedor y del pago de cuotas que generó
+  pagoExternoId: string | null;
+  pagoCuotaId: string | null;
+  creadoEn: Timestamp;
+  actualizadoEn: Timestamp;
+}
+
+export interface CheckoutPago {
+  intencionId: string;
+  checkoutUrl: string;
+  monto: number;
+}
@@ -0,0 +1,63 @@
+import { CuerposPorCanal } from './notification';
+
+/**
+ * Plantillas de notificación con variables tipadas, condicionales y listas:
+ * {{socio_nombre}}, {{#if al_dia}}…{{else}}…{{/if}} y
+ * {{#each beneficios}}{{titulo}}{{/each}}.
+ */
+export type TipoVariablePlantilla = 'texto' | 'numero' | 'moneda' | 'fecha' | 'booleano' | 'lista';
+
+// Documento del que sale el valor al enviar
+export type OrigenVariablePlantilla = 'socio' | 'asociacion' | 'comercio' | 'beneficio' | 'cuota' | 'sistema';
+
+export interface VariablePlantilla {
+  nombre: string;
+  descripcion: string;
+  tipo: TipoVariablePlantilla;
+  origen: OrigenVariablePlantilla;
+  // Valor de la vista previa cuando no hay un destinatario de muestra
+  ejemplo: ValorPlantilla;
+  // Solo listas: campos de cada elemento, disponibles dentro de {{#each}}
+  campos?: Record<string, VariablePlantilla>;
+}
+
+export type ValorPlantilla = string | number | boolean | Date | null | undefined | ContextoPlantilla[];
+
+export interface ContextoPlantilla {
+  [variable: string]: ValorPlantilla;
+}
+
+export interface ResultadoRender {
+  texto: string;
+  // Variables usadas que no tienen valor para este destinatario
+  faltantes: string[];
+  errores: string[];
+}
+
+// Dueño de una plantilla; sin ninguno es global, como las del sistema
+export interface AlcancePlantilla {
+  asociacionId?: string;
+  comercioId?: string;
+}
+
+// Documentos de los que se resuelven las variables al enviar
+export interface ReferenciasPlantilla {
+  socioId?: string;
+  asociacionId?: string;
+  comercioId?: string;
+  beneficioId?: string;
+  cuotaId?: string;
+}
+
+export interface TextosPlantilla {
+  title: string;
+  message: string;
+  cuerpos?: CuerposPorCanal;
+}
+
+export interface ResultadoEnvioPlantilla {
+  ok: boolean;
+  envio: TextosPlantilla;
+  faltantes: string[];
+  errores: string[];
+}
@@ -14,6 +14,7 @@ export interface QRValidationRequest {
   beneficioId?: string;
   asociacionId?: string;
   timestamp?: number;
+  qrToken?: string;
 }
 
 export interface QRValidationResponse {
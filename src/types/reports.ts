@@ -118,16 +118,37 @@ export interface ExportOptions {
   fields?: string[];
 }
 
+export type ReportFrequency = 'weekly' | 'monthly';
+export type ReportFileFormat = 'pdf' | 'xlsx';
+
+// Archivo generado de un reporte, guardado en Storage
+export interface ReportFile {
+  format: ReportFileFormat;
+  fileName: string;
+  storagePath: string;
+  size: number;
+}
+
+/**
+ * Suscripción de una asociación a una plantilla de reporte. La función
+ * programada genera el reporte del período, guarda los archivos y los envía
+ * por email a los destinatarios
+ */
 export interface ReportSchedule {
   id: string;
   templateId: string;
+  templateTitle: string;
   userId: string;
   asociacionId: string;
-  frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly';
-  parameters: ReportParameters;
+  frequency: ReportFrequency;
+  formats: ReportFileFormat[];
+  recipients: string[];
   isActive: boolean;
   nextRun: Timestamp;
   lastRun?: Timestamp;
+  lastStatus?: 'running' | 'completed' | 'failed';
+  lastError?: string | null;
+  lastReportId?: string | null;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
@@ -1,3 +1,5 @@
+import { CuerposPorCanal } from './notification';
+
 export type SimpleNotificationType = 'info' | 'success' | 'warning' | 'error';
 export type SimpleNotificationChannel = 'email' | 'whatsapp' | 'app';
 
@@ -10,7 +12,9 @@ export interface SimpleNotification {
   recipientIds: string[];
   createdAt: Date;
   createdBy: string;
-  status: 'draft' | 'sending' | 'sent' | 'failed';
+  // 'pending_approval' y 'approved': retenida por un workflow de aprobación;
+  // 'rejected' si la solicitud se rechazó
+  status: 'draft' | 'pending_approval' | 'approved' | 'rejected' | 'sending' | 'sent' | 'failed';
 }
 
 export interface SimpleNotificationFormData {
@@ -19,6 +23,10 @@ export interface SimpleNotificationFormData {
   type: SimpleNotificationType;
   channels: SimpleNotificationChannel[];
   recipientIds: string[];
+  // Asunto del email y texto de WhatsApp propios de la plantilla
+  cuerpos?: CuerposPorCanal;
+  // Asociación remitente: sus emails salen con su logo, colores y pie
+  asociacionId?: string;
 }
 
 export interface SimpleNotificationSettings {
@@ -34,6 +42,8 @@ export interface SimpleNotificationResult {
   sentCount: number;
   failedCount: number;
   errors: string[];
+  // El envío quedó retenido esperando aprobación; no se envió nada todavía
+  pendingApproval?: boolean;
 }
 
 export interface RecipientInfo {
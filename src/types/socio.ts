@@ -1,4 +1,6 @@
 import { Timestamp } from 'firebase/firestore';
+import { RachaSocio } from './fidelizacion';
+import { CuentaCuotas } from './cuotas';
 
 export interface Pago {
   fecha: Timestamp;
@@ -131,7 +133,16 @@ export interface Socio {
     beneficiosDesbloqueados: string[];
     descuentoAdicional: number;
   };
+  // Puntos de la ventana vigente; se acreditan al instante y el nivel se recalcula a diario
+  puntosFidelidad?: number;
+  // Puntos disponibles para canjear: todo lo acreditado menos lo canjeado
+  saldoPuntos?: number;
+  racha?: RachaSocio;
+  nivelAnterior?: SocioLevel['nivel'];
+  nivelActualizadoEn?: Timestamp;
   pagos?: Pago[];
+  // Saldo de cuotas; de acá se deriva estadoMembresia
+  cuentaCuotas?: CuentaCuotas;
   fotoPerfil?: string; // URL de la foto de perfil
   
   // Relaciones bidireccionales con asociaciones
@@ -139,6 +150,27 @@ export interface Socio {
   asociacionPrincipal?: string; // ID de la asociación principal
   fechaVinculacion?: Timestamp; // Fecha de vinculación a la asociación actual
   vinculadoPor?: string; // ID del usuario que realizó la vinculación
+  hasAuthAccount?: boolean; // Tiene cuenta de acceso propia
+
+  // Grupo familiar: el dependiente comparte la membresía y la cuota del titular
+  titularId?: string;
+  parentesco?: Parentesco;
+  dependientesIds?: string[];
+  ultimoDependiente?: number; // Último sufijo usado en el número de los dependientes
+}
+
+export type Parentesco = 'conyuge' | 'hijo' | 'padre' | 'hermano' | 'otro';
+
+// Alta de un dependiente. Con email y contraseña tiene su propio acceso;
+// sin ellos solo usa la credencial QR que le muestra el titular.
+export interface DependienteFormData {
+  nombre: string;
+  parentesco: Parentesco;
+  dni?: string;
+  telefono?: string;
+  fechaNacimiento?: Date;
+  email?: string;
+  password?: string;
 }
 
 // Tipo simplificado para el formulario de creación/edición de socios
@@ -1,4 +1,5 @@
 import { Timestamp } from 'firebase/firestore';
+import { BenefitRestrictionCode } from '@/lib/benefit-schedule';
 
 export interface Validacion {
   id: string;
@@ -29,10 +30,24 @@ export interface Validacion {
   
 }
 
+// Cómo se probó la presencia del socio en el comercio
+export type MetodoValidacion = 'qr_comercio' | 'credencial_socio' | 'credencial_socio_offline' | 'canje_puntos';
+
+// Lo que devuelve /api/validaciones/autorizacion
+export interface AutorizacionValidacion {
+  // ID con el que se registra la validación
+  autorizacionId: string;
+  metodoValidacion: MetodoValidacion;
+  // Momento en que se evalúa una validación sin conexión (ms); null si es ahora
+  capturadoEn: number | null;
+}
+
 export interface ValidacionRequest {
   socioId: string;
   comercioId: string;
   beneficioId?: string;
+  qrToken?: string | null; // Token firmado del QR escaneado (null = QR sin firmar)
+  medioPago?: string;
   ubicacion?: {
     lat: number;
     lng: number;
@@ -62,6 +77,7 @@ export interface ValidacionResponse {
   beneficioTitulo?: string;
   id?: string;
   comercioNombre?: string;
+  errorCode?: BenefitRestrictionCode;
 }
 
 export interface QRData {
@@ -0,0 +1,106 @@
+/**
+ * Envío de WhatsApp con varios proveedores: se prueban por prioridad y se
+ * pasa al siguiente cuando uno falla, está limitado o tiene el circuito abierto.
+ */
+export type ProveedorWhatsAppId =
+  | 'green_api'
+  | 'callmebot'
+  | 'baileys'
+  | 'meta_whatsapp'
+  | 'twilio'
+  | '360dialog'
+  | 'mock';
+
+// cerrado: envía normalmente; abierto: se saltea hasta que pase el tiempo de
+// apertura; semiabierto: deja pasar un envío de prueba
+export type EstadoCircuito = 'cerrado' | 'abierto' | 'semiabierto';
+
+export interface IntentoEnvioWhatsApp {
+  proveedor: ProveedorWhatsAppId;
+  resultado: 'enviado' | 'fallido' | 'circuito_abierto' | 'limite_tasa';
+  error?: string;
+}
+
+export interface ResultadoEnvioWhatsApp {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  proveedor?: ProveedorWhatsAppId;
+  fallbackUsed: boolean;
+  intentos: IntentoEnvioWhatsApp[];
+  timestamp: Date;
+}
+
+export interface SaludProveedorWhatsApp {
+  id: ProveedorWhatsAppId;
+  nombre: string;
+  prioridad: number;
+  configurado: boolean;
+  costo: 'free' | 'paid';
+  limitaciones?: string;
+  circuito: EstadoCircuito;
+  fallasConsecutivas: number;
+  // ISO; hasta cuándo se saltea el proveedor con el circuito abierto
+  abiertoHasta?: string;
+  limitePorMinuto: number;
+  enviosUltimoMinuto: number;
+  enviados: number;
+  fallidos: number;
+  ultimoError?: string;
+  ultimoEnvio?: string;
+}
+
+/**
+ * Bandeja de entrada: los mensajes que llegan por WhatsApp Web se vinculan al
+ * socio por su teléfono y se guardan en un hilo por número y asociación.
+ */
+export type ComandoWhatsApp = 'saldo' | 'beneficios' | 'baja' | 'alta';
+
+export interface MensajeEntranteWhatsApp {
+  messageId: string;
+  // Número tal como lo informa WhatsApp, sin el sufijo @s.whatsapp.net
+  telefono: string;
+  texto: string;
+  nombrePerfil?: string;
+  recibidoEn: Date;
+}
+
+// abierto: tiene mensajes que el personal no respondió; resuelto: no espera respuesta
+export type EstadoHiloWhatsApp = 'abierto' | 'resuelto';
+
+export interface HiloWhatsApp {
+  id: string;
+  // null si el número no corresponde a ningún socio
+  asociacionId: string | null;
+  socioId: string | null;
+  socioNombre: string | null;
+  // +549… normalizado con phone-validator
+  telefono: string;
+  nombrePerfil?: string | null;
+  estado: EstadoHiloWhatsApp;
+  // Mensajes que no se contestaron con un comando
+  noLeidos: number;
+  ultimoMensaje: string;
+  ultimaDireccion: DireccionMensajeWhatsApp;
+  ultimoMensajeEn: Date;
+  creadoEn: Date;
+}
+
+export type DireccionMensajeWhatsApp = 'entrante' | 'saliente';
+
+export interface MensajeHiloWhatsApp {
+  id: string;
+  direccion: DireccionMensajeWhatsApp;
+  texto: string;
+  // Comando reconocido en un mensaje entrante
+  comando?: ComandoWhatsApp | null;
+  // Saliente enviado sin intervención del personal
+  respuestaAutomatica?: boolean;
+  // UID de quien respondió desde la bandeja
+  enviadoPor?: string | null;
+  // Salientes: false si ningún proveedor pudo entregarlo
+  enviado?: boolean;
+  proveedor?: ProveedorWhatsAppId | null;
+  error?: string | null;
+  creadoEn: Date;
+}